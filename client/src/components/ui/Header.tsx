@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { cn } from '../../utils/cn';
 import logo from '../../logo.svg';
 import Badge from './Badge';
+import { getBlockExplorerUrl, getSupportedChains } from '../../config/chains';
 import { walletConnectionService, WalletConnectionState } from '../../services/WalletConnectionService';
 import { useToast } from '../../hooks/useToast';
 import WalletConnectionModal from './WalletConnectionModal';
@@ -497,12 +498,7 @@ const Header: React.FC<HeaderProps> = ({
                             <button
                               onClick={() => {
                                 const network = connectionState.network || 'ethereum';
-                                const baseUrl = network === 'sepolia'
-                                  ? 'https://sepolia.etherscan.io'
-                                  : network === 'arbitrum'
-                                  ? 'https://arbiscan.io'
-                                  : 'https://etherscan.io';
-                                window.open(`${baseUrl}/address/${connectionState.signerAddress}`, '_blank');
+                                window.open(`${getBlockExplorerUrl(network)}/address/${connectionState.signerAddress}`, '_blank');
                               }}
                               className="p-1 text-gray-400 hover:text-white transition-colors"
                               title="View on block explorer"
@@ -642,33 +638,18 @@ const Header: React.FC<HeaderProps> = ({
       {/* Network Selector Dropdown - Only show when wallet is connected */}
       {walletConnected && networkSelectorOpen && (
         <div className="fixed top-20 right-6 bg-gray-900/95 border border-gray-600 rounded-xl w-48 z-[9999] shadow-2xl backdrop-blur-lg overflow-hidden network-selector">
-          <div
-            className={`px-4 py-3 cursor-pointer text-sm font-medium capitalize transition-all duration-200 flex items-center gap-2 hover:bg-gray-800 hover:text-white ${network === 'ethereum' ? 'bg-blue-500/20 text-blue-400 border-l-2 border-blue-500' : 'text-gray-300'}`}
-            onClick={() => onSelectNetwork('ethereum')}
-            data-1p-ignore="true"
-            data-lpignore="true"
-          >
-            <Badge variant="primary" size="sm" dot />
-            Ethereum
-          </div>
-          <div
-            className={`px-4 py-3 cursor-pointer text-sm font-medium capitalize transition-all duration-200 flex items-center gap-2 hover:bg-gray-800 hover:text-white ${network === 'sepolia' ? 'bg-blue-500/20 text-blue-400 border-l-2 border-blue-500' : 'text-gray-300'}`}
-            onClick={() => onSelectNetwork('sepolia')}
-            data-1p-ignore="true"
-            data-lpignore="true"
-          >
-            <Badge variant="warning" size="sm" dot />
-            Sepolia
-          </div>
-          <div
-            className={`px-4 py-3 cursor-pointer text-sm font-medium capitalize transition-all duration-200 flex items-center gap-2 hover:bg-gray-800 hover:text-white ${network === 'arbitrum' ? 'bg-blue-500/20 text-blue-400 border-l-2 border-blue-500' : 'text-gray-300'}`}
-            onClick={() => onSelectNetwork('arbitrum')}
-            data-1p-ignore="true"
-            data-lpignore="true"
-          >
-            <Badge variant="info" size="sm" dot />
-            Arbitrum
-          </div>
+          {getSupportedChains().map(chain => (
+            <div
+              key={chain.network}
+              className={`px-4 py-3 cursor-pointer text-sm font-medium capitalize transition-all duration-200 flex items-center gap-2 hover:bg-gray-800 hover:text-white ${network === chain.network ? 'bg-blue-500/20 text-blue-400 border-l-2 border-blue-500' : 'text-gray-300'}`}
+              onClick={() => onSelectNetwork(chain.network)}
+              data-1p-ignore="true"
+              data-lpignore="true"
+            >
+              <Badge variant={chain.isTestnet ? 'warning' : 'primary'} size="sm" dot />
+              {chain.shortName}
+            </div>
+          ))}
         </div>
       )}
 
@@ -17,6 +17,8 @@ import TransactionModal from './components/TransactionModal';
 import HomePage from './pages/HomePage';
 import AssetsPage from './pages/AssetsPage';
 import TransactionsPage from './pages/TransactionsPage';
+import MessagesPage from './pages/MessagesPage';
+import ApprovalsPage from './pages/ApprovalsPage';
 import AddressBookPage from './pages/AddressBookPage';
 import SettingsPage from './pages/SettingsPage';
 
@@ -25,9 +27,12 @@ import { Asset, Transaction, MenuSection, WalletPageProps } from './types';
 
 // Import services
 import { TokenService } from '../../services/TokenService';
+import { TokenDiscoveryService } from '../../services/TokenDiscoveryService';
+import { getAssetListFields } from '../../services/TokenListService';
 import { TrustedContractsAssetService } from '../../services/TrustedContractsAssetService';
 import { safeWalletService } from '../../services/SafeWalletService';
-import { getRpcUrl } from '../../contracts/abis';
+import { getRpcProvider } from '../../services/FailoverRpcProvider';
+import { priceService } from '../../services/PriceService';
 
 
 // Menu Icons
@@ -62,6 +67,21 @@ const TransactionsIcon = () => (
   </svg>
 );
 
+const MessagesIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M4 5H20C20.5523 5 21 5.44772 21 6V16C21 16.5523 20.5523 17 20 17H9L5 20V17H4C3.44772 17 3 16.5523 3 16V6C3 5.44772 3.44772 5 4 5Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M7 10H17" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+    <path d="M7 13H13" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+  </svg>
+);
+
+const ApprovalsIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M12 3L19 6V11C19 15.5 16 19 12 21C8 19 5 15.5 5 11V6L12 3Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M9 12L11 14L15 10" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
 const AddressBookIcon = () => (
   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
     <path d="M16 4H18C18.5523 4 19 4.44772 19 5V19C19 19.5523 18.5523 20 18 20H6C5.44772 20 5 19.5523 5 19V5C5 4.44772 5.44772 4 6 4H8" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
@@ -134,6 +154,9 @@ const WalletPage: React.FC<WalletPageProps> = ({
   const [showQRCode, setShowQRCode] = useState(false);
   const [isTransactionModalOpen, setIsTransactionModalOpen] = useState(false);
   const [selectedAssetForSend, setSelectedAssetForSend] = useState<Asset | null>(null);
+  // Assets valued with the Chainlink feeds of the network, null until the feeds are read
+  const [pricedAssets, setPricedAssets] = useState<Asset[] | null>(null);
+  const [priceFeedsVersion, setPriceFeedsVersion] = useState(0);
 
   const handleTransactionCreated = (transaction: any) => {
     // Add the new transaction to the list
@@ -163,8 +186,7 @@ const WalletPage: React.FC<WalletPageProps> = ({
       const regularAssets = await loadTokenBalances(walletAddress, network || 'ethereum');
 
       // Enhance with trusted contracts
-      const rpcUrl = getRpcUrl(network || 'ethereum');
-      const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+      const provider = getRpcProvider(network || 'ethereum');
       const trustedAssetService = new TrustedContractsAssetService(network || 'ethereum', provider);
 
       const enhancedAssets = await trustedAssetService.enhanceAssetsWithTrustedContracts(regularAssets, walletAddress);
@@ -183,8 +205,7 @@ const WalletPage: React.FC<WalletPageProps> = ({
       console.log('🔄 Refreshing assets with trusted contracts...');
       setIsLoading(true);
 
-      const rpcUrl = getRpcUrl(network || 'ethereum');
-      const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+      const provider = getRpcProvider(network || 'ethereum');
       const trustedAssetService = new TrustedContractsAssetService(network || 'ethereum', provider);
 
       // Load base ETH asset
@@ -192,7 +213,8 @@ const WalletPage: React.FC<WalletPageProps> = ({
         symbol: 'ETH',
         name: 'Ethereum',
         balance: '0.0',
-        value: '$0.00',
+        rawBalance: '0',
+        value: '',
         type: 'native'
       }];
 
@@ -200,14 +222,13 @@ const WalletPage: React.FC<WalletPageProps> = ({
         // Try to get current ETH balance
         const ethBalance = await provider.getBalance(walletAddress);
         const formattedBalance = parseFloat(ethers.utils.formatEther(ethBalance)).toFixed(4);
-        const mockEthPrice = 2000; // Mock price
-        const usdValue = parseFloat(formattedBalance) * mockEthPrice;
 
         baseAssets[0] = {
           symbol: 'ETH',
           name: 'Ethereum',
           balance: formattedBalance,
-          value: `$${usdValue.toFixed(2)}`,
+          rawBalance: ethBalance.toString(),
+          value: '',
           type: 'native'
         };
       } catch (ethError) {
@@ -232,8 +253,7 @@ const WalletPage: React.FC<WalletPageProps> = ({
       console.log(`🪙 Loading token balances for Safe: ${safeAddress} on ${network}`);
 
       // Initialize TokenService with the current provider
-      const rpcUrl = getRpcUrl(network);
-      const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+      const provider = getRpcProvider(network);
       const tokenService = new TokenService(provider, network);
 
       // Get ETH balance from Safe info - ensure SafeWalletService is initialized
@@ -249,8 +269,7 @@ const WalletPage: React.FC<WalletPageProps> = ({
         // Try to reinitialize SafeWalletService
         await safeWalletService.initialize({
           safeAddress,
-          network,
-          rpcUrl
+          network
         });
 
         safeInfo = await safeWalletService.getSafeInfo();
@@ -265,50 +284,40 @@ const WalletPage: React.FC<WalletPageProps> = ({
           symbol: 'ETH',
           name: 'Ethereum',
           balance: ethBalance,
-          value: `$${(parseFloat(ethBalance) * 2000).toFixed(2)}`, // Mock ETH price
+          rawBalance: ethers.utils.parseEther(ethBalance).toString(),
+          value: '', // Set from the price feeds
           type: 'native'
         }
       ];
 
-      // Get all token balances (known + popular tokens)
+      // Get all token balances (known + discovered from Transfer logs + pinned tokens)
       console.log(`🔍 Checking for ERC-20 token balances on ${network}...`);
       console.log(`📍 Safe address: ${safeAddress}`);
 
       // Debug: Show which tokens we're checking
       const knownTokens = tokenService.getKnownTokens();
-      const popularAddresses = tokenService.getPopularTokenAddresses();
-      console.log(`🔍 Known tokens from TOKEN_ADDRESSES:`, knownTokens);
-      console.log(`🔍 Popular token addresses for ${network}:`, popularAddresses);
+      console.log(`🔍 Known tokens from the chain registry:`, knownTokens);
 
-      const tokenBalances = await tokenService.getAllTokenBalances(safeAddress);
+      const tokenDiscoveryService = new TokenDiscoveryService(provider, network);
+      const tokenBalances = await tokenDiscoveryService.getTokenBalances(safeAddress);
 
       console.log(`✅ Found ${tokenBalances.length} tokens with balances`);
 
       // Add all tokens with balances to assets
       for (const tokenBalance of tokenBalances) {
-        // Calculate mock USD value (in a real app, you'd fetch from a price API)
-        const symbol = tokenBalance.tokenInfo.symbol.toUpperCase();
-        const mockPrice = symbol === 'USDC' || symbol === 'USDT' ? 1 :
-                         symbol === 'DAI' ? 1 :
-                         symbol === 'WETH' || symbol === 'ETH' ? 2000 :
-                         symbol === 'WBTC' || symbol === 'BTC' ? 45000 :
-                         symbol === 'UNI' ? 8 :
-                         symbol === 'AAVE' ? 85 :
-                         symbol === 'LINK' ? 15 : 100;
-
-        const usdValue = parseFloat(tokenBalance.formattedBalance) * mockPrice;
-
         assets.push({
           symbol: tokenBalance.tokenInfo.symbol,
           name: tokenBalance.tokenInfo.name,
           balance: tokenBalance.formattedBalance,
-          value: `$${usdValue.toFixed(2)}`,
+          rawBalance: tokenBalance.balance,
+          value: '',
           type: 'erc20',
           contractAddress: tokenBalance.tokenInfo.address,
-          decimals: tokenBalance.tokenInfo.decimals
+          decimals: tokenBalance.tokenInfo.decimals,
+          ...getAssetListFields(tokenBalance.tokenInfo.listStatus)
         });
 
-        console.log(`💰 ${tokenBalance.tokenInfo.symbol}: ${tokenBalance.formattedBalance} ($${usdValue.toFixed(2)})`);
+        console.log(`💰 ${tokenBalance.tokenInfo.symbol}: ${tokenBalance.formattedBalance}`);
       }
 
       console.log(`🎯 Loaded ${assets.length} assets (${assets.length - 1} ERC-20 tokens with balances)`);
@@ -328,11 +337,9 @@ const WalletPage: React.FC<WalletPageProps> = ({
           console.log('🔄 Fallback: Reinitializing SafeWalletService...');
 
           // Try to reinitialize SafeWalletService for fallback
-          const rpcUrl = getRpcUrl(network);
           await safeWalletService.initialize({
             safeAddress,
-            network,
-            rpcUrl
+            network
           });
 
           safeInfo = await safeWalletService.getSafeInfo();
@@ -342,7 +349,8 @@ const WalletPage: React.FC<WalletPageProps> = ({
           symbol: 'ETH',
           name: 'Ethereum',
           balance: safeInfo.balance,
-          value: `$${(parseFloat(safeInfo.balance) * 2000).toFixed(2)}`,
+          rawBalance: ethers.utils.parseEther(safeInfo.balance).toString(),
+          value: '',
           type: 'native'
         }];
       } catch (fallbackError) {
@@ -360,6 +368,27 @@ const WalletPage: React.FC<WalletPageProps> = ({
     setCurrentNetwork(network);
   }, [network]);
 
+  // Re-price the assets when a price feed is added or replaced
+  useEffect(() => priceService.subscribe(() => setPriceFeedsVersion(version => version + 1)), []);
+
+  // Value the assets with the on-chain price feeds, reads are cached per block
+  useEffect(() => {
+    let cancelled = false;
+    setPricedAssets(null);
+
+    priceService.priceAssets(network || 'ethereum', assets).then(priced => {
+      if (!cancelled) {
+        setPricedAssets(priced);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [assets, network, priceFeedsVersion]);
+
+  const displayedAssets = pricedAssets || assets;
+
   // Toggle QR code modal
   const toggleQRCode = () => {
     setShowQRCode(!showQRCode);
@@ -379,15 +408,15 @@ const WalletPage: React.FC<WalletPageProps> = ({
 
         // Even on timeout, try to load trusted contracts quickly
         try {
-          const rpcUrl = getRpcUrl(network || 'ethereum');
-          const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+          const provider = getRpcProvider(network || 'ethereum');
           const trustedAssetService = new TrustedContractsAssetService(network || 'ethereum', provider);
 
           const baseAssets: Asset[] = [{
             symbol: 'ETH',
             name: 'Ethereum',
             balance: '0.0',
-            value: '$0.00',
+            rawBalance: '0',
+            value: '',
             type: 'native'
           }];
 
@@ -400,7 +429,8 @@ const WalletPage: React.FC<WalletPageProps> = ({
             symbol: 'ETH',
             name: 'Ethereum',
             balance: '0.0',
-            value: '$0.00',
+            rawBalance: '0',
+            value: '',
             type: 'native'
           }]);
         }
@@ -413,8 +443,7 @@ const WalletPage: React.FC<WalletPageProps> = ({
         // Skip complex Safe wallet connection - just load basic ETH balance directly
         console.log('💰 Loading ETH balance directly via RPC...');
 
-        const rpcUrl = getRpcUrl(network || 'ethereum');
-        const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+        const provider = getRpcProvider(network || 'ethereum');
 
         // Simple ETH balance check with 3-second timeout
         const balancePromise = provider.getBalance(walletAddress);
@@ -431,7 +460,8 @@ const WalletPage: React.FC<WalletPageProps> = ({
             symbol: 'ETH',
             name: 'Ethereum',
             balance: formattedBalance,
-            value: `$${(parseFloat(formattedBalance) * 2000).toFixed(2)}`,
+            rawBalance: (ethBalance as ethers.BigNumber).toString(),
+            value: '',
             type: 'native'
           }];
 
@@ -456,7 +486,8 @@ const WalletPage: React.FC<WalletPageProps> = ({
             symbol: 'ETH',
             name: 'Ethereum',
             balance: '0.0',
-            value: '$0.00',
+            rawBalance: '0',
+            value: '',
             type: 'native'
           }]);
         }
@@ -471,7 +502,8 @@ const WalletPage: React.FC<WalletPageProps> = ({
           symbol: 'ETH',
           name: 'Ethereum',
           balance: '0.0',
-          value: '$0.00',
+          rawBalance: '0',
+          value: '',
           type: 'native'
         }]);
         setTransactions([]);
@@ -496,7 +528,7 @@ const WalletPage: React.FC<WalletPageProps> = ({
             walletAddress={walletAddress}
             ensName={ensName}
             network={currentNetwork}
-            assets={assets}
+            assets={displayedAssets}
             onTransactionCreated={handleTransactionCreated}
             onNavigateToSection={setActiveSection}
           />
@@ -504,11 +536,12 @@ const WalletPage: React.FC<WalletPageProps> = ({
       case 'assets':
         return (
           <AssetsPage
-            assets={assets}
+            assets={displayedAssets}
             isLoading={isLoading}
             onSendAsset={handleSendAsset}
             onRefresh={refreshAssetsWithTrustedContracts}
             network={currentNetwork}
+            safeAddress={walletAddress}
           />
         );
       case 'transactions':
@@ -518,6 +551,20 @@ const WalletPage: React.FC<WalletPageProps> = ({
             network={network}
           />
         );
+      case 'messages':
+        return (
+          <MessagesPage
+            safeAddress={walletAddress}
+            network={currentNetwork}
+          />
+        );
+      case 'approvals':
+        return (
+          <ApprovalsPage
+            safeAddress={walletAddress}
+            network={currentNetwork}
+          />
+        );
       case 'addressbook':
         return <AddressBookPage network={currentNetwork} />;
       case 'settings':
@@ -567,6 +614,20 @@ const WalletPage: React.FC<WalletPageProps> = ({
         >
           Transactions
         </MenuItem>
+        <MenuItem
+          active={activeSection === 'messages'}
+          onClick={() => setActiveSection('messages')}
+          icon={<MessagesIcon />}
+        >
+          Messages
+        </MenuItem>
+        <MenuItem
+          active={activeSection === 'approvals'}
+          onClick={() => setActiveSection('approvals')}
+          icon={<ApprovalsIcon />}
+        >
+          Approvals
+        </MenuItem>
         <MenuItem
           active={activeSection === 'addressbook'}
           onClick={() => setActiveSection('addressbook')}
@@ -605,6 +666,7 @@ const WalletPage: React.FC<WalletPageProps> = ({
         onTransactionCreated={handleTransactionCreated}
         fromAddress={walletAddress}
         preSelectedAsset={selectedAssetForSend}
+        assets={displayedAssets}
       />
     </WalletPageLayout>
   );
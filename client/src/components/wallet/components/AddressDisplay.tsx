@@ -1,5 +1,6 @@
 import React from 'react';
 import styled from 'styled-components';
+import { getBlockExplorerUrl, getChainConfigOrDefault } from '../../../config/chains';
 
 const Container = styled.div`
   display: inline-flex;
@@ -147,40 +148,13 @@ const AddressDisplay: React.FC<AddressDisplayProps> = ({
 
   // Get block explorer URL based on network and type
   const getExplorerUrl = (address: string, network: string, type: string): string => {
-    const explorers: { [key: string]: string } = {
-      ethereum: 'https://etherscan.io',
-      sepolia: 'https://sepolia.etherscan.io',
-      polygon: 'https://polygonscan.com',
-      arbitrum: 'https://arbiscan.io',
-      optimism: 'https://optimistic.etherscan.io',
-      base: 'https://basescan.org',
-      bsc: 'https://bscscan.com',
-      avalanche: 'https://snowtrace.io',
-      fantom: 'https://ftmscan.com',
-      gnosis: 'https://gnosisscan.io'
-    };
-
-    const baseUrl = explorers[network.toLowerCase()] || explorers.ethereum;
     const path = type === 'transaction' ? 'tx' : 'address';
-    return `${baseUrl}/${path}/${address}`;
+    return `${getBlockExplorerUrl(network)}/${path}/${address}`;
   };
 
   // Get network display name
   const getNetworkName = (network: string): string => {
-    const names: { [key: string]: string } = {
-      ethereum: 'Ethereum',
-      sepolia: 'Sepolia',
-      polygon: 'Polygon',
-      arbitrum: 'Arbitrum',
-      optimism: 'Optimism',
-      base: 'Base',
-      bsc: 'BSC',
-      avalanche: 'Avalanche',
-      fantom: 'Fantom',
-      gnosis: 'Gnosis'
-    };
-
-    return names[network.toLowerCase()] || 'Ethereum';
+    return getChainConfigOrDefault(network).shortName;
   };
 
   // Format address for display
@@ -0,0 +1,442 @@
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { ethers } from 'ethers';
+import { Button, Input } from '@components/ui';
+import { MultiSendService, BatchCall } from '../../../services/MultiSendService';
+import { TransactionDecoder, DecodedTransactionData } from '../../../utils/transactionDecoder';
+import { TokenService } from '../../../services/TokenService';
+import { getMultiSendCallOnlyAddress } from '../../../contracts/abis';
+import { getRpcProvider } from '../../../services/FailoverRpcProvider';
+import { getAssetListWarning } from '../../../services/TokenListService';
+import { Asset } from '../types';
+import AddressBookSelector from './AddressBookSelector';
+import TransactionDataDisplay from './TransactionDataDisplay';
+
+const Container = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 16px;
+  margin-bottom: 24px;
+`;
+
+const CallTypeTabs = styled.div`
+  display: flex;
+  gap: 8px;
+`;
+
+const CallTypeTab = styled.button<{ active: boolean }>`
+  flex: 1;
+  padding: 10px 12px;
+  border-radius: 8px;
+  border: 1px solid ${props => props.active ? '#4ECDC4' : '#475569'};
+  background: ${props => props.active ? 'rgba(78, 205, 196, 0.1)' : '#334155'};
+  color: ${props => props.active ? '#4ECDC4' : '#94a3b8'};
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover:not(:disabled) {
+    border-color: #4ECDC4;
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const Label = styled.label`
+  display: block;
+  color: #ffffff;
+  font-size: 14px;
+  font-weight: 500;
+  margin-bottom: 8px;
+`;
+
+const Select = styled.select`
+  width: 100%;
+  padding: 12px 16px;
+  background: #334155;
+  border: 1px solid #475569;
+  border-radius: 8px;
+  color: #ffffff;
+  font-size: 14px;
+
+  &:focus {
+    outline: none;
+    border-color: #4ECDC4;
+  }
+`;
+
+const TextArea = styled.textarea`
+  width: 100%;
+  min-height: 80px;
+  padding: 12px 16px;
+  background: #334155;
+  border: 1px solid #475569;
+  border-radius: 8px;
+  color: #ffffff;
+  font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+  font-size: 12px;
+  resize: vertical;
+  box-sizing: border-box;
+
+  &:focus {
+    outline: none;
+    border-color: #4ECDC4;
+  }
+`;
+
+const ErrorText = styled.div`
+  color: #ef4444;
+  font-size: 13px;
+`;
+
+const QueueHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  color: #ffffff;
+  font-size: 16px;
+  font-weight: 600;
+`;
+
+const TokenListWarning = styled.div<{ severity: 'warning' | 'danger' }>`
+  margin-top: 6px;
+  font-size: 12px;
+  color: ${props => props.severity === 'danger' ? '#ff4444' : '#f59e0b'};
+`;
+
+const SpamToggle = styled.button`
+  margin-top: 6px;
+  padding: 0;
+  background: none;
+  border: none;
+  color: #94a3b8;
+  font-size: 12px;
+  cursor: pointer;
+
+  &:hover {
+    color: #e2e8f0;
+  }
+`;
+
+const QueueList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`;
+
+const QueueItem = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+  padding: 10px 12px;
+  background: #334155;
+  border: 1px solid #475569;
+  border-radius: 8px;
+  color: #e2e8f0;
+  font-size: 13px;
+`;
+
+const QueueItemText = styled.span`
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const RemoveButton = styled.button`
+  background: none;
+  border: none;
+  color: #ef4444;
+  font-size: 18px;
+  cursor: pointer;
+  padding: 0 4px;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const EmptyQueue = styled.div`
+  color: #94a3b8;
+  font-size: 13px;
+  font-style: italic;
+`;
+
+type CallType = 'eth' | 'erc20' | 'contract';
+
+interface QueuedCall {
+  call: BatchCall;
+  summary: string;
+}
+
+interface BatchTransactionBuilderProps {
+  network: string;
+  safeAddress?: string;
+  assets?: Asset[];
+  disabled?: boolean;
+  onCallsChange: (calls: BatchCall[]) => void;
+}
+
+const BatchTransactionBuilder: React.FC<BatchTransactionBuilderProps> = ({
+  network,
+  safeAddress,
+  assets = [],
+  disabled = false,
+  onCallsChange
+}) => {
+  const [callType, setCallType] = useState<CallType>('eth');
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [tokenAddress, setTokenAddress] = useState('');
+  const [callData, setCallData] = useState('');
+  const [error, setError] = useState('');
+  const [queue, setQueue] = useState<QueuedCall[]>([]);
+  const [decodedBatch, setDecodedBatch] = useState<DecodedTransactionData | null>(null);
+  const [showSpam, setShowSpam] = useState(false);
+
+  const tokenAssets = assets.filter(asset => asset.type === 'erc20' && asset.contractAddress);
+  // Suspected airdrop spam is only offered on request
+  const spamCount = tokenAssets.filter(asset => asset.isSuspectedSpam).length;
+  const selectableTokens = showSpam ? tokenAssets : tokenAssets.filter(asset => !asset.isSuspectedSpam);
+  const selectedToken = tokenAssets.find(asset => asset.contractAddress === tokenAddress);
+  const selectedTokenWarning = selectedToken ? getAssetListWarning(selectedToken) : null;
+  const batchData = queue.length > 0
+    ? MultiSendService.createMultiSendTxData(queue.map(entry => entry.call))
+    : '';
+
+  // Decode the encoded batch so each sub-call can be reviewed before proposing
+  useEffect(() => {
+    const decodeBatch = async () => {
+      if (!batchData) {
+        setDecodedBatch(null);
+        return;
+      }
+
+      try {
+        const provider = getRpcProvider(network);
+        const tokenService = new TokenService(provider, network);
+        const decoder = new TransactionDecoder(tokenService, network);
+        const multiSendAddress = getMultiSendCallOnlyAddress(network) || ethers.constants.AddressZero;
+        const decoded = await decoder.decodeTransactionData(multiSendAddress, '0', batchData);
+        setDecodedBatch(decoded);
+      } catch (decodeError) {
+        console.error('Error decoding batch transaction:', decodeError);
+        setDecodedBatch(null);
+      }
+    };
+
+    decodeBatch();
+  }, [batchData, network]);
+
+  const resetCallForm = () => {
+    setRecipient('');
+    setAmount('');
+    setCallData('');
+    setError('');
+  };
+
+  const updateQueue = (nextQueue: QueuedCall[]) => {
+    setQueue(nextQueue);
+    onCallsChange(nextQueue.map(entry => entry.call));
+  };
+
+  const buildCall = (): QueuedCall => {
+    switch (callType) {
+      case 'erc20': {
+        const token = selectedToken;
+        if (!token || !token.contractAddress) {
+          throw new Error('Select a token to transfer');
+        }
+        if (!amount || parseFloat(amount) <= 0) {
+          throw new Error('Amount must be greater than 0');
+        }
+        return {
+          call: MultiSendService.createErc20TransferCall(token.contractAddress, recipient, amount, token.decimals || 18),
+          summary: `Send ${amount} ${token.symbol} to ${recipient}`
+        };
+      }
+      case 'contract':
+        return {
+          call: MultiSendService.createContractCall(recipient, amount || '0', callData.trim() || '0x'),
+          summary: `Call ${recipient}${amount && parseFloat(amount) > 0 ? ` with ${amount} ETH` : ''}`
+        };
+      case 'eth':
+      default:
+        if (!amount || parseFloat(amount) <= 0) {
+          throw new Error('Amount must be greater than 0');
+        }
+        return {
+          call: MultiSendService.createEthTransferCall(recipient, amount),
+          summary: `Send ${amount} ETH to ${recipient}`
+        };
+    }
+  };
+
+  const handleAddCall = () => {
+    setError('');
+
+    if (!recipient.trim()) {
+      setError(callType === 'contract' ? 'Contract address is required' : 'Recipient address is required');
+      return;
+    }
+
+    try {
+      const queuedCall = buildCall();
+      updateQueue([...queue, queuedCall]);
+      resetCallForm();
+    } catch (buildError: any) {
+      setError(buildError.message || 'Invalid call');
+    }
+  };
+
+  const handleRemoveCall = (index: number) => {
+    updateQueue(queue.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Container>
+      <CallTypeTabs>
+        <CallTypeTab type="button" active={callType === 'eth'} onClick={() => setCallType('eth')} disabled={disabled}>
+          ETH Transfer
+        </CallTypeTab>
+        <CallTypeTab
+          type="button"
+          active={callType === 'erc20'}
+          onClick={() => setCallType('erc20')}
+          disabled={disabled || tokenAssets.length === 0}
+          title={tokenAssets.length === 0 ? 'No ERC-20 tokens available in this Safe' : undefined}
+        >
+          Token Transfer
+        </CallTypeTab>
+        <CallTypeTab type="button" active={callType === 'contract'} onClick={() => setCallType('contract')} disabled={disabled}>
+          Contract Call
+        </CallTypeTab>
+      </CallTypeTabs>
+
+      {callType === 'erc20' && (
+        <div>
+          <Label>Token</Label>
+          <Select value={tokenAddress} onChange={(e) => setTokenAddress(e.target.value)} disabled={disabled}>
+            <option value="">Select token...</option>
+            {selectableTokens.map(asset => (
+              <option key={asset.contractAddress} value={asset.contractAddress}>
+                {getAssetListWarning(asset) ? '⚠ ' : ''}{asset.symbol} (Balance: {asset.balance})
+              </option>
+            ))}
+          </Select>
+          {selectedTokenWarning && (
+            <TokenListWarning severity={selectedTokenWarning.severity}>⚠ {selectedTokenWarning.message}</TokenListWarning>
+          )}
+          {spamCount > 0 && (
+            <SpamToggle
+              type="button"
+              onClick={() => {
+                // Hiding spam again clears a selected spam token
+                if (showSpam && selectedToken?.isSuspectedSpam) setTokenAddress('');
+                setShowSpam(!showSpam);
+              }}
+            >
+              {showSpam
+                ? 'Hide suspected spam tokens'
+                : `Show ${spamCount} suspected spam token${spamCount === 1 ? '' : 's'}`}
+            </SpamToggle>
+          )}
+        </div>
+      )}
+
+      <div>
+        <Label>{callType === 'contract' ? 'Contract Address' : 'Recipient Address'}</Label>
+        {callType === 'contract' ? (
+          <Input
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value)}
+            placeholder="0x..."
+            disabled={disabled}
+            fullWidth
+          />
+        ) : (
+          <AddressBookSelector
+            value={recipient}
+            onChange={setRecipient}
+            placeholder="Select from address book or enter address..."
+            disabled={disabled}
+            network={network}
+            safeAddress={safeAddress}
+          />
+        )}
+      </div>
+
+      <Input
+        label={callType === 'contract' ? 'Value (ETH, optional)' : 'Amount'}
+        type="number"
+        step="0.000001"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        placeholder="0.0"
+        disabled={disabled}
+        fullWidth
+      />
+
+      {callType === 'contract' && (
+        <div>
+          <Label>Call Data</Label>
+          <TextArea
+            value={callData}
+            onChange={(e) => setCallData(e.target.value)}
+            placeholder="0x..."
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {error && <ErrorText>{error}</ErrorText>}
+
+      <Button type="button" variant="secondary" onClick={handleAddCall} disabled={disabled}>
+        + Add to Batch
+      </Button>
+
+      <QueueHeader>
+        <span>Batch Calls</span>
+        <span>{queue.length}</span>
+      </QueueHeader>
+
+      {queue.length === 0 ? (
+        <EmptyQueue>No calls added yet. Add at least one call to propose a batch.</EmptyQueue>
+      ) : (
+        <QueueList>
+          {queue.map((entry, index) => (
+            <QueueItem key={index}>
+              <QueueItemText title={entry.summary}>
+                #{index + 1} {entry.summary}
+              </QueueItemText>
+              <RemoveButton
+                type="button"
+                onClick={() => handleRemoveCall(index)}
+                disabled={disabled}
+                title="Remove call from batch"
+              >
+                &times;
+              </RemoveButton>
+            </QueueItem>
+          ))}
+        </QueueList>
+      )}
+
+      {batchData && (
+        <TransactionDataDisplay
+          data={batchData}
+          decodedTransaction={decodedBatch}
+          network={network}
+          compact={true}
+        />
+      )}
+    </Container>
+  );
+};
+
+export default BatchTransactionBuilder;
@@ -0,0 +1,607 @@
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { ethers } from 'ethers';
+import { theme } from '../../../theme';
+import { Button, Input } from '../../ui';
+import { getSafeTxPoolRegistryAddress } from '../../../contracts/abis';
+import { getRpcProvider } from '../../../services/FailoverRpcProvider';
+import { isValidEthereumAddress } from '../../../utils';
+import { SafeDeploymentService, InitialTrustedContract } from '../../../services/SafeDeploymentService';
+import { SafeWalletService } from '../../../services/SafeWalletService';
+import { safeWalletStorageService } from '../../../services/SafeWalletStorageService';
+import { walletConnectionService } from '../../../services/WalletConnectionService';
+import { createAddressBookService, AddressBookEntry } from '../../../services/AddressBookService';
+import { ErrorHandler } from '../../../utils/errorHandling';
+
+interface CreateSafeWizardProps {
+  name: string;
+  network: string;
+  onCreated: (safeAddress: string) => void;
+  onBack?: () => void;
+}
+
+type WizardStep = 'owners' | 'security' | 'deploy' | 'done';
+
+const Section = styled.div`
+  margin-bottom: ${theme.spacing[8]};
+`;
+
+const SectionTitle = styled.div`
+  color: ${theme.colors.text.primary};
+  font-size: 1.25rem;
+  font-weight: ${theme.typography.fontWeight.medium};
+  margin-bottom: ${theme.spacing[2]};
+`;
+
+const SectionDescription = styled.div`
+  color: ${theme.colors.text.muted};
+  font-size: ${theme.typography.fontSize.sm};
+  line-height: 1.5;
+  margin-bottom: ${theme.spacing[4]};
+`;
+
+const Row = styled.div`
+  display: flex;
+  gap: ${theme.spacing[3]};
+  align-items: flex-start;
+  margin-bottom: ${theme.spacing[3]};
+
+  > *:first-child {
+    flex: 1;
+  }
+`;
+
+const Select = styled.select`
+  height: 48px;
+  background: transparent;
+  border: 1px solid rgba(255, 255, 255, 0.3);
+  border-radius: 12px;
+  padding: 0 ${theme.spacing[4]};
+  color: ${theme.colors.text.primary};
+  font-size: ${theme.typography.fontSize.base};
+
+  option {
+    background: ${theme.colors.background.card};
+  }
+
+  &:focus {
+    outline: none;
+    border-color: #0ea5e9;
+  }
+`;
+
+const EntryList = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: ${theme.spacing[2]};
+  margin-top: ${theme.spacing[3]};
+`;
+
+const EntryChip = styled.button`
+  background: rgba(14, 165, 233, 0.1);
+  border: 1px solid rgba(14, 165, 233, 0.4);
+  border-radius: 9999px;
+  padding: ${theme.spacing[1]} ${theme.spacing[3]};
+  color: ${theme.colors.text.primary};
+  font-size: ${theme.typography.fontSize.sm};
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    background: rgba(14, 165, 233, 0.2);
+  }
+
+  &:disabled {
+    opacity: 0.4;
+    cursor: not-allowed;
+  }
+`;
+
+const SummaryBox = styled.div`
+  background: ${theme.colors.background.secondary};
+  border: 1px solid ${theme.colors.border.secondary};
+  border-radius: 12px;
+  padding: ${theme.spacing[4]};
+  margin-bottom: ${theme.spacing[6]};
+`;
+
+const SummaryRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  gap: ${theme.spacing[4]};
+  padding: ${theme.spacing[2]} 0;
+  color: ${theme.colors.text.secondary};
+  font-size: ${theme.typography.fontSize.sm};
+
+  &:not(:last-child) {
+    border-bottom: 1px solid ${theme.colors.border.tertiary};
+  }
+`;
+
+const SummaryValue = styled.span`
+  color: ${theme.colors.text.primary};
+  font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+  text-align: right;
+  word-break: break-all;
+`;
+
+const Message = styled.div.withConfig({
+  shouldForwardProp: (prop) => prop !== 'variant',
+})<{ variant: 'error' | 'success' | 'warning' }>`
+  border-radius: 8px;
+  padding: ${theme.spacing[3]} ${theme.spacing[4]};
+  margin-bottom: ${theme.spacing[4]};
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${props => props.variant === 'error'
+    ? theme.colors.status.error
+    : props.variant === 'success' ? theme.colors.status.success : theme.colors.status.warning};
+  border: 1px solid ${props => props.variant === 'error'
+    ? theme.colors.status.error
+    : props.variant === 'success' ? theme.colors.status.success : theme.colors.status.warning};
+  background: ${theme.colors.background.secondary};
+`;
+
+const ButtonRow = styled.div`
+  display: flex;
+  gap: ${theme.spacing[6]};
+  justify-content: space-between;
+  align-items: center;
+  margin-top: ${theme.spacing[8]};
+`;
+
+const CreateSafeWizard: React.FC<CreateSafeWizardProps> = ({ name, network, onCreated, onBack }) => {
+  const [step, setStep] = useState<WizardStep>('owners');
+  const [owners, setOwners] = useState<string[]>(['']);
+  const [threshold, setThreshold] = useState(1);
+  const [guardAddress, setGuardAddress] = useState('');
+  const [trustedContracts, setTrustedContracts] = useState<InitialTrustedContract[]>([]);
+  const [saltNonce, setSaltNonce] = useState(() => SafeDeploymentService.generateSaltNonce());
+  const [predictedAddress, setPredictedAddress] = useState<string | null>(null);
+  const [deployerAddress, setDeployerAddress] = useState<string | null>(null);
+  const [deployer, setDeployer] = useState<ethers.providers.JsonRpcSigner | null>(null);
+  const [isDeploying, setIsDeploying] = useState(false);
+  const [deployedAddress, setDeployedAddress] = useState<string | null>(null);
+  const [transactionHash, setTransactionHash] = useState<string | null>(null);
+  const [configurationNote, setConfigurationNote] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Address book import (address books are scoped to existing Safes on the same network)
+  const sourceSafes = safeWalletStorageService.getRecentWallets().filter(w => w.network === network);
+  const [addressBookSafe, setAddressBookSafe] = useState('');
+  const [addressBookEntries, setAddressBookEntries] = useState<AddressBookEntry[]>([]);
+
+  const trimmedOwners = owners.map(owner => owner.trim()).filter(owner => owner.length > 0);
+  const ownersError = trimmedOwners.length > 0
+    ? SafeDeploymentService.validateDeploymentConfig(trimmedOwners, threshold)
+    : null;
+  const trimmedGuard = guardAddress.trim();
+  const guardError = trimmedGuard && !isValidEthereumAddress(trimmedGuard) ? 'Please enter a valid guard address' : null;
+  const trustedContractsError = trustedContracts.some(c => !isValidEthereumAddress(c.address.trim()) || !c.name.trim())
+    ? 'Each trusted contract needs a valid address and a name'
+    : null;
+
+  // Keep the threshold within the number of owners
+  useEffect(() => {
+    if (threshold > Math.max(trimmedOwners.length, 1)) {
+      setThreshold(Math.max(trimmedOwners.length, 1));
+    }
+  }, [trimmedOwners.length, threshold]);
+
+  // Load the address book of the selected source Safe
+  useEffect(() => {
+    if (!addressBookSafe) {
+      setAddressBookEntries([]);
+      return;
+    }
+
+    let isMounted = true;
+    const addressBookService = createAddressBookService(network);
+    addressBookService.getEntries(addressBookSafe).then(entries => {
+      if (isMounted) {
+        setAddressBookEntries(entries);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [addressBookSafe, network]);
+
+  // Predict the counterfactual Safe address on the review step
+  useEffect(() => {
+    if (step !== 'deploy' || ownersError || trimmedOwners.length === 0 || !/^\d+$/.test(saltNonce)) {
+      setPredictedAddress(null);
+      return;
+    }
+
+    let isMounted = true;
+    const provider = getRpcProvider(network);
+    SafeDeploymentService.predictSafeAddress(provider, network, { owners: trimmedOwners, threshold, saltNonce })
+      .then(address => {
+        if (isMounted) {
+          setPredictedAddress(address);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to predict Safe address:', err);
+        if (isMounted) {
+          setPredictedAddress(null);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [step, network, threshold, saltNonce, trimmedOwners.join(','), ownersError]);
+
+  const updateOwner = (index: number, value: string) => {
+    setOwners(prev => prev.map((owner, i) => (i === index ? value : owner)));
+  };
+
+  const addOwner = (address: string = '') => {
+    setOwners(prev => {
+      // Fill the first empty row before adding a new one
+      const emptyIndex = prev.findIndex(owner => !owner.trim());
+      if (address && emptyIndex >= 0) {
+        return prev.map((owner, i) => (i === emptyIndex ? address : owner));
+      }
+      return [...prev, address];
+    });
+  };
+
+  const removeOwner = (index: number) => {
+    setOwners(prev => (prev.length > 1 ? prev.filter((_, i) => i !== index) : ['']));
+  };
+
+  const updateTrustedContract = (index: number, field: keyof InitialTrustedContract, value: string) => {
+    setTrustedContracts(prev => prev.map((contract, i) => (i === index ? { ...contract, [field]: value } : contract)));
+  };
+
+  const handleConnectDeployer = async () => {
+    try {
+      setError(null);
+
+      if (typeof window.ethereum === 'undefined') {
+        throw new Error('No wallet detected. Please install MetaMask or another Web3 wallet.');
+      }
+
+      const networkResult = await walletConnectionService.checkAndSwitchNetwork(network);
+      if (!networkResult.switched) {
+        throw new Error(networkResult.error || `Please switch your wallet to ${network} network`);
+      }
+
+      await window.ethereum.request({ method: 'eth_requestAccounts' });
+      const signer = new ethers.providers.Web3Provider(window.ethereum).getSigner();
+      setDeployer(signer);
+      setDeployerAddress(await signer.getAddress());
+    } catch (err: any) {
+      console.error('Failed to connect deployer wallet:', err);
+      setError(ErrorHandler.classifyError(err).userMessage);
+    }
+  };
+
+  const handleDeploy = async () => {
+    if (!deployer || !deployerAddress) return;
+
+    try {
+      setIsDeploying(true);
+      setError(null);
+
+      const result = await SafeDeploymentService.deploySafe(deployer, network, {
+        owners: trimmedOwners,
+        threshold,
+        saltNonce
+      });
+
+      setDeployedAddress(result.safeAddress);
+      setTransactionHash(result.transactionHash);
+
+      safeWalletStorageService.addRecentWallet({
+        address: result.safeAddress,
+        network,
+        name: name.trim() || 'New Safe'
+      });
+
+      // Guard and trusted contracts need Safe transactions, proposed with the first nonces of the new Safe
+      const calls = SafeDeploymentService.createInitialConfigurationCalls(
+        network,
+        result.safeAddress,
+        trimmedGuard || null,
+        trustedContracts.map(c => ({ address: c.address.trim(), name: c.name.trim() }))
+      );
+
+      if (calls.length > 0) {
+        const isDeployerOwner = trimmedOwners.some(owner => owner.toLowerCase() === deployerAddress.toLowerCase());
+        if (isDeployerOwner) {
+          try {
+            const newSafeService = new SafeWalletService();
+            await newSafeService.initialize({ safeAddress: result.safeAddress, network }, deployer);
+            await SafeDeploymentService.proposeInitialConfiguration(newSafeService, calls);
+            setConfigurationNote(
+              `Initial guard and trusted contract setup has been proposed as ${calls.length} transaction${calls.length === 1 ? '' : 's'}. Sign and execute ${calls.length === 1 ? 'it' : 'them in nonce order'} from the Transactions tab.`
+            );
+          } catch (err: any) {
+            console.error('Failed to propose initial Safe configuration:', err);
+            setConfigurationNote(`Safe deployed, but proposing the initial configuration failed: ${ErrorHandler.classifyError(err).userMessage}`);
+          }
+        } else {
+          setConfigurationNote('The deployer is not an owner of the new Safe. Configure the guard and trusted contracts from Settings once an owner is connected.');
+        }
+      }
+
+      setStep('done');
+    } catch (err: any) {
+      console.error('Failed to deploy Safe:', err);
+      setError(ErrorHandler.classifyError(err).userMessage);
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  const canContinueFromOwners = trimmedOwners.length > 0 && !ownersError;
+  const canContinueFromSecurity = !guardError && !trustedContractsError;
+  const canDeploy = Boolean(deployer && predictedAddress && !isDeploying);
+
+  const backButtonIcon = (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none">
+      <path d="M19 12H5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+      <path d="M12 19L5 12L12 5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    </svg>
+  );
+
+  if (step === 'done' && deployedAddress) {
+    return (
+      <div>
+        <Message variant="success">Your Safe has been deployed.</Message>
+        <SummaryBox>
+          <SummaryRow>Safe address<SummaryValue>{deployedAddress}</SummaryValue></SummaryRow>
+          {transactionHash && (
+            <SummaryRow>Deployment transaction<SummaryValue>{transactionHash}</SummaryValue></SummaryRow>
+          )}
+        </SummaryBox>
+        {configurationNote && <Message variant="warning">{configurationNote}</Message>}
+        <ButtonRow>
+          <span />
+          <Button variant="primary" size="lg" onClick={() => onCreated(deployedAddress)}>
+            Open Safe
+          </Button>
+        </ButtonRow>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && <Message variant="error">{error}</Message>}
+
+      {step === 'owners' && (
+        <>
+          <Section>
+            <SectionTitle>Owners</SectionTitle>
+            <SectionDescription>
+              Add the signers of the new Safe. You can import addresses from the address book of another Safe on this network.
+            </SectionDescription>
+
+            {owners.map((owner, index) => (
+              <Row key={index}>
+                <Input
+                  placeholder="0x... owner address"
+                  value={owner}
+                  onChange={(e) => updateOwner(index, e.target.value)}
+                  error={owner.trim() && !isValidEthereumAddress(owner.trim()) ? 'Please enter a valid Ethereum address' : undefined}
+                  variant="outlined"
+                  inputSize="md"
+                  fullWidth
+                />
+                <Button variant="ghost" size="md" onClick={() => removeOwner(index)}>
+                  Remove
+                </Button>
+              </Row>
+            ))}
+
+            <Button variant="outline" size="sm" onClick={() => addOwner()}>
+              + Add owner
+            </Button>
+          </Section>
+
+          {sourceSafes.length > 0 && (
+            <Section>
+              <SectionTitle>Import from address book</SectionTitle>
+              <Select value={addressBookSafe} onChange={(e) => setAddressBookSafe(e.target.value)}>
+                <option value="">Select a Safe...</option>
+                {sourceSafes.map(safe => (
+                  <option key={safe.address} value={safe.address}>{safe.name}</option>
+                ))}
+              </Select>
+              {addressBookSafe && (
+                <EntryList>
+                  {addressBookEntries.length === 0 && (
+                    <SectionDescription>No address book entries found for this Safe.</SectionDescription>
+                  )}
+                  {addressBookEntries.map(entry => (
+                    <EntryChip
+                      key={entry.walletAddress}
+                      disabled={trimmedOwners.some(owner => owner.toLowerCase() === entry.walletAddress.toLowerCase())}
+                      onClick={() => addOwner(entry.walletAddress)}
+                      title={entry.walletAddress}
+                    >
+                      + {entry.name}
+                    </EntryChip>
+                  ))}
+                </EntryList>
+              )}
+            </Section>
+          )}
+
+          <Section>
+            <SectionTitle>Threshold</SectionTitle>
+            <SectionDescription>Number of owner signatures required to execute a transaction.</SectionDescription>
+            <Row>
+              <Select value={threshold} onChange={(e) => setThreshold(parseInt(e.target.value))}>
+                {Array.from({ length: Math.max(trimmedOwners.length, 1) }, (_, i) => i + 1).map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </Select>
+              <SectionDescription>out of {trimmedOwners.length} owner(s)</SectionDescription>
+            </Row>
+          </Section>
+
+          {ownersError && <Message variant="error">{ownersError}</Message>}
+        </>
+      )}
+
+      {step === 'security' && (
+        <>
+          <Section>
+            <SectionTitle>Transaction guard (optional)</SectionTitle>
+            <SectionDescription>
+              A guard checks every Safe transaction before and after execution. It is enabled with the first Safe transaction after deployment.
+            </SectionDescription>
+            <Row>
+              <Input
+                placeholder="0x... guard address"
+                value={guardAddress}
+                onChange={(e) => setGuardAddress(e.target.value)}
+                error={guardError || undefined}
+                variant="outlined"
+                inputSize="md"
+                fullWidth
+              />
+              {getSafeTxPoolRegistryAddress(network) && (
+                <Button variant="outline" size="md" onClick={() => setGuardAddress(getSafeTxPoolRegistryAddress(network)!)}>
+                  Use SafeTxPool guard
+                </Button>
+              )}
+            </Row>
+          </Section>
+
+          <Section>
+            <SectionTitle>Trusted contracts (optional)</SectionTitle>
+            <SectionDescription>
+              Contracts the guard allows as delegate call targets. They are registered in the same setup transaction as the guard.
+            </SectionDescription>
+            {trustedContracts.map((contract, index) => (
+              <Row key={index}>
+                <Input
+                  placeholder="0x... contract address"
+                  value={contract.address}
+                  onChange={(e) => updateTrustedContract(index, 'address', e.target.value)}
+                  variant="outlined"
+                  inputSize="md"
+                  fullWidth
+                />
+                <Input
+                  placeholder="Name"
+                  value={contract.name}
+                  onChange={(e) => updateTrustedContract(index, 'name', e.target.value)}
+                  variant="outlined"
+                  inputSize="md"
+                />
+                <Button
+                  variant="ghost"
+                  size="md"
+                  onClick={() => setTrustedContracts(prev => prev.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </Button>
+              </Row>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setTrustedContracts(prev => [...prev, { address: '', name: '' }])}
+            >
+              + Add trusted contract
+            </Button>
+          </Section>
+
+          {trustedContractsError && <Message variant="error">{trustedContractsError}</Message>}
+        </>
+      )}
+
+      {step === 'deploy' && (
+        <>
+          <SummaryBox>
+            <SummaryRow>Name<SummaryValue>{name}</SummaryValue></SummaryRow>
+            <SummaryRow>Network<SummaryValue>{network}</SummaryValue></SummaryRow>
+            <SummaryRow>Owners<SummaryValue>{trimmedOwners.join(', ')}</SummaryValue></SummaryRow>
+            <SummaryRow>Threshold<SummaryValue>{threshold} out of {trimmedOwners.length}</SummaryValue></SummaryRow>
+            <SummaryRow>Guard<SummaryValue>{trimmedGuard || 'None'}</SummaryValue></SummaryRow>
+            <SummaryRow>Trusted contracts<SummaryValue>{trustedContracts.length}</SummaryValue></SummaryRow>
+            <SummaryRow>Predicted Safe address<SummaryValue>{predictedAddress || 'Calculating...'}</SummaryValue></SummaryRow>
+          </SummaryBox>
+
+          <Section>
+            <SectionTitle>Salt nonce</SectionTitle>
+            <SectionDescription>
+              The salt nonce together with the owners and threshold determines the Safe address. Use a new one to get a different address.
+            </SectionDescription>
+            <Row>
+              <Input
+                value={saltNonce}
+                onChange={(e) => setSaltNonce(e.target.value.trim())}
+                error={!/^\d+$/.test(saltNonce) ? 'Salt nonce must be a number' : undefined}
+                variant="outlined"
+                inputSize="md"
+                fullWidth
+              />
+              <Button variant="outline" size="md" onClick={() => setSaltNonce(SafeDeploymentService.generateSaltNonce())}>
+                Regenerate
+              </Button>
+            </Row>
+          </Section>
+
+          <Section>
+            <SectionTitle>Deployer</SectionTitle>
+            <SectionDescription>
+              The connected wallet pays the deployment gas. It does not need to be an owner of the new Safe.
+            </SectionDescription>
+            {deployerAddress ? (
+              <SummaryBox>
+                <SummaryRow>Connected wallet<SummaryValue>{deployerAddress}</SummaryValue></SummaryRow>
+              </SummaryBox>
+            ) : (
+              <Button variant="outline" size="md" onClick={handleConnectDeployer}>
+                Connect Wallet
+              </Button>
+            )}
+          </Section>
+        </>
+      )}
+
+      <ButtonRow>
+        <Button
+          variant="outline"
+          size="lg"
+          disabled={isDeploying}
+          onClick={() => {
+            setError(null);
+            if (step === 'owners') onBack?.();
+            else setStep(step === 'deploy' ? 'security' : 'owners');
+          }}
+          leftIcon={backButtonIcon}
+        >
+          Back
+        </Button>
+
+        {step === 'owners' && (
+          <Button variant="primary" size="lg" disabled={!canContinueFromOwners} onClick={() => setStep('security')}>
+            Next
+          </Button>
+        )}
+        {step === 'security' && (
+          <Button variant="primary" size="lg" disabled={!canContinueFromSecurity} onClick={() => setStep('deploy')}>
+            Next
+          </Button>
+        )}
+        {step === 'deploy' && (
+          <Button variant="primary" size="lg" disabled={!canDeploy} loading={isDeploying} onClick={handleDeploy}>
+            {isDeploying ? 'Deploying...' : 'Deploy Safe'}
+          </Button>
+        )}
+      </ButtonRow>
+    </div>
+  );
+};
+
+export default CreateSafeWizard;
@@ -364,6 +364,8 @@ const EIP712SigningModal: React.FC<EIP712SigningModalProps> = ({
                 <DetailValue>
                   {decodedTransaction?.type === 'ERC20_TRANSFER' ? (
                     <span style={{ color: '#0ea5e9' }}>ERC-20 Transfer Function</span>
+                  ) : decodedTransaction?.type === 'NFT_TRANSFER' ? (
+                    <span style={{ color: '#a855f7' }}>{decodedTransaction.description}</span>
                   ) : decodedTransaction?.type === 'CONTRACT_CALL' ? (
                     <span style={{ color: '#3b82f6' }}>Contract Interaction</span>
                   ) : (
@@ -1,7 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import styled from 'styled-components';
 import { theme } from '../../../theme';
-import { rpcConfigService, RpcValidationResult } from '../../../services/RpcConfigService';
+import { rpcConfigService, RpcEndpointStatus, RpcValidationResult } from '../../../services/RpcConfigService';
+import { customNetworkService, CustomNetwork, CustomNetworkInput } from '../../../services/CustomNetworkService';
+import { explorerService, ExplorerApiKeyKind, ExplorerApiKeyTestResult } from '../../../services/ExplorerService';
+import { userAbiService, UserAbi } from '../../../services/UserAbiService';
+import { ipfsGatewayService, DEFAULT_IPFS_GATEWAY } from '../../../services/IpfsGatewayService';
+import { tokenListService, TokenListSource } from '../../../services/TokenListService';
+import { priceService, formatUsd, NATIVE_PRICE_KEY, TokenPrice } from '../../../services/PriceService';
+import { getChainConfig, ChainConfig } from '../../../config/chains';
+import UserAbiForm from './UserAbiForm';
 
 const Container = styled.div`
   max-width: 800px;
@@ -212,61 +220,827 @@ const ValidationInfo = styled.div`
   font-size: ${theme.typography.fontSize.sm};
 `;
 
+const EndpointStats = styled.div`
+  margin-top: ${theme.spacing[2]};
+  font-size: ${theme.typography.fontSize.xs};
+  color: ${theme.colors.text.secondary};
+  word-break: break-all;
+`;
+
+const FormGrid = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 0 ${theme.spacing[4]};
+
+  @media (max-width: 600px) {
+    grid-template-columns: 1fr;
+  }
+`;
 
+const CheckboxLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing[2]};
+  margin-bottom: ${theme.spacing[4]};
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.primary};
+  cursor: pointer;
+`;
+
+const NetworkDetails = styled.div`
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.secondary};
+  font-family: monospace;
+  word-break: break-all;
+`;
 
 interface EnvironmentTabProps {
   network: string;
 }
 
+interface CustomNetworkForm {
+  name: string;
+  chainId: string;
+  rpcUrl: string;
+  blockExplorer: string;
+  nativeCurrencySymbol: string;
+  safeTxPoolRegistry: string;
+  safeProxyFactory: string;
+  safeSingleton: string;
+  multiSendCallOnly: string;
+}
+
+const EMPTY_CUSTOM_NETWORK_FORM: CustomNetworkForm = {
+  name: '',
+  chainId: '',
+  rpcUrl: '',
+  blockExplorer: '',
+  nativeCurrencySymbol: '',
+  safeTxPoolRegistry: '',
+  safeProxyFactory: '',
+  safeSingleton: '',
+  multiSendCallOnly: '',
+};
+
+const CUSTOM_NETWORK_FIELDS: Array<{ key: keyof CustomNetworkForm; label: string; placeholder: string }> = [
+  { key: 'name', label: 'Network Name', placeholder: 'My Devnet' },
+  { key: 'chainId', label: 'Chain ID', placeholder: '31337' },
+  { key: 'rpcUrl', label: 'RPC URL', placeholder: 'https://rpc.example.com' },
+  { key: 'blockExplorer', label: 'Block Explorer URL', placeholder: 'https://explorer.example.com' },
+  { key: 'nativeCurrencySymbol', label: 'Native Currency Symbol (optional)', placeholder: 'ETH' },
+  { key: 'safeTxPoolRegistry', label: 'SafeTxPool Registry Address', placeholder: '0x...' },
+  { key: 'safeProxyFactory', label: 'SafeProxyFactory Address (optional)', placeholder: 'Canonical deployment' },
+  { key: 'safeSingleton', label: 'Safe Singleton Address (optional)', placeholder: 'Canonical deployment' },
+  { key: 'multiSendCallOnly', label: 'MultiSendCallOnly Address (optional)', placeholder: 'Canonical deployment' },
+];
+
+const toCustomNetworkInput = (form: CustomNetworkForm, isTestnet: boolean): CustomNetworkInput => ({
+  ...form,
+  chainId: Number(form.chainId.trim()),
+  isTestnet,
+});
+
+/**
+ * Add and remove user-defined networks
+ */
+const CustomNetworksSection: React.FC = () => {
+  const [customNetworks, setCustomNetworks] = useState<CustomNetwork[]>(customNetworkService.getNetworks());
+  const [form, setForm] = useState<CustomNetworkForm>(EMPTY_CUSTOM_NETWORK_FORM);
+  const [isTestnet, setIsTestnet] = useState(true);
+  const [isValidating, setIsValidating] = useState(false);
+  const [validationResult, setValidationResult] = useState<RpcValidationResult | null>(null);
+
+  const handleFieldChange = (key: keyof CustomNetworkForm, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+    setValidationResult(null);
+  };
+
+  const validateNetwork = async () => {
+    setIsValidating(true);
+
+    try {
+      setValidationResult(await customNetworkService.validateNetwork(toCustomNetworkInput(form, isTestnet)));
+    } catch (error) {
+      setValidationResult({ isValid: false, error: 'Validation failed' });
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const addNetwork = async () => {
+    setIsValidating(true);
+
+    try {
+      await customNetworkService.addNetwork(toCustomNetworkInput(form, isTestnet));
+      setCustomNetworks(customNetworkService.getNetworks());
+      setForm(EMPTY_CUSTOM_NETWORK_FORM);
+      setIsTestnet(true);
+      setValidationResult(null);
+    } catch (error: any) {
+      setValidationResult({ isValid: false, error: error.message || 'Failed to add network' });
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const removeNetwork = (network: string) => {
+    customNetworkService.removeNetwork(network);
+    setCustomNetworks(customNetworkService.getNetworks());
+  };
+
+  const isFormComplete = Boolean(
+    form.name.trim() && form.chainId.trim() && form.rpcUrl.trim() && form.blockExplorer.trim()
+  );
+
+  return (
+    <Section>
+      <SectionTitle>Custom Networks</SectionTitle>
+      <SectionDescription>
+        Add a network that is not built in, such as a private devnet or an L2 testnet. The RPC endpoint
+        must report the chain ID you enter. Safe contracts that are left empty default to their canonical
+        deployment addresses. Custom networks appear in the network selector and persist across browser sessions.
+      </SectionDescription>
+
+      {customNetworks.map(customNetwork => (
+        <NetworkCard key={customNetwork.network}>
+          <NetworkHeader>
+            <NetworkName>{customNetwork.name}</NetworkName>
+            <StatusBadge status="custom">
+              Chain ID {customNetwork.chainId}{customNetwork.isTestnet === false ? '' : ' · Testnet'}
+            </StatusBadge>
+          </NetworkHeader>
+          <NetworkDetails>{customNetwork.rpcUrl}</NetworkDetails>
+          {customNetwork.safeTxPoolRegistry && (
+            <NetworkDetails>SafeTxPool registry: {customNetwork.safeTxPoolRegistry}</NetworkDetails>
+          )}
+          <ButtonGroup>
+            <Button variant="danger" onClick={() => removeNetwork(customNetwork.network)}>
+              Remove
+            </Button>
+          </ButtonGroup>
+        </NetworkCard>
+      ))}
+
+      <NetworkCard>
+        <NetworkHeader>
+          <NetworkName>Add Network</NetworkName>
+          {isValidating && <StatusBadge status="validating">Validating...</StatusBadge>}
+        </NetworkHeader>
+
+        <FormGrid>
+          {CUSTOM_NETWORK_FIELDS.map(field => (
+            <InputGroup key={field.key}>
+              <Label htmlFor={`custom-network-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`custom-network-${field.key}`}
+                value={form[field.key]}
+                onChange={(e) => handleFieldChange(field.key, e.target.value)}
+                placeholder={field.placeholder}
+              />
+            </InputGroup>
+          ))}
+        </FormGrid>
+
+        <CheckboxLabel>
+          <input type="checkbox" checked={isTestnet} onChange={(e) => setIsTestnet(e.target.checked)} />
+          Testnet (assets have no real value)
+        </CheckboxLabel>
+
+        {validationResult?.isValid === false && (
+          <ErrorMessage>
+            {validationResult.error}
+          </ErrorMessage>
+        )}
+
+        {validationResult?.isValid === true && (
+          <ValidationInfo>
+            ✅ RPC endpoint is valid
+            {' • '}Chain ID: {validationResult.chainId}
+            {validationResult.blockNumber && (
+              <>{' • '}Block: {validationResult.blockNumber}</>
+            )}
+          </ValidationInfo>
+        )}
+
+        <ButtonGroup>
+          <Button
+            onClick={validateNetwork}
+            disabled={!isFormComplete || isValidating}
+          >
+            {isValidating ? 'Validating...' : 'Test Connection'}
+          </Button>
+
+          <Button
+            variant="primary"
+            onClick={addNetwork}
+            disabled={!isFormComplete || isValidating}
+          >
+            Add Network
+          </Button>
+        </ButtonGroup>
+      </NetworkCard>
+    </Section>
+  );
+};
+
+const EXPLORER_NAMES: Record<ExplorerApiKeyKind, string> = {
+  etherscan: 'Etherscan',
+  blockscout: 'Blockscout',
+};
+
+interface ExplorerApiKeyCardProps {
+  network: string;
+  kind: ExplorerApiKeyKind;
+  apiUrl: string;
+}
+
+/**
+ * Test, save and clear the API key of one explorer
+ */
+const ExplorerApiKeyCard: React.FC<ExplorerApiKeyCardProps> = ({ network, kind, apiUrl }) => {
+  const [apiKey, setApiKey] = useState('');
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ExplorerApiKeyTestResult | null>(null);
+  const [, setKeysVersion] = useState(0);
+
+  useEffect(() => explorerService.subscribe(() => setKeysVersion(v => v + 1)), []);
+
+  useEffect(() => {
+    setApiKey('');
+    setTestResult(null);
+  }, [network]);
+
+  const customKey = explorerService.getCustomApiKey(network, kind);
+  const activeKey = explorerService.getApiKey(network, kind);
+  const keySource = customKey ? 'Custom' : activeKey ? 'Environment' : 'Not set';
+
+  const handleKeyChange = (value: string) => {
+    setApiKey(value);
+    setTestResult(null);
+  };
+
+  const testKey = async () => {
+    setIsTesting(true);
+
+    try {
+      setTestResult(await explorerService.testApiKey(network, kind, apiKey));
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const saveKey = () => {
+    explorerService.setApiKey(network, kind, apiKey);
+    setApiKey('');
+    setTestResult(null);
+  };
+
+  return (
+    <NetworkCard>
+      <NetworkHeader>
+        <NetworkName>{EXPLORER_NAMES[kind]}</NetworkName>
+        <StatusBadge status={customKey ? 'custom' : 'default'}>{keySource}</StatusBadge>
+      </NetworkHeader>
+
+      <CurrentUrl>
+        <UrlLabel>API endpoint</UrlLabel>
+        <UrlValue>{apiUrl}</UrlValue>
+        {activeKey && <EndpointStats>Key: {activeKey.slice(0, 4)}…{activeKey.slice(-4)}</EndpointStats>}
+      </CurrentUrl>
+
+      <InputGroup>
+        <Label htmlFor={`explorer-${kind}-${network}`}>
+          {EXPLORER_NAMES[kind]} API Key{kind === 'blockscout' && ' (optional)'}
+        </Label>
+        <Input
+          id={`explorer-${kind}-${network}`}
+          type="password"
+          autoComplete="off"
+          value={apiKey}
+          onChange={(e) => handleKeyChange(e.target.value)}
+          placeholder={`Enter ${EXPLORER_NAMES[kind]} API key...`}
+          hasError={testResult?.success === false}
+        />
+      </InputGroup>
+
+      {testResult?.success === false && (
+        <ErrorMessage>
+          {testResult.error}
+        </ErrorMessage>
+      )}
+
+      {testResult?.success === true && (
+        <ValidationInfo>
+          ✅ API key accepted by {EXPLORER_NAMES[kind]}
+        </ValidationInfo>
+      )}
+
+      <ButtonGroup>
+        <Button onClick={testKey} disabled={!apiKey.trim() || isTesting}>
+          {isTesting ? 'Testing...' : 'Test Key'}
+        </Button>
+
+        <Button variant="primary" onClick={saveKey} disabled={!apiKey.trim() || isTesting}>
+          Save Key
+        </Button>
+
+        <Button variant="secondary" onClick={() => explorerService.clearApiKey(network, kind)} disabled={!customKey}>
+          Clear
+        </Button>
+      </ButtonGroup>
+    </NetworkCard>
+  );
+};
+
+interface ExplorerApiKeysSectionProps {
+  network: string;
+  chain: ChainConfig;
+}
+
+/**
+ * Per-network API keys of the block explorers used for history and ABI lookup
+ */
+const ExplorerApiKeysSection: React.FC<ExplorerApiKeysSectionProps> = ({ network, chain }) => (
+  <Section>
+    <SectionTitle>Block Explorer APIs</SectionTitle>
+    <SectionDescription>
+      Transaction history and contract ABIs for <strong>{chain.name}</strong> are loaded from Etherscan when an
+      API key is set, then from Blockscout. Sourcify is always used for verified ABIs and needs no key.
+      Keys are stored in this browser only and override the ones from the environment.
+    </SectionDescription>
+
+    {chain.explorerApiUrl && (
+      <ExplorerApiKeyCard network={network} kind="etherscan" apiUrl={chain.explorerApiUrl} />
+    )}
+    {chain.blockscoutApiUrl && (
+      <ExplorerApiKeyCard network={network} kind="blockscout" apiUrl={chain.blockscoutApiUrl} />
+    )}
+    {!chain.explorerApiUrl && !chain.blockscoutApiUrl && (
+      <NetworkDetails>No explorer API is known for this network, only Sourcify ABI lookup is available.</NetworkDetails>
+    )}
+  </Section>
+);
+
+interface UserAbisSectionProps {
+  network: string;
+  chainName: string;
+}
+
+/**
+ * ABIs supplied by the user for contracts that are not verified on any explorer
+ */
+const UserAbisSection: React.FC<UserAbisSectionProps> = ({ network, chainName }) => {
+  const [userAbis, setUserAbis] = useState<UserAbi[]>(userAbiService.getAbis(network));
+
+  useEffect(() => {
+    setUserAbis(userAbiService.getAbis(network));
+    return userAbiService.subscribe(() => setUserAbis(userAbiService.getAbis(network)));
+  }, [network]);
+
+  return (
+    <Section>
+      <SectionTitle>Contract ABIs</SectionTitle>
+      <SectionDescription>
+        Paste or upload the ABI of a contract on <strong>{chainName}</strong> that is not verified on any block
+        explorer. The transaction decoder uses it instead of guessing, and marks the decoded output as
+        user-supplied. ABIs are stored in this browser only.
+      </SectionDescription>
+
+      {userAbis.map(userAbi => (
+        <NetworkCard key={userAbi.address}>
+          <NetworkHeader>
+            <NetworkName>{userAbi.name}</NetworkName>
+            <StatusBadge status="custom">
+              {userAbi.abi.filter(item => item.type === 'function').length} functions
+            </StatusBadge>
+          </NetworkHeader>
+          <NetworkDetails>{userAbi.address}</NetworkDetails>
+          <ButtonGroup>
+            <Button variant="danger" onClick={() => userAbiService.removeAbi(network, userAbi.address)}>
+              Remove
+            </Button>
+          </ButtonGroup>
+        </NetworkCard>
+      ))}
+
+      <NetworkCard>
+        <NetworkHeader>
+          <NetworkName>Add Contract ABI</NetworkName>
+        </NetworkHeader>
+        <UserAbiForm network={network} />
+      </NetworkCard>
+    </Section>
+  );
+};
+
+interface PriceFeedsSectionProps {
+  network: string;
+  chain: ChainConfig;
+}
+
+/**
+ * Chainlink feeds used to value assets on the current network, registry feeds can be replaced
+ */
+const PriceFeedsSection: React.FC<PriceFeedsSectionProps> = ({ network, chain }) => {
+  const [feeds, setFeeds] = useState<Record<string, string>>(priceService.getFeeds(network));
+  const [prices, setPrices] = useState<Record<string, TokenPrice>>({});
+  const [asset, setAsset] = useState('');
+  const [feedAddress, setFeedAddress] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadPrices = () => {
+      setFeeds(priceService.getFeeds(network));
+      priceService.getPrices(network)
+        .then(latest => {
+          if (!cancelled) setPrices(latest);
+        })
+        .catch(priceError => console.warn('⚠️ Failed to read price feeds:', priceError));
+    };
+
+    loadPrices();
+    const unsubscribe = priceService.subscribe(loadPrices);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [network]);
+
+  const overrides = priceService.getFeedOverrides(network);
+
+  const getAssetLabel = (key: string): string => {
+    if (key === NATIVE_PRICE_KEY) {
+      return `${chain.nativeCurrency.symbol} (native)`;
+    }
+    const token = chain.tokens.find(t => t.address.toLowerCase() === key);
+    return token ? token.symbol : key;
+  };
+
+  const saveFeed = () => {
+    try {
+      const trimmed = asset.trim();
+      priceService.setFeed(network, trimmed.toLowerCase() === NATIVE_PRICE_KEY ? NATIVE_PRICE_KEY : trimmed, feedAddress.trim());
+      setAsset('');
+      setFeedAddress('');
+      setError(null);
+    } catch (saveError: any) {
+      setError(saveError.message);
+    }
+  };
+
+  return (
+    <Section>
+      <SectionTitle>Price Feeds</SectionTitle>
+      <SectionDescription>
+        Asset values on <strong>{chain.name}</strong> are read from Chainlink USD price feeds on-chain, no price API
+        is used. Tokens are priced by contract address, so a token reusing a known symbol is never priced. Add a feed
+        for another token or replace a default feed, feeds are stored in this browser only.
+      </SectionDescription>
+
+      {Object.keys(feeds).length === 0 && (
+        <NetworkDetails>No price feeds are configured for this network, asset values are not shown.</NetworkDetails>
+      )}
+
+      {Object.entries(feeds).map(([key, feed]) => (
+        <NetworkCard key={key}>
+          <NetworkHeader>
+            <NetworkName>{getAssetLabel(key)}</NetworkName>
+            <StatusBadge status={prices[key] ? (overrides[key] ? 'custom' : 'default') : 'error'}>
+              {prices[key] ? formatUsd(prices[key].usd) : 'No answer'}
+            </StatusBadge>
+          </NetworkHeader>
+          <NetworkDetails>
+            {overrides[key] ? 'Custom feed' : 'Default feed'} · {feed}
+            {prices[key] && ` · updated ${new Date(prices[key].updatedAt * 1000).toLocaleString()}`}
+          </NetworkDetails>
+          {overrides[key] && (
+            <ButtonGroup>
+              <Button variant="secondary" onClick={() => priceService.removeFeed(network, key)}>
+                Reset to Default
+              </Button>
+            </ButtonGroup>
+          )}
+        </NetworkCard>
+      ))}
+
+      <NetworkCard>
+        <NetworkHeader>
+          <NetworkName>Set Price Feed</NetworkName>
+        </NetworkHeader>
+
+        <FormGrid>
+          <InputGroup>
+            <Label htmlFor="price-feed-asset">Token address or "native"</Label>
+            <Input
+              id="price-feed-asset"
+              value={asset}
+              onChange={(e) => {
+                setAsset(e.target.value);
+                setError(null);
+              }}
+              placeholder="0x... or native"
+              hasError={Boolean(error)}
+            />
+          </InputGroup>
+          <InputGroup>
+            <Label htmlFor="price-feed-address">Chainlink USD feed address</Label>
+            <Input
+              id="price-feed-address"
+              value={feedAddress}
+              onChange={(e) => {
+                setFeedAddress(e.target.value);
+                setError(null);
+              }}
+              placeholder="0x..."
+              hasError={Boolean(error)}
+            />
+          </InputGroup>
+        </FormGrid>
+
+        {error && (
+          <ErrorMessage>
+            {error}
+          </ErrorMessage>
+        )}
+
+        <ButtonGroup>
+          <Button variant="primary" onClick={saveFeed} disabled={!asset.trim() || !feedAddress.trim()}>
+            Save Feed
+          </Button>
+        </ButtonGroup>
+      </NetworkCard>
+    </Section>
+  );
+};
+
+/**
+ * Gateway used to load NFT metadata and images stored on IPFS, shared by all networks
+ */
+const IpfsGatewaySection: React.FC = () => {
+  const [gateway, setGateway] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [, setGatewayVersion] = useState(0);
+
+  useEffect(() => ipfsGatewayService.subscribe(() => setGatewayVersion(v => v + 1)), []);
+
+  const customGateway = ipfsGatewayService.getCustomGateway();
+
+  const saveGateway = () => {
+    try {
+      ipfsGatewayService.setGateway(gateway);
+      setGateway('');
+      setError(null);
+    } catch (saveError: any) {
+      setError(saveError.message);
+    }
+  };
+
+  return (
+    <Section>
+      <SectionTitle>IPFS Gateway</SectionTitle>
+      <SectionDescription>
+        NFT metadata and images stored on IPFS are loaded through this gateway. Public gateways are rate limited,
+        a dedicated gateway (e.g. Pinata or your own node) loads large collections faster. Defaults
+        to {DEFAULT_IPFS_GATEWAY}.
+      </SectionDescription>
+
+      <NetworkCard>
+        <NetworkHeader>
+          <NetworkName>Gateway</NetworkName>
+          <StatusBadge status={customGateway ? 'custom' : 'default'}>{customGateway ? 'Custom' : 'Default'}</StatusBadge>
+        </NetworkHeader>
+
+        <CurrentUrl>
+          <UrlLabel>Current gateway</UrlLabel>
+          <UrlValue>{ipfsGatewayService.getGateway()}</UrlValue>
+        </CurrentUrl>
+
+        <InputGroup>
+          <Label htmlFor="ipfs-gateway">Gateway URL</Label>
+          <Input
+            id="ipfs-gateway"
+            type="url"
+            value={gateway}
+            onChange={(e) => {
+              setGateway(e.target.value);
+              setError(null);
+            }}
+            placeholder="https://gateway.example.com/ipfs/"
+            hasError={Boolean(error)}
+          />
+        </InputGroup>
+
+        {error && (
+          <ErrorMessage>
+            {error}
+          </ErrorMessage>
+        )}
+
+        <ButtonGroup>
+          <Button variant="primary" onClick={saveGateway} disabled={!gateway.trim()}>
+            Save Gateway
+          </Button>
+
+          <Button variant="secondary" onClick={() => ipfsGatewayService.clearGateway()} disabled={!customGateway}>
+            Reset to Default
+          </Button>
+        </ButtonGroup>
+      </NetworkCard>
+    </Section>
+  );
+};
+
+/**
+ * Token lists used to mark tokens as listed, show their logos and flag spam, shared by all networks
+ */
+const TokenListsSection: React.FC = () => {
+  const [sources, setSources] = useState<TokenListSource[]>(tokenListService.getSources());
+  const [listUrl, setListUrl] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    tokenListService.loadLists();
+    return tokenListService.subscribe(() => setSources(tokenListService.getSources()));
+  }, []);
+
+  const addListUrl = async () => {
+    setIsAdding(true);
+    setError(null);
+    try {
+      await tokenListService.addListUrl(listUrl);
+      setListUrl('');
+    } catch (addError: any) {
+      setError(addError.message);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      tokenListService.addListFile(await file.text());
+      setError(null);
+    } catch (uploadError: any) {
+      setError(`Failed to add ${file.name}: ${uploadError.message}`);
+    }
+  };
+
+  const getListDetails = (source: TokenListSource): string => {
+    const sourceError = tokenListService.getSourceError(source.id);
+    if (sourceError) {
+      return sourceError;
+    }
+    const tokenCount = tokenListService.getTokenCount(source.id);
+    const origin = source.url || (source.builtIn ? 'Bundled with the app' : 'Uploaded file');
+    return tokenCount === null ? `${origin} · not loaded` : `${origin} · ${tokenCount} tokens`;
+  };
+
+  return (
+    <Section>
+      <SectionTitle>Token Lists</SectionTitle>
+      <SectionDescription>
+        Token lists (tokenlists.org format) decide which tokens are shown as listed and provide their logos.
+        Unlisted tokens that reuse the symbol of a listed token or advertise a link are flagged as suspected
+        spam and hidden from the asset list by default. Lists apply to all networks.
+      </SectionDescription>
+
+      {sources.map(source => (
+        <NetworkCard key={source.id}>
+          <NetworkHeader>
+            <NetworkName>{source.name}</NetworkName>
+            <StatusBadge status={tokenListService.getSourceError(source.id) ? 'error' : source.builtIn ? 'default' : 'custom'}>
+              {source.enabled ? (source.builtIn ? 'Built-in' : 'Custom') : 'Disabled'}
+            </StatusBadge>
+          </NetworkHeader>
+          <NetworkDetails>{getListDetails(source)}</NetworkDetails>
+          <ButtonGroup>
+            <Button variant="secondary" onClick={() => tokenListService.setSourceEnabled(source.id, !source.enabled)}>
+              {source.enabled ? 'Disable' : 'Enable'}
+            </Button>
+            {!source.builtIn && (
+              <Button variant="danger" onClick={() => tokenListService.removeSource(source.id)}>
+                Remove
+              </Button>
+            )}
+          </ButtonGroup>
+        </NetworkCard>
+      ))}
+
+      <NetworkCard>
+        <NetworkHeader>
+          <NetworkName>Add Token List</NetworkName>
+        </NetworkHeader>
+
+        <InputGroup>
+          <Label htmlFor="token-list-url">Token list URL</Label>
+          <Input
+            id="token-list-url"
+            type="url"
+            value={listUrl}
+            onChange={(e) => {
+              setListUrl(e.target.value);
+              setError(null);
+            }}
+            placeholder="https://tokens.coingecko.com/uniswap/all.json"
+            hasError={Boolean(error)}
+          />
+        </InputGroup>
+
+        {error && (
+          <ErrorMessage>
+            {error}
+          </ErrorMessage>
+        )}
+
+        <ButtonGroup>
+          <Button variant="primary" onClick={addListUrl} disabled={!listUrl.trim() || isAdding}>
+            {isAdding ? 'Adding...' : 'Add List'}
+          </Button>
+
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>
+            Upload List File
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleUpload} hidden />
+        </ButtonGroup>
+      </NetworkCard>
+    </Section>
+  );
+};
+
 interface NetworkState {
-  customUrl: string;
+  newUrl: string;
   isValidating: boolean;
   validationResult: RpcValidationResult | null;
-  hasChanges: boolean;
 }
 
-const NETWORK_INFO = {
-  ethereum: { name: 'Ethereum Mainnet', chainId: 1 },
-  sepolia: { name: 'Sepolia Testnet', chainId: 11155111 },
-  arbitrum: { name: 'Arbitrum One', chainId: 42161 },
-} as const;
+const STATUS_LABELS: Record<RpcEndpointStatus, string> = {
+  unknown: 'Not used yet',
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  'rate-limited': 'Rate limited',
+  down: 'Down',
+};
+
+const getEndpointBadgeStatus = (status: RpcEndpointStatus): 'default' | 'custom' | 'validating' | 'error' => {
+  switch (status) {
+    case 'healthy':
+      return 'custom';
+    case 'degraded':
+    case 'rate-limited':
+      return 'validating';
+    case 'down':
+      return 'error';
+    default:
+      return 'default';
+  }
+};
 
 const EnvironmentTab: React.FC<EnvironmentTabProps> = ({ network }) => {
   const [networkState, setNetworkState] = useState<NetworkState>({
-    customUrl: '',
+    newUrl: '',
     isValidating: false,
     validationResult: null,
-    hasChanges: false,
   });
+  const [, setHealthVersion] = useState(0);
 
   useEffect(() => {
-    // Initialize state for current network only
-    const customUrl = rpcConfigService.getCustomRpcUrl(network as any) || '';
+    // Reset the form when switching networks
     setNetworkState({
-      customUrl,
+      newUrl: '',
       isValidating: false,
       validationResult: null,
-      hasChanges: false,
     });
   }, [network]);
 
+  useEffect(() => {
+    // Re-render on endpoint configuration and live health changes
+    return rpcConfigService.subscribe(() => setHealthVersion(version => version + 1));
+  }, []);
+
   const handleUrlChange = (url: string) => {
-    const originalUrl = rpcConfigService.getCustomRpcUrl(network as any) || '';
     setNetworkState(prev => ({
       ...prev,
-      customUrl: url,
-      hasChanges: url !== originalUrl,
+      newUrl: url,
       validationResult: null,
     }));
   };
 
   const validateUrl = async () => {
-    if (!networkState.customUrl.trim()) return;
+    if (!networkState.newUrl.trim()) return;
 
     setNetworkState(prev => ({ ...prev, isValidating: true }));
 
     try {
-      const result = await rpcConfigService.validateRpcUrl(networkState.customUrl);
+      const result = await rpcConfigService.validateRpcUrl(networkState.newUrl.trim());
       setNetworkState(prev => ({
         ...prev,
         isValidating: false,
@@ -284,40 +1058,40 @@ const EnvironmentTab: React.FC<EnvironmentTabProps> = ({ network }) => {
     }
   };
 
-  const saveUrl = () => {
-    rpcConfigService.setCustomRpcUrl(network as any, networkState.customUrl);
-    setNetworkState(prev => ({ ...prev, hasChanges: false }));
-  };
-
-  const resetUrl = () => {
-    rpcConfigService.resetToDefault(network as any);
+  const addEndpoint = () => {
+    rpcConfigService.setCustomRpcEndpoints(network, [...customEndpoints, networkState.newUrl]);
     setNetworkState({
-      customUrl: '',
+      newUrl: '',
       isValidating: false,
       validationResult: null,
-      hasChanges: false,
     });
   };
 
-  const getStatusBadge = () => {
-    if (networkState.isValidating) {
-      return { status: 'validating' as const, text: 'Validating...' };
-    }
-
-    if (networkState.validationResult?.isValid === false) {
-      return { status: 'error' as const, text: 'Invalid' };
-    }
+  const removeEndpoint = (url: string) => {
+    rpcConfigService.setCustomRpcEndpoints(network, customEndpoints.filter(endpoint => endpoint !== url));
+  };
 
-    if (rpcConfigService.hasCustomRpcUrl(network as any)) {
-      return { status: 'custom' as const, text: 'Custom' };
-    }
+  const moveEndpoint = (index: number, offset: number) => {
+    const endpoints = [...customEndpoints];
+    const [endpoint] = endpoints.splice(index, 1);
+    endpoints.splice(index + offset, 0, endpoint);
+    rpcConfigService.setCustomRpcEndpoints(network, endpoints);
+  };
 
-    return { status: 'default' as const, text: 'Default' };
+  const resetUrl = () => {
+    rpcConfigService.resetToDefault(network);
   };
 
-  const currentNetworkInfo = NETWORK_INFO[network as keyof typeof NETWORK_INFO];
-  const badge = getStatusBadge();
-  const isUsingCustomRpc = rpcConfigService.hasCustomRpcUrl(network as any);
+  const currentNetworkInfo = getChainConfig(network);
+  const customEndpoints = rpcConfigService.getCustomRpcEndpoints(network);
+  const endpoints = rpcConfigService.getRpcEndpoints(network);
+  const activeEndpoint = rpcConfigService.getRpcUrl(network);
+  const isUsingCustomRpc = rpcConfigService.hasCustomRpcUrl(network);
+  const hasChainIdMismatch = Boolean(
+    currentNetworkInfo &&
+    networkState.validationResult?.chainId &&
+    networkState.validationResult.chainId !== currentNetworkInfo.chainId
+  );
 
   if (!currentNetworkInfo) {
     return (
@@ -328,6 +1102,8 @@ const EnvironmentTab: React.FC<EnvironmentTabProps> = ({ network }) => {
             Unsupported network: {network}
           </ErrorMessage>
         </Section>
+
+        <CustomNetworksSection />
       </Container>
     );
   }
@@ -337,34 +1113,73 @@ const EnvironmentTab: React.FC<EnvironmentTabProps> = ({ network }) => {
       <Section>
         <SectionTitle>RPC Configuration</SectionTitle>
         <SectionDescription>
-          Configure a custom RPC endpoint for <strong>{currentNetworkInfo.name}</strong>.
-          When set, your custom RPC URL will be used instead of the default endpoint.
-          Leave empty to use the default RPC endpoint. Changes are saved automatically and will persist
-          across browser sessions.
+          Configure custom RPC endpoints for <strong>{currentNetworkInfo.name}</strong>, in order of preference.
+          Requests go to the healthiest endpoint and automatically fail over to the next one on errors or
+          rate limits. The default endpoint is always kept as the last fallback. Changes are saved automatically
+          and will persist across browser sessions.
         </SectionDescription>
 
         <NetworkCard>
           <NetworkHeader>
             <NetworkName>{currentNetworkInfo.name}</NetworkName>
-            <StatusBadge status={badge.status}>{badge.text}</StatusBadge>
+            <StatusBadge status={isUsingCustomRpc ? 'custom' : 'default'}>
+              {isUsingCustomRpc ? 'Custom' : 'Default'}
+            </StatusBadge>
           </NetworkHeader>
 
-          {isUsingCustomRpc && (
-            <CurrentUrl>
-              <UrlLabel>Currently using custom RPC endpoint</UrlLabel>
-              <UrlValue>{rpcConfigService.getCustomRpcUrl(network as any)}</UrlValue>
-            </CurrentUrl>
-          )}
+          {endpoints.map(url => {
+            const health = rpcConfigService.getEndpointHealth(url);
+            const status = rpcConfigService.getEndpointStatus(url);
+            const customIndex = customEndpoints.indexOf(url);
+
+            return (
+              <CurrentUrl key={url}>
+                <NetworkHeader>
+                  <UrlLabel>
+                    {customIndex >= 0 ? `Custom endpoint #${customIndex + 1}` : 'Default endpoint'}
+                    {url === activeEndpoint && ' • Active'}
+                  </UrlLabel>
+                  <StatusBadge status={getEndpointBadgeStatus(status)}>{STATUS_LABELS[status]}</StatusBadge>
+                </NetworkHeader>
+                <UrlValue>{url}</UrlValue>
+                <EndpointStats>
+                  {health.totalRequests} requests
+                  {' • '}Error rate: {(rpcConfigService.getEndpointErrorRate(url) * 100).toFixed(1)}%
+                  {health.averageLatency !== null && <>{' • '}Latency: {Math.round(health.averageLatency)}ms</>}
+                  {health.rateLimitedRequests > 0 && <>{' • '}Rate limited: {health.rateLimitedRequests}</>}
+                </EndpointStats>
+                {health.lastError && status !== 'healthy' && (
+                  <EndpointStats>Last error: {health.lastError}</EndpointStats>
+                )}
+                {customIndex >= 0 && (
+                  <ButtonGroup>
+                    <Button onClick={() => moveEndpoint(customIndex, -1)} disabled={customIndex === 0}>
+                      Move Up
+                    </Button>
+                    <Button
+                      onClick={() => moveEndpoint(customIndex, 1)}
+                      disabled={customIndex === customEndpoints.length - 1}
+                    >
+                      Move Down
+                    </Button>
+                    <Button variant="danger" onClick={() => removeEndpoint(url)}>
+                      Remove
+                    </Button>
+                  </ButtonGroup>
+                )}
+              </CurrentUrl>
+            );
+          })}
 
           <InputGroup>
-            <Label htmlFor={`rpc-${network}`}>Custom RPC URL</Label>
+            <Label htmlFor={`rpc-${network}`}>Add RPC Endpoint</Label>
             <Input
               id={`rpc-${network}`}
               type="url"
-              value={networkState.customUrl}
+              value={networkState.newUrl}
               onChange={(e) => handleUrlChange(e.target.value)}
               placeholder={`Enter custom RPC URL for ${currentNetworkInfo.name}...`}
-              hasError={networkState.validationResult?.isValid === false}
+              hasError={networkState.validationResult?.isValid === false || hasChainIdMismatch}
             />
           </InputGroup>
 
@@ -380,7 +1195,7 @@ const EnvironmentTab: React.FC<EnvironmentTabProps> = ({ network }) => {
               {networkState.validationResult.chainId && (
                 <>
                   {' • '}Chain ID: {networkState.validationResult.chainId}
-                  {networkState.validationResult.chainId !== currentNetworkInfo.chainId && (
+                  {hasChainIdMismatch && (
                     <span style={{ color: theme.colors.text.warning }}>
                       {' '}(Expected: {currentNetworkInfo.chainId})
                     </span>
@@ -396,17 +1211,17 @@ const EnvironmentTab: React.FC<EnvironmentTabProps> = ({ network }) => {
           <ButtonGroup>
             <Button
               onClick={validateUrl}
-              disabled={!networkState.customUrl.trim() || networkState.isValidating}
+              disabled={!networkState.newUrl.trim() || networkState.isValidating}
             >
               {networkState.isValidating ? 'Validating...' : 'Test Connection'}
             </Button>
 
             <Button
               variant="primary"
-              onClick={saveUrl}
-              disabled={!networkState.hasChanges}
+              onClick={addEndpoint}
+              disabled={networkState.validationResult?.isValid !== true || hasChainIdMismatch}
             >
-              Save
+              Add Endpoint
             </Button>
 
             <Button
@@ -419,6 +1234,18 @@ const EnvironmentTab: React.FC<EnvironmentTabProps> = ({ network }) => {
           </ButtonGroup>
         </NetworkCard>
       </Section>
+
+      <ExplorerApiKeysSection network={network} chain={currentNetworkInfo} />
+
+      <UserAbisSection network={network} chainName={currentNetworkInfo.name} />
+
+      <PriceFeedsSection network={network} chain={currentNetworkInfo} />
+
+      <IpfsGatewaySection />
+
+      <TokenListsSection />
+
+      <CustomNetworksSection />
     </Container>
   );
 };
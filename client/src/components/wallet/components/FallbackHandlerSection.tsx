@@ -0,0 +1,389 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import styled from 'styled-components';
+import { theme } from '../../../theme';
+import { safeWalletService, SafeWalletService } from '../../../services/SafeWalletService';
+import { SafeFallbackHandlerService } from '../../../services/SafeFallbackHandlerService';
+import { walletConnectionService, WalletConnectionState } from '../../../services/WalletConnectionService';
+import { useToast } from '../../../hooks/useToast';
+import { ErrorHandler } from '../../../utils/errorHandling';
+import Button from '../../ui/Button';
+import Input from '../../ui/Input';
+import AddressDisplay from './AddressDisplay';
+import WalletConnectionModal from '../../ui/WalletConnectionModal';
+
+const Container = styled.div`
+  margin-bottom: ${theme.spacing[8]};
+  background: ${theme.colors.neutral[800]};
+  border: 1px solid ${theme.colors.neutral[700]};
+  border-radius: ${theme.borderRadius.lg};
+  padding: ${theme.spacing[6]};
+`;
+
+const SectionTitle = styled.h3`
+  margin: 0 0 ${theme.spacing[4]} 0;
+  font-size: ${theme.typography.fontSize.lg};
+  font-weight: ${theme.typography.fontWeight.semibold};
+  color: ${theme.colors.text.primary};
+`;
+
+const Description = styled.p`
+  margin: 0 0 ${theme.spacing[6]} 0;
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.secondary};
+  line-height: 1.5;
+`;
+
+const InfoGrid = styled.div`
+  display: grid;
+  gap: ${theme.spacing[4]};
+  margin-bottom: ${theme.spacing[6]};
+`;
+
+const InfoItem = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: flex-start;
+  padding: ${theme.spacing[3]} 0;
+  border-bottom: 1px solid ${theme.colors.neutral[700]};
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const InfoLabel = styled.div`
+  font-size: ${theme.typography.fontSize.sm};
+  font-weight: ${theme.typography.fontWeight.medium};
+  color: ${theme.colors.text.secondary};
+  min-width: 140px;
+`;
+
+const InfoValue = styled.div`
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.primary};
+  text-align: right;
+  flex: 1;
+  word-break: break-all;
+`;
+
+const StatusBadge = styled.div<{ variant: 'known' | 'unknown' | 'none' }>`
+  display: inline-block;
+  padding: ${theme.spacing[1]} ${theme.spacing[3]};
+  border-radius: ${theme.borderRadius.md};
+  font-size: ${theme.typography.fontSize.xs};
+  font-weight: ${theme.typography.fontWeight.medium};
+
+  ${props => props.variant === 'known' ? `
+    background: ${theme.colors.status.success}20;
+    color: ${theme.colors.status.success};
+    border: 1px solid ${theme.colors.status.success}30;
+  ` : props.variant === 'unknown' ? `
+    background: ${theme.colors.status.warning}20;
+    color: ${theme.colors.status.warning};
+    border: 1px solid ${theme.colors.status.warning}30;
+  ` : `
+    background: ${theme.colors.neutral[700]};
+    color: ${theme.colors.text.secondary};
+    border: 1px solid ${theme.colors.neutral[600]};
+  `}
+`;
+
+const HandlerForm = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${theme.spacing[4]};
+`;
+
+const WarningBox = styled.div`
+  padding: ${theme.spacing[4]};
+  background: ${theme.colors.status.warning}20;
+  border: 1px solid ${theme.colors.status.warning}30;
+  border-radius: ${theme.borderRadius.md};
+  color: ${theme.colors.status.warning};
+  font-size: ${theme.typography.fontSize.sm};
+  line-height: 1.5;
+`;
+
+const WarningList = styled.ul`
+  margin: 0 0 ${theme.spacing[3]} 0;
+  padding-left: ${theme.spacing[4]};
+`;
+
+const CheckboxLabel = styled.label`
+  display: flex;
+  align-items: flex-start;
+  gap: ${theme.spacing[2]};
+  color: ${theme.colors.text.primary};
+  cursor: pointer;
+`;
+
+const SuccessMessage = styled.div`
+  padding: ${theme.spacing[3]} ${theme.spacing[4]};
+  background: ${theme.colors.status.success}20;
+  border: 1px solid ${theme.colors.status.success}30;
+  border-radius: ${theme.borderRadius.md};
+  color: ${theme.colors.status.success};
+  font-size: ${theme.typography.fontSize.sm};
+  margin-bottom: ${theme.spacing[4]};
+`;
+
+interface FallbackHandlerSectionProps {
+  network: string;
+}
+
+const FallbackHandlerSection: React.FC<FallbackHandlerSectionProps> = ({ network }) => {
+  const [currentHandler, setCurrentHandler] = useState<string>('');
+  const [newHandlerAddress, setNewHandlerAddress] = useState('');
+  const [addressError, setAddressError] = useState('');
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [hasAcceptedWarnings, setHasAcceptedWarnings] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [connectionState, setConnectionState] = useState<WalletConnectionState>({
+    isConnected: false,
+    signerConnected: false,
+    readOnlyMode: true,
+    safeAddress: '',
+    signerAddress: '',
+    network: ''
+  });
+  const [showWalletModal, setShowWalletModal] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+
+  const { addToast } = useToast();
+
+  // Subscribe to wallet connection state
+  useEffect(() => {
+    const updateConnectionState = () => {
+      setConnectionState(walletConnectionService.getConnectionState());
+    };
+
+    updateConnectionState();
+
+    const unsubscribe = walletConnectionService.subscribe(updateConnectionState);
+    return unsubscribe;
+  }, []);
+
+  const loadFallbackHandler = useCallback(async () => {
+    if (!connectionState.isConnected) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const handler = await safeWalletService.getFallbackHandler();
+      setCurrentHandler(handler);
+    } catch (error) {
+      console.error('Error loading fallback handler:', error);
+      const errorDetails = ErrorHandler.classifyError(error);
+      addToast('Failed to load fallback handler', {
+        type: 'error',
+        message: errorDetails.userMessage
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [connectionState.isConnected, addToast]);
+
+  useEffect(() => {
+    loadFallbackHandler();
+  }, [connectionState.safeAddress, loadFallbackHandler]);
+
+  const handleAddressChange = async (value: string) => {
+    setNewHandlerAddress(value);
+    setSuccessMessage('');
+    setAddressError('');
+    setWarnings([]);
+    setHasAcceptedWarnings(false);
+
+    const provider = safeWalletService.getProvider();
+    if (!value.trim() || !provider || !connectionState.safeAddress) {
+      return;
+    }
+
+    setIsValidating(true);
+    try {
+      const validation = await SafeFallbackHandlerService.validateFallbackHandler(
+        value.trim(),
+        connectionState.safeAddress,
+        provider
+      );
+
+      if (!validation.isValid) {
+        setAddressError(validation.error || 'Invalid fallback handler');
+      } else if (value.trim().toLowerCase() === currentHandler.toLowerCase()) {
+        setAddressError('This address is already the current fallback handler');
+      } else {
+        setWarnings(validation.warnings);
+      }
+    } catch (error) {
+      setAddressError(`Validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleWalletSelect = async (walletType: string) => {
+    try {
+      await walletConnectionService.connectSignerWallet();
+      setShowWalletModal(false);
+    } catch (error) {
+      console.error('Failed to connect wallet:', error);
+    }
+  };
+
+  const handleProposeChange = async () => {
+    const isSignerConnected = connectionState.signerConnected && !connectionState.readOnlyMode;
+    if (!isSignerConnected) {
+      setShowWalletModal(true);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const signer = walletConnectionService.getSigner();
+      if (!signer) {
+        throw new Error('No wallet signer available. Please connect your wallet first.');
+      }
+
+      // Propose through the pool with a service bound to the connected signer
+      const walletService = new SafeWalletService();
+      await walletService.initialize({ safeAddress: connectionState.safeAddress || '', network });
+      await walletService.setSigner(signer);
+
+      const result = await walletService.setFallbackHandler(newHandlerAddress.trim());
+
+      setSuccessMessage(`Fallback handler change proposed (nonce: ${result.nonce}). Collect owner signatures to execute it.`);
+      setNewHandlerAddress('');
+      setWarnings([]);
+      setHasAcceptedWarnings(false);
+
+      addToast('Fallback Handler Change Proposed', {
+        type: 'success',
+        message: 'The fallback handler change has been proposed to the SafeTxPool and is awaiting signatures.'
+      });
+    } catch (error) {
+      console.error('Error proposing fallback handler change:', error);
+      const errorDetails = ErrorHandler.classifyError(error);
+      addToast('Failed to propose fallback handler change', {
+        type: 'error',
+        message: errorDetails.userMessage
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!connectionState.isConnected || isLoading) {
+    return null;
+  }
+
+  const isSignerConnected = connectionState.signerConnected && !connectionState.readOnlyMode;
+  const hasHandler = currentHandler && !SafeFallbackHandlerService.isHandlerRemoved(currentHandler);
+  const handlerName = hasHandler ? SafeFallbackHandlerService.getHandlerName(currentHandler) : null;
+  const canPropose = !!newHandlerAddress.trim()
+    && !addressError
+    && !isValidating
+    && !isSubmitting
+    && (warnings.length === 0 || hasAcceptedWarnings);
+
+  return (
+    <Container>
+      <SectionTitle>Fallback Handler</SectionTitle>
+      <Description>
+        The fallback handler receives calls to functions the Safe does not implement itself. It provides
+        EIP-1271 signature validation (used by dApps for off-chain signatures) and token receiver
+        callbacks for ERC-721 and ERC-1155 transfers.
+      </Description>
+
+      <InfoGrid>
+        <InfoItem>
+          <InfoLabel>Current Handler</InfoLabel>
+          <InfoValue>
+            <StatusBadge variant={!hasHandler ? 'none' : handlerName ? 'known' : 'unknown'}>
+              {!hasHandler ? 'Not Set' : handlerName || 'Unknown Handler'}
+            </StatusBadge>
+          </InfoValue>
+        </InfoItem>
+
+        {hasHandler && (
+          <InfoItem>
+            <InfoLabel>Handler Address</InfoLabel>
+            <InfoValue>
+              <AddressDisplay
+                address={currentHandler}
+                network={network}
+                truncate={true}
+                truncateLength={6}
+                showCopy={true}
+                showExplorer={true}
+              />
+            </InfoValue>
+          </InfoItem>
+        )}
+      </InfoGrid>
+
+      {successMessage && (
+        <SuccessMessage>
+          ✅ {successMessage}
+        </SuccessMessage>
+      )}
+
+      <HandlerForm>
+        <Input
+          label="New Fallback Handler Address"
+          placeholder="0x..."
+          value={newHandlerAddress}
+          onChange={(e) => handleAddressChange(e.target.value)}
+          error={addressError}
+          helperText={isValidating ? 'Validating handler...' : 'Use the zero address to remove the fallback handler'}
+          fullWidth
+        />
+
+        {warnings.length > 0 && (
+          <WarningBox>
+            <WarningList>
+              {warnings.map((warning, index) => (
+                <li key={index}>⚠️ {warning}</li>
+              ))}
+            </WarningList>
+            <CheckboxLabel>
+              <input
+                type="checkbox"
+                checked={hasAcceptedWarnings}
+                onChange={(e) => setHasAcceptedWarnings(e.target.checked)}
+              />
+              I understand the risks and want to propose this fallback handler anyway
+            </CheckboxLabel>
+          </WarningBox>
+        )}
+
+        <div>
+          <Button
+            variant="primary"
+            onClick={handleProposeChange}
+            disabled={!canPropose || !isSignerConnected}
+            loading={isSubmitting || isValidating}
+            allowClickWhenDisabled={!isSignerConnected}
+            className={!isSignerConnected ? 'opacity-50' : ''}
+          >
+            Propose Handler Change
+          </Button>
+        </div>
+      </HandlerForm>
+
+      {showWalletModal && (
+        <WalletConnectionModal
+          isOpen={showWalletModal}
+          onClose={() => setShowWalletModal(false)}
+          onWalletSelect={handleWalletSelect}
+        />
+      )}
+    </Container>
+  );
+};
+
+export default FallbackHandlerSection;
@@ -0,0 +1,420 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import styled from 'styled-components';
+import { theme } from '../../../theme';
+import { SafeModuleService } from '../../../services/SafeModuleService';
+import { safeWalletService } from '../../../services/SafeWalletService';
+import Button from '../../ui/Button';
+import AddressDisplay from './AddressDisplay';
+
+const ModalOverlay = styled.div<{ isOpen: boolean }>`
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  background: rgba(0, 0, 0, 0.8);
+  display: ${props => props.isOpen ? 'flex' : 'none'};
+  align-items: center;
+  justify-content: center;
+  z-index: 1050;
+  padding: 20px;
+`;
+
+const ModalContainer = styled.div`
+  background: ${theme.colors.neutral[800]};
+  border: 1px solid ${theme.colors.neutral[700]};
+  border-radius: ${theme.borderRadius.lg};
+  width: 100%;
+  max-width: 600px;
+  max-height: 90vh;
+  overflow-y: auto;
+  box-shadow: 0 25px 50px rgba(0, 0, 0, 0.5);
+`;
+
+const ModalHeader = styled.div`
+  padding: ${theme.spacing[6]};
+  border-bottom: 1px solid ${theme.colors.neutral[700]};
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+`;
+
+const ModalTitle = styled.h2`
+  margin: 0;
+  font-size: ${theme.typography.fontSize.xl};
+  font-weight: ${theme.typography.fontWeight.bold};
+  color: ${theme.colors.text.primary};
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing[2]};
+`;
+
+const CloseButton = styled.button`
+  background: none;
+  border: none;
+  color: ${theme.colors.text.secondary};
+  font-size: 24px;
+  cursor: pointer;
+  padding: ${theme.spacing[1]};
+  border-radius: ${theme.borderRadius.sm};
+  transition: all 0.2s ease;
+
+  &:hover {
+    color: ${theme.colors.text.primary};
+    background: ${theme.colors.neutral[700]};
+  }
+`;
+
+const ModalContent = styled.div`
+  padding: ${theme.spacing[6]};
+`;
+
+const Section = styled.div`
+  margin-bottom: ${theme.spacing[6]};
+`;
+
+const SectionTitle = styled.h3`
+  margin: 0 0 ${theme.spacing[3]} 0;
+  font-size: ${theme.typography.fontSize.lg};
+  font-weight: ${theme.typography.fontWeight.semibold};
+  color: ${theme.colors.text.primary};
+`;
+
+const InfoGrid = styled.div`
+  display: grid;
+  gap: ${theme.spacing[3]};
+  margin-bottom: ${theme.spacing[4]};
+`;
+
+const InfoItem = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: flex-start;
+  padding: ${theme.spacing[3]};
+  background: ${theme.colors.neutral[700]};
+  border-radius: ${theme.borderRadius.md};
+`;
+
+const InfoLabel = styled.div`
+  font-size: ${theme.typography.fontSize.sm};
+  font-weight: ${theme.typography.fontWeight.medium};
+  color: ${theme.colors.text.secondary};
+  min-width: 120px;
+`;
+
+const InfoValue = styled.div`
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.primary};
+  text-align: right;
+  flex: 1;
+  word-break: break-all;
+`;
+
+const WarningBox = styled.div`
+  padding: ${theme.spacing[4]};
+  background: ${theme.colors.status.warning}20;
+  border: 1px solid ${theme.colors.status.warning}30;
+  border-radius: ${theme.borderRadius.md};
+  margin-bottom: ${theme.spacing[4]};
+`;
+
+const WarningTitle = styled.div`
+  font-size: ${theme.typography.fontSize.base};
+  font-weight: ${theme.typography.fontWeight.bold};
+  color: ${theme.colors.status.warning};
+  margin-bottom: ${theme.spacing[2]};
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing[2]};
+`;
+
+const WarningList = styled.ul`
+  margin: 0;
+  padding-left: ${theme.spacing[4]};
+  color: ${theme.colors.status.warning};
+  font-size: ${theme.typography.fontSize.sm};
+  line-height: 1.5;
+`;
+
+const WarningItem = styled.li`
+  margin-bottom: ${theme.spacing[1]};
+`;
+
+const CheckboxContainer = styled.div`
+  display: flex;
+  align-items: flex-start;
+  gap: ${theme.spacing[3]};
+  margin-bottom: ${theme.spacing[4]};
+  padding: ${theme.spacing[3]};
+  background: ${theme.colors.neutral[700]};
+  border-radius: ${theme.borderRadius.md};
+`;
+
+const Checkbox = styled.input`
+  margin: 0;
+  transform: scale(1.2);
+`;
+
+const CheckboxLabel = styled.label`
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.primary};
+  line-height: 1.5;
+  cursor: pointer;
+`;
+
+const ButtonRow = styled.div`
+  display: flex;
+  gap: ${theme.spacing[3]};
+  justify-content: flex-end;
+  margin-top: ${theme.spacing[6]};
+`;
+
+const ValidationStatus = styled.div<{ isValid: boolean }>`
+  padding: ${theme.spacing[3]};
+  border-radius: ${theme.borderRadius.md};
+  margin-bottom: ${theme.spacing[4]};
+  
+  ${props => props.isValid ? `
+    background: ${theme.colors.status.success}20;
+    border: 1px solid ${theme.colors.status.success}30;
+    color: ${theme.colors.status.success};
+  ` : `
+    background: ${theme.colors.status.error}20;
+    border: 1px solid ${theme.colors.status.error}30;
+    color: ${theme.colors.status.error};
+  `}
+`;
+
+interface ModuleConfirmationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+  moduleAddress: string;
+  safeAddress: string;
+  network: string;
+  enabledModules: string[];
+  isDisabling?: boolean;
+  isSubmitting?: boolean;
+}
+
+const ModuleConfirmationModal: React.FC<ModuleConfirmationModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  moduleAddress,
+  safeAddress,
+  network,
+  enabledModules,
+  isDisabling = false,
+  isSubmitting = false
+}) => {
+  const [hasReadWarnings, setHasReadWarnings] = useState(false);
+  const [hasConfirmedRisks, setHasConfirmedRisks] = useState(false);
+  const [validationResult, setValidationResult] = useState<{
+    isValid: boolean;
+    error?: string;
+    warnings: string[];
+  } | null>(null);
+
+  // Reset state when modal opens/closes
+  useEffect(() => {
+    if (isOpen) {
+      setHasReadWarnings(false);
+      setHasConfirmedRisks(false);
+      setValidationResult(null);
+    }
+  }, [isOpen]);
+
+  const validateModule = useCallback(async () => {
+    const provider = safeWalletService.getProvider();
+    if (!provider) {
+      setValidationResult({
+        isValid: false,
+        error: 'Provider not available for module validation',
+        warnings: []
+      });
+      return;
+    }
+
+    try {
+      const result = await SafeModuleService.validateModuleContract(moduleAddress, safeAddress, enabledModules, provider);
+      setValidationResult(result);
+    } catch (error) {
+      setValidationResult({
+        isValid: false,
+        error: `Validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        warnings: []
+      });
+    }
+  }, [moduleAddress, safeAddress, enabledModules]);
+
+  // Validate module when modal opens (only for enabling, not disabling)
+  useEffect(() => {
+    if (isOpen && !isDisabling && moduleAddress) {
+      validateModule();
+    }
+  }, [isOpen, isDisabling, moduleAddress, validateModule]);
+
+  const moduleName = SafeModuleService.getModuleName(moduleAddress);
+  const canConfirm = !isSubmitting && hasReadWarnings && (
+    isDisabling || (hasConfirmedRisks && validationResult?.isValid)
+  );
+
+  const handleOverlayClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <ModalOverlay isOpen={isOpen} onClick={handleOverlayClick}>
+      <ModalContainer>
+        <ModalHeader>
+          <ModalTitle>
+            {isDisabling ? '🧩 Disable Module' : '🧩 Enable Module'}
+          </ModalTitle>
+          <CloseButton onClick={onClose}>&times;</CloseButton>
+        </ModalHeader>
+
+        <ModalContent>
+          {/* Module Information */}
+          <Section>
+            <SectionTitle>Module Details</SectionTitle>
+            <InfoGrid>
+              <InfoItem>
+                <InfoLabel>Action</InfoLabel>
+                <InfoValue>
+                  {isDisabling ? 'Disable module' : 'Enable new module'}
+                </InfoValue>
+              </InfoItem>
+
+              <InfoItem>
+                <InfoLabel>Module</InfoLabel>
+                <InfoValue>
+                  {moduleName || 'Unknown module'}
+                </InfoValue>
+              </InfoItem>
+
+              <InfoItem>
+                <InfoLabel>Module Address</InfoLabel>
+                <InfoValue>
+                  <AddressDisplay
+                    address={moduleAddress}
+                    network={network}
+                    truncate={true}
+                    truncateLength={6}
+                    showCopy={true}
+                    showExplorer={true}
+                  />
+                </InfoValue>
+              </InfoItem>
+
+              <InfoItem>
+                <InfoLabel>Safe Address</InfoLabel>
+                <InfoValue>
+                  <AddressDisplay
+                    address={safeAddress}
+                    network={network}
+                    truncate={true}
+                    truncateLength={6}
+                    showCopy={true}
+                    showExplorer={true}
+                  />
+                </InfoValue>
+              </InfoItem>
+            </InfoGrid>
+          </Section>
+
+          {/* Validation Results */}
+          {!isDisabling && validationResult && (
+            <Section>
+              <ValidationStatus isValid={validationResult.isValid}>
+                {validationResult.isValid ? '✅ Basic validation passed' : `❌ ${validationResult.error}`}
+              </ValidationStatus>
+            </Section>
+          )}
+
+          {/* Security Warnings */}
+          <Section>
+            <WarningBox>
+              <WarningTitle>
+                ⚠️ {isDisabling ? 'Disable Confirmation' : 'Security Warning'}
+              </WarningTitle>
+              <WarningList>
+                {isDisabling ? (
+                  <>
+                    <WarningItem>The module will no longer be able to execute transactions from this Safe</WarningItem>
+                    <WarningItem>Features relying on this module (allowances, recovery, automation) will stop working</WarningItem>
+                    <WarningItem>This action requires the same threshold as other Safe transactions</WarningItem>
+                  </>
+                ) : (
+                  <>
+                    <WarningItem>Modules execute transactions from your Safe without any owner signatures</WarningItem>
+                    <WarningItem>An enabled module bypasses the threshold entirely and can transfer all Safe assets</WarningItem>
+                    <WarningItem>A malicious or buggy module can drain or take over your Safe</WarningItem>
+                    <WarningItem>Only enable audited modules whose code you have reviewed</WarningItem>
+                    {validationResult?.warnings.map((warning, index) => (
+                      <WarningItem key={index}>{warning}</WarningItem>
+                    ))}
+                  </>
+                )}
+              </WarningList>
+            </WarningBox>
+          </Section>
+
+          {/* Confirmation Checkboxes */}
+          <Section>
+            <CheckboxContainer>
+              <Checkbox
+                type="checkbox"
+                id="readModuleWarnings"
+                checked={hasReadWarnings}
+                onChange={(e) => setHasReadWarnings(e.target.checked)}
+              />
+              <CheckboxLabel htmlFor="readModuleWarnings">
+                I have read and understand the {isDisabling ? 'implications of disabling this module' : 'security warnings above'}
+              </CheckboxLabel>
+            </CheckboxContainer>
+
+            {!isDisabling && (
+              <CheckboxContainer>
+                <Checkbox
+                  type="checkbox"
+                  id="confirmModuleRisks"
+                  checked={hasConfirmedRisks}
+                  onChange={(e) => setHasConfirmedRisks(e.target.checked)}
+                />
+                <CheckboxLabel htmlFor="confirmModuleRisks">
+                  I confirm that I trust this module with full, signature-less control over this Safe
+                </CheckboxLabel>
+              </CheckboxContainer>
+            )}
+          </Section>
+
+          {/* Action Buttons */}
+          <ButtonRow>
+            <Button
+              variant="secondary"
+              onClick={onClose}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant={isDisabling ? "danger" : "primary"}
+              onClick={onConfirm}
+              disabled={!canConfirm}
+              loading={isSubmitting}
+            >
+              {isDisabling ? 'Propose Disable' : 'Propose Enable'}
+            </Button>
+          </ButtonRow>
+        </ModalContent>
+      </ModalContainer>
+    </ModalOverlay>
+  );
+};
+
+export default ModuleConfirmationModal;
@@ -0,0 +1,447 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import styled from 'styled-components';
+import { theme } from '../../../theme';
+import { safeWalletService, SafeWalletService } from '../../../services/SafeWalletService';
+import { SafeModuleService } from '../../../services/SafeModuleService';
+import { walletConnectionService, WalletConnectionState } from '../../../services/WalletConnectionService';
+import { useToast } from '../../../hooks/useToast';
+import { ErrorHandler } from '../../../utils/errorHandling';
+import Button from '../../ui/Button';
+import Input from '../../ui/Input';
+import AddressDisplay from './AddressDisplay';
+import WalletConnectionModal from '../../ui/WalletConnectionModal';
+import ModuleConfirmationModal from './ModuleConfirmationModal';
+
+const MODULES_PAGE_SIZE = 5;
+
+const Container = styled.div`
+  max-width: 800px;
+  margin: 0 auto;
+  padding-bottom: ${theme.spacing[8]};
+`;
+
+const Section = styled.div`
+  margin-bottom: ${theme.spacing[8]};
+  background: ${theme.colors.neutral[800]};
+  border: 1px solid ${theme.colors.neutral[700]};
+  border-radius: ${theme.borderRadius.lg};
+  padding: ${theme.spacing[6]};
+`;
+
+const SectionTitle = styled.h3`
+  margin: 0 0 ${theme.spacing[4]} 0;
+  font-size: ${theme.typography.fontSize.lg};
+  font-weight: ${theme.typography.fontWeight.semibold};
+  color: ${theme.colors.text.primary};
+`;
+
+const Description = styled.p`
+  margin: 0 0 ${theme.spacing[6]} 0;
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.secondary};
+  line-height: 1.5;
+`;
+
+const WarningBanner = styled.div`
+  padding: ${theme.spacing[3]} ${theme.spacing[4]};
+  background: ${theme.colors.status.warning}20;
+  border: 1px solid ${theme.colors.status.warning}30;
+  border-radius: ${theme.borderRadius.md};
+  color: ${theme.colors.status.warning};
+  font-size: ${theme.typography.fontSize.sm};
+  margin-bottom: ${theme.spacing[6]};
+`;
+
+const ModuleList = styled.div`
+  display: grid;
+  gap: ${theme.spacing[3]};
+  margin-bottom: ${theme.spacing[4]};
+`;
+
+const ModuleItem = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${theme.spacing[4]};
+  padding: ${theme.spacing[3]} ${theme.spacing[4]};
+  background: ${theme.colors.neutral[700]};
+  border-radius: ${theme.borderRadius.md};
+`;
+
+const ModuleInfo = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${theme.spacing[1]};
+  min-width: 0;
+`;
+
+const ModuleName = styled.div<{ isKnown: boolean }>`
+  font-size: ${theme.typography.fontSize.sm};
+  font-weight: ${theme.typography.fontWeight.semibold};
+  color: ${props => props.isKnown ? theme.colors.text.primary : theme.colors.status.warning};
+`;
+
+const EmptyState = styled.div`
+  padding: ${theme.spacing[4]};
+  text-align: center;
+  color: ${theme.colors.text.secondary};
+  font-size: ${theme.typography.fontSize.sm};
+  background: ${theme.colors.neutral[700]};
+  border-radius: ${theme.borderRadius.md};
+  margin-bottom: ${theme.spacing[4]};
+`;
+
+const Pagination = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: ${theme.spacing[6]};
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.secondary};
+`;
+
+const ModuleForm = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${theme.spacing[4]};
+`;
+
+const SuccessMessage = styled.div`
+  padding: ${theme.spacing[3]} ${theme.spacing[4]};
+  background: ${theme.colors.status.success}20;
+  border: 1px solid ${theme.colors.status.success}30;
+  border-radius: ${theme.borderRadius.md};
+  color: ${theme.colors.status.success};
+  font-size: ${theme.typography.fontSize.sm};
+  margin-bottom: ${theme.spacing[4]};
+`;
+
+const LoadingState = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  padding: ${theme.spacing[8]};
+  color: ${theme.colors.text.secondary};
+  font-size: ${theme.typography.fontSize.sm};
+`;
+
+interface ModuleManagementSectionProps {
+  network: string;
+}
+
+const ModuleManagementSection: React.FC<ModuleManagementSectionProps> = ({ network }) => {
+  // The full module list is read once and paged locally, so prevModule always comes from the complete list
+  const [allModules, setAllModules] = useState<string[]>([]);
+  const [page, setPage] = useState(0);
+  const [newModuleAddress, setNewModuleAddress] = useState('');
+  const [addressError, setAddressError] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [connectionState, setConnectionState] = useState<WalletConnectionState>({
+    isConnected: false,
+    signerConnected: false,
+    readOnlyMode: true,
+    safeAddress: '',
+    signerAddress: '',
+    network: ''
+  });
+  const [showWalletModal, setShowWalletModal] = useState(false);
+  const [pendingModule, setPendingModule] = useState<{ address: string; action: 'enable' | 'disable' } | null>(null);
+  const [successMessage, setSuccessMessage] = useState('');
+
+  const { addToast } = useToast();
+
+  // Subscribe to wallet connection state
+  useEffect(() => {
+    const updateConnectionState = () => {
+      setConnectionState(walletConnectionService.getConnectionState());
+    };
+
+    updateConnectionState();
+
+    const unsubscribe = walletConnectionService.subscribe(updateConnectionState);
+    return unsubscribe;
+  }, []);
+
+  const loadModules = useCallback(async () => {
+    if (!connectionState.isConnected) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const enabledModules = await safeWalletService.getAllModules();
+      setAllModules(enabledModules);
+    } catch (error) {
+      console.error('Error loading modules:', error);
+      const errorDetails = ErrorHandler.classifyError(error);
+      addToast('Failed to load modules', {
+        type: 'error',
+        message: errorDetails.userMessage
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [connectionState.isConnected, addToast]);
+
+  // Reset pagination when the Safe changes
+  useEffect(() => {
+    setPage(0);
+  }, [connectionState.safeAddress]);
+
+  useEffect(() => {
+    loadModules();
+  }, [connectionState.safeAddress, loadModules]);
+
+  const pageCount = Math.max(Math.ceil(allModules.length / MODULES_PAGE_SIZE), 1);
+  // Clamped, a reload can shrink the list below the current page
+  const currentPage = Math.min(page, pageCount - 1);
+  const modules = allModules.slice(currentPage * MODULES_PAGE_SIZE, (currentPage + 1) * MODULES_PAGE_SIZE);
+
+  const handleAddressChange = (value: string) => {
+    setNewModuleAddress(value);
+    setSuccessMessage('');
+
+    const validation = value.trim() ? SafeModuleService.validateModuleAddress(value.trim()) : { isValid: true };
+    setAddressError(validation.error || '');
+  };
+
+  const handleWalletConnectionRequired = (action: () => void) => {
+    const isSignerConnected = connectionState.signerConnected && !connectionState.readOnlyMode;
+    if (isSignerConnected) {
+      action();
+    } else {
+      setShowWalletModal(true);
+    }
+  };
+
+  const handleWalletSelect = async (walletType: string) => {
+    try {
+      await walletConnectionService.connectSignerWallet();
+      setShowWalletModal(false);
+    } catch (error) {
+      console.error('Failed to connect wallet:', error);
+    }
+  };
+
+  const handleEnableModule = () => {
+    handleWalletConnectionRequired(() => {
+      setPendingModule({ address: newModuleAddress.trim(), action: 'enable' });
+    });
+  };
+
+  const handleDisableModule = (moduleAddress: string) => {
+    handleWalletConnectionRequired(() => {
+      setPendingModule({ address: moduleAddress, action: 'disable' });
+    });
+  };
+
+  const handleConfirmModuleAction = async () => {
+    if (!pendingModule || !connectionState.safeAddress) return;
+
+    setIsSubmitting(true);
+
+    try {
+      const signer = walletConnectionService.getSigner();
+      if (!signer) {
+        throw new Error('No wallet signer available. Please connect your wallet first.');
+      }
+
+      // Propose through the pool with a service bound to the connected signer
+      const walletService = new SafeWalletService();
+      await walletService.initialize({ safeAddress: connectionState.safeAddress, network });
+      await walletService.setSigner(signer);
+
+      const moduleLabel = SafeModuleService.getModuleName(pendingModule.address)
+        || `${pendingModule.address.slice(0, 6)}...${pendingModule.address.slice(-4)}`;
+
+      if (pendingModule.action === 'enable') {
+        const result = await walletService.enableModule(pendingModule.address);
+        setNewModuleAddress('');
+        setSuccessMessage(`Enable module ${moduleLabel} proposed (nonce: ${result.nonce}). Collect owner signatures to execute it.`);
+      } else {
+        const result = await walletService.disableModule(pendingModule.address);
+        setSuccessMessage(`Disable module ${moduleLabel} proposed (nonce: ${result.nonce}). Collect owner signatures to execute it.`);
+      }
+
+      addToast('Module Transaction Proposed', {
+        type: 'success',
+        message: 'The module change has been proposed to the SafeTxPool and is awaiting signatures.'
+      });
+      setPendingModule(null);
+    } catch (error) {
+      console.error('Error proposing module transaction:', error);
+      const errorDetails = ErrorHandler.classifyError(error);
+      addToast(`Failed to ${pendingModule.action} module`, {
+        type: 'error',
+        message: errorDetails.userMessage
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isSignerConnected = connectionState.signerConnected && !connectionState.readOnlyMode;
+
+  if (isLoading) {
+    return (
+      <Container>
+        <LoadingState>Loading module configuration...</LoadingState>
+      </Container>
+    );
+  }
+
+  if (!connectionState.isConnected) {
+    return (
+      <Container>
+        <Section>
+          <SectionTitle>Safe Modules</SectionTitle>
+          <Description>
+            Please connect to a Safe wallet to manage modules.
+          </Description>
+        </Section>
+      </Container>
+    );
+  }
+
+  return (
+    <Container>
+      <Section>
+        <SectionTitle>Safe Modules</SectionTitle>
+        <Description>
+          Modules extend a Safe with features such as spending allowances, recovery or automation.
+          Enabling and disabling modules requires a regular Safe transaction signed by the owners.
+        </Description>
+
+        <WarningBanner>
+          ⚠️ Enabled modules can execute any transaction from this Safe without owner signatures.
+          Only keep modules you fully trust enabled.
+        </WarningBanner>
+
+        {successMessage && (
+          <SuccessMessage>
+            ✅ {successMessage}
+          </SuccessMessage>
+        )}
+
+        {/* Enabled Modules */}
+        {modules.length === 0 ? (
+          <EmptyState>No modules are enabled on this Safe.</EmptyState>
+        ) : (
+          <ModuleList>
+            {modules.map(moduleAddress => {
+              const moduleName = SafeModuleService.getModuleName(moduleAddress);
+              return (
+                <ModuleItem key={moduleAddress}>
+                  <ModuleInfo>
+                    <ModuleName isKnown={!!moduleName}>
+                      {moduleName || '⚠️ Unknown module'}
+                    </ModuleName>
+                    <AddressDisplay
+                      address={moduleAddress}
+                      network={network}
+                      truncate={true}
+                      truncateLength={6}
+                      showCopy={true}
+                      showExplorer={true}
+                    />
+                  </ModuleInfo>
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    onClick={() => handleDisableModule(moduleAddress)}
+                    disabled={isSubmitting || !isSignerConnected}
+                    allowClickWhenDisabled={!isSignerConnected}
+                  >
+                    Disable
+                  </Button>
+                </ModuleItem>
+              );
+            })}
+          </ModuleList>
+        )}
+
+        {pageCount > 1 && (
+          <Pagination>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+            >
+              ← Previous
+            </Button>
+            <span>Page {currentPage + 1} of {pageCount} · {allModules.length} enabled</span>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= pageCount - 1}
+            >
+              Next →
+            </Button>
+          </Pagination>
+        )}
+
+        {/* Enable Module Form */}
+        <ModuleForm>
+          <Input
+            label="Module Contract Address"
+            placeholder="0x..."
+            value={newModuleAddress}
+            onChange={(e) => handleAddressChange(e.target.value)}
+            error={addressError}
+            helperText="Enter the address of the module contract to enable on this Safe"
+            fullWidth
+          />
+
+          <div>
+            <Button
+              variant="primary"
+              onClick={handleEnableModule}
+              disabled={!newModuleAddress.trim() || !!addressError || isSubmitting || !isSignerConnected}
+              loading={isSubmitting}
+              allowClickWhenDisabled={!isSignerConnected}
+              className={!isSignerConnected ? 'opacity-50' : ''}
+            >
+              Enable Module
+            </Button>
+          </div>
+        </ModuleForm>
+
+        {!isSignerConnected && (
+          <Description style={{ color: theme.colors.text.muted, fontStyle: 'italic', marginTop: theme.spacing[4] }}>
+            Connect a signer wallet to enable or disable modules.
+          </Description>
+        )}
+      </Section>
+
+      {/* Wallet Connection Modal */}
+      {showWalletModal && (
+        <WalletConnectionModal
+          isOpen={showWalletModal}
+          onClose={() => setShowWalletModal(false)}
+          onWalletSelect={handleWalletSelect}
+        />
+      )}
+
+      {/* Module Confirmation Modal */}
+      {pendingModule && (
+        <ModuleConfirmationModal
+          isOpen={!!pendingModule}
+          onClose={() => setPendingModule(null)}
+          onConfirm={handleConfirmModuleAction}
+          moduleAddress={pendingModule.address}
+          safeAddress={connectionState.safeAddress || ''}
+          network={network}
+          enabledModules={allModules}
+          isDisabling={pendingModule.action === 'disable'}
+          isSubmitting={isSubmitting}
+        />
+      )}
+    </Container>
+  );
+};
+
+export default ModuleManagementSection;
@@ -1,6 +1,7 @@
 import React from 'react';
 import styled from 'styled-components';
 import { theme } from '../../../theme';
+import { getChainConfig } from '../../../config/chains';
 
 interface NetworkBadgeProps {
   network: string;
@@ -8,25 +9,7 @@ interface NetworkBadgeProps {
 
 // Get appropriate color for each network
 const getNetworkColor = (network: string): string => {
-  switch (network.toLowerCase()) {
-    case 'ethereum':
-    case 'mainnet':
-      return '#627EEA';  // Ethereum blue
-    case 'optimism':
-      return '#FF0420';  // Optimism red
-    case 'arbitrum':
-      return '#96BEDC';  // Arbitrum blue
-    case 'polygon':
-      return '#8247E5';  // Polygon purple
-    case 'base':
-      return '#0052FF';  // Base blue
-    case 'sepolia':
-      return '#CFB5F0';  // Sepolia lavender
-    case 'goerli':
-      return '#F6C343';  // Goerli yellow
-    default:
-      return '#888888';  // Default gray for unknown networks
-  }
+  return getChainConfig(network)?.color || '#888888'; // Default gray for unknown networks
 };
 
 const NetworkBadgeContainer = styled.div<{ networkColor: string }>`
@@ -57,10 +40,11 @@ const NetworkBadgeContainer = styled.div<{ networkColor: string }>`
 
 const NetworkBadge: React.FC<NetworkBadgeProps> = ({ network }) => {
   const networkColor = getNetworkColor(network);
-  
+  const chain = getChainConfig(network);
+
   return (
     <NetworkBadgeContainer networkColor={networkColor}>
-      {network}
+      {chain?.isCustom ? chain.shortName : network}
     </NetworkBadgeContainer>
   );
 };
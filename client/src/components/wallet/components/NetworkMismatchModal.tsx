@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import styled from 'styled-components';
 import { theme } from '../../../theme';
-import { NETWORK_CONFIGS } from '../../../contracts/abis';
+import { getChainConfig } from '../../../config/chains';
 import { walletConnectionService } from '../../../services/WalletConnectionService';
 
 interface NetworkMismatchModalProps {
@@ -173,8 +173,8 @@ const NetworkMismatchModal: React.FC<NetworkMismatchModalProps> = ({
   const [isSwitching, setIsSwitching] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const currentConfig = NETWORK_CONFIGS[currentNetwork as keyof typeof NETWORK_CONFIGS];
-  const requiredConfig = NETWORK_CONFIGS[requiredNetwork as keyof typeof NETWORK_CONFIGS];
+  const currentConfig = getChainConfig(currentNetwork);
+  const requiredConfig = getChainConfig(requiredNetwork);
 
   const handleSwitchNetwork = async () => {
     setIsSwitching(true);
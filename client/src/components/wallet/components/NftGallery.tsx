@@ -0,0 +1,264 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { theme } from '../../../theme';
+import { Badge } from '../../ui';
+import { Asset } from '../types';
+import { NftItem, NftService } from '../../../services/NftService';
+import { ipfsGatewayService } from '../../../services/IpfsGatewayService';
+import { getRpcProvider } from '../../../services/FailoverRpcProvider';
+import AddressDisplay from './AddressDisplay';
+
+const Section = styled.div`
+  margin-top: ${theme.spacing[8]};
+`;
+
+const SectionHeader = styled.div`
+  display: flex;
+  align-items: baseline;
+  justify-content: space-between;
+  margin-bottom: ${theme.spacing[4]};
+`;
+
+const SectionTitle = styled.h2`
+  font-size: ${theme.typography.fontSize['2xl']};
+  font-weight: ${theme.typography.fontWeight.bold};
+  color: ${theme.colors.primary[400]};
+`;
+
+const SectionNote = styled.span`
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.muted};
+`;
+
+const Grid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(220px, 1fr));
+  gap: ${theme.spacing[4]};
+`;
+
+const NftCard = styled.div`
+  background: ${theme.colors.background.card};
+  border: 1px solid ${theme.colors.border.tertiary};
+  border-radius: ${theme.borderRadius.lg};
+  overflow: hidden;
+  display: flex;
+  flex-direction: column;
+  transition: ${theme.transitions.normal};
+
+  &:hover {
+    transform: translateY(-2px);
+    box-shadow: ${theme.shadows.xl};
+  }
+`;
+
+const NftImage = styled.img`
+  width: 100%;
+  aspect-ratio: 1;
+  object-fit: cover;
+  background: ${theme.colors.background.elevated};
+`;
+
+const NftImagePlaceholder = styled.div`
+  width: 100%;
+  aspect-ratio: 1;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background: ${theme.colors.background.elevated};
+  color: ${theme.colors.text.muted};
+  font-size: ${theme.typography.fontSize.sm};
+`;
+
+const NftBody = styled.div`
+  padding: ${theme.spacing[3]};
+  display: flex;
+  flex-direction: column;
+  gap: ${theme.spacing[1]};
+  flex: 1;
+`;
+
+const NftName = styled.div`
+  font-size: ${theme.typography.fontSize.base};
+  font-weight: ${theme.typography.fontWeight.semibold};
+  color: ${theme.colors.text.primary};
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const NftCollection = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing[2]};
+  font-size: ${theme.typography.fontSize.xs};
+  color: ${theme.colors.text.tertiary};
+`;
+
+const NftTokenId = styled.div`
+  font-size: ${theme.typography.fontSize.xs};
+  color: ${theme.colors.text.muted};
+  font-family: ${theme.typography.fontFamily.mono.join(', ')};
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const NftFooter = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-top: auto;
+  padding-top: ${theme.spacing[2]};
+`;
+
+const SendNftButton = styled.button`
+  padding: ${theme.spacing[1]} ${theme.spacing[4]};
+  background: linear-gradient(135deg, #0ea5e9, #0284c7);
+  color: white;
+  border: 1px solid rgba(14, 165, 233, 0.4);
+  border-radius: ${theme.borderRadius.md};
+  font-size: ${theme.typography.fontSize.sm};
+  font-weight: ${theme.typography.fontWeight.semibold};
+  cursor: pointer;
+
+  &:hover {
+    background: linear-gradient(135deg, #0284c7, #0369a1);
+  }
+
+  &:disabled {
+    background: ${theme.colors.text.muted};
+    cursor: not-allowed;
+  }
+`;
+
+const StatusMessage = styled.div<{ isError?: boolean }>`
+  padding: ${theme.spacing[6]};
+  text-align: center;
+  color: ${props => props.isError ? theme.colors.text.danger : theme.colors.text.muted};
+  background: ${theme.colors.background.card};
+  border: 1px solid ${theme.colors.border.tertiary};
+  border-radius: ${theme.borderRadius.lg};
+`;
+
+interface NftGalleryProps {
+  safeAddress: string;
+  network: string;
+  refreshKey?: number; // Changing it reloads the NFTs
+  onSendNft?: (asset: Asset) => void;
+}
+
+/**
+ * ERC-721 and ERC-1155 tokens held by the Safe, discovered from transfer logs
+ */
+const NftGallery: React.FC<NftGalleryProps> = ({ safeAddress, network, refreshKey = 0, onSendNft }) => {
+  const [nfts, setNfts] = useState<NftItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
+
+  const loadNfts = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const nftService = new NftService(getRpcProvider(network), network);
+      setNfts(await nftService.getNfts(safeAddress));
+    } catch (loadError: any) {
+      console.error('❌ Error loading NFTs:', loadError);
+      setError(loadError.message || 'Failed to load NFTs');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [safeAddress, network]);
+
+  useEffect(() => {
+    if (safeAddress) {
+      loadNfts();
+    }
+  }, [safeAddress, loadNfts, refreshKey]);
+
+  // Metadata images are resolved when loaded, reload them with the new gateway
+  useEffect(() => ipfsGatewayService.subscribe(() => {
+    if (safeAddress) {
+      setFailedImages(new Set());
+      loadNfts();
+    }
+  }), [safeAddress, loadNfts]);
+
+  const getKey = (nft: NftItem) => `${nft.contractAddress}:${nft.tokenId}`;
+
+  return (
+    <Section>
+      <SectionHeader>
+        <SectionTitle>NFTs</SectionTitle>
+        {!isLoading && nfts.length > 0 && (
+          <SectionNote>{nfts.length} item{nfts.length === 1 ? '' : 's'}</SectionNote>
+        )}
+      </SectionHeader>
+
+      {isLoading && nfts.length === 0 && (
+        <StatusMessage>Scanning transfer logs for NFTs...</StatusMessage>
+      )}
+
+      {error && (
+        <StatusMessage isError>{error}</StatusMessage>
+      )}
+
+      {!isLoading && !error && nfts.length === 0 && (
+        <StatusMessage>No ERC-721 or ERC-1155 tokens found for this Safe.</StatusMessage>
+      )}
+
+      {nfts.length > 0 && (
+        <Grid>
+          {nfts.map(nft => {
+            const asset = NftService.toAsset(nft);
+            const key = getKey(nft);
+
+            return (
+              <NftCard key={key}>
+                {asset.imageUrl && !failedImages.has(key) ? (
+                  <NftImage
+                    src={asset.imageUrl}
+                    alt={asset.name}
+                    loading="lazy"
+                    onError={() => setFailedImages(prev => new Set(prev).add(key))}
+                  />
+                ) : (
+                  <NftImagePlaceholder>{nft.metadata ? 'No image' : 'No metadata'}</NftImagePlaceholder>
+                )}
+                <NftBody>
+                  <NftName title={asset.description || asset.name}>{asset.name}</NftName>
+                  <NftCollection>
+                    <span>{asset.collectionName}</span>
+                    <Badge variant="secondary" size="sm">{nft.standard.toUpperCase()}</Badge>
+                  </NftCollection>
+                  <NftTokenId title={nft.tokenId}>Token ID #{nft.tokenId}</NftTokenId>
+                  <AddressDisplay
+                    address={nft.contractAddress}
+                    network={network}
+                    truncate={true}
+                    truncateLength={4}
+                    showCopy={true}
+                    showExplorer={true}
+                  />
+                  <NftFooter>
+                    <SectionNote>{nft.standard === 'erc1155' ? `× ${nft.balance}` : ''}</SectionNote>
+                    <SendNftButton
+                      onClick={() => onSendNft?.(asset)}
+                      disabled={!onSendNft}
+                      title={`Send ${asset.name}`}
+                    >
+                      Send
+                    </SendNftButton>
+                  </NftFooter>
+                </NftBody>
+              </NftCard>
+            );
+          })}
+        </Grid>
+      )}
+    </Section>
+  );
+};
+
+export default NftGallery;
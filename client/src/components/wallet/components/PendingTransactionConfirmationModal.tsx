@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import styled from 'styled-components';
 import { ethers } from 'ethers';
 import { SafeTxPoolTransaction, SafeTxPoolService } from '../../../services/SafeTxPoolService';
-import { SafeWalletService } from '../../../services/SafeWalletService';
+import { SafeWalletService, SafeTransactionData } from '../../../services/SafeWalletService';
+import { TransactionSimulationResult } from '../../../services/TransactionSimulationService';
 import { walletConnectionService } from '../../../services/WalletConnectionService';
 import { formatWalletAddress } from '../../../utils';
 import { useToast } from '../../../hooks/useToast';
@@ -10,8 +11,14 @@ import { toChecksumAddress, addressInArray, formatChecksumAddress } from '../../
 import { TransactionDecoder, DecodedTransactionData } from '../../../utils/transactionDecoder';
 import { TokenService } from '../../../services/TokenService';
 import ParameterDisplay from './ParameterDisplay';
-import { getRpcUrl } from '../../../contracts/abis';
+import TransactionDataDisplay from './TransactionDataDisplay';
+import { getRpcProvider } from '../../../services/FailoverRpcProvider';
+import { getChainConfig } from '../../../config/chains';
+import { priceService, formatUsd } from '../../../services/PriceService';
 import AddressDisplay from './AddressDisplay';
+import TransactionConfirmationFlow, { TransactionStep } from './TransactionConfirmationFlow';
+import SafeTxHashVerificationPanel from './SafeTxHashVerificationPanel';
+import { createSafeContractTransactionHash } from '../../../utils/eip712';
 
 const ModalOverlay = styled.div<{ isOpen: boolean }>`
   position: fixed;
@@ -140,8 +147,8 @@ const SignersList = styled.div`
   gap: 8px;
 `;
 
-const SignerBadge = styled.span`
-  background: #0ea5e9;
+const SignerBadge = styled.span<{ onChain?: boolean }>`
+  background: ${props => props.onChain ? '#8b5cf6' : '#0ea5e9'};
   color: #ffffff;
   padding: 4px 8px;
   border-radius: 4px;
@@ -149,6 +156,13 @@ const SignerBadge = styled.span`
   font-weight: 500;
 `;
 
+const SignerTypeLabel = styled.span`
+  margin-left: 6px;
+  opacity: 0.8;
+  font-size: 0.625rem;
+  text-transform: uppercase;
+`;
+
 const ProgressBar = styled.div`
   background: #374151;
   border-radius: 8px;
@@ -233,6 +247,27 @@ const WarningBox = styled.div`
   font-size: 0.875rem;
 `;
 
+const EXECUTION_STEPS: TransactionStep[] = [
+  {
+    id: 'simulate',
+    title: 'Simulate Transaction',
+    description: 'Dry-run the transaction with simulateAndRevert to check whether it would revert',
+    status: 'pending'
+  },
+  {
+    id: 'execute',
+    title: 'Execute Transaction',
+    description: 'Submit execTransaction with the collected signatures from your wallet',
+    status: 'pending'
+  },
+  {
+    id: 'confirm',
+    title: 'Wait for Confirmation',
+    description: 'Wait for the execution transaction to be mined',
+    status: 'pending'
+  }
+];
+
 interface PendingTransactionConfirmationModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -256,6 +291,18 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
   const [hasUserSigned, setHasUserSigned] = useState(false);
   const [canUserSign, setCanUserSign] = useState(false);
   const [decodedTransaction, setDecodedTransaction] = useState<DecodedTransactionData | null>(null);
+  const [onChainApprovals, setOnChainApprovals] = useState<string[]>([]);
+  const [isExecutionFlowOpen, setIsExecutionFlowOpen] = useState(false);
+  const [executionSteps, setExecutionSteps] = useState<TransactionStep[]>(EXECUTION_STEPS);
+  const [currentExecutionStepId, setCurrentExecutionStepId] = useState(EXECUTION_STEPS[0].id);
+  const [executionContext, setExecutionContext] = useState<{
+    walletService: SafeWalletService;
+    safeTransactionData: SafeTransactionData;
+  } | null>(null);
+  const [simulation, setSimulation] = useState<TransactionSimulationResult | null>(null);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [fiatValue, setFiatValue] = useState<string | null>(null);
   const toast = useToast();
 
   useEffect(() => {
@@ -263,15 +310,22 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
       loadSafeInfo();
       getCurrentUserAddress();
       decodeTransaction();
+      loadOnChainApprovals();
     }
   }, [isOpen, safeAddress]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Combine off-chain pool signatures with on-chain approveHash approvals
+  const confirmations = [
+    ...transaction.signatures.map(sig => ({ signer: sig.signer, onChain: false })),
+    ...onChainApprovals
+      .filter(owner => !transaction.signatures.some(sig => sig.signer.toLowerCase() === owner.toLowerCase()))
+      .map(owner => ({ signer: owner, onChain: true }))
+  ];
+
   // Decode transaction for better display
   const decodeTransaction = async () => {
     try {
-      const rpcUrl = getRpcUrl(network);
-
-      const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+      const provider = getRpcProvider(network);
       const tokenService = new TokenService(provider, network);
       const decoder = new TransactionDecoder(tokenService, network);
 
@@ -283,12 +337,38 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
 
       console.log('✅ Transaction decoded:', decoded);
       setDecodedTransaction(decoded);
+      loadFiatValue(decoded);
     } catch (error) {
       console.error('❌ Error decoding transaction:', error);
       if (error instanceof Error) {
         console.error('❌ Error stack:', error.stack);
       }
       setDecodedTransaction(null);
+      loadFiatValue(null);
+    }
+  };
+
+  // USD value of the transferred tokens or native value, from the on-chain price feeds
+  const loadFiatValue = async (decoded: DecodedTransactionData | null) => {
+    setFiatValue(null);
+    try {
+      const token = decoded?.type === 'ERC20_TRANSFER' ? decoded.details.token : undefined;
+      if (token && decoded?.details.amount) {
+        const price = await priceService.getTokenPrice(network, token.address);
+        if (price !== null) {
+          setFiatValue(formatUsd(parseFloat(ethers.utils.formatUnits(decoded.details.amount, token.decimals)) * price));
+        }
+        return;
+      }
+
+      if (ethers.BigNumber.from(transaction.value || '0').gt(0)) {
+        const price = await priceService.getNativePrice(network);
+        if (price !== null) {
+          setFiatValue(formatUsd(parseFloat(ethers.utils.formatEther(transaction.value)) * price));
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to read the price feed:', error);
     }
   };
 
@@ -310,7 +390,7 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
         const alreadySigned = transaction.signatures.some(sig => {
           const checksumSigner = toChecksumAddress(sig.signer);
           return checksumSigner === checksumCurrentUser;
-        });
+        }) || onChainApprovals.some(owner => toChecksumAddress(owner) === checksumCurrentUser);
 
         console.log('🔍 Authorization Check:');
         console.log('  Current User:', currentUserAddress);
@@ -329,7 +409,7 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
         setHasUserSigned(false);
       }
     }
-  }, [currentUserAddress, safeInfo, transaction.signatures]);
+  }, [currentUserAddress, safeInfo, transaction.signatures, onChainApprovals]);
 
   // Listen for wallet connection changes while modal is open
   useEffect(() => {
@@ -362,6 +442,17 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
     }
   };
 
+  const loadOnChainApprovals = async () => {
+    try {
+      const walletService = new SafeWalletService();
+      await walletService.initialize({ safeAddress, network });
+      const approvals = await walletService.getOnChainApprovals(transaction.txHash);
+      setOnChainApprovals(approvals);
+    } catch (error) {
+      console.error('Error loading on-chain approvals:', error);
+    }
+  };
+
   const getCurrentUserAddress = async () => {
     try {
       const state = walletConnectionService.getState();
@@ -422,8 +513,8 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
     }
   };
 
-  const handleExecute = async () => {
-    if (!currentUserAddress || !isFullySigned) return;
+  const handleApproveOnChain = async () => {
+    if (!currentUserAddress || !canUserSign) return;
 
     setIsLoading(true);
     try {
@@ -446,46 +537,152 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
 
       const walletService = new SafeWalletService();
       await walletService.initialize({ safeAddress, network });
-
-      // Set the signer for transaction execution
       await walletService.setSigner(signer);
 
-      // Get the complete original transaction data from SafeTxPool
-      // This ensures we use the EXACT same data that was signed
-      console.log('🔍 Getting original transaction data from SafeTxPool...');
-      const safeTxPoolService = new SafeTxPoolService(network);
+      // Send approveHash(safeTxHash) from the owner's account
+      const approvalTx = await walletService.approveTransactionHash(transaction.txHash);
+      await approvalTx.wait();
 
-      const originalTxDetails = await safeTxPoolService.getTxDetails(transaction.txHash);
-      if (!originalTxDetails) {
-        throw new Error('Could not retrieve original transaction details from SafeTxPool');
-      }
+      toast.success('Transaction approved on-chain!', {
+        message: `Approval transaction: ${approvalTx.hash}`
+      });
 
-      console.log('📋 Original transaction details from SafeTxPool:', originalTxDetails);
+      await loadOnChainApprovals();
+      await onConfirm();
+    } catch (error) {
+      console.error('Error approving transaction on-chain:', error);
+      toast.error('Failed to approve transaction on-chain', {
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      // Use the EXACT original transaction data that was signed
-      const safeTransactionData = {
-        to: originalTxDetails.to,
-        value: originalTxDetails.value,
-        data: originalTxDetails.data,
-        operation: originalTxDetails.operation,
-        safeTxGas: '0', // These are always 0 in our implementation
-        baseGas: '0',
-        gasPrice: '0',
-        gasToken: '0x0000000000000000000000000000000000000000',
-        refundReceiver: '0x0000000000000000000000000000000000000000',
-        nonce: originalTxDetails.nonce
-      };
+  const updateExecutionStep = (stepId: string, status: TransactionStep['status']) => {
+    setExecutionSteps(prev => prev.map(step => step.id === stepId ? { ...step, status } : step));
+    if (status === 'active') {
+      setCurrentExecutionStepId(stepId);
+    }
+  };
+
+  const prepareExecution = async (userAddress: string) => {
+    // Get the signer from wallet connection service (supports both MetaMask and WalletConnect)
+    const connectionState = walletConnectionService.getState();
+    if (!connectionState.signerConnected) {
+      throw new Error('No wallet connected. Please connect your wallet first.');
+    }
+
+    const signer = walletConnectionService.getSigner();
+    if (!signer) {
+      throw new Error('No signer available. Please connect your wallet first.');
+    }
+
+    // Verify the signer address matches the current user
+    const signerAddress = await signer.getAddress();
+    if (signerAddress.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new Error('Wallet address mismatch. Please ensure you are connected with the correct wallet.');
+    }
+
+    const walletService = new SafeWalletService();
+    await walletService.initialize({ safeAddress, network });
+
+    // Set the signer for transaction execution
+    await walletService.setSigner(signer);
 
-      console.log('📋 Safe transaction data for execution:', safeTransactionData);
+    // Get the complete original transaction data from SafeTxPool
+    // This ensures we use the EXACT same data that was signed
+    console.log('🔍 Getting original transaction data from SafeTxPool...');
+    const safeTxPoolService = new SafeTxPoolService(network);
 
+    const originalTxDetails = await safeTxPoolService.getTxDetails(transaction.txHash);
+    if (!originalTxDetails) {
+      throw new Error('Could not retrieve original transaction details from SafeTxPool');
+    }
+
+    console.log('📋 Original transaction details from SafeTxPool:', originalTxDetails);
+
+    // Use the EXACT original transaction data that was signed
+    const safeTransactionData: SafeTransactionData = {
+      to: originalTxDetails.to,
+      value: originalTxDetails.value,
+      data: originalTxDetails.data,
+      operation: originalTxDetails.operation,
+      safeTxGas: '0', // These are always 0 in our implementation
+      baseGas: '0',
+      gasPrice: '0',
+      gasToken: '0x0000000000000000000000000000000000000000',
+      refundReceiver: '0x0000000000000000000000000000000000000000',
+      nonce: originalTxDetails.nonce
+    };
+
+    console.log('📋 Safe transaction data for execution:', safeTransactionData);
+
+    return { walletService, safeTransactionData };
+  };
+
+  // Open the execution flow and simulate first, execution is blocked until the user reviews the outcome
+  const handleExecute = async () => {
+    if (!currentUserAddress || !isFullySigned) return;
+
+    setIsLoading(true);
+    setSimulation(null);
+    setSimulationError(null);
+    setExecutionContext(null);
+    setExecutionSteps(EXECUTION_STEPS);
+
+    let context: { walletService: SafeWalletService; safeTransactionData: SafeTransactionData };
+    try {
+      context = await prepareExecution(currentUserAddress);
+      setExecutionContext(context);
+    } catch (error) {
+      console.error('Error preparing transaction execution:', error);
+      toast.error('Failed to execute transaction', {
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+      setIsLoading(false);
+      return;
+    }
+
+    setIsExecutionFlowOpen(true);
+    setIsSimulating(true);
+    updateExecutionStep('simulate', 'active');
+
+    try {
+      const result = await context.walletService.simulateTransaction(context.safeTransactionData);
+      setSimulation(result);
+      updateExecutionStep('simulate', result.success ? 'completed' : 'failed');
+    } catch (error) {
+      console.error('Error simulating transaction:', error);
+      setSimulationError(error instanceof Error ? error.message : 'Unknown error occurred');
+      updateExecutionStep('simulate', 'failed');
+    } finally {
+      setCurrentExecutionStepId('execute');
+      setIsSimulating(false);
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirmedExecute = async () => {
+    if (!executionContext) return;
+
+    setIsLoading(true);
+    let stepId = 'execute';
+    updateExecutionStep(stepId, 'active');
+
+    try {
       // Execute the transaction with collected signatures
-      const executionTx = await walletService.executeTransaction(
-        safeTransactionData,
+      const executionTx = await executionContext.walletService.executeTransaction(
+        executionContext.safeTransactionData,
         transaction.signatures
       );
+      updateExecutionStep(stepId, 'completed');
 
       // Wait for transaction confirmation
+      stepId = 'confirm';
+      updateExecutionStep(stepId, 'active');
       await executionTx.wait();
+      updateExecutionStep(stepId, 'completed');
 
       // Note: The SafeTxPool will automatically mark the transaction as executed
       // through the Guard mechanism (checkAfterExecution) when the Safe executes it.
@@ -494,10 +691,9 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
       toast.success('Transaction executed successfully!', {
         message: `Transaction hash: ${executionTx.hash}`
       });
-
-      await onConfirm();
     } catch (error) {
       console.error('Error executing transaction:', error);
+      updateExecutionStep(stepId, 'failed');
       toast.error('Failed to execute transaction', {
         message: error instanceof Error ? error.message : 'Unknown error occurred'
       });
@@ -506,6 +702,11 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
     }
   };
 
+  const handleExecutionComplete = async () => {
+    setIsExecutionFlowOpen(false);
+    await onConfirm();
+  };
+
   const formatAmount = (amount: string): string => {
     try {
       return parseFloat(ethers.utils.formatEther(amount)).toFixed(4);
@@ -514,8 +715,33 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
     }
   };
 
-  const progress = safeInfo ? (transaction.signatures.length / safeInfo.threshold) * 100 : 0;
-  const isFullySigned = safeInfo ? transaction.signatures.length >= safeInfo.threshold : false;
+  const transferredToken = decodedTransaction?.type === 'ERC20_TRANSFER' ? decodedTransaction.details.token : undefined;
+  const progress = safeInfo ? Math.min((confirmations.length / safeInfo.threshold) * 100, 100) : 0;
+  const isFullySigned = safeInfo ? confirmations.length >= safeInfo.threshold : false;
+
+  // SafeTx fields the pool hash was computed from, recomputed locally before signing
+  const chainId = getChainConfig(network)?.chainId;
+  const poolSafeTransactionData: SafeTransactionData = {
+    to: transaction.to,
+    value: transaction.value,
+    data: transaction.data || '0x',
+    operation: transaction.operation,
+    safeTxGas: '0',
+    baseGas: '0',
+    gasPrice: '0',
+    gasToken: ethers.constants.AddressZero,
+    refundReceiver: ethers.constants.AddressZero,
+    nonce: transaction.nonce
+  };
+  const hasHashMismatch = (() => {
+    if (!chainId) return false;
+    try {
+      return createSafeContractTransactionHash(safeAddress, chainId, poolSafeTransactionData).toLowerCase()
+        !== transaction.txHash.toLowerCase();
+    } catch {
+      return true;
+    }
+  })();
 
 
 
@@ -556,6 +782,7 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
               <DetailLabel>Amount:</DetailLabel>
               <DetailValue>
                 {decodedTransaction?.details.formattedAmount || `${formatAmount(transaction.value)} ETH`}
+                {fiatValue && <span style={{ color: '#94a3b8', marginLeft: '8px' }}>≈ {fiatValue}</span>}
               </DetailValue>
             </DetailRow>
 
@@ -598,13 +825,27 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
               </DetailValue>
             </DetailRow>
 
-            {transaction.data && transaction.data !== '0x' && (
+            {/* Wrapping transactions (batches, nested Safe transactions) show the decoded call tree */}
+            {decodedTransaction?.details.innerCalls && (
+              <div style={{ marginBottom: '16px' }}>
+                <TransactionDataDisplay
+                  data={transaction.data}
+                  decodedTransaction={decodedTransaction}
+                  network={network}
+                  operation={transaction.operation}
+                />
+              </div>
+            )}
+
+            {transaction.data && transaction.data !== '0x' && !decodedTransaction?.details.innerCalls && (
               <>
                 <DetailRow>
                   <DetailLabel>Function:</DetailLabel>
                   <DetailValue>
                     {decodedTransaction?.type === 'ERC20_TRANSFER' ? (
                       <span style={{ color: '#0ea5e9' }}>ERC-20 Transfer Function</span>
+                    ) : decodedTransaction?.type === 'NFT_TRANSFER' ? (
+                      <span style={{ color: '#a855f7' }}>{decodedTransaction.description}</span>
                     ) : decodedTransaction?.type === 'CONTRACT_CALL' ? (
                       <span style={{ color: '#3b82f6' }}>
                         {decodedTransaction.description || decodedTransaction.details.methodName || 'Contract Interaction'}
@@ -676,22 +917,36 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
             )}
           </TransactionDetails>
 
+          {chainId && (
+            <SafeTxHashVerificationPanel
+              transactionData={poolSafeTransactionData}
+              safeAddress={safeAddress}
+              chainId={chainId}
+              expectedSafeTxHash={transaction.txHash}
+            />
+          )}
+
           <SignersSection>
             <SectionTitle>Signature Progress</SectionTitle>
             <ProgressBar>
               <ProgressFill progress={progress} />
             </ProgressBar>
             <ProgressText>
-              {transaction.signatures.length} of {safeInfo?.threshold || '?'} required signatures
+              {confirmations.length} of {safeInfo?.threshold || '?'} required signatures
             </ProgressText>
             
-            {transaction.signatures.length > 0 && (
+            {confirmations.length > 0 && (
               <>
                 <SectionTitle style={{ marginTop: '16px' }}>Signed by:</SectionTitle>
                 <SignersList>
-                  {transaction.signatures.map((sig, index) => (
-                    <SignerBadge key={index}>
-                      {formatWalletAddress(sig.signer)}
+                  {confirmations.map((confirmation, index) => (
+                    <SignerBadge
+                      key={index}
+                      onChain={confirmation.onChain}
+                      title={confirmation.onChain ? 'Approved on-chain via approveHash' : 'Signed off-chain (EIP-712 signature)'}
+                    >
+                      {formatWalletAddress(confirmation.signer)}
+                      <SignerTypeLabel>{confirmation.onChain ? '⛓️ on-chain' : '✍️ off-chain'}</SignerTypeLabel>
                     </SignerBadge>
                   ))}
                 </SignersList>
@@ -747,26 +1002,61 @@ const PendingTransactionConfirmationModal: React.FC<PendingTransactionConfirmati
               <Button
                 variant="primary"
                 onClick={handleSign}
-                disabled={isLoading}
+                disabled={isLoading || hasHashMismatch}
               >
                 {isLoading && <LoadingSpinner />}
                 {isLoading ? 'Signing...' : 'Sign Transaction'}
               </Button>
             )}
+            {canUserSign && !isFullySigned && (
+              <Button
+                variant="secondary"
+                onClick={handleApproveOnChain}
+                disabled={isLoading || hasHashMismatch}
+                title="Send approveHash from your wallet, for wallets that cannot sign typed data"
+              >
+                {isLoading ? 'Approving...' : 'Approve On-chain'}
+              </Button>
+            )}
             {/* Show execute button if transaction is fully signed OR if we have enough signatures (fallback) */}
-            {(isFullySigned || (safeInfo && transaction.signatures.length >= safeInfo.threshold) || transaction.signatures.length >= 2) && (
+            {(isFullySigned || (safeInfo && confirmations.length >= safeInfo.threshold) || confirmations.length >= 2) && (
               <Button
                 variant="primary"
                 onClick={handleExecute}
                 disabled={isLoading || !currentUserAddress}
               >
                 {isLoading && <LoadingSpinner />}
-                {isLoading ? 'Executing...' : 'Execute Transaction'}
+                {isLoading ? 'Simulating...' : 'Execute Transaction'}
               </Button>
             )}
           </ButtonGroup>
         </ModalContent>
       </ModalContainer>
+
+      <TransactionConfirmationFlow
+        isOpen={isExecutionFlowOpen}
+        onClose={() => setIsExecutionFlowOpen(false)}
+        onComplete={handleExecutionComplete}
+        transactionData={{
+          to: transaction.to,
+          // Token transfers show the transferred tokens, which is what the fiat value is of
+          amount: transferredToken && decodedTransaction?.details.amount
+            ? ethers.utils.formatUnits(decodedTransaction.details.amount, transferredToken.decimals)
+            : formatAmount(transaction.value),
+          token: transferredToken?.address,
+          tokenSymbol: transferredToken?.symbol,
+          data: transaction.data,
+          fiatValue: fiatValue || undefined
+        }}
+        steps={executionSteps}
+        currentStepId={currentExecutionStepId}
+        onStepUpdate={updateExecutionStep}
+        simulation={simulation}
+        simulationError={simulationError}
+        isSimulating={isSimulating}
+        isExecuting={isLoading}
+        onExecute={handleConfirmedExecute}
+      />
     </ModalOverlay>
   );
 };
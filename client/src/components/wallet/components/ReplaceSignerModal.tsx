@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { safeWalletService } from '../../../services/SafeWalletService';
+import SafeManagementService from '../../../services/SafeManagementService';
+
+import Button from '../../ui/Button';
+import Modal from '../../ui/Modal';
+import AddressDisplay from './AddressDisplay';
+import {
+  ModalDescription,
+  FormGroup,
+  Label,
+  StyledInput,
+  InputGroup,
+  InputLabel,
+  TransactionDetails,
+  DetailRow,
+  DetailLabel,
+  DetailValue,
+  ErrorMessage,
+  ButtonGroup,
+  SignerToRemove,
+  RemoveIcon
+} from './ModalStyles';
+
+
+
+interface ReplaceSignerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  signerToReplace: string | null;
+  currentOwners: string[];
+  currentThreshold: number;
+  currentNonce: number;
+  network: string;
+  safeAddress: string;
+  onSuccess: (message: string) => void;
+}
+
+const ReplaceSignerModal: React.FC<ReplaceSignerModalProps> = ({
+  isOpen,
+  onClose,
+  signerToReplace,
+  currentOwners,
+  currentThreshold,
+  currentNonce,
+  network,
+  safeAddress,
+  onSuccess
+}) => {
+  const [newOwnerAddress, setNewOwnerAddress] = useState('');
+  const [customNonce, setCustomNonce] = useState(currentNonce);
+  const recommendedNonce = currentNonce;
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setNewOwnerAddress('');
+      setCustomNonce(currentNonce);
+      setError(null);
+    }
+  }, [isOpen, currentNonce]);
+
+  const handleSubmit = async () => {
+    if (!signerToReplace || !newOwnerAddress) return;
+
+    try {
+      setIsCreating(true);
+      setError(null);
+
+      const newOwner = newOwnerAddress.trim();
+      const validationError = SafeManagementService.validateNewOwner(currentOwners, signerToReplace, newOwner, safeAddress);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      // Find previous owner in the linked list
+      const prevOwner = SafeManagementService.findPrevOwner(currentOwners, signerToReplace);
+
+      // Create transaction with custom nonce
+      const txData = SafeManagementService.createSwapOwnerTransaction(
+        safeAddress,
+        prevOwner,
+        signerToReplace,
+        newOwner,
+        customNonce
+      );
+
+      // Create and propose transaction
+      await safeWalletService.createTransaction({
+        to: txData.to,
+        value: txData.value,
+        data: txData.data
+      });
+
+      onSuccess(`Transaction created to replace signer ${signerToReplace.slice(0, 6)}...${signerToReplace.slice(-4)} with ${newOwner.slice(0, 6)}...${newOwner.slice(-4)} (nonce: ${customNonce})`);
+      onClose();
+    } catch (err: any) {
+      console.error('Error creating swap owner transaction:', err);
+      setError(err.message || 'Failed to create swap owner transaction');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Replace Signer">
+      <ModalDescription>
+        Replace a signer with a new address in a single transaction. The number of signers and the threshold stay unchanged,
+        which makes this the safest way to rotate a lost or compromised key.
+      </ModalDescription>
+
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+
+      {signerToReplace && (
+        <FormGroup>
+          <Label>Signer to Replace</Label>
+          <SignerToRemove>
+            <RemoveIcon>−</RemoveIcon>
+            <AddressDisplay
+              address={signerToReplace}
+              network={network}
+              truncate={true}
+              truncateLength={6}
+              showCopy={true}
+              showExplorer={true}
+            />
+          </SignerToRemove>
+        </FormGroup>
+      )}
+
+      <FormGroup>
+        <Label>New Signer Address</Label>
+        <StyledInput
+          placeholder="0x... (Ethereum address)"
+          value={newOwnerAddress}
+          onChange={(e) => setNewOwnerAddress(e.target.value)}
+          disabled={isCreating}
+        />
+      </FormGroup>
+
+      <FormGroup>
+        <Label>Transaction Nonce</Label>
+        <InputGroup>
+          <StyledInput
+            type="number"
+            min={currentNonce}
+            value={customNonce}
+            onChange={(e) => setCustomNonce(parseInt(e.target.value) || currentNonce)}
+            disabled={isCreating}
+            style={{ width: '120px', textAlign: 'center' }}
+          />
+          <InputLabel>(Recommended: {recommendedNonce})</InputLabel>
+        </InputGroup>
+        <ModalDescription style={{ marginTop: '8px', marginBottom: 0, fontSize: '14px' }}>
+          Current Safe nonce: {currentNonce}. Use current nonce for new transactions.
+        </ModalDescription>
+      </FormGroup>
+
+      <TransactionDetails>
+        <DetailRow>
+          <DetailLabel>Operation:</DetailLabel>
+          <DetailValue style={{ color: '#F59E0B', fontWeight: 'bold' }}>
+            Swap Owner
+          </DetailValue>
+        </DetailRow>
+        <DetailRow>
+          <DetailLabel>Replacing Signer:</DetailLabel>
+          <DetailValue>{signerToReplace || 'Not specified'}</DetailValue>
+        </DetailRow>
+        <DetailRow>
+          <DetailLabel>New Signer:</DetailLabel>
+          <DetailValue>{newOwnerAddress || 'Not specified'}</DetailValue>
+        </DetailRow>
+        <DetailRow>
+          <DetailLabel>Threshold:</DetailLabel>
+          <DetailValue>{currentThreshold} out of {currentOwners.length} signers (unchanged)</DetailValue>
+        </DetailRow>
+        <DetailRow>
+          <DetailLabel>Transaction Nonce:</DetailLabel>
+          <DetailValue>{customNonce}</DetailValue>
+        </DetailRow>
+      </TransactionDetails>
+
+      <ButtonGroup>
+        <Button
+          variant="secondary"
+          onClick={onClose}
+          disabled={isCreating}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleSubmit}
+          disabled={isCreating || !signerToReplace || !newOwnerAddress.trim()}
+          loading={isCreating}
+        >
+          {isCreating ? 'Creating Transaction...' : 'Replace Signer'}
+        </Button>
+      </ButtonGroup>
+    </Modal>
+  );
+};
+
+export default ReplaceSignerModal;
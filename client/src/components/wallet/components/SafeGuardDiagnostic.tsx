@@ -3,7 +3,7 @@ import styled from 'styled-components';
 import { ethers } from 'ethers';
 import { theme } from '../../../theme';
 import { safeWalletService } from '../../../services/SafeWalletService';
-import { getSafeTxPoolRegistryAddress, getRpcUrl } from '../../../contracts/abis';
+import { getSafeTxPoolRegistryAddress } from '../../../contracts/abis';
 import { walletConnectionService } from '../../../services/WalletConnectionService';
 import { useToast } from '../../../hooks/useToast';
 import Button from '../../ui/Button';
@@ -140,18 +140,10 @@ const SafeGuardDiagnostic: React.FC<SafeGuardDiagnosticProps> = ({ safeAddress,
 
       // Initialize SafeWalletService with read-only provider for guard status check
       // We don't need a wallet connection just to read the guard status
-      const rpcUrl = getRpcUrl(network);
-      if (!rpcUrl) {
-        setError(`RPC URL not configured for ${network} network`);
-        return;
-      }
-
       // SafeWalletService will create its own read-only provider internally
-
       await safeWalletService.initialize({
         safeAddress,
-        network,
-        rpcUrl
+        network
       });
 
       // Get current guard
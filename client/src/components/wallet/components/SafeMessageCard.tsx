@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { theme } from '../../../theme';
+import { SafeMessage } from '../../../services/SafeMessageService';
+import Button from '../../ui/Button';
+import Input from '../../ui/Input';
+import AddressDisplay from './AddressDisplay';
+
+const Card = styled.div`
+  background: ${theme.colors.neutral[800]};
+  border: 1px solid ${theme.colors.neutral[700]};
+  border-radius: ${theme.borderRadius.lg};
+  padding: ${theme.spacing[6]};
+`;
+
+const CardHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: flex-start;
+  gap: ${theme.spacing[4]};
+  margin-bottom: ${theme.spacing[4]};
+`;
+
+const CardTitle = styled.div`
+  font-size: ${theme.typography.fontSize.lg};
+  font-weight: ${theme.typography.fontWeight.semibold};
+  color: ${theme.colors.text.primary};
+`;
+
+const CardMeta = styled.div`
+  font-size: ${theme.typography.fontSize.xs};
+  color: ${theme.colors.text.tertiary};
+  margin-top: ${theme.spacing[1]};
+`;
+
+const StatusBadge = styled.span.withConfig({
+  shouldForwardProp: (prop) => prop !== 'complete',
+})<{ complete: boolean }>`
+  padding: ${theme.spacing[1]} ${theme.spacing[3]};
+  border-radius: ${theme.borderRadius.full};
+  font-size: ${theme.typography.fontSize.xs};
+  font-weight: ${theme.typography.fontWeight.semibold};
+  white-space: nowrap;
+  color: ${props => props.complete ? theme.colors.status.success : theme.colors.status.warning};
+  background: ${props => props.complete ? theme.colors.status.success : theme.colors.status.warning}20;
+  border: 1px solid ${props => props.complete ? theme.colors.status.success : theme.colors.status.warning}40;
+`;
+
+const ContentPreview = styled.pre`
+  background: ${theme.colors.neutral[900]};
+  border-radius: ${theme.borderRadius.md};
+  padding: ${theme.spacing[3]};
+  font-size: ${theme.typography.fontSize.xs};
+  color: ${theme.colors.text.secondary};
+  white-space: pre-wrap;
+  word-break: break-all;
+  max-height: 160px;
+  overflow-y: auto;
+  margin: 0 0 ${theme.spacing[4]} 0;
+`;
+
+const DetailRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  gap: ${theme.spacing[4]};
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.secondary};
+  margin-bottom: ${theme.spacing[2]};
+`;
+
+const Mono = styled.span`
+  font-family: ${theme.typography.fontFamily.mono.join(', ')};
+  color: ${theme.colors.text.primary};
+  word-break: break-all;
+  text-align: right;
+`;
+
+const SignerList = styled.div`
+  display: grid;
+  gap: ${theme.spacing[2]};
+  margin: ${theme.spacing[3]} 0 ${theme.spacing[4]} 0;
+`;
+
+const Actions = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: ${theme.spacing[2]};
+  margin-top: ${theme.spacing[4]};
+`;
+
+const PasteRow = styled.div`
+  display: flex;
+  gap: ${theme.spacing[2]};
+  align-items: flex-start;
+  margin-top: ${theme.spacing[4]};
+
+  > *:first-child {
+    flex: 1;
+  }
+`;
+
+interface SafeMessageCardProps {
+  message: SafeMessage;
+  threshold: number;
+  network: string;
+  currentSigner?: string;
+  isOwner: boolean;
+  busyAction: string | null;
+  onSign: (message: SafeMessage) => void;
+  onAddSignature: (message: SafeMessage, signature: string) => void;
+  onCopySignature: (message: SafeMessage) => void;
+  onVerify: (message: SafeMessage) => void;
+  onSignOnChain: (message: SafeMessage) => void;
+  onRemove: (message: SafeMessage) => void;
+}
+
+/**
+ * Describe the message content for display
+ */
+const describeContent = (message: SafeMessage): { title: string; body: string } => {
+  if (typeof message.content === 'string') {
+    return { title: 'Text message', body: message.content };
+  }
+
+  const domainName = message.content.domain?.name;
+  return {
+    title: `Typed data${message.content.primaryType ? `: ${message.content.primaryType}` : ''}${domainName ? ` (${domainName})` : ''}`,
+    body: JSON.stringify(message.content.message, null, 2)
+  };
+};
+
+const SafeMessageCard: React.FC<SafeMessageCardProps> = ({
+  message,
+  threshold,
+  network,
+  currentSigner,
+  isOwner,
+  busyAction,
+  onSign,
+  onAddSignature,
+  onCopySignature,
+  onVerify,
+  onSignOnChain,
+  onRemove
+}) => {
+  const [pastedSignature, setPastedSignature] = useState('');
+
+  const { title, body } = describeContent(message);
+  const isComplete = message.signatures.length >= threshold;
+  const hasSigned = Boolean(currentSigner && message.signatures.some(
+    s => s.signer.toLowerCase() === currentSigner.toLowerCase()
+  ));
+  const isBusy = (action: string) => busyAction === `${action}:${message.safeMessageHash}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div>
+          <CardTitle>{title}</CardTitle>
+          <CardMeta>
+            {new Date(message.createdAt).toLocaleString()}
+            {message.origin && ` · ${message.origin}`}
+          </CardMeta>
+        </div>
+        <StatusBadge complete={isComplete}>
+          {message.signatures.length} of {threshold} signatures
+        </StatusBadge>
+      </CardHeader>
+
+      <ContentPreview>{body}</ContentPreview>
+
+      <DetailRow>
+        Message hash
+        <Mono>{message.messageHash}</Mono>
+      </DetailRow>
+      <DetailRow>
+        SafeMessage hash
+        <Mono>{message.safeMessageHash}</Mono>
+      </DetailRow>
+
+      {message.signatures.length > 0 && (
+        <SignerList>
+          {message.signatures.map(s => (
+            <AddressDisplay
+              key={s.signer}
+              address={s.signer}
+              network={network}
+              truncate={true}
+              truncateLength={6}
+              showCopy={true}
+            />
+          ))}
+        </SignerList>
+      )}
+
+      <Actions>
+        {isOwner && !hasSigned && (
+          <Button variant="primary" size="sm" onClick={() => onSign(message)} loading={isBusy('sign')}>
+            Sign
+          </Button>
+        )}
+        {isComplete && (
+          <>
+            <Button variant="secondary" size="sm" onClick={() => onCopySignature(message)}>
+              Copy EIP-1271 Signature
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => onVerify(message)} loading={isBusy('verify')}>
+              Verify
+            </Button>
+          </>
+        )}
+        <Button variant="outline" size="sm" onClick={() => onSignOnChain(message)} loading={isBusy('onchain')}>
+          Sign On-chain
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onRemove(message)}>
+          Remove
+        </Button>
+      </Actions>
+
+      <PasteRow>
+        <Input
+          placeholder="Paste an owner signature (0x...)"
+          value={pastedSignature}
+          onChange={(e) => setPastedSignature(e.target.value)}
+          inputSize="sm"
+          fullWidth
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={!pastedSignature.trim()}
+          onClick={() => {
+            onAddSignature(message, pastedSignature.trim());
+            setPastedSignature('');
+          }}
+        >
+          Add Signature
+        </Button>
+      </PasteRow>
+    </Card>
+  );
+};
+
+export default SafeMessageCard;
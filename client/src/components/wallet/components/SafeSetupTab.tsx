@@ -6,6 +6,7 @@ import AddressDisplay from './AddressDisplay';
 import Button from '../../ui/Button';
 import AddSignerModal from './AddSignerModal';
 import RemoveSignerModal from './RemoveSignerModal';
+import ReplaceSignerModal from './ReplaceSignerModal';
 import UpdateThresholdModal from './UpdateThresholdModal';
 import { walletConnectionService, WalletConnectionState } from '../../../services/WalletConnectionService';
 import WalletConnectionModal from '../../ui/WalletConnectionModal';
@@ -157,6 +158,11 @@ const RemoveButton = styled(Button)`
   font-size: ${theme.typography.fontSize.xs};
 `;
 
+const ReplaceButton = styled(Button)`
+  padding: ${theme.spacing[1]} ${theme.spacing[2]};
+  font-size: ${theme.typography.fontSize.xs};
+`;
+
 const SuccessMessage = styled.div`
   padding: ${theme.spacing[3]};
   background: ${theme.colors.status.success}20;
@@ -191,6 +197,8 @@ const SafeSetupTab: React.FC<SafeSetupTabProps> = ({ network }) => {
   const [showRemoveSignerModal, setShowRemoveSignerModal] = useState(false);
   const [showUpdateThresholdModal, setShowUpdateThresholdModal] = useState(false);
   const [signerToRemove, setSignerToRemove] = useState<string | null>(null);
+  const [showReplaceSignerModal, setShowReplaceSignerModal] = useState(false);
+  const [signerToReplace, setSignerToReplace] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   // Wallet connection state
@@ -258,6 +266,13 @@ const SafeSetupTab: React.FC<SafeSetupTabProps> = ({ network }) => {
     });
   };
 
+  const handleReplaceSignerClick = (ownerAddress: string) => {
+    handleWalletConnectionRequired(() => {
+      setSignerToReplace(ownerAddress);
+      setShowReplaceSignerModal(true);
+    });
+  };
+
   const handleAddSignerClick = () => {
     handleWalletConnectionRequired(() => {
       setShowAddSignerModal(true);
@@ -385,6 +400,16 @@ const SafeSetupTab: React.FC<SafeSetupTabProps> = ({ network }) => {
                 showExplorer={true}
               />
               <SignerActions>
+                <ReplaceButton
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleReplaceSignerClick(owner)}
+                  disabled={!isSignerConnected}
+                  allowClickWhenDisabled={!isSignerConnected}
+                  className={!isSignerConnected ? 'opacity-50' : ''}
+                >
+                  Replace
+                </ReplaceButton>
                 <RemoveButton
                   variant="danger"
                   size="sm"
@@ -487,6 +512,21 @@ const SafeSetupTab: React.FC<SafeSetupTabProps> = ({ network }) => {
         onSuccess={handleModalSuccess}
       />
 
+      <ReplaceSignerModal
+        isOpen={showReplaceSignerModal}
+        onClose={() => {
+          setShowReplaceSignerModal(false);
+          setSignerToReplace(null);
+        }}
+        signerToReplace={signerToReplace}
+        currentOwners={safeInfo.owners}
+        currentThreshold={safeInfo.threshold}
+        currentNonce={safeInfo.nonce}
+        network={network}
+        safeAddress={safeInfo.address}
+        onSuccess={handleModalSuccess}
+      />
+
       <UpdateThresholdModal
         isOpen={showUpdateThresholdModal}
         onClose={() => setShowUpdateThresholdModal(false)}
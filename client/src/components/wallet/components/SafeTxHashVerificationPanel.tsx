@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { theme } from '../../../theme';
+import { SafeTransactionData, computeSafeTxHashBreakdown } from '../../../utils/eip712';
+
+const Panel = styled.div.withConfig({
+  shouldForwardProp: (prop) => prop !== 'mismatch',
+})<{ mismatch: boolean }>`
+  background: ${theme.colors.neutral[900]};
+  border: 1px solid ${props => props.mismatch ? theme.colors.status.error : theme.colors.neutral[700]};
+  border-radius: ${theme.borderRadius.lg};
+  padding: ${theme.spacing[4]};
+  margin-bottom: ${theme.spacing[6]};
+`;
+
+const PanelHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${theme.spacing[3]};
+  margin-bottom: ${theme.spacing[3]};
+`;
+
+const PanelTitle = styled.h4`
+  color: ${theme.colors.text.primary};
+  font-size: ${theme.typography.fontSize.base};
+  font-weight: ${theme.typography.fontWeight.semibold};
+  margin: 0;
+`;
+
+const StatusBadge = styled.span.withConfig({
+  shouldForwardProp: (prop) => prop !== 'status',
+})<{ status: 'match' | 'mismatch' | 'unchecked' }>`
+  padding: ${theme.spacing[1]} ${theme.spacing[3]};
+  border-radius: ${theme.borderRadius.full};
+  font-size: ${theme.typography.fontSize.xs};
+  font-weight: ${theme.typography.fontWeight.semibold};
+  white-space: nowrap;
+  color: ${props => props.status === 'match'
+    ? theme.colors.status.success
+    : props.status === 'mismatch' ? theme.colors.status.error : theme.colors.text.tertiary};
+  border: 1px solid currentColor;
+`;
+
+const Description = styled.p`
+  color: ${theme.colors.text.tertiary};
+  font-size: ${theme.typography.fontSize.xs};
+  margin: 0 0 ${theme.spacing[3]} 0;
+  line-height: 1.5;
+`;
+
+const HashRow = styled.div`
+  display: grid;
+  grid-template-columns: 140px 1fr;
+  gap: ${theme.spacing[3]};
+  padding: ${theme.spacing[2]} 0;
+  border-bottom: 1px solid ${theme.colors.neutral[800]};
+  font-size: ${theme.typography.fontSize.xs};
+
+  &:last-child {
+    border-bottom: none;
+  }
+
+  @media (max-width: 600px) {
+    grid-template-columns: 1fr;
+    gap: ${theme.spacing[1]};
+  }
+`;
+
+const HashLabel = styled.span`
+  color: ${theme.colors.text.secondary};
+`;
+
+const HashValue = styled.span.withConfig({
+  shouldForwardProp: (prop) => prop !== 'highlight',
+})<{ highlight?: 'error' | 'success' }>`
+  font-family: ${theme.typography.fontFamily.mono.join(', ')};
+  color: ${props => props.highlight === 'error'
+    ? theme.colors.status.error
+    : props.highlight === 'success' ? theme.colors.status.success : theme.colors.text.primary};
+  word-break: break-all;
+  cursor: pointer;
+`;
+
+const MismatchWarning = styled.div`
+  background: ${theme.colors.status.error}20;
+  border: 1px solid ${theme.colors.status.error}60;
+  border-radius: ${theme.borderRadius.md};
+  color: ${theme.colors.status.error};
+  font-size: ${theme.typography.fontSize.sm};
+  padding: ${theme.spacing[3]};
+  margin-top: ${theme.spacing[3]};
+`;
+
+const ToggleButton = styled.button`
+  background: none;
+  border: none;
+  color: ${theme.colors.primary[400]};
+  font-size: ${theme.typography.fontSize.xs};
+  cursor: pointer;
+  padding: 0;
+  margin-top: ${theme.spacing[3]};
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const RawFields = styled.div`
+  margin-top: ${theme.spacing[2]};
+`;
+
+interface SafeTxHashVerificationPanelProps {
+  transactionData: SafeTransactionData;
+  safeAddress: string;
+  chainId: number;
+  expectedSafeTxHash?: string; // Hash stored in SafeTxPool, compared against the recomputed one
+}
+
+/**
+ * Recompute the safeTxHash locally from the raw SafeTx fields so owners can compare it
+ * with the hashes shown by their hardware wallet before signing
+ */
+const SafeTxHashVerificationPanel: React.FC<SafeTxHashVerificationPanelProps> = ({
+  transactionData,
+  safeAddress,
+  chainId,
+  expectedSafeTxHash
+}) => {
+  const [showRawFields, setShowRawFields] = useState(false);
+
+  const { breakdown, error } = useMemo(() => {
+    try {
+      return {
+        breakdown: computeSafeTxHashBreakdown({ chainId, verifyingContract: safeAddress }, transactionData),
+        error: null
+      };
+    } catch (err: any) {
+      return { breakdown: null, error: err.message || String(err) };
+    }
+  }, [transactionData, safeAddress, chainId]);
+
+  const isMismatch = Boolean(
+    breakdown && expectedSafeTxHash && breakdown.safeTxHash.toLowerCase() !== expectedSafeTxHash.toLowerCase()
+  );
+  const status = !breakdown || isMismatch ? 'mismatch' : expectedSafeTxHash ? 'match' : 'unchecked';
+
+  const copy = (value: string) => {
+    navigator.clipboard.writeText(value);
+  };
+
+  const rawFields: Array<[string, string]> = [
+    ['to', transactionData.to],
+    ['value', transactionData.value],
+    ['data', transactionData.data],
+    ['operation', `${transactionData.operation} (${transactionData.operation === 0 ? 'Call' : 'DelegateCall'})`],
+    ['safeTxGas', transactionData.safeTxGas],
+    ['baseGas', transactionData.baseGas],
+    ['gasPrice', transactionData.gasPrice],
+    ['gasToken', transactionData.gasToken],
+    ['refundReceiver', transactionData.refundReceiver],
+    ['nonce', String(transactionData.nonce)]
+  ];
+
+  return (
+    <Panel mismatch={status === 'mismatch'}>
+      <PanelHeader>
+        <PanelTitle>Hash Verification</PanelTitle>
+        <StatusBadge status={status}>
+          {status === 'match' ? '✓ Matches pool' : status === 'mismatch' ? '✗ Mismatch' : 'Recomputed locally'}
+        </StatusBadge>
+      </PanelHeader>
+
+      <Description>
+        Computed in your browser from the raw transaction fields. Compare these values with the
+        domain hash and message hash shown on your hardware wallet.
+      </Description>
+
+      <HashRow>
+        <HashLabel>Chain ID</HashLabel>
+        <HashValue onClick={() => copy(String(chainId))}>{chainId}</HashValue>
+      </HashRow>
+      <HashRow>
+        <HashLabel>Verifying contract</HashLabel>
+        <HashValue onClick={() => copy(safeAddress)}>{safeAddress}</HashValue>
+      </HashRow>
+
+      {breakdown && (
+        <>
+          <HashRow>
+            <HashLabel>Domain separator</HashLabel>
+            <HashValue onClick={() => copy(breakdown.domainSeparator)} title="Click to copy">
+              {breakdown.domainSeparator}
+            </HashValue>
+          </HashRow>
+          <HashRow>
+            <HashLabel>Message hash</HashLabel>
+            <HashValue onClick={() => copy(breakdown.messageHash)} title="Click to copy">
+              {breakdown.messageHash}
+            </HashValue>
+          </HashRow>
+          <HashRow>
+            <HashLabel>safeTxHash</HashLabel>
+            <HashValue
+              highlight={isMismatch ? 'error' : expectedSafeTxHash ? 'success' : undefined}
+              onClick={() => copy(breakdown.safeTxHash)}
+              title="Click to copy"
+            >
+              {breakdown.safeTxHash}
+            </HashValue>
+          </HashRow>
+        </>
+      )}
+
+      {expectedSafeTxHash && (
+        <HashRow>
+          <HashLabel>Pool hash</HashLabel>
+          <HashValue highlight={isMismatch ? 'error' : undefined} onClick={() => copy(expectedSafeTxHash)} title="Click to copy">
+            {expectedSafeTxHash}
+          </HashValue>
+        </HashRow>
+      )}
+
+      {error && (
+        <MismatchWarning>
+          ⚠️ Could not recompute the safeTxHash: {error}
+        </MismatchWarning>
+      )}
+
+      {isMismatch && (
+        <MismatchWarning>
+          ⚠️ The hash stored in the pool does not match the transaction fields. Do not sign this transaction.
+        </MismatchWarning>
+      )}
+
+      <ToggleButton type="button" onClick={() => setShowRawFields(!showRawFields)}>
+        {showRawFields ? 'Hide raw SafeTx fields' : 'Show raw SafeTx fields'}
+      </ToggleButton>
+
+      {showRawFields && (
+        <RawFields>
+          {rawFields.map(([name, value]) => (
+            <HashRow key={name}>
+              <HashLabel>{name}</HashLabel>
+              <HashValue onClick={() => copy(value)} title="Click to copy">{value}</HashValue>
+            </HashRow>
+          ))}
+        </RawFields>
+      )}
+    </Panel>
+  );
+};
+
+export default SafeTxHashVerificationPanel;
@@ -15,6 +15,7 @@ import WalletConnectionModal from '../../ui/WalletConnectionModal';
 import GuardConfirmationModal from './GuardConfirmationModal';
 import GuardTransactionModal from './GuardTransactionModal';
 import DelegateCallControlSection from './DelegateCallControlSection';
+import FallbackHandlerSection from './FallbackHandlerSection';
 import SafeGuardDiagnostic from './SafeGuardDiagnostic';
 import GuardAddressBookManager from './GuardAddressBookManager';
 
@@ -528,6 +529,9 @@ const SmartContractGuardSection: React.FC<SmartContractGuardSectionProps> = ({ n
         />
       )}
 
+      {/* Fallback Handler Section */}
+      <FallbackHandlerSection network={network} />
+
       {/* Delegate Call Control Section */}
       <DelegateCallControlSection network={network} />
 
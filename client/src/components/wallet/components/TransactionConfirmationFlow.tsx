@@ -4,8 +4,9 @@ import { ethers } from 'ethers';
 import { useToast } from '../../../hooks/useToast';
 import { ErrorHandler } from '../../../utils/errorHandling';
 import { errorRecoveryService } from '../../../services/ErrorRecoveryService';
+import { TransactionSimulationResult, SimulatedLog } from '../../../services/TransactionSimulationService';
 
-interface TransactionStep {
+export interface TransactionStep {
   id: string;
   title: string;
   description: string;
@@ -21,11 +22,18 @@ interface TransactionConfirmationFlowProps {
     to: string;
     amount: string;
     token?: string;
+    tokenSymbol?: string; // Symbol of the token the amount is in, the native asset otherwise
     data?: string;
+    fiatValue?: string; // USD value from the on-chain price feeds
   };
   steps: TransactionStep[];
   currentStepId: string;
   onStepUpdate: (stepId: string, status: TransactionStep['status']) => void;
+  simulation?: TransactionSimulationResult | null;
+  simulationError?: string | null;
+  isSimulating?: boolean;
+  isExecuting?: boolean;
+  onExecute?: () => void;
 }
 
 const pulse = keyframes`
@@ -261,6 +269,7 @@ const Button = styled.button<{ variant: 'primary' | 'secondary' | 'danger' }>`
           background: #ef4444;
           color: white;
           &:hover { background: #dc2626; }
+          &:disabled { background: #6b7280; cursor: not-allowed; }
         `;
       default:
         return `
@@ -283,6 +292,61 @@ const ErrorMessage = styled.div`
   font-size: 0.875rem;
 `;
 
+const SimulationPanel = styled.div<{ success: boolean }>`
+  background: ${props => props.success ? 'rgba(14, 165, 233, 0.1)' : 'rgba(239, 68, 68, 0.1)'};
+  border: 1px solid ${props => props.success ? 'rgba(14, 165, 233, 0.3)' : 'rgba(239, 68, 68, 0.3)'};
+  border-radius: 12px;
+  padding: 1rem;
+  margin-bottom: 1rem;
+`;
+
+const SimulationTitle = styled.div<{ success: boolean }>`
+  color: ${props => props.success ? '#0ea5e9' : '#ef4444'};
+  font-weight: 600;
+  font-size: 0.875rem;
+  margin-bottom: 0.75rem;
+`;
+
+const RevertReason = styled.div`
+  color: #fca5a5;
+  font-size: 0.8rem;
+  font-family: 'Courier New', monospace;
+  word-break: break-all;
+  margin-bottom: 0.5rem;
+`;
+
+const LogList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
+  margin-top: 0.5rem;
+`;
+
+const LogItem = styled.div`
+  color: #d1d5db;
+  font-size: 0.75rem;
+  font-family: 'Courier New', monospace;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const SimulationNote = styled.div`
+  color: #9ca3af;
+  font-size: 0.75rem;
+  margin-top: 0.5rem;
+`;
+
+const OverrideLabel = styled.label`
+  display: flex;
+  align-items: flex-start;
+  gap: 0.5rem;
+  color: #fca5a5;
+  font-size: 0.8rem;
+  margin-top: 0.75rem;
+  cursor: pointer;
+`;
+
 const RetryButton = styled(Button)`
   margin-top: 0.5rem;
 `;
@@ -307,13 +371,31 @@ const TransactionConfirmationFlow: React.FC<TransactionConfirmationFlowProps> =
   transactionData,
   steps,
   currentStepId,
-  onStepUpdate
+  onStepUpdate,
+  simulation,
+  simulationError,
+  isSimulating = false,
+  isExecuting = false,
+  onExecute
 }) => {
   const [error, setError] = useState<string | null>(null);
   const [isRetrying, setIsRetrying] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
+  const [overrideSimulation, setOverrideSimulation] = useState(false);
   const toast = useToast();
 
+  // A new simulation outcome always requires a fresh override decision
+  useEffect(() => {
+    setOverrideSimulation(false);
+  }, [simulation, simulationError]);
+
+  const simulationBlocksExecution = Boolean(simulationError) || (simulation ? !simulation.success : false);
+  const canExecute = Boolean(onExecute)
+    && !isSimulating
+    && !isExecuting
+    && Boolean(simulation || simulationError)
+    && (!simulationBlocksExecution || overrideSimulation);
+
   const currentStep = steps.find(step => step.id === currentStepId);
   const currentStepIndex = steps.findIndex(step => step.id === currentStepId);
   const isLastStep = currentStepIndex === steps.length - 1;
@@ -390,6 +472,17 @@ const TransactionConfirmationFlow: React.FC<TransactionConfirmationFlowProps> =
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
 
+  const formatLogEvent = (eventName: string, params: SimulatedLog['eventParams'] = []): string => {
+    const formatValue = (value: any): string => {
+      if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+      if (typeof value === 'string' && ethers.utils.isAddress(value)) return formatAddress(value);
+      return value?.toString() ?? '';
+    };
+
+    const args = params.map(param => `${param.name}: ${formatValue(param.value)}`).join(', ');
+    return `${eventName.split('(')[0]}(${args})`;
+  };
+
   return (
     <Overlay isOpen={isOpen}>
       <Modal>
@@ -407,7 +500,10 @@ const TransactionConfirmationFlow: React.FC<TransactionConfirmationFlowProps> =
           </DetailRow>
           <DetailRow>
             <DetailLabel>Amount:</DetailLabel>
-            <DetailValue>{transactionData.amount} ETH</DetailValue>
+            <DetailValue>
+              {transactionData.amount} {transactionData.tokenSymbol || 'ETH'}
+              {transactionData.fiatValue && ` (≈ ${transactionData.fiatValue})`}
+            </DetailValue>
           </DetailRow>
           {transactionData.token && (
             <DetailRow>
@@ -438,6 +534,64 @@ const TransactionConfirmationFlow: React.FC<TransactionConfirmationFlowProps> =
           ))}
         </StepsContainer>
 
+        {isSimulating && (
+          <SimulationNote>🧪 Simulating transaction...</SimulationNote>
+        )}
+
+        {simulation && (
+          <SimulationPanel success={simulation.success}>
+            <SimulationTitle success={simulation.success}>
+              {simulation.success ? '✓ Simulation succeeded' : '✗ Simulation failed: the transaction will revert'}
+            </SimulationTitle>
+            {!simulation.success && simulation.revertReason && (
+              <RevertReason>{simulation.revertReason}</RevertReason>
+            )}
+            <DetailRow>
+              <DetailLabel>Gas used:</DetailLabel>
+              <DetailValue>{Number(simulation.gasUsed).toLocaleString()}</DetailValue>
+            </DetailRow>
+            {simulation.logs ? (
+              <>
+                <DetailRow>
+                  <DetailLabel>Emitted logs:</DetailLabel>
+                  <DetailValue>{simulation.logs.length}</DetailValue>
+                </DetailRow>
+                {simulation.logs.length > 0 && (
+                  <LogList>
+                    {simulation.logs.map((log, index) => (
+                      <LogItem key={index} title={log.topics.join(', ')}>
+                        {formatAddress(log.address)} {log.eventParams
+                          ? formatLogEvent(log.eventName || '', log.eventParams)
+                          : log.eventName || log.topics[0] || 'anonymous event'}
+                      </LogItem>
+                    ))}
+                  </LogList>
+                )}
+              </>
+            ) : simulation.success && (
+              <SimulationNote>Emitted logs are unavailable for this RPC endpoint or operation type.</SimulationNote>
+            )}
+          </SimulationPanel>
+        )}
+
+        {simulationError && (
+          <ErrorMessage>
+            <strong>Simulation unavailable:</strong> {simulationError}
+          </ErrorMessage>
+        )}
+
+        {simulationBlocksExecution && onExecute && (
+          <OverrideLabel>
+            <input
+              type="checkbox"
+              checked={overrideSimulation}
+              onChange={(e) => setOverrideSimulation(e.target.checked)}
+              disabled={isExecuting}
+            />
+            I understand this transaction may revert and still consume gas, execute it anyway.
+          </OverrideLabel>
+        )}
+
         {error && (
           <ErrorMessage>
             <strong>Error:</strong> {error}
@@ -458,6 +612,12 @@ const TransactionConfirmationFlow: React.FC<TransactionConfirmationFlowProps> =
             {hasFailedSteps ? 'Close' : 'Cancel'}
           </Button>
           
+          {onExecute && !(currentStep?.status === 'completed' && isLastStep) && (
+            <Button variant={simulationBlocksExecution ? 'danger' : 'primary'} onClick={onExecute} disabled={!canExecute}>
+              {isExecuting ? 'Executing...' : simulationBlocksExecution ? 'Execute Anyway' : 'Execute'}
+            </Button>
+          )}
+
           {currentStep?.status === 'completed' && isLastStep && (
             <Button variant="primary" onClick={() => onComplete({ success: true })}>
               Complete
@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
 import styled from 'styled-components';
-import { DecodedTransactionData } from '../../../utils/transactionDecoder';
+import { ethers } from 'ethers';
+import { AbiSource, DecodedInnerCall, DecodedTransactionData } from '../../../utils/transactionDecoder';
 import ParameterDisplay from './ParameterDisplay';
+import AddressDisplay from './AddressDisplay';
+import UserAbiForm from './UserAbiForm';
 
 const Container = styled.div`
   margin-top: 8px;
@@ -24,11 +27,105 @@ const FunctionValue = styled.span<{ type: string }>`
   font-weight: 600;
   color: ${props => 
     props.type === 'ERC20_TRANSFER' ? '#0ea5e9' :
+    props.type === 'NFT_TRANSFER' ? '#a855f7' :
     props.type === 'CONTRACT_CALL' ? '#3b82f6' :
     '#f59e0b'
   };
 `;
 
+const ABI_SOURCES: Record<AbiSource, { label: string; color: string; title: string }> = {
+  verified: { label: 'Verified ABI', color: '#10b981', title: 'Decoded with a fully verified or bundled contract ABI' },
+  partial: { label: 'Partial match', color: '#f59e0b', title: 'Decoded with a Sourcify partial match, parameter names may differ from the deployed source' },
+  user: { label: 'User-supplied ABI', color: '#3b82f6', title: 'Decoded with an ABI you provided, it is not verified against the contract' },
+  guessed: { label: 'Guessed', color: '#ef4444', title: 'No ABI available, the function and parameters are inferred from the selector and raw data' }
+};
+
+const AbiSourceBadge = styled.span<{ color: string }>`
+  font-size: 10px;
+  font-weight: 600;
+  padding: 1px 6px;
+  border-radius: 8px;
+  border: 1px solid ${props => props.color}80;
+  background: ${props => props.color}20;
+  color: ${props => props.color};
+  white-space: nowrap;
+`;
+
+const AbiFormContainer = styled.div`
+  margin-bottom: 8px;
+  padding: 12px;
+  background: #1a1a1a;
+  border: 1px solid #333;
+  border-radius: 4px;
+`;
+
+const AbiSavedNote = styled.div`
+  margin-bottom: 8px;
+  font-size: 11px;
+  color: #10b981;
+`;
+
+const DelegateCallBadge = styled.span`
+  font-size: 10px;
+  font-weight: 700;
+  padding: 1px 6px;
+  border-radius: 8px;
+  border: 1px solid #ef4444;
+  background: #ef444430;
+  color: #ef4444;
+  text-transform: uppercase;
+  white-space: nowrap;
+`;
+
+const TruncatedNote = styled.div`
+  margin-top: 4px;
+  font-size: 11px;
+  color: #f59e0b;
+`;
+
+const InnerCallsContainer = styled.div`
+  margin-top: 8px;
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`;
+
+const InnerCallCard = styled.div<{ isDelegateCall: boolean }>`
+  background: ${props => props.isDelegateCall ? '#2a1a1a' : '#1a1a1a'};
+  border: 1px solid ${props => props.isDelegateCall ? '#ef444460' : '#333'};
+  border-left: 3px solid ${props => props.isDelegateCall ? '#ef4444' : '#4ECDC4'};
+  border-radius: 4px;
+  padding: 8px;
+`;
+
+const InnerCallHeader = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 12px;
+  cursor: pointer;
+`;
+
+const InnerCallToggle = styled.span`
+  width: 10px;
+  color: #4ECDC4;
+  font-size: 10px;
+`;
+
+const InnerCallIndex = styled.span`
+  color: #4ECDC4;
+  font-weight: 600;
+`;
+
+const InnerCallRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  margin-top: 4px;
+  font-size: 11px;
+  color: #888;
+`;
+
 const RawDataContainer = styled.div`
   margin-top: 8px;
 `;
@@ -87,12 +184,99 @@ const CopyIndicator = styled.span`
   }
 `;
 
+// Nodes deeper than this start collapsed
+const AUTO_EXPAND_DEPTH = 2;
+
+const DELEGATECALL_TITLE = 'Executed with DELEGATECALL: the target code runs in the context of the Safe and can change its storage, owners and modules';
+
+const AbiBadge: React.FC<{ source?: AbiSource }> = ({ source }) => source ? (
+  <AbiSourceBadge color={ABI_SOURCES[source].color} title={ABI_SOURCES[source].title}>
+    {ABI_SOURCES[source].label}
+  </AbiSourceBadge>
+) : null;
+
+interface InnerCallNodeProps {
+  call: DecodedInnerCall;
+  label: string;
+  depth: number;
+  network: string;
+}
+
+/**
+ * One node of the decoding tree, renders its own inner calls recursively
+ */
+const InnerCallNode: React.FC<InnerCallNodeProps> = ({ call, label, depth, network }) => {
+  const [isOpen, setIsOpen] = useState(depth < AUTO_EXPAND_DEPTH);
+  const { details } = call.decoded;
+  const innerCalls = details.innerCalls || [];
+  const isDelegateCall = call.operation === 1;
+
+  return (
+    <InnerCallCard isDelegateCall={isDelegateCall}>
+      <InnerCallHeader onClick={() => setIsOpen(!isOpen)}>
+        <InnerCallToggle>{isOpen ? '▼' : '▶'}</InnerCallToggle>
+        <InnerCallIndex>{label}</InnerCallIndex>
+        <FunctionValue type={call.decoded.type}>
+          {call.decoded.description}
+        </FunctionValue>
+        {isDelegateCall && <DelegateCallBadge title={DELEGATECALL_TITLE}>Delegatecall</DelegateCallBadge>}
+        <AbiBadge source={details.abiSource} />
+      </InnerCallHeader>
+      {isOpen && (
+        <>
+          <InnerCallRow>
+            <span>To:</span>
+            <AddressDisplay
+              address={call.to}
+              network={network}
+              truncate={true}
+              truncateLength={6}
+              showCopy={true}
+              showExplorer={true}
+            />
+          </InnerCallRow>
+          {call.value !== '0' && (
+            <InnerCallRow>
+              <span>Value:</span>
+              <span>{ethers.utils.formatEther(call.value)} ETH</span>
+            </InnerCallRow>
+          )}
+          {details.decodedInputs && details.decodedInputs.length > 0 && (
+            <ParameterDisplay
+              parameters={details.decodedInputs}
+              network={network}
+              compact={true}
+            />
+          )}
+          {details.innerCallsTruncated && (
+            <TruncatedNote>Nested calls not decoded: maximum decoding depth reached</TruncatedNote>
+          )}
+          {innerCalls.length > 0 && (
+            <InnerCallsContainer>
+              {innerCalls.map((innerCall, index) => (
+                <InnerCallNode
+                  key={index}
+                  call={innerCall}
+                  label={innerCalls.length > 1 ? `${label}.${index + 1}` : `${label} →`}
+                  depth={depth + 1}
+                  network={network}
+                />
+              ))}
+            </InnerCallsContainer>
+          )}
+        </>
+      )}
+    </InnerCallCard>
+  );
+};
+
 export interface TransactionDataDisplayProps {
   data: string;
   decodedTransaction?: DecodedTransactionData | null;
   compact?: boolean;
   showCopyButton?: boolean;
   network?: string;
+  operation?: number; // Operation of the top-level call, 1 = DELEGATECALL
 }
 
 const TransactionDataDisplay: React.FC<TransactionDataDisplayProps> = ({
@@ -100,10 +284,13 @@ const TransactionDataDisplay: React.FC<TransactionDataDisplayProps> = ({
   decodedTransaction,
   compact = false,
   showCopyButton = true,
-  network = 'ethereum'
+  network = 'ethereum',
+  operation = 0
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [showCopied, setShowCopied] = useState(false);
+  const [showAbiForm, setShowAbiForm] = useState(false);
+  const [abiSaved, setAbiSaved] = useState(false);
 
   if (!data || data === '0x') {
     return null;
@@ -125,6 +312,8 @@ const TransactionDataDisplay: React.FC<TransactionDataDisplayProps> = ({
     switch (decodedTransaction.type) {
       case 'ERC20_TRANSFER':
         return 'ERC-20 Transfer Function';
+      case 'NFT_TRANSFER':
+        return 'NFT Transfer';
       case 'CONTRACT_CALL':
         return 'Contract Interaction';
       case 'ETH_TRANSFER':
@@ -134,6 +323,11 @@ const TransactionDataDisplay: React.FC<TransactionDataDisplayProps> = ({
     }
   };
 
+  const abiSource = decodedTransaction?.details?.abiSource;
+  const contractAddress = decodedTransaction?.details?.recipient;
+  // Offer to supply an ABI when the decoding is not backed by a verified one
+  const canProvideAbi = Boolean(contractAddress && (abiSource === 'guessed' || abiSource === 'partial'));
+
   const getDisplayData = () => {
     if (isExpanded) return data;
     if (compact) return data.length > 50 ? `${data.slice(0, 50)}...` : data;
@@ -148,8 +342,32 @@ const TransactionDataDisplay: React.FC<TransactionDataDisplayProps> = ({
         <FunctionValue type={decodedTransaction?.type || 'UNKNOWN'}>
           {decodedTransaction?.description || getFunctionDisplay()}
         </FunctionValue>
+        {operation === 1 && <DelegateCallBadge title={DELEGATECALL_TITLE}>Delegatecall</DelegateCallBadge>}
+        <AbiBadge source={abiSource} />
+        {canProvideAbi && !compact && (
+          <ToggleButton onClick={() => setShowAbiForm(!showAbiForm)}>
+            {showAbiForm ? 'Cancel' : 'Provide ABI'}
+          </ToggleButton>
+        )}
       </FunctionDisplay>
 
+      {showAbiForm && contractAddress && (
+        <AbiFormContainer>
+          <UserAbiForm
+            network={network}
+            address={contractAddress}
+            onSaved={() => {
+              setShowAbiForm(false);
+              setAbiSaved(true);
+            }}
+          />
+        </AbiFormContainer>
+      )}
+
+      {abiSaved && (
+        <AbiSavedNote>ABI saved, it will be used the next time this transaction is decoded.</AbiSavedNote>
+      )}
+
       {/* Parameters Display */}
       {decodedTransaction?.details?.decodedInputs && decodedTransaction.details.decodedInputs.length > 0 && (
         <ParameterDisplay
@@ -159,6 +377,25 @@ const TransactionDataDisplay: React.FC<TransactionDataDisplayProps> = ({
         />
       )}
 
+      {decodedTransaction?.details?.innerCallsTruncated && (
+        <TruncatedNote>Nested calls not decoded: maximum decoding depth reached</TruncatedNote>
+      )}
+
+      {/* Decoded Inner Calls Tree */}
+      {decodedTransaction?.details?.innerCalls && decodedTransaction.details.innerCalls.length > 0 && (
+        <InnerCallsContainer>
+          {decodedTransaction.details.innerCalls.map((call, index) => (
+            <InnerCallNode
+              key={index}
+              call={call}
+              label={`#${index + 1}`}
+              depth={0}
+              network={network}
+            />
+          ))}
+        </InnerCallsContainer>
+      )}
+
       {/* Raw Data Display */}
       <RawDataContainer>
         <RawDataLabel>
@@ -15,10 +15,15 @@ import { errorRecoveryService } from '../../../services/ErrorRecoveryService';
 import { Asset } from '../types';
 import { TransactionDecoder, DecodedTransactionData } from '../../../utils/transactionDecoder';
 import { TokenService } from '../../../services/TokenService';
-import { getRpcUrl } from '../../../contracts/abis';
+import { getRpcProvider } from '../../../services/FailoverRpcProvider';
 import AddressDisplay from './AddressDisplay';
 import AddressBookSelector from './AddressBookSelector';
 import ParameterDisplay from './ParameterDisplay';
+import BatchTransactionBuilder from './BatchTransactionBuilder';
+import { BatchCall } from '../../../services/MultiSendService';
+import { NftService } from '../../../services/NftService';
+import { priceService, formatUsd } from '../../../services/PriceService';
+import { getAssetListWarning } from '../../../services/TokenListService';
 
 const ModalOverlay = styled.div<{ isOpen: boolean }>`
   position: fixed;
@@ -137,6 +142,37 @@ const CloseButton = styled.button`
   }
 `;
 
+const ModeTabs = styled.div`
+  display: flex;
+  gap: 8px;
+  margin-bottom: 24px;
+  padding: 4px;
+  background: #0f172a;
+  border-radius: 10px;
+`;
+
+const ModeTab = styled.button<{ active: boolean }>`
+  flex: 1;
+  padding: 10px 16px;
+  border: none;
+  border-radius: 8px;
+  background: ${props => props.active ? '#334155' : 'transparent'};
+  color: ${props => props.active ? '#4ECDC4' : '#94a3b8'};
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover:not(:disabled) {
+    color: #4ECDC4;
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
 const FormGroup = styled.div`
   margin-bottom: 32px;
 `;
@@ -162,6 +198,12 @@ const ErrorMessage = styled.div`
   text-shadow: 0 0 10px rgba(255, 107, 107, 0.3);
 `;
 
+const TokenListWarning = styled.div<{ severity: 'warning' | 'danger' }>`
+  margin-top: 8px;
+  font-size: 13px;
+  color: ${props => props.severity === 'danger' ? '#ff4444' : '#f59e0b'};
+`;
+
 const SuccessMessage = styled.div`
   color: #96CEB4;
   font-size: 16px;
@@ -337,6 +379,13 @@ const TokenSymbol = styled.span`
   text-transform: uppercase;
 `;
 
+const FiatEquivalent = styled.div`
+  margin-top: 6px;
+  font-size: 12px;
+  color: #94a3b8;
+  text-align: right;
+`;
+
 const PercentageButtonsSection = styled.div`
   display: flex;
   gap: 1px;
@@ -403,6 +452,7 @@ interface TransactionModalProps {
   onTransactionCreated?: (transaction: any) => void;
   fromAddress?: string;
   preSelectedAsset?: Asset | null; // Pre-selected asset for sending
+  assets?: Asset[]; // Available assets for batch token transfers
 }
 
 const TransactionModal: React.FC<TransactionModalProps> = ({
@@ -410,7 +460,8 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
   onClose,
   onTransactionCreated,
   fromAddress,
-  preSelectedAsset
+  preSelectedAsset,
+  assets = []
 }) => {
   const [toAddress, setToAddress] = useState('');
   const [amount, setAmount] = useState('');
@@ -421,6 +472,9 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
   const [connectionState, setConnectionState] = useState<WalletConnectionState>({ isConnected: false });
   const [decodedTransaction, setDecodedTransaction] = useState<DecodedTransactionData | null>(null);
   const [showAddressBookWarning, setShowAddressBookWarning] = useState(false);
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
+  const [batchCalls, setBatchCalls] = useState<BatchCall[]>([]);
+  const [unitPriceUsd, setUnitPriceUsd] = useState<number | null>(null);
   // const [retryCount, setRetryCount] = useState(0); // Reserved for future retry functionality
 
   // Nonce management state
@@ -428,6 +482,22 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
   const [customNonce, setCustomNonce] = useState(0);
   const [nonceLoading, setNonceLoading] = useState(false);
   const recommendedNonce = currentNonce;
+  const isNft = preSelectedAsset?.type === 'erc721' || preSelectedAsset?.type === 'erc1155';
+  const assetListWarning = preSelectedAsset ? getAssetListWarning(preSelectedAsset) : null;
+
+  // safeTransferFrom call moving the pre-selected NFT out of the Safe
+  const buildNftTransferCall = useCallback((recipient: string, nftAmount: string): BatchCall | null => {
+    if (!fromAddress || !preSelectedAsset?.contractAddress || !preSelectedAsset.tokenId ||
+        (preSelectedAsset.type !== 'erc721' && preSelectedAsset.type !== 'erc1155')) {
+      return null;
+    }
+
+    return NftService.createTransferCall({
+      contractAddress: preSelectedAsset.contractAddress,
+      tokenId: preSelectedAsset.tokenId,
+      standard: preSelectedAsset.type
+    }, fromAddress, recipient, nftAmount);
+  }, [fromAddress, preSelectedAsset]);
 
   // Initialize toast system
   const toast = useToast();
@@ -442,6 +512,8 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
     setIsLoading(false);
     setShowAddressBookWarning(false);
     setDecodedTransaction(null);
+    setMode('single');
+    setBatchCalls([]);
     // Note: nonce will be reset when fetchNonce completes
   }, []);
 
@@ -493,9 +565,44 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
   useEffect(() => {
     if (isOpen) {
       resetFormState();
+      // An ERC-721 token is indivisible, there is no amount to choose
+      if (preSelectedAsset?.type === 'erc721') {
+        setAmount('1');
+      }
     }
   }, [isOpen, preSelectedAsset, resetFormState]); // Add preSelectedAsset as dependency
 
+  // Price of one unit of the asset being sent, from the on-chain price feeds
+  useEffect(() => {
+    if (!isOpen || isNft) {
+      setUnitPriceUsd(null);
+      return;
+    }
+    if (preSelectedAsset?.priceUsd !== undefined) {
+      setUnitPriceUsd(preSelectedAsset.priceUsd);
+      return;
+    }
+
+    let cancelled = false;
+    const network = connectionState.network || 'ethereum';
+    const pricePromise = preSelectedAsset?.type === 'erc20' && preSelectedAsset.contractAddress
+      ? priceService.getTokenPrice(network, preSelectedAsset.contractAddress)
+      : priceService.getNativePrice(network);
+
+    pricePromise
+      .then(price => {
+        if (!cancelled) setUnitPriceUsd(price);
+      })
+      .catch(error => {
+        console.warn('⚠️ Failed to read the price feed:', error);
+        if (!cancelled) setUnitPriceUsd(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, isNft, preSelectedAsset, connectionState.network]);
+
   // Decode transaction data when inputs change
   useEffect(() => {
     const decodeTransaction = async () => {
@@ -507,8 +614,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
       try {
         // Initialize decoder with current network
         const network = connectionState.network || 'ethereum';
-        const rpcUrl = getRpcUrl(network);
-        const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+        const provider = getRpcProvider(network);
         const tokenService = new TokenService(provider, network);
         const decoder = new TransactionDecoder(tokenService, network);
 
@@ -516,7 +622,12 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
         let transactionValue: string;
         let transactionData: string;
 
-        if (preSelectedAsset && preSelectedAsset.type === 'erc20' && preSelectedAsset.contractAddress) {
+        const nftTransfer = buildNftTransferCall(toAddress, amount);
+        if (nftTransfer) {
+          transactionTo = nftTransfer.to;
+          transactionValue = nftTransfer.value;
+          transactionData = nftTransfer.data;
+        } else if (preSelectedAsset && preSelectedAsset.type === 'erc20' && preSelectedAsset.contractAddress) {
           // ERC-20 token transfer
           const transferInterface = new ethers.utils.Interface([
             'function transfer(address to, uint256 amount) returns (bool)'
@@ -551,7 +662,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
     };
 
     decodeTransaction();
-  }, [toAddress, amount, preSelectedAsset, connectionState.network]);
+  }, [toAddress, amount, preSelectedAsset, connectionState.network, buildNftTransferCall]);
 
   const handleConnectSigner = async () => {
     try {
@@ -635,6 +746,12 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
       }
     }
 
+    // NFT amounts are whole numbers
+    if (isNft && !/^\d+$/.test(amount.trim())) {
+      setError('NFT amount must be a whole number');
+      return;
+    }
+
     // Additional validation for native ETH transactions
     if (!preSelectedAsset || preSelectedAsset.type === 'native') {
       try {
@@ -686,8 +803,11 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
 
       // Create and propose transaction directly (without signing)
       const result = await errorRecoveryService.retry(async () => {
-        // Handle ERC-20 token transfers vs ETH transfers
-        if (preSelectedAsset && preSelectedAsset.type === 'erc20' && preSelectedAsset.contractAddress) {
+        // Handle NFT and ERC-20 token transfers vs ETH transfers
+        const nftTransfer = buildNftTransferCall(toAddress, amount.trim());
+        if (nftTransfer) {
+          return await safeWalletService.proposeUnsignedTransaction(nftTransfer, customNonce);
+        } else if (preSelectedAsset && preSelectedAsset.type === 'erc20' && preSelectedAsset.contractAddress) {
           // ERC-20 token transfer
           const transferInterface = new ethers.utils.Interface([
             'function transfer(address to, uint256 amount) returns (bool)'
@@ -763,6 +883,76 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
 
 
 
+  const handleBatchSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+
+    if (batchCalls.length === 0) {
+      setError('Add at least one call to the batch');
+      return;
+    }
+
+    // Check if signer is connected
+    if (!connectionState.signerConnected) {
+      setError('Please connect your wallet to sign transactions');
+      return;
+    }
+
+    // Check if Safe TX Pool Registry is configured for the current network
+    if (!isSafeTxPoolRegistryConfigured(connectionState.network || 'ethereum')) {
+      setError(`Safe TX Pool Registry contract is not configured for ${connectionState.network}. Please configure the contract address to enable transactions.`);
+      return;
+    }
+
+    if (!fromAddress) {
+      setError('Safe address not available. Please connect your wallet and select a Safe.');
+      return;
+    }
+
+    setIsLoading(true);
+    setCurrentStep('proposing');
+
+    try {
+      // Encode all calls into a single MultiSend delegatecall and propose it (without signing)
+      const result = await errorRecoveryService.retry(async () => {
+        return await safeWalletService.proposeBatchTransaction(batchCalls, customNonce);
+      }, {
+        maxAttempts: 3,
+        retryCondition: (error) => {
+          const errorDetails = ErrorHandler.classifyError(error);
+          return ErrorHandler.shouldAutoRetry(errorDetails);
+        }
+      });
+
+      toast.transactionSuccess(result.txHash, `Batch of ${batchCalls.length} calls proposed successfully`);
+
+      if (onTransactionCreated) {
+        onTransactionCreated({
+          ...result,
+          signature: '' // No signature for unsigned proposals
+        });
+      }
+
+      setCustomNonce(currentNonce); // Reset to current nonce
+      handleClose();
+    } catch (error: any) {
+      const errorDetails = ErrorHandler.classifyError(error);
+
+      setIsLoading(false);
+      setCurrentStep('form');
+
+      // Keep delegate call allowlist rejections visible in the modal so the user knows what to fix
+      if (error?.message?.includes('Delegate call')) {
+        setError(error.message);
+      } else if (errorDetails.category === 'validation') {
+        setError(errorDetails.userMessage);
+      }
+
+      toast.transactionError(errorDetails.userMessage, errorDetails.message);
+    }
+  };
+
   const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (e.target === e.currentTarget) {
       handleClose();
@@ -783,7 +973,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
       <ModalContainer>
         <ModalHeader>
           <ModalTitle>
-            {preSelectedAsset?.type === 'native' ? 'Send ETH' : 'Send Transaction'}
+            {mode === 'batch' ? 'Batch Transaction' : preSelectedAsset?.type === 'native' ? 'Send ETH' : isNft ? 'Send NFT' : 'Send Transaction'}
           </ModalTitle>
           <CloseButton onClick={handleClose}>&times;</CloseButton>
         </ModalHeader>
@@ -806,7 +996,16 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
           </StepText>
         </StepIndicator>
 
-        {preSelectedAsset?.type === 'native' && (
+        <ModeTabs>
+          <ModeTab type="button" active={mode === 'single'} onClick={() => setMode('single')} disabled={isLoading}>
+            Single Transaction
+          </ModeTab>
+          <ModeTab type="button" active={mode === 'batch'} onClick={() => setMode('batch')} disabled={isLoading}>
+            Batch Transaction
+          </ModeTab>
+        </ModeTabs>
+
+        {mode === 'single' && preSelectedAsset?.type === 'native' && (
           <div style={{
             background: 'linear-gradient(135deg, rgba(76, 236, 196, 0.1), rgba(68, 160, 141, 0.1))',
             border: '1px solid rgba(76, 236, 196, 0.3)',
@@ -842,123 +1041,158 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
           </div>
         )}
 
-        <form onSubmit={handleSubmit}>
-          <FormGroup>
-            <Label>Recipient Address</Label>
-            <AddressBookSelector
-              value={toAddress}
-              onChange={(newAddress) => {
-                setToAddress(newAddress);
-                setShowAddressBookWarning(false);
-                setError('');
-              }}
-              placeholder="Select from address book or enter address..."
-              disabled={isLoading}
+        <form onSubmit={mode === 'batch' ? handleBatchSubmit : handleSubmit}>
+          {mode === 'batch' && isOpen && (
+            <BatchTransactionBuilder
               network={connectionState.network || 'ethereum'}
               safeAddress={fromAddress}
+              assets={assets}
+              disabled={isLoading}
+              onCallsChange={setBatchCalls}
             />
-          </FormGroup>
-
-          {preSelectedAsset && (
-            <FormGroup>
-              <Label>Sending Asset</Label>
-              <div style={{
-                padding: '12px 16px',
-                background: '#334155',
-                border: '1px solid #475569',
-                borderRadius: '8px',
-                color: '#fff',
-                display: 'flex',
-                alignItems: 'center',
-                gap: '12px'
-              }}>
-                <div style={{
-                  width: '24px',
-                  height: '24px',
-                  borderRadius: '50%',
-                  background: 'linear-gradient(135deg, #007bff, #0056b3)',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                  color: 'white',
-                  fontSize: '12px',
-                  fontWeight: 'bold'
-                }}>
-                  {preSelectedAsset.symbol.charAt(0)}
-                </div>
-                <div>
-                  <div style={{ fontWeight: '600' }}>{preSelectedAsset.name}</div>
-                  <div style={{ fontSize: '12px', color: '#888' }}>
-                    Balance: {preSelectedAsset.balance} {preSelectedAsset.symbol}
-                  </div>
-                </div>
-              </div>
-            </FormGroup>
           )}
 
-          <FormGroup>
-            <Label>Amount ({preSelectedAsset?.symbol || 'ETH'})</Label>
-
-            {/* Smart Single-Line Amount Input */}
-            <SmartAmountContainer>
-              {/* Balance Section */}
-              <BalanceSection>
-                <BalanceLabel>Balance</BalanceLabel>
-                <BalanceAmount>
-                  {preSelectedAsset?.balance || '0'}
-                </BalanceAmount>
-              </BalanceSection>
-
-              {/* Amount Input Section */}
-              <AmountInputSection>
-                <SmartAmountInput
-                  type="number"
-                  step="0.000001"
-                  value={amount}
-                  onChange={(e) => setAmount(e.target.value)}
-                  placeholder="0.0"
+          {mode === 'single' && (
+            <>
+              <FormGroup>
+                <Label>Recipient Address</Label>
+                <AddressBookSelector
+                  value={toAddress}
+                  onChange={(newAddress) => {
+                    setToAddress(newAddress);
+                    setShowAddressBookWarning(false);
+                    setError('');
+                  }}
+                  placeholder="Select from address book or enter address..."
                   disabled={isLoading}
-                  autoComplete="off"
-                  data-1p-ignore="true"
-                  data-lpignore="true"
-                  data-form-type="other"
+                  network={connectionState.network || 'ethereum'}
+                  safeAddress={fromAddress}
                 />
-                <TokenSymbol>{preSelectedAsset?.symbol || 'ETH'}</TokenSymbol>
-              </AmountInputSection>
-
-              {/* Percentage Buttons Section */}
-              <PercentageButtonsSection>
-                <CompactPercentageButton
-                  type="button"
-                  onClick={() => handlePercentageClick(25)}
-                  disabled={isLoading || !preSelectedAsset?.balance}
-                >
-                  25%
-                </CompactPercentageButton>
-                <CompactPercentageButton
-                  type="button"
-                  onClick={() => handlePercentageClick(50)}
-                  disabled={isLoading || !preSelectedAsset?.balance}
-                >
-                  50%
-                </CompactPercentageButton>
-                <CompactPercentageButton
-                  type="button"
-                  onClick={() => handlePercentageClick(75)}
-                  disabled={isLoading || !preSelectedAsset?.balance}
-                >
-                  75%
-                </CompactPercentageButton>
-                <CompactMaxButton
-                  type="button"
-                  onClick={() => handlePercentageClick(100)}
-                  disabled={isLoading || !preSelectedAsset?.balance}
-                >
-                  MAX
-                </CompactMaxButton>
-              </PercentageButtonsSection>
-            </SmartAmountContainer>
-          </FormGroup>
+              </FormGroup>
+
+              {preSelectedAsset && (
+                <FormGroup>
+                  <Label>Sending Asset</Label>
+                  <div style={{
+                    padding: '12px 16px',
+                    background: '#334155',
+                    border: '1px solid #475569',
+                    borderRadius: '8px',
+                    color: '#fff',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '12px'
+                  }}>
+                    {isNft && preSelectedAsset.imageUrl ? (
+                      <img
+                        src={preSelectedAsset.imageUrl}
+                        alt={preSelectedAsset.name}
+                        style={{ width: '40px', height: '40px', borderRadius: '6px', objectFit: 'cover' }}
+                      />
+                    ) : (
+                      <div style={{
+                        width: '24px',
+                        height: '24px',
+                        borderRadius: '50%',
+                        background: 'linear-gradient(135deg, #007bff, #0056b3)',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        color: 'white',
+                        fontSize: '12px',
+                        fontWeight: 'bold'
+                      }}>
+                        {preSelectedAsset.symbol.charAt(0)}
+                      </div>
+                    )}
+                    <div>
+                      <div style={{ fontWeight: '600' }}>{preSelectedAsset.name}</div>
+                      <div style={{ fontSize: '12px', color: '#888' }}>
+                        {isNft
+                          ? `${preSelectedAsset.collectionName} · Token ID #${preSelectedAsset.tokenId}${preSelectedAsset.type === 'erc1155' ? ` · Balance: ${preSelectedAsset.balance}` : ''}`
+                          : `Balance: ${preSelectedAsset.balance} ${preSelectedAsset.symbol}`}
+                      </div>
+                    </div>
+                  </div>
+                  {assetListWarning && (
+                    <TokenListWarning severity={assetListWarning.severity}>⚠ {assetListWarning.message}</TokenListWarning>
+                  )}
+                </FormGroup>
+              )}
+
+              {/* ERC-721 tokens are sent whole, there is no amount to choose */}
+              {preSelectedAsset?.type !== 'erc721' && (
+                <FormGroup>
+                  <Label>Amount ({preSelectedAsset?.symbol || 'ETH'})</Label>
+
+                  {/* Smart Single-Line Amount Input */}
+                  <SmartAmountContainer>
+                    {/* Balance Section */}
+                    <BalanceSection>
+                      <BalanceLabel>Balance</BalanceLabel>
+                      <BalanceAmount>
+                        {preSelectedAsset?.balance || '0'}
+                      </BalanceAmount>
+                    </BalanceSection>
+
+                    {/* Amount Input Section */}
+                    <AmountInputSection>
+                      <SmartAmountInput
+                        type="number"
+                        step={isNft ? '1' : '0.000001'}
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        placeholder={isNft ? '1' : '0.0'}
+                        disabled={isLoading}
+                        autoComplete="off"
+                        data-1p-ignore="true"
+                        data-lpignore="true"
+                        data-form-type="other"
+                      />
+                      <TokenSymbol>{preSelectedAsset?.symbol || 'ETH'}</TokenSymbol>
+                    </AmountInputSection>
+
+                    {/* Percentage Buttons Section */}
+                    {!isNft && (
+                      <PercentageButtonsSection>
+                        <CompactPercentageButton
+                          type="button"
+                          onClick={() => handlePercentageClick(25)}
+                          disabled={isLoading || !preSelectedAsset?.balance}
+                        >
+                          25%
+                        </CompactPercentageButton>
+                        <CompactPercentageButton
+                          type="button"
+                          onClick={() => handlePercentageClick(50)}
+                          disabled={isLoading || !preSelectedAsset?.balance}
+                        >
+                          50%
+                        </CompactPercentageButton>
+                        <CompactPercentageButton
+                          type="button"
+                          onClick={() => handlePercentageClick(75)}
+                          disabled={isLoading || !preSelectedAsset?.balance}
+                        >
+                          75%
+                        </CompactPercentageButton>
+                        <CompactMaxButton
+                          type="button"
+                          onClick={() => handlePercentageClick(100)}
+                          disabled={isLoading || !preSelectedAsset?.balance}
+                        >
+                          MAX
+                        </CompactMaxButton>
+                      </PercentageButtonsSection>
+                    )}
+                  </SmartAmountContainer>
+                  {unitPriceUsd !== null && parseFloat(amount) > 0 && (
+                    <FiatEquivalent>≈ {formatUsd(parseFloat(amount) * unitPriceUsd)}</FiatEquivalent>
+                  )}
+                </FormGroup>
+              )}
+            </>
+          )}
 
           <FormGroup>
             <Label>Transaction Nonce</Label>
@@ -980,7 +1214,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
             </NonceDescription>
           </FormGroup>
 
-          {(toAddress && amount && parseFloat(amount) > 0) && (
+          {mode === 'single' && (toAddress && amount && parseFloat(amount) > 0) && (
             <TransactionDetails>
               {decodedTransaction && (
                 <DetailRow>
@@ -1163,7 +1397,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
               <Button
                 type="submit"
                 variant="primary"
-                disabled={isLoading || !toAddress || !amount}
+                disabled={isLoading || (mode === 'batch' ? batchCalls.length === 0 : (!toAddress || !amount))}
                 data-1p-ignore="true"
                 data-lpignore="true"
                 rightIcon={!isLoading ? (
@@ -1174,7 +1408,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
               >
                 {isLoading ?
                   (currentStep === 'proposing' ? 'Proposing Transaction...' : 'Creating Transaction...') :
-                  'Propose Transaction'
+                  mode === 'batch' ? `Propose Batch (${batchCalls.length} call${batchCalls.length === 1 ? '' : 's'})` : 'Propose Transaction'
                 }
               </Button>
             )}
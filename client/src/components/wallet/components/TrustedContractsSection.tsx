@@ -5,7 +5,7 @@ import { theme } from '../../../theme';
 import { createSafeTxPoolService } from '../../../services/SafeTxPoolService';
 import { SafeTransactionService } from '../../../services/SafeTransactionService';
 import { walletConnectionService, WalletConnectionState } from '../../../services/WalletConnectionService';
-import { getRpcUrl } from '../../../contracts/abis';
+import { getRpcProvider } from '../../../services/FailoverRpcProvider';
 import { useToast } from '../../../hooks/useToast';
 import { ErrorHandler } from '../../../utils/errorHandling';
 import { isValidAddress } from '../../../utils/addressUtils';
@@ -327,8 +327,7 @@ const TrustedContractsSection: React.FC<TrustedContractsSectionProps> = ({ netwo
         );
 
         // Get current nonce from Safe contract
-        const rpcUrl = getRpcUrl(network);
-        const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+        const provider = getRpcProvider(network);
         const safeTransactionService = new SafeTransactionService(network);
         safeTransactionService.initialize(provider, signer);
         const nonce = await safeTransactionService.getSafeNonce(connectionState.safeAddress);
@@ -424,8 +423,7 @@ const TrustedContractsSection: React.FC<TrustedContractsSectionProps> = ({ netwo
         );
 
         // Get current nonce from Safe contract
-        const rpcUrl = getRpcUrl(network);
-        const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+        const provider = getRpcProvider(network);
         const safeTransactionService = new SafeTransactionService(network);
         safeTransactionService.initialize(provider, signer);
         const nonce = await safeTransactionService.getSafeNonce(connectionState.safeAddress);
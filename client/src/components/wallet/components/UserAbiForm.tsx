@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { theme } from '../../../theme';
+import { userAbiService, UserAbi } from '../../../services/UserAbiService';
+
+const Form = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${theme.spacing[3]};
+`;
+
+const Field = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${theme.spacing[1]};
+`;
+
+const Label = styled.label`
+  font-size: ${theme.typography.fontSize.xs};
+  font-weight: ${theme.typography.fontWeight.medium};
+  color: ${theme.colors.text.secondary};
+`;
+
+const Input = styled.input`
+  padding: ${theme.spacing[2]} ${theme.spacing[3]};
+  border: 1px solid ${theme.colors.neutral[600]};
+  border-radius: ${theme.borderRadius.md};
+  background: ${theme.colors.neutral[900]};
+  color: ${theme.colors.text.primary};
+  font-size: ${theme.typography.fontSize.sm};
+
+  &:focus {
+    outline: none;
+    border-color: ${theme.colors.primary[400]};
+  }
+
+  &:read-only {
+    color: ${theme.colors.text.muted};
+    font-family: monospace;
+  }
+`;
+
+const AbiTextArea = styled.textarea<{ hasError?: boolean }>`
+  min-height: 120px;
+  padding: ${theme.spacing[2]} ${theme.spacing[3]};
+  border: 1px solid ${props => props.hasError ? theme.colors.status.error : theme.colors.neutral[600]};
+  border-radius: ${theme.borderRadius.md};
+  background: ${theme.colors.neutral[900]};
+  color: ${theme.colors.text.primary};
+  font-family: monospace;
+  font-size: ${theme.typography.fontSize.xs};
+  resize: vertical;
+
+  &:focus {
+    outline: none;
+    border-color: ${props => props.hasError ? theme.colors.status.error : theme.colors.primary[400]};
+  }
+`;
+
+const Actions = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing[3]};
+`;
+
+const UploadLabel = styled.label`
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.primary[400]};
+  cursor: pointer;
+  text-decoration: underline;
+
+  input {
+    display: none;
+  }
+`;
+
+const SaveButton = styled.button`
+  padding: ${theme.spacing[2]} ${theme.spacing[4]};
+  border-radius: ${theme.borderRadius.md};
+  border: 1px solid ${theme.colors.primary[600]};
+  background: ${theme.colors.primary[600]};
+  color: white;
+  font-size: ${theme.typography.fontSize.sm};
+  font-weight: ${theme.typography.fontWeight.medium};
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    background: ${theme.colors.primary[700]};
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const ErrorText = styled.div`
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.danger};
+`;
+
+interface UserAbiFormProps {
+  network: string;
+  address?: string; // Fixed contract address, otherwise the user enters one
+  onSaved?: (userAbi: UserAbi) => void;
+}
+
+/**
+ * Paste or upload the ABI of a contract, stored locally for the network
+ */
+const UserAbiForm: React.FC<UserAbiFormProps> = ({ network, address, onSaved }) => {
+  const [contractAddress, setContractAddress] = useState(address || '');
+  const [name, setName] = useState('');
+  const [abiJson, setAbiJson] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const content = await file.text();
+      setAbiJson(content);
+      setError(null);
+      if (!name) {
+        // Compiler artifacts carry the contract name, otherwise fall back to the file name
+        const artifactName = (() => {
+          try {
+            return JSON.parse(content)?.contractName;
+          } catch {
+            return undefined;
+          }
+        })();
+        setName(artifactName || file.name.replace(/\.json$/i, ''));
+      }
+    } catch (err: any) {
+      setError(`Failed to read file: ${err.message || err}`);
+    }
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = userAbiService.saveAbi(network, contractAddress, name, abiJson);
+      setError(null);
+      setAbiJson('');
+      setName('');
+      if (!address) {
+        setContractAddress('');
+      }
+      onSaved?.(saved);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save ABI');
+    }
+  };
+
+  return (
+    <Form>
+      <Field>
+        <Label htmlFor={`user-abi-address-${network}`}>Contract Address</Label>
+        <Input
+          id={`user-abi-address-${network}`}
+          value={contractAddress}
+          readOnly={Boolean(address)}
+          onChange={(e) => setContractAddress(e.target.value)}
+          placeholder="0x..."
+        />
+      </Field>
+
+      <Field>
+        <Label htmlFor={`user-abi-name-${network}`}>Contract Name (optional)</Label>
+        <Input
+          id={`user-abi-name-${network}`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="MyContract"
+        />
+      </Field>
+
+      <Field>
+        <Label htmlFor={`user-abi-json-${network}`}>ABI JSON or compiler artifact</Label>
+        <AbiTextArea
+          id={`user-abi-json-${network}`}
+          value={abiJson}
+          onChange={(e) => {
+            setAbiJson(e.target.value);
+            setError(null);
+          }}
+          placeholder='[{"type":"function","name":"deposit","inputs":[...]}]'
+          hasError={Boolean(error)}
+        />
+      </Field>
+
+      {error && <ErrorText>{error}</ErrorText>}
+
+      <Actions>
+        <SaveButton onClick={handleSave} disabled={!contractAddress.trim() || !abiJson.trim()}>
+          Save ABI
+        </SaveButton>
+        <UploadLabel>
+          Upload JSON file
+          <input type="file" accept=".json,application/json" onChange={handleUpload} />
+        </UploadLabel>
+      </Actions>
+    </Form>
+  );
+};
+
+export default UserAbiForm;
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import styled from 'styled-components';
-import { formatWalletAddress, generateWalletAvatar } from '@utils';
+import { formatWalletAddress, generateWalletAvatar, getEtherscanAddressUrl } from '@utils';
 import { theme } from '../../../theme';
 import { Avatar } from '../../ui';
 
@@ -190,33 +190,7 @@ const WalletHeader: React.FC<WalletHeaderProps> = ({
   };
   
   const openEtherscan = () => {
-    let baseUrl: string;
-
-    switch (network.toLowerCase()) {
-      case 'ethereum':
-      case 'mainnet':
-        baseUrl = 'https://etherscan.io';
-        break;
-      case 'sepolia':
-        baseUrl = 'https://sepolia.etherscan.io';
-        break;
-      case 'arbitrum':
-        baseUrl = 'https://arbiscan.io';
-        break;
-      case 'optimism':
-        baseUrl = 'https://optimistic.etherscan.io';
-        break;
-      case 'polygon':
-        baseUrl = 'https://polygonscan.com';
-        break;
-      case 'base':
-        baseUrl = 'https://basescan.org';
-        break;
-      default:
-        baseUrl = 'https://etherscan.io';
-    }
-
-    window.open(`${baseUrl}/address/${walletAddress}`, '_blank');
+    window.open(getEtherscanAddressUrl(walletAddress, network), '_blank');
   };
   
   return (
@@ -3,6 +3,8 @@ import styled from 'styled-components';
 import { theme } from '../../../theme';
 import { Button, Input, Card } from '../../ui';
 import { isValidEthereumAddress, generateRandomWalletName } from '../../../utils';
+import CreateSafeWizard from '../components/CreateSafeWizard';
+import { getSupportedChains } from '../../../config/chains';
 
 // Types
 interface AddSafeAccountPageProps {
@@ -16,6 +18,8 @@ interface SafeAccountData {
   address: string;
 }
 
+type AddSafeMode = 'existing' | 'create';
+
 // Styled Components
 const Container = styled.div`
   min-height: 100vh;
@@ -62,6 +66,33 @@ const StepDescription = styled.div`
   max-width: 48rem;
 `;
 
+const ModeTabs = styled.div`
+  display: inline-flex;
+  gap: ${theme.spacing[2]};
+  padding: ${theme.spacing[1]};
+  border: 1px solid rgba(255, 255, 255, 0.2);
+  border-radius: 12px;
+  margin-bottom: ${theme.spacing[8]};
+`;
+
+const ModeTab = styled.button.withConfig({
+  shouldForwardProp: (prop) => prop !== 'active',
+})<{ active: boolean }>`
+  background: ${props => props.active ? 'rgba(14, 165, 233, 0.2)' : 'transparent'};
+  border: none;
+  border-radius: 8px;
+  padding: ${theme.spacing[2]} ${theme.spacing[4]};
+  color: ${props => props.active ? theme.colors.text.primary : theme.colors.text.muted};
+  font-size: ${theme.typography.fontSize.base};
+  font-weight: ${theme.typography.fontWeight.medium};
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover {
+    color: ${theme.colors.text.primary};
+  }
+`;
+
 const FormSection = styled.div`
   margin-bottom: ${theme.spacing[12]};
   max-width: 900px;
@@ -235,19 +266,20 @@ const ButtonRow = styled.div`
 
 
 
-// Network options - consistent with header
-const NETWORKS = [
-  { id: 'ethereum', name: 'Ethereum', color: '#627EEA' },
-  { id: 'sepolia', name: 'Sepolia', color: '#0ea5e9' },
-  { id: 'arbitrum', name: 'Arbitrum', color: '#28A0F0' },
-];
-
 const AddSafeAccountPage: React.FC<AddSafeAccountPageProps> = ({ onConnect, onBack }) => {
+  // Network options - consistent with header, including custom networks
+  const networks = getSupportedChains().map(chain => ({
+    id: chain.network,
+    name: chain.shortName,
+    color: chain.color
+  }));
+
   const [formData, setFormData] = useState<SafeAccountData>({
     name: generateRandomWalletName(),
     network: 'sepolia',
     address: ''
   });
+  const [mode, setMode] = useState<AddSafeMode>('existing');
   const [isNetworkDropdownOpen, setIsNetworkDropdownOpen] = useState(false);
   const [isValidAddress, setIsValidAddress] = useState(true);
   const [existingSafe, setExistingSafe] = useState<any>(null);
@@ -294,18 +326,32 @@ const AddSafeAccountPage: React.FC<AddSafeAccountPageProps> = ({ onConnect, onBa
     }
   };
 
+  const handleSafeCreated = (safeAddress: string) => {
+    onConnect({ ...formData, address: safeAddress });
+  };
+
   const isFormValid = formData.address.trim() && formData.name.trim() && isValidAddress;
-  const selectedNetwork = NETWORKS.find(n => n.id === formData.network) || NETWORKS[1];
+  const selectedNetwork = networks.find(n => n.id === formData.network) || networks[0];
 
   return (
     <Container>
       <FormCard variant="elevated" padding="xl">
         <Header>
-          <Title>Add existing Safe Account</Title>
+          <ModeTabs>
+            <ModeTab type="button" active={mode === 'existing'} onClick={() => setMode('existing')}>
+              Add existing
+            </ModeTab>
+            <ModeTab type="button" active={mode === 'create'} onClick={() => setMode('create')}>
+              Create new
+            </ModeTab>
+          </ModeTabs>
+          <Title>{mode === 'create' ? 'Create new Safe Account' : 'Add existing Safe Account'}</Title>
           <div style={{ width: '8rem', height: '4px', backgroundColor: '#0ea5e9', marginBottom: '2rem' }}></div>
-          <StepText>Choose address and network</StepText>
+          <StepText>{mode === 'create' ? 'Choose owners, threshold and network' : 'Choose address and network'}</StepText>
           <StepDescription>
-            Paste the address of the Safe Account you want to add and select the network.
+            {mode === 'create'
+              ? 'Pick the owners and threshold of the new Safe Account, optionally add a guard and trusted contracts, then deploy it.'
+              : 'Paste the address of the Safe Account you want to add and select the network.'}
           </StepDescription>
         </Header>
 
@@ -323,16 +369,20 @@ const AddSafeAccountPage: React.FC<AddSafeAccountPageProps> = ({ onConnect, onBa
           </FormRow>
 
           <FormRow>
-            <Input
-              label="Safe Address"
-              placeholder="0x..."
-              value={formData.address}
-              onChange={(e) => handleInputChange('address', e.target.value)}
-              error={!isValidAddress ? 'Please enter a valid Ethereum address' : undefined}
-              variant="outlined"
-              inputSize="xl"
-              fullWidth
-            />
+            {mode === 'existing' ? (
+              <Input
+                label="Safe Address"
+                placeholder="0x..."
+                value={formData.address}
+                onChange={(e) => handleInputChange('address', e.target.value)}
+                error={!isValidAddress ? 'Please enter a valid Ethereum address' : undefined}
+                variant="outlined"
+                inputSize="xl"
+                fullWidth
+              />
+            ) : (
+              <div />
+            )}
 
             <div>
               <label className="text-sm font-medium text-gray-300 mb-1 block">Network</label>
@@ -353,7 +403,7 @@ const AddSafeAccountPage: React.FC<AddSafeAccountPageProps> = ({ onConnect, onBa
 
                 {isNetworkDropdownOpen && (
                   <NetworkDropdown>
-                    {NETWORKS.map((network) => (
+                    {networks.map((network) => (
                       <NetworkOption
                         key={network.id}
                         onClick={() => handleNetworkSelect(network.id)}
@@ -384,67 +434,79 @@ const AddSafeAccountPage: React.FC<AddSafeAccountPageProps> = ({ onConnect, onBa
           )}
         </FormSection>
 
-        <Footer>
-          <TermsText>
-            By continuing you consent to the{' '}
-            <button
-              type="button"
-              onClick={() => console.log('Terms of use clicked')}
-              style={{
-                background: 'none',
-                border: 'none',
-                color: '#0ea5e9',
-                textDecoration: 'underline',
-                cursor: 'pointer',
-                padding: 0,
-                font: 'inherit'
-              }}
-            >
-              terms of use
-            </button> and{' '}
-            <button
-              type="button"
-              onClick={() => console.log('Privacy policy clicked')}
-              style={{
-                background: 'none',
-                border: 'none',
-                color: '#0ea5e9',
-                textDecoration: 'underline',
-                cursor: 'pointer',
-                padding: 0,
-                font: 'inherit'
-              }}
-            >
-              privacy policy
-            </button>.
-          </TermsText>
-
-          <ButtonRow>
-            <Button
-              variant="outline"
-              size="lg"
-              onClick={onBack}
-              leftIcon={
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none">
-                  <path d="M19 12H5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                  <path d="M12 19L5 12L12 5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                </svg>
-              }
-            >
-              Back
-            </Button>
-            
-            <Button
-              variant="primary"
-              size="lg"
-              disabled={!isFormValid}
-              onClick={handleSubmit}
-              className={isFormValid ? 'bg-sky-500 border-sky-500 hover:bg-sky-600 hover:border-sky-600' : ''}
-            >
-              Next
-            </Button>
-          </ButtonRow>
-        </Footer>
+        {mode === 'create' ? (
+          <FormSection>
+            <CreateSafeWizard
+              key={formData.network}
+              name={formData.name}
+              network={formData.network}
+              onCreated={handleSafeCreated}
+              onBack={onBack}
+            />
+          </FormSection>
+        ) : (
+          <Footer>
+            <TermsText>
+              By continuing you consent to the{' '}
+              <button
+                type="button"
+                onClick={() => console.log('Terms of use clicked')}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  color: '#0ea5e9',
+                  textDecoration: 'underline',
+                  cursor: 'pointer',
+                  padding: 0,
+                  font: 'inherit'
+                }}
+              >
+                terms of use
+              </button> and{' '}
+              <button
+                type="button"
+                onClick={() => console.log('Privacy policy clicked')}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  color: '#0ea5e9',
+                  textDecoration: 'underline',
+                  cursor: 'pointer',
+                  padding: 0,
+                  font: 'inherit'
+                }}
+              >
+                privacy policy
+              </button>.
+            </TermsText>
+
+            <ButtonRow>
+              <Button
+                variant="outline"
+                size="lg"
+                onClick={onBack}
+                leftIcon={
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none">
+                    <path d="M19 12H5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                    <path d="M12 19L5 12L12 5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                  </svg>
+                }
+              >
+                Back
+              </Button>
+              
+              <Button
+                variant="primary"
+                size="lg"
+                disabled={!isFormValid}
+                onClick={handleSubmit}
+                className={isFormValid ? 'bg-sky-500 border-sky-500 hover:bg-sky-600 hover:border-sky-600' : ''}
+              >
+                Next
+              </Button>
+            </ButtonRow>
+          </Footer>
+        )}
       </FormCard>
     </Container>
   );
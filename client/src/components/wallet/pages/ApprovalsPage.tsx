@@ -0,0 +1,348 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import styled from 'styled-components';
+import { theme } from '../../../theme';
+import { AllowanceService, TokenAllowance } from '../../../services/AllowanceService';
+import { TrustedContractsAssetService, TrustedContractInfo } from '../../../services/TrustedContractsAssetService';
+import { safeWalletService } from '../../../services/SafeWalletService';
+import { walletConnectionService, WalletConnectionState } from '../../../services/WalletConnectionService';
+import { getRpcProvider } from '../../../services/FailoverRpcProvider';
+import { isSafeTxPoolRegistryConfigured } from '../../../contracts/abis';
+import { useAddressBook } from '../../../hooks/useAddressBook';
+import { useToast } from '../../../hooks/useToast';
+import { ErrorHandler } from '../../../utils/errorHandling';
+import Button from '../../ui/Button';
+import WalletConnectionModal from '../../ui/WalletConnectionModal';
+import AddressDisplay from '../components/AddressDisplay';
+
+const Container = styled.div`
+  padding: 0;
+  height: 100%;
+  overflow-y: auto;
+`;
+
+const Header = styled.div`
+  margin-bottom: ${theme.spacing[8]};
+`;
+
+const Heading = styled.h1`
+  font-size: ${theme.typography.fontSize['3xl']};
+  font-weight: ${theme.typography.fontWeight.bold};
+  margin-bottom: ${theme.spacing[4]};
+  color: ${theme.colors.primary[400]};
+`;
+
+const SubHeading = styled.p`
+  font-size: ${theme.typography.fontSize.lg};
+  color: ${theme.colors.text.secondary};
+  margin-bottom: ${theme.spacing[6]};
+`;
+
+const Toolbar = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: ${theme.spacing[3]};
+  margin-bottom: ${theme.spacing[4]};
+`;
+
+const ToolbarActions = styled.div`
+  display: flex;
+  gap: ${theme.spacing[2]};
+`;
+
+const SelectAllLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing[2]};
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.secondary};
+  cursor: pointer;
+`;
+
+const AllowanceList = styled.div`
+  display: grid;
+  gap: ${theme.spacing[3]};
+`;
+
+const AllowanceRow = styled.label<{ selected: boolean }>`
+  display: grid;
+  grid-template-columns: auto 1fr 1.4fr auto;
+  gap: ${theme.spacing[4]};
+  align-items: center;
+  padding: ${theme.spacing[4]};
+  background: ${theme.colors.neutral[800]};
+  border: 1px solid ${props => props.selected ? theme.colors.primary[400] : theme.colors.neutral[700]};
+  border-radius: ${theme.borderRadius.lg};
+  cursor: pointer;
+
+  @media (max-width: 768px) {
+    grid-template-columns: auto 1fr;
+  }
+`;
+
+const Column = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${theme.spacing[1]};
+  min-width: 0;
+`;
+
+const PrimaryText = styled.span`
+  font-size: ${theme.typography.fontSize.base};
+  font-weight: ${theme.typography.fontWeight.semibold};
+  color: ${theme.colors.text.primary};
+`;
+
+const SecondaryText = styled.span`
+  font-size: ${theme.typography.fontSize.xs};
+  color: ${theme.colors.text.tertiary};
+`;
+
+const SpenderLabel = styled.span<{ known: boolean }>`
+  font-size: ${theme.typography.fontSize.sm};
+  font-weight: ${theme.typography.fontWeight.medium};
+  color: ${props => props.known ? theme.colors.text.primary : theme.colors.status.warning};
+`;
+
+const AllowanceAmount = styled.span<{ isUnlimited: boolean; isUnknown: boolean }>`
+  font-size: ${theme.typography.fontSize.base};
+  font-weight: ${theme.typography.fontWeight.bold};
+  text-align: right;
+  color: ${props => props.isUnlimited
+    ? theme.colors.status.error
+    : props.isUnknown ? theme.colors.status.warning : theme.colors.text.primary};
+`;
+
+const EmptyState = styled.div`
+  text-align: center;
+  padding: ${theme.spacing[12]};
+  color: ${theme.colors.text.tertiary};
+`;
+
+const ErrorState = styled.div`
+  text-align: center;
+  padding: ${theme.spacing[8]} ${theme.spacing[4]};
+  color: ${theme.colors.status.error};
+`;
+
+interface ApprovalsPageProps {
+  safeAddress: string;
+  network: string;
+}
+
+const getAllowanceKey = (allowance: TokenAllowance): string =>
+  `${allowance.token.address.toLowerCase()}:${allowance.spender.toLowerCase()}`;
+
+const ApprovalsPage: React.FC<ApprovalsPageProps> = ({ safeAddress, network }) => {
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([]);
+  const [trustedContracts, setTrustedContracts] = useState<TrustedContractInfo[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isProposing, setIsProposing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [connectionState, setConnectionState] = useState<WalletConnectionState>({ isConnected: false });
+  const [showWalletModal, setShowWalletModal] = useState(false);
+
+  const toast = useToast();
+  const { entries } = useAddressBook({ network, safeAddress, autoRefresh: true });
+
+  useEffect(() => {
+    const updateConnectionState = () => {
+      setConnectionState(walletConnectionService.getConnectionState());
+    };
+
+    updateConnectionState();
+
+    const unsubscribe = walletConnectionService.subscribe(updateConnectionState);
+    return unsubscribe;
+  }, []);
+
+  const loadAllowances = useCallback(async () => {
+    if (!safeAddress) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const provider = getRpcProvider(network);
+      const [found, trusted] = await Promise.all([
+        new AllowanceService(provider, network).getAllowances(safeAddress),
+        new TrustedContractsAssetService(network, provider).getTrustedContracts(safeAddress)
+      ]);
+      setAllowances(found);
+      setTrustedContracts(trusted);
+      setSelected(new Set());
+    } catch (loadError: any) {
+      console.error('❌ Error loading token allowances:', loadError);
+      setError(loadError.message || 'Failed to load token allowances');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [safeAddress, network]);
+
+  useEffect(() => {
+    loadAllowances();
+  }, [loadAllowances]);
+
+  // Spenders are labelled from the address book first, then from the trusted contracts
+  const spenderLabels = useMemo(() => {
+    const labels = new Map<string, { name: string; source: string }>();
+    trustedContracts.forEach(contract => {
+      labels.set(contract.address.toLowerCase(), { name: contract.name, source: 'Trusted contract' });
+    });
+    entries.forEach(entry => {
+      labels.set(entry.walletAddress.toLowerCase(), { name: entry.name, source: 'Address book' });
+    });
+    return labels;
+  }, [entries, trustedContracts]);
+
+  const toggleSelected = (allowance: TokenAllowance) => {
+    const key = getAllowanceKey(allowance);
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = allowances.length > 0 && selected.size === allowances.length;
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(allowances.map(getAllowanceKey)));
+  };
+
+  const handleRevoke = async () => {
+    if (!connectionState.signerConnected || connectionState.readOnlyMode) {
+      setShowWalletModal(true);
+      return;
+    }
+
+    if (!isSafeTxPoolRegistryConfigured(network)) {
+      toast.error('Cannot propose transaction', {
+        message: `Safe TX Pool Registry contract is not configured for ${network}.`
+      });
+      return;
+    }
+
+    const revoked = allowances.filter(allowance => selected.has(getAllowanceKey(allowance)));
+    setIsProposing(true);
+    try {
+      // All revokes are proposed as one MultiSend Safe transaction
+      const calls = revoked.map(allowance => AllowanceService.createRevokeCall(allowance.token.address, allowance.spender));
+      const result = await safeWalletService.proposeBatchTransaction(calls);
+
+      toast.transactionSuccess(
+        result.txHash,
+        `Revoke of ${calls.length} allowance${calls.length === 1 ? '' : 's'} proposed (nonce: ${result.nonce})`
+      );
+      setSelected(new Set());
+    } catch (proposeError) {
+      console.error('❌ Error proposing allowance revokes:', proposeError);
+      const errorDetails = ErrorHandler.classifyError(proposeError);
+      toast.transactionError(errorDetails.userMessage, errorDetails.message);
+    } finally {
+      setIsProposing(false);
+    }
+  };
+
+  const handleWalletSelect = async () => {
+    try {
+      await walletConnectionService.connectSignerWallet();
+      setShowWalletModal(false);
+    } catch (connectError) {
+      console.error('Failed to connect wallet:', connectError);
+    }
+  };
+
+  if (!safeAddress) {
+    return (
+      <Container>
+        <Header>
+          <Heading>Approvals</Heading>
+        </Header>
+        <ErrorState>Please connect to a Safe wallet to review token approvals.</ErrorState>
+      </Container>
+    );
+  }
+
+  return (
+    <Container>
+      <Header>
+        <Heading>Approvals</Heading>
+        <SubHeading>
+          ERC-20 allowances granted by this Safe that are still outstanding. Select allowances to revoke them in a
+          single batched Safe transaction.
+        </SubHeading>
+      </Header>
+
+      <Toolbar>
+        <SelectAllLabel>
+          <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={allowances.length === 0} />
+          Select all
+        </SelectAllLabel>
+        <ToolbarActions>
+          <Button variant="secondary" onClick={loadAllowances} disabled={isLoading} loading={isLoading}>
+            Refresh
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleRevoke}
+            disabled={selected.size === 0 || isProposing}
+            loading={isProposing}
+          >
+            Revoke Selected ({selected.size})
+          </Button>
+        </ToolbarActions>
+      </Toolbar>
+
+      {error && <ErrorState>{error}</ErrorState>}
+
+      {!error && allowances.length === 0 ? (
+        <EmptyState>{isLoading ? 'Scanning Approval events...' : 'No outstanding token allowances'}</EmptyState>
+      ) : (
+        <AllowanceList>
+          {allowances.map(allowance => {
+            const key = getAllowanceKey(allowance);
+            const label = spenderLabels.get(allowance.spender.toLowerCase());
+            return (
+              <AllowanceRow key={key} selected={selected.has(key)}>
+                <input type="checkbox" checked={selected.has(key)} onChange={() => toggleSelected(allowance)} />
+                <Column>
+                  <PrimaryText>{allowance.token.symbol}</PrimaryText>
+                  <SecondaryText>{allowance.token.name}</SecondaryText>
+                  <AddressDisplay address={allowance.token.address} network={network} truncate={true} truncateLength={4} />
+                </Column>
+                <Column>
+                  <SpenderLabel known={Boolean(label)}>
+                    {label ? `${label.name} · ${label.source}` : 'Unknown spender'}
+                  </SpenderLabel>
+                  <AddressDisplay address={allowance.spender} network={network} truncate={true} truncateLength={6} />
+                  <SecondaryText>Last approved in block {allowance.lastApprovalBlock}</SecondaryText>
+                </Column>
+                <AllowanceAmount
+                  isUnlimited={allowance.isUnlimited}
+                  isUnknown={allowance.isUnknown}
+                  title={allowance.isUnknown ? 'The allowance could not be read, revoke it to be sure it is zero' : undefined}
+                >
+                  {allowance.formattedAllowance} {allowance.isUnlimited || allowance.isUnknown ? '' : allowance.token.symbol}
+                </AllowanceAmount>
+              </AllowanceRow>
+            );
+          })}
+        </AllowanceList>
+      )}
+
+      {showWalletModal && (
+        <WalletConnectionModal
+          isOpen={showWalletModal}
+          onClose={() => setShowWalletModal(false)}
+          onWalletSelect={handleWalletSelect}
+        />
+      )}
+    </Container>
+  );
+};
+
+export default ApprovalsPage;
@@ -1,9 +1,12 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import styled from 'styled-components';
 import { Asset } from '../types';
 import { theme } from '../../../theme';
 import { Card, Badge } from '../../ui';
 import AddressDisplay from '../components/AddressDisplay';
+import NftGallery from '../components/NftGallery';
+import { TokenDiscoveryService, TokenPreferences } from '../../../services/TokenDiscoveryService';
+import { getRpcProvider } from '../../../services/FailoverRpcProvider';
 
 const Container = styled.div`
   padding: 0;
@@ -73,6 +76,13 @@ const AssetIcon = styled.div<{ assetType: string }>`
   border: 2px solid rgba(255, 255, 255, 0.1);
 `;
 
+const AssetLogo = styled.img`
+  width: 100%;
+  height: 100%;
+  border-radius: ${theme.borderRadius.full};
+  object-fit: cover;
+`;
+
 const AssetInfo = styled.div`
   flex: 1;
 `;
@@ -119,6 +129,35 @@ const AssetActions = styled.div`
   margin-left: ${theme.spacing[3]};
 `;
 
+const TokenActions = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${theme.spacing[1]};
+`;
+
+const TokenActionButton = styled.button<{ active?: boolean }>`
+  padding: ${theme.spacing[1]} ${theme.spacing[3]};
+  background: ${props => props.active ? theme.colors.primary[500] : 'transparent'};
+  color: ${props => props.active ? theme.colors.text.inverse : theme.colors.text.tertiary};
+  border: 1px solid ${props => props.active ? theme.colors.primary[500] : theme.colors.border.tertiary};
+  border-radius: ${theme.borderRadius.md};
+  font-size: ${theme.typography.fontSize.xs};
+  font-weight: ${theme.typography.fontWeight.medium};
+  cursor: pointer;
+  transition: ${theme.transitions.normal};
+
+  &:hover {
+    color: ${props => props.active ? theme.colors.text.inverse : theme.colors.text.primary};
+    border-color: ${theme.colors.primary[500]};
+  }
+`;
+
+const HeaderActions = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${theme.spacing[2]};
+`;
+
 const SendButton = styled.button`
   padding: ${theme.spacing[3]} ${theme.spacing[6]};
   background: linear-gradient(135deg, #0ea5e9, #0284c7);
@@ -237,9 +276,62 @@ interface AssetsPageProps {
   onSendAsset?: (asset: Asset) => void;
   onRefresh?: () => void;
   network?: string;
+  safeAddress?: string;
 }
 
-const AssetsPage: React.FC<AssetsPageProps> = ({ assets, isLoading, onSendAsset, onRefresh, network = 'ethereum' }) => {
+const AssetsPage: React.FC<AssetsPageProps> = ({ assets, isLoading, onSendAsset, onRefresh, network = 'ethereum', safeAddress }) => {
+  const [nftRefreshKey, setNftRefreshKey] = useState(0);
+  const [preferences, setPreferences] = useState<TokenPreferences>({ hidden: [], pinned: [] });
+  const [showHidden, setShowHidden] = useState(false);
+  const [failedLogos, setFailedLogos] = useState<Set<string>>(new Set());
+
+  const tokenDiscoveryService = useMemo(
+    () => new TokenDiscoveryService(getRpcProvider(network), network),
+    [network]
+  );
+
+  useEffect(() => {
+    setPreferences(safeAddress ? tokenDiscoveryService.getPreferences(safeAddress) : { hidden: [], pinned: [] });
+  }, [safeAddress, tokenDiscoveryService]);
+
+  const isManuallyHidden = (asset: Asset) => !!asset.contractAddress && preferences.hidden.includes(asset.contractAddress.toLowerCase());
+  const isPinned = (asset: Asset) => !!asset.contractAddress && preferences.pinned.includes(asset.contractAddress.toLowerCase());
+  // Suspected spam is hidden unless the user pinned the token
+  const isHidden = (asset: Asset) => isManuallyHidden(asset) || (!!asset.isSuspectedSpam && !isPinned(asset));
+
+  // Native asset first, then pinned tokens, then by USD value, hidden tokens only on request
+  const rank = (asset: Asset) => asset.type === 'native' ? 0 : isPinned(asset) ? 1 : 2;
+  const hiddenCount = assets.filter(isHidden).length;
+  const visibleAssets = assets
+    .filter(asset => showHidden || !isHidden(asset))
+    .sort((a, b) => rank(a) - rank(b) || (b.valueUsd || 0) - (a.valueUsd || 0));
+
+  const togglePinned = (asset: Asset) => {
+    if (!safeAddress || !asset.contractAddress) return;
+    setPreferences(isPinned(asset)
+      ? tokenDiscoveryService.unpinToken(safeAddress, asset.contractAddress)
+      : tokenDiscoveryService.pinToken(safeAddress, asset.contractAddress));
+  };
+
+  const toggleHidden = (asset: Asset) => {
+    if (!safeAddress || !asset.contractAddress) return;
+    if (isManuallyHidden(asset)) {
+      setPreferences(tokenDiscoveryService.unhideToken(safeAddress, asset.contractAddress));
+    } else if (isHidden(asset)) {
+      // Marking suspected spam as legitimate pins it
+      setPreferences(tokenDiscoveryService.pinToken(safeAddress, asset.contractAddress));
+    } else {
+      setPreferences(tokenDiscoveryService.hideToken(safeAddress, asset.contractAddress));
+    }
+  };
+
+  const getHideLabel = (asset: Asset) => isManuallyHidden(asset) ? 'Unhide' : isHidden(asset) ? 'Not spam' : 'Hide';
+
+  const handleRefresh = () => {
+    onRefresh?.();
+    setNftRefreshKey(key => key + 1);
+  };
+
   const renderAssetItem = (asset: Asset, isSelected: boolean, isFocused: boolean) => (
     <AssetCard
       variant="elevated"
@@ -248,7 +340,15 @@ const AssetsPage: React.FC<AssetsPageProps> = ({ assets, isLoading, onSendAsset,
     >
       <AssetItem>
         <AssetIcon assetType={asset.type}>
-          {asset.symbol.charAt(0)}
+          {asset.imageUrl && !failedLogos.has(asset.imageUrl) ? (
+            <AssetLogo
+              src={asset.imageUrl}
+              alt={asset.symbol}
+              onError={() => setFailedLogos(prev => new Set(prev).add(asset.imageUrl!))}
+            />
+          ) : (
+            asset.symbol.charAt(0)
+          )}
         </AssetIcon>
         <AssetInfo>
           <AssetHeader>
@@ -256,6 +356,32 @@ const AssetsPage: React.FC<AssetsPageProps> = ({ assets, isLoading, onSendAsset,
             <Badge variant={asset.type === 'native' ? 'primary' : 'secondary'} size="sm">
               {asset.type.toUpperCase()}
             </Badge>
+            {isPinned(asset) && (
+              <Badge variant="primary" size="sm">
+                PINNED
+              </Badge>
+            )}
+            {asset.type === 'erc20' && asset.isListed === false && (
+              <div title="This token is not on any enabled token list">
+                <Badge variant="warning" size="sm">
+                  UNLISTED
+                </Badge>
+              </div>
+            )}
+            {asset.symbolCollision && (
+              <div title={`A listed ${asset.symbol} token exists at ${asset.symbolCollision}, this may be an impersonation`}>
+                <Badge variant="error" size="sm">
+                  ⚠ SYMBOL COLLISION
+                </Badge>
+              </div>
+            )}
+            {asset.isSuspectedSpam && !isPinned(asset) && (
+              <div title="Unlisted token that looks like airdrop spam, hidden by default">
+                <Badge variant="error" size="sm">
+                  SPAM?
+                </Badge>
+              </div>
+            )}
             {asset.isTrusted && (
               <div title="This token is in your trusted contracts list">
                 <Badge variant="success" size="sm">
@@ -280,9 +406,28 @@ const AssetsPage: React.FC<AssetsPageProps> = ({ assets, isLoading, onSendAsset,
         </AssetInfo>
         <AssetBalanceInfo>
           <AssetBalance>{asset.balance} {asset.symbol}</AssetBalance>
-          <AssetValue>{asset.value}</AssetValue>
+          <AssetValue title={asset.value ? 'Chainlink price feed' : 'No price feed for this asset'}>
+            {asset.value || '—'}
+          </AssetValue>
         </AssetBalanceInfo>
         <AssetActions>
+          {asset.type === 'erc20' && asset.contractAddress && safeAddress && (
+            <TokenActions onClick={(e) => e.stopPropagation()}>
+              <TokenActionButton
+                active={isPinned(asset)}
+                onClick={() => togglePinned(asset)}
+                title={isPinned(asset) ? 'Unpin this token' : 'Pin this token to the top, even without a balance'}
+              >
+                {isPinned(asset) ? 'Unpin' : 'Pin'}
+              </TokenActionButton>
+              <TokenActionButton
+                onClick={() => toggleHidden(asset)}
+                title={isHidden(asset) ? 'Show this token in the asset list' : 'Hide this token from the asset list'}
+              >
+                {getHideLabel(asset)}
+              </TokenActionButton>
+            </TokenActions>
+          )}
           <SendButton
             onClick={(e) => {
               e.stopPropagation(); // Prevent triggering list item selection
@@ -357,41 +502,53 @@ const AssetsPage: React.FC<AssetsPageProps> = ({ assets, isLoading, onSendAsset,
           <div>
             <Heading>Assets</Heading>
             <SubHeading>
-              Manage your digital assets and tokens. Total assets: {assets.length}
+              Manage your digital assets and tokens. Total assets: {assets.length - hiddenCount}
+              {hiddenCount > 0 && ` (${hiddenCount} hidden)`}
             </SubHeading>
           </div>
-          {onRefresh && (
-            <button
-              onClick={onRefresh}
-              disabled={isLoading}
-              style={{
-                padding: '8px 16px',
-                backgroundColor: theme.colors.primary[500],
-                color: 'white',
-                border: 'none',
-                borderRadius: '6px',
-                cursor: isLoading ? 'not-allowed' : 'pointer',
-                opacity: isLoading ? 0.6 : 1,
-                fontSize: '14px',
-                fontWeight: '500',
-                display: 'flex',
-                alignItems: 'center',
-                gap: '6px'
-              }}
-              title="Refresh asset balances"
-            >
-              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                <path d="M4 4V9H4.58152M4.58152 9C5.24618 7.35652 6.43101 5.9604 7.96999 5.05552C9.50897 4.15064 11.3193 3.78719 13.1068 4.01893C14.8943 4.25067 16.5583 5.06435 17.8446 6.34587C19.1309 7.6274 19.9652 9.28755 20.2209 11.0744M4.58152 9H9M20 20V15H19.4185M19.4185 15C18.7538 16.6435 17.569 18.0396 16.03 18.9445C14.491 19.8494 12.6807 20.2128 10.8932 19.9811C9.10571 19.7493 7.44165 18.9357 6.15536 17.6541C4.86907 16.3726 4.03479 14.7125 3.77914 12.9256M19.4185 15H15" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-              </svg>
-              {isLoading ? 'Refreshing...' : 'Refresh'}
-            </button>
-          )}
+          <HeaderActions>
+            {hiddenCount > 0 && (
+              <TokenActionButton
+                active={showHidden}
+                onClick={() => setShowHidden(show => !show)}
+                title="Show or hide the tokens you have hidden and suspected spam"
+              >
+                {showHidden ? 'Hide hidden tokens' : `Show hidden (${hiddenCount})`}
+              </TokenActionButton>
+            )}
+            {onRefresh && (
+              <button
+                onClick={handleRefresh}
+                disabled={isLoading}
+                style={{
+                  padding: '8px 16px',
+                  backgroundColor: theme.colors.primary[500],
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: isLoading ? 'not-allowed' : 'pointer',
+                  opacity: isLoading ? 0.6 : 1,
+                  fontSize: '14px',
+                  fontWeight: '500',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px'
+                }}
+                title="Refresh asset balances"
+              >
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                  <path d="M4 4V9H4.58152M4.58152 9C5.24618 7.35652 6.43101 5.9604 7.96999 5.05552C9.50897 4.15064 11.3193 3.78719 13.1068 4.01893C14.8943 4.25067 16.5583 5.06435 17.8446 6.34587C19.1309 7.6274 19.9652 9.28755 20.2209 11.0744M4.58152 9H9M20 20V15H19.4185M19.4185 15C18.7538 16.6435 17.569 18.0396 16.03 18.9445C14.491 19.8494 12.6807 20.2128 10.8932 19.9811C9.10571 19.7493 7.44165 18.9357 6.15536 17.6541C4.86907 16.3726 4.03479 14.7125 3.77914 12.9256M19.4185 15H15" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                </svg>
+                {isLoading ? 'Refreshing...' : 'Refresh'}
+              </button>
+            )}
+          </HeaderActions>
         </div>
       </Header>
 
       <AssetsGrid>
-        {assets.map((asset, index) => (
-          <div key={asset.contractAddress || asset.symbol || index} onClick={() => {
+        {visibleAssets.map((asset, index) => (
+          <div key={asset.contractAddress || asset.symbol || index} style={{ opacity: isHidden(asset) ? 0.5 : 1 }} onClick={() => {
             // TODO: Implement asset selection functionality
             console.log(`Selected ${asset.name} (${asset.balance} ${asset.symbol})`);
           }}>
@@ -399,6 +556,15 @@ const AssetsPage: React.FC<AssetsPageProps> = ({ assets, isLoading, onSendAsset,
           </div>
         ))}
       </AssetsGrid>
+
+      {safeAddress && (
+        <NftGallery
+          safeAddress={safeAddress}
+          network={network}
+          refreshKey={nftRefreshKey}
+          onSendNft={onSendAsset}
+        />
+      )}
     </Container>
   );
 };
@@ -4,6 +4,7 @@ import { Asset } from '../types';
 import { formatWalletAddress } from '@utils';
 import { theme } from '../../../theme';
 import { Card } from '../../ui';
+import { formatUsd } from '../../../services/PriceService';
 import TransactionModal from '../components/TransactionModal';
 
 const Container = styled.div`
@@ -68,6 +69,12 @@ const StatLabel = styled.div`
   font-weight: ${theme.typography.fontWeight.medium};
 `;
 
+const StatNote = styled.div`
+  font-size: ${theme.typography.fontSize.xs};
+  color: ${theme.colors.text.muted};
+  margin-top: ${theme.spacing[2]};
+`;
+
 const QuickActionsSection = styled.div`
   margin-bottom: ${theme.spacing[8]};
 `;
@@ -172,6 +179,11 @@ const HomePage: React.FC<HomePageProps> = ({ walletAddress, ensName, network, as
   // Find ETH asset from the assets list
   const ethAsset = assets?.find(asset => asset.type === 'native' && asset.symbol === 'ETH');
 
+  // Portfolio total from the on-chain price feeds, NFTs and tokens without a feed are not counted
+  const fungibleAssets = (assets || []).filter(asset => asset.type === 'native' || asset.type === 'erc20');
+  const portfolioValue = fungibleAssets.reduce((total, asset) => total + (asset.valueUsd || 0), 0);
+  const unpricedCount = fungibleAssets.filter(asset => asset.valueUsd === undefined).length;
+
   const handleSendETHClick = () => {
     setIsTransactionModalOpen(true);
   };
@@ -259,6 +271,14 @@ const HomePage: React.FC<HomePageProps> = ({ walletAddress, ensName, network, as
         </InfoText>
 
         <StatsGrid>
+          <StatCard variant="elevated" padding="lg">
+            <StatValue>{formatUsd(portfolioValue)}</StatValue>
+            <StatLabel>Portfolio Value</StatLabel>
+            {unpricedCount > 0 && (
+              <StatNote>{unpricedCount} asset{unpricedCount === 1 ? '' : 's'} without a price feed not included</StatNote>
+            )}
+          </StatCard>
+
           <StatCard variant="elevated" padding="lg">
             <StatValue>Multi-Sig</StatValue>
             <StatLabel>Wallet Type</StatLabel>
@@ -0,0 +1,427 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import styled from 'styled-components';
+import { theme } from '../../../theme';
+import { safeWalletService, SafeWalletService } from '../../../services/SafeWalletService';
+import { safeMessageService, SafeMessage } from '../../../services/SafeMessageService';
+import { walletConnectionService, WalletConnectionState } from '../../../services/WalletConnectionService';
+import { getRpcProvider } from '../../../services/FailoverRpcProvider';
+import { SafeMessageContent } from '../../../utils/eip712';
+import { useToast } from '../../../hooks/useToast';
+import { ErrorHandler } from '../../../utils/errorHandling';
+import Button from '../../ui/Button';
+import Input from '../../ui/Input';
+import WalletConnectionModal from '../../ui/WalletConnectionModal';
+import SafeMessageCard from '../components/SafeMessageCard';
+
+const Container = styled.div`
+  padding: 0;
+  height: 100%;
+  overflow-y: auto;
+`;
+
+const Header = styled.div`
+  margin-bottom: ${theme.spacing[8]};
+`;
+
+const Heading = styled.h1`
+  font-size: ${theme.typography.fontSize['3xl']};
+  font-weight: ${theme.typography.fontWeight.bold};
+  margin-bottom: ${theme.spacing[4]};
+  color: ${theme.colors.primary[400]};
+`;
+
+const SubHeading = styled.p`
+  font-size: ${theme.typography.fontSize.lg};
+  color: ${theme.colors.text.secondary};
+  margin-bottom: ${theme.spacing[6]};
+`;
+
+const Section = styled.div`
+  margin-bottom: ${theme.spacing[8]};
+  background: ${theme.colors.neutral[800]};
+  border: 1px solid ${theme.colors.neutral[700]};
+  border-radius: ${theme.borderRadius.lg};
+  padding: ${theme.spacing[6]};
+`;
+
+const SectionTitle = styled.h3`
+  margin: 0 0 ${theme.spacing[2]} 0;
+  font-size: ${theme.typography.fontSize.lg};
+  font-weight: ${theme.typography.fontWeight.semibold};
+  color: ${theme.colors.text.primary};
+`;
+
+const Description = styled.p`
+  margin: 0 0 ${theme.spacing[4]} 0;
+  font-size: ${theme.typography.fontSize.sm};
+  color: ${theme.colors.text.secondary};
+  line-height: 1.5;
+`;
+
+const TextArea = styled.textarea`
+  width: 100%;
+  min-height: 120px;
+  background: ${theme.colors.neutral[900]};
+  border: 1px solid ${theme.colors.neutral[700]};
+  border-radius: ${theme.borderRadius.md};
+  padding: ${theme.spacing[3]};
+  color: ${theme.colors.text.primary};
+  font-family: ${theme.typography.fontFamily.mono.join(', ')};
+  font-size: ${theme.typography.fontSize.sm};
+  resize: vertical;
+  margin-bottom: ${theme.spacing[4]};
+
+  &:focus {
+    outline: none;
+    border-color: ${theme.colors.primary[400]};
+  }
+`;
+
+const FormRow = styled.div`
+  display: flex;
+  gap: ${theme.spacing[3]};
+  align-items: flex-start;
+
+  > *:first-child {
+    flex: 1;
+  }
+`;
+
+const MessageList = styled.div`
+  display: grid;
+  gap: ${theme.spacing[4]};
+`;
+
+const EmptyState = styled.div`
+  text-align: center;
+  padding: ${theme.spacing[12]};
+  color: ${theme.colors.text.tertiary};
+`;
+
+const ErrorState = styled.div`
+  text-align: center;
+  padding: ${theme.spacing[8]} ${theme.spacing[4]};
+  color: ${theme.colors.status.error};
+`;
+
+interface MessagesPageProps {
+  safeAddress: string;
+  network: string;
+}
+
+/**
+ * Parse the message input: JSON with domain/types/message is EIP-712 typed data, anything else is text
+ */
+const parseMessageInput = (input: string): SafeMessageContent => {
+  const trimmed = input.trim();
+  if (trimmed.startsWith('{')) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error('Invalid JSON. Typed data must be valid EIP-712 JSON.');
+    }
+    if (!parsed.domain || !parsed.types || !parsed.message) {
+      throw new Error('Typed data must contain domain, types and message');
+    }
+    return parsed;
+  }
+  return trimmed;
+};
+
+const MessagesPage: React.FC<MessagesPageProps> = ({ safeAddress, network }) => {
+  const [messages, setMessages] = useState<SafeMessage[]>([]);
+  const [owners, setOwners] = useState<string[]>([]);
+  const [threshold, setThreshold] = useState(1);
+  const [messageInput, setMessageInput] = useState('');
+  const [originInput, setOriginInput] = useState('');
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [connectionState, setConnectionState] = useState<WalletConnectionState>({ isConnected: false });
+  const [showWalletModal, setShowWalletModal] = useState(false);
+
+  const { addToast } = useToast();
+
+  // Subscribe to wallet connection state
+  useEffect(() => {
+    const updateConnectionState = () => {
+      setConnectionState(walletConnectionService.getConnectionState());
+    };
+
+    updateConnectionState();
+
+    const unsubscribe = walletConnectionService.subscribe(updateConnectionState);
+    return unsubscribe;
+  }, []);
+
+  const refreshMessages = useCallback(() => {
+    setMessages(safeMessageService.getMessages(safeAddress, network));
+  }, [safeAddress, network]);
+
+  useEffect(() => {
+    refreshMessages();
+  }, [refreshMessages]);
+
+  // Load owners and threshold used for signature collection
+  useEffect(() => {
+    const loadSafeInfo = async () => {
+      try {
+        const safeInfo = await safeWalletService.getSafeInfo();
+        setOwners(safeInfo.owners);
+        setThreshold(safeInfo.threshold);
+      } catch (error) {
+        console.error('Error loading Safe info for messages:', error);
+      }
+    };
+
+    if (connectionState.isConnected) {
+      loadSafeInfo();
+    }
+  }, [connectionState.isConnected, safeAddress]);
+
+  const isSignerConnected = connectionState.signerConnected && !connectionState.readOnlyMode;
+  const isOwner = Boolean(connectionState.signerAddress && owners.some(
+    owner => owner.toLowerCase() === connectionState.signerAddress!.toLowerCase()
+  ));
+
+  const handleWalletSelect = async (walletType: string) => {
+    try {
+      await walletConnectionService.connectSignerWallet();
+      setShowWalletModal(false);
+    } catch (error) {
+      console.error('Failed to connect wallet:', error);
+    }
+  };
+
+  /**
+   * Create a SafeWalletService bound to the connected signer
+   */
+  const getSignerWalletService = async (): Promise<SafeWalletService> => {
+    const signer = walletConnectionService.getSigner();
+    if (!signer) {
+      throw new Error('No wallet signer available. Please connect your wallet first.');
+    }
+
+    const walletService = new SafeWalletService();
+    await walletService.initialize({ safeAddress, network });
+    await walletService.setSigner(signer);
+    return walletService;
+  };
+
+  const runAction = async (action: string, message: SafeMessage, fn: () => Promise<void>) => {
+    setBusyAction(`${action}:${message.safeMessageHash}`);
+    try {
+      await fn();
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleCreateMessage = async () => {
+    try {
+      const content = parseMessageInput(messageInput);
+      await safeWalletService.createSafeMessage(content, originInput.trim() || undefined);
+      setMessageInput('');
+      setOriginInput('');
+      refreshMessages();
+      addToast('Message Created', {
+        type: 'success',
+        message: 'Collect owner signatures to produce an EIP-1271 signature for this Safe.'
+      });
+    } catch (error) {
+      console.error('Error creating Safe message:', error);
+      const errorDetails = ErrorHandler.classifyError(error);
+      addToast('Failed to create message', {
+        type: 'error',
+        message: errorDetails.userMessage
+      });
+    }
+  };
+
+  const handleSign = (message: SafeMessage) => {
+    if (!isSignerConnected) {
+      setShowWalletModal(true);
+      return;
+    }
+
+    runAction('sign', message, async () => {
+      try {
+        const walletService = await getSignerWalletService();
+        await walletService.signSafeMessage(message.safeMessageHash);
+        refreshMessages();
+        addToast('Message Signed', {
+          type: 'success',
+          message: 'Your signature has been added. Share it with the other owners if they sign from another device.'
+        });
+      } catch (error) {
+        console.error('Error signing Safe message:', error);
+        const errorDetails = ErrorHandler.classifyError(error);
+        addToast('Failed to sign message', {
+          type: 'error',
+          message: errorDetails.userMessage
+        });
+      }
+    });
+  };
+
+  const handleAddSignature = async (message: SafeMessage, signature: string) => {
+    try {
+      await safeMessageService.addSignature(getRpcProvider(network), message.safeMessageHash, signature, owners);
+      refreshMessages();
+      addToast('Signature Added', { type: 'success' });
+    } catch (error: any) {
+      console.error('Error adding signature:', error);
+      addToast('Invalid signature', {
+        type: 'error',
+        message: error.message || 'The signature could not be added'
+      });
+    }
+  };
+
+  const handleCopySignature = async (message: SafeMessage) => {
+    try {
+      const signature = safeMessageService.buildCombinedSignature(message, threshold);
+      await navigator.clipboard.writeText(signature);
+      addToast('Signature Copied', {
+        type: 'success',
+        message: 'The combined EIP-1271 signature has been copied to your clipboard.'
+      });
+    } catch (error: any) {
+      console.error('Error copying signature:', error);
+      addToast('Failed to copy signature', {
+        type: 'error',
+        message: error.message || 'Unknown error'
+      });
+    }
+  };
+
+  const handleVerify = (message: SafeMessage) => {
+    runAction('verify', message, async () => {
+      try {
+        const signature = safeMessageService.buildCombinedSignature(message, threshold);
+        const isValid = await safeWalletService.verifySafeMessageSignature(message.messageHash, signature);
+        addToast(isValid ? 'Signature Valid' : 'Signature Invalid', {
+          type: isValid ? 'success' : 'error',
+          message: isValid
+            ? 'The Safe accepts this signature via isValidSignature (EIP-1271).'
+            : 'The Safe rejected this signature. Check that its fallback handler supports EIP-1271.'
+        });
+      } catch (error) {
+        console.error('Error verifying signature:', error);
+        const errorDetails = ErrorHandler.classifyError(error);
+        addToast('Verification failed', {
+          type: 'error',
+          message: errorDetails.userMessage
+        });
+      }
+    });
+  };
+
+  const handleSignOnChain = (message: SafeMessage) => {
+    if (!isSignerConnected) {
+      setShowWalletModal(true);
+      return;
+    }
+
+    runAction('onchain', message, async () => {
+      try {
+        const walletService = await getSignerWalletService();
+        const result = await walletService.proposeSignMessageTransaction(message.messageHash);
+        addToast('Transaction Proposed', {
+          type: 'success',
+          message: `On-chain signature proposed (nonce: ${result.nonce}). Check the Transactions tab to execute it.`
+        });
+      } catch (error) {
+        console.error('Error proposing on-chain signature:', error);
+        const errorDetails = ErrorHandler.classifyError(error);
+        addToast('Failed to propose on-chain signature', {
+          type: 'error',
+          message: errorDetails.userMessage
+        });
+      }
+    });
+  };
+
+  const handleRemove = (message: SafeMessage) => {
+    safeMessageService.removeMessage(message.safeMessageHash);
+    refreshMessages();
+  };
+
+  if (!safeAddress) {
+    return (
+      <Container>
+        <Header>
+          <Heading>Messages</Heading>
+        </Header>
+        <ErrorState>Please connect to a Safe wallet to sign messages.</ErrorState>
+      </Container>
+    );
+  }
+
+  return (
+    <Container>
+      <Header>
+        <Heading>Messages</Heading>
+        <SubHeading>Collect owner signatures on off-chain messages and produce EIP-1271 signatures for this Safe</SubHeading>
+      </Header>
+
+      <Section>
+        <SectionTitle>New message</SectionTitle>
+        <Description>
+          Paste a text message (for example a Sign-In with Ethereum request) or EIP-712 typed data JSON.
+          Owners sign the SafeMessage hash; once the threshold is reached the combined signature can be
+          verified by any contract through isValidSignature.
+        </Description>
+        <TextArea
+          placeholder={'Text message or {"domain": {...}, "types": {...}, "message": {...}}'}
+          value={messageInput}
+          onChange={(e) => setMessageInput(e.target.value)}
+        />
+        <FormRow>
+          <Input
+            placeholder="Origin (optional, e.g. https://app.example.com)"
+            value={originInput}
+            onChange={(e) => setOriginInput(e.target.value)}
+            fullWidth
+          />
+          <Button variant="primary" onClick={handleCreateMessage} disabled={!messageInput.trim()}>
+            Create Message
+          </Button>
+        </FormRow>
+      </Section>
+
+      {messages.length === 0 ? (
+        <EmptyState>No messages yet</EmptyState>
+      ) : (
+        <MessageList>
+          {messages.map(message => (
+            <SafeMessageCard
+              key={message.safeMessageHash}
+              message={message}
+              threshold={threshold}
+              network={network}
+              currentSigner={connectionState.signerAddress}
+              isOwner={isOwner || !isSignerConnected}
+              busyAction={busyAction}
+              onSign={handleSign}
+              onAddSignature={handleAddSignature}
+              onCopySignature={handleCopySignature}
+              onVerify={handleVerify}
+              onSignOnChain={handleSignOnChain}
+              onRemove={handleRemove}
+            />
+          ))}
+        </MessageList>
+      )}
+
+      {showWalletModal && (
+        <WalletConnectionModal
+          isOpen={showWalletModal}
+          onClose={() => setShowWalletModal(false)}
+          onWalletSelect={handleWalletSelect}
+        />
+      )}
+    </Container>
+  );
+};
+
+export default MessagesPage;
@@ -205,10 +205,11 @@ const OptimizedTransactionsPage: React.FC<OptimizedTransactionsPageProps> = ({
           {totalCount > 0 ? `${totalCount} total transactions` : `${transactions.length} transactions`}
           {currentPage > 0 && ` (page ${currentPage + 1})`}
         </div>
-        {showCacheStats && (
+        {showCacheStats && cacheStats && (
           <div className={cacheStatsClasses}>
             Memory: {cacheStats.memoryEntries} entries ({cacheStats.memorySize}) |
-            Persistent: {cacheStats.persistentEntries} entries |
+            Persistent: {cacheStats.persistentEntries} entries ({cacheStats.persistentSize} of {cacheStats.quota}, {cacheStats.storageBackend}) |
+            {cacheStats.storageUsage && ` Storage: ${cacheStats.storageUsage} of ${cacheStats.storageQuota} |`}
             Active: {cacheStats.activeRequests} requests
           </div>
         )}
@@ -3,6 +3,7 @@ import styled from 'styled-components';
 import { theme } from '../../../theme';
 import SafeSetupTab from '../components/SafeSetupTab';
 import SmartContractGuardSection from '../components/SmartContractGuardSection';
+import ModuleManagementSection from '../components/ModuleManagementSection';
 import TrustedContractsSection from '../components/TrustedContractsSection';
 import EnvironmentTab from '../components/EnvironmentTab';
 
@@ -140,7 +141,7 @@ interface SettingsPageProps {
 }
 
 const SettingsPage: React.FC<SettingsPageProps> = ({ network = 'ethereum' }) => {
-  const [activeTab, setActiveTab] = useState<'setup' | 'security' | 'trusted' | 'environment' | 'about'>('setup');
+  const [activeTab, setActiveTab] = useState<'setup' | 'security' | 'modules' | 'trusted' | 'environment' | 'about'>('setup');
 
   const renderTabContent = () => {
     switch (activeTab) {
@@ -148,6 +149,8 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ network = 'ethereum' }) =>
         return <SafeSetupTab network={network} />;
       case 'security':
         return <SmartContractGuardSection network={network} />;
+      case 'modules':
+        return <ModuleManagementSection network={network} />;
       case 'trusted':
         return <TrustedContractsSection network={network} />;
       case 'environment':
@@ -191,6 +194,12 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ network = 'ethereum' }) =>
         >
           Security
         </Tab>
+        <Tab
+          isActive={activeTab === 'modules'}
+          onClick={() => setActiveTab('modules')}
+        >
+          Modules
+        </Tab>
         <Tab
           isActive={activeTab === 'trusted'}
           onClick={() => setActiveTab('trusted')}
@@ -1,9 +1,10 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { ethers } from 'ethers';
 import { formatWalletAddress } from '@utils';
 import OptimizedTransactionsPage from './OptimizedTransactionsPage';
 import EnhancedTransactionsPage from './EnhancedTransactionsPage';
 import { SafeTxPoolService, SafeTxPoolTransaction } from '../../../services/SafeTxPoolService';
+import { safeTxPoolIndexerService } from '../../../services/SafeTxPoolIndexerService';
 import { SafeWalletService } from '../../../services/SafeWalletService';
 import { SafeTransactionCancellationService } from '../../../services/SafeTransactionCancellationService';
 import PendingTransactionConfirmationModal from '../components/PendingTransactionConfirmationModal';
@@ -14,7 +15,7 @@ import { TokenService } from '../../../services/TokenService';
 import { walletConnectionService } from '../../../services/WalletConnectionService';
 import { useToast } from '../../../hooks/useToast';
 import ParameterDisplay from '../components/ParameterDisplay';
-import { getRpcUrl } from '../../../contracts/abis';
+import { getRpcProvider } from '../../../services/FailoverRpcProvider';
 
 
 
@@ -153,6 +154,7 @@ const TransactionsPage: React.FC<TransactionsPageProps> = ({
   const [pendingError, setPendingError] = useState<string | null>(null);
   const [safeInfo, setSafeInfo] = useState<{ threshold: number; owners: string[] } | null>(null);
   const [decodedTransactions, setDecodedTransactions] = useState<Map<string, DecodedTransactionData>>(new Map());
+  const currentNonceRef = useRef(-1); // Last known Safe nonce, used to filter indexed transactions right away
 
   // Initialize SafeTxPoolService for the current network
   const [safeTxPoolService] = useState(() => new SafeTxPoolService(network));
@@ -182,8 +184,7 @@ const TransactionsPage: React.FC<TransactionsPageProps> = ({
   // Decode pending transactions for better display
   const decodePendingTransactions = useCallback(async (transactions: SafeTxPoolTransaction[]) => {
     try {
-      const rpcUrl = getRpcUrl(network);
-      const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+      const provider = getRpcProvider(network);
       const tokenService = new TokenService(provider, network);
       const decoder = new TransactionDecoder(tokenService, network);
 
@@ -209,67 +210,93 @@ const TransactionsPage: React.FC<TransactionsPageProps> = ({
     }
   }, [network]);
 
-  // Load pending transactions from Safe TX pool smart contract
+  // Filter out stale transactions and show the rest in execution order
+  const showPendingTransactions = useCallback((allPending: SafeTxPoolTransaction[]) => {
+    const currentNonce = currentNonceRef.current;
+
+    // Filter out transactions with nonce < current nonce (already executed)
+    // Keep transactions with nonce >= current nonce (current and future transactions)
+    const validPending = allPending.filter(tx => {
+      const isValid = currentNonce === -1 || tx.nonce >= currentNonce;
+      if (!isValid) {
+        console.log(`Filtering out transaction ${tx.txHash.slice(0, 10)} with nonce ${tx.nonce} (current nonce: ${currentNonce})`);
+      }
+      return isValid;
+    });
+
+    // Sort transactions by nonce (ascending order) to show proper execution sequence
+    const sortedPending = validPending.sort((a, b) => a.nonce - b.nonce);
+    console.log(`Showing ${sortedPending.length} valid transactions (filtered out ${allPending.length - sortedPending.length}), sorted by nonce`);
+
+    setPendingTxs(sortedPending);
+
+    // Decode transactions for better display
+    if (validPending.length > 0) {
+      decodePendingTransactions(validPending);
+    }
+  }, [decodePendingTransactions]);
+
+  // Load pending transactions from the local SafeTxPool index, then catch up with the chain
   const loadPendingTransactions = useCallback(async () => {
     if (!safeAddress) return;
 
-    setPendingLoading(true);
     setPendingError(null);
 
-    try {
-      if (!safeTxPoolService.isConfigured()) {
-        console.warn('SafeTxPool not configured for network:', network);
-        setPendingTxs([]);
-        return;
-      }
-
-      // Get all pending transactions from SafeTxPool
-      const allPending = await safeTxPoolService.getPendingTransactions(safeAddress);
-      console.log(`Found ${allPending.length} pending transactions in SafeTxPool`);
-
-      // Get current Safe nonce to filter out stale transactions
-      let currentNonce = -1; // Start with -1 to show all transactions if nonce fetch fails
-      try {
-        const walletService = new SafeWalletService();
-        await walletService.initialize({ safeAddress, network });
-        currentNonce = await walletService.getNonce();
-        console.log(`Current Safe nonce: ${currentNonce}`);
-      } catch (nonceError) {
-        console.warn('Failed to get current Safe nonce, showing all pending transactions:', nonceError);
-      }
+    if (!safeTxPoolService.isConfigured()) {
+      console.warn('SafeTxPool not configured for network:', network);
+      setPendingTxs([]);
+      return;
+    }
 
-      // Log all transaction nonces for debugging
-      console.log('Transaction nonces:', allPending.map(tx => ({ txHash: tx.txHash.slice(0, 10), nonce: tx.nonce })));
+    // Render the indexed transactions instantly, the spinner is only needed for the first sync
+    const indexedPending = await safeTxPoolIndexerService.getPendingTransactions(network, safeAddress);
+    if (indexedPending) {
+      showPendingTransactions(indexedPending);
+    } else {
+      setPendingLoading(true);
+    }
 
-      // Filter out transactions with nonce < current nonce (already executed)
-      // Keep transactions with nonce >= current nonce (current and future transactions)
-      const validPending = allPending.filter(tx => {
-        const isValid = currentNonce === -1 || tx.nonce >= currentNonce;
-        if (!isValid) {
-          console.log(`Filtering out transaction ${tx.txHash.slice(0, 10)} with nonce ${tx.nonce} (current nonce: ${currentNonce})`);
+    try {
+      const getCurrentNonce = async (): Promise<number> => {
+        try {
+          const walletService = new SafeWalletService();
+          await walletService.initialize({ safeAddress, network });
+          return await walletService.getNonce();
+        } catch (nonceError) {
+          console.warn('Failed to get current Safe nonce, showing all pending transactions:', nonceError);
+          return -1; // Show all transactions if nonce fetch fails
         }
-        return isValid;
-      });
+      };
 
-      // Sort transactions by nonce (ascending order) to show proper execution sequence
-      const sortedPending = validPending.sort((a, b) => a.nonce - b.nonce);
-      console.log(`Showing ${sortedPending.length} valid transactions (filtered out ${allPending.length - sortedPending.length}), sorted by nonce`);
-      console.log('Transaction order by nonce:', sortedPending.map(tx => ({ txHash: tx.txHash.slice(0, 10), nonce: tx.nonce })));
+      const getAllPending = async (): Promise<SafeTxPoolTransaction[]> => {
+        try {
+          return await safeTxPoolIndexerService.syncPendingTransactions(network, safeAddress);
+        } catch (indexError) {
+          console.warn('Failed to sync SafeTxPool index, reading the pool directly:', indexError);
+          return safeTxPoolService.getPendingTransactions(safeAddress);
+        }
+      };
 
-      setPendingTxs(sortedPending);
+      const [allPending, currentNonce] = await Promise.all([getAllPending(), getCurrentNonce()]);
+      console.log(`Found ${allPending.length} pending transactions in SafeTxPool (current Safe nonce: ${currentNonce})`);
 
-      // Decode transactions for better display
-      if (validPending.length > 0) {
-        decodePendingTransactions(validPending);
-      }
+      currentNonceRef.current = currentNonce;
+      showPendingTransactions(allPending);
     } catch (error) {
       console.error('Error loading pending transactions:', error);
-      setPendingError('Failed to load pending transactions from Safe TX pool');
-      setPendingTxs([]);
+      if (!indexedPending) {
+        setPendingError('Failed to load pending transactions from Safe TX pool');
+        setPendingTxs([]);
+      }
     } finally {
       setPendingLoading(false);
     }
-  }, [safeAddress, network, safeTxPoolService, decodePendingTransactions]);
+  }, [safeAddress, network, safeTxPoolService, showPendingTransactions]);
+
+  // Reset the known nonce when switching Safes
+  useEffect(() => {
+    currentNonceRef.current = -1;
+  }, [safeAddress, network]);
 
   // Load Safe info and pending transactions when component mounts or dependencies change
   useEffect(() => {
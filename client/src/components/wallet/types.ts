@@ -2,11 +2,21 @@ export interface Asset {
   symbol: string;
   name: string;
   balance: string;
+  rawBalance?: string; // Balance in the smallest unit (wei) for the native asset and ERC-20 tokens
   value: string;
-  type: 'native' | 'erc20' | 'erc721';
-  contractAddress?: string; // For ERC-20 tokens
+  type: 'native' | 'erc20' | 'erc721' | 'erc1155';
+  contractAddress?: string; // For ERC-20 tokens and NFT collections
   decimals?: number; // For ERC-20 tokens
   isTrusted?: boolean; // True if this token is in the Safe's trusted contracts list
+  tokenId?: string; // For ERC-721 and ERC-1155 items
+  collectionName?: string; // For ERC-721 and ERC-1155 items
+  imageUrl?: string; // NFT image or token list logo, resolved through the IPFS gateway
+  description?: string; // NFT metadata description
+  isListed?: boolean; // True if the token is on an enabled token list
+  symbolCollision?: string; // Address of a listed token with the same symbol
+  isSuspectedSpam?: boolean; // Unlisted token that looks like an airdrop scam, hidden by default
+  priceUsd?: number; // Chainlink feed price, unset when the asset has no feed
+  valueUsd?: number;
 }
 
 export interface TokenTransferInfo {
@@ -58,7 +68,7 @@ export interface Transaction {
   tokenTransfer?: TokenTransferInfo;
 }
 
-export type MenuSection = 'home' | 'assets' | 'transactions' | 'addressbook' | 'settings';
+export type MenuSection = 'home' | 'assets' | 'transactions' | 'messages' | 'approvals' | 'addressbook' | 'settings';
 
 export interface WalletPageProps {
   walletAddress?: string;
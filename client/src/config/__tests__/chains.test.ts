@@ -0,0 +1,63 @@
+/**
+ * Tests for the chain registry
+ */
+
+import { ethers } from 'ethers';
+import {
+  CHAIN_REGISTRY,
+  getChainConfig,
+  getChainConfigByChainId,
+  getChainContractAddress,
+  getDefaultRpcUrl,
+  getSupportedChains
+} from '../chains';
+
+describe('chain registry', () => {
+  it('should key every chain by its network name with a unique chain ID', () => {
+    const chainIds = new Set<number>();
+
+    Object.entries(CHAIN_REGISTRY).forEach(([network, chain]) => {
+      expect(chain.network).toBe(network);
+      expect(chainIds.has(chain.chainId)).toBe(false);
+      chainIds.add(chain.chainId);
+    });
+  });
+
+  it('should only contain checksummed token and contract addresses', () => {
+    Object.values(CHAIN_REGISTRY).forEach(chain => {
+      [...chain.tokens.map(token => token.address), ...Object.values(chain.contracts)].forEach(address => {
+        expect(ethers.utils.getAddress(address)).toBe(address);
+      });
+    });
+  });
+
+  it('should support the Optimism, Base, Polygon and Gnosis networks', () => {
+    expect(getChainConfig('optimism')?.chainId).toBe(10);
+    expect(getChainConfig('base')?.chainId).toBe(8453);
+    expect(getChainConfig('polygon')?.nativeCurrency.symbol).toBe('POL');
+    expect(getChainConfig('gnosis')?.nativeCurrency.symbol).toBe('XDAI');
+  });
+
+  it('should look chains up by name and chain ID', () => {
+    expect(getChainConfig('Mainnet')?.network).toBe('ethereum');
+    expect(getChainConfig('unknown')).toBeNull();
+    expect(getChainConfigByChainId(42161)?.network).toBe('arbitrum');
+    expect(getChainConfigByChainId(999999)).toBeNull();
+  });
+
+  it('should list mainnets before testnets', () => {
+    const chains = getSupportedChains();
+    const firstTestnet = chains.findIndex(chain => chain.isTestnet);
+
+    expect(chains.slice(firstTestnet).every(chain => chain.isTestnet)).toBe(true);
+  });
+
+  it('should treat unset contract addresses as not configured', () => {
+    expect(getChainContractAddress('base', 'multiSendCallOnly')).toBe('0x40A2aCCbd92BCA938b02010E17A5b8929b49130D');
+    expect(getChainContractAddress('unknown', 'multiSendCallOnly')).toBeNull();
+  });
+
+  it('should fall back to the default network RPC for unknown networks', () => {
+    expect(getDefaultRpcUrl('unknown')).toBe(getDefaultRpcUrl('ethereum'));
+  });
+});
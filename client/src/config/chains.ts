@@ -0,0 +1,394 @@
+/**
+ * Chain Registry
+ *
+ * Single source of truth for every network the interface supports.
+ * Services read chain IDs, explorers, RPC defaults, contract addresses and token lists from here,
+ * so adding a network only requires adding an entry to CHAIN_REGISTRY.
+ * User-defined networks (CustomNetworkService) are merged in after the built-in chains.
+ */
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface ChainToken {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  priceFeed?: string; // Chainlink <TOKEN>/USD aggregator, matched by token address so look-alike symbols are not priced
+  priceFeedHeartbeat?: number; // Seconds between updates of the feed without price moves, 24 hours when not set
+}
+
+/**
+ * Safe, Vito and utility contract addresses deployed on a chain
+ * Each can be overridden with REACT_APP_<CONTRACT>_<NETWORK>, e.g. REACT_APP_SAFE_TX_POOL_REGISTRY_BASE
+ */
+export interface ChainContracts {
+  safeTxPoolRegistry: string;
+  multiSendCallOnly: string;
+  simulateTxAccessor: string;
+  signMessageLib: string;
+  safeProxyFactory: string;
+  safeSingleton: string;
+  multicall3: string;
+}
+
+export interface ChainConfig {
+  network: string; // Network key used across the app (e.g. 'ethereum', 'base')
+  chainId: number;
+  name: string; // Full name (e.g. 'Ethereum Mainnet')
+  shortName: string; // Compact name for badges and selectors
+  color: string;
+  isTestnet: boolean;
+  nativeCurrency: NativeCurrency;
+  nativePriceFeed?: string; // Chainlink <NATIVE>/USD aggregator
+  nativePriceFeedHeartbeat?: number; // Seconds, 24 hours when not set
+  rpcUrl: string; // Public RPC endpoint used when no custom or Alchemy URL is available
+  alchemySubdomain?: string; // Used with REACT_APP_ALCHEMY_KEY when set
+  blockExplorer: string;
+  explorerApiUrl: string; // Etherscan-compatible API, empty when the chain has none
+  blockscoutApiUrl?: string; // Blockscout instance, its API is Etherscan-compatible
+  safeTransactionServiceUrl?: string;
+  safeAppPrefix: string; // Chain short name used by app.safe.global URLs
+  ensSupported: boolean;
+  contracts: ChainContracts;
+  tokens: ChainToken[];
+  isCustom?: boolean; // Added by the user from the Environment tab
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Etherscan V2 serves every Etherscan-family explorer (Arbiscan, Basescan, ...) with one API key
+const etherscanApiUrl = (chainId: number): string => `https://api.etherscan.io/v2/api?chainid=${chainId}`;
+
+// Canonical Safe deployments shared by every supported chain
+const MULTI_SEND_CALL_ONLY_V130 = '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D';
+const SIMULATE_TX_ACCESSOR_V130 = '0x59AD6735bCd8152B84860Cb256dD9e96b85F69Da';
+const SIGN_MESSAGE_LIB_V130 = '0xA65387F16B013cf2Af4605Ad8aA5ec25a2cbA3a2';
+const SAFE_PROXY_FACTORY_V141 = '0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67';
+const SAFE_SINGLETON_V141 = '0x41675C099F32341bf84BFc5382aF534df5C7461a';
+const SAFE_L2_SINGLETON_V141 = '0x29fcB43b46531BcA003ddC8FCB67FFE91900C762';
+
+// Multicall3 is deployed at the same address on every supported chain
+const MULTICALL3 = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const ETH: NativeCurrency = { name: 'Ethereum', symbol: 'ETH', decimals: 18 };
+
+/**
+ * Read a per-network contract address override from the environment
+ */
+const envAddress = (contract: string, network: string, fallback: string): string => {
+  return process.env[`REACT_APP_${contract}_${network.toUpperCase()}`] || fallback;
+};
+
+/**
+ * Build the contract addresses of a chain, applying environment overrides
+ * Mainnet uses the Safe singleton, L2s and testnets use SafeL2 which emits events for indexing
+ */
+const chainContracts = (network: string, useL2Singleton: boolean = true): ChainContracts => ({
+  safeTxPoolRegistry: envAddress('SAFE_TX_POOL_REGISTRY', network, ZERO_ADDRESS),
+  multiSendCallOnly: envAddress('MULTI_SEND_CALL_ONLY', network, MULTI_SEND_CALL_ONLY_V130),
+  simulateTxAccessor: envAddress('SIMULATE_TX_ACCESSOR', network, SIMULATE_TX_ACCESSOR_V130),
+  signMessageLib: envAddress('SIGN_MESSAGE_LIB', network, SIGN_MESSAGE_LIB_V130),
+  safeProxyFactory: envAddress('SAFE_PROXY_FACTORY', network, SAFE_PROXY_FACTORY_V141),
+  safeSingleton: envAddress('SAFE_SINGLETON', network, useL2Singleton ? SAFE_L2_SINGLETON_V141 : SAFE_SINGLETON_V141),
+  multicall3: envAddress('MULTICALL3', network, MULTICALL3)
+});
+
+/**
+ * Get the canonical Safe contract addresses used when a custom network does not override them
+ */
+export const getCanonicalSafeContracts = (): ChainContracts => ({
+  safeTxPoolRegistry: ZERO_ADDRESS,
+  multiSendCallOnly: MULTI_SEND_CALL_ONLY_V130,
+  simulateTxAccessor: SIMULATE_TX_ACCESSOR_V130,
+  signMessageLib: SIGN_MESSAGE_LIB_V130,
+  safeProxyFactory: SAFE_PROXY_FACTORY_V141,
+  safeSingleton: SAFE_L2_SINGLETON_V141,
+  multicall3: MULTICALL3
+});
+
+export const CHAIN_REGISTRY: Record<string, ChainConfig> = {
+  ethereum: {
+    network: 'ethereum',
+    chainId: 1,
+    name: 'Ethereum Mainnet',
+    shortName: 'Ethereum',
+    color: '#627EEA',
+    isTestnet: false,
+    nativeCurrency: ETH,
+    nativePriceFeed: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+    nativePriceFeedHeartbeat: 3600,
+    rpcUrl: 'https://ethereum-rpc.publicnode.com',
+    alchemySubdomain: 'eth-mainnet',
+    blockExplorer: 'https://etherscan.io',
+    explorerApiUrl: etherscanApiUrl(1),
+    blockscoutApiUrl: 'https://eth.blockscout.com/api',
+    safeTransactionServiceUrl: 'https://safe-transaction-mainnet.safe.global',
+    safeAppPrefix: 'eth',
+    ensSupported: true,
+    contracts: chainContracts('ethereum', false),
+    tokens: [
+      { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', name: 'USD Coin', decimals: 6, priceFeed: '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6' },
+      { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', name: 'Tether USD', decimals: 6, priceFeed: '0x3E7d1eAB13ad0104d2750B8863b489D65364e32D' },
+      { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18, priceFeed: '0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9', priceFeedHeartbeat: 3600 },
+      { address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', symbol: 'WETH', name: 'Wrapped Ether', decimals: 18, priceFeed: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419', priceFeedHeartbeat: 3600 },
+      { address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', symbol: 'WBTC', name: 'Wrapped BTC', decimals: 8, priceFeed: '0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c', priceFeedHeartbeat: 3600 },
+      { address: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984', symbol: 'UNI', name: 'Uniswap', decimals: 18, priceFeed: '0x553303d460EE0afB37EdFf9bE42922D8FF63220e', priceFeedHeartbeat: 3600 },
+      { address: '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9', symbol: 'AAVE', name: 'Aave Token', decimals: 18, priceFeed: '0x547a514d5e3769680Ce22B2361c10Ea13619e8a9', priceFeedHeartbeat: 3600 },
+      { address: '0x514910771AF9Ca656af840dff83E8264EcF986CA', symbol: 'LINK', name: 'ChainLink Token', decimals: 18, priceFeed: '0x2c1d072e956AFFC0D435Cb7AC38EF18d24d9127c', priceFeedHeartbeat: 3600 }
+    ]
+  },
+  sepolia: {
+    network: 'sepolia',
+    chainId: 11155111,
+    name: 'Sepolia Testnet',
+    shortName: 'Sepolia',
+    color: '#CFB5F0',
+    isTestnet: true,
+    nativeCurrency: ETH,
+    nativePriceFeed: '0x694AA1769357215DE4FAC081bf1f309aDC325306',
+    rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+    alchemySubdomain: 'eth-sepolia',
+    blockExplorer: 'https://sepolia.etherscan.io',
+    explorerApiUrl: etherscanApiUrl(11155111),
+    blockscoutApiUrl: 'https://eth-sepolia.blockscout.com/api',
+    safeTransactionServiceUrl: 'https://safe-transaction-sepolia.safe.global',
+    safeAppPrefix: 'sep',
+    ensSupported: true,
+    contracts: chainContracts('sepolia'),
+    tokens: [
+      { address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', symbol: 'USDC', name: 'USD Coin', decimals: 6, priceFeed: '0xA2F78ab2355fe2f984D808B5CeE7FD0A93D5270E' },
+      { address: '0x779877A7B0D9E8603169DdbD7836e478b4624789', symbol: 'LINK', name: 'ChainLink Token', decimals: 18, priceFeed: '0xc59E3633BAAC79493d908e63626716e204A45EdF' }
+    ]
+  },
+  arbitrum: {
+    network: 'arbitrum',
+    chainId: 42161,
+    name: 'Arbitrum One',
+    shortName: 'Arbitrum',
+    color: '#96BEDC',
+    isTestnet: false,
+    nativeCurrency: ETH,
+    nativePriceFeed: '0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612',
+    rpcUrl: 'https://arb1.arbitrum.io/rpc',
+    alchemySubdomain: 'arb-mainnet',
+    blockExplorer: 'https://arbiscan.io',
+    explorerApiUrl: etherscanApiUrl(42161),
+    blockscoutApiUrl: 'https://arbitrum.blockscout.com/api',
+    safeTransactionServiceUrl: 'https://safe-transaction-arbitrum.safe.global',
+    safeAppPrefix: 'arb1',
+    ensSupported: false,
+    contracts: chainContracts('arbitrum'),
+    tokens: [
+      { address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', symbol: 'USDC', name: 'USD Coin', decimals: 6, priceFeed: '0x50834F3163758fcC1Df9973b6e91f0F0F0434aD3' },
+      { address: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', symbol: 'USDC.e', name: 'Bridged USDC', decimals: 6, priceFeed: '0x50834F3163758fcC1Df9973b6e91f0F0F0434aD3' },
+      { address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', symbol: 'USDT', name: 'Tether USD', decimals: 6, priceFeed: '0x3f3f5dF88dC9F13eac63DF89EC16ef6e7E25DdE7' },
+      { address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18, priceFeed: '0xc5C8E77B397E531B8EC06BFb0048328B30E9eCfB' },
+      { address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', symbol: 'WETH', name: 'Wrapped Ether', decimals: 18, priceFeed: '0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612' },
+      { address: '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f', symbol: 'WBTC', name: 'Wrapped BTC', decimals: 8, priceFeed: '0x6ce185860a4963106506C203335A2910413708e9' }
+    ]
+  },
+  optimism: {
+    network: 'optimism',
+    chainId: 10,
+    name: 'OP Mainnet',
+    shortName: 'Optimism',
+    color: '#FF0420',
+    isTestnet: false,
+    nativeCurrency: ETH,
+    nativePriceFeed: '0x13e3Ee699D1909E989722E753853AE30b17e08c5',
+    rpcUrl: 'https://mainnet.optimism.io',
+    alchemySubdomain: 'opt-mainnet',
+    blockExplorer: 'https://optimistic.etherscan.io',
+    explorerApiUrl: etherscanApiUrl(10),
+    blockscoutApiUrl: 'https://optimism.blockscout.com/api',
+    safeTransactionServiceUrl: 'https://safe-transaction-optimism.safe.global',
+    safeAppPrefix: 'oeth',
+    ensSupported: false,
+    contracts: chainContracts('optimism'),
+    tokens: [
+      { address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', symbol: 'USDC', name: 'USD Coin', decimals: 6, priceFeed: '0x16a9FA2FDa030272Ce99B29CF780dFA30361E0f3' },
+      { address: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58', symbol: 'USDT', name: 'Tether USD', decimals: 6, priceFeed: '0xECef79E109e997bCA29c1c0897ec9d7b03647F5E' },
+      { address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18, priceFeed: '0x8dBa75e83DA73cc766A7e5a0ee71F656BAb470d6' },
+      { address: '0x4200000000000000000000000000000000000006', symbol: 'WETH', name: 'Wrapped Ether', decimals: 18, priceFeed: '0x13e3Ee699D1909E989722E753853AE30b17e08c5' },
+      { address: '0x4200000000000000000000000000000000000042', symbol: 'OP', name: 'Optimism', decimals: 18, priceFeed: '0x0D276FC14719f9292D5C1eA2198673d1f4269246' }
+    ]
+  },
+  base: {
+    network: 'base',
+    chainId: 8453,
+    name: 'Base',
+    shortName: 'Base',
+    color: '#0052FF',
+    isTestnet: false,
+    nativeCurrency: ETH,
+    nativePriceFeed: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70',
+    rpcUrl: 'https://mainnet.base.org',
+    alchemySubdomain: 'base-mainnet',
+    blockExplorer: 'https://basescan.org',
+    explorerApiUrl: etherscanApiUrl(8453),
+    blockscoutApiUrl: 'https://base.blockscout.com/api',
+    safeTransactionServiceUrl: 'https://safe-transaction-base.safe.global',
+    safeAppPrefix: 'base',
+    ensSupported: false,
+    contracts: chainContracts('base'),
+    tokens: [
+      { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', name: 'USD Coin', decimals: 6, priceFeed: '0x7e860098F58bBFC8648a4311b374B1D669a2bc6B' },
+      { address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb', symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18, priceFeed: '0x591e79239a7d679378eC8c847e5038150364C78F' },
+      { address: '0x4200000000000000000000000000000000000006', symbol: 'WETH', name: 'Wrapped Ether', decimals: 18, priceFeed: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70' }
+    ]
+  },
+  polygon: {
+    network: 'polygon',
+    chainId: 137,
+    name: 'Polygon PoS',
+    shortName: 'Polygon',
+    color: '#8247E5',
+    isTestnet: false,
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    nativePriceFeed: '0xAB594600376Ec9fD91F8e885dADF0CE036862dE0',
+    rpcUrl: 'https://polygon-bor-rpc.publicnode.com',
+    alchemySubdomain: 'polygon-mainnet',
+    blockExplorer: 'https://polygonscan.com',
+    explorerApiUrl: etherscanApiUrl(137),
+    blockscoutApiUrl: 'https://polygon.blockscout.com/api',
+    safeTransactionServiceUrl: 'https://safe-transaction-polygon.safe.global',
+    safeAppPrefix: 'matic',
+    ensSupported: false,
+    contracts: chainContracts('polygon'),
+    tokens: [
+      { address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', symbol: 'USDC', name: 'USD Coin', decimals: 6, priceFeed: '0xfE4A8cc5b5B2366C1B58Bea3858e81843581b2F7' },
+      { address: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', symbol: 'USDC.e', name: 'Bridged USDC', decimals: 6, priceFeed: '0xfE4A8cc5b5B2366C1B58Bea3858e81843581b2F7' },
+      { address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', symbol: 'USDT', name: 'Tether USD', decimals: 6, priceFeed: '0x0A6513e40db6EB1b165753AD52E80663aeA50545' },
+      { address: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063', symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18, priceFeed: '0x4746DeC9e833A82EC7C2C1356372CcF2cfcD2F3D' },
+      { address: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', symbol: 'WETH', name: 'Wrapped Ether', decimals: 18, priceFeed: '0xF9680D99D6C9589e2a93a78A04A279e509205945' },
+      { address: '0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6', symbol: 'WBTC', name: 'Wrapped BTC', decimals: 8, priceFeed: '0xDE31F8bFBD8c84b5360CFACCa3539B938dd78ae6' },
+      { address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', symbol: 'WPOL', name: 'Wrapped POL', decimals: 18, priceFeed: '0xAB594600376Ec9fD91F8e885dADF0CE036862dE0' }
+    ]
+  },
+  gnosis: {
+    network: 'gnosis',
+    chainId: 100,
+    name: 'Gnosis Chain',
+    shortName: 'Gnosis',
+    color: '#04795B',
+    isTestnet: false,
+    nativeCurrency: { name: 'xDAI', symbol: 'XDAI', decimals: 18 },
+    nativePriceFeed: '0x678df3415fc31947dA4324eC63212874be5a82f8',
+    rpcUrl: 'https://rpc.gnosischain.com',
+    alchemySubdomain: 'gnosis-mainnet',
+    blockExplorer: 'https://gnosisscan.io',
+    explorerApiUrl: etherscanApiUrl(100),
+    blockscoutApiUrl: 'https://gnosis.blockscout.com/api',
+    safeTransactionServiceUrl: 'https://safe-transaction-gnosis-chain.safe.global',
+    safeAppPrefix: 'gno',
+    ensSupported: false,
+    contracts: chainContracts('gnosis'),
+    tokens: [
+      { address: '0xDDAfbb505ad214D7b80b1f830fcCc89B60fb7A83', symbol: 'USDC', name: 'USD Coin', decimals: 6, priceFeed: '0x26C31ac71010aF62E6B486D1132E266D6298857D' },
+      { address: '0x4ECaBa5870353805a9F068101A40E0f32ed605C6', symbol: 'USDT', name: 'Tether USD', decimals: 6, priceFeed: '0x68811D7DF835B1c33e6EEae8E7C141eF48d48cc7' },
+      { address: '0x6A023CCd1ff6F2045C3309768eAd9E68F978f6e1', symbol: 'WETH', name: 'Wrapped Ether', decimals: 18, priceFeed: '0xa767f745331D267c7751297D982b050c93985627' },
+      { address: '0xe91D153E0b41518A2Ce8Dd3D7944Fa863463a97d', symbol: 'WXDAI', name: 'Wrapped XDAI', decimals: 18, priceFeed: '0x678df3415fc31947dA4324eC63212874be5a82f8' }
+    ]
+  }
+};
+
+// Network used when an unknown network name is requested
+export const DEFAULT_NETWORK = 'ethereum';
+
+/**
+ * Get the user-defined networks
+ * CustomNetworkService is loaded lazily to avoid circular dependencies
+ */
+const getCustomChains = (): Record<string, ChainConfig> => {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { customNetworkService } = require('../services/CustomNetworkService');
+    return customNetworkService.getChainConfigs();
+  } catch (error) {
+    console.warn('CustomNetworkService not available, using built-in chains only:', error);
+    return {};
+  }
+};
+
+/**
+ * Get the configuration of a network, or null if it is not supported
+ */
+export const getChainConfig = (network: string): ChainConfig | null => {
+  const key = network.toLowerCase() === 'mainnet' ? 'ethereum' : network.toLowerCase();
+  return CHAIN_REGISTRY[key] || getCustomChains()[key] || null;
+};
+
+/**
+ * Get the configuration of a network, falling back to the default network
+ */
+export const getChainConfigOrDefault = (network: string): ChainConfig => {
+  return getChainConfig(network) || CHAIN_REGISTRY[DEFAULT_NETWORK];
+};
+
+/**
+ * Find the network configuration for a chain ID
+ */
+export const getChainConfigByChainId = (chainId: number): ChainConfig | null => {
+  return getSupportedChains().find(chain => chain.chainId === chainId) || null;
+};
+
+/**
+ * List all supported networks: built-in mainnets, built-in testnets, then custom networks
+ */
+export const getSupportedChains = (): ChainConfig[] => {
+  const chains = Object.values(CHAIN_REGISTRY);
+  return [
+    ...chains.filter(chain => !chain.isTestnet),
+    ...chains.filter(chain => chain.isTestnet),
+    ...Object.values(getCustomChains())
+  ];
+};
+
+/**
+ * List the keys of all supported networks
+ */
+export const getSupportedNetworks = (): string[] => {
+  return getSupportedChains().map(chain => chain.network);
+};
+
+/**
+ * Check if an address is set (not empty or the zero address)
+ */
+export const isConfiguredAddress = (address: string | undefined | null): address is string => {
+  return Boolean(address && address !== ZERO_ADDRESS);
+};
+
+/**
+ * Get a contract address of a network, or null when not deployed / configured
+ */
+export const getChainContractAddress = (network: string, contract: keyof ChainContracts): string | null => {
+  const address = getChainConfig(network)?.contracts[contract];
+  return isConfiguredAddress(address) ? address : null;
+};
+
+/**
+ * Get the default RPC URL of a network
+ * Uses Alchemy when REACT_APP_ALCHEMY_KEY is configured and the network is supported by Alchemy
+ */
+export const getDefaultRpcUrl = (network: string): string => {
+  const chain = getChainConfigOrDefault(network);
+  const ALCHEMY_KEY = process.env.REACT_APP_ALCHEMY_KEY || 'YOUR_ALCHEMY_KEY';
+
+  if (chain.alchemySubdomain && ALCHEMY_KEY !== 'YOUR_ALCHEMY_KEY') {
+    return `https://${chain.alchemySubdomain}.g.alchemy.com/v2/${ALCHEMY_KEY}`;
+  }
+
+  return chain.rpcUrl;
+};
+
+/**
+ * Get the block explorer URL of a network
+ */
+export const getBlockExplorerUrl = (network: string): string => {
+  return getChainConfigOrDefault(network).blockExplorer;
+};
@@ -2,6 +2,8 @@
  * WalletConnect v2 Configuration
  */
 
+import { getDefaultRpcUrl, getSupportedChains } from './chains';
+
 // For development, you can use a demo project ID
 // For production, get your own project ID from https://cloud.walletconnect.com/
 export const WALLETCONNECT_PROJECT_ID = process.env.REACT_APP_WALLETCONNECT_PROJECT_ID || 'demo-project-id-for-development';
@@ -20,37 +22,21 @@ const getConfiguredRpcUrl = (network: string): string => {
     const { rpcConfigService } = require('../services/RpcConfigService');
     return rpcConfigService.getRpcUrl(network);
   } catch (error) {
-    // Fallback to default URLs
-    switch (network) {
-      case 'ethereum':
-        return 'https://mainnet.infura.io/v3/YOUR_INFURA_KEY';
-      case 'sepolia':
-        return 'https://sepolia.infura.io/v3/YOUR_INFURA_KEY';
-      case 'arbitrum':
-        return 'https://arb1.arbitrum.io/rpc';
-      default:
-        return 'https://mainnet.infura.io/v3/YOUR_INFURA_KEY';
-    }
+    // Fallback to the chain registry default
+    return getDefaultRpcUrl(network);
   }
 };
 
-export const SUPPORTED_CHAINS = {
-  ethereum: {
-    chainId: 1,
-    name: 'Ethereum',
-    rpcUrl: getConfiguredRpcUrl('ethereum')
-  },
-  sepolia: {
-    chainId: 11155111,
-    name: 'Sepolia',
-    rpcUrl: getConfiguredRpcUrl('sepolia')
-  },
-  arbitrum: {
-    chainId: 42161,
-    name: 'Arbitrum One',
-    rpcUrl: getConfiguredRpcUrl('arbitrum')
-  }
-};
+export const SUPPORTED_CHAINS = Object.fromEntries(
+  getSupportedChains().map(chain => [
+    chain.network,
+    {
+      chainId: chain.chainId,
+      name: chain.name,
+      rpcUrl: getConfiguredRpcUrl(chain.network)
+    }
+  ])
+);
 
 export const WALLETCONNECT_REQUIRED_NAMESPACES = {
   eip155: {
@@ -62,11 +48,7 @@ export const WALLETCONNECT_REQUIRED_NAMESPACES = {
       'eth_signTypedData',
       'eth_signTypedData_v4'
     ],
-    chains: [
-      'eip155:1',      // Ethereum
-      'eip155:11155111', // Sepolia
-      'eip155:42161'   // Arbitrum
-    ],
+    chains: getSupportedChains().map(chain => `eip155:${chain.chainId}`),
     events: ['accountsChanged', 'chainChanged']
   }
 };
@@ -6,6 +6,7 @@
  */
 
 import { WEB3AUTH_NETWORK } from "@web3auth/base";
+import { ChainConfig, getChainConfig, getDefaultRpcUrl, getSupportedChains } from "./chains";
 
 // Web3Auth Client ID - Get this from Web3Auth Dashboard
 // Create a project at https://dashboard.web3auth.io/
@@ -24,67 +25,26 @@ const getConfiguredRpcUrl = (network: string): string => {
     const { rpcConfigService } = require('../services/RpcConfigService');
     return rpcConfigService.getRpcUrl(network);
   } catch (error) {
-    // Fallback to default logic if service is not available
-    const INFURA_KEY = process.env.REACT_APP_INFURA_KEY;
-
-    if (!INFURA_KEY || INFURA_KEY === 'YOUR_INFURA_KEY') {
-      // Fallback to public RPC endpoints if Infura key not configured
-      switch (network) {
-        case 'ethereum':
-          return 'https://ethereum.publicnode.com';
-        case 'sepolia':
-          return 'https://ethereum-sepolia.publicnode.com';
-        case 'arbitrum':
-          return 'https://arb1.arbitrum.io/rpc';
-        default:
-          return 'https://ethereum-sepolia.publicnode.com';
-      }
-    }
-
-    // Use Infura with the configured key
-    switch (network) {
-      case 'ethereum':
-        return `https://mainnet.infura.io/v3/${INFURA_KEY}`;
-      case 'sepolia':
-        return `https://sepolia.infura.io/v3/${INFURA_KEY}`;
-      case 'arbitrum':
-        return 'https://arb1.arbitrum.io/rpc'; // Arbitrum doesn't use Infura
-      default:
-        return `https://sepolia.infura.io/v3/${INFURA_KEY}`;
-    }
+    // Fallback to the chain registry default if service is not available
+    return getDefaultRpcUrl(network);
   }
 };
 
+// Build the Web3Auth chain config of a registry network
+const toWeb3AuthChainConfig = (chain: ChainConfig) => ({
+  chainNamespace: "eip155",
+  chainId: `0x${chain.chainId.toString(16)}`,
+  rpcTarget: getConfiguredRpcUrl(chain.network),
+  displayName: chain.name,
+  blockExplorer: chain.blockExplorer,
+  ticker: chain.nativeCurrency.symbol,
+  tickerName: chain.nativeCurrency.name,
+});
+
 // Supported chains configuration for Web3Auth
-export const SUPPORTED_CHAINS = {
-  ethereum: {
-    chainNamespace: "eip155",
-    chainId: "0x1", // Ethereum Mainnet
-    rpcTarget: getConfiguredRpcUrl('ethereum'),
-    displayName: "Ethereum Mainnet",
-    blockExplorer: "https://etherscan.io",
-    ticker: "ETH",
-    tickerName: "Ethereum",
-  },
-  sepolia: {
-    chainNamespace: "eip155",
-    chainId: "0xaa36a7", // Sepolia Testnet
-    rpcTarget: getConfiguredRpcUrl('sepolia'),
-    displayName: "Sepolia Testnet",
-    blockExplorer: "https://sepolia.etherscan.io",
-    ticker: "ETH",
-    tickerName: "Ethereum",
-  },
-  arbitrum: {
-    chainNamespace: "eip155",
-    chainId: "0xa4b1", // Arbitrum One
-    rpcTarget: getConfiguredRpcUrl('arbitrum'),
-    displayName: "Arbitrum One",
-    blockExplorer: "https://arbiscan.io",
-    ticker: "ETH",
-    tickerName: "Ethereum",
-  }
-};
+export const SUPPORTED_CHAINS = Object.fromEntries(
+  getSupportedChains().map(chain => [chain.network, toWeb3AuthChainConfig(chain)])
+);
 
 // Web3Auth Configuration
 export const WEB3AUTH_CONFIG = {
@@ -96,15 +56,6 @@ export const WEB3AUTH_CONFIG = {
 
 // Helper function to get chain config by network name
 export const getChainConfigByNetwork = (network: string) => {
-  switch (network.toLowerCase()) {
-    case 'ethereum':
-    case 'mainnet':
-      return SUPPORTED_CHAINS.ethereum;
-    case 'sepolia':
-      return SUPPORTED_CHAINS.sepolia;
-    case 'arbitrum':
-      return SUPPORTED_CHAINS.arbitrum;
-    default:
-      return SUPPORTED_CHAINS.sepolia; // Default fallback
-  }
+  const chain = getChainConfig(network); // Looked up at call time so custom networks added later are included
+  return chain ? toWeb3AuthChainConfig(chain) : SUPPORTED_CHAINS.sepolia; // Default fallback to Sepolia
 };
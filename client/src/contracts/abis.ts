@@ -1,3 +1,5 @@
+import { getChainContractAddress, getDefaultRpcUrl } from '../config/chains';
+
 // Contract ABIs for interacting with smart contracts
 
 // SafeTxPoolRegistry contract ABI - Main coordinator contract (updated architecture)
@@ -392,6 +394,15 @@ export const SAFE_TX_POOL_REGISTRY_EXTENDED_ABI = [
       {"name": "txId", "type": "uint256", "indexed": false}
     ]
   },
+  {
+    "type": "event",
+    "name": "TransactionDeleted",
+    "inputs": [
+      {"name": "txHash", "type": "bytes32", "indexed": true},
+      {"name": "safe", "type": "address", "indexed": true},
+      {"name": "txId", "type": "uint256", "indexed": false}
+    ]
+  },
   // Address Book functions
   {
     "type": "function",
@@ -1643,6 +1654,16 @@ export const ERC20_ABI = [
     "outputs": [{"name": "balance", "type": "uint256"}],
     "type": "function"
   },
+  {
+    "constant": true,
+    "inputs": [
+      {"name": "_owner", "type": "address"},
+      {"name": "_spender", "type": "address"}
+    ],
+    "name": "allowance",
+    "outputs": [{"name": "", "type": "uint256"}],
+    "type": "function"
+  },
   // Write functions
   {
     "constant": false,
@@ -1654,6 +1675,16 @@ export const ERC20_ABI = [
     "outputs": [{"name": "", "type": "bool"}],
     "type": "function"
   },
+  {
+    "constant": false,
+    "inputs": [
+      {"name": "_spender", "type": "address"},
+      {"name": "_value", "type": "uint256"}
+    ],
+    "name": "approve",
+    "outputs": [{"name": "", "type": "bool"}],
+    "type": "function"
+  },
   // Events
   {
     "anonymous": false,
@@ -1664,107 +1695,588 @@ export const ERC20_ABI = [
     ],
     "name": "Transfer",
     "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "name": "owner", "type": "address"},
+      {"indexed": true, "name": "spender", "type": "address"},
+      {"indexed": false, "name": "value", "type": "uint256"}
+    ],
+    "name": "Approval",
+    "type": "event"
   }
 ];
 
-// Common token addresses for different networks
-export const TOKEN_ADDRESSES = {
-  ethereum: {
-    USDC: '0xA0b86a33E6441b8C4505B4afDcA7aBB2B6e1B4B4',
-    USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
-    DAI: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
-    WETH: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
-  },
-  sepolia: {
-    USDC: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
-    LINK: '0x779877A7B0D9E8603169DdbD7836e478b4624789'
-  },
-  arbitrum: {
-    USDC: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8',
-    USDT: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
-    DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
-    WETH: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1'
+// ERC-721 ABI (reads, transfers and events used for NFT discovery)
+export const ERC721_ABI = [
+  {
+    "inputs": [],
+    "name": "name",
+    "outputs": [{"name": "", "type": "string"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "symbol",
+    "outputs": [{"name": "", "type": "string"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"name": "tokenId", "type": "uint256"}],
+    "name": "ownerOf",
+    "outputs": [{"name": "", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"name": "tokenId", "type": "uint256"}],
+    "name": "tokenURI",
+    "outputs": [{"name": "", "type": "string"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"name": "interfaceId", "type": "bytes4"}],
+    "name": "supportsInterface",
+    "outputs": [{"name": "", "type": "bool"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"name": "from", "type": "address"},
+      {"name": "to", "type": "address"},
+      {"name": "tokenId", "type": "uint256"}
+    ],
+    "name": "transferFrom",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"name": "from", "type": "address"},
+      {"name": "to", "type": "address"},
+      {"name": "tokenId", "type": "uint256"}
+    ],
+    "name": "safeTransferFrom",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"name": "from", "type": "address"},
+      {"name": "to", "type": "address"},
+      {"name": "tokenId", "type": "uint256"},
+      {"name": "data", "type": "bytes"}
+    ],
+    "name": "safeTransferFrom",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "name": "from", "type": "address"},
+      {"indexed": true, "name": "to", "type": "address"},
+      {"indexed": true, "name": "tokenId", "type": "uint256"}
+    ],
+    "name": "Transfer",
+    "type": "event"
   }
-};
+];
 
-// SafeTxPoolRegistry contract addresses for different networks
-// These addresses should be updated with the actual deployed registry contract addresses
-export const SAFE_TX_POOL_REGISTRY_ADDRESSES = {
-  ethereum: process.env.REACT_APP_SAFE_TX_POOL_REGISTRY_ETHEREUM || '0x0000000000000000000000000000000000000000',
-  sepolia: process.env.REACT_APP_SAFE_TX_POOL_REGISTRY_SEPOLIA || '0x0000000000000000000000000000000000000000',
-  arbitrum: process.env.REACT_APP_SAFE_TX_POOL_REGISTRY_ARBITRUM || '0x0000000000000000000000000000000000000000'
-};
+// ERC-1155 ABI (reads, transfers and events used for NFT discovery)
+export const ERC1155_ABI = [
+  {
+    "inputs": [
+      {"name": "account", "type": "address"},
+      {"name": "id", "type": "uint256"}
+    ],
+    "name": "balanceOf",
+    "outputs": [{"name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"name": "id", "type": "uint256"}],
+    "name": "uri",
+    "outputs": [{"name": "", "type": "string"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"name": "from", "type": "address"},
+      {"name": "to", "type": "address"},
+      {"name": "id", "type": "uint256"},
+      {"name": "amount", "type": "uint256"},
+      {"name": "data", "type": "bytes"}
+    ],
+    "name": "safeTransferFrom",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"name": "from", "type": "address"},
+      {"name": "to", "type": "address"},
+      {"name": "ids", "type": "uint256[]"},
+      {"name": "amounts", "type": "uint256[]"},
+      {"name": "data", "type": "bytes"}
+    ],
+    "name": "safeBatchTransferFrom",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "name": "operator", "type": "address"},
+      {"indexed": true, "name": "from", "type": "address"},
+      {"indexed": true, "name": "to", "type": "address"},
+      {"indexed": false, "name": "id", "type": "uint256"},
+      {"indexed": false, "name": "value", "type": "uint256"}
+    ],
+    "name": "TransferSingle",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "name": "operator", "type": "address"},
+      {"indexed": true, "name": "from", "type": "address"},
+      {"indexed": true, "name": "to", "type": "address"},
+      {"indexed": false, "name": "ids", "type": "uint256[]"},
+      {"indexed": false, "name": "values", "type": "uint256[]"}
+    ],
+    "name": "TransferBatch",
+    "type": "event"
+  }
+];
+
+// MultiSendCallOnly library ABI (Safe v1.3.0+)
+// Must be invoked via delegatecall from the Safe; every packed sub-call is executed as a CALL
+export const MULTI_SEND_CALL_ONLY_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "bytes",
+        "name": "transactions",
+        "type": "bytes"
+      }
+    ],
+    "name": "multiSend",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  }
+];
+
+// EIP-1271 signature validator ABI (bytes32 variant and the legacy bytes variant used by Safe v1.3.0)
+export const EIP1271_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "_hash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "_signature",
+        "type": "bytes"
+      }
+    ],
+    "name": "isValidSignature",
+    "outputs": [
+      {
+        "internalType": "bytes4",
+        "name": "",
+        "type": "bytes4"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes",
+        "name": "_data",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "_signature",
+        "type": "bytes"
+      }
+    ],
+    "name": "isValidSignature",
+    "outputs": [
+      {
+        "internalType": "bytes4",
+        "name": "",
+        "type": "bytes4"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+];
+
+// SimulateTxAccessor ABI (Safe v1.3.0+)
+// Executed by the Safe through simulateAndRevert, which reverts with the encoded simulate() result
+export const SIMULATE_TX_ACCESSOR_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "data",
+        "type": "bytes"
+      },
+      {
+        "internalType": "enum Enum.Operation",
+        "name": "operation",
+        "type": "uint8"
+      }
+    ],
+    "name": "simulate",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "estimate",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bool",
+        "name": "success",
+        "type": "bool"
+      },
+      {
+        "internalType": "bytes",
+        "name": "returnData",
+        "type": "bytes"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+];
+
+// SignMessageLib ABI (Safe v1.3.0)
+// Executed by the Safe through delegatecall to mark a message as signed on-chain
+export const SIGN_MESSAGE_LIB_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "bytes",
+        "name": "_data",
+        "type": "bytes"
+      }
+    ],
+    "name": "signMessage",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes",
+        "name": "message",
+        "type": "bytes"
+      }
+    ],
+    "name": "getMessageHash",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+];
+
+// SafeProxyFactory ABI (Safe v1.4.1)
+// Used to deploy new Safe proxies with a deterministic CREATE2 address
+export const SAFE_PROXY_FACTORY_ABI = [
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "contract SafeProxy",
+        "name": "proxy",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "singleton",
+        "type": "address"
+      }
+    ],
+    "name": "ProxyCreation",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_singleton",
+        "type": "address"
+      },
+      {
+        "internalType": "bytes",
+        "name": "initializer",
+        "type": "bytes"
+      },
+      {
+        "internalType": "uint256",
+        "name": "saltNonce",
+        "type": "uint256"
+      }
+    ],
+    "name": "createProxyWithNonce",
+    "outputs": [
+      {
+        "internalType": "contract SafeProxy",
+        "name": "proxy",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "proxyCreationCode",
+    "outputs": [
+      {
+        "internalType": "bytes",
+        "name": "",
+        "type": "bytes"
+      }
+    ],
+    "stateMutability": "pure",
+    "type": "function"
+  }
+];
+
+// Multicall3 ABI
+// Batches read calls into a single eth_call, aggregate3 lets individual calls fail
+export const MULTICALL3_ABI = [
+  {
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "target",
+            "type": "address"
+          },
+          {
+            "internalType": "bool",
+            "name": "allowFailure",
+            "type": "bool"
+          },
+          {
+            "internalType": "bytes",
+            "name": "callData",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct Multicall3.Call3[]",
+        "name": "calls",
+        "type": "tuple[]"
+      }
+    ],
+    "name": "aggregate3",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "bool",
+            "name": "success",
+            "type": "bool"
+          },
+          {
+            "internalType": "bytes",
+            "name": "returnData",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct Multicall3.Result[]",
+        "name": "returnData",
+        "type": "tuple[]"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "addr",
+        "type": "address"
+      }
+    ],
+    "name": "getEthBalance",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "balance",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+];
+
+// Chainlink aggregator ABI (AggregatorV3Interface)
+// Read by the price service for on-chain USD prices
+export const CHAINLINK_AGGREGATOR_ABI = [
+  {
+    "inputs": [],
+    "name": "decimals",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "description",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "latestRoundData",
+    "outputs": [
+      {
+        "internalType": "uint80",
+        "name": "roundId",
+        "type": "uint80"
+      },
+      {
+        "internalType": "int256",
+        "name": "answer",
+        "type": "int256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "startedAt",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "updatedAt",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint80",
+        "name": "answeredInRound",
+        "type": "uint80"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+];
+
+// SafeTxPoolRegistry contract addresses come from the chain registry
+// Set REACT_APP_SAFE_TX_POOL_REGISTRY_<NETWORK> to the deployed registry contract address
 
 // Utility function to check if a Safe TX Pool Registry address is configured
 export const isSafeTxPoolRegistryConfigured = (network: string): boolean => {
-  const address = SAFE_TX_POOL_REGISTRY_ADDRESSES[network as keyof typeof SAFE_TX_POOL_REGISTRY_ADDRESSES];
-  return Boolean(address && address !== '0x0000000000000000000000000000000000000000');
+  return getChainContractAddress(network, 'safeTxPoolRegistry') !== null;
 };
 
 // Utility function to get Safe TX Pool Registry address with validation
 export const getSafeTxPoolRegistryAddress = (network: string): string | null => {
-  const address = SAFE_TX_POOL_REGISTRY_ADDRESSES[network as keyof typeof SAFE_TX_POOL_REGISTRY_ADDRESSES];
-  return isSafeTxPoolRegistryConfigured(network) ? address : null;
+  return getChainContractAddress(network, 'safeTxPoolRegistry');
 };
 
-// Network configurations
-export const NETWORK_CONFIGS = {
-  ethereum: {
-    chainId: 1,
-    name: 'Ethereum Mainnet',
-    rpcUrl: 'https://mainnet.infura.io/v3/',
-    blockExplorer: 'https://etherscan.io',
-    safeTxPoolRegistryAddress: SAFE_TX_POOL_REGISTRY_ADDRESSES.ethereum,
-    isTestnet: false
-  },
-  sepolia: {
-    chainId: 11155111,
-    name: 'Sepolia Testnet',
-    rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
-    blockExplorer: 'https://sepolia.etherscan.io',
-    safeTxPoolRegistryAddress: SAFE_TX_POOL_REGISTRY_ADDRESSES.sepolia,
-    isTestnet: true
-  },
-  arbitrum: {
-    chainId: 42161,
-    name: 'Arbitrum One',
-    rpcUrl: 'https://arb1.arbitrum.io/rpc',
-    blockExplorer: 'https://arbiscan.io',
-    safeTxPoolRegistryAddress: SAFE_TX_POOL_REGISTRY_ADDRESSES.arbitrum,
-    isTestnet: false
-  }
+// Utility function to get MultiSendCallOnly address for a network
+export const getMultiSendCallOnlyAddress = (network: string): string | null => {
+  return getChainContractAddress(network, 'multiSendCallOnly');
+};
+
+// Utility function to get SimulateTxAccessor address for a network
+export const getSimulateTxAccessorAddress = (network: string): string | null => {
+  return getChainContractAddress(network, 'simulateTxAccessor');
+};
+
+// Utility function to get SignMessageLib address for a network
+export const getSignMessageLibAddress = (network: string): string | null => {
+  return getChainContractAddress(network, 'signMessageLib');
+};
+
+// Utility function to get SafeProxyFactory address for a network
+export const getSafeProxyFactoryAddress = (network: string): string | null => {
+  return getChainContractAddress(network, 'safeProxyFactory');
+};
+
+// Utility function to get Safe singleton address for a network
+export const getSafeSingletonAddress = (network: string): string | null => {
+  return getChainContractAddress(network, 'safeSingleton');
+};
+
+// Utility function to get Multicall3 address for a network
+export const getMulticall3Address = (network: string): string | null => {
+  return getChainContractAddress(network, 'multicall3');
 };
 
 /**
  * Get default RPC URL for a specific network with environment variable support
  * This function provides the default/fallback RPC URLs and is used by RpcConfigService
- * @param network The network name (ethereum, sepolia, arbitrum)
+ * @param network The network name (see config/chains.ts)
  * @returns Default RPC URL for the network
  */
 export const getRpcUrl = (network: string): string => {
-  const ALCHEMY_KEY = process.env.REACT_APP_ALCHEMY_KEY || 'YOUR_ALCHEMY_KEY';
-
-  switch(network.toLowerCase()) {
-    case 'arbitrum':
-      return 'https://arb1.arbitrum.io/rpc';
-    case 'sepolia':
-      // Use Alchemy if available, otherwise use public RPC
-      return ALCHEMY_KEY !== 'YOUR_ALCHEMY_KEY'
-        ? `https://eth-sepolia.g.alchemy.com/v2/${ALCHEMY_KEY}`
-        : 'https://ethereum-sepolia-rpc.publicnode.com';
-    case 'ethereum':
-    default:
-      // Use Alchemy if available, otherwise use public RPC
-      return ALCHEMY_KEY !== 'YOUR_ALCHEMY_KEY'
-        ? `https://eth-mainnet.g.alchemy.com/v2/${ALCHEMY_KEY}`
-        : 'https://ethereum-rpc.publicnode.com';
-  }
+  return getDefaultRpcUrl(network);
 };
 
 /**
  * Get RPC URL for a specific network (custom or default)
  * This function checks for custom RPC URLs first, then falls back to defaults
- * @param network The network name (ethereum, sepolia, arbitrum)
+ * @param network The network name (see config/chains.ts)
  * @returns RPC URL for the network (custom if configured, otherwise default)
  */
 export const getConfiguredRpcUrl = (network: string): string => {
@@ -0,0 +1,215 @@
+/**
+ * Offline function and event signature dictionary
+ *
+ * Loaded lazily by SignatureDictionaryService, keep imports of this module dynamic.
+ * Signatures are stored in a compact form to keep the bundle small:
+ * - one signature per line, selectors and topics are derived with keccak256 when loaded
+ * - single-letter parameter types are aliases, see SIGNATURE_TYPE_ALIASES
+ * - parameter names are optional and only used for display
+ * Entries sharing a selector or topic are allowed, the decoder keeps the one that decodes cleanly.
+ * More common signatures come first and win when several candidates decode cleanly.
+ */
+
+export const SIGNATURE_TYPE_ALIASES: Record<string, string> = {
+  a: 'address',
+  b: 'bool',
+  h: 'bytes32',
+  i: 'int256',
+  s: 'string',
+  u: 'uint256',
+  y: 'uint8',
+  B: 'bytes'
+};
+
+export const FUNCTION_SIGNATURES = `
+transfer(a to,u amount)
+transferFrom(a from,a to,u amount)
+approve(a spender,u amount)
+increaseAllowance(a spender,u addedValue)
+decreaseAllowance(a spender,u subtractedValue)
+permit(a owner,a spender,u value,u deadline,y v,h r,h s)
+mint(a to,u amount)
+burn(u amount)
+burnFrom(a account,u amount)
+balanceOf(a account)
+allowance(a owner,a spender)
+totalSupply()
+deposit()
+withdraw(u wad)
+safeTransferFrom(a from,a to,u tokenId)
+safeTransferFrom(a from,a to,u tokenId,B data)
+setApprovalForAll(a operator,b approved)
+ownerOf(u tokenId)
+getApproved(u tokenId)
+safeTransferFrom(a from,a to,u id,u amount,B data)
+safeBatchTransferFrom(a from,a to,u[] ids,u[] amounts,B data)
+execTransaction(a to,u value,B data,y operation,u safeTxGas,u baseGas,u gasPrice,a gasToken,a refundReceiver,B signatures)
+execTransactionFromModule(a to,u value,B data,y operation)
+addOwnerWithThreshold(a owner,u _threshold)
+removeOwner(a prevOwner,a owner,u _threshold)
+swapOwner(a prevOwner,a oldOwner,a newOwner)
+changeThreshold(u _threshold)
+enableModule(a module)
+disableModule(a prevModule,a module)
+setGuard(a guard)
+setFallbackHandler(a handler)
+approveHash(h hashToApprove)
+setup(a[] _owners,u _threshold,a to,B data,a fallbackHandler,a paymentToken,u payment,a paymentReceiver)
+multiSend(B transactions)
+createProxyWithNonce(a _singleton,B initializer,u saltNonce)
+simulateAndRevert(a targetContract,B calldataPayload)
+proposeTx(h txHash,a safe,a to,u value,B data,y operation,u nonce)
+signTx(h txHash,B signature)
+markAsExecuted(h txHash)
+deleteTx(h txHash)
+addAddressBookEntry(a safe,a walletAddress,h name)
+removeAddressBookEntry(a safe,a walletAddress)
+addTrustedContract(a safe,a contractAddress,h name)
+removeTrustedContract(a safe,a contractAddress)
+swapExactTokensForTokens(u amountIn,u amountOutMin,a[] path,a to,u deadline)
+swapTokensForExactTokens(u amountOut,u amountInMax,a[] path,a to,u deadline)
+swapExactETHForTokens(u amountOutMin,a[] path,a to,u deadline)
+swapETHForExactTokens(u amountOut,a[] path,a to,u deadline)
+swapExactTokensForETH(u amountIn,u amountOutMin,a[] path,a to,u deadline)
+swapTokensForExactETH(u amountOut,u amountInMax,a[] path,a to,u deadline)
+swapExactTokensForTokensSupportingFeeOnTransferTokens(u amountIn,u amountOutMin,a[] path,a to,u deadline)
+swapExactETHForTokensSupportingFeeOnTransferTokens(u amountOutMin,a[] path,a to,u deadline)
+swapExactTokensForETHSupportingFeeOnTransferTokens(u amountIn,u amountOutMin,a[] path,a to,u deadline)
+addLiquidity(a tokenA,a tokenB,u amountADesired,u amountBDesired,u amountAMin,u amountBMin,a to,u deadline)
+addLiquidityETH(a token,u amountTokenDesired,u amountTokenMin,u amountETHMin,a to,u deadline)
+removeLiquidity(a tokenA,a tokenB,u liquidity,u amountAMin,u amountBMin,a to,u deadline)
+removeLiquidityETH(a token,u liquidity,u amountTokenMin,u amountETHMin,a to,u deadline)
+exactInputSingle((a tokenIn,a tokenOut,uint24 fee,a recipient,u deadline,u amountIn,u amountOutMinimum,uint160 sqrtPriceLimitX96) params)
+exactInput((B path,a recipient,u deadline,u amountIn,u amountOutMinimum) params)
+exactOutputSingle((a tokenIn,a tokenOut,uint24 fee,a recipient,u deadline,u amountOut,u amountInMaximum,uint160 sqrtPriceLimitX96) params)
+exactOutput((B path,a recipient,u deadline,u amountOut,u amountInMaximum) params)
+exactInputSingle((a tokenIn,a tokenOut,uint24 fee,a recipient,u amountIn,u amountOutMinimum,uint160 sqrtPriceLimitX96) params)
+exactInput((B path,a recipient,u amountIn,u amountOutMinimum) params)
+multicall(B[] data)
+multicall(u deadline,B[] data)
+execute(B commands,B[] inputs,u deadline)
+execute(B commands,B[] inputs)
+unwrapWETH9(u amountMinimum,a recipient)
+refundETH()
+sweepToken(a token,u amountMinimum,a recipient)
+aggregate((a target,B callData)[] calls)
+aggregate3((a target,b allowFailure,B callData)[] calls)
+aggregate3Value((a target,b allowFailure,u value,B callData)[] calls)
+tryAggregate(b requireSuccess,(a target,B callData)[] calls)
+approve(a token,a spender,uint160 amount,uint48 expiration)
+lockdown((a token,a spender)[] approvals)
+invalidateNonces(a token,a spender,uint48 newNonce)
+supply(a asset,u amount,a onBehalfOf,uint16 referralCode)
+deposit(a asset,u amount,a onBehalfOf,uint16 referralCode)
+withdraw(a asset,u amount,a to)
+borrow(a asset,u amount,u interestRateMode,uint16 referralCode,a onBehalfOf)
+repay(a asset,u amount,u interestRateMode,a onBehalfOf)
+setUserUseReserveAsCollateral(a asset,b useAsCollateral)
+mint(u mintAmount)
+redeem(u redeemTokens)
+redeemUnderlying(u redeemAmount)
+borrow(u borrowAmount)
+repayBorrow(u repayAmount)
+enterMarkets(a[] cTokens)
+deposit(u assets,a receiver)
+mint(u shares,a receiver)
+withdraw(u assets,a receiver,a owner)
+redeem(u shares,a receiver,a owner)
+submit(a _referral)
+requestWithdrawals(u[] _amounts,a _owner)
+stake(u amount)
+getReward()
+exit()
+transferOwnership(a newOwner)
+renounceOwnership()
+acceptOwnership()
+grantRole(h role,a account)
+revokeRole(h role,a account)
+renounceRole(h role,a account)
+pause()
+unpause()
+upgradeTo(a newImplementation)
+upgradeToAndCall(a newImplementation,B data)
+changeAdmin(a newAdmin)
+upgrade(a proxy,a implementation)
+upgradeAndCall(a proxy,a implementation,B data)
+propose(a[] targets,u[] values,B[] calldatas,s description)
+queue(a[] targets,u[] values,B[] calldatas,h descriptionHash)
+execute(a[] targets,u[] values,B[] calldatas,h descriptionHash)
+castVote(u proposalId,y support)
+castVoteWithReason(u proposalId,y support,s reason)
+vote(u proposalId,b support)
+delegate(a delegatee)
+schedule(a target,u value,B data,h predecessor,h salt,u delay)
+execute(a target,u value,B payload,h predecessor,h salt)
+cancel(h id)
+setName(s name)
+setAddr(h node,a addr)
+setText(h node,s key,s value)
+setResolver(h node,a resolver)
+setPreSignature(B orderUid,b signed)
+invalidateOrder(B orderUid)
+claim(u index,a account,u amount,h[] merkleProof)
+`;
+
+export const EVENT_SIGNATURES = `
+Transfer(a indexed from,a indexed to,u value)
+Transfer(a indexed from,a indexed to,u indexed tokenId)
+Approval(a indexed owner,a indexed spender,u value)
+Approval(a indexed owner,a indexed approved,u indexed tokenId)
+ApprovalForAll(a indexed owner,a indexed operator,b approved)
+TransferSingle(a indexed operator,a indexed from,a indexed to,u id,u value)
+TransferBatch(a indexed operator,a indexed from,a indexed to,u[] ids,u[] values)
+URI(s value,u indexed id)
+Deposit(a indexed dst,u wad)
+Withdrawal(a indexed src,u wad)
+ExecutionSuccess(h txHash,u payment)
+ExecutionFailure(h txHash,u payment)
+ExecutionFromModuleSuccess(a indexed module)
+ExecutionFromModuleFailure(a indexed module)
+AddedOwner(a indexed owner)
+AddedOwner(a owner)
+RemovedOwner(a indexed owner)
+RemovedOwner(a owner)
+ChangedThreshold(u threshold)
+EnabledModule(a indexed module)
+EnabledModule(a module)
+DisabledModule(a indexed module)
+DisabledModule(a module)
+ChangedGuard(a indexed guard)
+ChangedFallbackHandler(a indexed handler)
+SafeReceived(a indexed sender,u value)
+ApproveHash(h indexed approvedHash,a indexed owner)
+SafeSetup(a indexed initiator,a[] owners,u threshold,a initializer,a fallbackHandler)
+ProxyCreation(a indexed proxy,a singleton)
+ProxyCreation(a proxy,a singleton)
+OwnershipTransferred(a indexed previousOwner,a indexed newOwner)
+RoleGranted(h indexed role,a indexed account,a indexed sender)
+RoleRevoked(h indexed role,a indexed account,a indexed sender)
+Paused(a account)
+Unpaused(a account)
+Upgraded(a indexed implementation)
+AdminChanged(a previousAdmin,a newAdmin)
+Initialized(y version)
+Initialized(uint64 version)
+Swap(a indexed sender,u amount0In,u amount1In,u amount0Out,u amount1Out,a indexed to)
+Sync(uint112 reserve0,uint112 reserve1)
+Mint(a indexed sender,u amount0,u amount1)
+Burn(a indexed sender,u amount0,u amount1,a indexed to)
+Swap(a indexed sender,a indexed recipient,i amount0,i amount1,uint160 sqrtPriceX96,uint128 liquidity,int24 tick)
+Deposit(a indexed sender,a indexed owner,u assets,u shares)
+Withdraw(a indexed sender,a indexed receiver,a indexed owner,u assets,u shares)
+Supply(a indexed reserve,a user,a indexed onBehalfOf,u amount,uint16 indexed referralCode)
+Withdraw(a indexed reserve,a indexed user,a indexed to,u amount)
+DelegateChanged(a indexed delegator,a indexed fromDelegate,a indexed toDelegate)
+DelegateVotesChanged(a indexed delegate,u previousVotes,u newVotes)
+VoteCast(a indexed voter,u proposalId,y support,u weight,s reason)
+ProposalCreated(u proposalId,a proposer,a[] targets,u[] values,s[] signatures,B[] calldatas,u voteStart,u voteEnd,s description)
+ProposalExecuted(u proposalId)
+CallScheduled(h indexed id,u indexed index,a target,u value,B data,h predecessor,u delay)
+CallExecuted(h indexed id,u indexed index,a target,u value,B data)
+PreSignature(a indexed owner,B orderUid,b signed)
+TransactionProposed(h indexed txHash,a indexed proposer,a indexed safe,a to,u value,B data,y operation,u nonce,u txId)
+TransactionSigned(h indexed txHash,a indexed signer,B signature,u txId)
+TransactionExecuted(h indexed txHash,a indexed safe,u txId)
+`;
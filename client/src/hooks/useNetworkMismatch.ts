@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
-import { NETWORK_CONFIGS } from '../contracts/abis';
+import { getChainConfig, getChainConfigByChainId } from '../config/chains';
 
 interface NetworkMismatchState {
   hasMismatch: boolean;
@@ -58,7 +58,7 @@ export const useNetworkMismatch = (options: UseNetworkMismatchOptions = {}) => {
 
     try {
       // Get required network config
-      const requiredConfig = NETWORK_CONFIGS[networkToCheck as keyof typeof NETWORK_CONFIGS];
+      const requiredConfig = getChainConfig(networkToCheck);
       if (!requiredConfig) {
         setState(prev => ({ 
           ...prev, 
@@ -76,10 +76,7 @@ export const useNetworkMismatch = (options: UseNetworkMismatchOptions = {}) => {
       const requiredChainId = requiredConfig.chainId;
 
       // Find wallet network name
-      const walletNetworkEntry = Object.entries(NETWORK_CONFIGS).find(
-        ([, config]) => config.chainId === walletChainId
-      );
-      const walletNetworkName = walletNetworkEntry ? walletNetworkEntry[0] : `Unknown (${walletChainId})`;
+      const walletNetworkName = getChainConfigByChainId(walletChainId)?.network || `Unknown (${walletChainId})`;
 
       const hasMismatch = walletChainId !== requiredChainId;
 
@@ -156,15 +153,12 @@ export const useNetworkMismatch = (options: UseNetworkMismatchOptions = {}) => {
 
 // Helper function to get network name from chain ID
 export const getNetworkNameFromChainId = (chainId: number): string => {
-  const networkEntry = Object.entries(NETWORK_CONFIGS).find(
-    ([, config]) => config.chainId === chainId
-  );
-  return networkEntry ? networkEntry[1].name : `Unknown Network (${chainId})`;
+  return getChainConfigByChainId(chainId)?.name || `Unknown Network (${chainId})`;
 };
 
 // Helper function to check if a specific network is supported
 export const isSupportedNetwork = (chainId: number): boolean => {
-  return Object.values(NETWORK_CONFIGS).some(config => config.chainId === chainId);
+  return getChainConfigByChainId(chainId) !== null;
 };
 
 export default useNetworkMismatch;
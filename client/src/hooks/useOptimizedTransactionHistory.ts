@@ -4,6 +4,7 @@
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { createOptimizedTransactionService, TransactionFilters } from '../services/OptimizedTransactionService';
+import { CacheStats } from '../services/TransactionCacheService';
 
 export interface UseOptimizedTransactionHistoryResult {
   transactions: any[];
@@ -21,7 +22,7 @@ export interface UseOptimizedTransactionHistoryResult {
   applyFilters: (filters: TransactionFilters) => void;
   
   // Cache info
-  cacheStats: any;
+  cacheStats: CacheStats | null;
 }
 
 export const useOptimizedTransactionHistory = (
@@ -39,6 +40,7 @@ export const useOptimizedTransactionHistory = (
   const [totalCount, setTotalCount] = useState(0);
   const [filters, setFilters] = useState<TransactionFilters | undefined>(initialFilters);
   const [searchQuery, setSearchQuery] = useState<string>('');
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
 
   const abortControllerRef = useRef<AbortController | null>(null);
 
@@ -120,7 +122,7 @@ export const useOptimizedTransactionHistory = (
     if (!safeAddress) return;
 
     // Invalidate cache for this Safe
-    transactionService.invalidateCache(safeAddress);
+    await transactionService.invalidateCache(safeAddress);
 
     setCurrentPage(0);
     setHasMore(true);
@@ -173,12 +175,23 @@ export const useOptimizedTransactionHistory = (
     // loadPage will be called by useEffect when filters change
   }, []);
 
-  /**
-   * Get cache statistics
-   */
-  const getCacheStats = useCallback(() => {
-    return transactionService.getCacheStats();
-  }, [transactionService]);
+  // Refresh cache statistics after loads
+  useEffect(() => {
+    if (isLoading || isLoadingMore) return;
+
+    let cancelled = false;
+    transactionService.getCacheStats()
+      .then(stats => {
+        if (!cancelled) setCacheStats(stats);
+      })
+      .catch(() => {
+        // Ignore cache stats errors
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [transactionService, transactions, isLoading, isLoadingMore]);
 
   // Initial load and filter changes
   useEffect(() => {
@@ -233,7 +246,7 @@ export const useOptimizedTransactionHistory = (
     refresh,
     search,
     applyFilters,
-    cacheStats: getCacheStats()
+    cacheStats
   };
 };
 
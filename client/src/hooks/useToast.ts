@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { ToastType, ToastProps } from '../components/ui/Toast';
+import { getEtherscanTransactionUrl } from '../utils/wallet';
 
 interface ToastOptions {
   type?: ToastType;
@@ -75,7 +76,7 @@ export const useToast = () => {
     });
   }, [addToast]);
 
-  const transactionSuccess = useCallback((txHash: string, message?: string) => {
+  const transactionSuccess = useCallback((txHash: string, message?: string, network: string = 'ethereum') => {
     return addToast('Transaction Successful', {
       type: 'success',
       message: message || `Transaction ${txHash.slice(0, 10)}... completed successfully`,
@@ -84,11 +85,7 @@ export const useToast = () => {
         label: 'View on Explorer',
         onClick: () => {
           // Open block explorer
-          const network = 'ethereum'; // This should come from context
-          const explorerUrl = network === 'ethereum' 
-            ? `https://etherscan.io/tx/${txHash}`
-            : `https://sepolia.etherscan.io/tx/${txHash}`;
-          window.open(explorerUrl, '_blank');
+          window.open(getEtherscanTransactionUrl(txHash, network), '_blank');
         }
       }
     });
@@ -0,0 +1,226 @@
+/**
+ * Allowance Service
+ *
+ * Finds the ERC-20 allowances a Safe has granted by scanning the Approval logs with the Safe as
+ * owner, then reads the current allowance of every token and spender pair. Pairs whose allowance
+ * is back to zero are kept for the next scan but not returned, pairs whose allowance cannot be
+ * read are returned as unknown so they can still be revoked.
+ *
+ * Like token discovery the scan is resumable (see LogScanner): the last scanned block and the
+ * approved pairs are stored per network and Safe in localStorage.
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI } from '../contracts/abis';
+import { LogScanner, LogScanState } from './LogScanner';
+import { getMulticallService } from './MulticallService';
+import { BatchCall } from './MultiSendService';
+import { TokenInfo, TokenService } from './TokenService';
+
+const ERC20_INTERFACE = new ethers.utils.Interface(ERC20_ABI);
+
+// Allowances at or above half of the maximum are shown as unlimited, tokens decrease max approvals on use
+const UNLIMITED_THRESHOLD = ethers.constants.MaxUint256.div(2);
+
+export interface ApprovedPair {
+  token: string; // Lowercased token address
+  spender: string; // Lowercased spender address
+  blockNumber: number; // Block of the latest Approval log
+}
+
+export interface TokenAllowance {
+  token: TokenInfo;
+  spender: string; // Checksummed
+  allowance: string; // Raw amount, empty when it could not be read
+  formattedAllowance: string;
+  isUnlimited: boolean;
+  isUnknown: boolean; // The allowance() read failed, the token may still have an allowance
+  lastApprovalBlock: number;
+}
+
+interface AllowanceScanState extends LogScanState {
+  pairs: ApprovedPair[];
+}
+
+/**
+ * Extract the token and spender of ERC-20 Approval logs, keeping the latest log of each pair
+ * ERC-721 Approval logs share the topic but have four topics instead of three and are skipped
+ */
+export const parseApprovalLogs = (logs: ethers.providers.Log[]): ApprovedPair[] => {
+  const approvalTopic = ERC20_INTERFACE.getEventTopic('Approval');
+  const pairs = new Map<string, ApprovedPair>();
+
+  logs
+    .filter(log => log.topics[0] === approvalTopic && log.topics.length === 3)
+    .forEach(log => {
+      const token = log.address.toLowerCase();
+      const spender = ethers.utils.hexDataSlice(log.topics[2], 12).toLowerCase();
+      const key = `${token}:${spender}`;
+      const existing = pairs.get(key);
+      if (!existing || existing.blockNumber < log.blockNumber) {
+        pairs.set(key, { token, spender, blockNumber: log.blockNumber });
+      }
+    });
+
+  return Array.from(pairs.values());
+};
+
+export class AllowanceService {
+  private static readonly STORAGE_KEY = 'vito_allowance_scan';
+
+  private provider: ethers.providers.Provider;
+  private network: string;
+  private tokenService: TokenService;
+  private scanner: LogScanner<AllowanceScanState>;
+
+  constructor(provider: ethers.providers.Provider, network: string) {
+    this.provider = provider;
+    this.network = network;
+    this.tokenService = new TokenService(provider, network);
+    this.scanner = new LogScanner(provider, AllowanceService.STORAGE_KEY, 'token approvals');
+  }
+
+  /**
+   * Create the approve(spender, 0) call revoking an allowance, for a MultiSend batch
+   */
+  static createRevokeCall(tokenAddress: string, spender: string): BatchCall {
+    if (!ethers.utils.isAddress(tokenAddress)) {
+      throw new Error('Invalid token address');
+    }
+
+    if (!ethers.utils.isAddress(spender)) {
+      throw new Error('Invalid spender address');
+    }
+
+    return {
+      to: ethers.utils.getAddress(tokenAddress),
+      value: '0',
+      data: ERC20_INTERFACE.encodeFunctionData('approve', [spender, 0]),
+      operation: 0
+    };
+  }
+
+  /**
+   * Scan the Approval logs since the last checkpoint and return every pair the Safe has approved
+   */
+  async scanApprovals(safeAddress: string): Promise<ApprovedPair[]> {
+    const stateKey = this.getStateKey(safeAddress);
+    const ownerTopic = ethers.utils.hexZeroPad(safeAddress.toLowerCase(), 32);
+    const state = this.loadState(stateKey);
+
+    // Only the deployed Safe can approve, unlike transfers which can reach it before deployment
+    if (state.lastBlock < 0) {
+      state.lastBlock = await this.scanner.findDeploymentBlock(safeAddress) - 1;
+    }
+
+    await this.scanner.scan(
+      stateKey,
+      state,
+      (fromBlock, toBlock) => this.provider.getLogs({
+        fromBlock,
+        toBlock,
+        topics: [ERC20_INTERFACE.getEventTopic('Approval'), ownerTopic]
+      }),
+      logs => {
+        parseApprovalLogs(logs).forEach(pair => {
+          const index = state.pairs.findIndex(p => p.token === pair.token && p.spender === pair.spender);
+          if (index === -1) {
+            state.pairs.push(pair);
+          } else {
+            state.pairs[index] = pair;
+          }
+        });
+      }
+    );
+
+    return state.pairs;
+  }
+
+  /**
+   * Get the current non-zero allowances granted by the Safe, read with one batched call
+   * Only confirmed zero allowances are left out
+   */
+  async getAllowances(safeAddress: string): Promise<TokenAllowance[]> {
+    let pairs: ApprovedPair[];
+    try {
+      pairs = await this.scanApprovals(safeAddress);
+    } catch (error) {
+      // Pairs found by earlier scans are still checked
+      console.warn('⚠️ Approval scan failed, using the last scanned approvals:', error);
+      pairs = this.loadState(this.getStateKey(safeAddress)).pairs;
+    }
+
+    if (pairs.length === 0) {
+      return [];
+    }
+
+    console.log(`🔍 Checking ${pairs.length} token allowances...`);
+    const results = await getMulticallService(this.provider, this.network).aggregate<ethers.BigNumber>(
+      pairs.map(pair => ({
+        target: pair.token,
+        iface: ERC20_INTERFACE,
+        method: 'allowance',
+        args: [safeAddress, pair.spender]
+      }))
+    );
+
+    const allowances = await Promise.all(pairs.map(async (pair, index): Promise<TokenAllowance | null> => {
+      const result = results[index];
+      const value = result.success ? result.value : undefined;
+      if (value && value.isZero()) {
+        return null;
+      }
+
+      // Tokens without readable metadata keep their address so the allowance can still be revoked
+      const token = await this.tokenService.getTokenInfo(pair.token) ||
+        { address: pair.token, symbol: 'Unknown', name: 'Unknown token', decimals: 0 };
+
+      if (!value) {
+        console.warn(`⚠️ Could not read the allowance of ${pair.spender} on ${pair.token}`);
+        return {
+          token,
+          spender: ethers.utils.getAddress(pair.spender),
+          allowance: '',
+          formattedAllowance: 'Unknown',
+          isUnlimited: false,
+          isUnknown: true,
+          lastApprovalBlock: pair.blockNumber
+        };
+      }
+
+      const isUnlimited = value.gte(UNLIMITED_THRESHOLD);
+      return {
+        token,
+        spender: ethers.utils.getAddress(pair.spender),
+        allowance: value.toString(),
+        formattedAllowance: isUnlimited ? 'Unlimited' : this.tokenService.formatTokenAmount(value.toString(), token.decimals),
+        isUnlimited,
+        isUnknown: false,
+        lastApprovalBlock: pair.blockNumber
+      };
+    }));
+
+    return allowances
+      .filter((allowance): allowance is TokenAllowance => allowance !== null)
+      .sort((a, b) => b.lastApprovalBlock - a.lastApprovalBlock);
+  }
+
+  /**
+   * Forget the scanned blocks and approvals of a Safe, the next scan starts over
+   */
+  resetScan(safeAddress: string): void {
+    this.scanner.removeState(this.getStateKey(safeAddress));
+  }
+
+  private getStateKey(safeAddress: string): string {
+    return `${this.network}:${safeAddress.toLowerCase()}`;
+  }
+
+  private loadState(stateKey: string): AllowanceScanState {
+    const stored = this.scanner.loadState(stateKey);
+    return {
+      lastBlock: stored.lastBlock ?? -1,
+      pairs: stored.pairs || []
+    };
+  }
+}
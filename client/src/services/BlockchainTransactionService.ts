@@ -1,5 +1,7 @@
 import { ethers } from 'ethers';
 import { getProviderForNetwork } from '../utils/ens';
+import { getChainConfig } from '../config/chains';
+import { explorerService, ExplorerTransaction } from './ExplorerService';
 
 export interface BlockchainTransaction {
   hash: string;
@@ -31,47 +33,7 @@ export class BlockchainTransactionService {
   }
 
   /**
-   * Test function to verify Etherscan API connectivity with API key
-   */
-  async testEtherscanAPI(address: string): Promise<void> {
-    // Use the new Etherscan API v2 unified endpoint with chainid
-    const chainIds = {
-      ethereum: '1',
-      sepolia: '11155111',
-      arbitrum: '42161'
-    };
-
-    const chainId = chainIds[this.network as keyof typeof chainIds];
-    if (!chainId) {
-      console.error(`Etherscan API not supported for network: ${this.network}`);
-      return;
-    }
-
-    const baseUrl = `https://api.etherscan.io/v2/api?chainid=${chainId}`;
-    const apiKey = process.env.REACT_APP_ETHERSCAN_API_KEY || 'YourApiKeyToken';
-    const testUrl = `${baseUrl}&module=account&action=txlist&address=${address}&page=1&offset=5&sort=desc&apikey=${apiKey}`;
-
-    console.log(`Testing Etherscan API for ${this.network}:`);
-    console.log(`URL: ${testUrl}`);
-    console.log(`API Key: ${apiKey.substring(0, 10)}...`);
-
-    try {
-      const response = await fetch(testUrl);
-      const data = await response.json();
-      console.log(`API Test Response:`, data);
-
-      if (data.status === '1' && data.result && Array.isArray(data.result)) {
-        console.log(`✅ API working! Found ${data.result.length} transactions`);
-      } else {
-        console.log(`❌ API issue:`, data.message || 'Unknown error');
-      }
-    } catch (error) {
-      console.error(`❌ API Test failed:`, error);
-    }
-  }
-
-  /**
-   * Get all transactions for a Safe wallet using Etherscan API
+   * Get all transactions for a Safe wallet from the configured block explorers
    */
   async getTransactionsFromBlockchain(
     safeAddress: string,
@@ -79,15 +41,11 @@ export class BlockchainTransactionService {
     fromBlock: number = 0
   ): Promise<BlockchainTransaction[]> {
     try {
-      console.log(`Fetching blockchain transactions for Safe: ${safeAddress} on ${this.network} using Etherscan API`);
-
-      // Test the API first to debug any issues
-      await this.testEtherscanAPI(safeAddress);
+      console.log(`Fetching blockchain transactions for Safe: ${safeAddress} on ${this.network} from block explorers`);
 
-      // Use Etherscan API directly - it's fast and reliable
-      const transactions = await this.getTransactionsFromEtherscanAPI(safeAddress, 0, 99999999);
+      const transactions = await this.getTransactionsFromExplorer(safeAddress);
 
-      console.log(`Found ${transactions.length} total transactions from Etherscan API`);
+      console.log(`Found ${transactions.length} total transactions from block explorers`);
 
       // Sort by block number (newest first)
       transactions.sort((a, b) => b.blockNumber - a.blockNumber);
@@ -111,13 +69,7 @@ export class BlockchainTransactionService {
     address: string,
     limit: number
   ): Promise<BlockchainTransaction[]> {
-    const chainIds = {
-      ethereum: 1,
-      sepolia: 11155111,
-      arbitrum: 42161
-    };
-
-    const chainId = chainIds[this.network as keyof typeof chainIds];
+    const chainId = getChainConfig(this.network)?.chainId;
     if (!chainId) {
       throw new Error(`Covalent not supported for network: ${this.network}`);
     }
@@ -178,13 +130,8 @@ export class BlockchainTransactionService {
     address: string,
     limit: number
   ): Promise<BlockchainTransaction[]> {
-    const alchemyUrls = {
-      ethereum: 'https://eth-mainnet.g.alchemy.com/v2/demo',
-      sepolia: 'https://eth-sepolia.g.alchemy.com/v2/demo',
-      arbitrum: 'https://arb-mainnet.g.alchemy.com/v2/demo'
-    };
-
-    const baseUrl = alchemyUrls[this.network as keyof typeof alchemyUrls];
+    const alchemySubdomain = getChainConfig(this.network)?.alchemySubdomain;
+    const baseUrl = alchemySubdomain ? `https://${alchemySubdomain}.g.alchemy.com/v2/demo` : null;
     if (!baseUrl) {
       throw new Error(`Alchemy not supported for network: ${this.network}`);
     }
@@ -320,100 +267,32 @@ export class BlockchainTransactionService {
   }
 
   /**
-   * Get transactions using Etherscan API with proper error handling
+   * Get normal and internal transactions from the block explorers of the network
    */
-  private async getTransactionsFromEtherscanAPI(
-    address: string,
-    startBlock: number,
-    endBlock: number
-  ): Promise<BlockchainTransaction[]> {
-    // Use the new Etherscan API v2 unified endpoint with chainid
-    const chainIds = {
-      ethereum: '1',
-      sepolia: '11155111',
-      arbitrum: '42161'
-    };
-
-    const chainId = chainIds[this.network as keyof typeof chainIds];
-    if (!chainId) {
-      throw new Error(`Etherscan API not supported for network: ${this.network}`);
-    }
-
-    const baseUrl = `https://api.etherscan.io/v2/api?chainid=${chainId}`;
-
-    // Get API key from environment or use demo key
-    const apiKey = process.env.REACT_APP_ETHERSCAN_API_KEY || 'YourApiKeyToken';
-    console.log(`Environment API key: ${process.env.REACT_APP_ETHERSCAN_API_KEY ? 'Found' : 'Not found'}`);
-    console.log(`Using API key: ${apiKey}`);
-
-    // Build URLs with API key using v2 API format
-    const normalTxUrl = `${baseUrl}&module=account&action=txlist&address=${address}&startblock=0&endblock=99999999&page=1&offset=100&sort=desc&apikey=${apiKey}`;
-    const internalTxUrl = `${baseUrl}&module=account&action=txlistinternal&address=${address}&startblock=0&endblock=99999999&page=1&offset=100&sort=desc&apikey=${apiKey}`;
-
-    console.log(`Full API key for debugging: ${apiKey}`);
-    console.log(`Normal TX URL: ${normalTxUrl}`);
-    console.log(`Internal TX URL: ${internalTxUrl}`);
-
-    console.log(`Fetching transactions from Etherscan for ${this.network}`);
+  private async getTransactionsFromExplorer(address: string): Promise<BlockchainTransaction[]> {
+    const query = { page: 1, offset: 100, sort: 'desc' as const };
 
     try {
-      // Try to fetch both normal and internal transactions
-      const responses = await Promise.allSettled([
-        fetch(normalTxUrl),
-        fetch(internalTxUrl)
+      const [normal, internal] = await Promise.allSettled([
+        explorerService.getTransactions(this.network, address, { ...query, type: 'normal' }),
+        explorerService.getTransactions(this.network, address, { ...query, type: 'internal' })
       ]);
 
-      const transactions: BlockchainTransaction[] = [];
-
-      // Process normal transactions
-      if (responses[0].status === 'fulfilled' && responses[0].value.ok) {
-        const normalData = await responses[0].value.json();
-        console.log(`Normal transactions response:`, normalData);
-
-        if (normalData.status === '1' && normalData.result && Array.isArray(normalData.result)) {
-          console.log(`Processing ${normalData.result.length} normal transactions`);
-          for (const tx of normalData.result) {
-            console.log(`Normal TX: ${tx.hash}, txreceipt_status: ${tx.txreceipt_status}, isError: ${tx.isError}`);
-            // Include all transactions (no status filtering)
-            const formattedTx = await this.formatBlockchainTransaction(tx, 'normal');
-            console.log(`Formatted normal TX: ${formattedTx.hash}, status: ${formattedTx.status}`);
-            transactions.push(formattedTx);
-          }
-        } else {
-          console.warn('Normal transactions API response indicates error or no data:', normalData);
-          if (normalData.message) {
-            console.warn('API Error message:', normalData.message);
-          }
-        }
-      } else {
-        console.warn('Failed to fetch normal transactions - network or HTTP error');
-        if (responses[0].status === 'rejected') {
-          console.error('Normal transactions request rejected:', responses[0].reason);
-        }
+      if (normal.status === 'rejected') {
+        throw normal.reason;
       }
 
-      // Process internal transactions
-      if (responses[1].status === 'fulfilled' && responses[1].value.ok) {
-        const internalData = await responses[1].value.json();
-        console.log(`Internal transactions response:`, internalData);
+      const transactions: BlockchainTransaction[] = [];
+      for (const tx of normal.value) {
+        transactions.push(await this.formatBlockchainTransaction(tx, 'normal'));
+      }
 
-        if (internalData.status === '1' && internalData.result && Array.isArray(internalData.result)) {
-          console.log(`Processing ${internalData.result.length} internal transactions`);
-          for (const tx of internalData.result) {
-            // Include all internal transactions (no status filtering)
-            transactions.push(await this.formatBlockchainTransaction(tx, 'internal'));
-          }
-        } else {
-          console.warn('Internal transactions API response indicates error or no data:', internalData);
-          if (internalData.message) {
-            console.warn('API Error message:', internalData.message);
-          }
+      if (internal.status === 'fulfilled') {
+        for (const tx of internal.value) {
+          transactions.push(await this.formatBlockchainTransaction(tx, 'internal'));
         }
       } else {
-        console.warn('Failed to fetch internal transactions - network or HTTP error');
-        if (responses[1].status === 'rejected') {
-          console.error('Internal transactions request rejected:', responses[1].reason);
-        }
+        console.warn('Failed to fetch internal transactions:', internal.reason);
       }
 
       // Remove duplicates based on transaction hash
@@ -425,10 +304,10 @@ export class BlockchainTransactionService {
       return uniqueTransactions;
 
     } catch (error) {
-      console.error('Error fetching from Etherscan API:', error);
+      console.error('Error fetching from block explorers:', error);
 
-      // If Etherscan fails, try a simple provider-based approach for recent transactions
-      console.log('Etherscan failed, trying provider-based approach...');
+      // If the explorers fail, try a simple provider-based approach for recent transactions
+      console.log('Block explorers failed, trying provider-based approach...');
       return this.getRecentTransactionsFromProvider(address, 100); // Last 100 blocks
     }
   }
@@ -508,10 +387,10 @@ export class BlockchainTransactionService {
   }
 
   /**
-   * Format transaction data from Etherscan API
+   * Format transaction data from the Etherscan-compatible explorer API
    */
   private async formatBlockchainTransaction(
-    tx: any,
+    tx: ExplorerTransaction,
     type: 'normal' | 'internal'
   ): Promise<BlockchainTransaction> {
     // Decode method name from input data
@@ -529,7 +408,7 @@ export class BlockchainTransactionService {
       from: tx.from,
       to: tx.to,
       value: tx.value,
-      gasPrice: tx.gasPrice,
+      gasPrice: tx.gasPrice || '0',
       gasUsed: tx.gasUsed,
       gasLimit: tx.gas,
       timestamp: parseInt(tx.timeStamp),
@@ -0,0 +1,256 @@
+/**
+ * Custom Network Service
+ *
+ * Manages user-defined networks (private devnets, L2 testnets) with localStorage persistence.
+ * Custom networks are merged into the chain registry and behave like built-in chains.
+ */
+
+import { CHAIN_REGISTRY, ChainConfig, getCanonicalSafeContracts } from '../config/chains';
+import { isValidAddress } from '../utils/addressUtils';
+import { rpcConfigService, RpcValidationResult } from './RpcConfigService';
+
+/**
+ * Network details entered by the user
+ */
+export interface CustomNetworkInput {
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  blockExplorer: string;
+  nativeCurrencySymbol?: string;
+  isTestnet?: boolean; // Defaults to true, networks saved before the flag existed are testnets
+  safeTxPoolRegistry?: string;
+  safeProxyFactory?: string;
+  safeSingleton?: string;
+  multiSendCallOnly?: string;
+}
+
+export interface CustomNetwork extends CustomNetworkInput {
+  network: string; // Key derived from the name, used as the network identifier
+  createdAt: number;
+}
+
+class CustomNetworkService {
+  private static instance: CustomNetworkService;
+  private readonly STORAGE_KEY = 'vito_custom_networks';
+  private customNetworks: CustomNetwork[] = [];
+
+  private constructor() {
+    this.loadFromStorage();
+  }
+
+  public static getInstance(): CustomNetworkService {
+    if (!CustomNetworkService.instance) {
+      CustomNetworkService.instance = new CustomNetworkService();
+    }
+    return CustomNetworkService.instance;
+  }
+
+  /**
+   * Load custom networks from localStorage
+   */
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (stored) {
+        this.customNetworks = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn('Failed to load custom networks from storage:', error);
+      this.customNetworks = [];
+    }
+  }
+
+  /**
+   * Save custom networks to localStorage
+   */
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.customNetworks));
+    } catch (error) {
+      console.error('Failed to save custom networks to storage:', error);
+    }
+  }
+
+  /**
+   * Get all custom networks
+   */
+  public getNetworks(): CustomNetwork[] {
+    return [...this.customNetworks];
+  }
+
+  /**
+   * Get the chain registry entries of all custom networks, keyed by network
+   */
+  public getChainConfigs(): Record<string, ChainConfig> {
+    return Object.fromEntries(
+      this.customNetworks.map(network => [network.network, this.toChainConfig(network)])
+    );
+  }
+
+  /**
+   * Derive the network key from a network name
+   */
+  public getNetworkKey(name: string): string {
+    return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  /**
+   * Validate the entered network details and check the RPC endpoint reports the expected chain ID
+   */
+  public async validateNetwork(input: CustomNetworkInput): Promise<RpcValidationResult> {
+    const fieldError = this.validateFields(input);
+    if (fieldError) {
+      return { isValid: false, error: fieldError };
+    }
+
+    const result = await rpcConfigService.validateRpcUrl(input.rpcUrl.trim());
+    if (!result.isValid) {
+      return result;
+    }
+
+    if (result.chainId !== input.chainId) {
+      return {
+        ...result,
+        isValid: false,
+        error: `RPC endpoint reports chain ID ${result.chainId ?? 'unknown'}, expected ${input.chainId}`
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate and add a custom network
+   */
+  public async addNetwork(input: CustomNetworkInput): Promise<CustomNetwork> {
+    const validation = await this.validateNetwork(input);
+    if (!validation.isValid) {
+      throw new Error(validation.error || 'Invalid network configuration');
+    }
+
+    const network: CustomNetwork = {
+      name: input.name.trim(),
+      chainId: input.chainId,
+      rpcUrl: input.rpcUrl.trim(),
+      blockExplorer: input.blockExplorer.trim().replace(/\/+$/, ''),
+      nativeCurrencySymbol: input.nativeCurrencySymbol?.trim() || undefined,
+      isTestnet: input.isTestnet ?? true,
+      safeTxPoolRegistry: input.safeTxPoolRegistry?.trim() || undefined,
+      safeProxyFactory: input.safeProxyFactory?.trim() || undefined,
+      safeSingleton: input.safeSingleton?.trim() || undefined,
+      multiSendCallOnly: input.multiSendCallOnly?.trim() || undefined,
+      network: this.getNetworkKey(input.name),
+      createdAt: Date.now()
+    };
+
+    this.customNetworks = [...this.customNetworks, network];
+    this.saveToStorage();
+
+    console.log(`🌐 CustomNetworkService: Added network ${network.name} (chainId: ${network.chainId})`);
+    return network;
+  }
+
+  /**
+   * Remove a custom network
+   * Custom RPC URL overrides of the network are removed as well
+   */
+  public removeNetwork(network: string): void {
+    this.customNetworks = this.customNetworks.filter(n => n.network !== network);
+    this.saveToStorage();
+    rpcConfigService.resetToDefault(network);
+  }
+
+  /**
+   * Check the entered fields, returning an error message or null when they are valid
+   */
+  private validateFields(input: CustomNetworkInput): string | null {
+    if (!input.name.trim() || !this.getNetworkKey(input.name)) {
+      return 'Network name is required';
+    }
+
+    const key = this.getNetworkKey(input.name);
+    if (CHAIN_REGISTRY[key] || key === 'mainnet' || this.customNetworks.some(n => n.network === key)) {
+      return `A network named "${input.name.trim()}" already exists`;
+    }
+
+    if (!Number.isInteger(input.chainId) || input.chainId <= 0) {
+      return 'Chain ID must be a positive integer';
+    }
+
+    const existingChain = [...Object.values(CHAIN_REGISTRY), ...this.customNetworks]
+      .find(chain => chain.chainId === input.chainId);
+    if (existingChain) {
+      return `Chain ID ${input.chainId} is already used by ${existingChain.name}`;
+    }
+
+    if (!this.isValidUrl(input.rpcUrl.trim())) {
+      return 'Invalid RPC URL format';
+    }
+
+    if (!this.isValidUrl(input.blockExplorer.trim())) {
+      return 'Invalid block explorer URL format';
+    }
+
+    const addresses: Array<[string, string | undefined]> = [
+      ['SafeTxPool registry', input.safeTxPoolRegistry],
+      ['SafeProxyFactory', input.safeProxyFactory],
+      ['Safe singleton', input.safeSingleton],
+      ['MultiSendCallOnly', input.multiSendCallOnly]
+    ];
+    for (const [label, address] of addresses) {
+      if (address?.trim() && !isValidAddress(address.trim())) {
+        return `Invalid ${label} address: ${address}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Basic URL validation
+   */
+  private isValidUrl(url: string): boolean {
+    try {
+      const urlObj = new URL(url);
+      return urlObj.protocol === 'http:' || urlObj.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Build the chain registry entry of a custom network
+   * Safe contracts that are not provided default to their canonical deployment addresses
+   */
+  private toChainConfig(network: CustomNetwork): ChainConfig {
+    const contracts = getCanonicalSafeContracts();
+    const symbol = network.nativeCurrencySymbol || 'ETH';
+
+    return {
+      network: network.network,
+      chainId: network.chainId,
+      name: network.name,
+      shortName: network.name,
+      color: '#14B8A6',
+      isTestnet: network.isTestnet ?? true,
+      nativeCurrency: { name: symbol, symbol, decimals: 18 },
+      rpcUrl: network.rpcUrl,
+      blockExplorer: network.blockExplorer,
+      explorerApiUrl: '',
+      safeAppPrefix: network.network,
+      ensSupported: false,
+      contracts: {
+        ...contracts,
+        safeTxPoolRegistry: network.safeTxPoolRegistry || contracts.safeTxPoolRegistry,
+        safeProxyFactory: network.safeProxyFactory || contracts.safeProxyFactory,
+        safeSingleton: network.safeSingleton || contracts.safeSingleton,
+        multiSendCallOnly: network.multiSendCallOnly || contracts.multiSendCallOnly
+      },
+      tokens: [],
+      isCustom: true
+    };
+  }
+}
+
+export const customNetworkService = CustomNetworkService.getInstance();
@@ -0,0 +1,441 @@
+/**
+ * Block Explorer Service
+ *
+ * Common interface over the block explorers used for transaction history and ABI lookup:
+ * Etherscan-family explorers (through the Etherscan V2 API), Blockscout and Sourcify.
+ * API keys are configured per network in the Environment tab and persisted in localStorage,
+ * falling back to REACT_APP_ETHERSCAN_API_KEY / REACT_APP_BLOCKSCOUT_API_KEY.
+ * Every request goes through a shared rate limiter so the app stays within the free tiers.
+ */
+
+import { getChainConfig } from '../config/chains';
+
+export type ExplorerKind = 'etherscan' | 'blockscout' | 'sourcify';
+
+// Explorers that accept an API key
+export type ExplorerApiKeyKind = Exclude<ExplorerKind, 'sourcify'>;
+
+export interface ExplorerContractAbi {
+  abi: any[];
+  name: string;
+  source: ExplorerKind;
+  // Partial matches compiled to the same bytecode but with different metadata (comments, variable names)
+  match: 'full' | 'partial';
+}
+
+/**
+ * Transaction in the Etherscan account API format, also returned by Blockscout
+ */
+export interface ExplorerTransaction {
+  hash: string;
+  blockNumber: string;
+  blockHash?: string;
+  transactionIndex?: string;
+  timeStamp: string;
+  from: string;
+  to: string;
+  value: string;
+  gas: string;
+  gasPrice?: string;
+  gasUsed: string;
+  input?: string;
+  isError?: string;
+  txreceipt_status?: string;
+}
+
+export interface ExplorerTransactionQuery {
+  type: 'normal' | 'internal';
+  page?: number;
+  offset?: number;
+  sort?: 'asc' | 'desc';
+}
+
+export interface ExplorerApiKeyTestResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface BlockExplorerBackend {
+  readonly kind: ExplorerKind;
+  readonly name: string;
+  readonly supportsHistory: boolean;
+  getContractAbi(address: string): Promise<ExplorerContractAbi | null>;
+  getTransactions(address: string, query: ExplorerTransactionQuery): Promise<ExplorerTransaction[]>;
+}
+
+/**
+ * Spaces out requests that share a rate limit key
+ */
+class ExplorerRateLimiter {
+  private nextSlots = new Map<string, number>();
+
+  async schedule<T>(key: string, requestsPerSecond: number, request: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const start = Math.max(now, this.nextSlots.get(key) || 0);
+    this.nextSlots.set(key, start + 1000 / requestsPerSecond);
+
+    if (start > now) {
+      await new Promise(resolve => setTimeout(resolve, start - now));
+    }
+    return request();
+  }
+}
+
+const explorerRateLimiter = new ExplorerRateLimiter();
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Fetch JSON through the rate limiter with a timeout
+ * Resolves to null for 404 responses
+ */
+const fetchJson = async (url: string, rateLimitKey: string, requestsPerSecond: number): Promise<any> =>
+  explorerRateLimiter.schedule(rateLimitKey, requestsPerSecond, async () => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        headers: { 'Accept': 'application/json' },
+        signal: controller.signal
+      });
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timeout);
+    }
+  });
+
+/**
+ * Etherscan account/contract API, also implemented by Blockscout
+ */
+export class EtherscanCompatibleExplorer implements BlockExplorerBackend {
+  readonly supportsHistory = true;
+  private static readonly RATE_LIMIT_RETRIES = 2;
+
+  constructor(
+    readonly kind: ExplorerApiKeyKind,
+    readonly name: string,
+    private readonly apiUrl: string,
+    private readonly apiKey: string | null,
+    private readonly requestsPerSecond: number
+  ) {}
+
+  async getContractAbi(address: string): Promise<ExplorerContractAbi | null> {
+    const result = await this.request({ module: 'contract', action: 'getsourcecode', address });
+    const contract = Array.isArray(result) ? result[0] : null;
+
+    if (!contract?.ABI || contract.ABI === 'Contract source code not verified') {
+      return null;
+    }
+
+    return {
+      abi: JSON.parse(contract.ABI),
+      name: contract.ContractName || 'Unknown Contract',
+      source: this.kind,
+      match: 'full'
+    };
+  }
+
+  async getTransactions(address: string, query: ExplorerTransactionQuery): Promise<ExplorerTransaction[]> {
+    const result = await this.request({
+      module: 'account',
+      action: query.type === 'internal' ? 'txlistinternal' : 'txlist',
+      address,
+      startblock: '0',
+      endblock: '99999999',
+      page: String(query.page || 1),
+      offset: String(query.offset || 100),
+      sort: query.sort || 'desc'
+    });
+
+    return Array.isArray(result) ? result : [];
+  }
+
+  /**
+   * Check that the explorer accepts the API key
+   */
+  async testApiKey(): Promise<ExplorerApiKeyTestResult> {
+    try {
+      await this.request({
+        module: 'account',
+        action: 'balance',
+        address: '0x0000000000000000000000000000000000000000',
+        tag: 'latest'
+      });
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, error: error.message || 'Request failed' };
+    }
+  }
+
+  /**
+   * Send an API request and return its result
+   * "No transactions found" style responses return an empty result instead of throwing
+   */
+  private async request(params: Record<string, string>): Promise<any> {
+    const search = new URLSearchParams(params);
+    if (this.apiKey) {
+      search.set('apikey', this.apiKey);
+    }
+    const url = `${this.apiUrl}${this.apiUrl.includes('?') ? '&' : '?'}${search.toString()}`;
+    // Etherscan limits per API key across all chains, Blockscout per instance
+    const rateLimitKey = this.apiKey ? `${this.kind}:${this.apiKey}` : this.apiUrl;
+
+    for (let attempt = 0; ; attempt++) {
+      const data = await fetchJson(url, rateLimitKey, this.requestsPerSecond);
+      if (!data) {
+        return null;
+      }
+
+      if (data.status === '1' || data.message === 'OK' || Array.isArray(data.result)) {
+        return data.result;
+      }
+
+      const message = typeof data.result === 'string' ? data.result : data.message || 'Unknown explorer error';
+      if (/no (transactions|records) found/i.test(`${data.message} ${message}`)) {
+        return [];
+      }
+      if (/rate limit/i.test(message) && attempt < EtherscanCompatibleExplorer.RATE_LIMIT_RETRIES) {
+        await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
+        continue;
+      }
+      throw new Error(`${this.name}: ${message}`);
+    }
+  }
+}
+
+/**
+ * Sourcify verified contracts, ABI lookup only
+ * Both full (exact_match) and partial (match) verifications are returned
+ */
+export class SourcifyExplorer implements BlockExplorerBackend {
+  readonly kind = 'sourcify' as const;
+  readonly name = 'Sourcify';
+  readonly supportsHistory = false;
+  private static readonly API_URL = 'https://sourcify.dev/server';
+  private static readonly REQUESTS_PER_SECOND = 5;
+
+  constructor(private readonly chainId: number) {}
+
+  async getContractAbi(address: string): Promise<ExplorerContractAbi | null> {
+    const data = await fetchJson(
+      `${SourcifyExplorer.API_URL}/v2/contract/${this.chainId}/${address}?fields=abi,compilation`,
+      SourcifyExplorer.API_URL,
+      SourcifyExplorer.REQUESTS_PER_SECOND
+    );
+
+    if (!data?.abi) {
+      return null;
+    }
+
+    return {
+      abi: data.abi,
+      name: data.compilation?.name || 'Unknown Contract',
+      source: this.kind,
+      match: data.match === 'exact_match' ? 'full' : 'partial'
+    };
+  }
+
+  async getTransactions(): Promise<ExplorerTransaction[]> {
+    throw new Error('Sourcify does not provide transaction history');
+  }
+}
+
+// API keys per network, only explicitly configured keys are stored
+type ExplorerApiKeyConfig = Record<string, Partial<Record<ExplorerApiKeyKind, string>>>;
+
+class ExplorerService {
+  private static instance: ExplorerService;
+  private readonly STORAGE_KEY = 'vito_explorer_api_keys';
+  private readonly ETHERSCAN_REQUESTS_PER_SECOND = 4; // Free tier allows 5
+  private readonly BLOCKSCOUT_REQUESTS_PER_SECOND = 5;
+  private apiKeys: ExplorerApiKeyConfig = {};
+  private listeners: (() => void)[] = [];
+
+  private constructor() {
+    this.loadFromStorage();
+  }
+
+  public static getInstance(): ExplorerService {
+    if (!ExplorerService.instance) {
+      ExplorerService.instance = new ExplorerService();
+    }
+    return ExplorerService.instance;
+  }
+
+  /**
+   * Get the API key used for an explorer on a network, configured or from the environment
+   */
+  public getApiKey(network: string, kind: ExplorerApiKeyKind): string | null {
+    const configured = this.apiKeys[network]?.[kind];
+    if (configured) {
+      return configured;
+    }
+
+    const envKey = kind === 'etherscan'
+      ? process.env.REACT_APP_ETHERSCAN_API_KEY
+      : process.env.REACT_APP_BLOCKSCOUT_API_KEY;
+    return envKey && !envKey.startsWith('YOUR_') ? envKey : null;
+  }
+
+  /**
+   * Get the API key configured for a network in the Environment tab
+   */
+  public getCustomApiKey(network: string, kind: ExplorerApiKeyKind): string | null {
+    return this.apiKeys[network]?.[kind] || null;
+  }
+
+  public setApiKey(network: string, kind: ExplorerApiKeyKind, apiKey: string): void {
+    const trimmed = apiKey.trim();
+    if (!trimmed) {
+      this.clearApiKey(network, kind);
+      return;
+    }
+
+    this.apiKeys[network] = { ...this.apiKeys[network], [kind]: trimmed };
+    this.saveToStorage();
+  }
+
+  public clearApiKey(network: string, kind: ExplorerApiKeyKind): void {
+    if (!this.apiKeys[network]) {
+      return;
+    }
+
+    delete this.apiKeys[network][kind];
+    if (Object.keys(this.apiKeys[network]).length === 0) {
+      delete this.apiKeys[network];
+    }
+    this.saveToStorage();
+  }
+
+  /**
+   * Get the explorers of a network in order of preference
+   * Etherscan is only used with an API key, the V2 API rejects keyless requests
+   */
+  public getBackends(network: string): BlockExplorerBackend[] {
+    const chain = getChainConfig(network);
+    if (!chain) {
+      return [];
+    }
+
+    const backends: BlockExplorerBackend[] = [];
+    const etherscanKey = this.getApiKey(network, 'etherscan');
+    if (chain.explorerApiUrl && etherscanKey) {
+      backends.push(this.createEtherscanExplorer(chain.explorerApiUrl, etherscanKey));
+    }
+    if (chain.blockscoutApiUrl) {
+      backends.push(this.createBlockscoutExplorer(chain.blockscoutApiUrl, this.getApiKey(network, 'blockscout')));
+    }
+    backends.push(new SourcifyExplorer(chain.chainId));
+
+    return backends;
+  }
+
+  /**
+   * Fetch a verified contract ABI from the first explorer that has one
+   */
+  public async getContractAbi(network: string, address: string): Promise<ExplorerContractAbi | null> {
+    for (const backend of this.getBackends(network)) {
+      try {
+        const result = await backend.getContractAbi(address);
+        if (result) {
+          console.log(`✅ ABI for ${address} found on ${backend.name}`);
+          return result;
+        }
+      } catch (error: any) {
+        console.warn(`⚠️ ABI lookup on ${backend.name} failed:`, error.message || error);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Fetch account transactions from the first explorer that answers
+   */
+  public async getTransactions(
+    network: string,
+    address: string,
+    query: ExplorerTransactionQuery
+  ): Promise<ExplorerTransaction[]> {
+    const backends = this.getBackends(network).filter(backend => backend.supportsHistory);
+    if (backends.length === 0) {
+      throw new Error(`No block explorer with transaction history configured for network: ${network}`);
+    }
+
+    let lastError: any = null;
+    for (const backend of backends) {
+      try {
+        return await backend.getTransactions(address, query);
+      } catch (error: any) {
+        console.warn(`⚠️ Transaction history from ${backend.name} failed:`, error.message || error);
+        lastError = error;
+      }
+    }
+
+    throw new Error(`Failed to load transaction history: ${lastError?.message || lastError}`);
+  }
+
+  /**
+   * Check an API key against the explorer of a network before saving it
+   */
+  public async testApiKey(network: string, kind: ExplorerApiKeyKind, apiKey: string): Promise<ExplorerApiKeyTestResult> {
+    const chain = getChainConfig(network);
+    const apiUrl = kind === 'etherscan' ? chain?.explorerApiUrl : chain?.blockscoutApiUrl;
+    if (!apiUrl) {
+      return { success: false, error: `No ${kind === 'etherscan' ? 'Etherscan' : 'Blockscout'} API for ${network}` };
+    }
+
+    const explorer = kind === 'etherscan'
+      ? this.createEtherscanExplorer(apiUrl, apiKey.trim())
+      : this.createBlockscoutExplorer(apiUrl, apiKey.trim());
+    return explorer.testApiKey();
+  }
+
+  /**
+   * Subscribe to API key changes, returns an unsubscribe function
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private createEtherscanExplorer(apiUrl: string, apiKey: string): EtherscanCompatibleExplorer {
+    return new EtherscanCompatibleExplorer('etherscan', 'Etherscan', apiUrl, apiKey, this.ETHERSCAN_REQUESTS_PER_SECOND);
+  }
+
+  private createBlockscoutExplorer(apiUrl: string, apiKey: string | null): EtherscanCompatibleExplorer {
+    return new EtherscanCompatibleExplorer('blockscout', 'Blockscout', apiUrl, apiKey || null, this.BLOCKSCOUT_REQUESTS_PER_SECOND);
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (stored) {
+        this.apiKeys = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn('Failed to load explorer API keys from storage:', error);
+      this.apiKeys = {};
+    }
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.apiKeys));
+    } catch (error) {
+      console.error('Failed to save explorer API keys to storage:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const explorerService = ExplorerService.getInstance();
@@ -0,0 +1,46 @@
+/**
+ * Failover RPC Provider
+ *
+ * Read-only ethers provider that sends every request through the shared RPC request queue,
+ * so all services fail over between the configured endpoints of a network. A provider for an
+ * explicit RPC URL uses that endpoint only, with the queue's concurrency limit and backoff.
+ */
+
+import { ethers } from 'ethers';
+import { getChainConfigOrDefault } from '../config/chains';
+import { rpcConfigService } from './RpcConfigService';
+import { rpcRequestQueue } from './RpcRequestQueue';
+
+export class FailoverJsonRpcProvider extends ethers.providers.StaticJsonRpcProvider {
+  readonly networkName: string;
+  private readonly endpoints?: string[];
+
+  constructor(network: string, rpcUrl?: string) {
+    // Standard ethers network for known chain IDs, so ENS keeps working on mainnet
+    super(rpcUrl || rpcConfigService.getRpcUrl(network), ethers.providers.getNetwork(getChainConfigOrDefault(network).chainId));
+    this.networkName = network;
+    this.endpoints = rpcUrl ? [rpcUrl] : undefined;
+  }
+
+  send(method: string, params: Array<any>): Promise<any> {
+    return rpcRequestQueue.send(this.networkName, method, params, this.endpoints);
+  }
+}
+
+// One provider per network and explicit RPC URL, endpoints are resolved per request
+const providers = new Map<string, FailoverJsonRpcProvider>();
+
+/**
+ * Get the shared read-only provider of a network
+ * @param network The network name (see config/chains.ts)
+ * @param rpcUrl Explicit RPC URL to use instead of the configured endpoints
+ */
+export const getRpcProvider = (network: string, rpcUrl?: string): FailoverJsonRpcProvider => {
+  const key = rpcUrl ? `${network}:${rpcUrl}` : network;
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = new FailoverJsonRpcProvider(network, rpcUrl);
+    providers.set(key, provider);
+  }
+  return provider;
+};
@@ -0,0 +1,146 @@
+/**
+ * IPFS Gateway Service
+ *
+ * Resolves ipfs://, ar:// and bare CID URIs found in NFT metadata to HTTP URLs through a
+ * configurable gateway. The gateway is stored in localStorage and falls back to
+ * REACT_APP_IPFS_GATEWAY, then to the public ipfs.io gateway.
+ */
+
+export const DEFAULT_IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+const ARWEAVE_GATEWAY = 'https://arweave.net/';
+
+// CIDv0 (Qm...) and base32 CIDv1 (bafy...), optionally followed by a path
+const BARE_CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(\/.*)?$/;
+
+class IpfsGatewayService {
+  private static instance: IpfsGatewayService;
+  private readonly STORAGE_KEY = 'vito_ipfs_gateway';
+  private customGateway: string | null = null;
+  private listeners: (() => void)[] = [];
+
+  private constructor() {
+    this.loadFromStorage();
+  }
+
+  public static getInstance(): IpfsGatewayService {
+    if (!IpfsGatewayService.instance) {
+      IpfsGatewayService.instance = new IpfsGatewayService();
+    }
+    return IpfsGatewayService.instance;
+  }
+
+  /**
+   * Get the gateway used to resolve IPFS URIs, configured or from the environment
+   */
+  public getGateway(): string {
+    if (this.customGateway) {
+      return this.customGateway;
+    }
+
+    const envGateway = process.env.REACT_APP_IPFS_GATEWAY;
+    return envGateway ? this.normalizeGateway(envGateway) : DEFAULT_IPFS_GATEWAY;
+  }
+
+  /**
+   * Get the gateway configured in the Environment tab
+   */
+  public getCustomGateway(): string | null {
+    return this.customGateway;
+  }
+
+  /**
+   * Configure the gateway, e.g. https://cloudflare-ipfs.com/ipfs/ or a dedicated Pinata gateway
+   */
+  public setGateway(gateway: string): void {
+    const trimmed = gateway.trim();
+    if (!trimmed) {
+      this.clearGateway();
+      return;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(trimmed);
+    } catch {
+      throw new Error('Invalid gateway URL');
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error('Gateway URL must use http or https');
+    }
+
+    this.customGateway = this.normalizeGateway(trimmed);
+    this.saveToStorage();
+  }
+
+  public clearGateway(): void {
+    this.customGateway = null;
+    this.saveToStorage();
+  }
+
+  /**
+   * Resolve a metadata or image URI to a URL the browser can load
+   * HTTP(S) and data: URIs are returned unchanged
+   */
+  public resolveUri(uri: string): string {
+    const trimmed = uri.trim();
+
+    if (trimmed.startsWith('ipfs://')) {
+      // ipfs://ipfs/<cid> is a common mistake in token URIs
+      return `${this.getGateway()}${trimmed.slice('ipfs://'.length).replace(/^ipfs\//, '')}`;
+    }
+    if (trimmed.startsWith('ar://')) {
+      return `${ARWEAVE_GATEWAY}${trimmed.slice('ar://'.length)}`;
+    }
+    if (trimmed.startsWith('/ipfs/')) {
+      return `${this.getGateway()}${trimmed.slice('/ipfs/'.length)}`;
+    }
+    if (BARE_CID_PATTERN.test(trimmed)) {
+      return `${this.getGateway()}${trimmed}`;
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * Subscribe to gateway changes, returns an unsubscribe function
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Gateways are used as a prefix for the CID, make sure they end with a slash
+   */
+  private normalizeGateway(gateway: string): string {
+    const trimmed = gateway.trim();
+    return trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
+  }
+
+  private loadFromStorage(): void {
+    try {
+      this.customGateway = localStorage.getItem(this.STORAGE_KEY);
+    } catch (error) {
+      console.warn('Failed to load IPFS gateway from storage:', error);
+      this.customGateway = null;
+    }
+  }
+
+  private saveToStorage(): void {
+    try {
+      if (this.customGateway) {
+        localStorage.setItem(this.STORAGE_KEY, this.customGateway);
+      } else {
+        localStorage.removeItem(this.STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Failed to save IPFS gateway to storage:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const ipfsGatewayService = IpfsGatewayService.getInstance();
@@ -0,0 +1,135 @@
+/**
+ * Log Scanner
+ *
+ * Resumable eth_getLogs scan shared by the allowance, token and NFT discovery services. Each
+ * service keeps its own scan state per network and address in localStorage, the scanner reads
+ * the logs of the blocks after the state's last scanned block and saves the state after every
+ * range so an interrupted scan resumes from there. A first scan starts at the genesis block,
+ * services whose logs can only exist once a contract is deployed start at its deployment block.
+ */
+
+import { ethers } from 'ethers';
+
+export interface LogScanState {
+  lastBlock: number; // -1 before the first scan
+}
+
+export type LogFetcher = (fromBlock: number, toBlock: number) => Promise<ethers.providers.Log[]>;
+
+export class LogScanner<T extends LogScanState> {
+  private static readonly MAX_BLOCK_RANGE = 50_000;
+  private static readonly MIN_BLOCK_RANGE = 1_000;
+
+  private provider: ethers.providers.Provider;
+  private storageKey: string;
+  private description: string;
+
+  /**
+   * @param storageKey localStorage key holding the scan states of every network and address
+   * @param description What is scanned, used in error messages (e.g. 'token approvals')
+   */
+  constructor(provider: ethers.providers.Provider, storageKey: string, description: string) {
+    this.provider = provider;
+    this.storageKey = storageKey;
+    this.description = description;
+  }
+
+  /**
+   * Scan the logs up to the latest block, each range's logs are passed to onLogs, which updates
+   * the state, before the state is saved with the range as last scanned block
+   */
+  async scan(
+    stateKey: string,
+    state: T,
+    fetchLogs: LogFetcher,
+    onLogs: (logs: ethers.providers.Log[]) => void | Promise<void>
+  ): Promise<void> {
+    const latestBlock = await this.provider.getBlockNumber();
+    let blockRange = LogScanner.MAX_BLOCK_RANGE;
+    let fromBlock = state.lastBlock + 1;
+
+    while (fromBlock <= latestBlock) {
+      const toBlock = Math.min(fromBlock + blockRange - 1, latestBlock);
+
+      let logs: ethers.providers.Log[];
+      try {
+        logs = await fetchLogs(fromBlock, toBlock);
+      } catch (error: any) {
+        // Providers limit the block range of eth_getLogs, retry with a smaller range
+        if (blockRange > LogScanner.MIN_BLOCK_RANGE) {
+          blockRange = Math.max(Math.floor(blockRange / 2), LogScanner.MIN_BLOCK_RANGE);
+          continue;
+        }
+        throw new Error(`Failed to scan ${this.description}: ${error.message || error}`);
+      }
+
+      await onLogs(logs);
+
+      state.lastBlock = toBlock;
+      this.saveState(stateKey, state);
+      fromBlock = toBlock + 1;
+    }
+  }
+
+  /**
+   * Find the block a contract was deployed at by bisecting eth_getCode over past blocks
+   * Returns 0 for addresses without code and when the node cannot serve historical state
+   */
+  async findDeploymentBlock(address: string): Promise<number> {
+    try {
+      let high = await this.provider.getBlockNumber();
+      if ((await this.provider.getCode(address, high)) === '0x') {
+        return 0;
+      }
+
+      let low = 0;
+      while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        if ((await this.provider.getCode(address, middle)) === '0x') {
+          low = middle + 1;
+        } else {
+          high = middle;
+        }
+      }
+      return low;
+    } catch (error) {
+      console.warn(`Failed to find the deployment block of ${address}, scanning ${this.description} from the genesis block:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the stored state of a network and address, fields missing from older versions are left out
+   */
+  loadState(stateKey: string): Partial<T> {
+    return this.loadStates()[stateKey] || {};
+  }
+
+  saveState(stateKey: string, state: T): void {
+    this.saveStates({ ...this.loadStates(), [stateKey]: state });
+  }
+
+  removeState(stateKey: string): void {
+    const states = this.loadStates();
+    delete states[stateKey];
+    this.saveStates(states);
+  }
+
+  private loadStates(): Record<string, T> {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn(`Failed to load ${this.description} scan state from storage:`, error);
+      return {};
+    }
+  }
+
+  private saveStates(states: Record<string, T>): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(states));
+    } catch (error) {
+      console.error(`Failed to save ${this.description} scan state to storage:`, error);
+    }
+  }
+}
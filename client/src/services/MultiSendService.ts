@@ -0,0 +1,198 @@
+import { ethers } from 'ethers';
+import { MULTI_SEND_CALL_ONLY_ABI, ERC20_ABI, getMultiSendCallOnlyAddress } from '../contracts/abis';
+import { TransactionRequest } from './SafeWalletService';
+
+/**
+ * A single call inside a MultiSend batch
+ */
+export interface BatchCall {
+  to: string;
+  value: string;
+  data: string;
+  operation: number;
+}
+
+/**
+ * Service for building and parsing MultiSendCallOnly batch transactions
+ */
+export class MultiSendService {
+  static readonly MULTI_SEND_SELECTOR = '0x8d80ff0a';
+
+  private static readonly multiSendInterface = new ethers.utils.Interface(MULTI_SEND_CALL_ONLY_ABI);
+
+  /**
+   * Create a batch call for a native ETH transfer
+   */
+  static createEthTransferCall(recipient: string, amount: string): BatchCall {
+    if (!ethers.utils.isAddress(recipient)) {
+      throw new Error('Invalid recipient address');
+    }
+
+    return {
+      to: ethers.utils.getAddress(recipient),
+      value: ethers.utils.parseEther(amount).toString(),
+      data: '0x',
+      operation: 0
+    };
+  }
+
+  /**
+   * Create a batch call for an ERC-20 token transfer
+   */
+  static createErc20TransferCall(
+    tokenAddress: string,
+    recipient: string,
+    amount: string,
+    decimals: number
+  ): BatchCall {
+    if (!ethers.utils.isAddress(tokenAddress)) {
+      throw new Error('Invalid token address');
+    }
+
+    if (!ethers.utils.isAddress(recipient)) {
+      throw new Error('Invalid recipient address');
+    }
+
+    const tokenInterface = new ethers.utils.Interface(ERC20_ABI);
+    const data = tokenInterface.encodeFunctionData('transfer', [
+      recipient,
+      ethers.utils.parseUnits(amount, decimals)
+    ]);
+
+    return {
+      to: ethers.utils.getAddress(tokenAddress),
+      value: '0',
+      data,
+      operation: 0
+    };
+  }
+
+  /**
+   * Create a batch call for an arbitrary contract interaction
+   */
+  static createContractCall(to: string, value: string, data: string): BatchCall {
+    if (!ethers.utils.isAddress(to)) {
+      throw new Error('Invalid contract address');
+    }
+
+    if (data && !ethers.utils.isHexString(data)) {
+      throw new Error('Call data must be a hex string');
+    }
+
+    return {
+      to: ethers.utils.getAddress(to),
+      value: ethers.utils.parseEther(value || '0').toString(),
+      data: data || '0x',
+      operation: 0
+    };
+  }
+
+  /**
+   * Pack batch calls into the MultiSend transactions byte string
+   * Each call is encoded as: operation (uint8) | to (address) | value (uint256) | dataLength (uint256) | data (bytes)
+   */
+  static encodeMultiSendTransactions(calls: BatchCall[]): string {
+    if (calls.length === 0) {
+      throw new Error('Batch must contain at least one call');
+    }
+
+    const packedCalls = calls.map((call, index) => {
+      // MultiSendCallOnly reverts on delegatecall sub-transactions
+      if (call.operation !== 0) {
+        throw new Error(`Call #${index + 1} uses delegatecall, which is not supported in a batch`);
+      }
+
+      const data = call.data || '0x';
+      return ethers.utils.solidityPack(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [call.operation, call.to, call.value, ethers.utils.hexDataLength(data), data]
+      );
+    });
+
+    return ethers.utils.hexConcat(packedCalls);
+  }
+
+  /**
+   * Parse a packed MultiSend transactions byte string back into batch calls
+   */
+  static decodeMultiSendTransactions(transactions: string): BatchCall[] {
+    const bytes = ethers.utils.arrayify(transactions);
+    const calls: BatchCall[] = [];
+    let offset = 0;
+
+    while (offset < bytes.length) {
+      // 1 + 20 + 32 + 32 bytes of fixed-size header
+      if (offset + 85 > bytes.length) {
+        throw new Error('Malformed MultiSend data: truncated call header');
+      }
+
+      const operation = bytes[offset];
+      const to = ethers.utils.getAddress(ethers.utils.hexlify(bytes.slice(offset + 1, offset + 21)));
+      const value = ethers.BigNumber.from(bytes.slice(offset + 21, offset + 53)).toString();
+      const dataLength = ethers.BigNumber.from(bytes.slice(offset + 53, offset + 85)).toNumber();
+      const dataStart = offset + 85;
+
+      if (dataStart + dataLength > bytes.length) {
+        throw new Error('Malformed MultiSend data: truncated call data');
+      }
+
+      calls.push({
+        to,
+        value,
+        data: ethers.utils.hexlify(bytes.slice(dataStart, dataStart + dataLength)),
+        operation
+      });
+
+      offset = dataStart + dataLength;
+    }
+
+    return calls;
+  }
+
+  /**
+   * Create multiSend(bytes) call data for a list of batch calls
+   */
+  static createMultiSendTxData(calls: BatchCall[]): string {
+    return this.multiSendInterface.encodeFunctionData('multiSend', [
+      this.encodeMultiSendTransactions(calls)
+    ]);
+  }
+
+  /**
+   * Check whether call data targets multiSend(bytes)
+   */
+  static isMultiSendData(data: string): boolean {
+    return !!data && data.toLowerCase().startsWith(this.MULTI_SEND_SELECTOR);
+  }
+
+  /**
+   * Decode multiSend(bytes) call data into its batch calls
+   */
+  static decodeMultiSendTxData(data: string): BatchCall[] {
+    if (!this.isMultiSendData(data)) {
+      throw new Error('Data is not a multiSend call');
+    }
+
+    const [transactions] = this.multiSendInterface.decodeFunctionData('multiSend', data);
+    return this.decodeMultiSendTransactions(transactions);
+  }
+
+  /**
+   * Create the Safe transaction request that executes a batch through MultiSendCallOnly
+   */
+  static createBatchTransactionRequest(network: string, calls: BatchCall[]): TransactionRequest {
+    const multiSendAddress = getMultiSendCallOnlyAddress(network);
+    if (!multiSendAddress) {
+      throw new Error(`MultiSendCallOnly contract not configured for network: ${network}`);
+    }
+
+    return {
+      to: multiSendAddress,
+      value: '0',
+      data: this.createMultiSendTxData(calls),
+      operation: 1 // DELEGATECALL into the MultiSend library
+    };
+  }
+}
+
+export default MultiSendService;
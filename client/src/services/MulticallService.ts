@@ -0,0 +1,215 @@
+/**
+ * Multicall Service
+ *
+ * Aggregates contract reads into Multicall3 aggregate3 calls so loading the pending queue,
+ * token balances and Safe info takes a handful of eth_calls instead of one per read.
+ * Individual calls may fail without failing the batch. Falls back to separate calls on
+ * chains where Multicall3 is not deployed.
+ */
+
+import { ethers } from 'ethers';
+import { MULTICALL3_ABI, getMulticall3Address } from '../contracts/abis';
+
+const MULTICALL3_INTERFACE = new ethers.utils.Interface(MULTICALL3_ABI);
+
+export interface MulticallCall {
+  target: string;
+  iface: ethers.utils.Interface;
+  method: string;
+  args?: any[];
+}
+
+export interface MulticallResult<T = any> {
+  success: boolean;
+  value: T | null; // Single return values are unwrapped, multiple are returned as ethers Result
+  error?: string;
+}
+
+interface PendingCall {
+  call: MulticallCall;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+}
+
+export class MulticallService {
+  private static readonly MAX_CALLS_PER_BATCH = 100;
+  private static readonly BATCH_WINDOW_MS = 10; // Calls made within this window share a batch
+
+  private provider: ethers.providers.Provider;
+  private network: string;
+  private pendingCalls: PendingCall[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private multicallAvailable: Promise<boolean> | null = null;
+
+  constructor(provider: ethers.providers.Provider, network: string) {
+    this.provider = provider;
+    this.network = network;
+  }
+
+  /**
+   * Queue a single read, it is sent together with the other reads made in the same batch window
+   * Rejects when the call reverts
+   */
+  call<T = any>(call: MulticallCall): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pendingCalls.push({ call, resolve, reject });
+
+      if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => this.flush(), MulticallService.BATCH_WINDOW_MS);
+      }
+    });
+  }
+
+  /**
+   * Execute reads in as few Multicall3 calls as possible
+   * Results are returned in call order, failed calls are reported instead of thrown
+   */
+  async aggregate<T = any>(calls: MulticallCall[]): Promise<MulticallResult<T>[]> {
+    if (calls.length === 0) {
+      return [];
+    }
+
+    const multicallAddress = getMulticall3Address(this.network);
+    if (!multicallAddress || !(await this.isMulticallAvailable(multicallAddress))) {
+      return Promise.all(calls.map(call => this.executeCall<T>(call)));
+    }
+
+    const results: MulticallResult<T>[] = [];
+    for (let i = 0; i < calls.length; i += MulticallService.MAX_CALLS_PER_BATCH) {
+      const batch = calls.slice(i, i + MulticallService.MAX_CALLS_PER_BATCH);
+      results.push(...await this.executeBatch<T>(multicallAddress, batch));
+    }
+
+    console.log(`📦 Multicall: ${calls.length} reads in ${Math.ceil(calls.length / MulticallService.MAX_CALLS_PER_BATCH)} call(s) on ${this.network}`);
+    return results;
+  }
+
+  /**
+   * Build a call to Multicall3's getEthBalance, so native balances can share a batch
+   */
+  getEthBalanceCall(address: string): MulticallCall {
+    return {
+      target: getMulticall3Address(this.network) || ethers.constants.AddressZero,
+      iface: MULTICALL3_INTERFACE,
+      method: 'getEthBalance',
+      args: [address]
+    };
+  }
+
+  /**
+   * Send all queued reads
+   */
+  private async flush(): Promise<void> {
+    const pending = this.pendingCalls;
+    this.pendingCalls = [];
+    this.flushTimer = null;
+
+    try {
+      const results = await this.aggregate(pending.map(p => p.call));
+      results.forEach((result, index) => {
+        if (result.success) {
+          pending[index].resolve(result.value);
+        } else {
+          pending[index].reject(new Error(result.error || `${pending[index].call.method} failed`));
+        }
+      });
+    } catch (error: any) {
+      pending.forEach(p => p.reject(error));
+    }
+  }
+
+  /**
+   * Execute one aggregate3 call, falling back to separate calls if the batch itself fails
+   */
+  private async executeBatch<T>(multicallAddress: string, calls: MulticallCall[]): Promise<MulticallResult<T>[]> {
+    try {
+      const data = MULTICALL3_INTERFACE.encodeFunctionData('aggregate3', [
+        calls.map(call => ({
+          target: call.target,
+          allowFailure: true,
+          callData: call.iface.encodeFunctionData(call.method, call.args || [])
+        }))
+      ]);
+
+      const response = await this.provider.call({ to: multicallAddress, data });
+      const [results] = MULTICALL3_INTERFACE.decodeFunctionResult('aggregate3', response);
+
+      return calls.map((call, index) => {
+        const { success, returnData } = results[index];
+        return success
+          ? this.decodeResult<T>(call, returnData)
+          : { success: false, value: null, error: this.decodeRevertReason(returnData) };
+      });
+    } catch (error: any) {
+      console.warn(`⚠️ Multicall batch failed on ${this.network}, falling back to separate calls:`, error.message || error);
+      return Promise.all(calls.map(call => this.executeCall<T>(call)));
+    }
+  }
+
+  /**
+   * Execute a single read without Multicall3
+   */
+  private async executeCall<T>(call: MulticallCall): Promise<MulticallResult<T>> {
+    try {
+      const data = call.iface.encodeFunctionData(call.method, call.args || []);
+      const returnData = await this.provider.call({ to: call.target, data });
+      return this.decodeResult<T>(call, returnData);
+    } catch (error: any) {
+      return { success: false, value: null, error: error.reason || error.message || String(error) };
+    }
+  }
+
+  private decodeResult<T>(call: MulticallCall, returnData: string): MulticallResult<T> {
+    try {
+      const decoded = call.iface.decodeFunctionResult(call.method, returnData);
+      return { success: true, value: (decoded.length === 1 ? decoded[0] : decoded) as T };
+    } catch (error: any) {
+      // Calls to addresses without code succeed with empty return data
+      return { success: false, value: null, error: `Invalid return data for ${call.method}` };
+    }
+  }
+
+  /**
+   * Decode an Error(string) revert reason, or describe the raw revert data
+   */
+  private decodeRevertReason(returnData: string): string {
+    try {
+      if (returnData.startsWith('0x08c379a0')) {
+        return ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(returnData, 4))[0];
+      }
+    } catch {
+      // Fall through to the raw data
+    }
+    return returnData === '0x' ? 'Call reverted' : `Call reverted with data ${returnData}`;
+  }
+
+  /**
+   * Check once whether Multicall3 is deployed on the network
+   */
+  private isMulticallAvailable(multicallAddress: string): Promise<boolean> {
+    if (!this.multicallAvailable) {
+      this.multicallAvailable = this.provider.getCode(multicallAddress)
+        .then(code => code !== '0x')
+        .catch(() => {
+          this.multicallAvailable = null; // Retry on the next batch
+          return false;
+        });
+    }
+    return this.multicallAvailable;
+  }
+}
+
+// Shared per provider so reads from different services land in the same batches
+const multicallServices = new WeakMap<ethers.providers.Provider, MulticallService>();
+
+/**
+ * Get the multicall service of a provider
+ */
+export const getMulticallService = (provider: ethers.providers.Provider, network: string): MulticallService => {
+  let service = multicallServices.get(provider);
+  if (!service) {
+    service = new MulticallService(provider, network);
+    multicallServices.set(provider, service);
+  }
+  return service;
+};
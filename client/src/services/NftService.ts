@@ -0,0 +1,368 @@
+/**
+ * NFT Service
+ *
+ * Discovers the ERC-721 and ERC-1155 tokens of an address from Transfer, TransferSingle and
+ * TransferBatch logs, verifies current ownership on-chain and loads token metadata.
+ *
+ * Logs are scanned incrementally (see LogScanner): the tokens seen so far and the last scanned
+ * block are stored per network and owner in localStorage, so later scans only cover new blocks.
+ * Logs only provide candidates, ownership is always checked with ownerOf / balanceOf, which also
+ * covers tokens that were sent away or transfers that were reorged out.
+ */
+
+import { ethers } from 'ethers';
+import { ERC721_ABI, ERC1155_ABI } from '../contracts/abis';
+import { LogScanner, LogScanState } from './LogScanner';
+import { getMulticallService, MulticallCall, MulticallService } from './MulticallService';
+import { ipfsGatewayService } from './IpfsGatewayService';
+import { BatchCall } from './MultiSendService';
+import { Asset } from '../components/wallet/types';
+
+const ERC721_INTERFACE = new ethers.utils.Interface(ERC721_ABI);
+const ERC1155_INTERFACE = new ethers.utils.Interface(ERC1155_ABI);
+
+// ERC-165 interface ids
+const ERC721_INTERFACE_ID = '0x80ac58cd';
+const ERC1155_INTERFACE_ID = '0xd9b67a26';
+
+export type NftStandard = 'erc721' | 'erc1155';
+
+export interface NftMetadata {
+  name?: string;
+  description?: string;
+  image?: string; // Resolved through the IPFS gateway
+  attributes?: { trait_type?: string; value: any }[];
+}
+
+export interface NftToken {
+  contractAddress: string; // Lowercased
+  tokenId: string;
+  standard: NftStandard;
+}
+
+export interface NftItem extends NftToken {
+  balance: string; // Always 1 for ERC-721
+  collectionName?: string;
+  collectionSymbol?: string;
+  metadata: NftMetadata | null;
+}
+
+export interface NftCollectionInfo {
+  name?: string;
+  symbol?: string;
+}
+
+interface NftDiscoveryState extends LogScanState {
+  tokens: NftToken[];
+}
+
+/**
+ * Expand the {id} placeholder of an ERC-1155 URI, the id is lowercase hex padded to 64 characters
+ */
+export const expandErc1155Uri = (uri: string, tokenId: string): string =>
+  uri.replace(/\{id\}/g, ethers.utils.hexZeroPad(ethers.BigNumber.from(tokenId).toHexString(), 32).slice(2));
+
+/**
+ * Extract the NFTs received by an owner from Transfer, TransferSingle and TransferBatch logs
+ * ERC-20 Transfer logs share the topic but have three topics instead of four and are skipped
+ */
+export const parseNftTransferLogs = (logs: ethers.providers.Log[]): NftToken[] => {
+  const tokens: NftToken[] = [];
+
+  logs.forEach(log => {
+    const contractAddress = log.address.toLowerCase();
+    try {
+      if (log.topics[0] === ERC721_INTERFACE.getEventTopic('Transfer')) {
+        if (log.topics.length === 4) {
+          tokens.push({ contractAddress, tokenId: ethers.BigNumber.from(log.topics[3]).toString(), standard: 'erc721' });
+        }
+        return;
+      }
+
+      const parsed = ERC1155_INTERFACE.parseLog(log);
+      const ids: ethers.BigNumber[] = parsed.name === 'TransferSingle' ? [parsed.args.id] : parsed.args.ids;
+      ids.forEach(id => tokens.push({ contractAddress, tokenId: id.toString(), standard: 'erc1155' }));
+    } catch (error) {
+      console.warn(`⚠️ Skipping malformed NFT transfer log in ${log.transactionHash}:`, error);
+    }
+  });
+
+  return tokens;
+};
+
+export class NftService {
+  private static readonly STORAGE_KEY = 'vito_nft_discovery';
+  private static readonly METADATA_TIMEOUT_MS = 10_000;
+
+  private provider: ethers.providers.Provider;
+  private network: string;
+  private multicall: MulticallService;
+  private scanner: LogScanner<NftDiscoveryState>;
+  private collectionCache: Map<string, NftCollectionInfo> = new Map();
+  private metadataCache: Map<string, NftMetadata | null> = new Map();
+  private standardCache: Map<string, NftStandard | null> = new Map();
+
+  constructor(provider: ethers.providers.Provider, network: string) {
+    this.provider = provider;
+    this.network = network;
+    this.multicall = getMulticallService(provider, network);
+    this.scanner = new LogScanner(provider, NftService.STORAGE_KEY, 'NFT transfers');
+  }
+
+  /**
+   * Get the NFTs currently held by an address, with collection info and metadata
+   */
+  async getNfts(owner: string): Promise<NftItem[]> {
+    const candidates = await this.discoverTokens(owner);
+    const owned = await this.verifyOwnership(owner, candidates);
+
+    console.log(`🖼️ ${owned.length} of ${candidates.length} discovered NFTs are held by ${owner} on ${this.network}`);
+
+    return Promise.all(owned.map(async ({ token, balance }) => {
+      const [collection, metadata] = await Promise.all([
+        this.getCollectionInfo(token.contractAddress),
+        this.getMetadata(token)
+      ]);
+
+      return {
+        ...token,
+        balance,
+        collectionName: collection.name,
+        collectionSymbol: collection.symbol,
+        metadata
+      };
+    }));
+  }
+
+  /**
+   * Scan the transfer logs since the last scan and return every NFT ever received by the owner
+   */
+  async discoverTokens(owner: string): Promise<NftToken[]> {
+    const stateKey = `${this.network}:${owner.toLowerCase()}`;
+    const stored = this.scanner.loadState(stateKey);
+    const state: NftDiscoveryState = { lastBlock: stored.lastBlock ?? -1, tokens: stored.tokens || [] };
+
+    await this.scanner.scan(
+      stateKey,
+      state,
+      (fromBlock, toBlock) => this.fetchTransferLogs(owner, fromBlock, toBlock),
+      logs => {
+        const known = new Set(state.tokens.map(token => this.getTokenKey(token)));
+        parseNftTransferLogs(logs).forEach(token => {
+          if (!known.has(this.getTokenKey(token))) {
+            known.add(this.getTokenKey(token));
+            state.tokens.push(token);
+          }
+        });
+      }
+    );
+
+    return state.tokens;
+  }
+
+  /**
+   * Keep the tokens the owner still holds, with their balance
+   */
+  async verifyOwnership(owner: string, tokens: NftToken[]): Promise<{ token: NftToken; balance: string }[]> {
+    const results = await this.multicall.aggregate(tokens.map(token => token.standard === 'erc721'
+      ? this.erc721Call(token.contractAddress, 'ownerOf', [token.tokenId])
+      : this.erc1155Call(token.contractAddress, 'balanceOf', [owner, token.tokenId])
+    ));
+
+    return tokens
+      .map((token, index) => {
+        const { success, value } = results[index];
+        if (!success || value === null) {
+          return null;
+        }
+        if (token.standard === 'erc721') {
+          return (value as string).toLowerCase() === owner.toLowerCase() ? { token, balance: '1' } : null;
+        }
+        return (value as ethers.BigNumber).isZero() ? null : { token, balance: value.toString() };
+      })
+      .filter((owned): owned is { token: NftToken; balance: string } => owned !== null);
+  }
+
+  /**
+   * Get the name and symbol of a collection, both are optional in ERC-721 and ERC-1155
+   */
+  async getCollectionInfo(contractAddress: string): Promise<NftCollectionInfo> {
+    const address = contractAddress.toLowerCase();
+    if (this.collectionCache.has(address)) {
+      return this.collectionCache.get(address)!;
+    }
+
+    let info: NftCollectionInfo = {};
+    try {
+      const [name, symbol] = await this.multicall.aggregate<string>([
+        this.erc721Call(address, 'name'),
+        this.erc721Call(address, 'symbol')
+      ]);
+      info = {
+        name: name.success && name.value ? name.value : undefined,
+        symbol: symbol.success && symbol.value ? symbol.value : undefined
+      };
+    } catch (error) {
+      console.warn(`⚠️ Could not load collection info for ${address}:`, error);
+    }
+
+    this.collectionCache.set(address, info);
+    return info;
+  }
+
+  /**
+   * Detect whether a contract is an ERC-721 or ERC-1155 collection with ERC-165
+   */
+  async getStandard(contractAddress: string): Promise<NftStandard | null> {
+    const address = contractAddress.toLowerCase();
+    if (this.standardCache.has(address)) {
+      return this.standardCache.get(address)!;
+    }
+
+    let standard: NftStandard | null = null;
+    try {
+      const [isErc721, isErc1155] = await this.multicall.aggregate<boolean>([
+        this.erc721Call(address, 'supportsInterface', [ERC721_INTERFACE_ID]),
+        this.erc721Call(address, 'supportsInterface', [ERC1155_INTERFACE_ID])
+      ]);
+      standard = isErc721.success && isErc721.value ? 'erc721' : isErc1155.success && isErc1155.value ? 'erc1155' : null;
+    } catch {
+      standard = null;
+    }
+
+    this.standardCache.set(address, standard);
+    return standard;
+  }
+
+  /**
+   * Load the metadata JSON of a token, null when the token has no URI or it cannot be fetched
+   */
+  async getMetadata(token: NftToken): Promise<NftMetadata | null> {
+    const key = this.getTokenKey(token);
+    if (this.metadataCache.has(key)) {
+      return this.metadataCache.get(key)!;
+    }
+
+    let metadata: NftMetadata | null = null;
+    try {
+      const uri = token.standard === 'erc721'
+        ? await this.multicall.call<string>(this.erc721Call(token.contractAddress, 'tokenURI', [token.tokenId]))
+        : expandErc1155Uri(await this.multicall.call<string>(this.erc1155Call(token.contractAddress, 'uri', [token.tokenId])), token.tokenId);
+
+      if (uri) {
+        const json = await this.fetchMetadataJson(uri);
+        const image = json.image || json.image_url || (json.image_data ? `data:image/svg+xml;utf8,${encodeURIComponent(json.image_data)}` : undefined);
+        metadata = {
+          name: json.name ? String(json.name) : undefined,
+          description: json.description ? String(json.description) : undefined,
+          image: image ? ipfsGatewayService.resolveUri(String(image)) : undefined,
+          attributes: Array.isArray(json.attributes) ? json.attributes : undefined
+        };
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not load metadata for ${token.contractAddress} #${token.tokenId}:`, error);
+    }
+
+    this.metadataCache.set(key, metadata);
+    return metadata;
+  }
+
+  /**
+   * Forget the scanned blocks of an owner so the next discovery rescans them
+   */
+  resetDiscovery(owner: string): void {
+    this.scanner.removeState(`${this.network}:${owner.toLowerCase()}`);
+  }
+
+  /**
+   * Build a safeTransferFrom call moving an NFT out of the Safe
+   */
+  static createTransferCall(token: NftToken, from: string, to: string, amount: string = '1'): BatchCall {
+    const data = token.standard === 'erc721'
+      ? ERC721_INTERFACE.encodeFunctionData('safeTransferFrom(address,address,uint256)', [from, to, token.tokenId])
+      : ERC1155_INTERFACE.encodeFunctionData('safeTransferFrom', [from, to, token.tokenId, amount, '0x']);
+
+    return { to: token.contractAddress, value: '0', data, operation: 0 };
+  }
+
+  /**
+   * Convert an NFT to the asset shape used by the wallet pages
+   */
+  static toAsset(item: NftItem): Asset {
+    const collectionName = item.collectionName || 'Unknown Collection';
+    return {
+      symbol: item.collectionSymbol || 'NFT',
+      name: item.metadata?.name || `${collectionName} #${item.tokenId}`,
+      balance: item.balance,
+      value: '',
+      type: item.standard,
+      contractAddress: item.contractAddress,
+      tokenId: item.tokenId,
+      collectionName,
+      imageUrl: item.metadata?.image,
+      description: item.metadata?.description
+    };
+  }
+
+  private async fetchTransferLogs(owner: string, fromBlock: number, toBlock: number): Promise<ethers.providers.Log[]> {
+    const ownerTopic = ethers.utils.hexZeroPad(owner.toLowerCase(), 32);
+
+    const [erc721Logs, erc1155Logs] = await Promise.all([
+      this.provider.getLogs({
+        fromBlock,
+        toBlock,
+        topics: [ERC721_INTERFACE.getEventTopic('Transfer'), null, ownerTopic]
+      }),
+      this.provider.getLogs({
+        fromBlock,
+        toBlock,
+        topics: [
+          [ERC1155_INTERFACE.getEventTopic('TransferSingle'), ERC1155_INTERFACE.getEventTopic('TransferBatch')],
+          null,
+          null,
+          ownerTopic
+        ]
+      })
+    ]);
+
+    return [...erc721Logs, ...erc1155Logs];
+  }
+
+  /**
+   * Fetch metadata JSON from an HTTP(S), IPFS, Arweave or data: URI
+   */
+  private async fetchMetadataJson(uri: string): Promise<any> {
+    const base64Prefix = 'data:application/json;base64,';
+    if (uri.startsWith(base64Prefix)) {
+      return JSON.parse(ethers.utils.toUtf8String(ethers.utils.base64.decode(uri.slice(base64Prefix.length))));
+    }
+    const inlineJson = uri.match(/^data:application\/json(?:;[^,]*)?,([\s\S]*)$/);
+    if (inlineJson) {
+      return JSON.parse(decodeURIComponent(inlineJson[1]));
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), NftService.METADATA_TIMEOUT_MS);
+    try {
+      const response = await fetch(ipfsGatewayService.resolveUri(uri), { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private getTokenKey(token: NftToken): string {
+    return `${token.contractAddress}:${token.tokenId}`;
+  }
+
+  private erc721Call(target: string, method: string, args: any[] = []): MulticallCall {
+    return { target, iface: ERC721_INTERFACE, method, args };
+  }
+
+  private erc1155Call(target: string, method: string, args: any[] = []): MulticallCall {
+    return { target, iface: ERC1155_INTERFACE, method, args };
+  }
+}
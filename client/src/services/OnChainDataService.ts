@@ -1,5 +1,6 @@
 import { ethers } from 'ethers';
 import { getProviderForNetwork } from '../utils/ens';
+import { CHAIN_REGISTRY, DEFAULT_NETWORK, getChainConfig } from '../config/chains';
 import { BlockchainTransactionService } from './BlockchainTransactionService';
 import { SAFE_ABI } from '../contracts/abis';
 
@@ -64,14 +65,8 @@ export class OnChainDataService {
   }
 
   private getSafeServiceUrl(network: string): string {
-    const urls = {
-      ethereum: 'https://safe-transaction-mainnet.safe.global',
-      sepolia: 'https://safe-transaction-sepolia.safe.global',
-      arbitrum: 'https://safe-transaction-arbitrum.safe.global',
-      gnosis: 'https://safe-transaction-gnosis-chain.safe.global'
-    };
-
-    return urls[network as keyof typeof urls] || urls.ethereum;
+    return getChainConfig(network)?.safeTransactionServiceUrl
+      || CHAIN_REGISTRY[DEFAULT_NETWORK].safeTransactionServiceUrl!;
   }
 
   /**
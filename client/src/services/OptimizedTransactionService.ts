@@ -2,7 +2,7 @@
  * Optimized transaction service with caching, pagination, and background loading
  */
 
-import { transactionCacheService, TransactionPage } from './TransactionCacheService';
+import { transactionCacheService, TransactionPage, CacheStats } from './TransactionCacheService';
 import { OnChainDataService } from './OnChainDataService';
 import { SafeWalletService } from './SafeWalletService';
 import { TransactionEnhancementService } from './TransactionEnhancementService';
@@ -32,10 +32,12 @@ export class OptimizedTransactionService {
   private onChainService: OnChainDataService;
   private safeWalletService: SafeWalletService;
   private enhancementService: TransactionEnhancementService;
+  private network: string;
   private readonly PAGE_SIZE = 20;
   private readonly PRELOAD_PAGES = 2;
 
   constructor(network: string = 'ethereum') {
+    this.network = network;
     this.onChainService = new OnChainDataService(network);
     this.safeWalletService = new SafeWalletService();
 
@@ -60,11 +62,12 @@ export class OptimizedTransactionService {
     page: number = 0,
     filters?: TransactionFilters
   ): Promise<TransactionPage> {
-    const cacheKey = `tx_history_${safeAddress}_${page}`;
+    const cacheKey = `tx_history_${this.network}_${safeAddress}_${page}`;
     
     // Try to get from cache first
     const cached = await transactionCacheService.getCachedTransactionPage(
-      safeAddress, 
+      this.network,
+      safeAddress,
       page, 
       filters
     );
@@ -83,6 +86,7 @@ export class OptimizedTransactionService {
         
         // Cache the result
         await transactionCacheService.cacheTransactionPage(
+          this.network,
           safeAddress,
           page,
           result,
@@ -282,6 +286,7 @@ export class OptimizedTransactionService {
     };
 
     await transactionCacheService.preloadNextPages(
+      this.network,
       safeAddress,
       currentPage,
       fetchPage,
@@ -305,14 +310,14 @@ export class OptimizedTransactionService {
   /**
    * Invalidate cache for a Safe address (call when new transaction is created)
    */
-  invalidateCache(safeAddress: string): void {
-    transactionCacheService.invalidateCache(safeAddress);
+  invalidateCache(safeAddress: string): Promise<void> {
+    return transactionCacheService.invalidateCache(this.network, safeAddress);
   }
 
   /**
    * Get cache statistics for debugging
    */
-  getCacheStats() {
+  getCacheStats(): Promise<CacheStats> {
     return transactionCacheService.getCacheStats();
   }
 
@@ -330,7 +335,7 @@ export class OptimizedTransactionService {
     let page = 0;
     
     while (results.length < maxResults) {
-      const cached = await transactionCacheService.getCachedTransactionPage(safeAddress, page);
+      const cached = await transactionCacheService.getCachedTransactionPage(this.network, safeAddress, page);
       if (!cached || !cached.hasMore) break;
       
       const matches = cached.transactions.filter(tx => 
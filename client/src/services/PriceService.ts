@@ -0,0 +1,341 @@
+/**
+ * Price Service
+ *
+ * Reads USD prices from Chainlink aggregators (latestRoundData) on the Safe's network, there is
+ * no off-chain price API. The feeds of the native asset and the major tokens come from the chain
+ * registry, the user can add or replace feeds per network from the Environment tab.
+ *
+ * Prices are read with one multicall and cached per network and block, so every view rendered for
+ * the same block shares a single read. Prices whose round is older than the feed's heartbeat are
+ * stale and left out, feeds without a heartbeat in the chain registry use DEFAULT_HEARTBEAT.
+ */
+
+import { ethers } from 'ethers';
+import { CHAINLINK_AGGREGATOR_ABI } from '../contracts/abis';
+import { getChainConfig } from '../config/chains';
+import { getMulticallService, MulticallCall } from './MulticallService';
+import { getRpcProvider } from './FailoverRpcProvider';
+import { Asset } from '../components/wallet/types';
+
+const AGGREGATOR_INTERFACE = new ethers.utils.Interface(CHAINLINK_AGGREGATOR_ABI);
+
+// Feed map key of the chain's native asset, tokens are keyed by their lowercased address
+export const NATIVE_PRICE_KEY = 'native';
+
+// Longest heartbeat of the Chainlink USD feeds, used for user feeds and feeds without one in the registry
+const DEFAULT_HEARTBEAT = 24 * 60 * 60;
+
+// Rounds land a little after the heartbeat elapses
+const HEARTBEAT_GRACE = 10 * 60;
+
+export interface TokenPrice {
+  usd: number;
+  feed: string;
+  updatedAt: number; // Unix time of the feed's latest round
+  blockNumber: number;
+}
+
+interface PriceSnapshot {
+  blockNumber: number;
+  prices: Record<string, TokenPrice>;
+}
+
+/**
+ * Format a USD amount for display
+ */
+export const formatUsd = (value: number): string => {
+  if (value > 0 && value < 0.01) {
+    return '< $0.01';
+  }
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+};
+
+class PriceService {
+  private static instance: PriceService;
+  private readonly STORAGE_KEY = 'vito_price_feeds';
+  private overrides: Record<string, Record<string, string>> = {};
+  private feedDecimals: Map<string, number> = new Map();
+  private snapshots: Map<string, PriceSnapshot> = new Map();
+  private pending: Map<string, Promise<PriceSnapshot>> = new Map();
+  private listeners: (() => void)[] = [];
+
+  private constructor() {
+    this.loadFromStorage();
+  }
+
+  public static getInstance(): PriceService {
+    if (!PriceService.instance) {
+      PriceService.instance = new PriceService();
+    }
+    return PriceService.instance;
+  }
+
+  /**
+   * Get the feeds of a network: the chain registry feeds with the user's feeds applied
+   */
+  public getFeeds(network: string): Record<string, string> {
+    const chain = getChainConfig(network);
+    const feeds: Record<string, string> = {};
+
+    if (chain?.nativePriceFeed) {
+      feeds[NATIVE_PRICE_KEY] = chain.nativePriceFeed;
+    }
+    chain?.tokens.forEach(token => {
+      if (token.priceFeed) {
+        feeds[token.address.toLowerCase()] = token.priceFeed;
+      }
+    });
+
+    return { ...feeds, ...this.getFeedOverrides(network) };
+  }
+
+  /**
+   * Get the feeds added or replaced by the user on a network
+   */
+  public getFeedOverrides(network: string): Record<string, string> {
+    return this.overrides[network.toLowerCase()] || {};
+  }
+
+  /**
+   * Set the feed of the native asset ('native') or of a token address
+   */
+  public setFeed(network: string, asset: string, feedAddress: string): void {
+    const key = this.getFeedKey(asset);
+    if (!ethers.utils.isAddress(feedAddress)) {
+      throw new Error('Invalid price feed address');
+    }
+
+    const networkKey = network.toLowerCase();
+    this.overrides = {
+      ...this.overrides,
+      [networkKey]: { ...this.getFeedOverrides(networkKey), [key]: ethers.utils.getAddress(feedAddress) }
+    };
+    this.saveToStorage(networkKey);
+  }
+
+  /**
+   * Remove a user feed, the chain registry feed is used again if there is one
+   */
+  public removeFeed(network: string, asset: string): void {
+    const networkKey = network.toLowerCase();
+    const key = this.getFeedKey(asset);
+    const remaining = { ...this.getFeedOverrides(networkKey) };
+    delete remaining[key];
+
+    this.overrides = { ...this.overrides, [networkKey]: remaining };
+    this.saveToStorage(networkKey);
+  }
+
+  /**
+   * Get the USD prices of every feed of a network at the latest block
+   * Feeds that revert, report a non-positive answer or are stale are left out
+   */
+  public async getPrices(
+    network: string,
+    provider: ethers.providers.Provider = getRpcProvider(network)
+  ): Promise<Record<string, TokenPrice>> {
+    const networkKey = network.toLowerCase();
+    const blockNumber = await provider.getBlockNumber();
+
+    const cached = this.snapshots.get(networkKey);
+    if (cached && cached.blockNumber === blockNumber) {
+      return cached.prices;
+    }
+
+    // Views loading at the same time share one read
+    const pendingKey = `${networkKey}:${blockNumber}`;
+    let pending = this.pending.get(pendingKey);
+    if (!pending) {
+      pending = this.readPrices(networkKey, provider, blockNumber).finally(() => this.pending.delete(pendingKey));
+      this.pending.set(pendingKey, pending);
+    }
+
+    const snapshot = await pending;
+    // A read of an older block finishing late must not replace the prices of a newer block
+    const latest = this.snapshots.get(networkKey);
+    if (!latest || snapshot.blockNumber >= latest.blockNumber) {
+      this.snapshots.set(networkKey, snapshot);
+    }
+    return snapshot.prices;
+  }
+
+  /**
+   * Get the USD price of the network's native asset, null without a feed
+   */
+  public async getNativePrice(network: string, provider?: ethers.providers.Provider): Promise<number | null> {
+    const prices = await this.getPrices(network, provider);
+    return prices[NATIVE_PRICE_KEY]?.usd ?? null;
+  }
+
+  /**
+   * Get the USD price of a token, null without a feed
+   */
+  public async getTokenPrice(network: string, tokenAddress: string, provider?: ethers.providers.Provider): Promise<number | null> {
+    const prices = await this.getPrices(network, provider);
+    return prices[tokenAddress.toLowerCase()]?.usd ?? null;
+  }
+
+  /**
+   * Set the USD price and value of the native asset and ERC-20 tokens
+   * Values are computed from the raw balance, assets without a feed or raw balance, and NFTs, get an empty value
+   */
+  public async priceAssets(network: string, assets: Asset[], provider?: ethers.providers.Provider): Promise<Asset[]> {
+    let prices: Record<string, TokenPrice> = {};
+    try {
+      prices = await this.getPrices(network, provider);
+    } catch (error) {
+      console.warn('⚠️ Failed to read price feeds:', error);
+    }
+
+    return assets.map(asset => {
+      const key = asset.type === 'native'
+        ? NATIVE_PRICE_KEY
+        : asset.type === 'erc20' && asset.contractAddress ? asset.contractAddress.toLowerCase() : null;
+      const price = key ? prices[key] : undefined;
+      if (!price) {
+        return { ...asset, value: '', priceUsd: undefined, valueUsd: undefined };
+      }
+
+      if (asset.rawBalance === undefined) {
+        return { ...asset, value: '', priceUsd: price.usd, valueUsd: undefined };
+      }
+
+      const valueUsd = parseFloat(ethers.utils.formatUnits(asset.rawBalance, asset.decimals ?? 18)) * price.usd;
+      return { ...asset, value: formatUsd(valueUsd), priceUsd: price.usd, valueUsd };
+    });
+  }
+
+  /**
+   * Subscribe to feed changes, returns an unsubscribe function
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private async readPrices(network: string, provider: ethers.providers.Provider, blockNumber: number): Promise<PriceSnapshot> {
+    const feeds = this.getFeeds(network);
+    const feedAddresses = Array.from(new Set(Object.values(feeds).map(feed => feed.toLowerCase())));
+    if (feedAddresses.length === 0) {
+      return { blockNumber, prices: {} };
+    }
+
+    // Decimals never change, they are only read once per feed
+    const missingDecimals = feedAddresses.filter(feed => !this.feedDecimals.has(feed));
+    const results = await getMulticallService(provider, network).aggregate([
+      ...feedAddresses.map(feed => this.aggregatorCall(feed, 'latestRoundData')),
+      ...missingDecimals.map(feed => this.aggregatorCall(feed, 'decimals'))
+    ]);
+
+    missingDecimals.forEach((feed, index) => {
+      const result = results[feedAddresses.length + index];
+      if (result.success && result.value !== null) {
+        this.feedDecimals.set(feed, Number(result.value));
+      }
+    });
+
+    const heartbeats = this.getHeartbeats(network);
+    const now = Math.floor(Date.now() / 1000);
+    const feedPrices = new Map<string, TokenPrice>();
+    feedAddresses.forEach((feed, index) => {
+      const result = results[index];
+      const decimals = this.feedDecimals.get(feed);
+      if (!result.success || !result.value || decimals === undefined) {
+        console.warn(`⚠️ Price feed ${feed} could not be read:`, result.error);
+        return;
+      }
+
+      const answer: ethers.BigNumber = result.value.answer;
+      if (answer.lte(0)) {
+        return;
+      }
+
+      const updatedAt = result.value.updatedAt.toNumber();
+      const heartbeat = heartbeats[feed] ?? DEFAULT_HEARTBEAT;
+      if (now - updatedAt > heartbeat + HEARTBEAT_GRACE) {
+        console.warn(`⚠️ Price feed ${feed} is stale, last updated ${Math.floor((now - updatedAt) / 60)} minutes ago`);
+        return;
+      }
+
+      feedPrices.set(feed, {
+        usd: parseFloat(ethers.utils.formatUnits(answer, decimals)),
+        feed,
+        updatedAt,
+        blockNumber
+      });
+    });
+
+    const prices: Record<string, TokenPrice> = {};
+    Object.entries(feeds).forEach(([key, feed]) => {
+      const price = feedPrices.get(feed.toLowerCase());
+      if (price) {
+        prices[key] = price;
+      }
+    });
+
+    console.log(`💱 Read ${feedPrices.size} of ${feedAddresses.length} price feeds on ${network} at block ${blockNumber}`);
+    return { blockNumber, prices };
+  }
+
+  /**
+   * Get the heartbeats of the chain registry feeds, keyed by lowercased feed address
+   */
+  private getHeartbeats(network: string): Record<string, number> {
+    const chain = getChainConfig(network);
+    const heartbeats: Record<string, number> = {};
+
+    if (chain?.nativePriceFeed && chain.nativePriceFeedHeartbeat) {
+      heartbeats[chain.nativePriceFeed.toLowerCase()] = chain.nativePriceFeedHeartbeat;
+    }
+    chain?.tokens.forEach(token => {
+      if (token.priceFeed && token.priceFeedHeartbeat) {
+        heartbeats[token.priceFeed.toLowerCase()] = token.priceFeedHeartbeat;
+      }
+    });
+
+    return heartbeats;
+  }
+
+  private aggregatorCall(feed: string, method: string): MulticallCall {
+    return { target: feed, iface: AGGREGATOR_INTERFACE, method };
+  }
+
+  private getFeedKey(asset: string): string {
+    if (asset === NATIVE_PRICE_KEY) {
+      return NATIVE_PRICE_KEY;
+    }
+    if (!ethers.utils.isAddress(asset)) {
+      throw new Error('Invalid token address');
+    }
+    return asset.toLowerCase();
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      this.overrides = stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load price feeds from storage:', error);
+      this.overrides = {};
+    }
+  }
+
+  private saveToStorage(network: string): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.overrides));
+    } catch (error) {
+      console.error('Failed to save price feeds to storage:', error);
+    }
+    // Prices read with the previous feeds are no longer valid
+    this.snapshots.delete(network);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const priceService = PriceService.getInstance();
@@ -1,16 +1,34 @@
 /**
  * RPC Configuration Service
  * 
- * Manages custom RPC URLs for different networks with localStorage persistence.
- * Provides fallback to default RPC URLs when custom URLs are not configured.
+ * Manages ordered lists of custom RPC endpoints for different networks with localStorage persistence.
+ * Provides fallback to default RPC URLs when custom URLs are not configured, and tracks the
+ * live health of every endpoint so requests can fail over to the best available one.
  */
 
 import { getRpcUrl as getDefaultRpcUrl } from '../contracts/abis';
+import { getChainConfigByChainId, getChainConfigOrDefault } from '../config/chains';
 
-export interface NetworkRpcConfig {
-  ethereum: string;
-  sepolia: string;
-  arbitrum: string;
+// Custom RPC endpoints keyed by network name (see config/chains.ts), in order of preference
+export type NetworkRpcConfig = Record<string, string[]>;
+
+export type RpcEndpointStatus = 'unknown' | 'healthy' | 'degraded' | 'rate-limited' | 'down';
+
+/**
+ * Live health of a single RPC endpoint, tracked in memory for the current session
+ */
+export interface RpcEndpointHealth {
+  url: string;
+  totalRequests: number;
+  failedRequests: number;
+  rateLimitedRequests: number;
+  consecutiveFailures: number;
+  averageLatency: number | null; // Exponential moving average in milliseconds
+  lastError?: string;
+  lastErrorAt?: number;
+  lastErrorRateLimited?: boolean;
+  lastSuccessAt?: number;
+  cooldownUntil: number; // Endpoint is skipped until this timestamp
 }
 
 export interface RpcValidationResult {
@@ -23,7 +41,13 @@ export interface RpcValidationResult {
 class RpcConfigService {
   private static instance: RpcConfigService;
   private readonly STORAGE_KEY = 'vito_custom_rpc_urls';
+  private readonly LATENCY_SMOOTHING = 0.3;
+  private readonly BASE_COOLDOWN_MS = 1000;
+  private readonly MAX_COOLDOWN_MS = 60000;
+  private readonly ORDER_PENALTY_MS = 250; // Preference given to endpoints listed earlier
   private customRpcUrls: Partial<NetworkRpcConfig> = {};
+  private endpointHealth: Map<string, RpcEndpointHealth> = new Map();
+  private listeners: (() => void)[] = [];
 
   private constructor() {
     this.loadFromStorage();
@@ -43,7 +67,12 @@ class RpcConfigService {
     try {
       const stored = localStorage.getItem(this.STORAGE_KEY);
       if (stored) {
-        this.customRpcUrls = JSON.parse(stored);
+        const parsed: Record<string, string | string[]> = JSON.parse(stored);
+
+        // Earlier versions stored a single URL per network
+        this.customRpcUrls = Object.fromEntries(
+          Object.entries(parsed).map(([network, urls]) => [network, Array.isArray(urls) ? urls : [urls]])
+        );
       }
     } catch (error) {
       console.warn('Failed to load custom RPC URLs from storage:', error);
@@ -64,40 +93,80 @@ class RpcConfigService {
 
   /**
    * Get RPC URL for a network (custom or default)
+   * Returns the best available endpoint based on the current health scores
    */
   public getRpcUrl(network: string): string {
-    const customUrl = this.customRpcUrls[network as keyof NetworkRpcConfig];
-    if (customUrl && this.isValidUrl(customUrl)) {
-      return customUrl;
-    }
-    return getDefaultRpcUrl(network);
+    return this.getOrderedRpcEndpoints(network)[0];
+  }
+
+  /**
+   * Get all RPC endpoints of a network in configured order
+   * Custom endpoints come first, the default endpoint is always kept as the last fallback
+   */
+  public getRpcEndpoints(network: string): string[] {
+    const customUrls = this.getCustomRpcEndpoints(network).filter(url => this.isValidUrl(url));
+    return Array.from(new Set([...customUrls, getDefaultRpcUrl(network)]));
+  }
+
+  /**
+   * Get the RPC endpoints of a network ranked by health and latency
+   * Endpoints that are cooling down after errors or rate limits are moved to the end
+   */
+  public getOrderedRpcEndpoints(network: string): string[] {
+    const now = Date.now();
+    const endpoints = this.getRpcEndpoints(network);
+
+    return endpoints
+      .map((url, index) => ({
+        url,
+        coolingDown: this.getEndpointHealth(url).cooldownUntil > now,
+        score: this.getEndpointScore(url, index)
+      }))
+      .sort((a, b) => Number(a.coolingDown) - Number(b.coolingDown) || a.score - b.score)
+      .map(endpoint => endpoint.url);
   }
 
   /**
    * Set custom RPC URL for a network
    */
-  public setCustomRpcUrl(network: keyof NetworkRpcConfig, url: string): void {
-    if (!url.trim()) {
-      // Remove custom URL if empty
+  public setCustomRpcUrl(network: string, url: string): void {
+    this.setCustomRpcEndpoints(network, url.trim() ? [url] : []);
+  }
+
+  /**
+   * Set the ordered list of custom RPC endpoints for a network
+   */
+  public setCustomRpcEndpoints(network: string, urls: string[]): void {
+    const endpoints = Array.from(new Set(urls.map(url => url.trim()).filter(Boolean)));
+    if (endpoints.length === 0) {
+      // Remove custom URLs if empty
       delete this.customRpcUrls[network];
     } else {
-      this.customRpcUrls[network] = url.trim();
+      this.customRpcUrls[network] = endpoints;
     }
     this.saveToStorage();
+    this.notifyListeners();
   }
 
   /**
    * Get custom RPC URL for a network (returns null if not set)
    */
-  public getCustomRpcUrl(network: keyof NetworkRpcConfig): string | null {
-    return this.customRpcUrls[network] || null;
+  public getCustomRpcUrl(network: string): string | null {
+    return this.getCustomRpcEndpoints(network)[0] || null;
+  }
+
+  /**
+   * Get the custom RPC endpoints of a network in configured order
+   */
+  public getCustomRpcEndpoints(network: string): string[] {
+    return [...(this.customRpcUrls[network] || [])];
   }
 
   /**
    * Check if a network has a custom RPC URL configured
    */
-  public hasCustomRpcUrl(network: keyof NetworkRpcConfig): boolean {
-    return Boolean(this.customRpcUrls[network]);
+  public hasCustomRpcUrl(network: string): boolean {
+    return this.getCustomRpcEndpoints(network).length > 0;
   }
 
   /**
@@ -110,9 +179,10 @@ class RpcConfigService {
   /**
    * Reset custom RPC URL for a network to default
    */
-  public resetToDefault(network: keyof NetworkRpcConfig): void {
+  public resetToDefault(network: string): void {
     delete this.customRpcUrls[network];
     this.saveToStorage();
+    this.notifyListeners();
   }
 
   /**
@@ -121,6 +191,129 @@ class RpcConfigService {
   public resetAllToDefaults(): void {
     this.customRpcUrls = {};
     this.saveToStorage();
+    this.notifyListeners();
+  }
+
+  /**
+   * Get the live health of an endpoint
+   */
+  public getEndpointHealth(url: string): RpcEndpointHealth {
+    return this.endpointHealth.get(url) || {
+      url,
+      totalRequests: 0,
+      failedRequests: 0,
+      rateLimitedRequests: 0,
+      consecutiveFailures: 0,
+      averageLatency: null,
+      cooldownUntil: 0
+    };
+  }
+
+  /**
+   * Get the status of an endpoint derived from its health
+   */
+  public getEndpointStatus(url: string): RpcEndpointStatus {
+    const health = this.getEndpointHealth(url);
+
+    if (health.totalRequests === 0) {
+      return 'unknown';
+    }
+    if (health.cooldownUntil > Date.now()) {
+      return health.lastErrorRateLimited ? 'rate-limited' : 'down';
+    }
+    if (health.consecutiveFailures > 0 || this.getEndpointErrorRate(url) > 0.1) {
+      return 'degraded';
+    }
+    return 'healthy';
+  }
+
+  /**
+   * Get the share of failed requests of an endpoint (0 to 1)
+   */
+  public getEndpointErrorRate(url: string): number {
+    const health = this.getEndpointHealth(url);
+    return health.totalRequests > 0 ? health.failedRequests / health.totalRequests : 0;
+  }
+
+  /**
+   * Record a successful request to an endpoint
+   */
+  public recordSuccess(url: string, latency: number): void {
+    const health = this.getEndpointHealth(url);
+
+    this.endpointHealth.set(url, {
+      ...health,
+      totalRequests: health.totalRequests + 1,
+      consecutiveFailures: 0,
+      averageLatency: health.averageLatency === null
+        ? latency
+        : health.averageLatency + this.LATENCY_SMOOTHING * (latency - health.averageLatency),
+      lastSuccessAt: Date.now(),
+      cooldownUntil: 0
+    });
+    this.notifyListeners();
+  }
+
+  /**
+   * Record a failed request to an endpoint and put it on cooldown with exponential backoff
+   * @param retryAfter Cooldown requested by the endpoint (Retry-After header) in milliseconds
+   */
+  public recordFailure(url: string, error: string, rateLimited: boolean = false, retryAfter?: number): void {
+    const health = this.getEndpointHealth(url);
+    const consecutiveFailures = health.consecutiveFailures + 1;
+    const backoff = Math.min(this.BASE_COOLDOWN_MS * 2 ** (consecutiveFailures - 1), this.MAX_COOLDOWN_MS);
+    const now = Date.now();
+
+    this.endpointHealth.set(url, {
+      ...health,
+      totalRequests: health.totalRequests + 1,
+      failedRequests: health.failedRequests + 1,
+      rateLimitedRequests: health.rateLimitedRequests + (rateLimited ? 1 : 0),
+      consecutiveFailures,
+      lastError: error,
+      lastErrorAt: now,
+      lastErrorRateLimited: rateLimited,
+      cooldownUntil: now + Math.min(Math.max(backoff, retryAfter || 0), this.MAX_COOLDOWN_MS)
+    });
+
+    console.warn(`⚠️ RPC endpoint ${url} failed (${consecutiveFailures} in a row): ${error}`);
+    this.notifyListeners();
+  }
+
+  /**
+   * Subscribe to endpoint configuration and health changes
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in RPC config listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Score an endpoint for ranking, lower is better
+   * Combines average latency, error rate and the position in the configured list
+   */
+  private getEndpointScore(url: string, index: number): number {
+    const health = this.getEndpointHealth(url);
+    const latency = health.averageLatency ?? 500; // Assume an average endpoint until measured
+
+    return latency * (1 + 5 * this.getEndpointErrorRate(url)) + index * this.ORDER_PENALTY_MS;
   }
 
   /**
@@ -218,32 +411,14 @@ class RpcConfigService {
    * Get expected chain ID for a network
    */
   public getExpectedChainId(network: string): number {
-    switch (network.toLowerCase()) {
-      case 'ethereum':
-        return 1;
-      case 'sepolia':
-        return 11155111;
-      case 'arbitrum':
-        return 42161;
-      default:
-        return 1;
-    }
+    return getChainConfigOrDefault(network).chainId;
   }
 
   /**
    * Get network name from chain ID
    */
   public getNetworkFromChainId(chainId: number): string | null {
-    switch (chainId) {
-      case 1:
-        return 'ethereum';
-      case 11155111:
-        return 'sepolia';
-      case 42161:
-        return 'arbitrum';
-      default:
-        return null;
-    }
+    return getChainConfigByChainId(chainId)?.network || null;
   }
 }
 
@@ -0,0 +1,216 @@
+/**
+ * RPC Request Queue
+ *
+ * Shared queue for the JSON-RPC requests of all read-only providers. Limits the number of
+ * concurrent requests, fails over between the endpoints of a network and backs off when
+ * endpoints return errors or rate-limit us.
+ */
+
+import { rpcConfigService } from './RpcConfigService';
+
+/**
+ * Error of an endpoint that did not answer the request (network error, HTTP error, rate limit)
+ * These errors trigger failover, JSON-RPC errors such as reverts are returned to the caller
+ */
+interface RpcTransportError extends Error {
+  rateLimited: boolean;
+  retryAfter?: number;
+}
+
+class RpcRequestQueue {
+  private static instance: RpcRequestQueue;
+  private readonly MAX_CONCURRENT_REQUESTS = 8;
+  private readonly MAX_ROUNDS = 3; // Passes over all endpoints before giving up
+  private readonly REQUEST_TIMEOUT_MS = 15000;
+  private readonly BASE_BACKOFF_MS = 500;
+  private readonly MAX_BACKOFF_MS = 10000;
+  private activeRequests = 0;
+  private waiting: (() => void)[] = [];
+  private nextRequestId = 1;
+
+  public static getInstance(): RpcRequestQueue {
+    if (!RpcRequestQueue.instance) {
+      RpcRequestQueue.instance = new RpcRequestQueue();
+    }
+    return RpcRequestQueue.instance;
+  }
+
+  /**
+   * Send a JSON-RPC request for a network through the queue
+   * @param endpoints Endpoints to use instead of the configured endpoints of the network
+   */
+  public async send(network: string, method: string, params: Array<any>, endpoints?: string[]): Promise<any> {
+    await this.acquire();
+    try {
+      return await this.sendWithFailover(network, method, params, endpoints);
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Get the number of requests in flight and waiting for a slot
+   */
+  public getStats(): { active: number; queued: number } {
+    return { active: this.activeRequests, queued: this.waiting.length };
+  }
+
+  private acquire(): Promise<void> {
+    if (this.activeRequests < this.MAX_CONCURRENT_REQUESTS) {
+      this.activeRequests++;
+      return Promise.resolve();
+    }
+    // The slot is handed over by release() without decrementing the counter
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.activeRequests--;
+    }
+  }
+
+  /**
+   * Try the endpoints of a network in health order, backing off between passes
+   */
+  private async sendWithFailover(network: string, method: string, params: Array<any>, endpoints?: string[]): Promise<any> {
+    let lastError: RpcTransportError | null = null;
+
+    for (let round = 0; round < this.MAX_ROUNDS; round++) {
+      for (const url of endpoints || rpcConfigService.getOrderedRpcEndpoints(network)) {
+        if (rpcConfigService.getEndpointHealth(url).cooldownUntil > Date.now()) {
+          continue;
+        }
+
+        const startTime = Date.now();
+        try {
+          const result = await this.post(url, method, params);
+          rpcConfigService.recordSuccess(url, Date.now() - startTime);
+          return result;
+        } catch (error: any) {
+          if (!this.isTransportError(error)) {
+            // The endpoint answered, the request itself failed (e.g. execution reverted)
+            rpcConfigService.recordSuccess(url, Date.now() - startTime);
+            throw error;
+          }
+          rpcConfigService.recordFailure(url, error.message, error.rateLimited, error.retryAfter);
+          lastError = error;
+        }
+      }
+
+      if (round < this.MAX_ROUNDS - 1) {
+        await this.delay(this.getBackoffDelay(endpoints || rpcConfigService.getRpcEndpoints(network), round));
+      }
+    }
+
+    throw new Error(`Failed to send ${method} on ${network}: ${lastError?.message || 'all RPC endpoints are cooling down'}`);
+  }
+
+  /**
+   * Wait until the first endpoint leaves its cooldown, with exponential backoff as the minimum
+   */
+  private getBackoffDelay(endpoints: string[], round: number): number {
+    const now = Date.now();
+    const nextAvailable = Math.min(...endpoints.map(url => rpcConfigService.getEndpointHealth(url).cooldownUntil));
+    const backoff = this.BASE_BACKOFF_MS * 2 ** round;
+
+    return Math.min(Math.max(backoff, nextAvailable - now), this.MAX_BACKOFF_MS);
+  }
+
+  /**
+   * Post a JSON-RPC request to a single endpoint
+   */
+  private async post(url: string, method: string, params: Array<any>): Promise<any> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          method,
+          params,
+          id: this.nextRequestId++
+        }),
+        signal: controller.signal
+      });
+    } catch (error: any) {
+      throw this.createTransportError(
+        error.name === 'AbortError' ? `Request timed out after ${this.REQUEST_TIMEOUT_MS}ms` : error.message || 'Network error'
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (response.status === 429) {
+      throw this.createTransportError('HTTP 429: Too Many Requests', true, this.parseRetryAfter(response.headers.get('Retry-After')));
+    }
+
+    if (!response.ok) {
+      throw this.createTransportError(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    let payload: any;
+    try {
+      payload = await response.json();
+    } catch {
+      throw this.createTransportError('Invalid JSON-RPC response');
+    }
+
+    if (payload.error) {
+      const message = payload.error.message || 'RPC error';
+
+      // Some providers report rate limits as JSON-RPC errors instead of HTTP 429
+      if (payload.error.code === -32005 || /rate limit|too many requests/i.test(message)) {
+        throw this.createTransportError(message, true);
+      }
+
+      // Keep code and data so ethers can decode revert reasons
+      const error: any = new Error(message);
+      error.code = payload.error.code;
+      error.data = payload.error.data;
+      throw error;
+    }
+
+    return payload.result;
+  }
+
+  private createTransportError(message: string, rateLimited: boolean = false, retryAfter?: number): RpcTransportError {
+    return Object.assign(new Error(message), { rateLimited, retryAfter });
+  }
+
+  private isTransportError(error: any): error is RpcTransportError {
+    return typeof error?.rateLimited === 'boolean';
+  }
+
+  /**
+   * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+   */
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export const rpcRequestQueue = RpcRequestQueue.getInstance();
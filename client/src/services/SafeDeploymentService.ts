@@ -0,0 +1,280 @@
+import { ethers } from 'ethers';
+import {
+  SAFE_ABI,
+  SAFE_PROXY_FACTORY_ABI,
+  getSafeProxyFactoryAddress,
+  getSafeSingletonAddress,
+  getSafeTxPoolRegistryAddress
+} from '../contracts/abis';
+import { isValidAddress } from '../utils/addressUtils';
+import { BatchCall, MultiSendService } from './MultiSendService';
+import { SafeGuardService } from './SafeGuardService';
+import { createSafeTxPoolService } from './SafeTxPoolService';
+import { SafeWalletService } from './SafeWalletService';
+
+/**
+ * Owners, threshold and salt used to deploy a new Safe proxy
+ */
+export interface SafeDeploymentConfig {
+  owners: string[];
+  threshold: number;
+  saltNonce: string;
+  fallbackHandler?: string;
+}
+
+/**
+ * Trusted contract registered in the SafeTxPool registry after deployment
+ */
+export interface InitialTrustedContract {
+  address: string;
+  name: string;
+}
+
+export interface SafeDeploymentResult {
+  safeAddress: string;
+  transactionHash: string;
+}
+
+/**
+ * Service for deploying new Safe wallets through the SafeProxyFactory
+ */
+export class SafeDeploymentService {
+  // CompatibilityFallbackHandler v1.4.1 (same address on all supported networks)
+  static readonly DEFAULT_FALLBACK_HANDLER = '0xfd0732Dc9E303f09fCEf3a7388Ad10A83459Ec99';
+
+  private static readonly safeInterface = new ethers.utils.Interface(SAFE_ABI);
+
+  /**
+   * Validate the owners and threshold of a new Safe
+   * Returns an error message, or null when the configuration is valid
+   */
+  static validateDeploymentConfig(owners: string[], threshold: number): string | null {
+    if (owners.length === 0) {
+      return 'At least one owner is required';
+    }
+
+    const seen = new Set<string>();
+    for (const owner of owners) {
+      if (!isValidAddress(owner)) {
+        return `Invalid owner address: ${owner}`;
+      }
+      if (owner.toLowerCase() === ethers.constants.AddressZero) {
+        return 'The zero address cannot be an owner';
+      }
+      if (seen.has(owner.toLowerCase())) {
+        return `Duplicate owner address: ${owner}`;
+      }
+      seen.add(owner.toLowerCase());
+    }
+
+    if (!Number.isInteger(threshold) || threshold < 1) {
+      return 'Threshold must be at least 1';
+    }
+
+    if (threshold > owners.length) {
+      return 'Threshold cannot exceed the number of owners';
+    }
+
+    return null;
+  }
+
+  /**
+   * Generate a random salt nonce for a new deployment
+   */
+  static generateSaltNonce(): string {
+    return ethers.BigNumber.from(ethers.utils.randomBytes(8)).toString();
+  }
+
+  /**
+   * Encode the Safe setup() initializer passed to the proxy factory
+   */
+  static encodeSetupData(config: SafeDeploymentConfig): string {
+    return this.safeInterface.encodeFunctionData('setup', [
+      config.owners.map(owner => ethers.utils.getAddress(owner)),
+      config.threshold,
+      ethers.constants.AddressZero, // No setup delegatecall
+      '0x',
+      config.fallbackHandler || this.DEFAULT_FALLBACK_HANDLER,
+      ethers.constants.AddressZero, // Payment token (ETH)
+      0, // No deployment refund
+      ethers.constants.AddressZero
+    ]);
+  }
+
+  /**
+   * Calculate the CREATE2 address of a proxy deployed with createProxyWithNonce
+   */
+  static calculateProxyAddress(
+    factoryAddress: string,
+    singletonAddress: string,
+    initializer: string,
+    saltNonce: string,
+    proxyCreationCode: string
+  ): string {
+    const salt = ethers.utils.solidityKeccak256(
+      ['bytes32', 'uint256'],
+      [ethers.utils.keccak256(initializer), saltNonce]
+    );
+    const deploymentData = ethers.utils.solidityPack(
+      ['bytes', 'uint256'],
+      [proxyCreationCode, singletonAddress]
+    );
+
+    return ethers.utils.getCreate2Address(factoryAddress, salt, ethers.utils.keccak256(deploymentData));
+  }
+
+  /**
+   * Predict the counterfactual address of a new Safe before it is deployed
+   */
+  static async predictSafeAddress(
+    provider: ethers.providers.Provider,
+    network: string,
+    config: SafeDeploymentConfig
+  ): Promise<string> {
+    const { factoryAddress, singletonAddress } = this.getDeploymentAddresses(network);
+
+    try {
+      const factory = new ethers.Contract(factoryAddress, SAFE_PROXY_FACTORY_ABI, provider);
+      const proxyCreationCode: string = await factory.proxyCreationCode();
+
+      return this.calculateProxyAddress(
+        factoryAddress,
+        singletonAddress,
+        this.encodeSetupData(config),
+        config.saltNonce,
+        proxyCreationCode
+      );
+    } catch (error: any) {
+      console.error('❌ SafeDeploymentService: Failed to predict Safe address:', error);
+      throw new Error(`Failed to predict Safe address: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Check if a contract is already deployed at an address
+   */
+  static async isDeployed(provider: ethers.providers.Provider, address: string): Promise<boolean> {
+    const code = await provider.getCode(address);
+    return code !== '0x';
+  }
+
+  /**
+   * Deploy a new Safe proxy through SafeProxyFactory.createProxyWithNonce
+   */
+  static async deploySafe(
+    signer: ethers.Signer,
+    network: string,
+    config: SafeDeploymentConfig
+  ): Promise<SafeDeploymentResult> {
+    const validationError = this.validateDeploymentConfig(config.owners, config.threshold);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    if (!signer.provider) {
+      throw new Error('Signer must be connected to a provider');
+    }
+
+    const { factoryAddress, singletonAddress } = this.getDeploymentAddresses(network);
+    const predictedAddress = await this.predictSafeAddress(signer.provider, network, config);
+
+    if (await this.isDeployed(signer.provider, predictedAddress)) {
+      throw new Error(`A Safe is already deployed at ${predictedAddress}. Use a different salt nonce.`);
+    }
+
+    try {
+      console.log('🏗️ SafeDeploymentService: Deploying Safe', { network, predictedAddress, ...config });
+
+      const factory = new ethers.Contract(factoryAddress, SAFE_PROXY_FACTORY_ABI, signer);
+      const tx = await factory.createProxyWithNonce(singletonAddress, this.encodeSetupData(config), config.saltNonce);
+      console.log('📤 Deployment transaction sent:', tx.hash);
+
+      const receipt = await tx.wait();
+
+      // Take the proxy address from the ProxyCreation event when available
+      const creationEvent = receipt.events?.find((event: any) => event.event === 'ProxyCreation');
+      const safeAddress = creationEvent?.args?.proxy
+        ? ethers.utils.getAddress(creationEvent.args.proxy)
+        : predictedAddress;
+
+      if (safeAddress.toLowerCase() !== predictedAddress.toLowerCase()) {
+        console.warn(`⚠️ Deployed Safe ${safeAddress} does not match predicted address ${predictedAddress}`);
+      }
+
+      console.log('✅ SafeDeploymentService: Safe deployed at', safeAddress);
+      return { safeAddress, transactionHash: receipt.transactionHash };
+    } catch (error: any) {
+      console.error('❌ SafeDeploymentService: Failed to deploy Safe:', error);
+      throw new Error(`Failed to deploy Safe: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Build the calls that configure a guard and trusted contracts on a freshly deployed Safe
+   * Trusted contracts are registered before the guard is enabled so the setup is not blocked by it
+   */
+  static createInitialConfigurationCalls(
+    network: string,
+    safeAddress: string,
+    guardAddress: string | null,
+    trustedContracts: InitialTrustedContract[]
+  ): BatchCall[] {
+    const calls: BatchCall[] = [];
+
+    if (trustedContracts.length > 0) {
+      const registryAddress = getSafeTxPoolRegistryAddress(network);
+      if (!registryAddress) {
+        throw new Error(`SafeTxPool registry not configured for network: ${network}`);
+      }
+
+      const safeTxPoolService = createSafeTxPoolService(network);
+      for (const contract of trustedContracts) {
+        const data = safeTxPoolService.createAddTrustedContractTxData(safeAddress, contract.address, contract.name);
+        calls.push(MultiSendService.createContractCall(registryAddress, '0', data));
+      }
+    }
+
+    if (guardAddress) {
+      const guardTx = SafeGuardService.createSetGuardTransaction(safeAddress, guardAddress, 0);
+      calls.push(MultiSendService.createContractCall(guardTx.to, guardTx.value, guardTx.data));
+    }
+
+    return calls;
+  }
+
+  /**
+   * Propose the initial configuration calls as separate CALL transactions with nonces 0, 1, ...
+   * A MultiSend batch would be a delegatecall, which the SafeTxPool rejects on a new Safe
+   */
+  static async proposeInitialConfiguration(
+    safeService: Pick<SafeWalletService, 'proposeUnsignedTransaction'>,
+    calls: BatchCall[]
+  ): Promise<string[]> {
+    const txHashes: string[] = [];
+
+    // One proposal at a time, each needs the wallet's confirmation
+    for (let nonce = 0; nonce < calls.length; nonce++) {
+      const { to, value, data } = calls[nonce];
+      const proposed = await safeService.proposeUnsignedTransaction({ to, value, data, operation: 0 }, nonce);
+      txHashes.push(proposed.txHash);
+    }
+
+    return txHashes;
+  }
+
+  /**
+   * Resolve the proxy factory and singleton used on a network
+   */
+  private static getDeploymentAddresses(network: string): { factoryAddress: string; singletonAddress: string } {
+    const factoryAddress = getSafeProxyFactoryAddress(network);
+    const singletonAddress = getSafeSingletonAddress(network);
+
+    if (!factoryAddress || !singletonAddress) {
+      throw new Error(`Safe deployment contracts not configured for network: ${network}`);
+    }
+
+    return { factoryAddress, singletonAddress };
+  }
+}
+
+export default SafeDeploymentService;
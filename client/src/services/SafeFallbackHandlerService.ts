@@ -0,0 +1,132 @@
+import { ethers } from 'ethers';
+import { SafeTransactionData } from '../utils/eip712';
+import { isValidAddress } from '../utils/addressUtils';
+
+/**
+ * Service for inspecting and changing the fallback handler of Safe wallets
+ */
+export class SafeFallbackHandlerService {
+  // keccak256("fallback_manager.handler.address")
+  static readonly FALLBACK_HANDLER_STORAGE_SLOT = '0x6c9a6c4a39284e37ed1cf53d337577d14212a4870fb976a4366c693b939918d5';
+
+  // Canonical fallback handler deployments (same address on all supported networks)
+  private static readonly KNOWN_HANDLERS: Record<string, string> = {
+    '0xd5d82b6addc9027b22dca772aa68d5d74cdbdf44': 'DefaultCallbackHandler v1.1.1',
+    '0xf48f2b2d2a534e402487b3ee7c18c33aec0fe5e4': 'CompatibilityFallbackHandler v1.3.0',
+    '0x017062a1de2fe6b99be3d9d37841fed19f573804': 'CompatibilityFallbackHandler v1.3.0 (EIP-155)',
+    '0xfd0732dc9e303f09fcef3a7388ad10a83459ec99': 'CompatibilityFallbackHandler v1.4.1',
+    '0xedcf620325e82e3b9836eaaefdc4283e99dd7562': 'TokenCallbackHandler v1.4.1'
+  };
+
+  /**
+   * Create a Safe transaction for changing the fallback handler
+   * Passing the zero address removes the handler
+   */
+  static createSetFallbackHandlerTransaction(
+    safeAddress: string,
+    handlerAddress: string,
+    nonce: number
+  ): SafeTransactionData {
+    console.log('🔁 SafeFallbackHandlerService: Creating setFallbackHandler transaction', { safeAddress, handlerAddress, nonce });
+
+    if (!isValidAddress(safeAddress)) {
+      throw new Error('Invalid Safe address format');
+    }
+
+    if (!isValidAddress(handlerAddress)) {
+      throw new Error('Invalid fallback handler address format');
+    }
+
+    if (handlerAddress.toLowerCase() === safeAddress.toLowerCase()) {
+      throw new Error('Cannot set the Safe itself as its fallback handler');
+    }
+
+    const safeInterface = new ethers.utils.Interface([
+      'function setFallbackHandler(address handler)'
+    ]);
+
+    return {
+      to: safeAddress, // Transaction to the Safe itself
+      value: '0',
+      data: safeInterface.encodeFunctionData('setFallbackHandler', [handlerAddress]),
+      operation: 0, // CALL operation
+      safeTxGas: '0',
+      baseGas: '0',
+      gasPrice: '0',
+      gasToken: ethers.constants.AddressZero,
+      refundReceiver: ethers.constants.AddressZero,
+      nonce
+    };
+  }
+
+  /**
+   * Decode the fallback handler address from the raw storage slot value
+   */
+  static parseFallbackHandlerStorage(storageValue: string): string {
+    return ethers.utils.getAddress('0x' + storageValue.slice(-40));
+  }
+
+  /**
+   * Get the display name of a known fallback handler, or null if unknown
+   */
+  static getHandlerName(handlerAddress: string): string | null {
+    return this.KNOWN_HANDLERS[handlerAddress.toLowerCase()] || null;
+  }
+
+  /**
+   * Check if a fallback handler address is the zero address (no handler set)
+   */
+  static isHandlerRemoved(handlerAddress: string): boolean {
+    return handlerAddress === ethers.constants.AddressZero;
+  }
+
+  /**
+   * Validate a new fallback handler and collect warnings for risky changes
+   */
+  static async validateFallbackHandler(
+    handlerAddress: string,
+    safeAddress: string,
+    provider: ethers.providers.Provider
+  ): Promise<{ isValid: boolean; error?: string; warnings: string[] }> {
+    if (!handlerAddress || handlerAddress.trim().length === 0) {
+      return { isValid: false, error: 'Fallback handler address is required', warnings: [] };
+    }
+
+    if (!isValidAddress(handlerAddress)) {
+      return { isValid: false, error: 'Invalid Ethereum address format', warnings: [] };
+    }
+
+    if (handlerAddress.toLowerCase() === safeAddress.toLowerCase()) {
+      return { isValid: false, error: 'Cannot set the Safe itself as its fallback handler', warnings: [] };
+    }
+
+    if (this.isHandlerRemoved(handlerAddress)) {
+      return {
+        isValid: true,
+        warnings: [
+          'Removing the fallback handler disables EIP-1271 signature validation and token receiver callbacks.',
+          'The Safe will no longer be able to receive ERC-721 and ERC-1155 tokens via safeTransferFrom.'
+        ]
+      };
+    }
+
+    const warnings: string[] = [];
+
+    try {
+      const code = await provider.getCode(handlerAddress);
+      if (code === '0x') {
+        warnings.push('Address has no contract code. Calls forwarded to it will silently succeed without any handler logic.');
+      }
+    } catch (error) {
+      warnings.push(`Could not verify contract code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!this.getHandlerName(handlerAddress)) {
+      warnings.push('This is not a known Safe fallback handler deployment. A malicious handler can answer EIP-1271 checks on behalf of the Safe.');
+    }
+
+    return { isValid: true, warnings };
+  }
+}
+
+export default SafeFallbackHandlerService;
@@ -65,6 +65,38 @@ export class SafeManagementService {
     ]);
   }
 
+  /**
+   * Create transaction data for replacing an owner with a new one
+   */
+  static createSwapOwnerTxData(
+    prevOwner: string,
+    oldOwner: string,
+    newOwner: string
+  ): string {
+    if (!ethers.utils.isAddress(prevOwner)) {
+      throw new Error('Invalid previous owner address');
+    }
+
+    if (!ethers.utils.isAddress(oldOwner)) {
+      throw new Error('Invalid owner address to replace');
+    }
+
+    if (!ethers.utils.isAddress(newOwner)) {
+      throw new Error('Invalid new owner address');
+    }
+
+    // Create Safe contract interface for swapOwner function
+    const safeInterface = new ethers.utils.Interface([
+      'function swapOwner(address prevOwner, address oldOwner, address newOwner)'
+    ]);
+
+    return safeInterface.encodeFunctionData('swapOwner', [
+      prevOwner,
+      oldOwner,
+      newOwner
+    ]);
+  }
+
   /**
    * Create transaction data for changing threshold
    */
@@ -132,6 +164,32 @@ export class SafeManagementService {
     };
   }
 
+  /**
+   * Create a Safe transaction for replacing an owner (owner count and threshold stay unchanged)
+   */
+  static createSwapOwnerTransaction(
+    safeAddress: string,
+    prevOwner: string,
+    oldOwner: string,
+    newOwner: string,
+    nonce: number
+  ): SafeTransactionData {
+    const data = this.createSwapOwnerTxData(prevOwner, oldOwner, newOwner);
+
+    return {
+      to: safeAddress, // Transaction to the Safe itself
+      value: '0',
+      data,
+      operation: 0, // CALL operation
+      safeTxGas: '0',
+      baseGas: '0',
+      gasPrice: '0',
+      gasToken: ethers.constants.AddressZero,
+      refundReceiver: ethers.constants.AddressZero,
+      nonce
+    };
+  }
+
   /**
    * Create a Safe transaction for changing threshold
    */
@@ -178,6 +236,33 @@ export class SafeManagementService {
     return owners[ownerIndex - 1];
   }
 
+  /**
+   * Validate the replacement owner for a swap
+   */
+  static validateNewOwner(owners: string[], oldOwner: string, newOwner: string, safeAddress?: string): string | null {
+    if (!ethers.utils.isAddress(newOwner)) {
+      return 'Invalid Ethereum address';
+    }
+
+    if (newOwner === ethers.constants.AddressZero || newOwner.toLowerCase() === this.SENTINEL_OWNERS) {
+      return 'Cannot use zero or sentinel address as owner';
+    }
+
+    if (safeAddress && newOwner.toLowerCase() === safeAddress.toLowerCase()) {
+      return 'The Safe cannot be its own owner';
+    }
+
+    if (newOwner.toLowerCase() === oldOwner.toLowerCase()) {
+      return 'New owner must be different from the owner being replaced';
+    }
+
+    if (owners.some(owner => owner.toLowerCase() === newOwner.toLowerCase())) {
+      return 'Address is already an owner';
+    }
+
+    return null;
+  }
+
   /**
    * Validate if a new threshold is valid for the given number of owners
    */
@@ -0,0 +1,292 @@
+import { ethers } from 'ethers';
+import { EIP1271_ABI, SAFE_ABI, SIGN_MESSAGE_LIB_ABI, getSignMessageLibAddress } from '../contracts/abis';
+import {
+  SafeMessageContent,
+  combineSignatures,
+  createSafeMessageHash,
+  encodeSafeMessageData,
+  hashSafeMessageContent,
+  parseSafeSignature,
+  recoverSafeSignatureSigner
+} from '../utils/eip712';
+import { TransactionRequest } from './SafeWalletService';
+
+/**
+ * Owner signature collected for a Safe message
+ */
+export interface SafeMessageSignature {
+  signer: string;
+  signature: string;
+}
+
+/**
+ * Off-chain Safe message awaiting owner signatures
+ */
+export interface SafeMessage {
+  safeMessageHash: string; // SafeMessage EIP-712 hash signed by the owners
+  messageHash: string; // EIP-191 / EIP-712 hash of the content, checked by isValidSignature
+  safeAddress: string;
+  network: string;
+  chainId: number;
+  content: SafeMessageContent;
+  origin?: string;
+  signatures: SafeMessageSignature[];
+  createdAt: number;
+}
+
+/**
+ * Service for collecting owner signatures on Safe messages and producing EIP-1271 signatures
+ * Messages are kept in local storage; owners exchange signatures by sharing them
+ */
+export class SafeMessageService {
+  private static instance: SafeMessageService;
+  private readonly STORAGE_KEY = 'vito_safe_messages';
+  static readonly EIP1271_MAGIC_VALUE = '0x1626ba7e';
+  static readonly EIP1271_LEGACY_MAGIC_VALUE = '0x20c13b0b';
+
+  private constructor() {}
+
+  public static getInstance(): SafeMessageService {
+    if (!SafeMessageService.instance) {
+      SafeMessageService.instance = new SafeMessageService();
+    }
+    return SafeMessageService.instance;
+  }
+
+  /**
+   * Get all messages of a Safe, most recent first
+   */
+  public getMessages(safeAddress: string, network: string): SafeMessage[] {
+    return this.loadFromStorage()
+      .filter(m => m.safeAddress.toLowerCase() === safeAddress.toLowerCase() && m.network === network)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Get a message by its SafeMessage hash
+   */
+  public getMessage(safeMessageHash: string): SafeMessage | null {
+    return this.loadFromStorage().find(m => m.safeMessageHash === safeMessageHash.toLowerCase()) || null;
+  }
+
+  /**
+   * Create a message for a Safe, or return the existing one with the same content
+   */
+  public createMessage(
+    safeAddress: string,
+    network: string,
+    chainId: number,
+    content: SafeMessageContent,
+    origin?: string
+  ): SafeMessage {
+    const messageHash = hashSafeMessageContent(content);
+    const safeMessageHash = createSafeMessageHash({ chainId, verifyingContract: safeAddress }, messageHash).toLowerCase();
+
+    const existing = this.getMessage(safeMessageHash);
+    if (existing) {
+      return existing;
+    }
+
+    const message: SafeMessage = {
+      safeMessageHash,
+      messageHash,
+      safeAddress: ethers.utils.getAddress(safeAddress),
+      network,
+      chainId,
+      content,
+      origin,
+      signatures: [],
+      createdAt: Date.now()
+    };
+
+    this.saveToStorage([message, ...this.loadFromStorage()]);
+    console.log('✉️ SafeMessageService: Created message', safeMessageHash);
+    return message;
+  }
+
+  /**
+   * Add an owner signature to a message
+   * ECDSA and eth_sign signatures are recovered; contract signatures carry their owner and are
+   * verified with the owner's isValidSignature
+   */
+  public async addSignature(
+    provider: ethers.providers.Provider,
+    safeMessageHash: string,
+    signature: string,
+    owners: string[]
+  ): Promise<SafeMessage> {
+    const message = this.getMessage(safeMessageHash);
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    const parsed = parseSafeSignature(signature);
+    if (parsed.type === 'approved_hash') {
+      throw new Error('Approved hash signatures are not supported for messages');
+    }
+
+    const signer = parsed.owner || recoverSafeSignatureSigner(message.safeMessageHash, signature);
+    if (!signer) {
+      throw new Error('Could not determine the signer of this signature');
+    }
+
+    if (!owners.some(owner => owner.toLowerCase() === signer.toLowerCase())) {
+      throw new Error(`Signer ${signer} is not an owner of this Safe`);
+    }
+
+    if (parsed.type === 'contract' && !await this.isValidOwnerSignature(provider, message, signer, parsed.dynamicData || '0x')) {
+      throw new Error(`Owner contract ${signer} rejected this signature`);
+    }
+
+    const updated: SafeMessage = {
+      ...message,
+      signatures: [
+        ...message.signatures.filter(s => s.signer.toLowerCase() !== signer.toLowerCase()),
+        { signer: ethers.utils.getAddress(signer), signature }
+      ]
+    };
+
+    this.updateMessage(updated);
+    console.log(`✍️ SafeMessageService: Added signature from ${signer}`);
+    return updated;
+  }
+
+  /**
+   * Remove a message from local storage
+   */
+  public removeMessage(safeMessageHash: string): void {
+    this.saveToStorage(this.loadFromStorage().filter(m => m.safeMessageHash !== safeMessageHash.toLowerCase()));
+  }
+
+  /**
+   * Combine the collected owner signatures into a single EIP-1271 signature for the Safe
+   */
+  public buildCombinedSignature(message: SafeMessage, threshold: number): string {
+    if (message.signatures.length < threshold) {
+      throw new Error(`Not enough signatures: ${message.signatures.length} of ${threshold} required`);
+    }
+
+    return combineSignatures(message.signatures);
+  }
+
+  /**
+   * Verify a signature through the Safe's isValidSignature (handled by its fallback handler)
+   * An empty signature checks whether the message was signed on-chain with SignMessageLib
+   */
+  public async isValidSignature(
+    provider: ethers.providers.Provider,
+    safeAddress: string,
+    messageHash: string,
+    signature: string
+  ): Promise<boolean> {
+    try {
+      const safe = new ethers.Contract(safeAddress, EIP1271_ABI, provider);
+      const magicValue: string = await safe['isValidSignature(bytes32,bytes)'](messageHash, signature);
+      return magicValue === SafeMessageService.EIP1271_MAGIC_VALUE;
+    } catch (error) {
+      console.warn('EIP-1271 verification failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Verify the EIP-1271 signature of a contract owner as the Safe does when checking signatures
+   * Tries the legacy bytes variant used by Safe v1.3.0 first, then the standard bytes32 variant
+   */
+  private async isValidOwnerSignature(
+    provider: ethers.providers.Provider,
+    message: SafeMessage,
+    owner: string,
+    signatureData: string
+  ): Promise<boolean> {
+    const validator = new ethers.Contract(owner, EIP1271_ABI, provider);
+    const messageData = encodeSafeMessageData(
+      { chainId: message.chainId, verifyingContract: message.safeAddress },
+      message.messageHash
+    );
+
+    try {
+      const magicValue: string = await validator['isValidSignature(bytes,bytes)'](messageData, signatureData);
+      if (magicValue === SafeMessageService.EIP1271_LEGACY_MAGIC_VALUE) {
+        return true;
+      }
+    } catch (error) {
+      console.log('Legacy EIP-1271 check failed, trying bytes32 variant:', error);
+    }
+
+    try {
+      const magicValue: string = await validator['isValidSignature(bytes32,bytes)'](message.safeMessageHash, signatureData);
+      return magicValue === SafeMessageService.EIP1271_MAGIC_VALUE;
+    } catch (error) {
+      console.warn('EIP-1271 verification failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a message has been signed on-chain through SignMessageLib
+   */
+  public async isSignedOnChain(
+    provider: ethers.providers.Provider,
+    safeAddress: string,
+    safeMessageHash: string
+  ): Promise<boolean> {
+    const safe = new ethers.Contract(safeAddress, SAFE_ABI, provider);
+    const signed: ethers.BigNumber = await safe.signedMessages(safeMessageHash);
+    return !signed.isZero();
+  }
+
+  /**
+   * Create the Safe transaction that signs a message on-chain by delegatecalling SignMessageLib
+   */
+  public createSignMessageTransaction(network: string, messageHash: string): TransactionRequest {
+    const signMessageLibAddress = getSignMessageLibAddress(network);
+    if (!signMessageLibAddress) {
+      throw new Error(`SignMessageLib contract not configured for network: ${network}`);
+    }
+
+    const signMessageLibInterface = new ethers.utils.Interface(SIGN_MESSAGE_LIB_ABI);
+    return {
+      to: signMessageLibAddress,
+      value: '0',
+      data: signMessageLibInterface.encodeFunctionData('signMessage', [messageHash]),
+      operation: 1 // DELEGATECALL into the SignMessageLib library
+    };
+  }
+
+  /**
+   * Replace a stored message
+   */
+  private updateMessage(message: SafeMessage): void {
+    this.saveToStorage(
+      this.loadFromStorage().map(m => (m.safeMessageHash === message.safeMessageHash ? message : m))
+    );
+  }
+
+  /**
+   * Load messages from localStorage
+   */
+  private loadFromStorage(): SafeMessage[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to load Safe messages from storage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save messages to localStorage
+   */
+  private saveToStorage(messages: SafeMessage[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(messages));
+    } catch (error) {
+      console.error('Failed to save Safe messages to storage:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const safeMessageService = SafeMessageService.getInstance();
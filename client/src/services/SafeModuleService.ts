@@ -0,0 +1,226 @@
+import { ethers } from 'ethers';
+import { SafeTransactionData } from '../utils/eip712';
+import { isValidAddress } from '../utils/addressUtils';
+
+/**
+ * A page of enabled modules as returned by getModulesPaginated
+ */
+export interface ModulePage {
+  modules: string[];
+  next: string;
+}
+
+/**
+ * Service for managing Safe modules (enable/disable, linked list helpers, known module names)
+ */
+export class SafeModuleService {
+  static readonly SENTINEL_MODULES = '0x0000000000000000000000000000000000000001';
+
+  // Canonical singleton module deployments (same address on all supported networks)
+  private static readonly KNOWN_MODULES: Record<string, string> = {
+    '0xcfbfac74c26f8647cbdb8c5caf80bb5b32e43134': 'Allowance Module',
+    '0xa581c4a4db7175302464ff3c06380bc3270b4037': 'Safe 4337 Module v0.2.0',
+    '0x75cf11467937ce3f2f357ce24ffc3dbf8fd5c226': 'Safe 4337 Module v0.3.0'
+  };
+
+  /**
+   * Create a Safe transaction for enabling a module
+   */
+  static createEnableModuleTransaction(
+    safeAddress: string,
+    moduleAddress: string,
+    nonce: number
+  ): SafeTransactionData {
+    console.log('🧩 SafeModuleService: Creating enableModule transaction', { safeAddress, moduleAddress, nonce });
+
+    if (!isValidAddress(safeAddress)) {
+      throw new Error('Invalid Safe address format');
+    }
+
+    const validation = this.validateModuleAddress(moduleAddress);
+    if (!validation.isValid) {
+      throw new Error(validation.error);
+    }
+
+    const safeInterface = new ethers.utils.Interface([
+      'function enableModule(address module)'
+    ]);
+
+    return this.createSafeSelfTransaction(
+      safeAddress,
+      safeInterface.encodeFunctionData('enableModule', [moduleAddress]),
+      nonce
+    );
+  }
+
+  /**
+   * Create a Safe transaction for disabling a module
+   */
+  static createDisableModuleTransaction(
+    safeAddress: string,
+    prevModule: string,
+    moduleAddress: string,
+    nonce: number
+  ): SafeTransactionData {
+    console.log('🧩 SafeModuleService: Creating disableModule transaction', { safeAddress, prevModule, moduleAddress, nonce });
+
+    if (!isValidAddress(safeAddress)) {
+      throw new Error('Invalid Safe address format');
+    }
+
+    if (!isValidAddress(prevModule)) {
+      throw new Error('Invalid previous module address');
+    }
+
+    if (!isValidAddress(moduleAddress)) {
+      throw new Error('Invalid module address format');
+    }
+
+    const safeInterface = new ethers.utils.Interface([
+      'function disableModule(address prevModule, address module)'
+    ]);
+
+    return this.createSafeSelfTransaction(
+      safeAddress,
+      safeInterface.encodeFunctionData('disableModule', [prevModule, moduleAddress]),
+      nonce
+    );
+  }
+
+  /**
+   * Find the previous module in the linked list for removal
+   * Modules are stored as a linked list starting at SENTINEL_MODULES, in the order returned by getModulesPaginated
+   */
+  static findPrevModule(modules: string[], moduleToRemove: string): string {
+    const moduleIndex = modules.findIndex(module =>
+      module.toLowerCase() === moduleToRemove.toLowerCase()
+    );
+
+    if (moduleIndex === -1) {
+      throw new Error('Module is not enabled on this Safe');
+    }
+
+    return moduleIndex === 0 ? this.SENTINEL_MODULES : modules[moduleIndex - 1];
+  }
+
+  /**
+   * Validate if an address could be enabled as a module
+   */
+  static validateModuleAddress(address: string): { isValid: boolean; error?: string } {
+    if (!address || address.trim().length === 0) {
+      return { isValid: false, error: 'Module address is required' };
+    }
+
+    if (!isValidAddress(address)) {
+      return { isValid: false, error: 'Invalid Ethereum address format' };
+    }
+
+    if (address === ethers.constants.AddressZero || address.toLowerCase() === this.SENTINEL_MODULES) {
+      return { isValid: false, error: 'Cannot use zero or sentinel address as module' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validate that the module can be enabled and collect security warnings
+   */
+  static async validateModuleContract(
+    moduleAddress: string,
+    safeAddress: string,
+    enabledModules: string[],
+    provider: ethers.providers.Provider
+  ): Promise<{ isValid: boolean; error?: string; warnings: string[] }> {
+    const basicValidation = this.validateModuleAddress(moduleAddress);
+    if (!basicValidation.isValid) {
+      return { isValid: false, error: basicValidation.error, warnings: [] };
+    }
+
+    if (moduleAddress.toLowerCase() === safeAddress.toLowerCase()) {
+      return { isValid: false, error: 'Cannot enable the Safe itself as a module', warnings: [] };
+    }
+
+    if (enabledModules.some(module => module.toLowerCase() === moduleAddress.toLowerCase())) {
+      return { isValid: false, error: 'Module is already enabled on this Safe', warnings: [] };
+    }
+
+    const warnings: string[] = [];
+
+    try {
+      const code = await provider.getCode(moduleAddress);
+      if (code === '0x') {
+        warnings.push('Address has no contract code. An externally owned account enabled as a module can move all Safe funds at will.');
+      }
+    } catch (error) {
+      warnings.push(`Could not verify contract code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!this.getModuleName(moduleAddress)) {
+      warnings.push('This module is not a known Safe module deployment. Review its source code before enabling it.');
+    }
+
+    return { isValid: true, warnings };
+  }
+
+  /**
+   * Get the display name of a known module, or null if unknown
+   */
+  static getModuleName(moduleAddress: string): string | null {
+    return this.KNOWN_MODULES[moduleAddress.toLowerCase()] || null;
+  }
+
+  /**
+   * Check if a pagination cursor marks the end of the module list
+   */
+  static isLastPage(next: string): boolean {
+    return next === ethers.constants.AddressZero || next.toLowerCase() === this.SENTINEL_MODULES;
+  }
+
+  /**
+   * Walk the module linked list page by page and return every module in list order
+   * Safe v1.3.0 returns the first module of the next page as cursor, v1.4.1+ the last module
+   * of the current page; a page starts after its cursor, so a v1.3.0 cursor is a module of its own
+   */
+  static async collectModules(
+    fetchPage: (start: string, pageSize: number) => Promise<ModulePage>,
+    pageSize: number = 50
+  ): Promise<string[]> {
+    const modules: string[] = [];
+    let start = this.SENTINEL_MODULES;
+
+    // Bounded loop to avoid spinning forever on a malformed module list
+    for (let page = 0; page < 100; page++) {
+      const result = await fetchPage(start, pageSize);
+      modules.push(...result.modules);
+
+      if (this.isLastPage(result.next) || result.modules.length === 0) {
+        break;
+      }
+
+      const lastModule = result.modules[result.modules.length - 1];
+      if (result.next.toLowerCase() !== lastModule.toLowerCase()) {
+        modules.push(result.next);
+      }
+      start = result.next;
+    }
+
+    return modules;
+  }
+
+  private static createSafeSelfTransaction(safeAddress: string, data: string, nonce: number): SafeTransactionData {
+    return {
+      to: safeAddress, // Transaction to the Safe itself
+      value: '0',
+      data,
+      operation: 0, // CALL operation
+      safeTxGas: '0',
+      baseGas: '0',
+      gasPrice: '0',
+      gasToken: ethers.constants.AddressZero,
+      refundReceiver: ethers.constants.AddressZero,
+      nonce
+    };
+  }
+}
+
+export default SafeModuleService;
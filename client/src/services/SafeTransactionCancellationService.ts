@@ -1,7 +1,7 @@
 import { ethers } from 'ethers';
 import { SafeWalletService } from './SafeWalletService';
 import { SafeTxPoolService, SafeTxPoolTransaction } from './SafeTxPoolService';
-import { getRpcUrl } from '../contracts/abis';
+import { getRpcProvider } from './FailoverRpcProvider';
 import { walletConnectionService } from './WalletConnectionService';
 
 export interface CancellationResult {
@@ -48,8 +48,7 @@ export class SafeTransactionCancellationService {
     this.safeTxPoolService = new SafeTxPoolService(network);
     
     // Initialize provider
-    const rpcUrl = getRpcUrl(network);
-    this.provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+    this.provider = getRpcProvider(network);
   }
 
   /**
@@ -0,0 +1,533 @@
+/**
+ * SafeTxPool Indexer Service
+ *
+ * Incrementally indexes the SafeTxPoolRegistry logs of a Safe into IndexedDB, so the pending
+ * queue renders from the local store and only the blocks since the last checkpoint are scanned.
+ *
+ * The index of a Safe starts from a snapshot of the pool contract views, then applies proposal,
+ * signature, execution and deletion events on top. Events of the last REORG_DEPTH blocks are kept
+ * separately together with their block hashes, so a reorg rolls them back instead of corrupting
+ * the snapshot. Older events are folded into the snapshot.
+ */
+
+import { ethers } from 'ethers';
+import { SAFE_TX_POOL_REGISTRY_EXTENDED_ABI, getSafeTxPoolRegistryAddress } from '../contracts/abis';
+import { SafeTxPoolTransaction, createSafeTxPoolService } from './SafeTxPoolService';
+import { getRpcProvider } from './FailoverRpcProvider';
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb';
+
+export type IndexedTransactionStatus = 'pending' | 'executed' | 'deleted';
+
+export interface IndexedPoolTransaction extends SafeTxPoolTransaction {
+  status: IndexedTransactionStatus;
+}
+
+export type PoolEventType = 'proposed' | 'signed' | 'executed' | 'deleted';
+
+export interface PoolEvent {
+  id: string;
+  safeKey: string;
+  type: PoolEventType;
+  txHash: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transaction?: Omit<SafeTxPoolTransaction, 'signatures'>; // Set for proposals
+  signer?: string; // Set for signatures
+  signature?: string;
+}
+
+interface BlockCheckpoint {
+  number: number;
+  hash: string;
+}
+
+interface SafeIndexState {
+  safeKey: string;
+  snapshotBlock: number; // Block up to which events are folded into the transactions
+  transactions: IndexedPoolTransaction[];
+  lastBlock: number; // Last scanned block
+  checkpoints: BlockCheckpoint[]; // Recent block hashes, newest last
+  updatedAt: number;
+}
+
+export interface PoolIndexUpdate {
+  network: string;
+  safe: string;
+  transactions: IndexedPoolTransaction[];
+}
+
+/**
+ * Persistence of the index, IndexedDB in the browser and memory where it is unavailable
+ */
+interface PoolIndexStore {
+  getState(safeKey: string): Promise<SafeIndexState | null>;
+  getEvents(safeKey: string): Promise<PoolEvent[]>;
+  save(state: SafeIndexState, addEvents: PoolEvent[], removeEventIds: string[]): Promise<void>;
+  clear(safeKey: string): Promise<void>;
+}
+
+class IndexedDbPoolIndexStore implements PoolIndexStore {
+  private static readonly DB_NAME = 'vito_safe_tx_pool_index';
+  private static readonly DB_VERSION = 1;
+  private db: Promise<IDBDatabase> | null = null;
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(IndexedDbPoolIndexStore.DB_NAME, IndexedDbPoolIndexStore.DB_VERSION, db => {
+        db.createObjectStore('safes', { keyPath: 'safeKey' });
+        const events = db.createObjectStore('events', { keyPath: 'id' });
+        events.createIndex('safeKey', 'safeKey');
+      });
+    }
+    return this.db;
+  }
+
+  async getState(safeKey: string): Promise<SafeIndexState | null> {
+    const db = await this.getDb();
+    const state = await requestToPromise(db.transaction('safes').objectStore('safes').get(safeKey));
+    return state || null;
+  }
+
+  async getEvents(safeKey: string): Promise<PoolEvent[]> {
+    const db = await this.getDb();
+    const events = await requestToPromise(
+      db.transaction('events').objectStore('events').index('safeKey').getAll(safeKey)
+    );
+    return sortPoolEvents(events);
+  }
+
+  async save(state: SafeIndexState, addEvents: PoolEvent[], removeEventIds: string[]): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(['safes', 'events'], 'readwrite');
+    const events = transaction.objectStore('events');
+
+    removeEventIds.forEach(id => events.delete(id));
+    addEvents.forEach(event => events.put(event));
+    transaction.objectStore('safes').put(state);
+
+    await transactionDone(transaction);
+  }
+
+  async clear(safeKey: string): Promise<void> {
+    const db = await this.getDb();
+    const eventIds = await requestToPromise(
+      db.transaction('events').objectStore('events').index('safeKey').getAllKeys(safeKey)
+    );
+
+    const transaction = db.transaction(['safes', 'events'], 'readwrite');
+    const events = transaction.objectStore('events');
+    eventIds.forEach(id => events.delete(id));
+    transaction.objectStore('safes').delete(safeKey);
+
+    await transactionDone(transaction);
+  }
+}
+
+class MemoryPoolIndexStore implements PoolIndexStore {
+  private states = new Map<string, SafeIndexState>();
+  private events = new Map<string, PoolEvent>();
+
+  async getState(safeKey: string): Promise<SafeIndexState | null> {
+    return this.states.get(safeKey) || null;
+  }
+
+  async getEvents(safeKey: string): Promise<PoolEvent[]> {
+    return sortPoolEvents(Array.from(this.events.values()).filter(event => event.safeKey === safeKey));
+  }
+
+  async save(state: SafeIndexState, addEvents: PoolEvent[], removeEventIds: string[]): Promise<void> {
+    removeEventIds.forEach(id => this.events.delete(id));
+    addEvents.forEach(event => this.events.set(event.id, event));
+    this.states.set(state.safeKey, state);
+  }
+
+  async clear(safeKey: string): Promise<void> {
+    Array.from(this.events.values())
+      .filter(event => event.safeKey === safeKey)
+      .forEach(event => this.events.delete(event.id));
+    this.states.delete(safeKey);
+  }
+}
+
+const sortPoolEvents = (events: PoolEvent[]): PoolEvent[] =>
+  [...events].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+/**
+ * Apply pool events to a list of transactions
+ * Applying an event twice has no effect, so events overlapping the snapshot are harmless
+ */
+export const applyPoolEvents = (
+  transactions: IndexedPoolTransaction[],
+  events: PoolEvent[]
+): IndexedPoolTransaction[] => {
+  const byHash = new Map<string, IndexedPoolTransaction>();
+  transactions.forEach(tx => byHash.set(tx.txHash.toLowerCase(), { ...tx, signatures: [...tx.signatures] }));
+
+  for (const event of sortPoolEvents(events)) {
+    const key = event.txHash.toLowerCase();
+    const existing = byHash.get(key);
+
+    switch (event.type) {
+      case 'proposed':
+        if (!existing && event.transaction) {
+          byHash.set(key, { ...event.transaction, signatures: [], status: 'pending' });
+        }
+        break;
+
+      case 'signed':
+        if (existing && event.signer && event.signature &&
+          !existing.signatures.some(sig => sig.signer.toLowerCase() === event.signer!.toLowerCase())) {
+          existing.signatures.push({ signer: event.signer, signature: event.signature });
+        }
+        break;
+
+      case 'executed':
+      case 'deleted':
+        if (existing) {
+          existing.status = event.type;
+        }
+        break;
+    }
+  }
+
+  return Array.from(byHash.values());
+};
+
+class SafeTxPoolIndexerService {
+  private static instance: SafeTxPoolIndexerService;
+  private static readonly REORG_DEPTH = 64; // Blocks kept as separate events so they can be rolled back
+  private static readonly MAX_BLOCK_RANGE = 5000;
+  private static readonly MIN_BLOCK_RANGE = 10;
+  private static readonly MAX_TOPIC_HASHES = 100; // Transaction hashes per TransactionSigned filter
+
+  private readonly registryInterface = new ethers.utils.Interface(SAFE_TX_POOL_REGISTRY_EXTENDED_ABI);
+  private store: PoolIndexStore = isIndexedDbAvailable() ? new IndexedDbPoolIndexStore() : new MemoryPoolIndexStore();
+  private syncs = new Map<string, Promise<IndexedPoolTransaction[]>>();
+  private listeners: Array<(update: PoolIndexUpdate) => void> = [];
+
+  public static getInstance(): SafeTxPoolIndexerService {
+    if (!SafeTxPoolIndexerService.instance) {
+      SafeTxPoolIndexerService.instance = new SafeTxPoolIndexerService();
+    }
+    return SafeTxPoolIndexerService.instance;
+  }
+
+  /**
+   * Get the indexed transactions of a Safe without touching the network
+   * Returns null when the Safe has not been indexed yet
+   */
+  public async getTransactions(network: string, safe: string): Promise<IndexedPoolTransaction[] | null> {
+    const safeKey = this.getSafeKey(network, safe);
+    if (!safeKey) {
+      return null;
+    }
+
+    try {
+      const state = await this.store.getState(safeKey);
+      if (!state) {
+        return null;
+      }
+      return applyPoolEvents(state.transactions, await this.store.getEvents(safeKey));
+    } catch (error) {
+      console.warn('⚠️ Failed to read the SafeTxPool index:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the indexed pending transactions of a Safe without touching the network
+   */
+  public async getPendingTransactions(network: string, safe: string): Promise<IndexedPoolTransaction[] | null> {
+    const transactions = await this.getTransactions(network, safe);
+    return transactions ? transactions.filter(tx => tx.status === 'pending') : null;
+  }
+
+  /**
+   * Bring the index of a Safe up to the latest block and return its pending transactions
+   * Concurrent calls for the same Safe share one sync
+   */
+  public syncPendingTransactions(network: string, safe: string): Promise<IndexedPoolTransaction[]> {
+    const safeKey = this.getSafeKey(network, safe);
+    if (!safeKey) {
+      return Promise.reject(new Error(`SafeTxPoolRegistry not configured for network: ${network}`));
+    }
+
+    let sync = this.syncs.get(safeKey);
+    if (!sync) {
+      sync = this.sync(network, safe, safeKey).finally(() => this.syncs.delete(safeKey));
+      this.syncs.set(safeKey, sync);
+    }
+
+    return sync.then(transactions => transactions.filter(tx => tx.status === 'pending'));
+  }
+
+  /**
+   * Drop the index of a Safe, the next sync starts from a fresh snapshot
+   */
+  public async clearIndex(network: string, safe: string): Promise<void> {
+    const safeKey = this.getSafeKey(network, safe);
+    if (safeKey) {
+      await this.store.clear(safeKey);
+    }
+  }
+
+  /**
+   * Subscribe to index updates, returns an unsubscribe function
+   */
+  public subscribe(listener: (update: PoolIndexUpdate) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notifyListeners(update: PoolIndexUpdate): void {
+    this.listeners.forEach(listener => listener(update));
+  }
+
+  /**
+   * Index key of a Safe, includes the registry so a redeployment starts a new index
+   */
+  private getSafeKey(network: string, safe: string): string | null {
+    const registry = getSafeTxPoolRegistryAddress(network);
+    return registry ? `${network}:${registry.toLowerCase()}:${safe.toLowerCase()}` : null;
+  }
+
+  private async sync(network: string, safe: string, safeKey: string): Promise<IndexedPoolTransaction[]> {
+    const provider = getRpcProvider(network);
+    const latestBlock = await provider.getBlockNumber();
+
+    let state = await this.store.getState(safeKey);
+    let events = state ? await this.store.getEvents(safeKey) : [];
+
+    if (state) {
+      const commonBlock = await this.findCommonBlock(provider, state);
+      if (commonBlock === null || commonBlock < state.snapshotBlock) {
+        console.warn(`⚠️ Reorg deeper than the SafeTxPool index on ${network}, re-indexing ${safe}`);
+        await this.store.clear(safeKey);
+        state = null;
+        events = [];
+      } else if (commonBlock < state.lastBlock) {
+        console.warn(`⚠️ Reorg detected on ${network}, rolling back the SafeTxPool index to block ${commonBlock}`);
+        const removed = events.filter(event => event.blockNumber > commonBlock);
+        events = events.filter(event => event.blockNumber <= commonBlock);
+        state = {
+          ...state,
+          lastBlock: commonBlock,
+          checkpoints: state.checkpoints.filter(checkpoint => checkpoint.number <= commonBlock)
+        };
+        await this.store.save(state, [], removed.map(event => event.id));
+      }
+    }
+
+    if (!state) {
+      state = await this.createSnapshot(network, safe, safeKey, latestBlock);
+      await this.store.save(state, [], []);
+    }
+
+    let blockRange = SafeTxPoolIndexerService.MAX_BLOCK_RANGE;
+    let fromBlock = state.lastBlock + 1;
+
+    while (fromBlock <= latestBlock) {
+      const toBlock = Math.min(fromBlock + blockRange - 1, latestBlock);
+
+      let newEvents: PoolEvent[];
+      try {
+        const knownHashes = applyPoolEvents(state.transactions, events)
+          .filter(tx => tx.status === 'pending')
+          .map(tx => tx.txHash);
+        newEvents = await this.fetchEvents(network, safe, safeKey, fromBlock, toBlock, knownHashes);
+      } catch (error: any) {
+        // Providers limit the block range of eth_getLogs, retry with a smaller range
+        if (blockRange > SafeTxPoolIndexerService.MIN_BLOCK_RANGE) {
+          blockRange = Math.max(Math.floor(blockRange / 2), SafeTxPoolIndexerService.MIN_BLOCK_RANGE);
+          continue;
+        }
+        throw new Error(`Failed to index SafeTxPool logs: ${error.message || error}`);
+      }
+
+      const block = await provider.getBlock(toBlock);
+      const checkpoints = this.dedupeCheckpoints([
+        ...state.checkpoints,
+        ...newEvents.map(event => ({ number: event.blockNumber, hash: event.blockHash })),
+        ...(block ? [{ number: toBlock, hash: block.hash }] : [])
+      ]);
+
+      events = sortPoolEvents([...events, ...newEvents]);
+      state = { ...state, lastBlock: toBlock, checkpoints, updatedAt: Date.now() };
+
+      const compacted = this.compact(state, events);
+      const kept = new Set(compacted.events.map(event => event.id));
+      const removedIds = events.map(event => event.id).filter(id => !kept.has(id));
+      state = compacted.state;
+      events = compacted.events;
+
+      await this.store.save(state, newEvents.filter(event => kept.has(event.id)), removedIds);
+      fromBlock = toBlock + 1;
+    }
+
+    const transactions = applyPoolEvents(state.transactions, events);
+    this.notifyListeners({ network, safe, transactions });
+    return transactions;
+  }
+
+  /**
+   * Read the current pool contents as the starting point of a new index
+   */
+  private async createSnapshot(
+    network: string,
+    safe: string,
+    safeKey: string,
+    latestBlock: number
+  ): Promise<SafeIndexState> {
+    console.log(`🗂️ Creating SafeTxPool index for ${safe} on ${network} at block ${latestBlock}`);
+
+    const [pending, block] = await Promise.all([
+      createSafeTxPoolService(network).getPendingTransactions(safe),
+      getRpcProvider(network).getBlock(latestBlock)
+    ]);
+
+    return {
+      safeKey,
+      snapshotBlock: latestBlock,
+      transactions: pending.map(tx => ({ ...tx, status: 'pending' as IndexedTransactionStatus })),
+      lastBlock: latestBlock,
+      checkpoints: block ? [{ number: latestBlock, hash: block.hash }] : [],
+      updatedAt: Date.now()
+    };
+  }
+
+  /**
+   * Find the newest checkpoint that is still part of the chain
+   * Returns null when none of the checkpoints is
+   */
+  private async findCommonBlock(provider: ethers.providers.Provider, state: SafeIndexState): Promise<number | null> {
+    const checkpoints = [...state.checkpoints].sort((a, b) => b.number - a.number);
+
+    for (const checkpoint of checkpoints) {
+      const block = await provider.getBlock(checkpoint.number);
+      if (block && block.hash === checkpoint.hash) {
+        return checkpoint.number;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Fold events older than the reorg window into the snapshot
+   */
+  private compact(state: SafeIndexState, events: PoolEvent[]): { state: SafeIndexState; events: PoolEvent[] } {
+    const finalizedBlock = state.lastBlock - SafeTxPoolIndexerService.REORG_DEPTH;
+    if (finalizedBlock <= state.snapshotBlock) {
+      return { state, events };
+    }
+
+    const finalized = events.filter(event => event.blockNumber <= finalizedBlock);
+    return {
+      state: {
+        ...state,
+        snapshotBlock: finalizedBlock,
+        transactions: applyPoolEvents(state.transactions, finalized),
+        checkpoints: state.checkpoints.filter(checkpoint => checkpoint.number > finalizedBlock)
+      },
+      events: events.filter(event => event.blockNumber > finalizedBlock)
+    };
+  }
+
+  private dedupeCheckpoints(checkpoints: BlockCheckpoint[]): BlockCheckpoint[] {
+    const byNumber = new Map<number, BlockCheckpoint>();
+    checkpoints.forEach(checkpoint => byNumber.set(checkpoint.number, checkpoint));
+    return Array.from(byNumber.values()).sort((a, b) => a.number - b.number);
+  }
+
+  /**
+   * Fetch the pool events of a Safe in a block range
+   * Signatures do not include the Safe, they are matched by the hashes of its transactions
+   */
+  private async fetchEvents(
+    network: string,
+    safe: string,
+    safeKey: string,
+    fromBlock: number,
+    toBlock: number,
+    knownHashes: string[]
+  ): Promise<PoolEvent[]> {
+    const provider = getRpcProvider(network);
+    const address = getSafeTxPoolRegistryAddress(network)!;
+    const safeTopic = ethers.utils.hexZeroPad(safe.toLowerCase(), 32);
+    const topic = (name: string) => this.registryInterface.getEventTopic(name);
+
+    const [proposedLogs, statusLogs] = await Promise.all([
+      provider.getLogs({ address, fromBlock, toBlock, topics: [topic('TransactionProposed'), null, null, safeTopic] }),
+      provider.getLogs({
+        address,
+        fromBlock,
+        toBlock,
+        topics: [[topic('TransactionExecuted'), topic('TransactionDeleted')], null, safeTopic]
+      })
+    ]);
+
+    const proposedEvents = proposedLogs.map(log => this.parseLog(log, safeKey)).filter((e): e is PoolEvent => e !== null);
+    const hashes = Array.from(new Set([...knownHashes, ...proposedEvents.map(event => event.txHash)].map(h => h.toLowerCase())));
+
+    const signedLogs: ethers.providers.Log[] = [];
+    for (let i = 0; i < hashes.length; i += SafeTxPoolIndexerService.MAX_TOPIC_HASHES) {
+      const batch = hashes.slice(i, i + SafeTxPoolIndexerService.MAX_TOPIC_HASHES);
+      signedLogs.push(...await provider.getLogs({ address, fromBlock, toBlock, topics: [topic('TransactionSigned'), batch] }));
+    }
+
+    return sortPoolEvents([
+      ...proposedEvents,
+      ...[...statusLogs, ...signedLogs].map(log => this.parseLog(log, safeKey)).filter((e): e is PoolEvent => e !== null)
+    ]);
+  }
+
+  private parseLog(log: ethers.providers.Log, safeKey: string): PoolEvent | null {
+    let parsed: ethers.utils.LogDescription;
+    try {
+      parsed = this.registryInterface.parseLog(log);
+    } catch {
+      return null;
+    }
+
+    const event = {
+      id: `${safeKey}:${log.blockNumber}:${log.logIndex}`,
+      safeKey,
+      txHash: parsed.args.txHash,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.logIndex
+    };
+
+    switch (parsed.name) {
+      case 'TransactionProposed':
+        return {
+          ...event,
+          type: 'proposed',
+          transaction: {
+            txHash: parsed.args.txHash,
+            safe: parsed.args.safe,
+            to: parsed.args.to,
+            value: parsed.args.value.toString(),
+            data: parsed.args.data,
+            operation: parsed.args.operation,
+            proposer: parsed.args.proposer,
+            nonce: parsed.args.nonce.toNumber(),
+            txId: parsed.args.txId.toNumber()
+          }
+        };
+      case 'TransactionSigned':
+        return { ...event, type: 'signed', signer: parsed.args.signer, signature: parsed.args.signature };
+      case 'TransactionExecuted':
+        return { ...event, type: 'executed' };
+      case 'TransactionDeleted':
+        return { ...event, type: 'deleted' };
+      default:
+        return null;
+    }
+  }
+}
+
+export const safeTxPoolIndexerService = SafeTxPoolIndexerService.getInstance();
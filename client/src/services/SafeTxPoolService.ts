@@ -1,7 +1,16 @@
 import { ethers } from 'ethers';
-import { SAFE_TX_POOL_REGISTRY_ABI, SAFE_ABI, NETWORK_CONFIGS, isSafeTxPoolRegistryConfigured, getSafeTxPoolRegistryAddress } from '../contracts/abis';
+import { SAFE_TX_POOL_REGISTRY_ABI, SAFE_ABI, EIP1271_ABI, isSafeTxPoolRegistryConfigured, getSafeTxPoolRegistryAddress } from '../contracts/abis';
+import { getChainConfig } from '../config/chains';
 import { getProviderForNetwork } from '../utils/ens';
-import { createSafeContractTransactionHash, SafeTransactionData } from '../utils/eip712';
+import { getMulticallService, MulticallService } from './MulticallService';
+import {
+  createSafeContractTransactionHash,
+  encodeSafeTransactionData,
+  parseSafeSignature,
+  recoverSafeSignatureSigner,
+  toEthSignSignature,
+  SafeTransactionData
+} from '../utils/eip712';
 
 export interface SafeTxPoolTransaction {
   txHash: string;
@@ -34,12 +43,17 @@ export class SafeTxPoolService {
   private contract: ethers.Contract | null = null;
   private provider: ethers.providers.Provider | null = null;
   private signer: ethers.Signer | null = null;
+  private multicall: MulticallService | null = null;
   private network: string = 'ethereum';
 
+  private static readonly EIP1271_MAGIC_VALUE = '0x1626ba7e';
+  private static readonly EIP1271_LEGACY_MAGIC_VALUE = '0x20c13b0b';
+
   constructor(network: string = 'ethereum') {
     this.network = network;
     try {
       this.provider = getProviderForNetwork(network);
+      this.multicall = getMulticallService(this.provider, network);
       this.initializeContract();
     } catch (error) {
       console.error(`Failed to initialize provider for network ${network}:`, error);
@@ -51,7 +65,7 @@ export class SafeTxPoolService {
    * Initialize the SafeTxPool contract
    */
   private initializeContract(): void {
-    const networkConfig = NETWORK_CONFIGS[this.network as keyof typeof NETWORK_CONFIGS];
+    const networkConfig = getChainConfig(this.network);
     if (!networkConfig) {
       console.warn(`Network configuration not found for: ${this.network}`);
       return;
@@ -129,18 +143,7 @@ export class SafeTxPoolService {
    */
   generateTxHash(params: ProposeTransactionParams, chainId: number): string {
     // Create Safe transaction data structure
-    const safeTransactionData: SafeTransactionData = {
-      to: params.to,
-      value: params.value,
-      data: params.data,
-      operation: params.operation,
-      safeTxGas: '0', // Default values for gas parameters
-      baseGas: '0',
-      gasPrice: '0',
-      gasToken: ethers.constants.AddressZero,
-      refundReceiver: ethers.constants.AddressZero,
-      nonce: params.nonce
-    };
+    const safeTransactionData = this.toSafeTransactionData(params);
 
     // Generate EIP-712 domain transaction hash
     return createSafeContractTransactionHash(
@@ -181,6 +184,11 @@ export class SafeTxPoolService {
 
       console.log('SafeTxPoolService: Using chain ID:', networkChainId);
 
+      // Delegate calls must pass the Safe's delegate call allowlist before being proposed
+      if (params.operation === 1) {
+        await this.validateDelegateCallTarget(params.safe, params.to);
+      }
+
       // Generate EIP-712 transaction hash
       const txHash = this.generateTxHash(params, networkChainId);
       console.log('SafeTxPoolService: Generated transaction hash:', txHash);
@@ -266,10 +274,14 @@ export class SafeTxPoolService {
   }
 
   /**
-   * Get signers for a transaction by checking Safe owners
-   * SIMPLIFIED VERSION: Just map signatures to owners in order
+   * Get signers for a transaction by verifying each pooled signature against the Safe owners
+   * Supports ECDSA, eth_sign, EIP-1271 contract and pre-approved hash signatures
    */
-  async getTransactionSigners(txHash: string, safeAddress: string): Promise<Array<{ signature: string; signer: string }>> {
+  async getTransactionSigners(
+    txHash: string,
+    safeAddress: string,
+    txParams?: ProposeTransactionParams
+  ): Promise<Array<{ signature: string; signer: string }>> {
     if (!this.contract || !this.provider) {
       throw new Error('Contract or provider not initialized');
     }
@@ -277,64 +289,87 @@ export class SafeTxPoolService {
     try {
       console.log('🔍 Getting transaction signers for txHash:', txHash);
 
-      // Get signatures from contract
-      const signatures = await this.contract.getSignatures(txHash);
+      // Get signatures from contract and Safe owners to validate signers in one batch
+      const safeContract = new ethers.Contract(safeAddress, SAFE_ABI, this.provider);
+      const [signatures, owners] = await Promise.all([
+        this.read<string[]>(this.contract, 'getSignatures', [txHash]),
+        this.read<string[]>(safeContract, 'getOwners')
+      ]);
       console.log('📋 Raw signatures from contract:', signatures);
 
       if (!signatures || signatures.length === 0) {
         console.log('⚠️ No signatures found for transaction');
         return [];
       }
-
-      // Get Safe owners to validate signers
-      const safeContract = new ethers.Contract(safeAddress, SAFE_ABI, this.provider);
-      const owners = await safeContract.getOwners();
       console.log('👥 Safe owners:', owners);
 
+      // Legacy EIP-1271 validators (Safe v1.3.0) verify against the transaction hash pre-image
+      let txHashData: string | null = null;
+      if (txParams) {
+        const network = await this.provider.getNetwork();
+        txHashData = encodeSafeTransactionData(
+          { chainId: network.chainId, verifyingContract: safeAddress },
+          this.toSafeTransactionData(txParams)
+        );
+      }
+
       const signersWithAddresses: Array<{ signature: string; signer: string }> = [];
+      const unresolvedSignatures: string[] = [];
 
-      // SIMPLIFIED APPROACH: For single-owner Safes, just use the owner
-      if (owners.length === 1 && signatures.length === 1) {
-        console.log('🎯 Single owner Safe detected, using direct mapping');
-        signersWithAddresses.push({
-          signature: signatures[0],
-          signer: owners[0]
-        });
-        console.log(`✅ Mapped signature to single owner: ${owners[0]}`);
-      } else {
-        // For multi-owner Safes, check who has signed using contract
-        for (let i = 0; i < signatures.length; i++) {
-          const signature = signatures[i];
-          console.log(`🔍 Processing signature ${i}:`, signature);
-
-          // Find which owner signed this transaction
-          let signerFound = false;
-          for (const owner of owners) {
-            try {
-              const hasSigned = await this.hasSignedTx(txHash, owner);
-              if (hasSigned) {
-                signersWithAddresses.push({
-                  signature: signature,
-                  signer: owner
-                });
-                console.log(`✅ Found signer from contract: ${owner}`);
-                signerFound = true;
-                break;
-              }
-            } catch (error) {
-              console.warn(`⚠️ Error checking signature for owner ${owner}:`, error);
-            }
+      for (let i = 0; i < signatures.length; i++) {
+        const signature = signatures[i];
+        console.log(`🔍 Processing signature ${i}:`, signature);
+
+        if (this.isUnrecoverableEcdsaSignature(txHash, signature)) {
+          unresolvedSignatures.push(signature);
+          continue;
+        }
+
+        // Signatures that failed verification are dropped, they would fail on execution
+        const resolved = await this.resolveSignatureSigner(txHash, signature, safeContract, owners, txHashData);
+        if (!resolved) {
+          console.warn('⚠️ Signature failed verification, ignoring it:', signature);
+          continue;
+        }
+        const { signer } = resolved;
+
+        if (signersWithAddresses.some(entry => entry.signer.toLowerCase() === signer.toLowerCase())) {
+          console.warn(`⚠️ Duplicate signature from ${signer}, skipping`);
+          continue;
+        }
+
+        // The resolved signature may differ from the pooled one, see resolveSignatureSigner
+        signersWithAddresses.push({ signature: resolved.signature, signer });
+        console.log(`✅ Verified signer: ${signer}`);
+      }
+
+      // Fallback: ECDSA signatures that could not be recovered locally (e.g. non-standard wallet
+      // output) are attributed to owners the pool contract reports as signers
+      if (unresolvedSignatures.length > 0) {
+        // Check which owners signed in the pool with a single batch
+        const signedResults = await this.multicall!.aggregate<boolean>(owners.map(owner => ({
+          target: this.contract!.address,
+          iface: this.contract!.interface,
+          method: 'hasSignedTx',
+          args: [txHash, owner]
+        })));
+        const poolSigners = owners.filter((owner, index) => {
+          if (!signedResults[index].success) {
+            console.warn(`⚠️ Error checking signature for owner ${owner}:`, signedResults[index].error);
           }
+          return signedResults[index].value === true;
+        });
 
-          if (!signerFound) {
-            console.warn(`⚠️ No signer found for signature ${i}, using first available owner`);
-            // Fallback: use the first owner if we can't determine the signer
-            if (owners.length > 0) {
-              signersWithAddresses.push({
-                signature: signature,
-                signer: owners[0]
-              });
-            }
+        for (const signature of unresolvedSignatures) {
+          const owner = poolSigners.find(poolSigner =>
+            !signersWithAddresses.some(entry => entry.signer.toLowerCase() === poolSigner.toLowerCase())
+          );
+
+          if (owner) {
+            signersWithAddresses.push({ signature, signer: owner });
+            console.log(`✅ Found signer from contract: ${owner}`);
+          } else {
+            console.warn('⚠️ Could not verify signature, ignoring it:', signature);
           }
         }
       }
@@ -348,6 +383,149 @@ export class SafeTxPoolService {
     }
   }
 
+  /**
+   * Check whether a signature is ECDSA sized but cannot be parsed or recovered locally
+   */
+  private isUnrecoverableEcdsaSignature(txHash: string, signature: string): boolean {
+    try {
+      recoverSafeSignatureSigner(txHash, signature);
+      return false;
+    } catch {
+      return ethers.utils.isHexString(signature.startsWith('0x') ? signature : '0x' + signature, 65);
+    }
+  }
+
+  /**
+   * Determine and verify the Safe owner behind a single signature
+   * Returns the owner with the signature to execute with, or null when it cannot be attributed to an owner
+   */
+  private async resolveSignatureSigner(
+    txHash: string,
+    signature: string,
+    safeContract: ethers.Contract,
+    owners: string[],
+    txHashData: string | null
+  ): Promise<{ signer: string; signature: string } | null> {
+    const findOwner = (address: string | null | undefined): string | null =>
+      address ? owners.find(owner => owner.toLowerCase() === address.toLowerCase()) || null : null;
+
+    try {
+      const parsed = parseSafeSignature(signature);
+
+      switch (parsed.type) {
+        case 'ecdsa':
+        case 'eth_sign': {
+          const owner = findOwner(recoverSafeSignatureSigner(txHash, signature));
+          if (owner || parsed.type === 'eth_sign') {
+            return owner ? { signer: owner, signature } : null;
+          }
+
+          // Some wallets return eth_sign signatures without the +4 v adjustment, the Safe
+          // would verify them as ECDSA and reject them, so they are executed with v + 4
+          const ethSignSigner = findOwner(ethers.utils.recoverAddress(
+            ethers.utils.hashMessage(ethers.utils.arrayify(txHash)),
+            { r: parsed.r, s: parsed.s, v: parsed.v }
+          ));
+          return ethSignSigner ? { signer: ethSignSigner, signature: toEthSignSignature(signature) } : null;
+        }
+
+        case 'approved_hash': {
+          const owner = findOwner(parsed.owner);
+          if (!owner) {
+            return null;
+          }
+
+          const approved = await this.read<ethers.BigNumber>(safeContract, 'approvedHashes', [owner, txHash]);
+          if (approved.isZero()) {
+            console.warn(`⚠️ Hash ${txHash} has not been approved on-chain by ${owner}`);
+            return null;
+          }
+          return { signer: owner, signature };
+        }
+
+        case 'contract': {
+          const owner = findOwner(parsed.owner);
+          if (!owner) {
+            return null;
+          }
+
+          const isValid = await this.isValidContractSignature(owner, txHash, txHashData, parsed.dynamicData || '0x');
+          if (!isValid) {
+            console.warn(`⚠️ Contract owner ${owner} rejected the EIP-1271 signature`);
+            return null;
+          }
+          return { signer: owner, signature };
+        }
+
+        default:
+          return null;
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to resolve signature signer:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Verify an EIP-1271 signature from an owner contract
+   * Tries the legacy bytes variant used by Safe v1.3.0 first, then the standard bytes32 variant
+   */
+  private async isValidContractSignature(
+    owner: string,
+    txHash: string,
+    txHashData: string | null,
+    signatureData: string
+  ): Promise<boolean> {
+    const validator = new ethers.Contract(owner, EIP1271_ABI, this.provider!);
+
+    if (txHashData) {
+      try {
+        const magicValue = await this.read<string>(validator, 'isValidSignature(bytes,bytes)', [txHashData, signatureData]);
+        if (magicValue === SafeTxPoolService.EIP1271_LEGACY_MAGIC_VALUE) {
+          return true;
+        }
+      } catch (error) {
+        console.log('Legacy EIP-1271 check failed, trying bytes32 variant:', error);
+      }
+    }
+
+    try {
+      const magicValue = await this.read<string>(validator, 'isValidSignature(bytes32,bytes)', [txHash, signatureData]);
+      return magicValue === SafeTxPoolService.EIP1271_MAGIC_VALUE;
+    } catch (error) {
+      console.warn('EIP-1271 check failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Read from a contract through the multicall batching layer
+   */
+  private read<T = any>(contract: ethers.Contract, method: string, args: any[] = []): Promise<T> {
+    if (!this.multicall) {
+      return contract[method](...args);
+    }
+    return this.multicall.call<T>({ target: contract.address, iface: contract.interface, method, args });
+  }
+
+  /**
+   * Build Safe transaction data with default gas parameters from proposal parameters
+   */
+  private toSafeTransactionData(params: ProposeTransactionParams): SafeTransactionData {
+    return {
+      to: params.to,
+      value: params.value,
+      data: params.data,
+      operation: params.operation,
+      safeTxGas: '0', // Default values for gas parameters
+      baseGas: '0',
+      gasPrice: '0',
+      gasToken: ethers.constants.AddressZero,
+      refundReceiver: ethers.constants.AddressZero,
+      nonce: params.nonce
+    };
+  }
+
   /**
    * Get transaction details from the pool
    */
@@ -357,8 +535,15 @@ export class SafeTxPoolService {
     }
 
     try {
-      const result = await this.contract.getTxDetails(txHash);
-      const signaturesWithSigners = await this.getTransactionSigners(txHash, result.safe);
+      const result = await this.read<ethers.utils.Result>(this.contract, 'getTxDetails', [txHash]);
+      const signaturesWithSigners = await this.getTransactionSigners(txHash, result.safe, {
+        safe: result.safe,
+        to: result.to,
+        value: result.value.toString(),
+        data: result.data,
+        operation: result.operation,
+        nonce: result.nonce.toNumber()
+      });
 
       return {
         txHash,
@@ -387,7 +572,7 @@ export class SafeTxPoolService {
     }
 
     try {
-      return await this.contract.hasSignedTx(txHash, signer);
+      return await this.read<boolean>(this.contract, 'hasSignedTx', [txHash, signer]);
     } catch (error) {
       console.error('Error checking signature status:', error);
       return false;
@@ -417,16 +602,10 @@ export class SafeTxPoolService {
   async getPendingTransactions(safe: string): Promise<SafeTxPoolTransaction[]> {
     try {
       const hashes = await this.getPendingTxHashes(safe, 0, 100); // Get up to 100 transactions
-      const transactions: SafeTxPoolTransaction[] = [];
-
-      for (const hash of hashes) {
-        const txDetails = await this.getTxDetails(hash);
-        if (txDetails) {
-          transactions.push(txDetails);
-        }
-      }
 
-      return transactions;
+      // Loaded concurrently so the reads of all transactions are batched together
+      const transactions = await Promise.all(hashes.map(hash => this.getTxDetails(hash)));
+      return transactions.filter((tx): tx is SafeTxPoolTransaction => tx !== null);
     } catch (error) {
       console.error('Error getting pending transactions with details:', error);
       return [];
@@ -566,6 +745,36 @@ export class SafeTxPoolService {
     }
   }
 
+  /**
+   * Validate that a delegate call to the target is permitted for a Safe
+   * Mirrors the SafeTxPoolRegistry guard: delegate calls must be enabled and, when an
+   * allowlist is configured, the target must be part of it
+   */
+  async validateDelegateCallTarget(safe: string, target: string): Promise<void> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+
+    const enabled = await this.isDelegateCallEnabled(safe);
+    if (!enabled) {
+      throw new Error('Delegate calls are disabled for this Safe. Enable them in Settings → Security → Delegate Call Control before proposing this transaction.');
+    }
+
+    // Read directly instead of through getAllowedDelegateCallTargets, a failed read must not look
+    // like an empty allowlist
+    let allowedTargets: string[];
+    try {
+      const targets: string[] = await this.contract.getDelegateCallTargets(safe);
+      allowedTargets = targets.map(address => address.toLowerCase());
+    } catch (error: any) {
+      throw new Error(`Failed to read the delegate call allowlist: ${error.message || error}`);
+    }
+
+    if (allowedTargets.length > 0 && !allowedTargets.includes(target.toLowerCase())) {
+      throw new Error(`Delegate call target ${target} is not in the allowed targets list. Add it in Settings → Security → Delegate Call Control before proposing this transaction.`);
+    }
+  }
+
   /**
    * Get the number of allowed delegate call targets for a Safe
    */
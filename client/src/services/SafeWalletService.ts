@@ -1,13 +1,24 @@
 import { ethers } from 'ethers';
 import { SafeTxPoolService } from './SafeTxPoolService';
 import { OnChainDataService, OnChainTransactionStatus } from './OnChainDataService';
-import { SAFE_ABI, getRpcUrl } from '../contracts/abis';
+import { SAFE_ABI } from '../contracts/abis';
+import { getRpcProvider } from './FailoverRpcProvider';
+import { getMulticallService } from './MulticallService';
 import {
   signSafeTransaction,
   createSafeContractTransactionHash,
   SafeDomain,
-  combineSignatures
+  combineSignatures,
+  buildApprovedHashSignature,
+  parseSafeSignature,
+  signSafeMessage,
+  SafeMessageContent
 } from '../utils/eip712';
+import { MultiSendService, BatchCall } from './MultiSendService';
+import { TransactionSimulationService, TransactionSimulationResult } from './TransactionSimulationService';
+import { SafeModuleService, ModulePage } from './SafeModuleService';
+import { SafeFallbackHandlerService } from './SafeFallbackHandlerService';
+import { safeMessageService, SafeMessage } from './SafeMessageService';
 
 export interface SafeWalletConfig {
   safeAddress: string;
@@ -54,16 +65,8 @@ export class SafeWalletService {
   /**
    * Check if a Safe address is valid on the given network
    */
-  static async validateSafeAddress(safeAddress: string, rpcUrl: string): Promise<{ isValid: boolean; error?: string }> {
+  static async validateSafeAddress(safeAddress: string, provider: ethers.providers.Provider): Promise<{ isValid: boolean; error?: string }> {
     try {
-      if (!rpcUrl) {
-        return {
-          isValid: false,
-          error: 'RPC URL is required for Safe address validation'
-        };
-      }
-
-      const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
 
       // Check if the address has code (is a contract)
       const code = await provider.getCode(safeAddress);
@@ -100,18 +103,10 @@ export class SafeWalletService {
   async initialize(config: SafeWalletConfig, signer?: ethers.Signer): Promise<void> {
     this.config = config;
 
-    // Set up provider based on network - always use working RPC configuration
-    let actualRpcUrl: string;
-    if (config.rpcUrl) {
-      actualRpcUrl = config.rpcUrl;
-      this.provider = new ethers.providers.JsonRpcProvider(config.rpcUrl);
-    } else {
-      // Use the same RPC URL logic as validation for consistency
-      actualRpcUrl = getRpcUrl(config.network);
-      this.provider = new ethers.providers.JsonRpcProvider(actualRpcUrl);
-    }
+    // Set up provider based on network - an explicit RPC URL replaces the failover endpoints
+    this.provider = getRpcProvider(config.network, config.rpcUrl);
 
-    console.log(`🌐 SafeWalletService initialized with RPC: ${actualRpcUrl} for network: ${config.network}`);
+    console.log(`🌐 SafeWalletService initialized with RPC: ${config.rpcUrl || 'failover endpoints'} for network: ${config.network}`);
 
     // Use provided signer or create a read-only provider
     if (signer) {
@@ -175,12 +170,8 @@ export class SafeWalletService {
 
     console.log(`🔄 Reinitializing provider for network: ${this.config.network}`);
 
-    // Use the same RPC URL logic as static validation
-    const workingRpcUrl = getRpcUrl(this.config.network);
-    console.log(`🌐 Using working RPC URL: ${workingRpcUrl}`);
-
-    // Create new provider
-    this.provider = new ethers.providers.JsonRpcProvider(workingRpcUrl);
+    // Use the same failover provider as static validation
+    this.provider = getRpcProvider(this.config.network);
 
     // Recreate Safe contract with new provider
     this.safeContract = new ethers.Contract(
@@ -306,8 +297,10 @@ export class SafeWalletService {
         // Try to use the static validation method as a fallback to compare results
         console.log(`🔄 Trying static validation as fallback...`);
         try {
-          const rpcUrl = getRpcUrl(this.config.network);
-          const staticValidation = await SafeWalletService.validateSafeAddress(this.config.safeAddress, rpcUrl);
+          const staticValidation = await SafeWalletService.validateSafeAddress(
+            this.config.safeAddress,
+            getRpcProvider(this.config.network)
+          );
           if (staticValidation.isValid) {
             console.log(`✅ Static validation passed, but instance validation failed. Provider mismatch detected.`);
             throw new Error(`Provider configuration mismatch. Static validation works but instance validation fails. Please reconnect your wallet.`);
@@ -379,31 +372,45 @@ export class SafeWalletService {
       // First validate the Safe contract
       await this.validateSafeContract();
 
-      // Get basic Safe info
-      const [owners, threshold, balance, network] = await Promise.all([
-        this.safeContract.getOwners(),
-        this.safeContract.getThreshold(),
-        this.provider.getBalance(this.config!.safeAddress),
+      // Get basic Safe info in one multicall batch
+      const safeAddress = this.config!.safeAddress;
+      const multicall = getMulticallService(this.provider, this.config!.network);
+      const safeCall = (method: string) => ({ target: safeAddress, iface: this.safeContract!.interface, method });
+      const [[ownersResult, thresholdResult, nonceResult, versionResult, balanceResult], network] = await Promise.all([
+        multicall.aggregate([
+          safeCall('getOwners'),
+          safeCall('getThreshold'),
+          safeCall('nonce'),
+          safeCall('VERSION'),
+          multicall.getEthBalanceCall(safeAddress)
+        ]),
         this.provider.getNetwork()
       ]);
 
+      if (!ownersResult.success || !thresholdResult.success) {
+        throw new Error(ownersResult.error || thresholdResult.error || 'Failed to read Safe owners');
+      }
+      const owners: string[] = ownersResult.value;
+      const threshold: ethers.BigNumber = thresholdResult.value;
+      const balance: ethers.BigNumber = balanceResult.success
+        ? balanceResult.value
+        : await this.provider.getBalance(safeAddress);
+
       // Get nonce
       let nonce: number;
       try {
-        nonce = await this.getNonce();
+        nonce = nonceResult.success ? nonceResult.value.toNumber() : await this.getNonce();
       } catch (error) {
         console.warn('Could not get Safe nonce:', error);
         nonce = 0;
       }
 
       // Get version
-      let version: string | undefined;
-      try {
-        version = await this.safeContract.VERSION();
+      const version: string | undefined = versionResult.success ? versionResult.value : undefined;
+      if (version) {
         console.log(`✅ Safe version: ${version}`);
-      } catch (error) {
-        console.warn('Could not get Safe version:', error);
-        version = undefined;
+      } else {
+        console.warn('Could not get Safe version:', versionResult.error);
       }
 
       return {
@@ -693,14 +700,31 @@ export class SafeWalletService {
     }
   }
 
+  /**
+   * Propose a batch of calls as a single MultiSendCallOnly delegatecall transaction (without signing)
+   */
+  async proposeBatchTransaction(calls: BatchCall[], customNonce?: number): Promise<SafeTransactionData & { txHash: string }> {
+    this.ensureInitialized();
+
+    try {
+      const transactionRequest = MultiSendService.createBatchTransactionRequest(this.config!.network, calls);
+
+      console.log(`📦 SAFE WALLET SERVICE: Proposing batch with ${calls.length} calls`);
+      return await this.proposeUnsignedTransaction(transactionRequest, customNonce);
+    } catch (error) {
+      console.error('Error proposing batch transaction:', error);
+      throw error;
+    }
+  }
+
   /**
    * Complete transaction flow: Create EIP-712 → Sign → Propose
    * @deprecated Use proposeUnsignedTransaction() for propose-only flow
    */
-  async createTransaction(transactionRequest: TransactionRequest): Promise<SafeTransactionData & { txHash: string; signature: string }> {
+  async createTransaction(transactionRequest: TransactionRequest, customNonce?: number): Promise<SafeTransactionData & { txHash: string; signature: string }> {
     try {
       // Step 1: Create domain type EIP-712 transaction
-      const { safeTransactionData, domain, txHash } = await this.createEIP712Transaction(transactionRequest);
+      const { safeTransactionData, domain, txHash } = await this.createEIP712Transaction(transactionRequest, customNonce);
 
       // Step 2: Request user to sign
       const signature = await this.signEIP712Transaction(safeTransactionData, domain);
@@ -804,6 +828,25 @@ export class SafeWalletService {
     }
   }
 
+  /**
+   * Simulate a Safe transaction via simulateAndRevert before executing it
+   * Reports whether the inner call would succeed, the decoded revert reason, gas used and emitted logs
+   */
+  async simulateTransaction(safeTransaction: SafeTransactionData): Promise<TransactionSimulationResult> {
+    this.ensureInitialized();
+
+    if (!this.provider) {
+      throw new Error('Provider not initialized');
+    }
+
+    return TransactionSimulationService.simulate(
+      this.provider,
+      this.config!.safeAddress,
+      this.config!.network,
+      safeTransaction
+    );
+  }
+
   /**
    * Execute a Safe transaction when threshold is met
    */
@@ -823,19 +866,24 @@ export class SafeWalletService {
         signatures: signatures.map(s => ({ signer: s.signer, signature: s.signature.slice(0, 10) + '...' }))
       });
 
+      // Get Safe info to validate threshold
+      const safeInfo = await this.getSafeInfo();
+
+      // Owners that approved the hash on-chain (approveHash) count toward the threshold
+      const safeTxHash = await this.getEIP712TransactionHash(safeTransaction);
+      const allSignatures = await this.mergeOnChainApprovals(safeTxHash, signatures || [], safeInfo.owners);
+
       // Validate signatures before combining
-      if (!signatures || signatures.length === 0) {
+      if (allSignatures.length === 0) {
         throw new Error('No signatures provided for transaction execution');
       }
 
-      // Get Safe info to validate threshold
-      const safeInfo = await this.getSafeInfo();
-      if (signatures.length < safeInfo.threshold) {
-        throw new Error(`Insufficient signatures: ${signatures.length}/${safeInfo.threshold} required`);
+      if (allSignatures.length < safeInfo.threshold) {
+        throw new Error(`Insufficient signatures: ${allSignatures.length}/${safeInfo.threshold} required`);
       }
 
       // Validate that all signers are owners of the Safe (with case-insensitive comparison)
-      for (const { signer } of signatures) {
+      for (const { signer } of allSignatures) {
         const isOwner = safeInfo.owners.some((owner: string) => owner.toLowerCase() === signer.toLowerCase());
         if (!isOwner) {
           console.warn(`⚠️ Signer ${signer} is not an owner of the Safe. Owners:`, safeInfo.owners);
@@ -845,7 +893,7 @@ export class SafeWalletService {
       }
 
       // Combine signatures using EIP-712 utility (properly sorted)
-      const combinedSignatures = combineSignatures(signatures);
+      const combinedSignatures = combineSignatures(allSignatures);
 
       console.log('🔐 Executing transaction on Safe contract...');
 
@@ -892,7 +940,11 @@ export class SafeWalletService {
       if (error.message?.includes('GS026')) {
         throw new Error('Invalid signature order or signer not authorized. Signatures must be sorted by signer address and all signers must be Safe owners.');
       } else if (error.message?.includes('GS025')) {
-        throw new Error('Transaction not approved by required signers.');
+        throw new Error('Transaction hash has not been approved on-chain by the required owners.');
+      } else if (error.message?.includes('GS024')) {
+        throw new Error('Invalid contract signature. The owner contract rejected the EIP-1271 signature.');
+      } else if (error.message?.match(/GS02[123]/)) {
+        throw new Error('Malformed contract signature. The dynamic signature data is out of bounds.');
       } else if (error.message?.includes('GS013')) {
         throw new Error('Transaction execution failed. The target transaction reverted.');
       } else if (error.message?.includes('GS010')) {
@@ -905,6 +957,99 @@ export class SafeWalletService {
     }
   }
 
+  /**
+   * Approve a Safe transaction hash on-chain via approveHash
+   * Used by owners whose wallets cannot produce EIP-712 signatures (custodial or contract wallets)
+   */
+  async approveTransactionHash(safeTxHash: string): Promise<ethers.ContractTransaction> {
+    this.ensureInitialized();
+
+    if (!this.signer || !this.safeContract) {
+      throw new Error('No signer available or Safe contract not initialized.');
+    }
+
+    try {
+      console.log('⛓️ Approving Safe transaction hash on-chain:', safeTxHash);
+      return await this.safeContract.approveHash(safeTxHash);
+    } catch (error: any) {
+      console.error('❌ Error approving transaction hash:', error);
+
+      if (error.message?.includes('GS030')) {
+        throw new Error('Only Safe owners can approve transaction hashes.');
+      }
+
+      throw new Error(`Failed to approve transaction hash: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Get the owners that approved a Safe transaction hash on-chain via approveHash
+   */
+  async getOnChainApprovals(safeTxHash: string, owners?: string[]): Promise<string[]> {
+    this.ensureInitialized();
+
+    if (!this.safeContract) {
+      throw new Error('Safe contract not initialized');
+    }
+
+    try {
+      const safeOwners: string[] = owners || await this.safeContract.getOwners();
+      const approvals = await Promise.all(
+        safeOwners.map(async (owner) => {
+          const approved: ethers.BigNumber = await this.safeContract!.approvedHashes(owner, safeTxHash);
+          return approved.isZero() ? null : owner;
+        })
+      );
+
+      return approvals.filter((owner): owner is string => owner !== null);
+    } catch (error: any) {
+      console.error('Error getting on-chain approvals:', error);
+      throw new Error(`Failed to get on-chain approvals: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Add approved-hash signatures for owners that approved on-chain but have no off-chain signature
+   * Approved-hash signatures of owners without an on-chain approval are dropped, the Safe would reject them (GS025)
+   */
+  private async mergeOnChainApprovals(
+    safeTxHash: string,
+    signatures: Array<{ signature: string; signer: string }>,
+    owners: string[]
+  ): Promise<Array<{ signature: string; signer: string }>> {
+    try {
+      const approvedOwners = await this.getOnChainApprovals(safeTxHash, owners);
+      const isApproved = (address: string) => approvedOwners.some(owner => owner.toLowerCase() === address.toLowerCase());
+
+      const validSignatures = signatures.filter(({ signature, signer }) => {
+        let isApprovedHash = false;
+        try {
+          isApprovedHash = parseSafeSignature(signature).type === 'approved_hash';
+        } catch {
+          // Malformed signatures are reported by combineSignatures
+        }
+        if (isApprovedHash && !isApproved(signer)) {
+          console.warn(`⚠️ ${signer} has not approved ${safeTxHash} on-chain, ignoring its approved-hash signature`);
+          return false;
+        }
+        return true;
+      });
+
+      const approvedSignatures = approvedOwners
+        .filter(owner => !validSignatures.some(({ signer }) => signer.toLowerCase() === owner.toLowerCase()))
+        .map(owner => ({ signature: buildApprovedHashSignature(owner), signer: owner }));
+
+      if (approvedSignatures.length > 0) {
+        console.log('⛓️ Including on-chain approvals:', approvedSignatures.map(({ signer }) => signer));
+      }
+
+      return [...validSignatures, ...approvedSignatures];
+    } catch (error) {
+      console.warn('⚠️ Could not load on-chain approvals, using off-chain signatures only:', error);
+      return signatures;
+    }
+  }
+
   /**
    * Get pending transactions for the Safe from SafeTxPool
    */
@@ -1077,8 +1222,7 @@ export class SafeWalletService {
       // Method 3: Use RPC provider directly as last resort
       try {
         console.log('🔄 Last resort: Using RPC provider directly...');
-        const rpcUrl = getRpcUrl(this.config!.network);
-        const rpcProvider = new ethers.providers.JsonRpcProvider(rpcUrl);
+        const rpcProvider = getRpcProvider(this.config!.network);
         const rpcContract = new ethers.Contract(this.config!.safeAddress, SAFE_ABI, rpcProvider);
 
         const rpcIsOwnerPromise = rpcContract.isOwner(address);
@@ -1134,7 +1278,7 @@ export class SafeWalletService {
     try {
       console.log('🔢 Method 2: Creating fresh contract instance with read-only provider...');
       // Use read-only provider instead of signer provider to avoid WalletConnect issues
-      const readOnlyProvider = new ethers.providers.JsonRpcProvider(getRpcUrl(this.config.network));
+      const readOnlyProvider = getRpcProvider(this.config.network);
       const freshContract = new ethers.Contract(this.config.safeAddress, SAFE_ABI, readOnlyProvider);
 
       const noncePromise = freshContract.nonce();
@@ -1164,8 +1308,7 @@ export class SafeWalletService {
     // Method 4: Try with static provider (same as validation)
     try {
       console.log('🔢 Method 4: Using static provider (validation method)...');
-      const staticRpcUrl = getRpcUrl(this.config.network);
-      const staticProvider = new ethers.providers.JsonRpcProvider(staticRpcUrl);
+      const staticProvider = getRpcProvider(this.config.network);
       const staticContract = new ethers.Contract(this.config.safeAddress, SAFE_ABI, staticProvider);
 
       const nonce = await staticContract.nonce();
@@ -1446,6 +1589,272 @@ export class SafeWalletService {
       throw new Error(`Failed to remove guard: ${error}`);
     }
   }
+
+  /**
+   * Get the current fallback handler address for the Safe
+   */
+  async getFallbackHandler(): Promise<string> {
+    this.ensureInitialized();
+
+    if (!this.provider) {
+      throw new Error('Provider not initialized');
+    }
+
+    if (!this.config) {
+      throw new Error('Safe configuration not initialized');
+    }
+
+    try {
+      const handlerData = await this.provider.getStorageAt(
+        this.config.safeAddress,
+        SafeFallbackHandlerService.FALLBACK_HANDLER_STORAGE_SLOT
+      );
+
+      return SafeFallbackHandlerService.parseFallbackHandlerStorage(handlerData);
+    } catch (error: any) {
+      console.error('Error getting fallback handler:', error);
+      throw new Error(`Failed to get fallback handler: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Propose changing the fallback handler of the Safe wallet
+   */
+  async setFallbackHandler(handlerAddress: string, customNonce?: number): Promise<SafeTransactionData & { txHash: string; signature: string }> {
+    this.ensureInitialized();
+
+    if (!this.signer) {
+      throw new Error('Signer not available. Please connect a wallet.');
+    }
+
+    if (!this.safeContract) {
+      throw new Error('Safe contract not initialized');
+    }
+
+    try {
+      // Use custom nonce if provided, otherwise get current nonce
+      const nonce = customNonce !== undefined ? customNonce : await this.getNonce();
+      const safeTransaction = SafeFallbackHandlerService.createSetFallbackHandlerTransaction(
+        this.config!.safeAddress,
+        handlerAddress,
+        nonce
+      );
+
+      return await this.createTransaction({
+        to: safeTransaction.to,
+        value: safeTransaction.value,
+        data: safeTransaction.data,
+        operation: safeTransaction.operation
+      }, nonce);
+    } catch (error: any) {
+      console.error('Error setting fallback handler:', error);
+      throw new Error(`Failed to set fallback handler: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Get a page of enabled modules, starting after the given module (or the sentinel for the first page)
+   */
+  async getModulesPaginated(
+    start: string = SafeModuleService.SENTINEL_MODULES,
+    pageSize: number = 10
+  ): Promise<ModulePage> {
+    this.ensureInitialized();
+
+    if (!this.safeContract) {
+      throw new Error('Safe contract not initialized');
+    }
+
+    try {
+      const [modules, next] = await this.safeContract.getModulesPaginated(start, pageSize);
+      return { modules: [...modules], next };
+    } catch (error: any) {
+      console.error('Error getting modules:', error);
+      throw new Error(`Failed to get modules: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Get all enabled modules in linked list order by walking every page
+   */
+  async getAllModules(): Promise<string[]> {
+    return SafeModuleService.collectModules((start, pageSize) => this.getModulesPaginated(start, pageSize));
+  }
+
+  /**
+   * Check if a module is enabled on the Safe
+   */
+  async isModuleEnabled(moduleAddress: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    if (!this.safeContract) {
+      throw new Error('Safe contract not initialized');
+    }
+
+    try {
+      return await this.safeContract.isModuleEnabled(moduleAddress);
+    } catch (error: any) {
+      console.error('Error checking module status:', error);
+      throw new Error(`Failed to check module status: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Enable a module for the Safe wallet
+   */
+  async enableModule(moduleAddress: string, customNonce?: number): Promise<SafeTransactionData & { txHash: string; signature: string }> {
+    this.ensureInitialized();
+
+    if (!this.signer) {
+      throw new Error('Signer not available. Please connect a wallet.');
+    }
+
+    if (!this.safeContract) {
+      throw new Error('Safe contract not initialized');
+    }
+
+    try {
+      if (await this.isModuleEnabled(moduleAddress)) {
+        throw new Error('Module is already enabled on this Safe');
+      }
+
+      // Use custom nonce if provided, otherwise get current nonce
+      const nonce = customNonce !== undefined ? customNonce : await this.getNonce();
+      const safeTransaction = SafeModuleService.createEnableModuleTransaction(
+        this.config!.safeAddress,
+        moduleAddress,
+        nonce
+      );
+
+      return await this.createTransaction({
+        to: safeTransaction.to,
+        value: safeTransaction.value,
+        data: safeTransaction.data,
+        operation: safeTransaction.operation
+      }, nonce);
+    } catch (error: any) {
+      console.error('Error enabling module:', error);
+      throw new Error(`Failed to enable module: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Disable a module, computing prevModule from the Safe's module linked list
+   */
+  async disableModule(moduleAddress: string, customNonce?: number): Promise<SafeTransactionData & { txHash: string; signature: string }> {
+    this.ensureInitialized();
+
+    if (!this.signer) {
+      throw new Error('Signer not available. Please connect a wallet.');
+    }
+
+    if (!this.safeContract) {
+      throw new Error('Safe contract not initialized');
+    }
+
+    try {
+      const modules = await this.getAllModules();
+      const prevModule = SafeModuleService.findPrevModule(modules, moduleAddress);
+
+      // Use custom nonce if provided, otherwise get current nonce
+      const nonce = customNonce !== undefined ? customNonce : await this.getNonce();
+      const safeTransaction = SafeModuleService.createDisableModuleTransaction(
+        this.config!.safeAddress,
+        prevModule,
+        moduleAddress,
+        nonce
+      );
+
+      return await this.createTransaction({
+        to: safeTransaction.to,
+        value: safeTransaction.value,
+        data: safeTransaction.data,
+        operation: safeTransaction.operation
+      }, nonce);
+    } catch (error: any) {
+      console.error('Error disabling module:', error);
+      throw new Error(`Failed to disable module: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Create an off-chain Safe message for this Safe (or return the existing one)
+   */
+  async createSafeMessage(content: SafeMessageContent, origin?: string): Promise<SafeMessage> {
+    this.ensureInitialized();
+
+    if (!this.provider) {
+      throw new Error('Provider not initialized');
+    }
+
+    const network = await this.provider.getNetwork();
+    return safeMessageService.createMessage(
+      this.config!.safeAddress,
+      this.config!.network,
+      network.chainId,
+      content,
+      origin
+    );
+  }
+
+  /**
+   * Sign a Safe message with the connected owner and store the signature
+   */
+  async signSafeMessage(safeMessageHash: string): Promise<SafeMessage> {
+    this.ensureInitialized();
+
+    if (!this.signer || !this.safeContract) {
+      throw new Error('No signer available or Safe contract not initialized.');
+    }
+
+    const message = safeMessageService.getMessage(safeMessageHash);
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    try {
+      const signature = await signSafeMessage(
+        this.signer,
+        { chainId: message.chainId, verifyingContract: message.safeAddress },
+        message.messageHash
+      );
+      const owners: string[] = await this.safeContract.getOwners();
+
+      return await safeMessageService.addSignature(this.provider!, safeMessageHash, signature, owners);
+    } catch (error: any) {
+      console.error('❌ Error signing Safe message:', error);
+      throw new Error(`Failed to sign Safe message: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Verify an EIP-1271 signature for a message hash against this Safe
+   */
+  async verifySafeMessageSignature(messageHash: string, signature: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    if (!this.provider) {
+      throw new Error('Provider not initialized');
+    }
+
+    return safeMessageService.isValidSignature(this.provider, this.config!.safeAddress, messageHash, signature);
+  }
+
+  /**
+   * Propose a SignMessageLib delegatecall that marks a message as signed on-chain
+   * Fallback for verifiers that only accept on-chain signatures (empty EIP-1271 signature)
+   */
+  async proposeSignMessageTransaction(messageHash: string, customNonce?: number): Promise<SafeTransactionData & { txHash: string }> {
+    this.ensureInitialized();
+
+    try {
+      const transactionRequest = safeMessageService.createSignMessageTransaction(this.config!.network, messageHash);
+      return await this.proposeUnsignedTransaction(transactionRequest, customNonce);
+    } catch (error: any) {
+      console.error('Error proposing SignMessageLib transaction:', error);
+      throw new Error(`Failed to propose on-chain message signature: ${error.message || error}`);
+    }
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,237 @@
+/**
+ * Signature Dictionary Service
+ *
+ * Decodes calldata and event logs without an ABI or network access, using the bundled
+ * function selector and event topic dictionary (contracts/signatureDictionary.ts).
+ * The dictionary is loaded on first use so it stays out of the main bundle.
+ * When several signatures share a selector or topic, the one whose decoding round-trips
+ * to exactly the same bytes is chosen.
+ */
+
+import { ethers } from 'ethers';
+
+export interface DecodedSignatureParam {
+  name: string;
+  type: string;
+  value: any;
+  indexed?: boolean;
+}
+
+export interface DecodedSignatureCall {
+  name: string;
+  signature: string;
+  fragment: ethers.utils.FunctionFragment;
+  args: ethers.utils.Result;
+  params: DecodedSignatureParam[];
+}
+
+export interface DecodedSignatureLog {
+  name: string;
+  signature: string;
+  fragment: ethers.utils.EventFragment;
+  params: DecodedSignatureParam[];
+}
+
+export interface EventLogInput {
+  topics: string[];
+  data: string;
+}
+
+interface SignatureIndex {
+  functions: Map<string, ethers.utils.FunctionFragment[]>;
+  events: Map<string, ethers.utils.EventFragment[]>;
+}
+
+const coder = ethers.utils.defaultAbiCoder;
+
+/**
+ * Expand the single-letter type aliases of a compact dictionary entry
+ */
+export const expandSignature = (entry: string, aliases: Record<string, string>): string =>
+  entry.replace(/(^|[(,])([a-zA-Z])(?=[\s,)[])/g, (match, prefix, alias) =>
+    aliases[alias] ? `${prefix}${aliases[alias]}` : match
+  );
+
+const parseEntries = <T>(entries: string, aliases: Record<string, string>, parse: (signature: string) => T): T[] =>
+  entries
+    .split('\n')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => parse(expandSignature(entry, aliases)));
+
+const toParams = (inputs: ethers.utils.ParamType[], values: any[], isEvent: boolean = false): DecodedSignatureParam[] =>
+  inputs.map((input, index) => ({
+    name: input.name || `param${index}`,
+    type: input.type,
+    value: values[index],
+    ...(isEvent ? { indexed: Boolean(input.indexed) } : {})
+  }));
+
+// Indexed values of these types are stored as the keccak256 hash of their encoding
+const HASHED_TOPIC_TYPES = ['string', 'bytes', 'array', 'tuple'];
+
+/**
+ * Decode calldata with a candidate fragment, null unless re-encoding gives back the same calldata
+ */
+export const decodeFunctionCandidate = (
+  data: string,
+  fragment: ethers.utils.FunctionFragment
+): ethers.utils.Result | null => {
+  try {
+    const iface = new ethers.utils.Interface([fragment]);
+    const args = iface.decodeFunctionData(fragment, data);
+    return iface.encodeFunctionData(fragment, args) === data.toLowerCase() ? args : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decode a log with a candidate fragment, null unless the topics and data round-trip
+ * Indexed dynamic values are only available as hashes and are kept as such
+ */
+export const decodeEventCandidate = (
+  log: EventLogInput,
+  fragment: ethers.utils.EventFragment
+): any[] | null => {
+  const indexedInputs = fragment.inputs.filter(input => input.indexed);
+  const dataInputs = fragment.inputs.filter(input => !input.indexed);
+  if (log.topics.length !== indexedInputs.length + 1) {
+    return null;
+  }
+
+  try {
+    const dataValues = coder.decode(dataInputs, log.data);
+    if (coder.encode(dataInputs, dataValues) !== log.data.toLowerCase()) {
+      return null;
+    }
+
+    const indexedValues = indexedInputs.map((input, index) => {
+      const topic = log.topics[index + 1].toLowerCase();
+      if (HASHED_TOPIC_TYPES.includes(input.baseType)) {
+        return topic;
+      }
+
+      const value = coder.decode([input], topic)[0];
+      if (coder.encode([input], [value]) !== topic) {
+        throw new Error('Topic does not round-trip');
+      }
+      return value;
+    });
+
+    let dataIndex = 0;
+    let topicIndex = 0;
+    return fragment.inputs.map(input => input.indexed ? indexedValues[topicIndex++] : dataValues[dataIndex++]);
+  } catch {
+    return null;
+  }
+};
+
+class SignatureDictionaryService {
+  private static instance: SignatureDictionaryService;
+  private indexPromise: Promise<SignatureIndex> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): SignatureDictionaryService {
+    if (!SignatureDictionaryService.instance) {
+      SignatureDictionaryService.instance = new SignatureDictionaryService();
+    }
+    return SignatureDictionaryService.instance;
+  }
+
+  /**
+   * Get the function signatures matching the selector of the calldata
+   */
+  public async getFunctionCandidates(selector: string): Promise<ethers.utils.FunctionFragment[]> {
+    const index = await this.loadIndex();
+    return index.functions.get(selector.toLowerCase()) || [];
+  }
+
+  /**
+   * Get the event signatures matching a topic0
+   */
+  public async getEventCandidates(topic: string): Promise<ethers.utils.EventFragment[]> {
+    const index = await this.loadIndex();
+    return index.events.get(topic.toLowerCase()) || [];
+  }
+
+  /**
+   * Decode calldata with the first dictionary signature that round-trips cleanly
+   */
+  public async decodeFunctionCall(data: string): Promise<DecodedSignatureCall | null> {
+    if (!data || data.length < 10) {
+      return null;
+    }
+
+    for (const fragment of await this.getFunctionCandidates(data.slice(0, 10))) {
+      const args = decodeFunctionCandidate(data, fragment);
+      if (args) {
+        return {
+          name: fragment.name,
+          signature: fragment.format(),
+          fragment,
+          args,
+          params: toParams(fragment.inputs, Array.from(args))
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Decode an event log with the first dictionary signature that round-trips cleanly
+   */
+  public async decodeEventLog(log: EventLogInput): Promise<DecodedSignatureLog | null> {
+    if (!log.topics || log.topics.length === 0) {
+      return null; // Anonymous events have no topic to look up
+    }
+
+    for (const fragment of await this.getEventCandidates(log.topics[0])) {
+      const values = decodeEventCandidate(log, fragment);
+      if (values) {
+        return {
+          name: fragment.name,
+          signature: fragment.format(),
+          fragment,
+          params: toParams(fragment.inputs, values, true)
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private loadIndex(): Promise<SignatureIndex> {
+    if (!this.indexPromise) {
+      this.indexPromise = import('../contracts/signatureDictionary').then(dictionary => {
+        const index: SignatureIndex = { functions: new Map(), events: new Map() };
+
+        parseEntries(dictionary.FUNCTION_SIGNATURES, dictionary.SIGNATURE_TYPE_ALIASES, signature =>
+          ethers.utils.FunctionFragment.from(signature)
+        ).forEach(fragment => {
+          const selector = ethers.utils.id(fragment.format()).slice(0, 10);
+          index.functions.set(selector, [...(index.functions.get(selector) || []), fragment]);
+        });
+
+        parseEntries(dictionary.EVENT_SIGNATURES, dictionary.SIGNATURE_TYPE_ALIASES, signature =>
+          ethers.utils.EventFragment.from(signature)
+        ).forEach(fragment => {
+          const topic = ethers.utils.id(fragment.format());
+          index.events.set(topic, [...(index.events.get(topic) || []), fragment]);
+        });
+
+        console.log(`📖 Signature dictionary loaded: ${index.functions.size} selectors, ${index.events.size} event topics`);
+        return index;
+      }).catch(error => {
+        this.indexPromise = null;
+        throw new Error(`Failed to load signature dictionary: ${error.message || error}`);
+      });
+    }
+
+    return this.indexPromise;
+  }
+}
+
+export const signatureDictionaryService = SignatureDictionaryService.getInstance();
@@ -0,0 +1,221 @@
+/**
+ * Token Discovery Service
+ *
+ * Discovers the ERC-20 tokens a Safe has interacted with by scanning Transfer logs sent from or
+ * to it, instead of only checking the token list of the network. Candidates are checked with
+ * TokenService.isTokenContract, contracts that fail the check are remembered and not checked again.
+ * Contracts that could not be checked (RPC errors, rate limits) are checked again on the next scan.
+ *
+ * The scan is resumable (see LogScanner): the last scanned block, the discovered tokens and the
+ * hidden / pinned tokens are stored per network and Safe in localStorage.
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI } from '../contracts/abis';
+import { LogScanner, LogScanState } from './LogScanner';
+import { TokenBalance, TokenService } from './TokenService';
+
+const ERC20_INTERFACE = new ethers.utils.Interface(ERC20_ABI);
+
+export interface TokenPreferences {
+  hidden: string[]; // Lowercased token addresses
+  pinned: string[];
+}
+
+interface TokenDiscoveryState extends TokenPreferences, LogScanState {
+  tokens: string[]; // Verified ERC-20 contracts
+  rejected: string[]; // Contracts that are not ERC-20 tokens
+  unchecked: string[]; // Contracts whose check failed, checked again on the next scan
+}
+
+/**
+ * Extract the contracts emitting ERC-20 Transfer logs
+ * ERC-721 Transfer logs share the topic but have four topics instead of three and are skipped
+ */
+export const parseTokenTransferLogs = (logs: ethers.providers.Log[]): string[] => {
+  const transferTopic = ERC20_INTERFACE.getEventTopic('Transfer');
+  const addresses = logs
+    .filter(log => log.topics[0] === transferTopic && log.topics.length === 3)
+    .map(log => log.address.toLowerCase());
+
+  return Array.from(new Set(addresses));
+};
+
+export class TokenDiscoveryService {
+  private static readonly STORAGE_KEY = 'vito_token_discovery';
+
+  private provider: ethers.providers.Provider;
+  private network: string;
+  private tokenService: TokenService;
+  private scanner: LogScanner<TokenDiscoveryState>;
+
+  constructor(provider: ethers.providers.Provider, network: string) {
+    this.provider = provider;
+    this.network = network;
+    this.tokenService = new TokenService(provider, network);
+    this.scanner = new LogScanner(provider, TokenDiscoveryService.STORAGE_KEY, 'token transfers');
+  }
+
+  /**
+   * Scan the Transfer logs since the last checkpoint and return every token contract the Safe
+   * has sent or received
+   */
+  async discoverTokens(safeAddress: string): Promise<string[]> {
+    const stateKey = this.getStateKey(safeAddress);
+    const state = this.loadState(stateKey);
+
+    if (state.unchecked.length > 0) {
+      const retried = state.unchecked;
+      state.unchecked = [];
+      await this.checkCandidates(retried, state);
+      this.scanner.saveState(stateKey, state);
+    }
+
+    await this.scanner.scan(
+      stateKey,
+      state,
+      (fromBlock, toBlock) => this.fetchTransferLogs(safeAddress, fromBlock, toBlock),
+      async logs => {
+        const seen = new Set([...state.tokens, ...state.rejected, ...state.unchecked]);
+        await this.checkCandidates(parseTokenTransferLogs(logs).filter(address => !seen.has(address)), state);
+      }
+    );
+
+    return state.tokens;
+  }
+
+  /**
+   * Get the balances of the network's known tokens, the discovered tokens and the pinned tokens
+   * Pinned tokens are included even without a balance, hidden tokens are left to the caller
+   */
+  async getTokenBalances(safeAddress: string): Promise<TokenBalance[]> {
+    let discovered: string[] = [];
+    try {
+      discovered = await this.discoverTokens(safeAddress);
+    } catch (error) {
+      // Tokens found by earlier scans are still used
+      console.warn('⚠️ Token discovery failed, using the last discovered tokens:', error);
+      discovered = this.loadState(this.getStateKey(safeAddress)).tokens;
+    }
+
+    const { pinned } = this.getPreferences(safeAddress);
+    const balances = await this.tokenService.getAllTokenBalances(safeAddress, [...discovered, ...pinned]);
+
+    const held = new Set(balances.map(balance => balance.tokenInfo.address.toLowerCase()));
+    const missingPinned = pinned.filter(address => !held.has(address));
+    const emptyPinned = await Promise.all(missingPinned.map(async (address): Promise<TokenBalance | null> => {
+      const tokenInfo = await this.tokenService.getTokenInfo(address);
+      if (!tokenInfo) return null;
+
+      const listStatus = this.tokenService.getTokenListStatus(tokenInfo);
+      return { tokenInfo: { ...tokenInfo, listStatus }, balance: '0', formattedBalance: '0' };
+    }));
+
+    return [...balances, ...emptyPinned.filter((balance): balance is TokenBalance => balance !== null)];
+  }
+
+  getPreferences(safeAddress: string): TokenPreferences {
+    const { hidden, pinned } = this.loadState(this.getStateKey(safeAddress));
+    return { hidden, pinned };
+  }
+
+  /**
+   * Hide a token from the asset list, hiding a pinned token unpins it
+   */
+  hideToken(safeAddress: string, tokenAddress: string): TokenPreferences {
+    return this.updatePreferences(safeAddress, tokenAddress, { hidden: true, pinned: false });
+  }
+
+  unhideToken(safeAddress: string, tokenAddress: string): TokenPreferences {
+    return this.updatePreferences(safeAddress, tokenAddress, { hidden: false });
+  }
+
+  /**
+   * Pin a token to the top of the asset list, it is shown even without a balance
+   */
+  pinToken(safeAddress: string, tokenAddress: string): TokenPreferences {
+    return this.updatePreferences(safeAddress, tokenAddress, { pinned: true, hidden: false });
+  }
+
+  unpinToken(safeAddress: string, tokenAddress: string): TokenPreferences {
+    return this.updatePreferences(safeAddress, tokenAddress, { pinned: false });
+  }
+
+  /**
+   * Forget the scanned blocks and discovered tokens of a Safe, hidden and pinned tokens are kept
+   */
+  resetDiscovery(safeAddress: string): void {
+    const stateKey = this.getStateKey(safeAddress);
+    const { hidden, pinned } = this.loadState(stateKey);
+    this.scanner.saveState(stateKey, { lastBlock: -1, tokens: [], rejected: [], unchecked: [], hidden, pinned });
+  }
+
+  private updatePreferences(
+    safeAddress: string,
+    tokenAddress: string,
+    changes: { hidden?: boolean; pinned?: boolean }
+  ): TokenPreferences {
+    const stateKey = this.getStateKey(safeAddress);
+    const state = this.loadState(stateKey);
+    const address = tokenAddress.toLowerCase();
+
+    const update = (addresses: string[], include?: boolean) => {
+      if (include === undefined) return addresses;
+      const others = addresses.filter(a => a !== address);
+      return include ? [...others, address] : others;
+    };
+    state.hidden = update(state.hidden, changes.hidden);
+    state.pinned = update(state.pinned, changes.pinned);
+
+    this.scanner.saveState(stateKey, state);
+    return { hidden: state.hidden, pinned: state.pinned };
+  }
+
+  /**
+   * Check candidate contracts and add them to the tokens, rejected or unchecked contracts of the state
+   */
+  private async checkCandidates(candidates: string[], state: TokenDiscoveryState): Promise<void> {
+    const checks = await Promise.all(candidates.map(address =>
+      this.tokenService.isTokenContract(address).catch(error => {
+        console.warn(`⚠️ Could not check token contract ${address}, checking it again on the next scan:`, error);
+        return null;
+      })
+    ));
+
+    candidates.forEach((address, index) => {
+      const check = checks[index];
+      (check === null ? state.unchecked : check ? state.tokens : state.rejected).push(address);
+    });
+    if (candidates.length > 0) {
+      console.log(`🪙 Discovered ${checks.filter(Boolean).length} of ${candidates.length} new token contracts`);
+    }
+  }
+
+  private async fetchTransferLogs(safeAddress: string, fromBlock: number, toBlock: number): Promise<ethers.providers.Log[]> {
+    const transferTopic = ERC20_INTERFACE.getEventTopic('Transfer');
+    const safeTopic = ethers.utils.hexZeroPad(safeAddress.toLowerCase(), 32);
+
+    const [sent, received] = await Promise.all([
+      this.provider.getLogs({ fromBlock, toBlock, topics: [transferTopic, safeTopic] }),
+      this.provider.getLogs({ fromBlock, toBlock, topics: [transferTopic, null, safeTopic] })
+    ]);
+
+    return [...sent, ...received];
+  }
+
+  private getStateKey(safeAddress: string): string {
+    return `${this.network}:${safeAddress.toLowerCase()}`;
+  }
+
+  private loadState(stateKey: string): TokenDiscoveryState {
+    const stored = this.scanner.loadState(stateKey);
+    return {
+      lastBlock: stored.lastBlock ?? -1,
+      tokens: stored.tokens || [],
+      rejected: stored.rejected || [],
+      unchecked: stored.unchecked || [],
+      hidden: stored.hidden || [],
+      pinned: stored.pinned || []
+    };
+  }
+}
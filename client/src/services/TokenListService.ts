@@ -0,0 +1,424 @@
+/**
+ * Token List Service
+ *
+ * Loads token lists in the tokenlists.org schema: a bundled list built from the chain registry,
+ * default remote lists and lists added by the user from a URL or a file. Tokens on an enabled list
+ * are listed and get their logo from it. Unlisted tokens that reuse the symbol of a listed token,
+ * or advertise a link in their name, are flagged as suspected airdrop spam.
+ *
+ * User-added lists, uploaded list files and disabled lists are stored in localStorage, remote lists
+ * are fetched once per session.
+ */
+
+import { ethers } from 'ethers';
+import { CHAIN_REGISTRY } from '../config/chains';
+import { ipfsGatewayService } from './IpfsGatewayService';
+import { Asset } from '../components/wallet/types';
+
+export interface TokenListToken {
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+}
+
+export interface TokenList {
+  name: string;
+  timestamp?: string;
+  version?: { major: number; minor: number; patch: number };
+  logoURI?: string;
+  tokens: TokenListToken[];
+}
+
+export interface TokenListSource {
+  id: string;
+  name: string;
+  url?: string; // Remote lists, uploaded lists store their content instead
+  list?: TokenList;
+  builtIn?: boolean;
+  enabled: boolean;
+}
+
+export interface TokenListStatus {
+  listed: boolean;
+  lists: string[]; // Names of the enabled lists containing the token
+  logoURI?: string; // Resolved through the IPFS gateway
+  symbolCollision?: TokenListToken; // Listed token with the same symbol at another address
+  suspectedSpam: boolean;
+}
+
+interface StoredTokenLists {
+  userSources: TokenListSource[];
+  disabledIds: string[];
+}
+
+interface ListedEntry {
+  token: TokenListToken;
+  lists: string[];
+}
+
+const BUNDLED_LIST_ID = 'vito-default';
+
+const BUILT_IN_SOURCES: Omit<TokenListSource, 'enabled'>[] = [
+  { id: BUNDLED_LIST_ID, name: 'Vito Default', builtIn: true },
+  { id: 'uniswap', name: 'Uniswap Labs Default', url: 'https://tokens.uniswap.org', builtIn: true }
+];
+
+// Links and calls to action in token names are the usual airdrop scam pattern
+const SPAM_TEXT_PATTERN = /(https?:\/\/|www\.|t\.me\/|\.(com|io|org|net|xyz|app|site|top|finance)\b|claim|reward|airdrop|visit)/i;
+
+/**
+ * Get the asset fields describing the listing status of a token
+ */
+export const getAssetListFields = (
+  status?: TokenListStatus
+): Pick<Asset, 'imageUrl' | 'isListed' | 'symbolCollision' | 'isSuspectedSpam'> => status ? {
+  imageUrl: status.logoURI,
+  isListed: status.listed,
+  symbolCollision: status.symbolCollision?.address,
+  isSuspectedSpam: status.suspectedSpam
+} : {};
+
+/**
+ * Warning shown when an unlisted ERC-20 asset is chosen for a transfer
+ */
+export interface AssetListWarning {
+  severity: 'warning' | 'danger';
+  message: string;
+}
+
+/**
+ * Get the warning of an ERC-20 asset that is not on an enabled token list, null otherwise
+ */
+export const getAssetListWarning = (
+  asset: Pick<Asset, 'type' | 'symbol' | 'isListed' | 'symbolCollision' | 'isSuspectedSpam'>
+): AssetListWarning | null => {
+  if (asset.type !== 'erc20' || asset.isListed !== false) {
+    return null;
+  }
+  if (asset.symbolCollision) {
+    return {
+      severity: 'danger',
+      message: `Not the listed ${asset.symbol} (${asset.symbolCollision}), this may be an impersonation`
+    };
+  }
+  if (asset.isSuspectedSpam) {
+    return { severity: 'danger', message: 'Suspected airdrop spam token, do not interact with it unless you trust it' };
+  }
+  return { severity: 'warning', message: 'This token is not on any enabled token list' };
+};
+
+/**
+ * Build the bundled list from the tokens of the built-in chains
+ */
+const buildBundledList = (): TokenList => ({
+  name: 'Vito Default',
+  tokens: Object.values(CHAIN_REGISTRY).flatMap(chain => chain.tokens.map(token => ({
+    chainId: chain.chainId,
+    address: token.address,
+    name: token.name,
+    symbol: token.symbol,
+    decimals: token.decimals
+  })))
+});
+
+class TokenListService {
+  private static instance: TokenListService;
+  private readonly STORAGE_KEY = 'vito_token_lists';
+  private readonly FETCH_TIMEOUT_MS = 10_000;
+  private userSources: TokenListSource[] = [];
+  private disabledIds: string[] = [];
+  private bundledList: TokenList = buildBundledList();
+  private remoteLists: Map<string, TokenList> = new Map();
+  private errors: Map<string, string> = new Map();
+  private loadPromise: Promise<void> | null = null;
+  private byAddress: Map<string, ListedEntry> = new Map();
+  private bySymbol: Map<string, TokenListToken[]> = new Map();
+  private listeners: (() => void)[] = [];
+
+  private constructor() {
+    this.loadFromStorage();
+    this.rebuildIndex();
+  }
+
+  public static getInstance(): TokenListService {
+    if (!TokenListService.instance) {
+      TokenListService.instance = new TokenListService();
+    }
+    return TokenListService.instance;
+  }
+
+  /**
+   * Get the built-in and user-added lists
+   */
+  public getSources(): TokenListSource[] {
+    return [
+      ...BUILT_IN_SOURCES.map(source => ({ ...source, enabled: !this.disabledIds.includes(source.id) })),
+      ...this.userSources
+    ];
+  }
+
+  /**
+   * Get the error of the last fetch of a remote list, if it failed
+   */
+  public getSourceError(id: string): string | null {
+    return this.errors.get(id) || null;
+  }
+
+  /**
+   * Get the number of tokens on a list, null while a remote list is not loaded
+   */
+  public getTokenCount(id: string): number | null {
+    return this.getList(this.getSources().find(source => source.id === id))?.tokens.length ?? null;
+  }
+
+  /**
+   * Fetch the enabled remote lists that are not loaded yet
+   * Lists that fail to load are skipped and their error is kept for the Environment tab
+   */
+  public loadLists(): Promise<void> {
+    const pending = this.getSources().filter(source => source.enabled && source.url && !this.remoteLists.has(source.id));
+    if (pending.length === 0) {
+      return Promise.resolve();
+    }
+
+    if (!this.loadPromise) {
+      this.loadPromise = Promise.all(pending.map(async source => {
+        try {
+          this.remoteLists.set(source.id, await this.fetchList(source.url!));
+          this.errors.delete(source.id);
+          console.log(`📋 Loaded token list ${source.name}`);
+        } catch (error: any) {
+          console.warn(`⚠️ Failed to load token list ${source.name}:`, error);
+          this.errors.set(source.id, error.message || String(error));
+        }
+      })).then(() => {
+        this.loadPromise = null;
+        this.rebuildIndex();
+        this.notify();
+      });
+    }
+
+    return this.loadPromise;
+  }
+
+  /**
+   * Add a remote list, it is fetched and validated before being stored
+   */
+  public async addListUrl(url: string): Promise<TokenListSource> {
+    const trimmed = url.trim();
+    if (!/^https?:\/\//i.test(trimmed) && !trimmed.startsWith('ipfs://')) {
+      throw new Error('Token list URL must use http, https or ipfs');
+    }
+    if (this.getSources().some(source => source.url === trimmed)) {
+      throw new Error('This token list is already added');
+    }
+
+    const list = await this.fetchList(trimmed);
+    const source: TokenListSource = { id: `url:${trimmed}`, name: list.name, url: trimmed, enabled: true };
+
+    this.remoteLists.set(source.id, list);
+    this.userSources = [...this.userSources, source];
+    this.saveToStorage();
+    return source;
+  }
+
+  /**
+   * Add a list from an uploaded JSON file, its content is stored locally
+   */
+  public addListFile(json: string): TokenListSource {
+    const list = this.parseTokenList(json);
+    const source: TokenListSource = { id: `file:${list.name}:${Date.now()}`, name: list.name, list, enabled: true };
+
+    this.userSources = [...this.userSources, source];
+    this.saveToStorage();
+    return source;
+  }
+
+  public removeSource(id: string): void {
+    this.userSources = this.userSources.filter(source => source.id !== id);
+    this.remoteLists.delete(id);
+    this.errors.delete(id);
+    this.saveToStorage();
+  }
+
+  public setSourceEnabled(id: string, enabled: boolean): void {
+    if (BUILT_IN_SOURCES.some(source => source.id === id)) {
+      this.disabledIds = enabled
+        ? this.disabledIds.filter(disabledId => disabledId !== id)
+        : Array.from(new Set([...this.disabledIds, id]));
+    } else {
+      this.userSources = this.userSources.map(source => source.id === id ? { ...source, enabled } : source);
+    }
+    this.saveToStorage();
+
+    if (enabled) {
+      this.loadLists();
+    }
+  }
+
+  /**
+   * Validate a token list against the tokenlists.org schema
+   * Tokens with an invalid address, symbol or decimals are dropped instead of rejecting the list
+   */
+  public parseTokenList(input: string | any): TokenList {
+    let parsed: any = input;
+    if (typeof input === 'string') {
+      try {
+        parsed = JSON.parse(input);
+      } catch (error: any) {
+        throw new Error(`Invalid JSON: ${error.message || error}`);
+      }
+    }
+
+    if (!parsed || typeof parsed.name !== 'string' || !Array.isArray(parsed.tokens)) {
+      throw new Error('Expected a token list with a "name" and a "tokens" array');
+    }
+
+    const tokens: TokenListToken[] = parsed.tokens
+      .filter((token: any) =>
+        token &&
+        Number.isInteger(token.chainId) &&
+        typeof token.address === 'string' && ethers.utils.isAddress(token.address) &&
+        typeof token.symbol === 'string' && token.symbol.length > 0 &&
+        Number.isInteger(token.decimals) && token.decimals >= 0 && token.decimals <= 255
+      )
+      .map((token: any) => ({
+        chainId: token.chainId,
+        address: token.address,
+        name: typeof token.name === 'string' ? token.name : token.symbol,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        logoURI: typeof token.logoURI === 'string' ? token.logoURI : undefined,
+        tags: Array.isArray(token.tags) ? token.tags : undefined
+      }));
+
+    if (tokens.length === 0) {
+      throw new Error('Token list does not contain any valid tokens');
+    }
+
+    return {
+      name: parsed.name,
+      timestamp: parsed.timestamp,
+      version: parsed.version,
+      logoURI: parsed.logoURI,
+      tokens
+    };
+  }
+
+  /**
+   * Get the listing status of a token on a chain
+   */
+  public getTokenStatus(chainId: number, token: { address: string; symbol: string; name?: string }): TokenListStatus {
+    const entry = this.byAddress.get(`${chainId}:${token.address.toLowerCase()}`);
+    if (entry) {
+      return {
+        listed: true,
+        lists: entry.lists,
+        logoURI: entry.token.logoURI ? ipfsGatewayService.resolveUri(entry.token.logoURI) : undefined,
+        suspectedSpam: false
+      };
+    }
+
+    const symbolCollision = (this.bySymbol.get(`${chainId}:${token.symbol.trim().toUpperCase()}`) || [])[0];
+    return {
+      listed: false,
+      lists: [],
+      symbolCollision,
+      suspectedSpam: Boolean(symbolCollision) || SPAM_TEXT_PATTERN.test(`${token.symbol} ${token.name || ''}`)
+    };
+  }
+
+  /**
+   * Subscribe to list changes, returns an unsubscribe function
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private getList(source?: TokenListSource): TokenList | undefined {
+    if (!source) return undefined;
+    if (source.id === BUNDLED_LIST_ID) return this.bundledList;
+    return source.list || this.remoteLists.get(source.id);
+  }
+
+  private async fetchList(url: string): Promise<TokenList> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.FETCH_TIMEOUT_MS);
+    try {
+      const response = await fetch(ipfsGatewayService.resolveUri(url), { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return this.parseTokenList(await response.json());
+    } catch (error: any) {
+      throw new Error(`Failed to load token list: ${error.message || error}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Index the tokens of the enabled lists by address and by symbol
+   */
+  private rebuildIndex(): void {
+    this.byAddress = new Map();
+    this.bySymbol = new Map();
+
+    this.getSources().filter(source => source.enabled).forEach(source => {
+      const list = this.getList(source);
+      list?.tokens.forEach(token => {
+        const key = `${token.chainId}:${token.address.toLowerCase()}`;
+        const entry = this.byAddress.get(key);
+        if (entry) {
+          entry.lists.push(list.name);
+          // Keep the first logo found
+          entry.token = entry.token.logoURI ? entry.token : { ...entry.token, logoURI: token.logoURI };
+          return;
+        }
+
+        this.byAddress.set(key, { token, lists: [list.name] });
+        const symbolKey = `${token.chainId}:${token.symbol.trim().toUpperCase()}`;
+        this.bySymbol.set(symbolKey, [...(this.bySymbol.get(symbolKey) || []), token]);
+      });
+    });
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (stored) {
+        const parsed: StoredTokenLists = JSON.parse(stored);
+        this.userSources = parsed.userSources || [];
+        this.disabledIds = parsed.disabledIds || [];
+      }
+    } catch (error) {
+      console.warn('Failed to load token lists from storage:', error);
+      this.userSources = [];
+      this.disabledIds = [];
+    }
+  }
+
+  private saveToStorage(): void {
+    try {
+      const stored: StoredTokenLists = { userSources: this.userSources, disabledIds: this.disabledIds };
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Failed to save token lists to storage:', error);
+    }
+    this.rebuildIndex();
+    this.notify();
+  }
+}
+
+export const tokenListService = TokenListService.getInstance();
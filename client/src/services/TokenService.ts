@@ -1,5 +1,25 @@
 import { ethers } from 'ethers';
-import { ERC20_ABI, TOKEN_ADDRESSES } from '../contracts/abis';
+import { ERC20_ABI } from '../contracts/abis';
+import { getChainConfig, getChainConfigOrDefault } from '../config/chains';
+import { getMulticallService, MulticallCall, MulticallService } from './MulticallService';
+import { tokenListService, TokenListStatus } from './TokenListService';
+
+const ERC20_INTERFACE = new ethers.utils.Interface(ERC20_ABI);
+
+// Tokens such as MKR return their symbol and name as bytes32 instead of string
+const ERC20_BYTES32_INTERFACE = new ethers.utils.Interface([
+  'function symbol() view returns (bytes32)',
+  'function name() view returns (bytes32)'
+]);
+
+/**
+ * Decode a bytes32 symbol or name, which is padded with zero bytes
+ */
+const parseBytes32Text = (value: string): string => {
+  const bytes = ethers.utils.arrayify(value);
+  const end = bytes.indexOf(0);
+  return ethers.utils.toUtf8String(end === -1 ? bytes : bytes.slice(0, end));
+};
 
 export interface TokenInfo {
   address: string;
@@ -7,6 +27,7 @@ export interface TokenInfo {
   name: string;
   decimals: number;
   balance?: string; // Optional balance for display
+  listStatus?: TokenListStatus; // Set on balances once the token lists are loaded
 }
 
 export interface TokenBalance {
@@ -18,11 +39,13 @@ export interface TokenBalance {
 export class TokenService {
   private provider: ethers.providers.Provider;
   private network: string;
+  private multicall: MulticallService;
   private tokenCache: Map<string, TokenInfo> = new Map();
 
   constructor(provider: ethers.providers.Provider, network: string) {
     this.provider = provider;
     this.network = network;
+    this.multicall = getMulticallService(provider, network);
     this.initializeKnownTokens();
   }
 
@@ -30,19 +53,10 @@ export class TokenService {
    * Initialize cache with known tokens for the current network
    */
   private initializeKnownTokens(): void {
-    const networkTokens = TOKEN_ADDRESSES[this.network as keyof typeof TOKEN_ADDRESSES];
-    if (networkTokens) {
-      // Pre-populate cache with known token addresses
-      Object.entries(networkTokens).forEach(([symbol, address]) => {
-        // We'll fetch full token info when needed
-        this.tokenCache.set(address.toLowerCase(), {
-          address: address.toLowerCase(),
-          symbol,
-          name: symbol, // Will be updated when full info is fetched
-          decimals: 18 // Default, will be updated when full info is fetched
-        });
-      });
-    }
+    // Pre-populate cache with the token list of the network
+    this.getKnownTokens().forEach(token => {
+      this.tokenCache.set(token.address, token);
+    });
   }
 
   /**
@@ -57,14 +71,11 @@ export class TokenService {
     }
 
     try {
-      // Create contract instance
-      const contract = new ethers.Contract(address, ERC20_ABI, this.provider);
-
-      // Fetch token metadata
+      // Fetch token metadata, batched with other reads
       const [symbol, name, decimals] = await Promise.all([
-        contract.symbol(),
-        contract.name(),
-        contract.decimals()
+        this.readText(address, 'symbol'),
+        this.readText(address, 'name'),
+        this.multicall.call<number>(this.erc20Call(address, 'decimals'))
       ]);
 
       const tokenInfo: TokenInfo = {
@@ -88,28 +99,13 @@ export class TokenService {
    * Get native token info (ETH)
    */
   getNativeTokenInfo(): TokenInfo {
-    const nativeTokens: { [key: string]: TokenInfo } = {
-      ethereum: {
-        address: '0x0000000000000000000000000000000000000000',
-        symbol: 'ETH',
-        name: 'Ethereum',
-        decimals: 18
-      },
-      sepolia: {
-        address: '0x0000000000000000000000000000000000000000',
-        symbol: 'ETH',
-        name: 'Ethereum',
-        decimals: 18
-      },
-      arbitrum: {
-        address: '0x0000000000000000000000000000000000000000',
-        symbol: 'ETH',
-        name: 'Ethereum',
-        decimals: 18
-      }
+    const { nativeCurrency } = getChainConfigOrDefault(this.network);
+    return {
+      address: '0x0000000000000000000000000000000000000000',
+      symbol: nativeCurrency.symbol,
+      name: nativeCurrency.name,
+      decimals: nativeCurrency.decimals
     };
-
-    return nativeTokens[this.network] || nativeTokens.ethereum;
   }
 
   /**
@@ -136,17 +132,41 @@ export class TokenService {
   }
 
   /**
-   * Check if an address is a token contract
+   * Check if an address is a token contract by reading its symbol
+   * Resolves false only when the address has no code or symbol() reverts or returns no symbol,
+   * throws when the check itself fails (RPC errors, rate limits) so it can be retried
    */
   async isTokenContract(address: string): Promise<boolean> {
     try {
-      const contract = new ethers.Contract(address, ERC20_ABI, this.provider);
-      // Try to call a standard ERC20 function
-      await contract.symbol();
+      await this.readText(address, 'symbol');
       return true;
     } catch {
+      // Batched reads do not tell a revert from a failed request, find out with a direct call
+    }
+
+    const code = await this.provider.getCode(address);
+    if (code === '0x') {
       return false;
     }
+
+    let returnData: string;
+    try {
+      returnData = await this.provider.call({ to: address, data: ERC20_INTERFACE.encodeFunctionData('symbol') });
+    } catch (error: any) {
+      if (error.code === ethers.errors.CALL_EXCEPTION) {
+        return false;
+      }
+      throw error;
+    }
+
+    return [ERC20_INTERFACE, ERC20_BYTES32_INTERFACE].some(iface => {
+      try {
+        iface.decodeFunctionResult('symbol', returnData);
+        return true;
+      } catch {
+        return false;
+      }
+    });
   }
 
   /**
@@ -154,8 +174,7 @@ export class TokenService {
    */
   async getTokenBalance(tokenAddress: string, walletAddress: string): Promise<string> {
     try {
-      const contract = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
-      const balance = await contract.balanceOf(walletAddress);
+      const balance = await this.multicall.call<ethers.BigNumber>(this.erc20Call(tokenAddress, 'balanceOf', [walletAddress]));
       return balance.toString();
     } catch (error) {
       console.error(`Error fetching token balance for ${tokenAddress}:`, error);
@@ -186,111 +205,104 @@ export class TokenService {
   }
 
   /**
-   * Get known tokens for the current network
+   * Load the enabled token lists, balances are then marked as listed or unlisted with logos
    */
-  getKnownTokens(): TokenInfo[] {
-    const networkTokens = TOKEN_ADDRESSES[this.network as keyof typeof TOKEN_ADDRESSES];
-    if (!networkTokens) return [];
-
-    return Object.entries(networkTokens).map(([symbol, address]) => ({
-      address: address.toLowerCase(),
-      symbol,
-      name: symbol,
-      decimals: 18 // Default, will be updated when full info is fetched
-    }));
+  async loadTokenLists(): Promise<void> {
+    await tokenListService.loadLists();
   }
 
   /**
-   * Get popular tokens with balances for a wallet
+   * Get whether a token is on an enabled token list, collides with a listed symbol or looks like spam
    */
-  async getTokenBalances(walletAddress: string): Promise<TokenBalance[]> {
-    const knownTokens = this.getKnownTokens();
-    const balances: TokenBalance[] = [];
-
-    for (const token of knownTokens) {
-      try {
-        const balance = await this.getFormattedTokenBalance(token.address, walletAddress);
-        if (balance && parseFloat(balance.formattedBalance) > 0) {
-          balances.push(balance);
-        }
-      } catch (error) {
-        console.error(`Error fetching balance for ${token.symbol}:`, error);
-      }
-    }
-
-    return balances;
+  getTokenListStatus(token: TokenInfo): TokenListStatus | undefined {
+    const chain = getChainConfig(this.network);
+    return chain ? tokenListService.getTokenStatus(chain.chainId, token) : undefined;
   }
 
   /**
-   * Get additional popular token addresses for the current network
-   * This includes tokens that might not be in TOKEN_ADDRESSES but are commonly used
+   * Get known tokens for the current network
    */
-  getPopularTokenAddresses(): string[] {
-    const popularTokens: { [network: string]: string[] } = {
-      ethereum: [
-        '0xA0b86a33E6441b8C4505B4afDcA7aBB2B6e1B4B4', // USDC
-        '0x6B175474E89094C44Da98b954EedeAC495271d0F', // DAI
-        '0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
-        '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', // WBTC
-        '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
-        '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984', // UNI
-        '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9', // AAVE
-        '0x514910771AF9Ca656af840dff83E8264EcF986CA', // LINK
-      ],
-      sepolia: [
-        '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', // USDC (testnet)
-        '0x779877A7B0D9E8603169DdbD7836e478b4624789', // LINK (testnet)
-      ],
-      polygon: [
-        '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', // USDC
-        '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063', // DAI
-        '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', // USDT
-        '0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6', // WBTC
-        '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', // WETH
-      ],
-      arbitrum: [
-        '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', // USDC
-        '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', // DAI
-        '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', // USDT
-        '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f', // WBTC
-        '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', // WETH
-      ]
-    };
+  getKnownTokens(): TokenInfo[] {
+    const chain = getChainConfig(this.network);
+    if (!chain) return [];
+
+    return chain.tokens.map(token => ({
+      address: token.address.toLowerCase(),
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals
+    }));
+  }
 
-    return popularTokens[this.network] || [];
+  /**
+   * Get popular tokens with balances for a wallet
+   */
+  async getTokenBalances(walletAddress: string): Promise<TokenBalance[]> {
+    return this.getBatchedTokenBalances(this.getKnownTokens().map(token => token.address), walletAddress);
   }
 
   /**
-   * Get all tokens (known + popular) with balances for a wallet
+   * Get the known tokens of the network and the given token addresses with balances for a wallet
+   * Token discovery passes the tokens found in the wallet's Transfer logs
    */
-  async getAllTokenBalances(walletAddress: string): Promise<TokenBalance[]> {
+  async getAllTokenBalances(walletAddress: string, tokenAddresses: string[] = []): Promise<TokenBalance[]> {
     const knownTokens = this.getKnownTokens();
-    const popularAddresses = this.getPopularTokenAddresses();
 
-    // Combine known tokens with popular token addresses
+    // Combine known tokens with the discovered token addresses
     const allTokenAddresses = Array.from(new Set([
       ...knownTokens.map(t => t.address.toLowerCase()),
-      ...popularAddresses.map(addr => addr.toLowerCase())
+      ...tokenAddresses.map(addr => addr.toLowerCase())
     ]));
 
-    const balances: TokenBalance[] = [];
+    console.log(`🔍 Checking ${allTokenAddresses.length} token balances...`);
+    const [balances] = await Promise.all([
+      this.getBatchedTokenBalances(allTokenAddresses, walletAddress),
+      this.loadTokenLists()
+    ]);
+    balances.forEach(balance => {
+      console.log(`✅ Found balance: ${balance.formattedBalance} ${balance.tokenInfo.symbol}`);
+    });
+
+    return balances.map(balance => ({
+      ...balance,
+      tokenInfo: { ...balance.tokenInfo, listStatus: this.getTokenListStatus(balance.tokenInfo) }
+    }));
+  }
 
-    for (const address of allTokenAddresses) {
-      try {
-        console.log(`🔍 Checking token balance for ${address}...`);
-        const balance = await this.getFormattedTokenBalance(address, walletAddress);
-        if (balance && parseFloat(balance.formattedBalance) > 0) {
-          console.log(`✅ Found balance: ${balance.formattedBalance} ${balance.tokenInfo.symbol}`);
-          balances.push(balance);
-        } else {
-          console.log(`⚪ Zero balance for token at ${address}`);
+  /**
+   * Get the non-zero balances of many tokens with one batched read
+   * Metadata is only fetched for tokens with a balance that are not cached yet
+   */
+  async getBatchedTokenBalances(tokenAddresses: string[], walletAddress: string): Promise<TokenBalance[]> {
+    const results = await this.multicall.aggregate<ethers.BigNumber>(
+      tokenAddresses.map(address => this.erc20Call(address, 'balanceOf', [walletAddress]))
+    );
+
+    const heldTokens = tokenAddresses
+      .map((address, index) => ({ address, result: results[index] }))
+      .filter(({ address, result }) => {
+        if (!result.success) {
+          console.warn(`❌ Error fetching balance for token ${address}:`, result.error);
+          return false;
         }
-      } catch (error) {
-        console.warn(`❌ Error fetching balance for token ${address}:`, error);
-      }
-    }
+        return result.value !== null && !result.value.isZero();
+      });
+
+    const balances = await Promise.all(heldTokens.map(async ({ address, result }) => {
+      const tokenInfo = await this.getTokenInfo(address);
+      if (!tokenInfo) return null;
+
+      const balance = result.value!.toString();
+      return {
+        tokenInfo,
+        balance,
+        formattedBalance: this.formatTokenAmount(balance, tokenInfo.decimals)
+      };
+    }));
 
-    return balances;
+    return balances.filter((balance): balance is TokenBalance =>
+      balance !== null && parseFloat(balance.formattedBalance) > 0
+    );
   }
 
   /**
@@ -309,6 +321,25 @@ export class TokenService {
     }
   }
 
+  /**
+   * Build an ERC-20 read for the multicall batching layer
+   */
+  /**
+   * Read the symbol or name of a token, falling back to the bytes32 variant
+   */
+  private async readText(tokenAddress: string, method: 'symbol' | 'name'): Promise<string> {
+    try {
+      return await this.multicall.call<string>(this.erc20Call(tokenAddress, method));
+    } catch (error) {
+      const value = await this.multicall.call<string>({ target: tokenAddress, iface: ERC20_BYTES32_INTERFACE, method });
+      return parseBytes32Text(value);
+    }
+  }
+
+  private erc20Call(tokenAddress: string, method: string, args: any[] = []): MulticallCall {
+    return { target: tokenAddress, iface: ERC20_INTERFACE, method, args };
+  }
+
   /**
    * Clear token cache
    */
@@ -1,8 +1,18 @@
 /**
  * High-performance caching service for Safe transaction data
- * Implements multi-level caching with automatic invalidation
+ *
+ * Pages are kept in a memory cache backed by IndexedDB, partitioned per network and Safe.
+ * Storage is bounded by total and per-partition quotas with least-recently-used eviction.
+ * Entries do not expire on a timer: a partition is invalidated when the Safe executes a
+ * transaction or module transaction, or receives ETH, in a block after the one its pages were
+ * fetched at.
  */
 
+import { ethers } from 'ethers';
+import { SAFE_ABI } from '../contracts/abis';
+import { getRpcProvider } from './FailoverRpcProvider';
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb';
+
 export interface CachedTransaction {
   id: string;
   safeTxHash: string;
@@ -11,11 +21,13 @@ export interface CachedTransaction {
   blockNumber?: number;
 }
 
-export interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  expiresAt: number;
+export interface CacheEntry {
   key: string;
+  partition: string; // `${network}:${safeAddress}`
+  size: number; // Estimated bytes of the page data
+  blockNumber: number; // Block the page was fetched at
+  createdAt: number;
+  lastAccessed: number;
 }
 
 export interface TransactionPage {
@@ -26,118 +38,459 @@ export interface TransactionPage {
   cacheKey: string;
 }
 
+export interface CacheQuotas {
+  maxBytes: number;
+  maxPartitionBytes: number;
+}
+
+export interface CacheStats {
+  memoryEntries: number;
+  persistentEntries: number;
+  activeRequests: number;
+  memorySize: string;
+  persistentSize: string;
+  partitions: number;
+  quota: string;
+  storageBackend: 'indexeddb' | 'memory';
+  storageUsage: string | null; // Origin-wide usage reported by the browser
+  storageQuota: string | null;
+}
+
+/**
+ * Persistence of cached pages, page data and LRU metadata are stored separately so
+ * eviction never has to load page data
+ */
+interface CacheStore {
+  getEntries(): Promise<CacheEntry[]>;
+  getPage(key: string): Promise<TransactionPage | null>;
+  putPage(entry: CacheEntry, page: TransactionPage): Promise<void>;
+  putEntry(entry: CacheEntry): Promise<void>;
+  deletePages(keys: string[]): Promise<void>;
+}
+
+// Schema migrations, MIGRATIONS[n] upgrades the database from version n to n + 1
+const MIGRATIONS: Array<(db: IDBDatabase) => void> = [
+  // v1: replace the localStorage cache, its keys had no network so the old pages are dropped
+  db => {
+    db.createObjectStore('pages');
+    const entries = db.createObjectStore('entries', { keyPath: 'key' });
+    entries.createIndex('partition', 'partition');
+    removeLegacyLocalStorageEntries();
+  }
+];
+
+const removeLegacyLocalStorageEntries = (): void => {
+  try {
+    const keysToRemove: string[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (key && key.startsWith('tx_history_')) {
+        keysToRemove.push(key);
+      }
+    }
+    keysToRemove.forEach(key => window.localStorage.removeItem(key));
+  } catch (error) {
+    console.warn('Error removing legacy transaction cache entries:', error);
+  }
+};
+
+class IndexedDbCacheStore implements CacheStore {
+  private static readonly DB_NAME = 'vito_transaction_cache';
+  private db: Promise<IDBDatabase> | null = null;
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(IndexedDbCacheStore.DB_NAME, MIGRATIONS.length, (db, oldVersion) => {
+        for (let version = oldVersion; version < MIGRATIONS.length; version++) {
+          MIGRATIONS[version](db);
+        }
+      });
+    }
+    return this.db;
+  }
+
+  async getEntries(): Promise<CacheEntry[]> {
+    const db = await this.getDb();
+    return requestToPromise(db.transaction('entries').objectStore('entries').getAll());
+  }
+
+  async getPage(key: string): Promise<TransactionPage | null> {
+    const db = await this.getDb();
+    const page = await requestToPromise(db.transaction('pages').objectStore('pages').get(key));
+    return page || null;
+  }
+
+  async putPage(entry: CacheEntry, page: TransactionPage): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(['pages', 'entries'], 'readwrite');
+    transaction.objectStore('pages').put(page, entry.key);
+    transaction.objectStore('entries').put(entry);
+    await transactionDone(transaction);
+  }
+
+  async putEntry(entry: CacheEntry): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction('entries', 'readwrite');
+    transaction.objectStore('entries').put(entry);
+    await transactionDone(transaction);
+  }
+
+  async deletePages(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    const db = await this.getDb();
+    const transaction = db.transaction(['pages', 'entries'], 'readwrite');
+    keys.forEach(key => {
+      transaction.objectStore('pages').delete(key);
+      transaction.objectStore('entries').delete(key);
+    });
+    await transactionDone(transaction);
+  }
+}
+
+class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private pages = new Map<string, TransactionPage>();
+
+  async getEntries(): Promise<CacheEntry[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async getPage(key: string): Promise<TransactionPage | null> {
+    return this.pages.get(key) || null;
+  }
+
+  async putPage(entry: CacheEntry, page: TransactionPage): Promise<void> {
+    this.entries.set(entry.key, entry);
+    this.pages.set(entry.key, page);
+  }
+
+  async putEntry(entry: CacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry);
+  }
+
+  async deletePages(keys: string[]): Promise<void> {
+    keys.forEach(key => {
+      this.entries.delete(key);
+      this.pages.delete(key);
+    });
+  }
+}
+
+/**
+ * Estimate the stored size of a value without serializing it
+ */
+const estimateSize = (value: any): number => {
+  if (value === null || value === undefined) return 0;
+
+  switch (typeof value) {
+    case 'string':
+      return value.length * 2;
+    case 'number':
+      return 8;
+    case 'boolean':
+      return 4;
+    case 'object':
+      if (Array.isArray(value)) {
+        return value.reduce((size: number, item: any) => size + estimateSize(item), 0);
+      }
+      return Object.keys(value).reduce((size, key) => size + key.length * 2 + estimateSize(value[key]), 0);
+    default:
+      return 0;
+  }
+};
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.round(bytes / 1024)}KB`;
+
 export class TransactionCacheService {
-  private memoryCache = new Map<string, CacheEntry<any>>();
-  private persistentCache: Storage | null = null;
+  private memoryCache = new Map<string, TransactionPage>(); // Insertion order is the LRU order
+  private entries = new Map<string, CacheEntry>();
+  private store: CacheStore;
+  private loaded: Promise<void> | null = null;
   private requestCache = new Map<string, Promise<any>>();
-  
+  private validatedBlocks = new Map<string, number>(); // Partition → block it was last checked at
+  private lastAccessTime = 0;
+  private readonly quotas: CacheQuotas;
+
   // Cache configuration
-  private readonly MEMORY_TTL = 5 * 60 * 1000; // 5 minutes
-  private readonly PERSISTENT_TTL = 30 * 60 * 1000; // 30 minutes
-  private readonly MAX_MEMORY_ENTRIES = 1000;
-  private readonly PAGE_SIZE = 20;
-
-  constructor() {
-    // Use localStorage for persistent caching if available
-    if (typeof window !== 'undefined' && window.localStorage) {
-      this.persistentCache = window.localStorage;
-    }
-    
-    // Cleanup expired entries periodically
-    setInterval(() => this.cleanup(), 60000); // Every minute
+  private readonly MAX_MEMORY_ENTRIES = 200;
+  private readonly MAX_VALIDATION_RANGE = 50000; // Blocks, older partitions are dropped instead of scanned
+  private readonly MIN_LOG_RANGE = 1000; // Smallest eth_getLogs range tried before giving up
+  private readonly safeInterface = new ethers.utils.Interface(SAFE_ABI);
+
+  constructor(quotas: Partial<CacheQuotas> = {}) {
+    this.quotas = {
+      maxBytes: 50 * 1024 * 1024, // 50 MB
+      maxPartitionBytes: 10 * 1024 * 1024, // 10 MB per Safe and network
+      ...quotas
+    };
+    this.store = isIndexedDbAvailable() ? new IndexedDbCacheStore() : new MemoryCacheStore();
   }
 
   /**
    * Generate cache key for Safe transaction history
    */
-  private getCacheKey(safeAddress: string, page: number = 0, filters?: any): string {
+  private getCacheKey(network: string, safeAddress: string, page: number = 0, filters?: any): string {
     const filterStr = filters ? JSON.stringify(filters) : '';
-    return `tx_history_${safeAddress}_${page}_${filterStr}`;
+    return `tx_history_${this.getPartition(network, safeAddress)}_${page}_${filterStr}`;
+  }
+
+  private getPartition(network: string, safeAddress: string): string {
+    return `${network}:${safeAddress.toLowerCase()}`;
+  }
+
+  /**
+   * Load the LRU metadata of the persistent cache once
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.getEntries()
+        .then(entries => entries.forEach(entry => this.entries.set(entry.key, entry)))
+        .catch(error => {
+          console.warn('Error loading transaction cache, falling back to memory:', error);
+          this.store = new MemoryCacheStore();
+        });
+    }
+    return this.loaded;
   }
 
   /**
    * Get cached transaction page
+   * Pages of a Safe that executed transactions since they were cached are dropped first
    */
   async getCachedTransactionPage(
-    safeAddress: string, 
+    network: string,
+    safeAddress: string,
     page: number = 0,
     filters?: any
   ): Promise<TransactionPage | null> {
-    const cacheKey = this.getCacheKey(safeAddress, page, filters);
-    
-    // Check memory cache first (fastest)
-    const memoryEntry = this.memoryCache.get(cacheKey);
-    if (memoryEntry && memoryEntry.expiresAt > Date.now()) {
-      return memoryEntry.data;
+    await this.ensureLoaded();
+    await this.validatePartition(network, safeAddress);
+
+    const cacheKey = this.getCacheKey(network, safeAddress, page, filters);
+    const entry = this.entries.get(cacheKey);
+    if (!entry) {
+      return null;
     }
 
-    // Check persistent cache (slower but still fast)
-    if (this.persistentCache) {
+    // Check memory cache first (fastest)
+    let data = this.memoryCache.get(cacheKey) || null;
+    if (!data) {
       try {
-        const persistentData = this.persistentCache.getItem(cacheKey);
-        if (persistentData) {
-          const entry: CacheEntry<TransactionPage> = JSON.parse(persistentData);
-          if (entry.expiresAt > Date.now()) {
-            // Restore to memory cache for faster access
-            this.setMemoryCache(cacheKey, entry.data, this.MEMORY_TTL);
-            return entry.data;
-          }
-        }
+        data = await this.store.getPage(cacheKey);
       } catch (error) {
         console.warn('Error reading from persistent cache:', error);
       }
+      if (!data) {
+        this.entries.delete(cacheKey);
+        return null;
+      }
     }
 
-    return null;
+    this.setMemoryCache(cacheKey, data);
+    this.touch(entry);
+    return data;
   }
 
   /**
-   * Cache transaction page with multi-level storage
+   * Cache transaction page in memory and IndexedDB
    */
   async cacheTransactionPage(
+    network: string,
     safeAddress: string,
     page: number,
     data: TransactionPage,
     filters?: any
   ): Promise<void> {
-    const cacheKey = this.getCacheKey(safeAddress, page, filters);
-    
-    // Store in memory cache
-    this.setMemoryCache(cacheKey, data, this.MEMORY_TTL);
-    
-    // Store in persistent cache
-    if (this.persistentCache) {
+    await this.ensureLoaded();
+
+    const cacheKey = this.getCacheKey(network, safeAddress, page, filters);
+    const partition = this.getPartition(network, safeAddress);
+    const size = estimateSize(data);
+
+    if (size > this.quotas.maxPartitionBytes) {
+      console.warn(`Transaction page ${cacheKey} exceeds the cache quota, not caching`);
+      return;
+    }
+
+    let blockNumber = this.validatedBlocks.get(partition);
+    if (blockNumber === undefined) {
       try {
-        const entry: CacheEntry<TransactionPage> = {
-          data,
-          timestamp: Date.now(),
-          expiresAt: Date.now() + this.PERSISTENT_TTL,
-          key: cacheKey
-        };
-        this.persistentCache.setItem(cacheKey, JSON.stringify(entry));
+        blockNumber = await getRpcProvider(network).getBlockNumber();
+        this.validatedBlocks.set(partition, blockNumber);
       } catch (error) {
-        console.warn('Error writing to persistent cache:', error);
+        console.warn('Error getting block number for transaction cache:', error);
+        return;
+      }
+    }
+
+    const now = this.nextAccessTime();
+    const entry: CacheEntry = { key: cacheKey, partition, size, blockNumber, createdAt: now, lastAccessed: now };
+
+    this.setMemoryCache(cacheKey, data);
+    this.entries.set(cacheKey, entry);
+
+    try {
+      await this.store.putPage(entry, data);
+      await this.enforceQuotas(partition);
+    } catch (error) {
+      console.warn('Error writing to persistent cache:', error);
+    }
+  }
+
+  /**
+   * Set memory cache, evicting the least recently used page when full
+   */
+  private setMemoryCache(key: string, data: TransactionPage): void {
+    this.memoryCache.delete(key);
+    this.memoryCache.set(key, data);
+
+    if (this.memoryCache.size > this.MAX_MEMORY_ENTRIES) {
+      const oldestKey = this.memoryCache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.memoryCache.delete(oldestKey);
+      }
+    }
+  }
+
+  /**
+   * Record an access for LRU eviction
+   */
+  private touch(entry: CacheEntry): void {
+    entry.lastAccessed = this.nextAccessTime();
+    this.store.putEntry(entry).catch(error => {
+      console.warn('Error updating transaction cache entry:', error);
+    });
+  }
+
+  /**
+   * Current time, strictly increasing so accesses within the same millisecond keep their order
+   */
+  private nextAccessTime(): number {
+    this.lastAccessTime = Math.max(Date.now(), this.lastAccessTime + 1);
+    return this.lastAccessTime;
+  }
+
+  /**
+   * Evict least recently used pages until the partition and the whole cache fit their quotas
+   */
+  private async enforceQuotas(partition: string): Promise<void> {
+    const evict = (candidates: CacheEntry[], maxBytes: number): string[] => {
+      const sorted = [...candidates].sort((a, b) => a.lastAccessed - b.lastAccessed);
+      let total = sorted.reduce((sum, entry) => sum + entry.size, 0);
+      const evicted: string[] = [];
+
+      for (const entry of sorted) {
+        if (total <= maxBytes) break;
+        total -= entry.size;
+        evicted.push(entry.key);
       }
+      return evicted;
+    };
+
+    const all = Array.from(this.entries.values());
+    const partitionEvicted = evict(all.filter(entry => entry.partition === partition), this.quotas.maxPartitionBytes);
+    const remaining = all.filter(entry => !partitionEvicted.includes(entry.key));
+    const evicted = [...partitionEvicted, ...evict(remaining, this.quotas.maxBytes)];
+
+    if (evicted.length > 0) {
+      console.log(`🧹 Evicting ${evicted.length} transaction page(s) to stay within the cache quota`);
+      await this.removeEntries(evicted);
     }
   }
 
+  private async removeEntries(keys: string[]): Promise<void> {
+    keys.forEach(key => {
+      this.entries.delete(key);
+      this.memoryCache.delete(key);
+    });
+    await this.store.deletePages(keys);
+  }
+
   /**
-   * Set memory cache with automatic cleanup
+   * Drop the pages of a Safe when it executed transactions since they were cached
+   * Checks each new block range once, concurrent reads share the check
    */
-  private setMemoryCache(key: string, data: any, ttl: number): void {
-    // Cleanup if cache is getting too large
-    if (this.memoryCache.size >= this.MAX_MEMORY_ENTRIES) {
-      this.cleanupMemoryCache();
+  private async validatePartition(network: string, safeAddress: string): Promise<void> {
+    const partition = this.getPartition(network, safeAddress);
+    const cachedBlocks = Array.from(this.entries.values())
+      .filter(entry => entry.partition === partition)
+      .map(entry => entry.blockNumber);
+
+    if (cachedBlocks.length === 0) {
+      return;
     }
 
-    this.memoryCache.set(key, {
-      data,
-      timestamp: Date.now(),
-      expiresAt: Date.now() + ttl,
-      key
+    await this.deduplicateRequest(`validate_${partition}`, async () => {
+      const checkedBlock = this.validatedBlocks.get(partition) ?? Math.min(...cachedBlocks);
+
+      try {
+        const provider = getRpcProvider(network);
+        const latestBlock = await provider.getBlockNumber();
+        if (latestBlock <= checkedBlock) {
+          return;
+        }
+
+        const stale = latestBlock - checkedBlock > this.MAX_VALIDATION_RANGE ||
+          await this.hasNewSafeEvents(provider, safeAddress, checkedBlock + 1, latestBlock);
+
+        if (stale) {
+          console.log(`🔄 New transactions for ${safeAddress} on ${network}, invalidating cached history`);
+          await this.invalidateCache(network, safeAddress);
+        }
+        this.validatedBlocks.set(partition, latestBlock);
+      } catch (error) {
+        // Without a way to check for new transactions the pages cannot be trusted
+        console.warn('Error validating transaction cache, invalidating:', error);
+        await this.invalidateCache(network, safeAddress);
+      }
     });
   }
 
+  /**
+   * Check for events that add entries to the Safe's history: executed transactions, module
+   * transactions and received ETH
+   * Providers limit the block range of eth_getLogs, a rejected range is retried in halves
+   */
+  private async hasNewSafeEvents(
+    provider: ethers.providers.Provider,
+    safeAddress: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<boolean> {
+    const topics = [[
+      this.safeInterface.getEventTopic('ExecutionSuccess'),
+      this.safeInterface.getEventTopic('ExecutionFailure'),
+      this.safeInterface.getEventTopic('ExecutionFromModuleSuccess'),
+      this.safeInterface.getEventTopic('ExecutionFromModuleFailure'),
+      this.safeInterface.getEventTopic('SafeReceived')
+    ]];
+    let blockRange = toBlock - fromBlock + 1;
+
+    while (fromBlock <= toBlock) {
+      const rangeEnd = Math.min(fromBlock + blockRange - 1, toBlock);
+
+      let logs: ethers.providers.Log[];
+      try {
+        logs = await provider.getLogs({ address: safeAddress, fromBlock, toBlock: rangeEnd, topics });
+      } catch (error) {
+        if (blockRange > this.MIN_LOG_RANGE) {
+          blockRange = Math.max(Math.floor(blockRange / 2), this.MIN_LOG_RANGE);
+          continue;
+        }
+        throw error;
+      }
+
+      if (logs.length > 0) {
+        return true;
+      }
+      fromBlock = rangeEnd + 1;
+    }
+
+    return false;
+  }
+
   /**
    * Deduplicate concurrent requests for the same data
    */
@@ -158,34 +511,22 @@ export class TransactionCacheService {
   }
 
   /**
-   * Invalidate cache for a specific Safe address
+   * Invalidate cache for a Safe on a network
    */
-  invalidateCache(safeAddress: string): void {
-    const pattern = `tx_history_${safeAddress}_`;
-    
-    // Clear memory cache
-    const keysToDelete: string[] = [];
-    this.memoryCache.forEach((_, key) => {
-      if (key.startsWith(pattern)) {
-        keysToDelete.push(key);
-      }
-    });
-    keysToDelete.forEach(key => this.memoryCache.delete(key));
+  async invalidateCache(network: string, safeAddress: string): Promise<void> {
+    await this.ensureLoaded();
 
-    // Clear persistent cache
-    if (this.persistentCache) {
-      try {
-        const keysToRemove: string[] = [];
-        for (let i = 0; i < this.persistentCache.length; i++) {
-          const key = this.persistentCache.key(i);
-          if (key && key.startsWith(pattern)) {
-            keysToRemove.push(key);
-          }
-        }
-        keysToRemove.forEach(key => this.persistentCache!.removeItem(key));
-      } catch (error) {
-        console.warn('Error clearing persistent cache:', error);
-      }
+    const partition = this.getPartition(network, safeAddress);
+    const keys = Array.from(this.entries.values())
+      .filter(entry => entry.partition === partition)
+      .map(entry => entry.key);
+
+    this.validatedBlocks.delete(partition);
+
+    try {
+      await this.removeEntries(keys);
+    } catch (error) {
+      console.warn('Error clearing persistent cache:', error);
     }
   }
 
@@ -193,6 +534,7 @@ export class TransactionCacheService {
    * Preload next pages in background
    */
   async preloadNextPages(
+    network: string,
     safeAddress: string,
     currentPage: number,
     fetchFn: (page: number) => Promise<TransactionPage>,
@@ -202,19 +544,19 @@ export class TransactionCacheService {
 
     for (let i = 1; i <= pagesToPreload; i++) {
       const nextPage = currentPage + i;
-      const cacheKey = this.getCacheKey(safeAddress, nextPage);
-      
+      const cacheKey = this.getCacheKey(network, safeAddress, nextPage);
+
       // Only preload if not already cached
-      if (!this.memoryCache.has(cacheKey)) {
+      if (!this.entries.has(cacheKey)) {
         const preloadPromise = this.deduplicateRequest(
           `preload_${cacheKey}`,
           () => fetchFn(nextPage)
         ).then(data => {
-          this.cacheTransactionPage(safeAddress, nextPage, data);
+          return this.cacheTransactionPage(network, safeAddress, nextPage, data);
         }).catch(error => {
           console.warn(`Error preloading page ${nextPage}:`, error);
         });
-        
+
         preloadPromises.push(preloadPromise);
       }
     }
@@ -226,109 +568,55 @@ export class TransactionCacheService {
   }
 
   /**
-   * Get cache statistics for debugging
+   * Get cache statistics, including the storage usage reported by the browser
    */
-  getCacheStats(): {
-    memoryEntries: number;
-    persistentEntries: number;
-    activeRequests: number;
-    memorySize: string;
-  } {
-    let persistentEntries = 0;
-    if (this.persistentCache) {
-      try {
-        persistentEntries = this.persistentCache.length;
-      } catch (error) {
-        // Ignore errors
+  async getCacheStats(): Promise<CacheStats> {
+    await this.ensureLoaded();
+
+    const entries = Array.from(this.entries.values());
+    const memorySize = Array.from(this.memoryCache.keys())
+      .reduce((size, key) => size + (this.entries.get(key)?.size || 0), 0);
+    const persistentSize = entries.reduce((size, entry) => size + entry.size, 0);
+
+    let storageUsage: string | null = null;
+    let storageQuota: string | null = null;
+    try {
+      if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+        const estimate = await navigator.storage.estimate();
+        storageUsage = estimate.usage !== undefined ? formatBytes(estimate.usage) : null;
+        storageQuota = estimate.quota !== undefined ? formatBytes(estimate.quota) : null;
       }
+    } catch (error) {
+      // Storage estimates are not available in every browser
     }
 
     return {
       memoryEntries: this.memoryCache.size,
-      persistentEntries,
+      persistentEntries: entries.length,
       activeRequests: this.requestCache.size,
-      memorySize: `${Math.round(JSON.stringify(Array.from(this.memoryCache.values())).length / 1024)}KB`
+      memorySize: formatBytes(memorySize),
+      persistentSize: formatBytes(persistentSize),
+      partitions: new Set(entries.map(entry => entry.partition)).size,
+      quota: formatBytes(this.quotas.maxBytes),
+      storageBackend: this.store instanceof IndexedDbCacheStore ? 'indexeddb' : 'memory',
+      storageUsage,
+      storageQuota
     };
   }
 
   /**
-   * Cleanup expired entries
-   */
-  private cleanup(): void {
-    this.cleanupMemoryCache();
-    this.cleanupPersistentCache();
-  }
-
-  /**
-   * Cleanup expired memory cache entries
+   * Clear all caches
    */
-  private cleanupMemoryCache(): void {
-    const now = Date.now();
-    const expiredKeys: string[] = [];
+  async clearAll(): Promise<void> {
+    await this.ensureLoaded();
 
-    this.memoryCache.forEach((entry, key) => {
-      if (entry.expiresAt <= now) {
-        expiredKeys.push(key);
-      }
-    });
-
-    expiredKeys.forEach(key => this.memoryCache.delete(key));
-  }
-
-  /**
-   * Cleanup expired persistent cache entries
-   */
-  private cleanupPersistentCache(): void {
-    if (!this.persistentCache) return;
+    this.requestCache.clear();
+    this.validatedBlocks.clear();
 
     try {
-      const now = Date.now();
-      const keysToRemove: string[] = [];
-
-      for (let i = 0; i < this.persistentCache.length; i++) {
-        const key = this.persistentCache.key(i);
-        if (key && key.startsWith('tx_history_')) {
-          try {
-            const data = this.persistentCache.getItem(key);
-            if (data) {
-              const entry = JSON.parse(data);
-              if (entry.expiresAt <= now) {
-                keysToRemove.push(key);
-              }
-            }
-          } catch (error) {
-            // Remove corrupted entries
-            keysToRemove.push(key);
-          }
-        }
-      }
-
-      keysToRemove.forEach(key => this.persistentCache!.removeItem(key));
+      await this.removeEntries(Array.from(this.entries.keys()));
     } catch (error) {
-      console.warn('Error during persistent cache cleanup:', error);
-    }
-  }
-
-  /**
-   * Clear all caches
-   */
-  clearAll(): void {
-    this.memoryCache.clear();
-    this.requestCache.clear();
-    
-    if (this.persistentCache) {
-      try {
-        const keysToRemove: string[] = [];
-        for (let i = 0; i < this.persistentCache.length; i++) {
-          const key = this.persistentCache.key(i);
-          if (key && key.startsWith('tx_history_')) {
-            keysToRemove.push(key);
-          }
-        }
-        keysToRemove.forEach(key => this.persistentCache!.removeItem(key));
-      } catch (error) {
-        console.warn('Error clearing persistent cache:', error);
-      }
+      console.warn('Error clearing persistent cache:', error);
     }
   }
 }
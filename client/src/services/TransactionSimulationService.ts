@@ -0,0 +1,267 @@
+import { ethers } from 'ethers';
+import { SAFE_ABI, ERC20_ABI, SIMULATE_TX_ACCESSOR_ABI, getSimulateTxAccessorAddress } from '../contracts/abis';
+import { signatureDictionaryService, DecodedSignatureParam } from './SignatureDictionaryService';
+
+/**
+ * A log emitted by the simulated call
+ */
+export interface SimulatedLog {
+  address: string;
+  topics: string[];
+  data: string;
+  eventName?: string;
+  eventParams?: DecodedSignatureParam[];
+}
+
+/**
+ * Outcome of simulating a Safe transaction before execution
+ */
+export interface TransactionSimulationResult {
+  success: boolean;
+  revertReason?: string;
+  gasUsed: string;
+  returnData: string;
+  // Undefined when the RPC endpoint cannot trace calls (no debug_traceCall support)
+  logs?: SimulatedLog[];
+}
+
+/**
+ * Minimal Safe transaction fields needed for a simulation
+ */
+export interface SimulationTransaction {
+  to: string;
+  value: string;
+  data: string;
+  operation: number;
+}
+
+/**
+ * Service for simulating Safe transactions via StorageAccessible.simulateAndRevert
+ */
+export class TransactionSimulationService {
+  static readonly ERROR_SELECTOR = '0x08c379a0';
+  static readonly PANIC_SELECTOR = '0x4e487b71';
+
+  private static readonly safeInterface = new ethers.utils.Interface(SAFE_ABI);
+  private static readonly accessorInterface = new ethers.utils.Interface(SIMULATE_TX_ACCESSOR_ABI);
+  private static readonly logInterfaces = [
+    new ethers.utils.Interface(ERC20_ABI),
+    new ethers.utils.Interface(SAFE_ABI)
+  ];
+
+  private static readonly PANIC_REASONS: Record<number, string> = {
+    0x01: 'Assertion failed',
+    0x11: 'Arithmetic overflow or underflow',
+    0x12: 'Division or modulo by zero',
+    0x21: 'Invalid enum value',
+    0x22: 'Invalid storage byte array',
+    0x31: 'Pop on empty array',
+    0x32: 'Array index out of bounds',
+    0x41: 'Out of memory',
+    0x51: 'Call to invalid internal function'
+  };
+
+  /**
+   * Build the simulateAndRevert calldata that runs SimulateTxAccessor.simulate in the Safe's context
+   */
+  static buildSimulationCallData(accessorAddress: string, transaction: SimulationTransaction): string {
+    const simulatePayload = this.accessorInterface.encodeFunctionData('simulate', [
+      transaction.to,
+      transaction.value,
+      transaction.data || '0x',
+      transaction.operation
+    ]);
+
+    return this.safeInterface.encodeFunctionData('simulateAndRevert', [accessorAddress, simulatePayload]);
+  }
+
+  /**
+   * Parse the revert data of simulateAndRevert
+   * Layout: abi.encode(bool success) ++ abi.encode(uint256 length) ++ returndata of simulate()
+   */
+  static parseSimulationRevertData(revertData: string): Omit<TransactionSimulationResult, 'logs'> {
+    if (!ethers.utils.isHexString(revertData) || ethers.utils.hexDataLength(revertData) < 64) {
+      throw new Error('Unexpected simulation response. The Safe may not support simulateAndRevert.');
+    }
+
+    const accessorSuccess = !ethers.BigNumber.from(ethers.utils.hexDataSlice(revertData, 0, 32)).isZero();
+    const length = ethers.BigNumber.from(ethers.utils.hexDataSlice(revertData, 32, 64)).toNumber();
+
+    if (ethers.utils.hexDataLength(revertData) < 64 + length) {
+      throw new Error('Malformed simulation response');
+    }
+
+    const accessorReturnData = ethers.utils.hexDataSlice(revertData, 64, 64 + length);
+
+    if (!accessorSuccess) {
+      throw new Error(`Simulation accessor call failed: ${this.decodeRevertReason(accessorReturnData)}`);
+    }
+
+    const [estimate, success, returnData] = this.accessorInterface.decodeFunctionResult('simulate', accessorReturnData);
+
+    return {
+      success,
+      revertReason: success ? undefined : this.decodeRevertReason(returnData),
+      gasUsed: estimate.toString(),
+      returnData
+    };
+  }
+
+  /**
+   * Decode revert data into a human readable reason (Error(string), Panic(uint256) or raw data)
+   */
+  static decodeRevertReason(revertData: string): string {
+    if (!revertData || revertData === '0x') {
+      return 'Transaction reverted without a reason';
+    }
+
+    try {
+      const selector = revertData.slice(0, 10).toLowerCase();
+
+      if (selector === this.ERROR_SELECTOR) {
+        const [reason] = ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(revertData, 4));
+        return reason;
+      }
+
+      if (selector === this.PANIC_SELECTOR) {
+        const [code] = ethers.utils.defaultAbiCoder.decode(['uint256'], ethers.utils.hexDataSlice(revertData, 4));
+        const description = this.PANIC_REASONS[code.toNumber()] || 'Unknown panic';
+        return `Panic(0x${code.toNumber().toString(16).padStart(2, '0')}): ${description}`;
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not decode revert reason:', error);
+    }
+
+    return `Custom error ${revertData.slice(0, 10)} (${revertData})`;
+  }
+
+  /**
+   * Simulate a Safe transaction without signatures or gas costs
+   */
+  static async simulate(
+    provider: ethers.providers.Provider,
+    safeAddress: string,
+    network: string,
+    transaction: SimulationTransaction
+  ): Promise<TransactionSimulationResult> {
+    const accessorAddress = getSimulateTxAccessorAddress(network);
+    if (!accessorAddress) {
+      throw new Error(`SimulateTxAccessor is not configured for network: ${network}`);
+    }
+
+    try {
+      console.log('🧪 Simulating Safe transaction:', { safeAddress, to: transaction.to, operation: transaction.operation });
+
+      const callData = this.buildSimulationCallData(accessorAddress, transaction);
+
+      // simulateAndRevert always reverts, ethers returns the revert data as the call result
+      let revertData: string;
+      try {
+        revertData = await provider.call({ from: safeAddress, to: safeAddress, data: callData });
+      } catch (callError: any) {
+        revertData = callError.data || callError.error?.data || '0x';
+      }
+
+      const result = this.parseSimulationRevertData(revertData);
+      const logs = result.success ? await this.traceLogs(provider, safeAddress, transaction) : [];
+
+      console.log(`🧪 Simulation ${result.success ? 'succeeded' : 'failed'}:`, {
+        gasUsed: result.gasUsed,
+        revertReason: result.revertReason,
+        logs: logs?.length
+      });
+
+      return { ...result, logs };
+    } catch (error: any) {
+      console.error('❌ Error simulating transaction:', error);
+      throw new Error(`Failed to simulate transaction: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Collect the logs of the inner call using debug_traceCall (best effort)
+   * simulateAndRevert discards its logs, so the call is traced directly from the Safe.
+   * Delegatecalls cannot be replayed this way and report no logs.
+   */
+  private static async traceLogs(
+    provider: ethers.providers.Provider,
+    safeAddress: string,
+    transaction: SimulationTransaction
+  ): Promise<SimulatedLog[] | undefined> {
+    if (transaction.operation !== 0 || !(provider instanceof ethers.providers.JsonRpcProvider)) {
+      return undefined;
+    }
+
+    try {
+      const trace = await provider.send('debug_traceCall', [
+        {
+          from: safeAddress,
+          to: transaction.to,
+          value: ethers.BigNumber.from(transaction.value || '0').toHexString(),
+          data: transaction.data || '0x'
+        },
+        'latest',
+        { tracer: 'callTracer', tracerConfig: { withLog: true } }
+      ]);
+
+      return await Promise.all(this.collectTraceLogs(trace).map(log => this.decodeLog(log)));
+    } catch (error) {
+      console.warn('⚠️ debug_traceCall not supported by RPC, simulated logs unavailable:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Flatten logs from a callTracer frame and its sub-calls in emission order
+   */
+  private static collectTraceLogs(frame: any): SimulatedLog[] {
+    if (!frame) {
+      return [];
+    }
+
+    const logs: SimulatedLog[] = (frame.logs || []).map((log: any) => ({
+      address: ethers.utils.getAddress(log.address),
+      topics: log.topics || [],
+      data: log.data || '0x'
+    }));
+
+    return (frame.calls || []).reduce(
+      (allLogs: SimulatedLog[], call: any) => allLogs.concat(this.collectTraceLogs(call)),
+      logs
+    );
+  }
+
+  /**
+   * Attach the event name and parameters for known ERC-20 and Safe events,
+   * falling back to the offline signature dictionary for other events
+   */
+  private static async decodeLog(log: SimulatedLog): Promise<SimulatedLog> {
+    for (const iface of this.logInterfaces) {
+      try {
+        const parsed = iface.parseLog(log);
+        const eventParams = parsed.eventFragment.inputs.map((input, index) => ({
+          name: input.name || `param${index}`,
+          type: input.type,
+          value: parsed.args[index],
+          indexed: Boolean(input.indexed)
+        }));
+        return { ...log, eventName: parsed.signature, eventParams };
+      } catch {
+        // Not an event of this interface
+      }
+    }
+
+    try {
+      const decoded = await signatureDictionaryService.decodeEventLog(log);
+      if (decoded) {
+        return { ...log, eventName: decoded.signature, eventParams: decoded.params };
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to decode log with the signature dictionary:', error);
+    }
+
+    return log;
+  }
+}
+
+export default TransactionSimulationService;
@@ -1,6 +1,8 @@
 import { ethers } from 'ethers';
 import { createSafeTxPoolService } from './SafeTxPoolService';
 import { TokenService } from './TokenService';
+import { getAssetListFields } from './TokenListService';
+import { getMulticallService, MulticallService } from './MulticallService';
 import { Asset } from '../components/wallet/types';
 
 export interface TrustedContractInfo {
@@ -13,11 +15,19 @@ export class TrustedContractsAssetService {
   private network: string;
   private provider: ethers.providers.Provider;
   private tokenService: TokenService;
+  private multicall: MulticallService;
+
+  private static readonly ERC20_DETECTION_INTERFACE = new ethers.utils.Interface([
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function totalSupply() view returns (uint256)'
+  ]);
 
   constructor(network: string, provider: ethers.providers.Provider) {
     this.network = network;
     this.provider = provider;
     this.tokenService = new TokenService(provider, network);
+    this.multicall = getMulticallService(provider, network);
   }
 
   // Removed localStorage functions - using on-chain data only
@@ -87,18 +97,11 @@ export class TrustedContractsAssetService {
    */
   private async isERC20Token(contractAddress: string): Promise<boolean> {
     try {
-      const contract = new ethers.Contract(contractAddress, [
-        'function symbol() view returns (string)',
-        'function decimals() view returns (uint8)',
-        'function totalSupply() view returns (uint256)'
-      ], this.provider);
-
-      // Try to call ERC20 methods
-      await Promise.all([
-        contract.symbol(),
-        contract.decimals(),
-        contract.totalSupply()
-      ]);
+      // Try to call ERC20 methods, batched with the checks of the other trusted contracts
+      const iface = TrustedContractsAssetService.ERC20_DETECTION_INTERFACE;
+      await Promise.all(['symbol', 'decimals', 'totalSupply'].map(method =>
+        this.multicall.call({ target: contractAddress, iface, method })
+      ));
 
       return true;
     } catch (error) {
@@ -107,6 +110,60 @@ export class TrustedContractsAssetService {
     }
   }
 
+  /**
+   * Load the asset of a single trusted contract, returns null for non-ERC20 contracts and zero balances
+   */
+  private async loadTrustedContractAsset(
+    contract: TrustedContractInfo,
+    safeAddress: string,
+    tokenService: TokenService
+  ): Promise<Asset | null> {
+    try {
+      // Check if it's an ERC20 token
+      const isERC20 = await this.isERC20Token(contract.address);
+      if (!isERC20) {
+        console.log(`ℹ️ Contract ${contract.name} is not an ERC20 token, skipping`);
+        return null;
+      }
+
+      console.log(`🪙 Processing ERC20 token: ${contract.name} (${contract.address})`);
+
+      // Get token info and balance
+      const [tokenInfo, balanceString] = await Promise.all([
+        tokenService.getTokenInfo(contract.address),
+        tokenService.getTokenBalance(contract.address, safeAddress)
+      ]);
+      if (!tokenInfo) {
+        return null;
+      }
+
+      const formattedBalance = ethers.utils.formatUnits(balanceString, tokenInfo.decimals);
+      if (!balanceString || parseFloat(formattedBalance) <= 0) {
+        console.log(`⚠️ Trusted token ${tokenInfo.symbol} has zero balance, skipping`);
+        return null;
+      }
+
+      console.log(`✅ Added trusted token: ${tokenInfo.symbol} - ${formattedBalance}`);
+      return {
+        symbol: tokenInfo.symbol,
+        name: `${contract.name} (${tokenInfo.name})`, // Include trusted name
+        balance: formattedBalance,
+        rawBalance: balanceString,
+        value: '', // Set from the price feeds
+        type: 'erc20',
+        contractAddress: tokenInfo.address,
+        decimals: tokenInfo.decimals,
+        isTrusted: true, // Mark as trusted
+        // Trusted by the Safe owners, so never treated as spam
+        ...getAssetListFields(tokenService.getTokenListStatus(tokenInfo)),
+        isSuspectedSpam: false
+      };
+    } catch (error) {
+      console.error(`❌ Error processing trusted contract ${contract.address}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Load assets from trusted contracts (focusing on ERC20 tokens)
    */
@@ -121,50 +178,10 @@ export class TrustedContractsAssetService {
         return [];
       }
 
-      const assets: Asset[] = [];
-
-      for (const contract of trustedContracts) {
-        try {
-          // Check if it's an ERC20 token
-          const isERC20 = await this.isERC20Token(contract.address);
-          
-          if (isERC20) {
-            console.log(`🪙 Processing ERC20 token: ${contract.name} (${contract.address})`);
-            
-            // Get token info and balance
-            const tokenInfo = await this.tokenService.getTokenInfo(contract.address);
-            if (tokenInfo) {
-              const balanceString = await this.tokenService.getTokenBalance(contract.address, safeAddress);
-              const formattedBalance = ethers.utils.formatUnits(balanceString, tokenInfo.decimals);
-
-              if (balanceString && parseFloat(formattedBalance) > 0) {
-                // Mock price calculation (in a real app, you'd fetch from a price API)
-                const mockPrice = this.getMockTokenPrice(tokenInfo.symbol);
-                const usdValue = parseFloat(formattedBalance) * mockPrice;
-
-                assets.push({
-                  symbol: tokenInfo.symbol,
-                  name: `${contract.name} (${tokenInfo.name})`, // Include trusted name
-                  balance: formattedBalance,
-                  value: `$${usdValue.toFixed(2)}`,
-                  type: 'erc20',
-                  contractAddress: tokenInfo.address,
-                  decimals: tokenInfo.decimals,
-                  isTrusted: true // Mark as trusted
-                });
-
-                console.log(`✅ Added trusted token: ${tokenInfo.symbol} - ${formattedBalance}`);
-              } else {
-                console.log(`⚠️ Trusted token ${tokenInfo.symbol} has zero balance, skipping`);
-              }
-            }
-          } else {
-            console.log(`ℹ️ Contract ${contract.name} is not an ERC20 token, skipping`);
-          }
-        } catch (error) {
-          console.error(`❌ Error processing trusted contract ${contract.address}:`, error);
-        }
-      }
+      // Contracts are processed concurrently so their reads share multicall batches
+      const assets = (await Promise.all(
+        trustedContracts.map(contract => this.loadTrustedContractAsset(contract, safeAddress, this.tokenService))
+      )).filter((asset): asset is Asset => asset !== null);
 
       console.log(`🎯 Loaded ${assets.length} trusted contract assets`);
       return assets;
@@ -175,34 +192,6 @@ export class TrustedContractsAssetService {
     }
   }
 
-  /**
-   * Mock price data for tokens (in a real app, fetch from CoinGecko, etc.)
-   */
-  private getMockTokenPrice(symbol: string): number {
-    const mockPrices: Record<string, number> = {
-      'USDC': 1.00,
-      'USDT': 1.00,
-      'DAI': 1.00,
-      'WETH': 2000,
-      'UNI': 9.50,
-      'LINK': 15.00,
-      'AAVE': 85.00,
-      'COMP': 45.00,
-      'MKR': 1200,
-      'SNX': 2.50,
-      'CRV': 0.85,
-      'BAL': 4.20,
-      'YFI': 8500,
-      'SUSHI': 1.10,
-      '1INCH': 0.45,
-      'GRT': 0.15,
-      'ENS': 12.00,
-      'LDO': 2.80
-    };
-
-    return mockPrices[symbol.toUpperCase()] || 1.00; // Default to $1 if unknown
-  }
-
   /**
    * Combine regular assets with trusted contract assets
    * Trusted contract tokens have higher priority and will overwrite pre-defined tokens
@@ -257,14 +246,12 @@ export class TrustedContractsAssetService {
         }
       }
 
-      // Sort assets: native first, then by balance value (descending)
+      // Sort assets: native first, then by USD value (descending) when already priced
       return combinedAssets.sort((a, b) => {
         if (a.type === 'native' && b.type !== 'native') return -1;
         if (a.type !== 'native' && b.type === 'native') return 1;
 
-        const aValue = parseFloat(a.value.replace(/[$,]/g, ''));
-        const bValue = parseFloat(b.value.replace(/[$,]/g, ''));
-        return bValue - aValue;
+        return (b.valueUsd || 0) - (a.valueUsd || 0);
       });
 
     } catch (error) {
@@ -293,50 +280,9 @@ export class TrustedContractsAssetService {
       // Force refresh of token balances by creating a new TokenService instance
       const refreshedTokenService = new TokenService(this.provider, this.network);
 
-      const assets: Asset[] = [];
-
-      for (const contract of trustedContracts) {
-        try {
-          // Check if it's an ERC20 token
-          const isERC20 = await this.isERC20Token(contract.address);
-
-          if (isERC20) {
-            console.log(`🔄 Refreshing ERC20 token: ${contract.name} (${contract.address})`);
-
-            // Force refresh token info and balance
-            const tokenInfo = await refreshedTokenService.getTokenInfo(contract.address);
-            if (tokenInfo) {
-              const balanceString = await refreshedTokenService.getTokenBalance(contract.address, safeAddress);
-              const formattedBalance = refreshedTokenService.formatTokenAmount(balanceString, tokenInfo.decimals);
-
-              if (balanceString && parseFloat(formattedBalance) > 0) {
-                // Mock price calculation (in a real app, you'd fetch from a price API)
-                const mockPrice = this.getMockTokenPrice(tokenInfo.symbol);
-                const usdValue = parseFloat(formattedBalance) * mockPrice;
-
-                assets.push({
-                  symbol: tokenInfo.symbol,
-                  name: `${contract.name} (${tokenInfo.name})`, // Include trusted name
-                  balance: formattedBalance,
-                  value: `$${usdValue.toFixed(2)}`,
-                  type: 'erc20',
-                  contractAddress: tokenInfo.address,
-                  decimals: tokenInfo.decimals,
-                  isTrusted: true // Mark as trusted
-                });
-
-                console.log(`✅ Refreshed trusted token: ${tokenInfo.symbol} - ${formattedBalance} (${contract.name})`);
-              } else {
-                console.log(`⚪ Trusted token ${tokenInfo.symbol} has zero balance, skipping`);
-              }
-            }
-          } else {
-            console.log(`ℹ️ Trusted contract ${contract.name} is not an ERC20 token, skipping asset loading`);
-          }
-        } catch (error) {
-          console.error(`❌ Error refreshing trusted contract ${contract.address}:`, error);
-        }
-      }
+      const assets = (await Promise.all(
+        trustedContracts.map(contract => this.loadTrustedContractAsset(contract, safeAddress, refreshedTokenService))
+      )).filter((asset): asset is Asset => asset !== null);
 
       console.log(`🎯 Refreshed ${assets.length} trusted contract assets from ${trustedContracts.length} on-chain trusted contracts`);
       return assets;
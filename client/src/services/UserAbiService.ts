@@ -0,0 +1,145 @@
+/**
+ * User ABI Service
+ *
+ * Stores contract ABIs pasted or uploaded by the user, per network and contract address, in localStorage.
+ * The transaction decoder uses them for contracts that are not verified on any block explorer.
+ */
+
+import { ethers } from 'ethers';
+import { isValidAddress } from '../utils/addressUtils';
+
+export interface UserAbi {
+  network: string;
+  address: string; // Lowercased contract address
+  name: string;
+  abi: any[];
+  addedAt: number;
+}
+
+class UserAbiService {
+  private static instance: UserAbiService;
+  private readonly STORAGE_KEY = 'vito_user_abis';
+  private userAbis: UserAbi[] = [];
+  private listeners: (() => void)[] = [];
+
+  private constructor() {
+    this.loadFromStorage();
+  }
+
+  public static getInstance(): UserAbiService {
+    if (!UserAbiService.instance) {
+      UserAbiService.instance = new UserAbiService();
+    }
+    return UserAbiService.instance;
+  }
+
+  /**
+   * Get the ABI supplied for a contract, if any
+   */
+  public getAbi(network: string, address: string): UserAbi | null {
+    const lowerAddress = address.toLowerCase();
+    return this.userAbis.find(entry => entry.network === network && entry.address === lowerAddress) || null;
+  }
+
+  /**
+   * Get all ABIs supplied for a network
+   */
+  public getAbis(network: string): UserAbi[] {
+    return this.userAbis.filter(entry => entry.network === network);
+  }
+
+  /**
+   * Parse ABI JSON as pasted or uploaded by the user
+   * Accepts a plain ABI array or a compiler artifact (Hardhat, Foundry, Truffle) with an `abi` field
+   */
+  public parseAbi(json: string): any[] {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error: any) {
+      throw new Error(`Invalid JSON: ${error.message || error}`);
+    }
+
+    const abi = Array.isArray(parsed) ? parsed : parsed?.abi;
+    if (!Array.isArray(abi) || abi.length === 0) {
+      throw new Error('Expected an ABI array or a compiler artifact with an "abi" field');
+    }
+
+    try {
+      new ethers.utils.Interface(abi);
+    } catch (error: any) {
+      throw new Error(`Invalid ABI: ${error.reason || error.message || error}`);
+    }
+
+    if (!abi.some(item => item.type === 'function')) {
+      throw new Error('ABI does not contain any functions');
+    }
+
+    return abi;
+  }
+
+  /**
+   * Store the ABI of a contract, replacing an earlier one for the same address
+   */
+  public saveAbi(network: string, address: string, name: string, abiJson: string): UserAbi {
+    if (!isValidAddress(address.trim())) {
+      throw new Error('Invalid contract address');
+    }
+
+    const entry: UserAbi = {
+      network,
+      address: address.trim().toLowerCase(),
+      name: name.trim() || 'User Contract',
+      abi: this.parseAbi(abiJson),
+      addedAt: Date.now()
+    };
+
+    this.userAbis = [
+      ...this.userAbis.filter(existing => !(existing.network === network && existing.address === entry.address)),
+      entry
+    ];
+    this.saveToStorage();
+    console.log(`📄 Stored ABI for ${entry.name} (${entry.address}) on ${network}`);
+
+    return entry;
+  }
+
+  public removeAbi(network: string, address: string): void {
+    const lowerAddress = address.toLowerCase();
+    this.userAbis = this.userAbis.filter(entry => !(entry.network === network && entry.address === lowerAddress));
+    this.saveToStorage();
+  }
+
+  /**
+   * Subscribe to ABI changes, returns an unsubscribe function
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private loadFromStorage(): void {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (stored) {
+        this.userAbis = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn('Failed to load user ABIs from storage:', error);
+      this.userAbis = [];
+    }
+  }
+
+  private saveToStorage(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.userAbis));
+    } catch (error) {
+      console.error('Failed to save user ABIs to storage:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const userAbiService = UserAbiService.getInstance();
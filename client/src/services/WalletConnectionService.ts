@@ -1,6 +1,8 @@
 import { ethers } from 'ethers';
 import { safeWalletService, SafeWalletService, SafeWalletConfig } from './SafeWalletService';
-import { getRpcUrl, NETWORK_CONFIGS, SAFE_ABI } from '../contracts/abis';
+import { SAFE_ABI } from '../contracts/abis';
+import { getRpcProvider } from './FailoverRpcProvider';
+import { getChainConfig } from '../config/chains';
 import { walletConnectService } from './WalletConnectService';
 import { web3AuthService } from './Web3AuthService';
 
@@ -177,19 +179,19 @@ export class WalletConnectionService {
       let isOwner = false;
 
       // Validate Safe address before attempting to connect
-      // Use provided rpcUrl or get default for network
-      const rpcUrl = params.rpcUrl || getRpcUrl(params.network);
-      const validation = await SafeWalletService.validateSafeAddress(params.safeAddress, rpcUrl);
+      // Use provided rpcUrl or the failover provider of the network
+      const validationProvider = getRpcProvider(params.network, params.rpcUrl);
+      const validation = await SafeWalletService.validateSafeAddress(params.safeAddress, validationProvider);
       if (!validation.isValid) {
         throw new Error(validation.error);
       }
 
       // Initialize Safe Wallet Service first to validate the Safe wallet
-      // Use the same RPC URL that was validated
+      // Use the same RPC configuration that was validated
       const config: SafeWalletConfig = {
         safeAddress: params.safeAddress,
         network: params.network,
-        rpcUrl: rpcUrl  // Use the validated RPC URL
+        rpcUrl: params.rpcUrl
       };
 
       // Initialize without signer first to validate Safe wallet
@@ -274,7 +276,7 @@ export class WalletConnectionService {
       const currentChainId = network.chainId;
 
       // Get target network chain ID
-      const targetConfig = NETWORK_CONFIGS[targetNetwork as keyof typeof NETWORK_CONFIGS];
+      const targetConfig = getChainConfig(targetNetwork);
       if (!targetConfig) {
         return { switched: false, error: `Unknown network: ${targetNetwork}` };
       }
@@ -306,6 +308,7 @@ export class WalletConnectionService {
               params: [{
                 chainId: `0x${targetChainId.toString(16)}`,
                 chainName: targetConfig.name,
+                nativeCurrency: targetConfig.nativeCurrency,
                 rpcUrls: [targetConfig.rpcUrl],
                 blockExplorerUrls: [targetConfig.blockExplorer],
               }],
@@ -348,8 +351,7 @@ export class WalletConnectionService {
 
     try {
       // Create read-only provider for the network
-      const rpcUrl = getRpcUrl(this.state.network!);
-      const readOnlyProvider = new ethers.providers.JsonRpcProvider(rpcUrl);
+      const readOnlyProvider = getRpcProvider(this.state.network!);
 
       // Create WalletConnect signer
       const walletConnectSigner = walletConnectService.createSigner(chainId, readOnlyProvider);
@@ -428,7 +430,7 @@ export class WalletConnectionService {
       // Use Safe wallet's network as default instead of hardcoded mainnet
       let chainId = 1; // Fallback to mainnet
       if (this.state.network) {
-        const targetConfig = NETWORK_CONFIGS[this.state.network as keyof typeof NETWORK_CONFIGS];
+        const targetConfig = getChainConfig(this.state.network);
         if (targetConfig) {
           chainId = targetConfig.chainId;
           console.log('🔄 Using Safe wallet network as default:', { network: this.state.network, chainId });
@@ -453,7 +455,7 @@ export class WalletConnectionService {
       // Validate network matches Safe wallet network (warning only, don't block)
       console.log('🔍 Validating network compatibility...');
       if (this.state.network) {
-        const targetConfig = NETWORK_CONFIGS[this.state.network as keyof typeof NETWORK_CONFIGS];
+        const targetConfig = getChainConfig(this.state.network);
         if (targetConfig && chainId !== targetConfig.chainId) {
           console.warn('⚠️ Network mismatch (proceeding anyway):', {
             expected: targetConfig.chainId,
@@ -477,8 +479,7 @@ export class WalletConnectionService {
       // For WalletConnect, skip provider balance check and go straight to RPC
       console.log('🔄 Using RPC directly for WalletConnect balance (avoiding provider timeouts)...');
       try {
-        const rpcUrl = getRpcUrl(this.state.network!);
-        const rpcProvider = new ethers.providers.JsonRpcProvider(rpcUrl);
+        const rpcProvider = getRpcProvider(this.state.network!);
         const rpcBalance = await rpcProvider.getBalance(address);
         formattedSignerBalance = ethers.utils.formatEther(rpcBalance);
         console.log('✅ Signer balance retrieved via RPC:', formattedSignerBalance);
@@ -503,8 +504,7 @@ export class WalletConnectionService {
       try {
         console.log('🔄 Using RPC-based owner check for WalletConnect (avoiding provider timeouts)...');
         // Use RPC provider directly to avoid WalletConnect timeout issues
-        const rpcUrl = getRpcUrl(this.state.network!);
-        const rpcProvider = new ethers.providers.JsonRpcProvider(rpcUrl);
+        const rpcProvider = getRpcProvider(this.state.network!);
         const rpcContract = new ethers.Contract(this.state.safeAddress!, SAFE_ABI, rpcProvider);
 
         // Try direct isOwner call with short timeout
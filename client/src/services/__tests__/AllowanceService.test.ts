@@ -0,0 +1,133 @@
+/**
+ * Tests for AllowanceService
+ */
+
+import { ethers } from 'ethers';
+import { AllowanceService, parseApprovalLogs } from '../AllowanceService';
+import { ERC20_ABI } from '../../contracts/abis';
+import { createProvider } from '../../tests/mockProvider';
+
+const erc20 = new ethers.utils.Interface(ERC20_ABI);
+
+const SAFE = '0x5555555555555555555555555555555555555555';
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const COLLECTION = '0x3333333333333333333333333333333333333333';
+const BROKEN_TOKEN = '0x2222222222222222222222222222222222222222';
+const ROUTER = '0x7777777777777777777777777777777777777777';
+const REVOKED_SPENDER = '0x8888888888888888888888888888888888888888';
+const LIMITED_SPENDER = '0x9999999999999999999999999999999999999999';
+
+const approvalLog = (address: string, spender: string, blockNumber: number): ethers.providers.Log => ({
+  address,
+  ...erc20.encodeEventLog(erc20.getEvent('Approval'), [SAFE, spender, 1]),
+  blockNumber,
+  blockHash: ethers.constants.HashZero,
+  transactionHash: ethers.constants.HashZero,
+  transactionIndex: 0,
+  logIndex: 0,
+  removed: false
+});
+
+const APPROVAL_LOGS = [
+  approvalLog(TOKEN, ROUTER, 10),
+  approvalLog(TOKEN, ROUTER, 40),
+  approvalLog(TOKEN, REVOKED_SPENDER, 20),
+  approvalLog(TOKEN, LIMITED_SPENDER, 30),
+  // ERC-721 Approval, same topic with the token ID as fourth topic
+  {
+    ...approvalLog(COLLECTION, ROUTER, 50),
+    topics: [...approvalLog(COLLECTION, ROUTER, 50).topics, ethers.utils.hexZeroPad('0x07', 32)]
+  }
+];
+
+const ALLOWANCES: Record<string, ethers.BigNumber> = {
+  [ROUTER]: ethers.constants.MaxUint256.sub(1000),
+  [REVOKED_SPENDER]: ethers.constants.Zero,
+  [LIMITED_SPENDER]: ethers.BigNumber.from(2500000)
+};
+
+const answerCall = ({ data }: { to: string; data: string }): string => {
+  const call = erc20.parseTransaction({ data });
+  switch (call.name) {
+    case 'allowance':
+      return erc20.encodeFunctionResult('allowance', [ALLOWANCES[call.args[1].toLowerCase()]]);
+    case 'decimals':
+      return erc20.encodeFunctionResult('decimals', [6]);
+    default:
+      return erc20.encodeFunctionResult(call.name, ['TKN']);
+  }
+};
+
+describe('AllowanceService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep the latest ERC-20 Approval log of each token and spender', () => {
+    expect(parseApprovalLogs(APPROVAL_LOGS)).toEqual([
+      { token: TOKEN, spender: ROUTER, blockNumber: 40 },
+      { token: TOKEN, spender: REVOKED_SPENDER, blockNumber: 20 },
+      { token: TOKEN, spender: LIMITED_SPENDER, blockNumber: 30 }
+    ]);
+  });
+
+  it('should return the outstanding allowances from the Safe deployment and resume the scan from the checkpoint', async () => {
+    const mock = createProvider({
+      latestBlock: 100,
+      getCode: (address, blockTag) => (address === SAFE && (blockTag as number) >= 20 ? '0x6080' : '0x'),
+      getLogs: () => APPROVAL_LOGS,
+      call: answerCall
+    });
+
+    const allowances = await new AllowanceService(mock.provider, 'sepolia').getAllowances(SAFE);
+    expect(allowances.map(({ spender, formattedAllowance, isUnlimited }) => [spender, formattedAllowance, isUnlimited])).toEqual([
+      [ethers.utils.getAddress(ROUTER), 'Unlimited', true],
+      [ethers.utils.getAddress(LIMITED_SPENDER), '2.5000', false]
+    ]);
+    expect(mock.getLogs).toHaveBeenCalledWith(expect.objectContaining({
+      fromBlock: 20,
+      toBlock: 100,
+      topics: [erc20.getEventTopic('Approval'), ethers.utils.hexZeroPad(SAFE, 32)]
+    }));
+
+    mock.getBlockNumber.mockResolvedValue(150);
+    mock.getLogs.mockResolvedValue([]);
+    const pairs = await new AllowanceService(mock.provider, 'sepolia').scanApprovals(SAFE);
+
+    // Revoked pairs are kept so a new approval of the same spender updates them
+    expect(pairs).toHaveLength(3);
+    expect(mock.getLogs).toHaveBeenLastCalledWith(expect.objectContaining({ fromBlock: 101, toBlock: 150 }));
+  });
+
+  it('should return allowances that cannot be read as unknown so they can be revoked', async () => {
+    const mock = createProvider({
+      latestBlock: 100,
+      getLogs: () => [approvalLog(TOKEN, LIMITED_SPENDER, 30), approvalLog(BROKEN_TOKEN, ROUTER, 60)],
+      call: tx => {
+        if (tx.to.toLowerCase() === BROKEN_TOKEN) throw new Error('execution reverted');
+        return answerCall(tx);
+      }
+    });
+
+    const allowances = await new AllowanceService(mock.provider, 'sepolia').getAllowances(SAFE);
+
+    expect(allowances.map(({ token, formattedAllowance, isUnknown }) => [token.address, formattedAllowance, isUnknown])).toEqual([
+      [BROKEN_TOKEN, 'Unknown', true],
+      [TOKEN, '2.5000', false]
+    ]);
+    expect(AllowanceService.createRevokeCall(allowances[0].token.address, allowances[0].spender).to).toBe(
+      ethers.utils.getAddress(BROKEN_TOKEN)
+    );
+  });
+
+  it('should create approve(spender, 0) revoke calls', () => {
+    const call = AllowanceService.createRevokeCall(TOKEN, ROUTER);
+    const decoded = erc20.parseTransaction({ data: call.data });
+
+    expect(call).toMatchObject({ to: ethers.utils.getAddress(TOKEN), value: '0', operation: 0 });
+    expect(decoded.name).toBe('approve');
+    expect(decoded.args[0]).toBe(ethers.utils.getAddress(ROUTER));
+    expect(decoded.args[1].isZero()).toBe(true);
+    expect(() => AllowanceService.createRevokeCall(TOKEN, 'not-an-address')).toThrow('Invalid spender address');
+  });
+});
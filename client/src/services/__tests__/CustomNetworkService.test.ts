@@ -0,0 +1,84 @@
+/**
+ * Tests for CustomNetworkService
+ */
+
+import { customNetworkService, CustomNetworkInput } from '../CustomNetworkService';
+import { rpcConfigService } from '../RpcConfigService';
+import { getChainConfig, getChainConfigByChainId, getSupportedNetworks } from '../../config/chains';
+
+jest.mock('../RpcConfigService', () => ({
+  rpcConfigService: {
+    validateRpcUrl: jest.fn(),
+    resetToDefault: jest.fn()
+  }
+}));
+
+const mockValidateRpcUrl = rpcConfigService.validateRpcUrl as jest.Mock;
+
+const DEVNET: CustomNetworkInput = {
+  name: 'My Devnet',
+  chainId: 31337,
+  rpcUrl: 'http://localhost:8545',
+  blockExplorer: 'https://explorer.devnet.example/',
+  safeTxPoolRegistry: '0x1234567890123456789012345678901234567890'
+};
+
+describe('CustomNetworkService', () => {
+  beforeEach(() => {
+    customNetworkService.getNetworks().forEach(n => customNetworkService.removeNetwork(n.network));
+    mockValidateRpcUrl.mockReset();
+  });
+
+  it('should reject a network whose RPC endpoint reports a different chain ID', async () => {
+    mockValidateRpcUrl.mockResolvedValue({ isValid: true, chainId: 1, blockNumber: 100 });
+
+    const result = await customNetworkService.validateNetwork(DEVNET);
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('expected 31337');
+  });
+
+  it('should reject chain IDs and names of built-in networks without querying the RPC', async () => {
+    const byChainId = await customNetworkService.validateNetwork({ ...DEVNET, chainId: 11155111 });
+    const byName = await customNetworkService.validateNetwork({ ...DEVNET, name: 'Sepolia' });
+
+    expect(byChainId.isValid).toBe(false);
+    expect(byName.isValid).toBe(false);
+    expect(mockValidateRpcUrl).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid contract addresses', async () => {
+    const result = await customNetworkService.validateNetwork({ ...DEVNET, safeTxPoolRegistry: '0x1234' });
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('SafeTxPool registry');
+  });
+
+  it('should add a validated network to the chain registry', async () => {
+    mockValidateRpcUrl.mockResolvedValue({ isValid: true, chainId: 31337, blockNumber: 1 });
+
+    const network = await customNetworkService.addNetwork(DEVNET);
+    const chain = getChainConfig(network.network);
+
+    expect(network.network).toBe('my-devnet');
+    expect(chain?.isCustom).toBe(true);
+    expect(chain?.isTestnet).toBe(true);
+    expect(chain?.blockExplorer).toBe('https://explorer.devnet.example');
+    expect(chain?.contracts.safeTxPoolRegistry).toBe(DEVNET.safeTxPoolRegistry);
+    expect(getChainConfigByChainId(31337)?.network).toBe('my-devnet');
+    expect(getSupportedNetworks()).toContain('my-devnet');
+    expect(JSON.parse(localStorage.getItem('vito_custom_networks') || '[]')).toHaveLength(1);
+
+    customNetworkService.removeNetwork(network.network);
+    expect(getChainConfig('my-devnet')).toBeNull();
+  });
+
+  it('should keep the testnet flag of the network', async () => {
+    mockValidateRpcUrl.mockResolvedValue({ isValid: true, chainId: 4242, blockNumber: 1 });
+
+    const network = await customNetworkService.addNetwork({ ...DEVNET, name: 'Private Mainnet', chainId: 4242, isTestnet: false });
+
+    expect(network.isTestnet).toBe(false);
+    expect(getChainConfig(network.network)?.isTestnet).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for ExplorerService
+ */
+
+import { explorerService } from '../ExplorerService';
+
+const CONTRACT = '0x7777777777777777777777777777777777777777';
+const ABI = [{ type: 'function', name: 'transfer', inputs: [], outputs: [] }];
+
+const jsonResponse = (body: any, status: number = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body
+});
+
+describe('ExplorerService', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    global.fetch = fetchMock as any;
+    explorerService.clearApiKey('sepolia', 'etherscan');
+  });
+
+  it('should only use Etherscan with an API key and fall back to Blockscout and Sourcify for ABIs', async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.startsWith('https://api.etherscan.io')) {
+        return jsonResponse({ status: '0', message: 'NOTOK', result: 'Contract source code not verified' });
+      }
+      if (url.startsWith('https://eth-sepolia.blockscout.com')) {
+        return jsonResponse({}, 503);
+      }
+      return jsonResponse({ match: 'match', abi: ABI, compilation: { name: 'Token' } });
+    });
+
+    expect(explorerService.getBackends('sepolia').map(backend => backend.kind)).toEqual(['blockscout', 'sourcify']);
+
+    explorerService.setApiKey('sepolia', 'etherscan', ' test-key ');
+    expect(explorerService.getBackends('sepolia').map(backend => backend.kind)).toEqual(['etherscan', 'blockscout', 'sourcify']);
+
+    const result = await explorerService.getContractAbi('sepolia', CONTRACT);
+    expect(result).toEqual({ abi: ABI, name: 'Token', source: 'sourcify', match: 'partial' });
+
+    const urls = fetchMock.mock.calls.map(([url]) => url as string);
+    expect(urls[0]).toContain('chainid=11155111');
+    expect(urls[0]).toContain('apikey=test-key');
+    expect(urls[2]).toBe(`https://sourcify.dev/server/v2/contract/11155111/${CONTRACT}?fields=abi,compilation`);
+  });
+
+  it('should space out requests to the same explorer through the shared rate limiter', async () => {
+    const requestTimes: number[] = [];
+    fetchMock.mockImplementation(async () => {
+      requestTimes.push(Date.now());
+      return jsonResponse({ status: '0', message: 'No transactions found', result: [] });
+    });
+
+    explorerService.setApiKey('sepolia', 'etherscan', 'rate-limited-key');
+    const results = await Promise.all([
+      explorerService.getTransactions('sepolia', CONTRACT, { type: 'normal' }),
+      explorerService.getTransactions('sepolia', CONTRACT, { type: 'internal' }),
+      explorerService.getTransactions('sepolia', CONTRACT, { type: 'normal' })
+    ]);
+
+    expect(results).toEqual([[], [], []]);
+    // Etherscan allows 4 requests per second per key
+    expect(requestTimes[2] - requestTimes[0]).toBeGreaterThanOrEqual(450);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for LogScanner
+ */
+
+import { ethers } from 'ethers';
+import { LogScanner, LogScanState } from '../LogScanner';
+import { createProvider } from '../../tests/mockProvider';
+
+const STORAGE_KEY = 'vito_test_scan';
+const SAFE = '0x1111111111111111111111111111111111111111';
+
+describe('LogScanner', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should halve the block range when the provider rejects it and save every range', async () => {
+    const mock = createProvider({ latestBlock: 100_000 });
+    mock.getLogs.mockImplementation(async ({ fromBlock, toBlock }: ethers.providers.Filter) => {
+      if ((toBlock as number) - (fromBlock as number) + 1 > 12_500) {
+        throw new Error('block range too large');
+      }
+      return [];
+    });
+    const scanner = new LogScanner<LogScanState>(mock.provider, STORAGE_KEY, 'test logs');
+    const scannedFrom: number[] = [];
+
+    // Stop after three ranges like an interrupted scan
+    const state = { lastBlock: -1 };
+    await expect(scanner.scan(
+      'sepolia:safe',
+      state,
+      (fromBlock, toBlock) => mock.provider.getLogs({ fromBlock, toBlock }),
+      () => {
+        if (scannedFrom.push(state.lastBlock + 1) === 3) throw new Error('interrupted');
+      }
+    )).rejects.toThrow('interrupted');
+
+    // A first scan starts at the genesis block, 50,000 blocks halved twice is accepted
+    expect(scannedFrom).toEqual([0, 12_500, 25_000]);
+    expect(scanner.loadState('sepolia:safe')).toEqual({ lastBlock: 24_999 });
+
+    scanner.removeState('sepolia:safe');
+    expect(scanner.loadState('sepolia:safe')).toEqual({});
+  });
+
+  it('should fail once the smallest block range is rejected', async () => {
+    const mock = createProvider({ latestBlock: 100 });
+    mock.getLogs.mockRejectedValue(new Error('rate limited'));
+    const scanner = new LogScanner<LogScanState>(mock.provider, STORAGE_KEY, 'test logs');
+
+    await expect(scanner.scan(
+      'sepolia:safe',
+      { lastBlock: 50 },
+      (fromBlock, toBlock) => mock.provider.getLogs({ fromBlock, toBlock }),
+      () => undefined
+    )).rejects.toThrow('Failed to scan test logs: rate limited');
+    expect(scanner.loadState('sepolia:safe')).toEqual({});
+  });
+
+  it('should find the deployment block of a contract and fall back to the genesis block', async () => {
+    const mock = createProvider({
+      latestBlock: 1_000_000,
+      getCode: (address, blockTag) => (address === SAFE && (blockTag as number) >= 123_456 ? '0x6080' : '0x')
+    });
+    const scanner = new LogScanner<LogScanState>(mock.provider, STORAGE_KEY, 'test logs');
+
+    expect(await scanner.findDeploymentBlock(SAFE)).toBe(123_456);
+    expect(await scanner.findDeploymentBlock('0x2222222222222222222222222222222222222222')).toBe(0);
+
+    // Nodes without historical state reject eth_getCode at past blocks
+    mock.getCode.mockImplementation(async (_address, blockTag) => {
+      if (blockTag !== 1_000_000) throw new Error('missing trie node');
+      return '0x6080';
+    });
+    expect(await scanner.findDeploymentBlock(SAFE)).toBe(0);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Tests for MultiSendService
+ */
+
+import { ethers } from 'ethers';
+import { MultiSendService } from '../MultiSendService';
+import { getMultiSendCallOnlyAddress } from '../../contracts/abis';
+
+describe('MultiSendService', () => {
+  const recipient = '0x1111111111111111111111111111111111111111';
+  const token = '0x2222222222222222222222222222222222222222';
+
+  describe('encodeMultiSendTransactions', () => {
+    it('should round-trip mixed batch calls', () => {
+      const calls = [
+        MultiSendService.createEthTransferCall(recipient, '1.5'),
+        MultiSendService.createErc20TransferCall(token, recipient, '25', 6),
+        MultiSendService.createContractCall(token, '0', '0xdeadbeef')
+      ];
+
+      const encoded = MultiSendService.encodeMultiSendTransactions(calls);
+      const decoded = MultiSendService.decodeMultiSendTransactions(encoded);
+
+      expect(decoded).toEqual(calls);
+      expect(decoded[0].value).toBe(ethers.utils.parseEther('1.5').toString());
+    });
+
+    it('should reject delegatecall sub-transactions', () => {
+      const call = { ...MultiSendService.createEthTransferCall(recipient, '1'), operation: 1 };
+
+      expect(() => MultiSendService.encodeMultiSendTransactions([call])).toThrow('delegatecall');
+    });
+
+    it('should reject empty batches', () => {
+      expect(() => MultiSendService.encodeMultiSendTransactions([])).toThrow('at least one call');
+    });
+  });
+
+  describe('decodeMultiSendTransactions', () => {
+    it('should reject truncated data', () => {
+      const encoded = MultiSendService.encodeMultiSendTransactions([
+        MultiSendService.createContractCall(token, '0', '0xdeadbeef')
+      ]);
+
+      expect(() => MultiSendService.decodeMultiSendTransactions(encoded.slice(0, -2))).toThrow('Malformed');
+    });
+  });
+
+  describe('createBatchTransactionRequest', () => {
+    it('should create a delegatecall to MultiSendCallOnly', () => {
+      const calls = [MultiSendService.createEthTransferCall(recipient, '1')];
+      const request = MultiSendService.createBatchTransactionRequest('sepolia', calls);
+
+      expect(request.to).toBe(getMultiSendCallOnlyAddress('sepolia'));
+      expect(request.operation).toBe(1);
+      expect(request.value).toBe('0');
+      expect(MultiSendService.isMultiSendData(request.data!)).toBe(true);
+      expect(MultiSendService.decodeMultiSendTxData(request.data!)).toEqual(calls);
+    });
+  });
+});
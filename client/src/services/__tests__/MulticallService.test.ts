@@ -0,0 +1,85 @@
+/**
+ * Tests for MulticallService
+ */
+
+import { ethers } from 'ethers';
+import { MulticallService } from '../MulticallService';
+import { ERC20_ABI, MULTICALL3_ABI, getMulticall3Address } from '../../contracts/abis';
+import { createProvider } from '../../tests/mockProvider';
+
+const erc20 = new ethers.utils.Interface(ERC20_ABI);
+const multicall3 = new ethers.utils.Interface(MULTICALL3_ABI);
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const BROKEN_TOKEN = '0x2222222222222222222222222222222222222222';
+const WALLET = '0x3333333333333333333333333333333333333333';
+
+/**
+ * Answer a single ERC-20 call: TOKEN returns a balance, BROKEN_TOKEN reverts
+ */
+const executeTokenCall = (target: string): { success: boolean; returnData: string } => {
+  if (target.toLowerCase() === BROKEN_TOKEN) {
+    return {
+      success: false,
+      returnData: '0x08c379a0' + ethers.utils.defaultAbiCoder.encode(['string'], ['not a token']).slice(2)
+    };
+  }
+  return { success: true, returnData: erc20.encodeFunctionResult('balanceOf', [42]) };
+};
+
+const answerCall = ({ to, data }: { to: string; data: string }): string => {
+  if (to === getMulticall3Address('sepolia')) {
+    const [calls] = multicall3.decodeFunctionData('aggregate3', data);
+    return multicall3.encodeFunctionResult('aggregate3', [
+      calls.map((call: any) => executeTokenCall(call.target))
+    ]);
+  }
+
+  const result = executeTokenCall(to);
+  if (!result.success) {
+    throw new Error('execution reverted: not a token');
+  }
+  return result.returnData;
+};
+
+const balanceOf = (token: string) => ({ target: token, iface: erc20, method: 'balanceOf', args: [WALLET] });
+
+describe('MulticallService', () => {
+  it('should aggregate reads into one call and tolerate failing calls', async () => {
+    const mock = createProvider({ getCode: () => '0x6080', call: answerCall });
+    const service = new MulticallService(mock.provider, 'sepolia');
+
+    const results = await service.aggregate([balanceOf(TOKEN), balanceOf(BROKEN_TOKEN)]);
+
+    expect(mock.call).toHaveBeenCalledTimes(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].value.toNumber()).toBe(42);
+    expect(results[1]).toEqual({ success: false, value: null, error: 'not a token' });
+  });
+
+  it('should batch concurrent single reads', async () => {
+    const mock = createProvider({ getCode: () => '0x6080', call: answerCall });
+    const service = new MulticallService(mock.provider, 'sepolia');
+
+    const [first, second] = await Promise.all([
+      service.call(balanceOf(TOKEN)),
+      service.call(balanceOf(TOKEN))
+    ]);
+    await expect(service.call(balanceOf(BROKEN_TOKEN))).rejects.toThrow('not a token');
+
+    expect(first.toNumber()).toBe(42);
+    expect(second.toNumber()).toBe(42);
+    expect(mock.call).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to separate calls when Multicall3 is not deployed', async () => {
+    const mock = createProvider({ call: answerCall });
+    const service = new MulticallService(mock.provider, 'sepolia');
+
+    const results = await service.aggregate([balanceOf(TOKEN), balanceOf(BROKEN_TOKEN)]);
+
+    expect(mock.call).toHaveBeenCalledTimes(2);
+    expect(results[0].value.toNumber()).toBe(42);
+    expect(results[1].success).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for NftService
+ */
+
+import { ethers } from 'ethers';
+import { NftService, expandErc1155Uri } from '../NftService';
+import { ERC20_ABI, ERC721_ABI, ERC1155_ABI } from '../../contracts/abis';
+import { createProvider } from '../../tests/mockProvider';
+
+const erc20 = new ethers.utils.Interface(ERC20_ABI);
+const erc721 = new ethers.utils.Interface(ERC721_ABI);
+const erc1155 = new ethers.utils.Interface(ERC1155_ABI);
+
+const SAFE = '0x5555555555555555555555555555555555555555';
+const OTHER = '0x6666666666666666666666666666666666666666';
+const COLLECTION = '0x1111111111111111111111111111111111111111';
+const TOKEN = '0x2222222222222222222222222222222222222222';
+const ITEMS = '0x3333333333333333333333333333333333333333';
+
+const log = (address: string, encoded: { topics: string[]; data: string }): ethers.providers.Log => ({
+  address,
+  topics: encoded.topics,
+  data: encoded.data,
+  blockNumber: 90,
+  blockHash: ethers.constants.HashZero,
+  transactionHash: ethers.constants.HashZero,
+  transactionIndex: 0,
+  logIndex: 0,
+  removed: false
+});
+
+const TRANSFER_LOGS = [
+  log(COLLECTION, erc721.encodeEventLog(erc721.getEvent('Transfer'), [OTHER, SAFE, 7])),
+  log(COLLECTION, erc721.encodeEventLog(erc721.getEvent('Transfer'), [OTHER, SAFE, 8])),
+  // ERC-20 Transfer, same topic with three topics only
+  log(TOKEN, erc20.encodeEventLog(erc20.getEvent('Transfer'), [OTHER, SAFE, 1000]))
+];
+const ERC1155_LOGS = [
+  log(ITEMS, erc1155.encodeEventLog(erc1155.getEvent('TransferBatch'), [OTHER, OTHER, SAFE, [1, 2], [5, 3]]))
+];
+
+/**
+ * Token 8 was sent away again and all of item 2 was spent
+ */
+const answerCall = ({ to, data }: { to: string; data: string }): string => {
+  if (to.toLowerCase() === COLLECTION) {
+    const call = erc721.parseTransaction({ data });
+    if (call.name === 'ownerOf') {
+      return erc721.encodeFunctionResult('ownerOf', [call.args.tokenId.eq(7) ? SAFE : OTHER]);
+    }
+    if (call.name === 'tokenURI') {
+      return erc721.encodeFunctionResult('tokenURI', [`ipfs://ipfs/QmMetadata/${call.args.tokenId}.json`]);
+    }
+    return erc721.encodeFunctionResult(call.name, [call.name === 'name' ? 'Treasury Art' : 'ART']);
+  }
+
+  const call = erc1155.parseTransaction({ data });
+  return erc1155.encodeFunctionResult('balanceOf', [call.args.id.eq(1) ? 5 : 0]);
+};
+
+const HANDLERS = {
+  latestBlock: 100,
+  getLogs: (filter: ethers.providers.Filter) =>
+    filter.topics![0] === erc721.getEventTopic('Transfer') ? TRANSFER_LOGS : ERC1155_LOGS,
+  call: answerCall
+};
+
+describe('NftService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should discover NFTs from transfer logs and keep the ones still owned', async () => {
+    const mock = createProvider(HANDLERS);
+    const nftService = new NftService(mock.provider, 'sepolia');
+
+    const tokens = await nftService.discoverTokens(SAFE);
+    expect(tokens.map(token => `${token.standard}:${token.tokenId}`)).toEqual([
+      'erc721:7', 'erc721:8', 'erc1155:1', 'erc1155:2'
+    ]);
+
+    const owned = await nftService.verifyOwnership(SAFE, tokens);
+    expect(owned.map(({ token, balance }) => [token.contractAddress, token.tokenId, balance])).toEqual([
+      [COLLECTION, '7', '1'],
+      [ITEMS, '1', '5']
+    ]);
+  });
+
+  it('should only scan the blocks added since the last discovery', async () => {
+    const mock = createProvider(HANDLERS);
+    await new NftService(mock.provider, 'sepolia').discoverTokens(SAFE);
+
+    mock.getBlockNumber.mockResolvedValue(150);
+    mock.getLogs.mockClear();
+    const tokens = await new NftService(mock.provider, 'sepolia').discoverTokens(SAFE);
+
+    expect(mock.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 101, toBlock: 150 }));
+    expect(tokens).toHaveLength(4); // Tokens seen again are not duplicated
+  });
+
+  it('should load metadata through the IPFS gateway and expand ERC-1155 ids', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ name: 'Piece #7', image: 'ipfs://QmImage/7.png' })
+    });
+    global.fetch = fetchMock as any;
+
+    const nftService = new NftService(createProvider(HANDLERS).provider, 'sepolia');
+    const metadata = await nftService.getMetadata({ contractAddress: COLLECTION, tokenId: '7', standard: 'erc721' });
+
+    expect(fetchMock).toHaveBeenCalledWith('https://ipfs.io/ipfs/QmMetadata/7.json', expect.anything());
+    expect(metadata).toMatchObject({ name: 'Piece #7', image: 'https://ipfs.io/ipfs/QmImage/7.png' });
+    expect(expandErc1155Uri('https://items.example/{id}.json', '314'))
+      .toBe(`https://items.example/${'0'.repeat(61)}13a.json`);
+  });
+});
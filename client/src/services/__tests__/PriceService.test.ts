@@ -0,0 +1,141 @@
+/**
+ * Tests for PriceService
+ */
+
+import { ethers } from 'ethers';
+import { priceService, formatUsd, NATIVE_PRICE_KEY } from '../PriceService';
+import { CHAINLINK_AGGREGATOR_ABI } from '../../contracts/abis';
+import { Asset } from '../../components/wallet/types';
+import { createProvider } from '../../tests/mockProvider';
+
+const aggregator = new ethers.utils.Interface(CHAINLINK_AGGREGATOR_ABI);
+
+// Sepolia feeds from the chain registry
+const ETH_USD_FEED = '0x694AA1769357215DE4FAC081bf1f309aDC325306';
+const USDC_USD_FEED = '0xA2F78ab2355fe2f984D808B5CeE7FD0A93D5270E';
+const LINK_USD_FEED = '0xc59E3633BAAC79493d908e63626716e204A45EdF';
+const SEPOLIA_USDC = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238';
+const CUSTOM_TOKEN = '0x1111111111111111111111111111111111111111';
+const CUSTOM_FEED = '0x2222222222222222222222222222222222222222';
+const STALE_TOKEN = '0x3333333333333333333333333333333333333333';
+const STALE_FEED = '0x4444444444444444444444444444444444444444';
+
+const NOW = Math.floor(Date.now() / 1000);
+
+const ANSWERS: Record<string, number> = {
+  [ETH_USD_FEED.toLowerCase()]: 250000000000, // $2,500.00 with 8 decimals
+  [USDC_USD_FEED.toLowerCase()]: 100010000, // $1.0001
+  [LINK_USD_FEED.toLowerCase()]: 0, // Feeds without a positive answer are ignored
+  [CUSTOM_FEED.toLowerCase()]: 50000000, // $0.50
+  [STALE_FEED.toLowerCase()]: 100000000
+};
+
+// Last round of each feed, the stale feed missed its 24 hour heartbeat
+const UPDATED_AT: Record<string, number> = {
+  [STALE_FEED.toLowerCase()]: NOW - 2 * 24 * 60 * 60
+};
+
+const answerCall = ({ to, data }: { to: string; data: string }): string => {
+  const call = aggregator.parseTransaction({ data });
+  if (call.name === 'decimals') {
+    return aggregator.encodeFunctionResult('decimals', [8]);
+  }
+  const updatedAt = UPDATED_AT[to.toLowerCase()] ?? NOW - 60;
+  return aggregator.encodeFunctionResult('latestRoundData', [1, ANSWERS[to.toLowerCase()], updatedAt, updatedAt, 1]);
+};
+
+describe('PriceService', () => {
+  afterEach(() => {
+    Object.keys(priceService.getFeedOverrides('sepolia'))
+      .forEach(key => priceService.removeFeed('sepolia', key));
+  });
+
+  it('should read the registry feeds and cache the prices per block', async () => {
+    const mock = createProvider({ latestBlock: 100, call: answerCall });
+
+    const prices = await priceService.getPrices('sepolia', mock.provider);
+    expect(prices[NATIVE_PRICE_KEY]).toMatchObject({ usd: 2500, updatedAt: NOW - 60, blockNumber: 100 });
+    expect(prices[SEPOLIA_USDC.toLowerCase()].usd).toBe(1.0001);
+    expect(Object.keys(prices)).toHaveLength(2);
+
+    // Same block: no new reads
+    mock.call.mockClear();
+    expect(await priceService.getNativePrice('sepolia', mock.provider)).toBe(2500);
+    expect(mock.call).not.toHaveBeenCalled();
+
+    // New block: feeds are read again, decimals are not
+    mock.getBlockNumber.mockResolvedValue(101);
+    expect(await priceService.getTokenPrice('sepolia', SEPOLIA_USDC, mock.provider)).toBe(1.0001);
+    const methods = mock.call.mock.calls.map(([tx]) => aggregator.parseTransaction({ data: tx.data }).name);
+    expect(methods).toEqual(['latestRoundData', 'latestRoundData', 'latestRoundData']);
+  });
+
+  it('should apply user feeds and persist them per network', async () => {
+    const mock = createProvider({ latestBlock: 200, call: answerCall });
+
+    expect(() => priceService.setFeed('sepolia', 'USDC', CUSTOM_FEED)).toThrow('Invalid token address');
+    expect(() => priceService.setFeed('sepolia', CUSTOM_TOKEN, 'not-a-feed')).toThrow('Invalid price feed address');
+
+    priceService.setFeed('sepolia', CUSTOM_TOKEN, CUSTOM_FEED);
+    expect(priceService.getFeeds('sepolia')[CUSTOM_TOKEN]).toBe(CUSTOM_FEED);
+    expect(priceService.getFeeds('ethereum')[CUSTOM_TOKEN]).toBeUndefined();
+    expect(JSON.parse(localStorage.getItem('vito_price_feeds')!)).toEqual({ sepolia: { [CUSTOM_TOKEN]: CUSTOM_FEED } });
+
+    // Changing a feed invalidates the prices of the current block
+    expect(await priceService.getTokenPrice('sepolia', CUSTOM_TOKEN, mock.provider)).toBe(0.5);
+
+    priceService.removeFeed('sepolia', CUSTOM_TOKEN);
+    expect(await priceService.getTokenPrice('sepolia', CUSTOM_TOKEN, mock.provider)).toBeNull();
+  });
+
+  it('should leave out stale prices and keep the snapshot of the newest block', async () => {
+    const mock = createProvider({ latestBlock: 601, call: answerCall });
+    priceService.setFeed('sepolia', STALE_TOKEN, STALE_FEED);
+
+    const prices = await priceService.getPrices('sepolia', mock.provider);
+    expect(prices[STALE_TOKEN.toLowerCase()]).toBeUndefined();
+    expect(prices[NATIVE_PRICE_KEY].blockNumber).toBe(601);
+
+    // A provider behind by a block reads its own prices without replacing the newer snapshot
+    const lagging = createProvider({ latestBlock: 600, call: answerCall });
+    expect((await priceService.getPrices('sepolia', lagging.provider))[NATIVE_PRICE_KEY].blockNumber).toBe(600);
+
+    mock.call.mockClear();
+    expect((await priceService.getPrices('sepolia', mock.provider))[NATIVE_PRICE_KEY].blockNumber).toBe(601);
+    expect(mock.call).not.toHaveBeenCalled();
+  });
+
+  it('should value native and ERC-20 assets by address from their raw balance', async () => {
+    const mock = createProvider({ latestBlock: 300, call: answerCall });
+    const assets: Asset[] = [
+      { symbol: 'ETH', name: 'Ethereum', balance: '1.5', rawBalance: ethers.utils.parseEther('1.5').toString(), value: '', type: 'native' },
+      // Display balances are rounded and grouped, the value uses the raw amount
+      {
+        symbol: 'USDC',
+        name: 'USD Coin',
+        balance: '1,234.5679',
+        rawBalance: '1234567890',
+        value: '',
+        type: 'erc20',
+        contractAddress: SEPOLIA_USDC,
+        decimals: 6
+      },
+      // Reuses the USDC symbol at another address
+      { symbol: 'USDC', name: 'USD Coin', balance: '5000', rawBalance: '5000000000', value: '', type: 'erc20', contractAddress: CUSTOM_TOKEN, decimals: 6 }
+    ];
+
+    const priced = await priceService.priceAssets('sepolia', assets, mock.provider);
+
+    expect(priced.map(({ value }) => value)).toEqual(['$3,750.00', '$1,234.69', '']);
+    expect(priced[0].valueUsd).toBe(3750);
+    expect(priced[1].valueUsd).toBeCloseTo(1234.56789 * 1.0001, 6);
+    expect(priced[2].valueUsd).toBeUndefined();
+    expect(priced[0].priceUsd).toBe(2500);
+  });
+
+  it('should format USD amounts', () => {
+    expect(formatUsd(1234.5)).toBe('$1,234.50');
+    expect(formatUsd(0)).toBe('$0.00');
+    expect(formatUsd(0.001)).toBe('< $0.01');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for RpcRequestQueue failover and RpcConfigService endpoint health
+ */
+
+import { rpcRequestQueue } from '../RpcRequestQueue';
+import { rpcConfigService } from '../RpcConfigService';
+
+const mockResponse = (status: number, payload?: any, headers: Record<string, string> = {}) => ({
+  status,
+  ok: status >= 200 && status < 300,
+  statusText: status === 429 ? 'Too Many Requests' : 'OK',
+  headers: { get: (name: string) => headers[name] || null },
+  json: async () => payload
+});
+
+describe('RpcRequestQueue', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as any;
+    rpcConfigService.resetAllToDefaults();
+  });
+
+  it('should fail over to the next endpoint when an endpoint rate-limits', async () => {
+    const primary = 'https://primary-429.example';
+    const backup = 'https://backup-429.example';
+    rpcConfigService.setCustomRpcEndpoints('sepolia', [primary, backup]);
+
+    fetchMock.mockImplementation(async (url: string) => url === primary
+      ? mockResponse(429, undefined, { 'Retry-After': '30' })
+      : mockResponse(200, { jsonrpc: '2.0', id: 1, result: '0x10' }));
+
+    const result = await rpcRequestQueue.send('sepolia', 'eth_blockNumber', []);
+
+    expect(result).toBe('0x10');
+    expect(rpcConfigService.getEndpointStatus(primary)).toBe('rate-limited');
+    expect(rpcConfigService.getEndpointHealth(primary).cooldownUntil).toBeGreaterThan(Date.now() + 20000);
+    expect(rpcConfigService.getEndpointStatus(backup)).toBe('healthy');
+    expect(rpcConfigService.getOrderedRpcEndpoints('sepolia')[0]).toBe(backup);
+  });
+
+  it('should return JSON-RPC errors without failing over', async () => {
+    const primary = 'https://primary-revert.example';
+    rpcConfigService.setCustomRpcEndpoints('sepolia', [primary, 'https://backup-revert.example']);
+
+    fetchMock.mockResolvedValue(mockResponse(200, {
+      jsonrpc: '2.0',
+      id: 1,
+      error: { code: 3, message: 'execution reverted', data: '0x08c379a0' }
+    }));
+
+    await expect(rpcRequestQueue.send('sepolia', 'eth_call', [])).rejects.toMatchObject({
+      message: 'execution reverted',
+      data: '0x08c379a0'
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(rpcConfigService.getEndpointStatus(primary)).toBe('healthy');
+  });
+
+  it('should only use the given endpoints instead of the configured endpoints', async () => {
+    const explicit = 'https://explicit.example';
+    rpcConfigService.setCustomRpcEndpoints('sepolia', ['https://configured.example']);
+
+    fetchMock.mockResolvedValue(mockResponse(200, { jsonrpc: '2.0', id: 1, result: '0x20' }));
+
+    await expect(rpcRequestQueue.send('sepolia', 'eth_blockNumber', [], [explicit])).resolves.toBe('0x20');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(explicit, expect.anything());
+    expect(rpcConfigService.getEndpointStatus(explicit)).toBe('healthy');
+  });
+});
+
+describe('RpcConfigService endpoints', () => {
+  it('should keep the default endpoint as the last fallback', () => {
+    rpcConfigService.setCustomRpcEndpoints('sepolia', ['https://a.example', 'https://b.example', 'https://a.example']);
+
+    const endpoints = rpcConfigService.getRpcEndpoints('sepolia');
+
+    expect(endpoints.slice(0, 2)).toEqual(['https://a.example', 'https://b.example']);
+    expect(endpoints).toHaveLength(3);
+    rpcConfigService.resetToDefault('sepolia');
+  });
+
+  it('should load single-URL configurations saved by earlier versions', () => {
+    localStorage.setItem('vito_custom_rpc_urls', JSON.stringify({ sepolia: 'https://legacy.example' }));
+
+    jest.isolateModules(() => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { rpcConfigService: freshService } = require('../RpcConfigService');
+      expect(freshService.getCustomRpcEndpoints('sepolia')).toEqual(['https://legacy.example']);
+    });
+
+    localStorage.removeItem('vito_custom_rpc_urls');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for SafeDeploymentService
+ */
+
+import { ethers } from 'ethers';
+import { SafeDeploymentService } from '../SafeDeploymentService';
+import { SAFE_ABI } from '../../contracts/abis';
+
+describe('SafeDeploymentService', () => {
+  const owners = [
+    '0x1111111111111111111111111111111111111111',
+    '0x2222222222222222222222222222222222222222'
+  ];
+  const factory = '0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67';
+  const singleton = '0x29fcB43b46531BcA003ddC8FCB67FFE91900C762';
+  const proxyCreationCode = '0x608060405234801561001057600080fd5b50';
+
+  describe('validateDeploymentConfig', () => {
+    it('should accept a valid configuration', () => {
+      expect(SafeDeploymentService.validateDeploymentConfig(owners, 2)).toBeNull();
+    });
+
+    it('should reject duplicate owners and out of range thresholds', () => {
+      expect(SafeDeploymentService.validateDeploymentConfig([owners[0], owners[0].toUpperCase().replace('0X', '0x')], 1))
+        .toContain('Duplicate owner');
+      expect(SafeDeploymentService.validateDeploymentConfig(owners, 3)).toBe('Threshold cannot exceed the number of owners');
+      expect(SafeDeploymentService.validateDeploymentConfig(owners, 0)).toBe('Threshold must be at least 1');
+      expect(SafeDeploymentService.validateDeploymentConfig([], 1)).toBe('At least one owner is required');
+    });
+  });
+
+  describe('encodeSetupData', () => {
+    it('should encode setup with the default fallback handler', () => {
+      const data = SafeDeploymentService.encodeSetupData({ owners, threshold: 2, saltNonce: '1' });
+      const decoded = new ethers.utils.Interface(SAFE_ABI).decodeFunctionData('setup', data);
+
+      expect(decoded._owners).toEqual(owners);
+      expect(decoded._threshold.toNumber()).toBe(2);
+      expect(decoded.fallbackHandler).toBe(SafeDeploymentService.DEFAULT_FALLBACK_HANDLER);
+      expect(decoded.to).toBe(ethers.constants.AddressZero);
+    });
+  });
+
+  describe('calculateProxyAddress', () => {
+    it('should derive the CREATE2 address from the initializer and salt nonce', () => {
+      const initializer = SafeDeploymentService.encodeSetupData({ owners, threshold: 1, saltNonce: '0' });
+      const salt = ethers.utils.keccak256(
+        ethers.utils.defaultAbiCoder.encode(['bytes32', 'uint256'], [ethers.utils.keccak256(initializer), 42])
+      );
+      const initCode = ethers.utils.hexConcat([
+        proxyCreationCode,
+        ethers.utils.defaultAbiCoder.encode(['address'], [singleton])
+      ]);
+
+      const address = SafeDeploymentService.calculateProxyAddress(factory, singleton, initializer, '42', proxyCreationCode);
+
+      expect(address).toBe(ethers.utils.getCreate2Address(factory, salt, ethers.utils.keccak256(initCode)));
+      expect(SafeDeploymentService.calculateProxyAddress(factory, singleton, initializer, '43', proxyCreationCode))
+        .not.toBe(address);
+    });
+  });
+
+  describe('createInitialConfigurationCalls', () => {
+    const safeAddress = '0x3333333333333333333333333333333333333333';
+    const guard = '0x4444444444444444444444444444444444444444';
+
+    it('should create a setGuard call on the Safe itself', () => {
+      const calls = SafeDeploymentService.createInitialConfigurationCalls('sepolia', safeAddress, guard, []);
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0].to).toBe(safeAddress);
+      expect(calls[0].operation).toBe(0);
+      expect(new ethers.utils.Interface(['function setGuard(address guard)']).decodeFunctionData('setGuard', calls[0].data)[0])
+        .toBe(guard);
+    });
+
+    it('should return no calls when nothing is configured', () => {
+      expect(SafeDeploymentService.createInitialConfigurationCalls('sepolia', safeAddress, null, [])).toEqual([]);
+    });
+  });
+
+  describe('proposeInitialConfiguration', () => {
+    const safeAddress = '0x3333333333333333333333333333333333333333';
+    const guard = '0x4444444444444444444444444444444444444444';
+    const registry = '0x5555555555555555555555555555555555555555';
+
+    it('should propose each call as a CALL transaction with sequential nonces', async () => {
+      const calls = [
+        { to: registry, value: '0', data: '0x12345678', operation: 0 },
+        ...SafeDeploymentService.createInitialConfigurationCalls('sepolia', safeAddress, guard, [])
+      ];
+      const safeService = {
+        proposeUnsignedTransaction: jest.fn(async (request: any, nonce?: number) => ({ ...request, nonce, txHash: `0x0${nonce}` }))
+      };
+
+      const txHashes = await SafeDeploymentService.proposeInitialConfiguration(safeService as any, calls);
+
+      expect(txHashes).toEqual(['0x00', '0x01']);
+      expect(safeService.proposeUnsignedTransaction.mock.calls.map(([request, nonce]) => [request.to, request.operation, nonce])).toEqual([
+        [registry, 0, 0],
+        [safeAddress, 0, 1]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Tests for SafeFallbackHandlerService
+ */
+
+import { ethers } from 'ethers';
+import { SafeFallbackHandlerService } from '../SafeFallbackHandlerService';
+
+describe('SafeFallbackHandlerService', () => {
+  const safeAddress = '0x1111111111111111111111111111111111111111';
+  const compatibilityHandler = '0xf48f2B2d2a534e402487b3ee7C18c33Aec0Fe5e4';
+
+  it('should use the fallback_manager.handler.address storage slot', () => {
+    expect(SafeFallbackHandlerService.FALLBACK_HANDLER_STORAGE_SLOT)
+      .toBe(ethers.utils.keccak256(ethers.utils.toUtf8Bytes('fallback_manager.handler.address')));
+  });
+
+  it('should decode the handler from storage and identify known deployments', () => {
+    const storageValue = ethers.utils.hexZeroPad(compatibilityHandler, 32);
+    const handler = SafeFallbackHandlerService.parseFallbackHandlerStorage(storageValue);
+
+    expect(handler).toBe(compatibilityHandler);
+    expect(SafeFallbackHandlerService.getHandlerName(handler)).toBe('CompatibilityFallbackHandler v1.3.0');
+  });
+
+  it('should warn when the new handler has no code and is unknown', async () => {
+    const provider = { getCode: jest.fn().mockResolvedValue('0x') } as unknown as ethers.providers.Provider;
+    const result = await SafeFallbackHandlerService.validateFallbackHandler(
+      '0x2222222222222222222222222222222222222222',
+      safeAddress,
+      provider
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toHaveLength(2);
+  });
+
+  it('should reject the Safe itself as handler', () => {
+    expect(() => SafeFallbackHandlerService.createSetFallbackHandlerTransaction(safeAddress, safeAddress, 0))
+      .toThrow('Safe itself');
+  });
+});
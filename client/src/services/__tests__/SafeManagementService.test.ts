@@ -0,0 +1,39 @@
+/**
+ * Tests for SafeManagementService owner rotation
+ */
+
+import { ethers } from 'ethers';
+import { SafeManagementService } from '../SafeManagementService';
+
+describe('SafeManagementService', () => {
+  const safeAddress = '0x1111111111111111111111111111111111111111';
+  const owners = [
+    '0x2222222222222222222222222222222222222222',
+    '0x3333333333333333333333333333333333333333'
+  ];
+  const newOwner = '0x4444444444444444444444444444444444444444';
+
+  describe('createSwapOwnerTransaction', () => {
+    it('should encode swapOwner with the previous owner from the linked list', () => {
+      const prevOwner = SafeManagementService.findPrevOwner(owners, owners[1]);
+      const tx = SafeManagementService.createSwapOwnerTransaction(safeAddress, prevOwner, owners[1], newOwner, 3);
+
+      const iface = new ethers.utils.Interface(['function swapOwner(address prevOwner, address oldOwner, address newOwner)']);
+      const decoded = iface.decodeFunctionData('swapOwner', tx.data);
+
+      expect(tx.data.slice(0, 10)).toBe('0xe318b52b');
+      expect(tx.to).toBe(safeAddress);
+      expect(decoded.prevOwner).toBe(owners[0]);
+      expect(decoded.oldOwner).toBe(owners[1]);
+      expect(decoded.newOwner).toBe(newOwner);
+    });
+  });
+
+  describe('validateNewOwner', () => {
+    it('should reject existing owners and the Safe itself', () => {
+      expect(SafeManagementService.validateNewOwner(owners, owners[0], owners[1])).toBe('Address is already an owner');
+      expect(SafeManagementService.validateNewOwner(owners, owners[0], safeAddress, safeAddress)).toBe('The Safe cannot be its own owner');
+      expect(SafeManagementService.validateNewOwner(owners, owners[0], newOwner, safeAddress)).toBeNull();
+    });
+  });
+});
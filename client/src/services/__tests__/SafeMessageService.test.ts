@@ -0,0 +1,146 @@
+/**
+ * Tests for SafeMessageService and SafeMessage hashing
+ */
+
+import { ethers } from 'ethers';
+import { SafeMessageService } from '../SafeMessageService';
+import { createSafeMessageHash, createSafeMessageTypedData, hashSafeMessageContent } from '../../utils/eip712';
+import { createProvider } from '../../tests/mockProvider';
+
+describe('SafeMessageService', () => {
+  const service = SafeMessageService.getInstance();
+  const safeAddress = '0x1111111111111111111111111111111111111111';
+  const chainId = 11155111;
+  const ownerA = new ethers.Wallet('0x' + '11'.repeat(32));
+  const ownerB = new ethers.Wallet('0x' + '22'.repeat(32));
+  const ownerContract = '0x3333333333333333333333333333333333333333';
+  const owners = [ownerA.address, ownerB.address, ownerContract];
+  const eip1271 = new ethers.utils.Interface([
+    'function isValidSignature(bytes32 _hash, bytes _signature) view returns (bytes4)',
+    'function isValidSignature(bytes _data, bytes _signature) view returns (bytes4)'
+  ]);
+
+  // Contract signature: owner in r, offset of the dynamic part in s, v = 0, then the length-prefixed data
+  const contractSignature = (owner: string, data: string) => ethers.utils.hexConcat([
+    ethers.utils.hexZeroPad(owner, 32),
+    ethers.utils.hexZeroPad('0x41', 32),
+    '0x00',
+    ethers.utils.hexZeroPad(ethers.utils.hexlify(ethers.utils.hexDataLength(data)), 32),
+    data
+  ]);
+
+  const signMessage = (wallet: ethers.Wallet, messageHash: string) => {
+    const typedData = createSafeMessageTypedData({ chainId, verifyingContract: safeAddress }, messageHash);
+    return wallet._signTypedData(typedData.domain, { SafeMessage: typedData.types.SafeMessage }, typedData.message);
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('createSafeMessageHash', () => {
+    it('should match the EIP-712 hash of the SafeMessage typed data', () => {
+      const messageHash = hashSafeMessageContent('Hello Safe');
+      const typedData = createSafeMessageTypedData({ chainId, verifyingContract: safeAddress }, messageHash);
+
+      expect(createSafeMessageHash({ chainId, verifyingContract: safeAddress }, messageHash)).toBe(
+        ethers.utils._TypedDataEncoder.hash(typedData.domain, { SafeMessage: typedData.types.SafeMessage }, typedData.message)
+      );
+    });
+
+    it('should hash text with EIP-191 and typed data with EIP-712', () => {
+      const typedData = {
+        domain: { name: 'Test', chainId },
+        types: {
+          EIP712Domain: [{ name: 'name', type: 'string' }, { name: 'chainId', type: 'uint256' }],
+          Order: [{ name: 'amount', type: 'uint256' }]
+        },
+        message: { amount: 1 }
+      };
+
+      expect(hashSafeMessageContent('Hello Safe')).toBe(ethers.utils.hashMessage('Hello Safe'));
+      expect(hashSafeMessageContent(typedData)).toBe(
+        ethers.utils._TypedDataEncoder.hash(typedData.domain, { Order: typedData.types.Order }, typedData.message)
+      );
+    });
+  });
+
+  describe('signature collection', () => {
+    it('should collect owner signatures and combine them sorted by owner', async () => {
+      const message = service.createMessage(safeAddress, 'sepolia', chainId, 'Sign in to example.com');
+
+      const { provider } = createProvider();
+
+      await service.addSignature(provider, message.safeMessageHash, await signMessage(ownerB, message.messageHash), owners);
+      const updated = await service.addSignature(provider, message.safeMessageHash, await signMessage(ownerA, message.messageHash), owners);
+
+      expect(updated.signatures).toHaveLength(2);
+      expect(service.getMessages(safeAddress, 'sepolia')).toHaveLength(1);
+
+      const combined = service.buildCombinedSignature(updated, 2);
+      const [first, second] = [ownerA.address, ownerB.address].sort((a, b) => (a.toLowerCase() < b.toLowerCase() ? -1 : 1));
+      expect(ethers.utils.hexDataLength(combined)).toBe(130);
+      expect(ethers.utils.recoverAddress(message.safeMessageHash, ethers.utils.hexDataSlice(combined, 0, 65))).toBe(first);
+      expect(ethers.utils.recoverAddress(message.safeMessageHash, ethers.utils.hexDataSlice(combined, 65, 130))).toBe(second);
+    });
+
+    it('should reject signatures from non-owners and incomplete sets', async () => {
+      const outsider = ethers.Wallet.createRandom();
+      const message = service.createMessage(safeAddress, 'sepolia', chainId, 'Hello Safe');
+
+      await expect(
+        signMessage(outsider, message.messageHash).then(sig =>
+          service.addSignature(createProvider().provider, message.safeMessageHash, sig, owners)
+        )
+      ).rejects.toThrow('is not an owner');
+      expect(() => service.buildCombinedSignature(message, 2)).toThrow('Not enough signatures');
+    });
+
+    it('should reject contract signatures the owner contract does not validate', async () => {
+      const message = service.createMessage(safeAddress, 'sepolia', chainId, 'Hello Safe');
+      const mock = createProvider({ call: () => eip1271.encodeFunctionResult('isValidSignature(bytes32,bytes)', ['0xffffffff']) });
+
+      await expect(
+        service.addSignature(mock.provider, message.safeMessageHash, contractSignature(ownerContract, '0xabcd'), owners)
+      ).rejects.toThrow('rejected this signature');
+      expect(mock.call).toHaveBeenCalled();
+      expect(service.getMessages(safeAddress, 'sepolia')[0].signatures).toHaveLength(0);
+    });
+
+    it('should store contract signatures the owner contract validates for the SafeMessage hash', async () => {
+      const message = service.createMessage(safeAddress, 'sepolia', chainId, 'Hello Safe');
+      const mock = createProvider({
+        call: ({ data }) => {
+          if (data.startsWith(eip1271.getSighash('isValidSignature(bytes32,bytes)'))) {
+            const [hash, signature] = eip1271.decodeFunctionData('isValidSignature(bytes32,bytes)', data);
+            const valid = hash === message.safeMessageHash && signature === '0xabcd';
+            return eip1271.encodeFunctionResult('isValidSignature(bytes32,bytes)', [valid ? '0x1626ba7e' : '0xffffffff']);
+          }
+          // An owner implementing only the standard bytes32 variant
+          return '0x';
+        }
+      });
+
+      const updated = await service.addSignature(
+        mock.provider,
+        message.safeMessageHash,
+        contractSignature(ownerContract, '0xabcd'),
+        owners
+      );
+
+      expect(updated.signatures).toHaveLength(1);
+      expect(updated.signatures[0].signer.toLowerCase()).toBe(ownerContract);
+    });
+  });
+
+  describe('createSignMessageTransaction', () => {
+    it('should delegatecall SignMessageLib with the message hash', () => {
+      const messageHash = hashSafeMessageContent('Hello Safe');
+      const tx = service.createSignMessageTransaction('sepolia', messageHash);
+      const iface = new ethers.utils.Interface(['function signMessage(bytes _data)']);
+
+      expect(tx.operation).toBe(1);
+      expect(iface.decodeFunctionData('signMessage', tx.data!)[0]).toBe(messageHash);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for SafeModuleService
+ */
+
+import { ethers } from 'ethers';
+import { SafeModuleService } from '../SafeModuleService';
+
+describe('SafeModuleService', () => {
+  const safeAddress = '0x1111111111111111111111111111111111111111';
+  const moduleA = '0x2222222222222222222222222222222222222222';
+  const moduleB = '0x3333333333333333333333333333333333333333';
+
+  describe('findPrevModule', () => {
+    it('should return the sentinel for the first module and the predecessor otherwise', () => {
+      expect(SafeModuleService.findPrevModule([moduleA, moduleB], moduleA)).toBe(SafeModuleService.SENTINEL_MODULES);
+      expect(SafeModuleService.findPrevModule([moduleA, moduleB], moduleB)).toBe(moduleA);
+    });
+
+    it('should reject modules that are not enabled', () => {
+      expect(() => SafeModuleService.findPrevModule([moduleA], moduleB)).toThrow('not enabled');
+    });
+  });
+
+  describe('collectModules', () => {
+    const enabledModules = Array.from({ length: 7 }, (_, i) => ethers.utils.hexZeroPad(ethers.utils.hexlify(0x100 + i), 20));
+
+    // Pages of the linked list, with the cursor of Safe v1.3.0 (next unreturned module) or v1.4.1 (last returned module)
+    const createPager = (version: '1.3.0' | '1.4.1') => jest.fn(async (start: string, pageSize: number) => {
+      const from = start === SafeModuleService.SENTINEL_MODULES ? 0 : enabledModules.indexOf(start) + 1;
+      const modules = enabledModules.slice(from, from + pageSize);
+      const hasMore = from + pageSize < enabledModules.length;
+      const next = !hasMore
+        ? SafeModuleService.SENTINEL_MODULES
+        : version === '1.3.0' ? enabledModules[from + pageSize] : modules[modules.length - 1];
+      return { modules, next };
+    });
+
+    it.each(['1.3.0', '1.4.1'] as const)('should return every module across pages on Safe v%s', async version => {
+      const fetchPage = createPager(version);
+      const modules = await SafeModuleService.collectModules(fetchPage, 5);
+
+      expect(modules).toEqual(enabledModules);
+      expect(SafeModuleService.findPrevModule(modules, enabledModules[6])).toBe(enabledModules[5]);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('createDisableModuleTransaction', () => {
+    it('should encode disableModule with the previous module', () => {
+      const tx = SafeModuleService.createDisableModuleTransaction(safeAddress, moduleA, moduleB, 7);
+      const iface = new ethers.utils.Interface(['function disableModule(address prevModule, address module)']);
+      const [prevModule, module] = iface.decodeFunctionData('disableModule', tx.data);
+
+      expect(tx.to).toBe(safeAddress);
+      expect(tx.nonce).toBe(7);
+      expect(prevModule).toBe(moduleA);
+      expect(module).toBe(moduleB);
+    });
+  });
+
+  describe('validateModuleAddress', () => {
+    it('should reject the zero and sentinel addresses', () => {
+      expect(SafeModuleService.validateModuleAddress(ethers.constants.AddressZero).isValid).toBe(false);
+      expect(SafeModuleService.validateModuleAddress(SafeModuleService.SENTINEL_MODULES).isValid).toBe(false);
+      expect(SafeModuleService.validateModuleAddress(moduleA).isValid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Tests for SafeTxPoolIndexerService
+ */
+
+import { ethers } from 'ethers';
+import { SAFE_TX_POOL_REGISTRY_EXTENDED_ABI } from '../../contracts/abis';
+import { applyPoolEvents, safeTxPoolIndexerService, IndexedPoolTransaction, PoolEvent } from '../SafeTxPoolIndexerService';
+
+const REGISTRY = '0x4444444444444444444444444444444444444444';
+const SAFE = '0x5555555555555555555555555555555555555555';
+const OWNER = '0x6666666666666666666666666666666666666666';
+const TX_HASH = ethers.utils.id('proposal');
+
+const registry = new ethers.utils.Interface(SAFE_TX_POOL_REGISTRY_EXTENDED_ABI);
+
+const chain = {
+  latestBlock: 100,
+  forkedFrom: Infinity, // Blocks at or above this number have a different hash after a reorg
+  logs: [] as ethers.providers.Log[]
+};
+
+const blockHash = (number: number) =>
+  ethers.utils.id(`${number >= chain.forkedFrom ? 'fork' : 'main'}-${number}`);
+
+const createLog = (name: string, args: any[], blockNumber: number): ethers.providers.Log => {
+  const { data, topics } = registry.encodeEventLog(registry.getEvent(name), args);
+  return {
+    address: REGISTRY,
+    data,
+    topics,
+    blockNumber,
+    blockHash: blockHash(blockNumber),
+    logIndex: 0,
+    transactionIndex: 0,
+    transactionHash: ethers.constants.HashZero,
+    removed: false
+  };
+};
+
+const matchesTopics = (log: ethers.providers.Log, topics: Array<string | string[] | null>) =>
+  topics.every((topic, index) => {
+    if (topic === null) return true;
+    const candidates = (Array.isArray(topic) ? topic : [topic]).map(t => t.toLowerCase());
+    return candidates.includes(log.topics[index]?.toLowerCase());
+  });
+
+const mockProvider = {
+  getBlockNumber: async () => chain.latestBlock,
+  getBlock: async (number: number) => number <= chain.latestBlock ? { number, hash: blockHash(number) } : null,
+  getLogs: jest.fn()
+};
+
+jest.mock('../FailoverRpcProvider', () => ({
+  getRpcProvider: () => mockProvider
+}));
+
+jest.mock('../SafeTxPoolService', () => ({
+  createSafeTxPoolService: () => ({
+    getPendingTransactions: async () => []
+  })
+}));
+
+jest.mock('../../contracts/abis', () => ({
+  ...jest.requireActual('../../contracts/abis'),
+  getSafeTxPoolRegistryAddress: () => REGISTRY
+}));
+
+const proposal = {
+  txHash: TX_HASH,
+  safe: SAFE,
+  to: OWNER,
+  value: '0',
+  data: '0x',
+  operation: 0,
+  proposer: OWNER,
+  nonce: 3,
+  txId: 1
+};
+
+describe('applyPoolEvents', () => {
+  const event = (type: PoolEvent['type'], blockNumber: number, extra: Partial<PoolEvent> = {}): PoolEvent => ({
+    id: `${type}-${blockNumber}`,
+    safeKey: 'test',
+    type,
+    txHash: TX_HASH,
+    blockNumber,
+    blockHash: blockHash(blockNumber),
+    logIndex: 0,
+    ...extra
+  });
+
+  it('should apply proposals, signatures and status changes idempotently', () => {
+    const events = [
+      event('signed', 2, { signer: OWNER, signature: '0x1234' }),
+      event('proposed', 1, { transaction: proposal }),
+      event('signed', 3, { signer: OWNER.toUpperCase().replace('0X', '0x'), signature: '0x1234' })
+    ];
+
+    const [pending] = applyPoolEvents([], events);
+    expect(pending.status).toBe('pending');
+    expect(pending.signatures).toEqual([{ signer: OWNER, signature: '0x1234' }]);
+
+    const replayed = applyPoolEvents([pending], [...events, event('executed', 4)]);
+    expect(replayed).toHaveLength(1);
+    expect(replayed[0].signatures).toHaveLength(1);
+    expect(replayed[0].status).toBe('executed');
+    expect(pending.status).toBe('pending');
+  });
+});
+
+describe('SafeTxPoolIndexerService', () => {
+  beforeEach(async () => {
+    chain.latestBlock = 100;
+    chain.forkedFrom = Infinity;
+    chain.logs = [];
+    mockProvider.getLogs.mockImplementation(async (filter: any) => chain.logs
+      .filter(log => log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock)
+      .filter(log => log.blockNumber < chain.forkedFrom)
+      .filter(log => matchesTopics(log, filter.topics)));
+    await safeTxPoolIndexerService.clearIndex('sepolia', SAFE);
+  });
+
+  const syncPending = (): Promise<IndexedPoolTransaction[]> =>
+    safeTxPoolIndexerService.syncPendingTransactions('sepolia', SAFE);
+
+  it('should index new events from the last checkpoint', async () => {
+    expect(await safeTxPoolIndexerService.getPendingTransactions('sepolia', SAFE)).toBeNull();
+    expect(await syncPending()).toEqual([]);
+
+    chain.logs = [
+      createLog('TransactionProposed', [TX_HASH, OWNER, SAFE, OWNER, 0, '0x', 0, 3, 1], 105),
+      createLog('TransactionSigned', [TX_HASH, OWNER, '0xabcd', 1], 106)
+    ];
+    chain.latestBlock = 110;
+
+    const pending = await syncPending();
+    expect(pending).toHaveLength(1);
+    expect(pending[0]).toMatchObject({ txHash: TX_HASH, nonce: 3, status: 'pending' });
+    expect(pending[0].signatures).toEqual([{ signer: OWNER, signature: '0xabcd' }]);
+    expect(mockProvider.getLogs.mock.calls.every(([filter]) => filter.fromBlock === 101)).toBe(true);
+
+    chain.logs.push(createLog('TransactionDeleted', [TX_HASH, SAFE, 1], 112));
+    chain.latestBlock = 115;
+
+    expect(await syncPending()).toEqual([]);
+    const [deleted] = (await safeTxPoolIndexerService.getTransactions('sepolia', SAFE))!;
+    expect(deleted.status).toBe('deleted');
+  });
+
+  it('should roll back events of reorged blocks', async () => {
+    await syncPending();
+
+    chain.logs = [createLog('TransactionProposed', [TX_HASH, OWNER, SAFE, OWNER, 0, '0x', 0, 3, 1], 105)];
+    chain.latestBlock = 110;
+    expect(await syncPending()).toHaveLength(1);
+
+    // The block with the proposal is replaced, the proposal is no longer part of the chain
+    chain.forkedFrom = 104;
+    chain.latestBlock = 111;
+
+    expect(await syncPending()).toEqual([]);
+    expect(mockProvider.getLogs).toHaveBeenLastCalledWith(expect.objectContaining({ fromBlock: 101 }));
+  });
+});
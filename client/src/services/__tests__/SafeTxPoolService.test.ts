@@ -0,0 +1,116 @@
+/**
+ * Tests for SafeTxPoolService
+ */
+
+import { ethers } from 'ethers';
+import { SafeTxPoolService } from '../SafeTxPoolService';
+import { EIP1271_ABI, SAFE_ABI, SAFE_TX_POOL_REGISTRY_ABI } from '../../contracts/abis';
+import { buildApprovedHashSignature, buildContractSignature } from '../../utils/eip712';
+import { createProvider } from '../../tests/mockProvider';
+
+const REGISTRY = '0x4444444444444444444444444444444444444444';
+const SAFE = '0x5555555555555555555555555555555555555555';
+const TARGET = '0x1111111111111111111111111111111111111111';
+const OTHER_TARGET = '0x2222222222222222222222222222222222222222';
+const CONTRACT_OWNER = '0x7777777777777777777777777777777777777777';
+const APPROVER = '0x8888888888888888888888888888888888888888';
+const TX_HASH = ethers.utils.id('safe transaction');
+
+const OWNER_KEY = new ethers.utils.SigningKey(ethers.utils.id('owner'));
+const OWNER = ethers.utils.computeAddress(OWNER_KEY.publicKey);
+const NON_OWNER_KEY = new ethers.utils.SigningKey(ethers.utils.id('not an owner'));
+
+const registry = new ethers.utils.Interface(SAFE_TX_POOL_REGISTRY_ABI);
+const safe = new ethers.utils.Interface(SAFE_ABI);
+const eip1271 = new ethers.utils.Interface(EIP1271_ABI);
+
+let mockProvider: ethers.providers.Provider;
+
+jest.mock('../../utils/ens', () => ({
+  getProviderForNetwork: () => mockProvider
+}));
+
+jest.mock('../../contracts/abis', () => ({
+  ...jest.requireActual('../../contracts/abis'),
+  isSafeTxPoolRegistryConfigured: () => true,
+  getSafeTxPoolRegistryAddress: () => REGISTRY
+}));
+
+describe('SafeTxPoolService', () => {
+  describe('validateDelegateCallTarget', () => {
+    const createService = (getDelegateCallTargets: () => string[]) => {
+      const mock = createProvider({
+        call: ({ data }) => {
+          const call = registry.parseTransaction({ data });
+          return call.name === 'isDelegateCallEnabled'
+            ? registry.encodeFunctionResult(call.name, [true])
+            : registry.encodeFunctionResult(call.name, [getDelegateCallTargets()]);
+        }
+      });
+      mockProvider = mock.provider;
+      return new SafeTxPoolService('sepolia');
+    };
+
+    it('should only allow targets of a configured allowlist', async () => {
+      await expect(createService(() => []).validateDelegateCallTarget(SAFE, OTHER_TARGET)).resolves.toBeUndefined();
+
+      const service = createService(() => [TARGET]);
+      await expect(service.validateDelegateCallTarget(SAFE, TARGET)).resolves.toBeUndefined();
+      await expect(service.validateDelegateCallTarget(SAFE, OTHER_TARGET)).rejects.toThrow('not in the allowed targets list');
+    });
+
+    it('should reject the delegate call when the allowlist cannot be read', async () => {
+      const service = createService(() => {
+        throw new Error('rate limited');
+      });
+
+      await expect(service.validateDelegateCallTarget(SAFE, OTHER_TARGET))
+        .rejects.toThrow('Failed to read the delegate call allowlist');
+    });
+  });
+
+  describe('getTransactionSigners', () => {
+    /**
+     * Every owner is reported as signer by the pool, verification decides which signatures count.
+     * The owner contract rejects every EIP-1271 signature and no hash is approved on-chain.
+     */
+    const createService = (signatures: string[]) => {
+      const mock = createProvider({
+        call: ({ to, data }) => {
+          if (to.toLowerCase() === REGISTRY) {
+            const call = registry.parseTransaction({ data });
+            return call.name === 'getSignatures'
+              ? registry.encodeFunctionResult(call.name, [signatures])
+              : registry.encodeFunctionResult(call.name, [true]);
+          }
+          if (to.toLowerCase() === SAFE) {
+            const call = safe.parseTransaction({ data });
+            return call.name === 'getOwners'
+              ? safe.encodeFunctionResult(call.name, [[OWNER, CONTRACT_OWNER, APPROVER]])
+              : safe.encodeFunctionResult(call.name, [0]);
+          }
+          return eip1271.encodeFunctionResult('isValidSignature(bytes32,bytes)', ['0xffffffff']);
+        }
+      });
+      mockProvider = mock.provider;
+      return new SafeTxPoolService('sepolia');
+    };
+
+    const ownerSignature = ethers.utils.joinSignature(OWNER_KEY.signDigest(TX_HASH));
+
+    it('should drop a contract signature the owner contract rejects', async () => {
+      const contractSignature = buildContractSignature(CONTRACT_OWNER, '0x1234');
+      const signers = await createService([ownerSignature, contractSignature]).getTransactionSigners(TX_HASH, SAFE);
+
+      expect(signers).toEqual([{ signature: ownerSignature, signer: OWNER }]);
+    });
+
+    it('should drop unapproved hashes and signatures of non-owners', async () => {
+      const nonOwnerSignature = ethers.utils.joinSignature(NON_OWNER_KEY.signDigest(TX_HASH));
+      const signers = await createService([buildApprovedHashSignature(APPROVER), nonOwnerSignature])
+        .getTransactionSigners(TX_HASH, SAFE);
+
+      expect(signers).toEqual([]);
+    });
+  });
+});
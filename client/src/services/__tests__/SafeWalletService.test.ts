@@ -0,0 +1,93 @@
+/**
+ * Tests for SafeWalletService
+ */
+
+import { ethers } from 'ethers';
+import { SafeWalletService, SafeTransactionData } from '../SafeWalletService';
+import { SAFE_ABI } from '../../contracts/abis';
+import { buildApprovedHashSignature } from '../../utils/eip712';
+
+const SAFE = '0x5555555555555555555555555555555555555555';
+const APPROVER = '0x8888888888888888888888888888888888888888';
+const NOT_APPROVED = '0x9999999999999999999999999999999999999999';
+const TX_HASH = ethers.utils.id('safe transaction');
+
+const SIGNER_KEY = new ethers.utils.SigningKey(ethers.utils.id('owner'));
+const SIGNER = ethers.utils.computeAddress(SIGNER_KEY.publicKey);
+const OWNERS = [SIGNER, APPROVER, NOT_APPROVED];
+
+const safe = new ethers.utils.Interface(SAFE_ABI);
+
+// Services resolve their provider when their module loads, every read goes through the signer
+jest.mock('../FailoverRpcProvider', () => ({
+  getRpcProvider: () => ({ _isProvider: true })
+}));
+
+const TRANSACTION: SafeTransactionData = {
+  to: '0x1111111111111111111111111111111111111111',
+  value: '0',
+  data: '0x',
+  operation: 0,
+  safeTxGas: '0',
+  baseGas: '0',
+  gasPrice: '0',
+  gasToken: ethers.constants.AddressZero,
+  refundReceiver: ethers.constants.AddressZero,
+  nonce: 0
+};
+
+/**
+ * Connect a Safe with a threshold of 2 where only APPROVER approved TX_HASH on-chain
+ */
+const createService = async () => {
+  const signer = {
+    _isSigner: true,
+    getAddress: async () => SIGNER,
+    call: jest.fn(async ({ data }: { data: string }) => {
+      const call = safe.parseTransaction({ data });
+      return safe.encodeFunctionResult('approvedHashes', [call.args[0] === APPROVER ? 1 : 0]);
+    }),
+    sendTransaction: jest.fn(async () => ({ hash: TX_HASH, wait: async () => ({}) }))
+  };
+
+  const service = new SafeWalletService();
+  await service.initialize({ safeAddress: SAFE, network: 'sepolia' }, signer as unknown as ethers.Signer);
+  jest.spyOn(service, 'getSafeInfo').mockResolvedValue({ owners: OWNERS, threshold: 2 } as any);
+  jest.spyOn(service, 'getEIP712TransactionHash').mockResolvedValue(TX_HASH);
+
+  const sentSignatures = (): string => {
+    const [tx] = signer.sendTransaction.mock.calls[0] as any[];
+    return safe.decodeFunctionData('execTransaction', tx.data).signatures;
+  };
+  return { service, signer, sentSignatures };
+};
+
+describe('SafeWalletService', () => {
+  const ownerSignature = ethers.utils.joinSignature(SIGNER_KEY.signDigest(TX_HASH));
+
+  it('should approve hashes on-chain and execute with the approved owners', async () => {
+    const { service, signer, sentSignatures } = await createService();
+
+    await service.approveTransactionHash(TX_HASH);
+    const [approval] = signer.sendTransaction.mock.calls[0] as any[];
+    expect(safe.decodeFunctionData('approveHash', approval.data)[0]).toBe(TX_HASH);
+
+    expect(await service.getOnChainApprovals(TX_HASH, OWNERS)).toEqual([APPROVER]);
+
+    signer.sendTransaction.mockClear();
+    await service.executeTransaction(TRANSACTION, [{ signature: ownerSignature, signer: SIGNER }]);
+    expect(sentSignatures()).toContain(buildApprovedHashSignature(APPROVER).slice(2));
+    expect(sentSignatures()).toContain(ownerSignature.slice(2));
+  });
+
+  it('should not execute with approved-hash signatures of owners that did not approve on-chain', async () => {
+    const { service, sentSignatures } = await createService();
+
+    await service.executeTransaction(TRANSACTION, [
+      { signature: ownerSignature, signer: SIGNER },
+      { signature: buildApprovedHashSignature(NOT_APPROVED), signer: NOT_APPROVED }
+    ]);
+    expect(sentSignatures()).not.toContain(buildApprovedHashSignature(NOT_APPROVED).slice(2));
+    expect(sentSignatures()).toContain(buildApprovedHashSignature(APPROVER).slice(2));
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Tests for SignatureDictionaryService
+ */
+
+import { ethers } from 'ethers';
+import {
+  decodeFunctionCandidate,
+  expandSignature,
+  signatureDictionaryService
+} from '../SignatureDictionaryService';
+import { SIGNATURE_TYPE_ALIASES } from '../../contracts/signatureDictionary';
+
+const FROM = '0x1111111111111111111111111111111111111111';
+const TO = '0x2222222222222222222222222222222222222222';
+
+describe('SignatureDictionaryService', () => {
+  it('should expand type aliases without touching names or full types', () => {
+    expect(expandSignature('exactInput((B path,a recipient,uint24 fee) params)', SIGNATURE_TYPE_ALIASES))
+      .toBe('exactInput((bytes path,address recipient,uint24 fee) params)');
+    expect(expandSignature('claim(u index,h[] merkleProof)', SIGNATURE_TYPE_ALIASES))
+      .toBe('claim(uint256 index,bytes32[] merkleProof)');
+  });
+
+  it('should decode calldata of a bundled signature with parameter names', async () => {
+    const router = new ethers.utils.Interface([
+      'function swapExactTokensForTokens(uint256,uint256,address[],address,uint256)'
+    ]);
+    const data = router.encodeFunctionData('swapExactTokensForTokens', [1000, 900, [FROM, TO], TO, 1700000000]);
+
+    const call = await signatureDictionaryService.decodeFunctionCall(data);
+
+    expect(call?.signature).toBe('swapExactTokensForTokens(uint256,uint256,address[],address,uint256)');
+    expect(call?.params.map(param => param.name)).toEqual(['amountIn', 'amountOutMin', 'path', 'to', 'deadline']);
+    expect(call?.params[2].value).toEqual([FROM, TO]);
+    expect(await signatureDictionaryService.decodeFunctionCall('0xdeadbeef')).toBeNull();
+  });
+
+  it('should only accept candidates whose decoding round-trips', () => {
+    const asAddress = ethers.utils.FunctionFragment.from('check(address)');
+    const asUint = ethers.utils.FunctionFragment.from('check(uint256)');
+    // Same selector for both candidates, the value does not fit in an address
+    const data = new ethers.utils.Interface([asUint]).encodeFunctionData(asUint, [ethers.constants.MaxUint256]);
+
+    expect(decodeFunctionCandidate(data, asAddress)).toBeNull();
+    expect(decodeFunctionCandidate(data, asUint)?.[0].eq(ethers.constants.MaxUint256)).toBe(true);
+    expect(decodeFunctionCandidate(`${data}00`, asUint)).toBeNull();
+  });
+
+  it('should tell ERC-20 and ERC-721 Transfer logs apart by their layout', async () => {
+    const topic = ethers.utils.id('Transfer(address,address,uint256)');
+    const addressTopic = (address: string) => ethers.utils.hexZeroPad(address, 32);
+
+    const erc20 = await signatureDictionaryService.decodeEventLog({
+      topics: [topic, addressTopic(FROM), addressTopic(TO)],
+      data: ethers.utils.defaultAbiCoder.encode(['uint256'], [500])
+    });
+    expect(erc20?.params.map(param => [param.name, param.indexed])).toEqual([
+      ['from', true], ['to', true], ['value', false]
+    ]);
+    expect(erc20?.params[2].value.toString()).toBe('500');
+
+    const erc721 = await signatureDictionaryService.decodeEventLog({
+      topics: [topic, addressTopic(FROM), addressTopic(TO), ethers.utils.hexZeroPad('0x2a', 32)],
+      data: '0x'
+    });
+    expect(erc721?.params[2]).toMatchObject({ name: 'tokenId', indexed: true });
+    expect(erc721?.params[2].value.toString()).toBe('42');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for TokenDiscoveryService
+ */
+
+import { ethers } from 'ethers';
+import { TokenDiscoveryService, parseTokenTransferLogs } from '../TokenDiscoveryService';
+import { ERC20_ABI, ERC721_ABI } from '../../contracts/abis';
+import { createProvider } from '../../tests/mockProvider';
+
+const erc20 = new ethers.utils.Interface(ERC20_ABI);
+const erc721 = new ethers.utils.Interface(ERC721_ABI);
+
+const SAFE = '0x5555555555555555555555555555555555555555';
+const OTHER = '0x6666666666666666666666666666666666666666';
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const NOT_A_TOKEN = '0x2222222222222222222222222222222222222222';
+const COLLECTION = '0x3333333333333333333333333333333333333333';
+const PINNED = '0x4444444444444444444444444444444444444444';
+const BYTES32_TOKEN = '0x7777777777777777777777777777777777777777';
+const FLAKY_TOKEN = '0x8888888888888888888888888888888888888888';
+
+const log = (address: string, encoded: { topics: string[]; data: string }): ethers.providers.Log => ({
+  address,
+  topics: encoded.topics,
+  data: encoded.data,
+  blockNumber: 90,
+  blockHash: ethers.constants.HashZero,
+  transactionHash: ethers.constants.HashZero,
+  transactionIndex: 0,
+  logIndex: 0,
+  removed: false
+});
+
+const RECEIVED_LOGS = [
+  log(TOKEN, erc20.encodeEventLog(erc20.getEvent('Transfer'), [OTHER, SAFE, 1000])),
+  // Emits an ERC-20 style Transfer but has no symbol()
+  log(NOT_A_TOKEN, erc20.encodeEventLog(erc20.getEvent('Transfer'), [OTHER, SAFE, 1])),
+  // ERC-721 Transfer, same topic with four topics
+  log(COLLECTION, erc721.encodeEventLog(erc721.getEvent('Transfer'), [OTHER, SAFE, 7]))
+];
+const SENT_LOGS = [
+  log(TOKEN, erc20.encodeEventLog(erc20.getEvent('Transfer'), [SAFE, OTHER, 400]))
+];
+
+const answerCall = ({ to, data }: { to: string; data: string }): string => {
+  if (to.toLowerCase() === NOT_A_TOKEN) {
+    throw Object.assign(new Error('execution reverted'), { code: ethers.errors.CALL_EXCEPTION });
+  }
+
+  const call = erc20.parseTransaction({ data });
+  if (to.toLowerCase() === BYTES32_TOKEN && (call.name === 'symbol' || call.name === 'name')) {
+    // MKR style metadata
+    return ethers.utils.formatBytes32String(call.name === 'symbol' ? 'MKR' : 'Maker');
+  }
+  switch (call.name) {
+    case 'balanceOf':
+      return erc20.encodeFunctionResult('balanceOf', [[TOKEN, BYTES32_TOKEN].includes(to.toLowerCase()) ? 600 : 0]);
+    case 'decimals':
+      return erc20.encodeFunctionResult('decimals', [0]);
+    default:
+      return erc20.encodeFunctionResult(call.name, [to.toLowerCase() === TOKEN ? 'TKN' : 'PIN']);
+  }
+};
+
+// Multicall3 is not deployed, reads fall back to separate calls
+const HANDLERS = {
+  latestBlock: 100,
+  getCode: (address: string) => [NOT_A_TOKEN, FLAKY_TOKEN].includes(address.toLowerCase()) ? '0x6080' : '0x',
+  getLogs: (filter: ethers.providers.Filter) => filter.topics![1] ? SENT_LOGS : RECEIVED_LOGS,
+  call: answerCall
+};
+
+describe('TokenDiscoveryService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should only keep ERC-20 Transfer logs', () => {
+    expect(parseTokenTransferLogs([...RECEIVED_LOGS, ...SENT_LOGS])).toEqual([TOKEN, NOT_A_TOKEN]);
+  });
+
+  it('should discover token contracts and resume from the checkpoint', async () => {
+    const mock = createProvider(HANDLERS);
+
+    expect(await new TokenDiscoveryService(mock.provider, 'sepolia').discoverTokens(SAFE)).toEqual([TOKEN]);
+
+    mock.getBlockNumber.mockResolvedValue(150);
+    mock.getLogs.mockClear();
+    mock.call.mockClear();
+    const tokens = await new TokenDiscoveryService(mock.provider, 'sepolia').discoverTokens(SAFE);
+
+    expect(tokens).toEqual([TOKEN]);
+    expect(mock.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 101, toBlock: 150 }));
+    // Known tokens and rejected contracts are not checked again
+    expect(mock.call).not.toHaveBeenCalled();
+  });
+
+  it('should accept bytes32 symbols and check contracts again after a failed check', async () => {
+    const mock = createProvider(HANDLERS);
+    mock.getLogs.mockResolvedValue([
+      log(BYTES32_TOKEN, erc20.encodeEventLog(erc20.getEvent('Transfer'), [OTHER, SAFE, 5])),
+      log(FLAKY_TOKEN, erc20.encodeEventLog(erc20.getEvent('Transfer'), [OTHER, SAFE, 5]))
+    ]);
+    mock.call.mockImplementation(async (tx: { to: string; data: string }) => {
+      if (tx.to.toLowerCase() === FLAKY_TOKEN) {
+        throw Object.assign(new Error('rate limited'), { code: ethers.errors.SERVER_ERROR });
+      }
+      return answerCall(tx);
+    });
+
+    const service = new TokenDiscoveryService(mock.provider, 'sepolia');
+    expect(await service.discoverTokens(SAFE)).toEqual([BYTES32_TOKEN]);
+
+    // The RPC recovers, the contract is checked again without rescanning its block
+    mock.getBlockNumber.mockResolvedValue(101);
+    mock.getLogs.mockResolvedValue([]);
+    mock.call.mockImplementation(async (tx: { to: string; data: string }) => answerCall(tx));
+    expect(await service.discoverTokens(SAFE)).toEqual([BYTES32_TOKEN, FLAKY_TOKEN]);
+    expect(mock.getLogs).toHaveBeenLastCalledWith(expect.objectContaining({ fromBlock: 101, toBlock: 101 }));
+
+    const balances = await service.getTokenBalances(SAFE);
+    expect(balances.find(balance => balance.tokenInfo.address === BYTES32_TOKEN)?.tokenInfo).toMatchObject({
+      symbol: 'MKR',
+      name: 'Maker'
+    });
+  });
+
+  it('should persist hidden and pinned tokens per Safe and include pinned tokens without a balance', async () => {
+    const mock = createProvider(HANDLERS);
+    const service = new TokenDiscoveryService(mock.provider, 'sepolia');
+
+    service.pinToken(SAFE, PINNED);
+    service.pinToken(SAFE, TOKEN);
+    expect(service.hideToken(SAFE, TOKEN)).toEqual({ hidden: [TOKEN], pinned: [PINNED] });
+
+    const restored = new TokenDiscoveryService(mock.provider, 'sepolia');
+    expect(restored.getPreferences(SAFE)).toEqual({ hidden: [TOKEN], pinned: [PINNED] });
+    expect(restored.getPreferences(OTHER)).toEqual({ hidden: [], pinned: [] });
+    expect(new TokenDiscoveryService(mock.provider, 'ethereum').getPreferences(SAFE)).toEqual({ hidden: [], pinned: [] });
+
+    const balances = await restored.getTokenBalances(SAFE);
+    expect(balances.map(({ tokenInfo, balance }) => [tokenInfo.address, tokenInfo.symbol, balance])).toEqual([
+      [TOKEN, 'TKN', '600'],
+      [PINNED, 'PIN', '0']
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for TokenListService
+ */
+
+import { tokenListService, getAssetListFields, getAssetListWarning } from '../TokenListService';
+
+const MAINNET_USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const FAKE_USDC = '0x1111111111111111111111111111111111111111';
+const LISTED = '0x2222222222222222222222222222222222222222';
+const UNLISTED = '0x3333333333333333333333333333333333333333';
+
+const UNISWAP_LIST = {
+  name: 'Uniswap Labs Default',
+  tokens: [
+    { chainId: 1, address: MAINNET_USDC, name: 'USD Coin', symbol: 'USDC', decimals: 6, logoURI: 'https://logos.example/usdc.png' }
+  ]
+};
+
+const UPLOADED_LIST = JSON.stringify({
+  name: 'Treasury Tokens',
+  tokens: [
+    { chainId: 1, address: LISTED, name: 'Treasury Token', symbol: 'TRS', decimals: 18, logoURI: 'ipfs://QmLogo/trs.png' },
+    { chainId: 1, address: 'not-an-address', name: 'Broken', symbol: 'BRK', decimals: 18 },
+    { chainId: 1, address: UNLISTED, name: 'No Decimals', symbol: 'NDC' }
+  ]
+});
+
+describe('TokenListService', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn().mockResolvedValue({ ok: true, json: async () => UNISWAP_LIST });
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    tokenListService.getSources()
+      .filter(source => !source.builtIn)
+      .forEach(source => tokenListService.removeSource(source.id));
+  });
+
+  it('should validate lists and drop invalid tokens', () => {
+    const list = tokenListService.parseTokenList(UPLOADED_LIST);
+
+    expect(list.tokens.map(token => token.symbol)).toEqual(['TRS']);
+    expect(() => tokenListService.parseTokenList('{"name":"Empty","tokens":[]}')).toThrow('does not contain any valid tokens');
+    expect(() => tokenListService.parseTokenList('[]')).toThrow('Expected a token list');
+  });
+
+  it('should mark uploaded and remote list tokens as listed with their logos', async () => {
+    tokenListService.addListFile(UPLOADED_LIST);
+    await tokenListService.loadLists();
+    await tokenListService.loadLists();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(tokenListService.getTokenStatus(1, { address: LISTED, symbol: 'TRS' })).toEqual({
+      listed: true,
+      lists: ['Treasury Tokens'],
+      logoURI: 'https://ipfs.io/ipfs/QmLogo/trs.png',
+      suspectedSpam: false
+    });
+
+    const usdc = tokenListService.getTokenStatus(1, { address: MAINNET_USDC.toLowerCase(), symbol: 'USDC' });
+    expect(usdc.lists).toEqual(['Vito Default', 'Uniswap Labs Default']);
+    expect(usdc.logoURI).toBe('https://logos.example/usdc.png');
+  });
+
+  it('should flag symbol collisions and spam-like names of unlisted tokens', () => {
+    const impostor = tokenListService.getTokenStatus(1, { address: FAKE_USDC, symbol: 'usdc', name: 'USD Coin' });
+    expect(impostor).toMatchObject({ listed: false, suspectedSpam: true });
+    expect(impostor.symbolCollision?.address).toBe(MAINNET_USDC);
+
+    expect(tokenListService.getTokenStatus(1, { address: UNLISTED, symbol: 'GIFT', name: 'Visit gift-claim.xyz' }))
+      .toMatchObject({ listed: false, suspectedSpam: true });
+    expect(tokenListService.getTokenStatus(1, { address: UNLISTED, symbol: 'NEW', name: 'New Token' }))
+      .toEqual({ listed: false, lists: [], symbolCollision: undefined, suspectedSpam: false });
+
+    // Same symbol on another chain is not a collision
+    expect(tokenListService.getTokenStatus(10, { address: FAKE_USDC, symbol: 'TRS' }).symbolCollision).toBeUndefined();
+  });
+
+  it('should warn about unlisted tokens chosen for a transfer', () => {
+    const warningOf = (address: string, symbol: string, name: string) => getAssetListWarning({
+      type: 'erc20',
+      symbol,
+      ...getAssetListFields(tokenListService.getTokenStatus(1, { address, symbol, name }))
+    });
+
+    expect(warningOf(MAINNET_USDC, 'USDC', 'USD Coin')).toBeNull();
+    expect(warningOf(FAKE_USDC, 'USDC', 'USD Coin')).toMatchObject({ severity: 'danger', message: expect.stringContaining(MAINNET_USDC) });
+    expect(warningOf(UNLISTED, 'GIFT', 'Visit gift-claim.xyz')?.severity).toBe('danger');
+    expect(warningOf(UNLISTED, 'NEW', 'New Token')?.severity).toBe('warning');
+    expect(getAssetListWarning({ type: 'native', symbol: 'ETH', isListed: false })).toBeNull();
+  });
+
+  it('should ignore disabled lists', () => {
+    tokenListService.setSourceEnabled('vito-default', false);
+    tokenListService.setSourceEnabled('uniswap', false);
+
+    expect(tokenListService.getTokenStatus(1, { address: FAKE_USDC, symbol: 'USDC' }).symbolCollision).toBeUndefined();
+    expect(JSON.parse(localStorage.getItem('vito_token_lists')!).disabledIds).toEqual(['vito-default', 'uniswap']);
+
+    tokenListService.setSourceEnabled('vito-default', true);
+    tokenListService.setSourceEnabled('uniswap', true);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for TransactionCacheService
+ */
+
+import { TransactionCacheService, TransactionPage } from '../TransactionCacheService';
+
+const SAFE = '0x5555555555555555555555555555555555555555';
+
+const mockProvider = {
+  latestBlock: 100,
+  getBlockNumber: jest.fn(),
+  getLogs: jest.fn()
+};
+
+jest.mock('../FailoverRpcProvider', () => ({
+  getRpcProvider: () => mockProvider
+}));
+
+const createPage = (id: string, payload: string = 'x'.repeat(500)): TransactionPage => ({
+  transactions: [{ id, data: payload }],
+  totalCount: -1,
+  hasMore: true,
+  nextOffset: 20,
+  cacheKey: id
+});
+
+describe('TransactionCacheService', () => {
+  beforeEach(() => {
+    mockProvider.latestBlock = 100;
+    mockProvider.getBlockNumber.mockImplementation(async () => mockProvider.latestBlock);
+    mockProvider.getLogs.mockResolvedValue([]);
+  });
+
+  it('should partition pages per network and evict the least recently used page over quota', async () => {
+    const cache = new TransactionCacheService({ maxPartitionBytes: 2500 });
+
+    await cache.cacheTransactionPage('sepolia', SAFE, 0, createPage('sepolia-0'));
+    await cache.cacheTransactionPage('base', SAFE, 0, createPage('base-0'));
+    await cache.cacheTransactionPage('sepolia', SAFE, 1, createPage('sepolia-1'));
+
+    // Reading page 0 makes page 1 the least recently used one
+    expect((await cache.getCachedTransactionPage('sepolia', SAFE, 0))?.cacheKey).toBe('sepolia-0');
+    await cache.cacheTransactionPage('sepolia', SAFE, 2, createPage('sepolia-2'));
+
+    expect(await cache.getCachedTransactionPage('sepolia', SAFE, 1)).toBeNull();
+    expect((await cache.getCachedTransactionPage('sepolia', SAFE, 2))?.cacheKey).toBe('sepolia-2');
+    expect((await cache.getCachedTransactionPage('base', SAFE, 0))?.cacheKey).toBe('base-0');
+
+    const stats = await cache.getCacheStats();
+    expect(stats.persistentEntries).toBe(3);
+    expect(stats.partitions).toBe(2);
+    expect(stats.storageBackend).toBe('memory');
+  });
+
+  it('should keep pages across new blocks until the Safe executes a transaction', async () => {
+    const cache = new TransactionCacheService();
+    await cache.cacheTransactionPage('sepolia', SAFE, 0, createPage('page-0'));
+
+    mockProvider.latestBlock = 105;
+    expect(await cache.getCachedTransactionPage('sepolia', SAFE, 0)).not.toBeNull();
+    expect(mockProvider.getLogs).toHaveBeenCalledWith(expect.objectContaining({ address: SAFE, fromBlock: 101, toBlock: 105 }));
+
+    mockProvider.latestBlock = 110;
+    mockProvider.getLogs.mockResolvedValue([{ blockNumber: 108 }]);
+    expect(await cache.getCachedTransactionPage('sepolia', SAFE, 0)).toBeNull();
+    expect(mockProvider.getLogs).toHaveBeenLastCalledWith(expect.objectContaining({ fromBlock: 106, toBlock: 110 }));
+  });
+
+  it('should split the block range the provider rejects and watch module transactions and received ETH', async () => {
+    const cache = new TransactionCacheService();
+    await cache.cacheTransactionPage('sepolia', SAFE, 0, createPage('page-0'));
+
+    mockProvider.latestBlock = 4100;
+    mockProvider.getLogs.mockImplementation(async ({ fromBlock, toBlock }) => {
+      if (toBlock - fromBlock + 1 > 1000) throw new Error('block range too large');
+      return [];
+    });
+
+    expect(await cache.getCachedTransactionPage('sepolia', SAFE, 0)).not.toBeNull();
+    expect(mockProvider.getLogs).toHaveBeenLastCalledWith(expect.objectContaining({ fromBlock: 3101, toBlock: 4100 }));
+    expect(mockProvider.getLogs.mock.calls[0][0].topics[0]).toHaveLength(5);
+  });
+});
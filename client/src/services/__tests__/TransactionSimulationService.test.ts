@@ -0,0 +1,63 @@
+/**
+ * Tests for TransactionSimulationService
+ */
+
+import { ethers } from 'ethers';
+import { TransactionSimulationService } from '../TransactionSimulationService';
+import { SIMULATE_TX_ACCESSOR_ABI } from '../../contracts/abis';
+
+describe('TransactionSimulationService', () => {
+  const accessorInterface = new ethers.utils.Interface(SIMULATE_TX_ACCESSOR_ABI);
+
+  // Mirrors StorageAccessible.simulateAndRevert: abi.encode(success) ++ abi.encode(length) ++ returndata
+  const buildRevertData = (accessorSuccess: boolean, returnData: string) => ethers.utils.hexConcat([
+    ethers.utils.defaultAbiCoder.encode(['bool'], [accessorSuccess]),
+    ethers.utils.defaultAbiCoder.encode(['uint256'], [ethers.utils.hexDataLength(returnData)]),
+    returnData
+  ]);
+
+  const encodeSimulateResult = (estimate: number, success: boolean, returnData: string) =>
+    accessorInterface.encodeFunctionResult('simulate', [estimate, success, returnData]);
+
+  describe('parseSimulationRevertData', () => {
+    it('should parse a successful simulation', () => {
+      const revertData = buildRevertData(true, encodeSimulateResult(42000, true, '0x'));
+      const result = TransactionSimulationService.parseSimulationRevertData(revertData);
+
+      expect(result.success).toBe(true);
+      expect(result.gasUsed).toBe('42000');
+      expect(result.revertReason).toBeUndefined();
+    });
+
+    it('should decode the revert reason of a failed inner call', () => {
+      const reason = ethers.utils.hexConcat([
+        TransactionSimulationService.ERROR_SELECTOR,
+        ethers.utils.defaultAbiCoder.encode(['string'], ['ERC20: transfer amount exceeds balance'])
+      ]);
+      const revertData = buildRevertData(true, encodeSimulateResult(30000, false, reason));
+      const result = TransactionSimulationService.parseSimulationRevertData(revertData);
+
+      expect(result.success).toBe(false);
+      expect(result.revertReason).toBe('ERC20: transfer amount exceeds balance');
+    });
+
+    it('should reject responses that are not simulateAndRevert output', () => {
+      expect(() => TransactionSimulationService.parseSimulationRevertData('0x')).toThrow('simulateAndRevert');
+    });
+  });
+
+  describe('decodeRevertReason', () => {
+    it('should decode panic codes', () => {
+      const panic = ethers.utils.hexConcat([
+        TransactionSimulationService.PANIC_SELECTOR,
+        ethers.utils.defaultAbiCoder.encode(['uint256'], [0x11])
+      ]);
+
+      expect(TransactionSimulationService.decodeRevertReason(panic)).toContain('Arithmetic overflow');
+    });
+
+    it('should report empty revert data', () => {
+      expect(TransactionSimulationService.decodeRevertReason('0x')).toBe('Transaction reverted without a reason');
+    });
+  });
+});
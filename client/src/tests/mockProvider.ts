@@ -0,0 +1,32 @@
+/**
+ * Mock ethers provider for service tests
+ *
+ * Each method is a jest mock answering from the given handlers, tests pass `provider` to the
+ * service and change the mocks (mockResolvedValue, mockImplementation) between scans.
+ */
+
+import { ethers } from 'ethers';
+
+export interface MockProviderHandlers {
+  latestBlock?: number;
+  getCode?: (address: string, blockTag?: ethers.providers.BlockTag) => string;
+  getLogs?: (filter: ethers.providers.Filter) => ethers.providers.Log[];
+  call?: (tx: { to: string; data: string }) => string;
+}
+
+export const createProvider = ({
+  latestBlock = 0,
+  getCode = () => '0x',
+  getLogs = () => [],
+  call = () => '0x'
+}: MockProviderHandlers = {}) => {
+  const mocks = {
+    getCode: jest.fn(async (address: string, blockTag?: ethers.providers.BlockTag) => getCode(address, blockTag)),
+    getBlockNumber: jest.fn(async () => latestBlock),
+    getLogs: jest.fn(async (filter: ethers.providers.Filter) => getLogs(filter)),
+    call: jest.fn(async (tx: { to: string; data: string }) => call(tx))
+  };
+
+  // _isProvider lets ethers.Contract accept the mock
+  return { ...mocks, provider: { ...mocks, _isProvider: true } as unknown as ethers.providers.Provider };
+};
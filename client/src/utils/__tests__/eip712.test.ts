@@ -0,0 +1,124 @@
+/**
+ * Tests for Safe signature encoding in eip712 utilities
+ */
+
+import { ethers } from 'ethers';
+import {
+  combineSignatures,
+  parseSafeSignature,
+  buildContractSignature,
+  buildApprovedHashSignature,
+  recoverSafeSignatureSigner,
+  toEthSignSignature,
+  computeSafeTxHashBreakdown,
+  createDomainSeparator,
+  createSafeTransactionHash,
+  createSafeTransactionTypedData
+} from '../eip712';
+
+describe('eip712 signatures', () => {
+  const safeTxHash = ethers.utils.keccak256(ethers.utils.toUtf8Bytes('safe-tx'));
+  const wallet = new ethers.Wallet('0x' + '11'.repeat(32));
+  const contractOwner = '0x0000000000000000000000000000000000000abc';
+  const approvingOwner = '0xffffffffffffffffffffffffffffffffffffffff';
+
+  const ecdsaSignature = ethers.utils.joinSignature(wallet._signingKey().signDigest(safeTxHash));
+
+  describe('parseSafeSignature', () => {
+    it('should detect each Safe signature type', () => {
+      expect(parseSafeSignature(ecdsaSignature).type).toBe('ecdsa');
+      expect(parseSafeSignature(buildApprovedHashSignature(approvingOwner)).type).toBe('approved_hash');
+
+      const contract = parseSafeSignature(buildContractSignature(contractOwner, '0xdeadbeef'));
+      expect(contract.type).toBe('contract');
+      expect(contract.owner).toBe(ethers.utils.getAddress(contractOwner));
+      expect(contract.dynamicData).toBe('0xdeadbeef');
+    });
+
+    it('should normalize legacy 0/1 ECDSA v values', () => {
+      const legacy = ecdsaSignature.slice(0, 130) + (parseInt(ecdsaSignature.slice(130), 16) - 27).toString(16).padStart(2, '0');
+      const parsed = parseSafeSignature(legacy);
+
+      expect(parsed.type).toBe('ecdsa');
+      expect(parsed.v).toBeGreaterThanOrEqual(27);
+    });
+  });
+
+  describe('recoverSafeSignatureSigner', () => {
+    it('should recover ECDSA and eth_sign signers', async () => {
+      expect(recoverSafeSignatureSigner(safeTxHash, ecdsaSignature)).toBe(wallet.address);
+
+      const ethSign = await wallet.signMessage(ethers.utils.arrayify(safeTxHash));
+      const safeEthSign = toEthSignSignature(ethSign);
+      expect(parseInt(safeEthSign.slice(130), 16)).toBe(ethers.utils.splitSignature(ethSign).v + 4);
+      expect(parseSafeSignature(safeEthSign).type).toBe('eth_sign');
+      expect(recoverSafeSignatureSigner(safeTxHash, safeEthSign)).toBe(wallet.address);
+    });
+  });
+
+  describe('combineSignatures', () => {
+    it('should sort by signer and append contract data as dynamic parts', () => {
+      const contractData = '0x' + 'ab'.repeat(40);
+      const combined = combineSignatures([
+        { signature: buildApprovedHashSignature(approvingOwner), signer: approvingOwner },
+        { signature: buildContractSignature(contractOwner, contractData), signer: contractOwner },
+        { signature: ecdsaSignature, signer: wallet.address }
+      ]);
+
+      // 3 static parts followed by a single dynamic part (32-byte length + data)
+      expect(ethers.utils.hexDataLength(combined)).toBe(3 * 65 + 32 + 40);
+
+      // Contract owner sorts first, its s value points at the dynamic part
+      const first = ethers.utils.hexDataSlice(combined, 0, 65);
+      expect(parseSafeSignature(first).owner).toBe(ethers.utils.getAddress(contractOwner));
+      expect(ethers.BigNumber.from(ethers.utils.hexDataSlice(combined, 32, 64)).toNumber()).toBe(3 * 65);
+      expect(ethers.BigNumber.from(ethers.utils.hexDataSlice(combined, 195, 227)).toNumber()).toBe(40);
+      expect(ethers.utils.hexDataSlice(combined, 227)).toBe(contractData);
+
+      // Approved hash owner (0xff...) sorts last
+      expect(parseSafeSignature(ethers.utils.hexDataSlice(combined, 130, 195)).type).toBe('approved_hash');
+    });
+
+    it('should reject signatures whose encoded owner does not match the signer', () => {
+      expect(() => combineSignatures([
+        { signature: buildApprovedHashSignature(approvingOwner), signer: wallet.address }
+      ])).toThrow('does not match signer');
+    });
+  });
+});
+
+describe('computeSafeTxHashBreakdown', () => {
+  const domain = { chainId: 11155111, verifyingContract: '0x1234567890123456789012345678901234567890' };
+  const txData = {
+    to: '0x000000000000000000000000000000000000dead',
+    value: '1000',
+    data: '0xa9059cbb',
+    operation: 0,
+    safeTxGas: '0',
+    baseGas: '0',
+    gasPrice: '0',
+    gasToken: ethers.constants.AddressZero,
+    refundReceiver: ethers.constants.AddressZero,
+    nonce: 7
+  };
+
+  it('should match the EIP-712 hashes of the typed data', () => {
+    const breakdown = computeSafeTxHashBreakdown(domain, txData);
+    const typedData = createSafeTransactionTypedData(domain, txData);
+
+    expect(breakdown.domainSeparator).toBe(createDomainSeparator(domain));
+    expect(breakdown.domainSeparator).toBe(ethers.utils._TypedDataEncoder.hashDomain(typedData.domain));
+    expect(breakdown.messageHash).toBe(
+      ethers.utils._TypedDataEncoder.from({ SafeTx: typedData.types.SafeTx }).hash(typedData.message)
+    );
+    expect(breakdown.safeTxHash).toBe(createSafeTransactionHash(domain, txData));
+  });
+
+  it('should change the safeTxHash when any field changes', () => {
+    const original = computeSafeTxHashBreakdown(domain, txData);
+    const tampered = computeSafeTxHashBreakdown(domain, { ...txData, operation: 1 });
+
+    expect(tampered.domainSeparator).toBe(original.domainSeparator);
+    expect(tampered.safeTxHash).not.toBe(original.safeTxHash);
+  });
+});
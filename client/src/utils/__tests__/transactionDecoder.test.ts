@@ -0,0 +1,157 @@
+/**
+ * Tests for TransactionDecoder: ABI provenance, nested call and NFT transfer decoding
+ */
+
+import { ethers } from 'ethers';
+import { TransactionDecoder } from '../transactionDecoder';
+import { TokenService } from '../../services/TokenService';
+import { userAbiService } from '../../services/UserAbiService';
+import { explorerService } from '../../services/ExplorerService';
+import { SAFE_TX_POOL_REGISTRY_ABI } from '../../contracts/abis';
+import { NftService } from '../../services/NftService';
+
+const CONTRACT = '0x8888888888888888888888888888888888888888';
+// Not part of the bundled signature dictionary
+const VAULT_ABI = ['function depositWithTier(uint256 assets, address receiver, uint16 tier)'];
+const vault = new ethers.utils.Interface(VAULT_ABI);
+const DEPOSIT_DATA = vault.encodeFunctionData('depositWithTier', [1000, CONTRACT, 2]);
+const VAULT_JSON_ABI = vault.format(ethers.utils.FormatTypes.json) as string;
+
+jest.mock('../../services/FailoverRpcProvider', () => ({
+  getRpcProvider: () => ({
+    call: async () => '0x'
+  })
+}));
+
+jest.mock('../../services/ExplorerService', () => ({
+  explorerService: {
+    getContractAbi: jest.fn()
+  }
+}));
+
+const getContractAbi = explorerService.getContractAbi as jest.Mock;
+
+describe('TransactionDecoder ABI provenance', () => {
+  const createDecoder = () => new TransactionDecoder(new TokenService({} as any, 'sepolia'), 'sepolia');
+
+  beforeEach(() => {
+    getContractAbi.mockResolvedValue(null);
+    userAbiService.removeAbi('sepolia', CONTRACT);
+  });
+
+  it('should mark calls without any ABI as guessed', async () => {
+    const decoded = await createDecoder().decodeTransactionData(CONTRACT, '0', DEPOSIT_DATA);
+
+    expect(decoded.details.methodName).toBe('Unknown Function');
+    expect(decoded.details.abiSource).toBe('guessed');
+  });
+
+  it('should report partial Sourcify matches', async () => {
+    getContractAbi.mockResolvedValue({
+      abi: JSON.parse(VAULT_JSON_ABI),
+      name: 'Vault',
+      source: 'sourcify',
+      match: 'partial'
+    });
+
+    const decoded = await createDecoder().decodeTransactionData(CONTRACT, '0', DEPOSIT_DATA);
+
+    expect(decoded.details.methodName).toBe('depositWithTier');
+    expect(decoded.details.abiSource).toBe('partial');
+  });
+
+  it('should prefer a user-supplied ABI over explorer lookups', async () => {
+    userAbiService.saveAbi('sepolia', CONTRACT, 'My Vault', JSON.stringify({ contractName: 'Vault', abi: JSON.parse(VAULT_JSON_ABI) }));
+
+    const decoded = await createDecoder().decodeTransactionData(CONTRACT, '0', DEPOSIT_DATA);
+
+    expect(decoded.details.methodName).toBe('depositWithTier');
+    expect(decoded.details.contractName).toBe('My Vault');
+    expect(decoded.details.abiSource).toBe('user');
+    expect(getContractAbi).not.toHaveBeenCalled();
+  });
+
+  it('should reject ABI input that is not a valid ABI', () => {
+    expect(() => userAbiService.saveAbi('sepolia', CONTRACT, '', '{"abi": []}')).toThrow('Expected an ABI array');
+    expect(() => userAbiService.saveAbi('sepolia', 'not-an-address', '', VAULT_JSON_ABI)).toThrow('Invalid contract address');
+  });
+});
+
+describe('TransactionDecoder call tree', () => {
+  const SAFE = '0x5555555555555555555555555555555555555555';
+  const REGISTRY = '0x6666666666666666666666666666666666666666';
+  const MULTI_SEND = '0x7777777777777777777777777777777777777777';
+  const RECIPIENT = '0x9999999999999999999999999999999999999999';
+
+  // Packed by hand, MultiSendService only builds call-only batches
+  const packCall = (operation: number, to: string, value: ethers.BigNumberish, data: string) =>
+    ethers.utils.solidityPack(
+      ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+      [operation, to, value, ethers.utils.hexDataLength(data), data]
+    );
+  const batchData = new ethers.utils.Interface(['function multiSend(bytes transactions)']).encodeFunctionData('multiSend', [
+    ethers.utils.hexConcat([
+      packCall(0, RECIPIENT, ethers.utils.parseEther('1'), '0x'),
+      packCall(1, CONTRACT, 0, DEPOSIT_DATA)
+    ])
+  ]);
+  const proposeData = new ethers.utils.Interface(SAFE_TX_POOL_REGISTRY_ABI).encodeFunctionData('proposeTx', [
+    ethers.utils.id('proposal'), SAFE, MULTI_SEND, 0, batchData, 1, 7
+  ]);
+
+  beforeEach(() => {
+    getContractAbi.mockResolvedValue(null);
+  });
+
+  it('should decode a proposed batch recursively with operations', async () => {
+    const decoder = new TransactionDecoder(new TokenService({} as any, 'sepolia'), 'sepolia');
+    const decoded = await decoder.decodeTransactionData(REGISTRY, '0', proposeData);
+
+    expect(decoded.details.methodName).toBe('proposeTx');
+    expect(decoded.description).toBe('Propose Safe transaction: 📦 Batch of 2 calls');
+
+    const [batch] = decoded.details.innerCalls!;
+    expect(batch).toMatchObject({ to: MULTI_SEND, operation: 1 });
+    expect(batch.decoded.details.methodName).toBe('multiSend');
+
+    const [transfer, deposit] = batch.decoded.details.innerCalls!;
+    expect(transfer).toMatchObject({ to: RECIPIENT, operation: 0 });
+    expect(transfer.decoded.description).toBe('Send 1.0 ETH');
+    expect(deposit).toMatchObject({ to: CONTRACT, operation: 1 });
+    expect(deposit.decoded.details.abiSource).toBe('guessed');
+  });
+
+  it('should stop decoding nested calls at the maximum depth', async () => {
+    const decoder = new TransactionDecoder(new TokenService({} as any, 'sepolia'), 'sepolia', 1);
+    const decoded = await decoder.decodeTransactionData(REGISTRY, '0', proposeData);
+
+    const [batch] = decoded.details.innerCalls!;
+    expect(batch.decoded.details.innerCalls).toBeUndefined();
+    expect(batch.decoded.details.innerCallsTruncated).toBe(true);
+  });
+});
+
+describe('TransactionDecoder NFT transfers', () => {
+  const SAFE = '0x5555555555555555555555555555555555555555';
+  const COLLECTION = '0x1111111111111111111111111111111111111111';
+  const RECIPIENT = '0x9999999999999999999999999999999999999999';
+
+  it('should decode ERC-721 and ERC-1155 transfers with their token IDs', async () => {
+    const decoder = new TransactionDecoder(new TokenService({} as any, 'sepolia'), 'sepolia');
+
+    const erc721Call = NftService.createTransferCall(
+      { contractAddress: COLLECTION, tokenId: '42', standard: 'erc721' }, SAFE, RECIPIENT
+    );
+    const erc721 = await decoder.decodeTransactionData(COLLECTION, '0', erc721Call.data);
+    expect(erc721.type).toBe('NFT_TRANSFER');
+    expect(erc721.description).toBe('Transfer NFT #42');
+    expect(erc721.details.recipient).toBe(RECIPIENT);
+
+    const erc1155Call = NftService.createTransferCall(
+      { contractAddress: COLLECTION, tokenId: '3', standard: 'erc1155' }, SAFE, RECIPIENT, '5'
+    );
+    const erc1155 = await decoder.decodeTransactionData(COLLECTION, '0', erc1155Call.data);
+    expect(erc1155.description).toBe('Transfer NFT 5 × #3');
+    expect(erc1155.details.nft).toMatchObject({ standard: 'erc1155', tokenIds: ['3'], amounts: ['5'] });
+  });
+});
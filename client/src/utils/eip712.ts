@@ -31,6 +31,22 @@ export const EIP712_DOMAIN_TYPEHASH = ethers.utils.keccak256(
   ethers.utils.toUtf8Bytes('EIP712Domain(uint256 chainId,address verifyingContract)')
 );
 
+// EIP-712 type definitions for Safe messages (see CompatibilityFallbackHandler)
+export const SAFE_MSG_TYPEHASH = ethers.utils.keccak256(
+  ethers.utils.toUtf8Bytes('SafeMessage(bytes message)')
+);
+
+// EIP-712 typed data payload as sent by dApps through eth_signTypedData_v4
+export interface EIP712TypedDataPayload {
+  domain: ethers.TypedDataDomain;
+  types: Record<string, Array<{ name: string; type: string }>>;
+  message: Record<string, any>;
+  primaryType?: string;
+}
+
+// Content of a Safe message: plain text / hex bytes (EIP-191) or typed data (EIP-712)
+export type SafeMessageContent = string | EIP712TypedDataPayload;
+
 /**
  * Create EIP-712 domain separator for Safe
  */
@@ -54,6 +70,49 @@ function normalizeAddress(address: string): string {
   }
 }
 
+/**
+ * Hash the SafeTx struct (the EIP-712 message hash of a Safe transaction)
+ */
+export function createSafeTxStructHash(txData: SafeTransactionData): string {
+  return ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(
+      ['bytes32', 'address', 'uint256', 'bytes32', 'uint8', 'uint256', 'uint256', 'uint256', 'address', 'address', 'uint256'],
+      [
+        SAFE_TX_TYPEHASH,
+        normalizeAddress(txData.to),
+        txData.value,
+        ethers.utils.keccak256(txData.data),
+        txData.operation,
+        txData.safeTxGas,
+        txData.baseGas,
+        txData.gasPrice,
+        normalizeAddress(txData.gasToken),
+        normalizeAddress(txData.refundReceiver),
+        txData.nonce
+      ]
+    )
+  );
+}
+
+/**
+ * Encode Safe transaction data (0x19 0x01 || domainSeparator || safeTxStructHash)
+ * This is the pre-image of the Safe transaction hash, passed to legacy EIP-1271 validators
+ */
+export function encodeSafeTransactionData(
+  domain: SafeDomain,
+  txData: SafeTransactionData
+): string {
+  const domainSeparator = createDomainSeparator({
+    chainId: domain.chainId,
+    verifyingContract: normalizeAddress(domain.verifyingContract)
+  });
+
+  return ethers.utils.solidityPack(
+    ['bytes1', 'bytes1', 'bytes32', 'bytes32'],
+    ['0x19', '0x01', domainSeparator, createSafeTxStructHash(txData)]
+  );
+}
+
 /**
  * Create Safe transaction hash for EIP-712 signing with address validation
  */
@@ -62,52 +121,39 @@ export function createSafeTransactionHash(
   txData: SafeTransactionData
 ): string {
   try {
-    // Validate and normalize addresses
-    const normalizedDomain = {
-      chainId: domain.chainId,
-      verifyingContract: normalizeAddress(domain.verifyingContract)
-    };
-
-    const normalizedTxData = {
-      ...txData,
-      to: normalizeAddress(txData.to),
-      gasToken: normalizeAddress(txData.gasToken),
-      refundReceiver: normalizeAddress(txData.refundReceiver)
-    };
-
-    const domainSeparator = createDomainSeparator(normalizedDomain);
-
-    const safeTxHash = ethers.utils.keccak256(
-      ethers.utils.defaultAbiCoder.encode(
-        ['bytes32', 'address', 'uint256', 'bytes32', 'uint8', 'uint256', 'uint256', 'uint256', 'address', 'address', 'uint256'],
-        [
-          SAFE_TX_TYPEHASH,
-          normalizedTxData.to,
-          normalizedTxData.value,
-          ethers.utils.keccak256(normalizedTxData.data),
-          normalizedTxData.operation,
-          normalizedTxData.safeTxGas,
-          normalizedTxData.baseGas,
-          normalizedTxData.gasPrice,
-          normalizedTxData.gasToken,
-          normalizedTxData.refundReceiver,
-          normalizedTxData.nonce
-        ]
-      )
-    );
-
-    return ethers.utils.keccak256(
-      ethers.utils.solidityPack(
-        ['bytes1', 'bytes1', 'bytes32', 'bytes32'],
-        ['0x19', '0x01', domainSeparator, safeTxHash]
-      )
-    );
+    return ethers.utils.keccak256(encodeSafeTransactionData(domain, txData));
   } catch (error: any) {
     console.error('❌ Error creating Safe transaction hash:', error);
     throw new Error(`Failed to create Safe transaction hash: ${error.message}`);
   }
 }
 
+// Intermediate hashes of a Safe transaction, as displayed by hardware wallets
+export interface SafeTxHashBreakdown {
+  domainSeparator: string;
+  messageHash: string;
+  safeTxHash: string;
+}
+
+/**
+ * Recompute the domain separator, SafeTx message hash and final safeTxHash from the raw fields
+ */
+export function computeSafeTxHashBreakdown(
+  domain: SafeDomain,
+  txData: SafeTransactionData
+): SafeTxHashBreakdown {
+  const domainSeparator = createDomainSeparator({
+    chainId: domain.chainId,
+    verifyingContract: normalizeAddress(domain.verifyingContract)
+  });
+
+  return {
+    domainSeparator,
+    messageHash: createSafeTxStructHash(txData),
+    safeTxHash: createSafeTransactionHash(domain, txData)
+  };
+}
+
 /**
  * Create EIP-712 typed data structure for Safe transaction with address validation
  */
@@ -313,9 +359,10 @@ export async function signSafeTransaction(
       const hash = createSafeTransactionHash(domain, txData);
       console.log('📋 Transaction hash:', hash);
 
+      // signMessage signs the eth_sign prefixed hash, the Safe needs the eth_sign v value for it
       const signature = await signer.signMessage(ethers.utils.arrayify(hash));
       console.log('✅ EIP-712 signing successful (method 3)');
-      return signature;
+      return toEthSignSignature(signature);
     } catch (method3Error: any) {
       console.log('❌ Method 3 failed:', method3Error.message || method3Error);
       throw method3Error;
@@ -382,10 +429,150 @@ export function parseSignature(signature: string): { v: number; r: string; s: st
   };
 }
 
+/**
+ * Safe signature types, identified by the v byte of the 65-byte static part
+ * - ecdsa: v = 27/28, EIP-712 signature over the Safe transaction hash
+ * - eth_sign: v > 30, signature over the eth_sign prefixed hash (v - 4 is the real v)
+ * - contract: v = 0, EIP-1271 signature, r = owner contract, s = offset of the dynamic part
+ * - approved_hash: v = 1, r = owner that called approveHash (or the executing owner)
+ */
+export type SafeSignatureType = 'ecdsa' | 'eth_sign' | 'contract' | 'approved_hash';
+
+export interface ParsedSafeSignature {
+  type: SafeSignatureType;
+  r: string;
+  s: string;
+  v: number;
+  owner?: string; // Encoded owner for contract and approved-hash signatures
+  dynamicData?: string; // EIP-1271 signature bytes for contract signatures
+}
+
+/**
+ * Extract an address left-padded into a 32-byte word, or null if the word is not a padded address
+ */
+function addressFromWord(word: string): string | null {
+  const hex = word.replace(/^0x/, '').padStart(64, '0');
+  if (!/^0{24}/.test(hex)) {
+    return null;
+  }
+  return ethers.utils.getAddress('0x' + hex.slice(24));
+}
+
+/**
+ * Build a standalone EIP-1271 contract signature for an owner contract
+ * The static part points to the dynamic part appended right after it (offset 65)
+ */
+export function buildContractSignature(owner: string, signatureData: string): string {
+  const data = signatureData && signatureData !== '0x' ? signatureData : '0x';
+
+  return ethers.utils.hexConcat([
+    ethers.utils.hexZeroPad(ethers.utils.getAddress(owner), 32),
+    ethers.utils.hexZeroPad(ethers.utils.hexlify(65), 32),
+    '0x00',
+    ethers.utils.hexZeroPad(ethers.utils.hexlify(ethers.utils.hexDataLength(data)), 32),
+    data
+  ]);
+}
+
+/**
+ * Build a pre-approved hash signature for an owner (see Safe.approveHash)
+ */
+export function buildApprovedHashSignature(owner: string): string {
+  return ethers.utils.hexConcat([
+    ethers.utils.hexZeroPad(ethers.utils.getAddress(owner), 32),
+    ethers.constants.HashZero,
+    '0x01'
+  ]);
+}
+
+/**
+ * Mark a signature over the eth_sign prefixed Safe transaction hash as an eth_sign Safe signature
+ * The Safe contract expects v + 4 (31/32) for these, wallets return the plain ECDSA v (27/28)
+ */
+export function toEthSignSignature(signature: string): string {
+  const { r, s, v } = ethers.utils.splitSignature(signature);
+  return ethers.utils.hexConcat([r, s, ethers.utils.hexlify(v + 4)]);
+}
+
+/**
+ * Parse a single Safe signature into its type and components
+ * Contract signatures may carry their dynamic part appended after the static part
+ */
+export function parseSafeSignature(signature: string): ParsedSafeSignature {
+  const normalized = signature.startsWith('0x') ? signature : '0x' + signature;
+  if (!ethers.utils.isHexString(normalized)) {
+    throw new Error('Signature must be a hex string');
+  }
+
+  const length = ethers.utils.hexDataLength(normalized);
+  if (length < 65) {
+    throw new Error(`Invalid signature length: ${length} bytes, expected at least 65`);
+  }
+
+  const r = ethers.utils.hexDataSlice(normalized, 0, 32);
+  const s = ethers.utils.hexDataSlice(normalized, 32, 64);
+  const v = parseInt(normalized.slice(130, 132), 16);
+  const owner = addressFromWord(r);
+
+  // v = 0/1 with an address in r are Safe-specific; otherwise they are legacy ECDSA v values
+  if (v === 0 && owner) {
+    let dynamicData = '0x';
+    if (length > 65) {
+      const offset = ethers.BigNumber.from(s).toNumber();
+      if (offset < 65 || offset + 32 > length) {
+        throw new Error('Invalid contract signature: dynamic part offset out of bounds');
+      }
+      const dataLength = ethers.BigNumber.from(ethers.utils.hexDataSlice(normalized, offset, offset + 32)).toNumber();
+      if (offset + 32 + dataLength > length) {
+        throw new Error('Invalid contract signature: dynamic part length out of bounds');
+      }
+      dynamicData = ethers.utils.hexDataSlice(normalized, offset + 32, offset + 32 + dataLength);
+    }
+    return { type: 'contract', r, s, v, owner, dynamicData };
+  }
+
+  if (length !== 65) {
+    throw new Error(`Invalid signature length: ${length} bytes, expected 65`);
+  }
+
+  if (v === 1 && owner) {
+    return { type: 'approved_hash', r, s, v, owner };
+  }
+
+  if (v > 30) {
+    return { type: 'eth_sign', r, s, v };
+  }
+
+  // Keep signature in ECDSA format (v=27/28) - Safe contract expects this!
+  // Some wallets use 0/1 instead of 27/28
+  return { type: 'ecdsa', r, s, v: v < 27 ? v + 27 : v };
+}
+
+/**
+ * Recover the signer of an ECDSA or eth_sign Safe signature
+ * Returns null for contract and approved-hash signatures, which carry their owner explicitly
+ */
+export function recoverSafeSignatureSigner(safeTxHash: string, signature: string): string | null {
+  const parsed = parseSafeSignature(signature);
+
+  switch (parsed.type) {
+    case 'ecdsa':
+      return ethers.utils.recoverAddress(safeTxHash, { r: parsed.r, s: parsed.s, v: parsed.v });
+    case 'eth_sign':
+      return ethers.utils.recoverAddress(
+        ethers.utils.hashMessage(ethers.utils.arrayify(safeTxHash)),
+        { r: parsed.r, s: parsed.s, v: parsed.v - 4 }
+      );
+    default:
+      return null;
+  }
+}
+
 /**
  * Combine multiple signatures for Safe execution
  * Signatures must be sorted by signer address (ascending)
- * Adjusts v values for Safe contract compatibility
+ * Static 65-byte parts come first; contract signature data is appended as dynamic parts
+ * with the s value of each contract signature pointing to its offset
  */
 export function combineSignatures(signatures: Array<{ signature: string; signer: string }>): string {
   console.log('🔐 Combining signatures for Safe execution:', signatures);
@@ -395,63 +582,59 @@ export function combineSignatures(signatures: Array<{ signature: string; signer:
     throw new Error('No signatures provided for combination');
   }
 
-  // Sort signatures by signer address (required by Safe)
-  const sortedSignatures = signatures.sort((a, b) =>
-    a.signer.toLowerCase().localeCompare(b.signer.toLowerCase())
-  );
-
-  console.log('🔐 Sorted signatures by signer address:', sortedSignatures);
-
-  let combinedSignatures = '0x';
-
-  for (const { signature, signer } of sortedSignatures) {
-    console.log(`🔐 Processing signature for signer ${signer}:`, signature);
-
-    let adjustedSignature = signature;
-
-    // Ensure signature has 0x prefix
-    if (!adjustedSignature.startsWith('0x')) {
-      adjustedSignature = '0x' + adjustedSignature;
+  const parsedSignatures = signatures.map(({ signature, signer }) => {
+    let parsed: ParsedSafeSignature;
+    try {
+      parsed = parseSafeSignature(signature);
+    } catch (error: any) {
+      console.error(`❌ Invalid signature for ${signer}:`, error.message);
+      throw new Error(`Invalid signature for ${signer}: ${error.message}`);
     }
 
-    // Validate signature length (should be 132 chars: 0x + 64 + 64 + 2)
-    if (adjustedSignature.length !== 132) {
-      console.error(`❌ Invalid signature length for ${signer}: ${adjustedSignature.length}, expected 132`);
-      throw new Error(`Invalid signature length for ${signer}: ${adjustedSignature.length}, expected 132`);
+    // Contract and approved-hash signatures are checked against the owner encoded in r
+    if (parsed.owner && parsed.owner.toLowerCase() !== signer.toLowerCase()) {
+      throw new Error(`Signature owner ${parsed.owner} does not match signer ${signer}`);
     }
 
-    console.log(`🔐 Processing signature for ${signer}: ${adjustedSignature}`);
-
-    // Parse signature components
-    const r = adjustedSignature.slice(2, 66);
-    const s = adjustedSignature.slice(66, 130);
-    const v = parseInt(adjustedSignature.slice(130, 132), 16);
-
-    console.log(`🔐 Signature components for ${signer}: r=${r}, s=${s}, v=${v}`);
-
-    // Keep signature in ECDSA format (v=27/28) - Safe contract expects this!
-    let adjustedV = v;
-    if (v === 31) {
-      adjustedV = 27; // Convert Safe format back to ECDSA
-    } else if (v === 32) {
-      adjustedV = 28; // Convert Safe format back to ECDSA
-    } else if (v === 0) {
-      adjustedV = 27; // Some wallets use 0 instead of 27
-    } else if (v === 1) {
-      adjustedV = 28; // Some wallets use 1 instead of 28
-    }
-    // If already 27/28, keep as-is
+    return { parsed, signer: parsed.owner || signer };
+  });
 
-    // Reconstruct signature with adjusted v value
-    const adjustedVHex = adjustedV.toString(16).padStart(2, '0');
-    const finalSignature = r + s + adjustedVHex;
+  // Sort signatures by signer address (required by Safe)
+  parsedSignatures.sort((a, b) => {
+    const signerA = a.signer.toLowerCase();
+    const signerB = b.signer.toLowerCase();
+    return signerA < signerB ? -1 : signerA > signerB ? 1 : 0;
+  });
+
+  console.log('🔐 Sorted signatures by signer address:', parsedSignatures.map(({ signer }) => signer));
+
+  const staticParts: string[] = [];
+  const dynamicParts: string[] = [];
+  let dynamicOffset = parsedSignatures.length * 65;
+
+  for (const { parsed, signer } of parsedSignatures) {
+    let s = parsed.s;
+
+    if (parsed.type === 'contract') {
+      const data = parsed.dynamicData || '0x';
+      const dynamicPart = ethers.utils.hexConcat([
+        ethers.utils.hexZeroPad(ethers.utils.hexlify(ethers.utils.hexDataLength(data)), 32),
+        data
+      ]);
+
+      s = ethers.utils.hexZeroPad(ethers.utils.hexlify(dynamicOffset), 32);
+      dynamicParts.push(dynamicPart);
+      dynamicOffset += ethers.utils.hexDataLength(dynamicPart);
+    }
 
-    console.log(`🔐 Converted signature for ${signer}: v=${v}->${adjustedV}, final=${finalSignature}`);
+    const vHex = '0x' + parsed.v.toString(16).padStart(2, '0');
+    staticParts.push(ethers.utils.hexConcat([parsed.r, s, vHex]));
 
-    // Append to combined signatures
-    combinedSignatures += finalSignature;
+    console.log(`🔐 Encoded ${parsed.type} signature for ${signer}: v=${parsed.v}`);
   }
 
+  const combinedSignatures = ethers.utils.hexConcat([...staticParts, ...dynamicParts]);
+
   console.log('🔐 Final combined signatures for Safe execution:', combinedSignatures);
   return combinedSignatures;
 }
@@ -471,3 +654,105 @@ export function createSafeContractTransactionHash(
   
   return createSafeTransactionHash(domain, txData);
 }
+
+/**
+ * Hash the content of a Safe message the way the requesting dApp verifies it
+ * Text and hex bytes use the EIP-191 personal message hash, typed data uses the EIP-712 hash
+ * The result is the hash passed to isValidSignature(bytes32,bytes)
+ */
+export function hashSafeMessageContent(content: SafeMessageContent): string {
+  if (typeof content === 'string') {
+    return ethers.utils.isHexString(content)
+      ? ethers.utils.hashMessage(ethers.utils.arrayify(content))
+      : ethers.utils.hashMessage(content);
+  }
+
+  // EIP712Domain is derived from the domain by the encoder and must not be passed as a type
+  const { EIP712Domain, ...types } = content.types;
+  return ethers.utils._TypedDataEncoder.hash(content.domain, types, content.message);
+}
+
+/**
+ * Encode SafeMessage data (0x19 0x01 || domainSeparator || safeMessageStructHash)
+ * The message bytes are the 32-byte content hash, matching encodeMessageDataForSafe(safe, abi.encode(hash))
+ * This is the pre-image of the SafeMessage hash, passed to legacy EIP-1271 validators
+ */
+export function encodeSafeMessageData(domain: SafeDomain, messageHash: string): string {
+  const domainSeparator = createDomainSeparator({
+    chainId: domain.chainId,
+    verifyingContract: normalizeAddress(domain.verifyingContract)
+  });
+
+  const safeMessageStructHash = ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(
+      ['bytes32', 'bytes32'],
+      [SAFE_MSG_TYPEHASH, ethers.utils.keccak256(messageHash)]
+    )
+  );
+
+  return ethers.utils.solidityPack(
+    ['bytes1', 'bytes1', 'bytes32', 'bytes32'],
+    ['0x19', '0x01', domainSeparator, safeMessageStructHash]
+  );
+}
+
+/**
+ * Create the SafeMessage hash signed by the owners, matching getMessageHashForSafe(safe, abi.encode(hash))
+ */
+export function createSafeMessageHash(domain: SafeDomain, messageHash: string): string {
+  return ethers.utils.keccak256(encodeSafeMessageData(domain, messageHash));
+}
+
+/**
+ * Create EIP-712 typed data structure for a SafeMessage
+ */
+export function createSafeMessageTypedData(domain: SafeDomain, messageHash: string) {
+  return {
+    types: {
+      EIP712Domain: [
+        { name: 'chainId', type: 'uint256' },
+        { name: 'verifyingContract', type: 'address' }
+      ],
+      SafeMessage: [
+        { name: 'message', type: 'bytes' }
+      ]
+    },
+    primaryType: 'SafeMessage',
+    domain: {
+      chainId: domain.chainId,
+      verifyingContract: normalizeAddress(domain.verifyingContract)
+    },
+    message: {
+      message: messageHash
+    }
+  };
+}
+
+/**
+ * Sign a SafeMessage using EIP-712
+ */
+export async function signSafeMessage(
+  signer: ethers.Signer,
+  domain: SafeDomain,
+  messageHash: string
+): Promise<string> {
+  console.log('🔐 Starting EIP-712 Safe message signing...', { domain, messageHash });
+
+  if (!('_signTypedData' in signer)) {
+    throw new Error('Connected wallet does not support EIP-712 typed data signing');
+  }
+
+  const typedData = createSafeMessageTypedData(domain, messageHash);
+  const signature: string = await (signer as any)._signTypedData(
+    typedData.domain,
+    { SafeMessage: typedData.types.SafeMessage },
+    typedData.message
+  );
+
+  // Some wallets use 0/1 instead of 27/28
+  const parsed = parseSafeSignature(signature);
+  const vHex = '0x' + parsed.v.toString(16).padStart(2, '0');
+
+  console.log('✅ Safe message signed');
+  return ethers.utils.hexConcat([parsed.r, parsed.s, vHex]);
+}
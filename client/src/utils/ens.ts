@@ -1,25 +1,23 @@
 import { ethers } from 'ethers';
+import { DEFAULT_NETWORK, getChainConfig } from '../config/chains';
+import { getRpcProvider } from '../services/FailoverRpcProvider';
 
 /**
  * Get an Ethereum provider based on the network
- * @param network The network name (ethereum, sepolia, arbitrum)
+ * @param network The network name (see config/chains.ts)
  * @returns An ethers.js provider for the specified network
  */
 export const getProviderForNetwork = (network: string): ethers.providers.Provider => {
-  // Use environment variables with fallbacks
-  // const INFURA_KEY = process.env.REACT_APP_INFURA_KEY || 'YOUR_INFURA_KEY';
-  const ALCHEMY_KEY = process.env.REACT_APP_ALCHEMY_KEY || 'YOUR_ALCHEMY_KEY';
+  return getRpcProvider(network);
+};
 
-  switch(network.toLowerCase()) {
-    case 'arbitrum':
-      return new ethers.providers.JsonRpcProvider('https://arb1.arbitrum.io/rpc');
-    case 'sepolia':
-      return new ethers.providers.JsonRpcProvider(`https://eth-sepolia.g.alchemy.com/v2/${ALCHEMY_KEY}`);
-    case 'ethereum':
-    default:
-      // Use Alchemy for bette  r ENS resolution
-      return new ethers.providers.AlchemyProvider('mainnet', ALCHEMY_KEY);
-  }
+/**
+ * Get the provider used for ENS lookups
+ * ENS is only deployed on Ethereum mainnet and Sepolia, other networks resolve names through mainnet
+ */
+const getEnsProvider = (network: string): ethers.providers.Provider => {
+  const chain = getChainConfig(network);
+  return getProviderForNetwork(chain?.ensSupported ? chain.network : DEFAULT_NETWORK);
 };
 
 /**
@@ -49,7 +47,7 @@ export const resolveAddressToEns = async (
   }
 
   try {
-    const provider = getProviderForNetwork(network);
+    const provider = getEnsProvider(network);
     
     // Perform reverse lookup
     const ensName = await provider.lookupAddress(normalizedAddress);
@@ -79,7 +77,7 @@ export const resolveEnsToAddress = async (
   if (!ensName) return null;
   
   try {
-    const provider = getProviderForNetwork(network);
+    const provider = getEnsProvider(network);
     
     // Resolve ENS name to address
     const address = await provider.resolveName(ensName);
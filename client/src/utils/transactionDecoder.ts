@@ -3,11 +3,27 @@ import { TokenService } from '../services/TokenService';
 import {
   getSafeTxPoolRegistryAddress,
   SAFE_TX_POOL_REGISTRY_ABI,
-  SAFE_ABI
+  SAFE_ABI,
+  ERC721_ABI,
+  ERC1155_ABI
 } from '../contracts/abis';
+import { MultiSendService } from '../services/MultiSendService';
+import { getSupportedNetworks } from '../config/chains';
+import { getRpcProvider } from '../services/FailoverRpcProvider';
+import { explorerService } from '../services/ExplorerService';
+import { userAbiService } from '../services/UserAbiService';
+import { signatureDictionaryService } from '../services/SignatureDictionaryService';
+import { NftService, NftStandard } from '../services/NftService';
+
+/**
+ * Where the ABI used for decoding came from, from most to least trustworthy:
+ * verified (full match on an explorer or bundled with the app), partial (Sourcify partial match),
+ * user (pasted or uploaded by the user) and guessed (selector lookup or raw parameter guessing)
+ */
+export type AbiSource = 'verified' | 'partial' | 'user' | 'guessed';
 
 export interface DecodedTransactionData {
-  type: 'ETH_TRANSFER' | 'ERC20_TRANSFER' | 'CONTRACT_CALL' | 'UNKNOWN';
+  type: 'ETH_TRANSFER' | 'ERC20_TRANSFER' | 'NFT_TRANSFER' | 'CONTRACT_CALL' | 'UNKNOWN';
   description: string;
   details: {
     token?: {
@@ -16,6 +32,13 @@ export interface DecodedTransactionData {
       name: string;
       decimals: number;
     };
+    nft?: {
+      standard: NftStandard;
+      contractAddress: string;
+      collectionName?: string;
+      tokenIds: string[];
+      amounts: string[]; // Always 1 per token for ERC-721
+    };
     amount?: string;
     formattedAmount?: string;
     recipient?: string;
@@ -35,43 +58,59 @@ export interface DecodedTransactionData {
     gasEstimate?: string;
     riskLevel?: string;
     functionType?: string;
+    abiSource?: AbiSource;
+    // Calls wrapped by this one (MultiSend entries, execTransaction or proposeTx payload), decoded recursively
+    innerCalls?: DecodedInnerCall[];
+    // The payload wraps further calls that were not decoded because the maximum depth was reached
+    innerCallsTruncated?: boolean;
   };
 }
 
-interface EtherscanABIResponse {
-  status: string;
-  message: string;
-  result: string;
+/**
+ * A node of the decoding tree, its own inner calls are in decoded.details.innerCalls
+ */
+export interface DecodedInnerCall {
+  to: string;
+  value: string;
+  data: string;
+  operation: number; // 0 = CALL, 1 = DELEGATECALL
+  decoded: DecodedTransactionData;
 }
 
 interface ContractInfo {
   abi: any[];
   name: string;
+  source: AbiSource;
 }
 
 export class TransactionDecoder {
+  static readonly DEFAULT_MAX_DEPTH = 4;
+  private static readonly EXEC_TRANSACTION_SELECTOR = '0x6a761202';
+  private static readonly registryInterface = new ethers.utils.Interface(SAFE_TX_POOL_REGISTRY_ABI);
+  private static readonly PROPOSE_TX_SELECTOR = TransactionDecoder.registryInterface.getSighash('proposeTx');
+
+  // NFT transfer selectors, transferFrom is shared with ERC-20 and told apart with ERC-165
+  private static readonly NFT_TRANSFER_METHODS: Record<string, { standard: NftStandard; signature: string }> = {
+    '0x42842e0e': { standard: 'erc721', signature: 'safeTransferFrom(address,address,uint256)' },
+    '0xb88d4fde': { standard: 'erc721', signature: 'safeTransferFrom(address,address,uint256,bytes)' },
+    '0xf242432a': { standard: 'erc1155', signature: 'safeTransferFrom(address,address,uint256,uint256,bytes)' },
+    '0x2eb2c2d6': { standard: 'erc1155', signature: 'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)' }
+  };
+
   private tokenService: TokenService;
+  private nftService: NftService;
   private abiCache: Map<string, ContractInfo> = new Map();
   private network: string;
-
-  constructor(tokenService: TokenService, network: string = 'ethereum') {
-    this.tokenService = tokenService;
-    this.network = network;
-  }
+  private maxDepth: number;
 
   /**
-   * Get Etherscan API URL for the current network
+   * @param maxDepth How many levels of nested payloads (MultiSend, execTransaction, proposeTx) to decode
    */
-  private getEtherscanApiUrl(): string {
-    switch (this.network) {
-      case 'sepolia':
-        return 'https://api-sepolia.etherscan.io/api';
-      case 'goerli':
-        return 'https://api-goerli.etherscan.io/api';
-      case 'ethereum':
-      default:
-        return 'https://api.etherscan.io/api';
-    }
+  constructor(tokenService: TokenService, network: string = 'ethereum', maxDepth: number = TransactionDecoder.DEFAULT_MAX_DEPTH) {
+    this.tokenService = tokenService;
+    this.nftService = new NftService(getRpcProvider(network), network);
+    this.network = network;
+    this.maxDepth = maxDepth;
   }
 
   /**
@@ -86,9 +125,8 @@ export class TransactionDecoder {
 
     // Try multiple strategies in order
     const strategies = [
-      () => this.fetchFromEtherscan(contractAddress),
-      () => this.fetchFromProxy(contractAddress),
-      () => this.fetchFromAlternativeAPIs(contractAddress)
+      () => this.fetchFromExplorers(contractAddress),
+      () => this.fetchFromProxy(contractAddress)
     ];
 
     for (const strategy of strategies) {
@@ -111,56 +149,22 @@ export class TransactionDecoder {
   }
 
   /**
-   * Fetch ABI from Etherscan API
+   * Fetch verified ABI from the configured block explorers (Etherscan, Blockscout, Sourcify)
    */
-  private async fetchFromEtherscan(contractAddress: string): Promise<ContractInfo | null> {
-    try {
-      console.log(`🔍 Fetching ABI from Etherscan for ${contractAddress}`);
-      const apiUrl = this.getEtherscanApiUrl();
-      const url = `${apiUrl}?module=contract&action=getsourcecode&address=${contractAddress}&apikey=YourApiKeyToken`;
-      console.log('  API URL:', url);
-
-      const response = await fetch(url, {
-        timeout: 5000,
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'Vito-Interface/1.0'
-        }
-      } as any);
-
-      if (!response.ok) {
-        console.log(`❌ HTTP error: ${response.status}`);
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      const data: EtherscanABIResponse = await response.json();
-      console.log('  Etherscan response status:', data.status);
-      console.log('  Etherscan response message:', data.message);
-
-      if (data.status === '1' && data.result && Array.isArray(JSON.parse(data.result))) {
-        const result = JSON.parse(data.result)[0];
-        console.log('  Contract name:', result.ContractName);
-        console.log('  ABI available:', result.ABI && result.ABI !== 'Contract source code not verified');
-
-        if (result.ABI && result.ABI !== 'Contract source code not verified') {
-          const abi = JSON.parse(result.ABI);
-          console.log(`✅ ABI fetched successfully for ${result.ContractName}, ${abi.length} functions`);
-          return {
-            abi,
-            name: result.ContractName || 'Unknown Contract'
-          };
-        } else {
-          console.log('❌ Contract not verified or ABI not available');
-        }
-      } else {
-        console.log('❌ Invalid Etherscan response format');
-      }
-
+  private async fetchFromExplorers(contractAddress: string): Promise<ContractInfo | null> {
+    console.log(`🔍 Fetching ABI from block explorers for ${contractAddress}`);
+    const result = await explorerService.getContractAbi(this.network, contractAddress);
+    if (!result) {
+      console.log('❌ Contract not verified on any explorer');
       return null;
-    } catch (error) {
-      console.log('❌ Error fetching from Etherscan:', error);
-      throw error;
     }
+
+    console.log(`✅ ABI fetched from ${result.source} (${result.match} match) for ${result.name}, ${result.abi.length} entries`);
+    return {
+      abi: result.abi,
+      name: result.name,
+      source: result.match === 'full' ? 'verified' : 'partial'
+    };
   }
 
   /**
@@ -175,7 +179,7 @@ export class TransactionDecoder {
         '0x7050c9e0', // target() - Some proxies
       ];
 
-      const provider = new ethers.providers.JsonRpcProvider(this.getRpcUrl());
+      const provider = getRpcProvider(this.network);
 
       for (const methodId of proxyPatterns) {
         try {
@@ -191,7 +195,7 @@ export class TransactionDecoder {
 
             if (implementationAddress !== '0x0000000000000000000000000000000000000000') {
               // Recursively fetch ABI from implementation
-              const implABI = await this.fetchFromEtherscan(implementationAddress);
+              const implABI = await this.fetchFromExplorers(implementationAddress);
               if (implABI) {
                 return {
                   ...implABI,
@@ -213,56 +217,26 @@ export class TransactionDecoder {
   }
 
   /**
-   * Try alternative API sources for ABI
-   */
-  private async fetchFromAlternativeAPIs(contractAddress: string): Promise<ContractInfo | null> {
-    // For now, we could add other sources like:
-    // - 4byte.directory for function signatures
-    // - Sourcify
-    // - Custom ABI databases
-
-    // This would need the actual method ID from transaction data
-    // For now, return null and rely on common signatures
-    return null;
-  }
-
-  /**
-   * Get RPC URL for the current network
+   * Decode transaction data for user-friendly display
    */
-  private getRpcUrl(): string {
-    // Import the configured RPC URL function
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const { getConfiguredRpcUrl } = require('../contracts/abis');
-      return getConfiguredRpcUrl(this.network);
-    } catch (error) {
-      // Fallback to default logic if import fails
-      const ALCHEMY_KEY = process.env.REACT_APP_ALCHEMY_KEY || 'YOUR_ALCHEMY_KEY';
-
-      switch(this.network.toLowerCase()) {
-        case 'arbitrum':
-          return 'https://arb1.arbitrum.io/rpc';
-        case 'sepolia':
-          return ALCHEMY_KEY !== 'YOUR_ALCHEMY_KEY'
-            ? `https://eth-sepolia.g.alchemy.com/v2/${ALCHEMY_KEY}`
-            : 'https://ethereum-sepolia-rpc.publicnode.com';
-        case 'ethereum':
-        default:
-          return ALCHEMY_KEY !== 'YOUR_ALCHEMY_KEY'
-            ? `https://eth-mainnet.g.alchemy.com/v2/${ALCHEMY_KEY}`
-            : 'https://ethereum-rpc.publicnode.com';
-      }
-    }
+  async decodeTransactionData(
+    to: string,
+    value: string,
+    data: string,
+    recipient?: string
+  ): Promise<DecodedTransactionData> {
+    return this.decodeAtDepth(to, value, data, recipient, 0);
   }
 
   /**
-   * Decode transaction data for user-friendly display
+   * Decode a call at a given depth of the decoding tree
    */
-  async decodeTransactionData(
+  private async decodeAtDepth(
     to: string,
     value: string,
     data: string,
-    recipient?: string
+    recipient: string | undefined,
+    depth: number
   ): Promise<DecodedTransactionData> {
     try {
       console.log('🔍 DECODING TRANSACTION:');
@@ -289,10 +263,22 @@ export class TransactionDecoder {
         const methodId = data.slice(0, 10);
         console.log('  methodId:', methodId);
 
+        const wrapsCalls = methodId === TransactionDecoder.EXEC_TRANSACTION_SELECTOR ||
+          methodId === TransactionDecoder.PROPOSE_TX_SELECTOR ||
+          MultiSendService.isMultiSendData(data);
+
+        if (wrapsCalls && depth >= this.maxDepth) {
+          console.log(`⚠️ Maximum decoding depth ${this.maxDepth} reached, not decoding nested calls`);
+          const flatResult = await this.decodeContractCall(to, data);
+          if (flatResult) {
+            return { ...flatResult, details: { ...flatResult.details, innerCallsTruncated: true } };
+          }
+        }
+
         // Check if this is a Safe execTransaction call first
-        if (methodId === '0x6a761202') {
+        if (methodId === TransactionDecoder.EXEC_TRANSACTION_SELECTOR && depth < this.maxDepth) {
           console.log('🔍 Detected Safe execTransaction, decoding...');
-          const safeInnerTx = this.decodeSafeExecTransaction(data);
+          const safeInnerTx = await this.decodeSafeExecTransaction(to, data, depth);
           if (safeInnerTx) {
             console.log('✅ Safe inner transaction decoded:', safeInnerTx);
             return safeInnerTx;
@@ -300,14 +286,51 @@ export class TransactionDecoder {
           console.log('❌ Failed to decode Safe inner transaction');
         }
 
+        // SafeTxPool proposal wrapping the Safe transaction to be signed
+        if (methodId === TransactionDecoder.PROPOSE_TX_SELECTOR && depth < this.maxDepth) {
+          console.log('🔍 Detected SafeTxPool proposeTx, decoding...');
+          const proposal = await this.decodeSafeTxPoolProposeTx(to, data, depth);
+          if (proposal) {
+            return proposal;
+          }
+          console.log('❌ Failed to decode proposed transaction');
+        }
+
+        // MultiSend batch: 0x8d80ff0a
+        if (MultiSendService.isMultiSendData(data) && depth < this.maxDepth) {
+          console.log('🔍 Detected MultiSend batch, decoding sub-calls...');
+          const batchTx = await this.decodeMultiSend(to, data, depth);
+          if (batchTx) {
+            return batchTx;
+          }
+          console.log('❌ Failed to decode MultiSend batch');
+        }
+
         // ERC-20 transfer: 0xa9059cbb
         if (methodId === '0xa9059cbb') {
           console.log('🔍 Detected ERC20 transfer');
           return await this.decodeERC20Transfer(to, data);
         }
 
-        // ERC-20 transferFrom: 0x23b872dd
+        // ERC-721 and ERC-1155 safe transfers
+        const nftMethod = TransactionDecoder.NFT_TRANSFER_METHODS[methodId];
+        if (nftMethod) {
+          console.log(`🔍 Detected ${nftMethod.standard.toUpperCase()} ${nftMethod.signature}`);
+          const nftTransfer = await this.decodeNftTransfer(to, data, nftMethod.standard, nftMethod.signature);
+          if (nftTransfer) {
+            return nftTransfer;
+          }
+        }
+
+        // transferFrom: 0x23b872dd, ERC-721 when the contract reports it with ERC-165
         if (methodId === '0x23b872dd') {
+          if (await this.nftService.getStandard(to) === 'erc721') {
+            console.log('🔍 Detected ERC721 transferFrom');
+            const nftTransfer = await this.decodeNftTransfer(to, data, 'erc721', 'transferFrom(address,address,uint256)');
+            if (nftTransfer) {
+              return nftTransfer;
+            }
+          }
           console.log('🔍 Detected ERC20 transferFrom');
           return await this.decodeERC20TransferFrom(to, data);
         }
@@ -362,83 +385,89 @@ export class TransactionDecoder {
   }
 
   /**
-   * Decode Safe execTransaction to extract the inner transaction
+   * Decode a call wrapped by another one as a node of the decoding tree
    */
-  private decodeSafeExecTransaction(data: string): DecodedTransactionData | null {
-    try {
-      // Safe execTransaction ABI - use the complete ABI from our contracts
-      const safeInterface = new ethers.utils.Interface(SAFE_ABI);
+  private async decodeInnerCall(
+    to: string,
+    value: ethers.BigNumberish,
+    data: string,
+    operation: number,
+    depth: number
+  ): Promise<DecodedInnerCall> {
+    const innerValue = ethers.BigNumber.from(value).toString();
+    const decoded = await this.decodeAtDepth(to, innerValue, data, to, depth + 1);
+    return { to, value: innerValue, data, operation, decoded };
+  }
 
-      const decoded = safeInterface.decodeFunctionData('execTransaction', data);
-      const innerTo = decoded.to;
-      const innerValue = decoded.value;
-      const innerData = decoded.data;
-      const operation = decoded.operation;
+  /**
+   * Decode a MultiSend batch, decoding each packed sub-call individually
+   */
+  private async decodeMultiSend(contractAddress: string, data: string, depth: number): Promise<DecodedTransactionData | null> {
+    try {
+      const calls = MultiSendService.decodeMultiSendTxData(data);
 
-      console.log('🔍 Safe execTransaction decoded:', {
-        to: innerTo,
-        value: innerValue.toString(),
-        dataLength: innerData.length,
-        operation: operation.toString()
-      });
+      const innerCalls: DecodedInnerCall[] = [];
+      for (const call of calls) {
+        innerCalls.push(await this.decodeInnerCall(call.to, call.value, call.data, call.operation, depth));
+      }
 
-      // If there's inner transaction data, decode that with the TARGET CONTRACT (innerTo)
-      if (innerData && innerData !== '0x' && innerData.length > 10) {
-        const innerMethodId = innerData.slice(0, 10);
-        console.log(`🔍 Inner transaction method ID: ${innerMethodId} to contract: ${innerTo}`);
-
-        // Check for common Safe operations first (self-calls to the Safe contract)
-        // Note: We need to get the Safe address from the transaction context
-        // For now, we'll check if this looks like a Safe method call
-        const safeMethodDecoded = this.decodeSafeMethod(innerMethodId, innerData);
-        if (safeMethodDecoded) {
-          return safeMethodDecoded;
+      return {
+        type: 'CONTRACT_CALL',
+        description: `📦 Batch of ${calls.length} call${calls.length === 1 ? '' : 's'}`,
+        details: {
+          method: MultiSendService.MULTI_SEND_SELECTOR,
+          methodName: 'multiSend',
+          recipient: contractAddress,
+          contractName: 'MultiSendCallOnly',
+          functionSignature: 'multiSend(bytes)',
+          functionType: 'batch',
+          innerCalls
         }
+      };
+    } catch (error) {
+      console.error('Error decoding MultiSend batch:', error);
+      return null;
+    }
+  }
 
-        // Decode the inner transaction using the TARGET CONTRACT ADDRESS (innerTo), not the Safe address
-        const innerDecoded = this.decodeKnownMethod(innerMethodId, innerTo, innerData);
-
-        if (innerDecoded) {
-          // Return the inner transaction details with the target contract
-          return innerDecoded;
-        }
+  /**
+   * Decode Safe execTransaction with the executed transaction as its inner call
+   */
+  private async decodeSafeExecTransaction(safeAddress: string, data: string, depth: number): Promise<DecodedTransactionData | null> {
+    try {
+      const safeInterface = new ethers.utils.Interface(SAFE_ABI);
+      const decoded = safeInterface.decodeFunctionData('execTransaction', data);
 
-        // If not a known method, try to decode using the target contract's ABI
-        // This would require async call, so for now return generic info with target contract
-        return {
-          type: 'CONTRACT_CALL',
-          description: 'Contract Interaction',
-          details: {
-            method: innerMethodId,
-            methodName: 'Unknown Method',
-            recipient: innerTo, // This is the TARGET contract, not the Safe
-            contractName: this.getContractName(innerTo)
-          }
-        };
-      }
+      console.log('🔍 Safe execTransaction decoded:', {
+        to: decoded.to,
+        value: decoded.value.toString(),
+        dataLength: decoded.data.length,
+        operation: decoded.operation.toString()
+      });
 
-      // If no inner data or couldn't decode, show ETH transfer to target
-      if (innerValue && innerValue.toString() !== '0') {
-        const ethAmount = ethers.utils.formatEther(innerValue);
-        return {
-          type: 'ETH_TRANSFER',
-          description: `Send ${ethAmount} ETH`,
-          details: {
-            amount: innerValue.toString(),
-            formattedAmount: `${ethAmount} ETH`,
-            recipient: innerTo // This is the TARGET recipient, not the Safe
-          }
-        };
-      }
+      const innerCall = await this.decodeInnerCall(decoded.to, decoded.value, decoded.data, Number(decoded.operation), depth);
 
-      // Generic contract interaction with target
       return {
         type: 'CONTRACT_CALL',
-        description: 'Contract Interaction',
+        description: `Execute Safe transaction: ${innerCall.decoded.description}`,
         details: {
-          method: '0x6a761202',
+          method: TransactionDecoder.EXEC_TRANSACTION_SELECTOR,
           methodName: 'execTransaction',
-          recipient: innerTo // This is the TARGET contract, not the Safe
+          recipient: safeAddress,
+          decodedInputs: [
+            { name: 'to', type: 'address', value: decoded.to, description: 'Target address' },
+            { name: 'value', type: 'uint256', value: decoded.value.toString(), description: 'ETH value' },
+            { name: 'operation', type: 'uint8', value: decoded.operation.toString(), description: 'Operation type' },
+            { name: 'safeTxGas', type: 'uint256', value: decoded.safeTxGas.toString(), description: 'Gas for the Safe transaction' },
+            { name: 'baseGas', type: 'uint256', value: decoded.baseGas.toString(), description: 'Gas costs independent of the transaction' },
+            { name: 'gasPrice', type: 'uint256', value: decoded.gasPrice.toString(), description: 'Gas price used for the refund' },
+            { name: 'gasToken', type: 'address', value: decoded.gasToken, description: 'Token used for the refund' },
+            { name: 'refundReceiver', type: 'address', value: decoded.refundReceiver, description: 'Refund receiver' }
+          ],
+          contractName: 'Safe',
+          functionSignature: safeInterface.getFunction('execTransaction').format(),
+          abiSource: 'verified',
+          innerCalls: [innerCall]
         }
       };
 
@@ -495,6 +524,26 @@ export class TransactionDecoder {
             };
           } catch (e) { break; }
 
+        case '0xe318b52b': // swapOwner
+          try {
+            const decoded = safeInterface.decodeFunctionData('swapOwner', data);
+            return {
+              type: 'CONTRACT_CALL',
+              description: `Replace ${this.formatAddress(decoded.oldOwner)} with ${this.formatAddress(decoded.newOwner)}`,
+              details: {
+                method: methodId,
+                methodName: 'swapOwner',
+                decodedInputs: [
+                  { name: 'prevOwner', type: 'address', value: decoded.prevOwner, description: 'Previous owner in linked list' },
+                  { name: 'oldOwner', type: 'address', value: decoded.oldOwner, description: 'Owner to replace' },
+                  { name: 'newOwner', type: 'address', value: decoded.newOwner, description: 'Replacement owner' }
+                ],
+                contractName: 'Safe Wallet',
+                functionType: 'Owner Management'
+              }
+            };
+          } catch (e) { break; }
+
         case '0x694e80c3': // changeThreshold
           try {
             const decoded = safeInterface.decodeFunctionData('changeThreshold', data);
@@ -541,66 +590,33 @@ export class TransactionDecoder {
   }
 
   /**
-   * Decode SafeTxPool proposeTx to extract the actual target transaction
+   * Decode SafeTxPool proposeTx with the proposed Safe transaction as its inner call
    */
-  private decodeSafeTxPoolProposeTx(data: string): DecodedTransactionData | null {
+  private async decodeSafeTxPoolProposeTx(registryAddress: string, data: string, depth: number): Promise<DecodedTransactionData | null> {
     try {
-      // SafeTxPool proposeTx ABI
-      const proposeTxInterface = new ethers.utils.Interface([
-        'function proposeTx(bytes32 txHash, address safe, address to, uint256 value, bytes calldata data, uint8 operation, uint256 nonce)'
-      ]);
-
-      const decoded = proposeTxInterface.decodeFunctionData('proposeTx', data);
-      const targetTo = decoded.to;
-      const targetValue = decoded.value;
-      const targetData = decoded.data;
-
-      // If there's target transaction data, decode that
-      if (targetData && targetData !== '0x' && targetData.length > 10) {
-        const targetMethodId = targetData.slice(0, 10);
-
-        // Decode the target transaction using the actual target contract
-        const targetDecoded = this.decodeKnownMethod(targetMethodId, targetTo, targetData);
-
-        if (targetDecoded) {
-          return targetDecoded;
-        }
-
-        // If not a known method, return generic info with target contract
-        return {
-          type: 'CONTRACT_CALL',
-          description: 'Contract Interaction',
-          details: {
-            method: targetMethodId,
-            methodName: 'Unknown Method',
-            recipient: targetTo,
-            contractName: this.getContractName(targetTo)
-          }
-        };
-      }
-
-      // If no target data, show ETH transfer to target
-      if (targetValue && targetValue.toString() !== '0') {
-        const ethAmount = ethers.utils.formatEther(targetValue);
-        return {
-          type: 'ETH_TRANSFER',
-          description: `Send ${ethAmount} ETH`,
-          details: {
-            amount: targetValue.toString(),
-            formattedAmount: `${ethAmount} ETH`,
-            recipient: targetTo
-          }
-        };
-      }
+      const decoded = TransactionDecoder.registryInterface.decodeFunctionData('proposeTx', data);
+      const innerCall = await this.decodeInnerCall(decoded.to, decoded.value, decoded.data, Number(decoded.operation), depth);
 
-      // Generic target interaction
       return {
         type: 'CONTRACT_CALL',
-        description: 'Contract Interaction',
+        description: `Propose Safe transaction: ${innerCall.decoded.description}`,
         details: {
-          method: '0x10ff18f9',
+          method: TransactionDecoder.PROPOSE_TX_SELECTOR,
           methodName: 'proposeTx',
-          recipient: targetTo
+          recipient: registryAddress,
+          decodedInputs: [
+            { name: 'txHash', type: 'bytes32', value: decoded.txHash, description: 'Transaction hash' },
+            { name: 'safe', type: 'address', value: decoded.safe, description: 'Safe wallet address' },
+            { name: 'to', type: 'address', value: decoded.to, description: 'Target address' },
+            { name: 'value', type: 'uint256', value: decoded.value.toString(), description: 'ETH value' },
+            { name: 'operation', type: 'uint8', value: decoded.operation.toString(), description: 'Operation type' },
+            { name: 'nonce', type: 'uint256', value: decoded.nonce.toString(), description: 'Safe nonce' }
+          ],
+          contractName: 'SafeTxPoolRegistry',
+          functionSignature: TransactionDecoder.registryInterface.getFunction('proposeTx').format(),
+          functionType: 'Transaction Management',
+          abiSource: 'verified',
+          innerCalls: [innerCall]
         }
       };
 
@@ -779,7 +795,8 @@ export class TransactionDecoder {
       console.log('✅ Matched SafeTxPoolRegistry contract!');
       return {
         name: 'SafeTxPoolRegistry',
-        abi: SAFE_TX_POOL_REGISTRY_ABI
+        abi: SAFE_TX_POOL_REGISTRY_ABI,
+        source: 'verified'
       };
     }
 
@@ -788,6 +805,14 @@ export class TransactionDecoder {
     return null;
   }
 
+  /**
+   * Get the ABI the user supplied for a contract on the current network
+   */
+  private getUserContractInfo(address: string): ContractInfo | null {
+    const userAbi = userAbiService.getAbi(this.network, address);
+    return userAbi ? { abi: userAbi.abi, name: userAbi.name, source: 'user' } : null;
+  }
+
   /**
    * Get contract name based on address
    */
@@ -798,8 +823,7 @@ export class TransactionDecoder {
     }
 
     // Check if this is a SafeTxPoolRegistry address from configuration
-    const networks = ['ethereum', 'sepolia', 'arbitrum'];
-    for (const network of networks) {
+    for (const network of getSupportedNetworks()) {
       const safeTxPoolRegistryAddress = getSafeTxPoolRegistryAddress(network);
       if (safeTxPoolRegistryAddress && address.toLowerCase() === safeTxPoolRegistryAddress.toLowerCase()) {
         return 'SafeTxPoolRegistry';
@@ -836,29 +860,41 @@ export class TransactionDecoder {
         console.log('❌ Not a known contract');
       }
 
-      // SECOND: Try to get ABI from Etherscan
-      console.log('🔍 Step 1: Trying Etherscan ABI fetching...');
+      // Then an ABI supplied by the user, it takes precedence over explorer lookups
+      const userContractInfo = this.getUserContractInfo(contractAddress);
+      if (userContractInfo) {
+        console.log(`✅ Found user-supplied ABI: ${userContractInfo.name}`);
+        const result = await this.decodeWithABI(userContractInfo, contractAddress, data);
+        if (result) {
+          console.log('✅ User ABI decoding successful');
+          return result;
+        }
+        console.log('❌ User ABI decoding failed');
+      }
+
+      // SECOND: Try to get ABI from the block explorers
+      console.log('🔍 Step 1: Trying block explorer ABI fetching...');
       const contractInfo = await this.fetchContractABI(contractAddress);
       if (contractInfo) {
-        console.log(`✅ ABI fetched from Etherscan for ${contractInfo.name}`);
+        console.log(`✅ ABI fetched for ${contractInfo.name}`);
         const result = await this.decodeWithABI(contractInfo, contractAddress, data);
         if (result) {
-          console.log('✅ Etherscan ABI-based decoding successful');
+          console.log('✅ Explorer ABI-based decoding successful');
           return result;
         }
-        console.log('❌ Etherscan ABI-based decoding failed');
+        console.log('❌ Explorer ABI-based decoding failed');
       } else {
-        console.log('❌ No ABI available from Etherscan');
+        console.log('❌ No ABI available from block explorers');
       }
 
-      // THIRD: Try common function signatures
-      console.log('🔍 Step 2: Trying common signatures...');
-      const result = await this.decodeWithCommonSignatures(contractAddress, data);
+      // THIRD: Try the offline signature dictionary
+      console.log('🔍 Step 2: Trying signature dictionary...');
+      const result = await this.decodeWithSignatureDictionary(contractAddress, data);
       if (result) {
-        console.log('✅ Common signature decoding successful');
+        console.log('✅ Signature dictionary decoding successful');
         return result;
       }
-      console.log('❌ Common signature decoding failed');
+      console.log('❌ Signature dictionary decoding failed');
 
       // FOURTH: Try Safe contract methods before falling back to basic signature
       console.log('🔍 Step 3: Trying Safe contract methods...');
@@ -966,7 +1002,8 @@ export class TransactionDecoder {
           stateMutability: functionFragment.stateMutability,
           gasEstimate: functionAnalysis.gasEstimate,
           riskLevel: functionAnalysis.riskLevel,
-          functionType: functionAnalysis.functionType
+          functionType: functionAnalysis.functionType,
+          abiSource: contractInfo.source
         }
       };
 
@@ -1081,95 +1118,44 @@ export class TransactionDecoder {
   }
 
   /**
-   * Decode using common function signatures database
+   * Decode using the bundled offline signature dictionary
    */
-  private async decodeWithCommonSignatures(contractAddress: string, data: string): Promise<DecodedTransactionData | null> {
+  private async decodeWithSignatureDictionary(contractAddress: string, data: string): Promise<DecodedTransactionData | null> {
     const methodId = data.slice(0, 10);
 
-    // Expanded database of common function signatures
-    const commonSignatures: { [key: string]: { signature: string; name: string; inputs: Array<{name: string, type: string}> } } = {
-      // ERC20 functions
-      '0xa9059cbb': { signature: 'transfer(address,uint256)', name: 'transfer', inputs: [{name: 'to', type: 'address'}, {name: 'amount', type: 'uint256'}] },
-      '0x23b872dd': { signature: 'transferFrom(address,address,uint256)', name: 'transferFrom', inputs: [{name: 'from', type: 'address'}, {name: 'to', type: 'address'}, {name: 'amount', type: 'uint256'}] },
-      '0x095ea7b3': { signature: 'approve(address,uint256)', name: 'approve', inputs: [{name: 'spender', type: 'address'}, {name: 'amount', type: 'uint256'}] },
-
-      // Common DeFi functions
-      '0x38ed1739': { signature: 'swapExactTokensForTokens(uint256,uint256,address[],address,uint256)', name: 'swapExactTokensForTokens', inputs: [{name: 'amountIn', type: 'uint256'}, {name: 'amountOutMin', type: 'uint256'}, {name: 'path', type: 'address[]'}, {name: 'to', type: 'address'}, {name: 'deadline', type: 'uint256'}] },
-      '0x7ff36ab5': { signature: 'swapExactETHForTokens(uint256,address[],address,uint256)', name: 'swapExactETHForTokens', inputs: [{name: 'amountOutMin', type: 'uint256'}, {name: 'path', type: 'address[]'}, {name: 'to', type: 'address'}, {name: 'deadline', type: 'uint256'}] },
-      '0x18cbafe5': { signature: 'swapExactTokensForETH(uint256,uint256,address[],address,uint256)', name: 'swapExactTokensForETH', inputs: [{name: 'amountIn', type: 'uint256'}, {name: 'amountOutMin', type: 'uint256'}, {name: 'path', type: 'address[]'}, {name: 'to', type: 'address'}, {name: 'deadline', type: 'uint256'}] },
-
-      // Staking functions
-      '0xa694fc3a': { signature: 'stake(uint256)', name: 'stake', inputs: [{name: 'amount', type: 'uint256'}] },
-      '0x2e1a7d4d': { signature: 'withdraw(uint256)', name: 'withdraw', inputs: [{name: 'amount', type: 'uint256'}] },
-      '0x3d18b912': { signature: 'getReward()', name: 'getReward', inputs: [] },
-
-      // NFT functions
-      '0x42842e0e': { signature: 'safeTransferFrom(address,address,uint256)', name: 'safeTransferFrom', inputs: [{name: 'from', type: 'address'}, {name: 'to', type: 'address'}, {name: 'tokenId', type: 'uint256'}] },
-      '0xb88d4fde': { signature: 'safeTransferFrom(address,address,uint256,bytes)', name: 'safeTransferFrom', inputs: [{name: 'from', type: 'address'}, {name: 'to', type: 'address'}, {name: 'tokenId', type: 'uint256'}, {name: 'data', type: 'bytes'}] },
-
-      // Governance functions
-      '0x15373e3d': { signature: 'vote(uint256,bool)', name: 'vote', inputs: [{name: 'proposalId', type: 'uint256'}, {name: 'support', type: 'bool'}] },
-      '0x56781388': { signature: 'castVote(uint256,uint8)', name: 'castVote', inputs: [{name: 'proposalId', type: 'uint256'}, {name: 'support', type: 'uint8'}] },
-
-      // Safe functions
-      '0x6a761202': { signature: 'execTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes)', name: 'execTransaction', inputs: [{name: 'to', type: 'address'}, {name: 'value', type: 'uint256'}, {name: 'data', type: 'bytes'}, {name: 'operation', type: 'uint8'}, {name: 'safeTxGas', type: 'uint256'}, {name: 'baseGas', type: 'uint256'}, {name: 'gasPrice', type: 'uint256'}, {name: 'gasToken', type: 'address'}, {name: 'refundReceiver', type: 'address'}, {name: 'signatures', type: 'bytes'}] },
-
-      // Safe wallet management functions
-      '0x0d582f13': { signature: 'addOwnerWithThreshold(address,uint256)', name: 'addOwnerWithThreshold', inputs: [{name: 'owner', type: 'address'}, {name: '_threshold', type: 'uint256'}] },
-      '0xf8dc5dd9': { signature: 'removeOwner(address,address,uint256)', name: 'removeOwner', inputs: [{name: 'prevOwner', type: 'address'}, {name: 'owner', type: 'address'}, {name: '_threshold', type: 'uint256'}] },
-      '0x694e80c3': { signature: 'changeThreshold(uint256)', name: 'changeThreshold', inputs: [{name: '_threshold', type: 'uint256'}] },
-      '0x7de7edef': { signature: 'addOwner(address)', name: 'addOwner', inputs: [{name: 'owner', type: 'address'}] },
-      '0x468721a7': { signature: 'swapOwner(address,address,address)', name: 'swapOwner', inputs: [{name: 'prevOwner', type: 'address'}, {name: 'oldOwner', type: 'address'}, {name: 'newOwner', type: 'address'}] },
-
-      // Address book management functions
-      '0x09959f6b': { signature: 'addAddressBookEntry(address,address,bytes32)', name: 'addAddressBookEntry', inputs: [{name: 'safe', type: 'address'}, {name: 'walletAddress', type: 'address'}, {name: 'name', type: 'bytes32'}] },
-      '0x10ff18f9': { signature: 'removeAddressBookEntry(address,address)', name: 'removeAddressBookEntry', inputs: [{name: 'safe', type: 'address'}, {name: 'walletAddress', type: 'address'}] },
-
-      // SafeTxPool functions
-      '0x0f1b1cd2': { signature: 'signTransaction(bytes32,bytes)', name: 'signTransaction', inputs: [{name: 'txHash', type: 'bytes32'}, {name: 'signature', type: 'bytes'}] },
-      '0xfab3dfaa': { signature: 'executeTransaction(bytes32)', name: 'executeTransaction', inputs: [{name: 'txHash', type: 'bytes32'}] },
-      '0xa4c9b0ca': { signature: 'cancelTransaction(bytes32)', name: 'cancelTransaction', inputs: [{name: 'txHash', type: 'bytes32'}] },
-
-      // Common utility functions
-      '0x70a08231': { signature: 'balanceOf(address)', name: 'balanceOf', inputs: [{name: 'owner', type: 'address'}] },
-      '0xdd62ed3e': { signature: 'allowance(address,address)', name: 'allowance', inputs: [{name: 'owner', type: 'address'}, {name: 'spender', type: 'address'}] },
-      '0x18160ddd': { signature: 'totalSupply()', name: 'totalSupply', inputs: [] },
-    };
-
-    const functionInfo = commonSignatures[methodId];
-    if (!functionInfo) {
-      return null;
-    }
-
     try {
-      // Create interface from signature
-      const iface = new ethers.utils.Interface([`function ${functionInfo.signature}`]);
-      const decodedData = iface.decodeFunctionData(functionInfo.name, data);
+      const call = await signatureDictionaryService.decodeFunctionCall(data);
+      if (!call) {
+        return null;
+      }
 
       // Format the decoded inputs
-      const decodedInputs = functionInfo.inputs.map((input, index) => ({
-        name: input.name,
-        type: input.type,
-        value: this.formatParameterValue(decodedData[index], input.type)
+      const decodedInputs = call.params.map(param => ({
+        name: param.name,
+        type: param.type,
+        value: this.formatParameterValue(param.value, param.type)
       }));
 
-      // Create description based on function type
-      const description = this.createMethodDescription(functionInfo.name, decodedInputs, this.getContractName(contractAddress));
+      const contractName = this.getContractName(contractAddress);
+      const description = this.createMethodDescription(call.name, decodedInputs, contractName);
 
       return {
         type: 'CONTRACT_CALL',
         description,
         details: {
           method: methodId,
-          methodName: functionInfo.name,
+          methodName: call.name,
           recipient: contractAddress,
-          parameters: Array.from(decodedData),
+          parameters: Array.from(call.args),
           decodedInputs,
-          contractName: this.getContractName(contractAddress)
+          contractName,
+          functionSignature: call.signature,
+          abiSource: 'guessed'
         }
       };
 
     } catch (error) {
+      console.log('❌ Signature dictionary decoding failed:', error);
       return null;
     }
   }
@@ -1210,7 +1196,8 @@ export class TransactionDecoder {
         methodName: `Unknown Function`,
         recipient: contractAddress,
         decodedInputs,
-        contractName: this.getContractName(contractAddress)
+        contractName: this.getContractName(contractAddress),
+        abiSource: 'guessed'
       }
     };
   }
@@ -1479,7 +1466,7 @@ export class TransactionDecoder {
           const oldOwner = inputs.find(i => i.name === 'oldOwner')?.value;
           const newOwner = inputs.find(i => i.name === 'newOwner')?.value;
           if (oldOwner && newOwner) {
-            return `🔄 Replace Owner ${this.formatAddress(oldOwner)} with ${this.formatAddress(newOwner)}`;
+            return `🔄 Replace ${this.formatAddress(oldOwner)} with ${this.formatAddress(newOwner)}`;
           }
         }
         return `🔄 Replace Safe Owner`;
@@ -1679,6 +1666,62 @@ export class TransactionDecoder {
     }
   }
 
+  /**
+   * Decode ERC-721 and ERC-1155 transfers, including the token ids and amounts
+   */
+  private async decodeNftTransfer(
+    contractAddress: string,
+    data: string,
+    standard: NftStandard,
+    signature: string
+  ): Promise<DecodedTransactionData | null> {
+    try {
+      const nftInterface = new ethers.utils.Interface(standard === 'erc721' ? ERC721_ABI : ERC1155_ABI);
+      const fragment = nftInterface.getFunction(signature);
+      const decoded = nftInterface.decodeFunctionData(fragment, data);
+
+      const tokenIds: string[] = (fragment.name === 'safeBatchTransferFrom' ? decoded.ids : [decoded[2]])
+        .map((id: ethers.BigNumber) => id.toString());
+      const amounts: string[] = standard === 'erc721'
+        ? tokenIds.map(() => '1')
+        : (fragment.name === 'safeBatchTransferFrom' ? decoded.amounts : [decoded.amount]).map((amount: ethers.BigNumber) => amount.toString());
+
+      const collection = await this.nftService.getCollectionInfo(contractAddress);
+      const collectionName = collection.name || collection.symbol || 'NFT';
+      const items = tokenIds.map((id, index) => standard === 'erc1155' && amounts[index] !== '1' ? `${amounts[index]} × #${id}` : `#${id}`);
+
+      return {
+        type: 'NFT_TRANSFER',
+        description: `Transfer ${collectionName} ${items.join(', ')}`,
+        details: {
+          nft: {
+            standard,
+            contractAddress,
+            collectionName: collection.name,
+            tokenIds,
+            amounts
+          },
+          recipient: decoded.to,
+          method: data.slice(0, 10),
+          methodName: fragment.name,
+          decodedInputs: fragment.inputs.map((input, index) => ({
+            name: input.name,
+            type: input.type,
+            value: ethers.BigNumber.isBigNumber(decoded[index]) ? decoded[index].toString()
+              : Array.isArray(decoded[index]) ? decoded[index].map((value: any) => value.toString()) : decoded[index]
+          })),
+          contractName: collection.name,
+          functionSignature: fragment.format(),
+          functionType: 'transfer',
+          abiSource: 'verified'
+        }
+      };
+    } catch (error) {
+      console.error('Error decoding NFT transfer:', error);
+      return null;
+    }
+  }
+
   /**
    * Decode ERC-20 approve function call
    */
@@ -1,3 +1,5 @@
+import { getBlockExplorerUrl, getChainConfigOrDefault } from '../config/chains';
+
 /**
  * Formats a wallet address to a shortened display format (0x1234...abcd)
  * @param address The full wallet address
@@ -50,49 +52,33 @@ export const getTokenTypeLabel = (type: 'native' | 'erc20'): string => {
 /**
  * Generates a URL for an Etherscan address page
  * @param address The wallet address
- * @param network The network (e.g., 'ethereum', 'sepolia', 'arbitrum')
+ * @param network The network (see config/chains.ts)
  * @returns URL to view the address on Etherscan
  */
 export const getEtherscanAddressUrl = (address: string, network: string): string => {
-  switch(network.toLowerCase()) {
-    case 'arbitrum':
-      return `https://arbiscan.io/address/${address}`;
-    case 'sepolia':
-      return `https://sepolia.etherscan.io/address/${address}`;
-    case 'ethereum':
-    default:
-      return `https://etherscan.io/address/${address}`;
-  }
+  return `${getBlockExplorerUrl(network)}/address/${address}`;
 };
 
 /**
  * Generates a URL for an Etherscan transaction page
  * @param txHash The transaction hash
- * @param network The network (e.g., 'ethereum', 'sepolia', 'arbitrum')
+ * @param network The network (see config/chains.ts)
  * @returns URL to view the transaction on Etherscan
  */
 export const getEtherscanTransactionUrl = (txHash: string, network: string): string => {
-  switch(network.toLowerCase()) {
-    case 'arbitrum':
-      return `https://arbiscan.io/tx/${txHash}`;
-    case 'sepolia':
-      return `https://sepolia.etherscan.io/tx/${txHash}`;
-    case 'ethereum':
-    default:
-      return `https://etherscan.io/tx/${txHash}`;
-  }
+  return `${getBlockExplorerUrl(network)}/tx/${txHash}`;
 };
 
 /**
  * Generates a URL for Safe transaction details
  * @param safeAddress The Safe address
  * @param safeTxHash The Safe transaction hash
- * @param network The network (e.g., 'ethereum', 'sepolia', 'arbitrum')
+ * @param network The network (see config/chains.ts)
  * @returns URL to view the Safe transaction
  */
 export const getSafeTransactionUrl = (safeAddress: string, safeTxHash: string, network: string): string => {
-  const networkPrefix = network.toLowerCase() === 'ethereum' ? '' : `${network.toLowerCase()}.`;
-  return `https://${networkPrefix}app.safe.global/transactions/tx?safe=${network.toLowerCase()}:${safeAddress}&id=multisig_${safeAddress}_${safeTxHash}`;
+  const { safeAppPrefix } = getChainConfigOrDefault(network);
+  return `https://app.safe.global/transactions/tx?safe=${safeAppPrefix}:${safeAddress}&id=multisig_${safeAddress}_${safeTxHash}`;
 };
 
 /**